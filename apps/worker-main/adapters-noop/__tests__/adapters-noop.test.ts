@@ -6,6 +6,7 @@ import {
   createNoopPorts,
   createNoopRateLimitPort,
   createNoopStoragePort,
+  createNoopTranscriptionPort,
 } from '../index';
 
 describe('adapters-noop', () => {
@@ -118,6 +119,20 @@ describe('adapters-noop', () => {
     ).toBe(true);
   });
 
+  it('transcription adapter returns empty transcript and logs warning', async () => {
+    const transcription = createNoopTranscriptionPort();
+
+    await expect(
+      transcription.transcribe({ audio: new ArrayBuffer(4), fileName: 'voice.oga' }),
+    ).resolves.toEqual({ text: '' });
+
+    expect(
+      warnSpy.mock.calls.some(([message]) =>
+        typeof message === 'string' && message.includes('transcription.transcribe'),
+      ),
+    ).toBe(true);
+  });
+
   it('createNoopPorts shares the same fallback text across adapters', async () => {
     const ports = createNoopPorts({ fallbackText: 'custom fallback' });
 
@@ -4,6 +4,7 @@ import type {
   RateLimitPort,
   StoragePort,
   StoredMessage,
+  TranscriptionPort,
   UserProfile,
 } from '../ports';
 
@@ -76,9 +77,15 @@ export const createNoopMessagingPort = (
     async editMessageText(input) {
       warn('messaging.editMessageText', 'pretend to edit message', input);
     },
+    async editMessageCaption(input) {
+      warn('messaging.editMessageCaption', 'pretend to edit caption', input);
+    },
     async deleteMessage(input) {
       warn('messaging.deleteMessage', 'pretend to delete message', input);
     },
+    async answerCallbackQuery(input) {
+      warn('messaging.answerCallbackQuery', 'pretend to answer callback query', input);
+    },
   };
 };
 
@@ -136,11 +143,22 @@ export const createNoopRateLimitPort = (): RateLimitPort => ({
   },
 });
 
+export const createNoopTranscriptionPort = (): TranscriptionPort => ({
+  async transcribe(input) {
+    warn('transcription.transcribe', 'return empty transcript', {
+      fileName: input.fileName,
+      bytes: input.audio.byteLength,
+    });
+    return { text: '' };
+  },
+});
+
 export type NoopPorts = {
   messaging: MessagingPort;
   ai: AiPort;
   storage: StoragePort;
   rateLimit: RateLimitPort;
+  transcription: TranscriptionPort;
 };
 
 export const createNoopPorts = (options?: CreateNoopPortsOptions): NoopPorts => ({
@@ -148,4 +166,5 @@ export const createNoopPorts = (options?: CreateNoopPortsOptions): NoopPorts =>
   ai: createNoopAiPort(options),
   storage: createNoopStoragePort(),
   rateLimit: createNoopRateLimitPort(),
+  transcription: createNoopTranscriptionPort(),
 });
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { MessagingPort } from '../../ports';
+import { createQueuedMessagingPort } from '../messaging-quota';
+
+const createMessaging = (): MessagingPort => ({
+  sendTyping: vi.fn().mockResolvedValue(undefined),
+  sendText: vi.fn().mockResolvedValue({ messageId: '1' }),
+  editMessageText: vi.fn().mockResolvedValue(undefined),
+  deleteMessage: vi.fn().mockResolvedValue(undefined),
+});
+
+const createClock = () => {
+  let current = 10_000;
+  const waits: number[] = [];
+
+  return {
+    now: () => current,
+    wait: vi.fn(async (ms: number) => {
+      waits.push(ms);
+      current += ms;
+    }),
+    advance: (ms: number) => {
+      current += ms;
+    },
+    waits,
+  };
+};
+
+describe('createQueuedMessagingPort editMessageText', () => {
+  it('выдерживает интервал между правками одного сообщения', async () => {
+    const messaging = createMessaging();
+    const clock = createClock();
+    const port = createQueuedMessagingPort(messaging, {
+      now: clock.now,
+      wait: clock.wait,
+      editIntervalMs: 1_000,
+    });
+
+    await port.editMessageText({ chatId: 'chat', messageId: '5', text: 'a' });
+    clock.advance(200);
+    await port.editMessageText({ chatId: 'chat', messageId: '5', text: 'ab' });
+
+    expect(messaging.editMessageText).toHaveBeenCalledTimes(2);
+    expect(clock.waits).toEqual([800]);
+  });
+
+  it('отбрасывает устаревшие правки, оставляя последнюю', async () => {
+    const messaging = createMessaging();
+    const clock = createClock();
+    const port = createQueuedMessagingPort(messaging, {
+      now: clock.now,
+      wait: clock.wait,
+      editIntervalMs: 1_000,
+    });
+
+    await port.editMessageText({ chatId: 'chat', messageId: '5', text: 'a' });
+    await Promise.all([
+      port.editMessageText({ chatId: 'chat', messageId: '5', text: 'ab' }),
+      port.editMessageText({ chatId: 'chat', messageId: '5', text: 'abc' }),
+      port.editMessageText({ chatId: 'chat', messageId: '5', text: 'abcd' }),
+    ]);
+
+    expect(messaging.editMessageText).toHaveBeenCalledTimes(2);
+    expect(messaging.editMessageText).toHaveBeenLastCalledWith({
+      chatId: 'chat',
+      messageId: '5',
+      text: 'abcd',
+    });
+  });
+
+  it('не задерживает правки разных сообщений', async () => {
+    const messaging = createMessaging();
+    const clock = createClock();
+    const port = createQueuedMessagingPort(messaging, {
+      now: clock.now,
+      wait: clock.wait,
+      editIntervalMs: 1_000,
+    });
+
+    await port.editMessageText({ chatId: 'chat', messageId: '5', text: 'a' });
+    await port.editMessageText({ chatId: 'chat', messageId: '6', text: 'b' });
+
+    expect(messaging.editMessageText).toHaveBeenCalledTimes(2);
+    expect(clock.waits).toEqual([]);
+  });
+});
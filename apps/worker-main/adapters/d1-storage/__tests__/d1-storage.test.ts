@@ -36,6 +36,26 @@ interface D1PreparedStatement {
   all<T = unknown>(): Promise<{ results: T[] }>;
 }
 
+const hasServiceKind = (message: StoredMessageRow, kind: string): boolean =>
+  message.role === 'system'
+  && typeof message.metadata === 'string'
+  && message.metadata.includes(`"kind":"${kind}"`);
+
+const isSummaryRow = (message: StoredMessageRow): boolean => hasServiceKind(message, 'summary');
+
+const isServiceRow = (message: StoredMessageRow): boolean =>
+  isSummaryRow(message) || hasServiceKind(message, 'context_reset');
+
+const toMessageResultRow = (message: StoredMessageRow) => ({
+  user_id: message.userId,
+  chat_id: message.chatId,
+  thread_id: message.threadId,
+  role: message.role,
+  text: message.text,
+  timestamp: message.timestamp,
+  metadata: message.metadata,
+});
+
 class InMemoryStatement implements D1PreparedStatement {
   private params: unknown[] = [];
 
@@ -63,6 +83,8 @@ class InMemoryStatement implements D1PreparedStatement {
 class InMemoryD1Database implements D1Database {
   private readonly users = new Map<string, StoredUserRow>();
   private readonly messages: StoredMessageRow[] = [];
+  // Таблицы других фич: хранится только ключ, по которому их чистит `deleteUserData`.
+  private readonly keyedRows = new Map<string, string[]>();
   private nextMessageId = 1;
   private readonly executedUserQueries: string[] = [];
 
@@ -98,6 +120,29 @@ class InMemoryD1Database implements D1Database {
       return Promise.resolve({ success: true } as unknown as T);
     }
 
+    if (query.startsWith('DELETE FROM messages')) {
+      const [userId] = params as [string];
+      const before = this.messages.length;
+      const remaining = this.messages.filter((message) => message.userId !== userId);
+      this.messages.splice(0, this.messages.length, ...remaining);
+      return Promise.resolve({ success: true, meta: { changes: before - remaining.length } } as unknown as T);
+    }
+
+    if (query.startsWith('DELETE FROM users')) {
+      const [userId] = params as [string];
+      const deleted = this.users.delete(userId);
+      return Promise.resolve({ success: true, meta: { changes: deleted ? 1 : 0 } } as unknown as T);
+    }
+
+    const keyedDelete = /^DELETE FROM (\w+)\s+WHERE \w+ = \?/.exec(query);
+    if (keyedDelete) {
+      const [key] = params as [string];
+      const rows = this.keyedRows.get(keyedDelete[1]) ?? [];
+      const remaining = rows.filter((row) => row !== key);
+      this.keyedRows.set(keyedDelete[1], remaining);
+      return Promise.resolve({ success: true, meta: { changes: rows.length - remaining.length } } as unknown as T);
+    }
+
     throw new Error(`Unsupported run query: ${query}`);
   }
 
@@ -115,6 +160,29 @@ class InMemoryD1Database implements D1Database {
       return Promise.resolve({ results: [{ id: existing.id } as unknown as T] });
     }
 
+    if (query.startsWith('SELECT') && query.includes("json_extract(metadata, '$.kind') = 'summary'")) {
+      const [userId] = params as [string];
+      const summary = this.messages
+        .filter((message) => message.userId === userId && isSummaryRow(message))
+        .filter(this.afterContextReset(userId))
+        .sort((a, b) => (a.timestamp === b.timestamp ? b.id - a.id : a.timestamp < b.timestamp ? 1 : -1))[0];
+
+      return Promise.resolve({ results: summary ? [toMessageResultRow(summary) as unknown as T] : [] });
+    }
+
+    if (query.startsWith('SELECT') && query.includes('FROM messages') && query.includes('ORDER BY timestamp ASC')) {
+      const [userId, after, limit] = params as [string, string | null, number];
+      const results = this.messages
+        .filter((message) => message.userId === userId && !isServiceRow(message))
+        .filter(this.afterContextReset(userId))
+        .filter((message) => after === null || message.timestamp > after)
+        .sort((a, b) => (a.timestamp === b.timestamp ? a.id - b.id : a.timestamp < b.timestamp ? -1 : 1))
+        .slice(0, limit)
+        .map(toMessageResultRow) as unknown as T[];
+
+      return Promise.resolve({ results });
+    }
+
     if (query.startsWith('SELECT') && query.includes('FROM messages') && query.includes('ORDER BY timestamp DESC')) {
       if (this.options.failOnRecentMessages) {
         return Promise.reject(new Error('Simulated recent messages failure'));
@@ -124,7 +192,8 @@ class InMemoryD1Database implements D1Database {
       const limit = typeof limitRaw === 'number' ? limitRaw : Number(limitRaw);
 
       const results = this.messages
-        .filter((message) => message.userId === userId)
+        .filter((message) => message.userId === userId && !isServiceRow(message))
+        .filter(this.afterContextReset(userId))
         .sort((a, b) => {
           if (a.timestamp === b.timestamp) {
             return b.id - a.id;
@@ -167,6 +236,14 @@ class InMemoryD1Database implements D1Database {
     throw new Error(`Unsupported all query: ${query}`);
   }
 
+  private afterContextReset(userId: string) {
+    const boundary = this.messages
+      .filter((message) => message.userId === userId && hasServiceKind(message, 'context_reset'))
+      .reduce((max, message) => Math.max(max, message.id), 0);
+
+    return (message: StoredMessageRow) => message.id > boundary;
+  }
+
   setHasUtmColumn(hasColumn: boolean) {
     this.hasUtmColumn = hasColumn;
   }
@@ -179,6 +256,14 @@ class InMemoryD1Database implements D1Database {
     return [...this.messages];
   }
 
+  insertKeyedRow(table: string, key: string) {
+    this.keyedRows.set(table, [...(this.keyedRows.get(table) ?? []), key]);
+  }
+
+  getKeyedRows(table: string): string[] {
+    return [...(this.keyedRows.get(table) ?? [])];
+  }
+
   getExecutedUserQueries(): string[] {
     return [...this.executedUserQueries];
   }
@@ -562,6 +647,131 @@ describe('createD1StorageAdapter', () => {
     expect(recent[0].timestamp.getTime()).toBeLessThan(recent[1].timestamp.getTime());
   });
 
+  it('keeps summaries out of the tail and returns them separately', async () => {
+    const { adapter } = createTestDatabase();
+
+    const append = (text: string, timestamp: string, role: 'user' | 'assistant' | 'system' = 'user', metadata?: Record<string, unknown>) =>
+      adapter.appendMessage({
+        userId: 'user-4',
+        chatId: 'chat-4',
+        role,
+        text,
+        timestamp: new Date(timestamp),
+        metadata,
+      });
+
+    await append('Old 1', '2024-01-01T10:00:00.000Z');
+    await append('Old 2', '2024-01-01T10:01:00.000Z', 'assistant');
+    await append('New 1', '2024-01-01T10:02:00.000Z');
+    await append('Summary', '2024-01-01T10:03:00.000Z', 'system', {
+      kind: 'summary',
+      summaryVersion: 1,
+      revision: 1,
+      coveredUntil: '2024-01-01T10:01:00.000Z',
+      coveredMessages: 2,
+    });
+    await append('New 2', '2024-01-01T10:04:00.000Z', 'assistant');
+
+    const recent = await adapter.getRecentMessages({ userId: 'user-4', limit: 10 });
+    expect(recent.map((message) => message.text)).toEqual(['Old 1', 'Old 2', 'New 1', 'New 2']);
+
+    const summary = await adapter.getConversationSummary?.({ userId: 'user-4' });
+    expect(summary).toMatchObject({
+      role: 'system',
+      text: 'Summary',
+      metadata: expect.objectContaining({ kind: 'summary', revision: 1 }),
+    });
+
+    const after = await adapter.getMessagesAfter?.({
+      userId: 'user-4',
+      after: new Date('2024-01-01T10:01:00.000Z'),
+      limit: 10,
+    });
+    expect(after?.map((message) => message.text)).toEqual(['New 1', 'New 2']);
+
+    const fromStart = await adapter.getMessagesAfter?.({ userId: 'user-4', limit: 2 });
+    expect(fromStart?.map((message) => message.text)).toEqual(['Old 1', 'Old 2']);
+  });
+
+  it('ignores history before the latest context reset marker', async () => {
+    const { adapter } = createTestDatabase();
+
+    const append = (text: string, minute: number, role: 'user' | 'system' = 'user', metadata?: Record<string, unknown>) =>
+      adapter.appendMessage({
+        userId: 'user-5',
+        chatId: 'chat-5',
+        role,
+        text,
+        timestamp: new Date(Date.UTC(2024, 0, 1, 10, minute)),
+        metadata,
+      });
+
+    await append('Before', 0);
+    await append('Summary', 1, 'system', {
+      kind: 'summary',
+      summaryVersion: 1,
+      revision: 1,
+      coveredUntil: '2024-01-01T10:00:00.000Z',
+      coveredMessages: 1,
+    });
+    await append('/reset', 2, 'system', { kind: 'context_reset', messageId: '10' });
+    await append('After', 3);
+
+    const recent = await adapter.getRecentMessages({ userId: 'user-5', limit: 10 });
+    expect(recent.map((message) => message.text)).toEqual(['After']);
+    await expect(adapter.getConversationSummary?.({ userId: 'user-5' })).resolves.toBeUndefined();
+
+    const after = await adapter.getMessagesAfter?.({ userId: 'user-5', limit: 10 });
+    expect(after?.map((message) => message.text)).toEqual(['After']);
+  });
+
+  it('deletes user messages, profile, reminders, broadcast deliveries and rate limit hits', async () => {
+    const { adapter, db } = createTestDatabase();
+    db.insertKeyedRow('reminders', 'user-6');
+    db.insertKeyedRow('reminders', 'user-6');
+    db.insertKeyedRow('reminders', 'user-7');
+    db.insertKeyedRow('broadcast_deliveries', 'user-6');
+    db.insertKeyedRow('broadcast_deliveries', 'user-7');
+    db.insertKeyedRow('rate_limit_hits', 'user-6');
+
+    await adapter.saveUser({ userId: 'user-6', updatedAt: new Date('2024-01-01T10:00:00.000Z') });
+    await adapter.appendMessage({
+      userId: 'user-6',
+      chatId: 'chat-6',
+      role: 'user',
+      text: 'Hello',
+      timestamp: new Date('2024-01-01T10:00:00.000Z'),
+    });
+    await adapter.appendMessage({
+      userId: 'user-7',
+      chatId: 'chat-7',
+      role: 'user',
+      text: 'Other',
+      timestamp: new Date('2024-01-01T10:00:00.000Z'),
+    });
+
+    await expect(adapter.deleteUserData?.({ userId: 'user-6' })).resolves.toEqual({
+      deletedMessages: 1,
+      deletedUsers: 1,
+      deletedReminders: 2,
+      deletedBroadcastDeliveries: 1,
+      deletedRateLimitHits: 1,
+    });
+    expect(db.getUser('user-6')).toBeUndefined();
+    expect(db.getMessages().map((message) => message.userId)).toEqual(['user-7']);
+    expect(db.getKeyedRows('reminders')).toEqual(['user-7']);
+    expect(db.getKeyedRows('broadcast_deliveries')).toEqual(['user-7']);
+    expect(db.getKeyedRows('rate_limit_hits')).toEqual([]);
+
+    await expect(adapter.deleteUserData?.({ userId: 'user-6' })).resolves.toEqual({
+      deletedMessages: 0,
+      deletedUsers: 0,
+      deletedReminders: 0,
+      deletedBroadcastDeliveries: 0,
+      deletedRateLimitHits: 0,
+    });
+  });
+
   it('logs a warning and returns empty list when recent messages query fails', async () => {
     const warn = vi.fn();
     const db = new InMemoryD1Database({ failOnRecentMessages: true });
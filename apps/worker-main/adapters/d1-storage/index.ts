@@ -256,6 +256,20 @@ interface MessageRow {
   metadata: string | null;
 }
 
+const NOT_SERVICE_MESSAGE_CONDITION = `(
+    role <> 'system'
+    OR coalesce(json_extract(metadata, '$.kind'), '') NOT IN ('summary', 'context_reset')
+  )`;
+
+// Всё, что записано до последнего /reset, в контекст модели не попадает.
+const AFTER_CONTEXT_RESET_CONDITION = `id > coalesce((
+    SELECT max(boundary.id)
+    FROM messages AS boundary
+    WHERE boundary.user_id = messages.user_id
+      AND boundary.role = 'system'
+      AND json_extract(boundary.metadata, '$.kind') = 'context_reset'
+  ), 0)`;
+
 const SELECT_RECENT_MESSAGES_SQL = `
   SELECT
     user_id,
@@ -267,10 +281,79 @@ const SELECT_RECENT_MESSAGES_SQL = `
     metadata
   FROM messages
   WHERE user_id = ?
+    AND ${NOT_SERVICE_MESSAGE_CONDITION}
+    AND ${AFTER_CONTEXT_RESET_CONDITION}
   ORDER BY timestamp DESC, id DESC
   LIMIT ?;
 `;
 
+const SELECT_CONVERSATION_SUMMARY_SQL = `
+  SELECT
+    user_id,
+    chat_id,
+    thread_id,
+    role,
+    text,
+    timestamp,
+    metadata
+  FROM messages
+  WHERE user_id = ?
+    AND role = 'system'
+    AND json_extract(metadata, '$.kind') = 'summary'
+    AND ${AFTER_CONTEXT_RESET_CONDITION}
+  ORDER BY timestamp DESC, id DESC
+  LIMIT 1;
+`;
+
+const SELECT_MESSAGES_AFTER_SQL = `
+  SELECT
+    user_id,
+    chat_id,
+    thread_id,
+    role,
+    text,
+    timestamp,
+    metadata
+  FROM messages
+  WHERE user_id = ?1
+    AND (?2 IS NULL OR timestamp > ?2)
+    AND ${NOT_SERVICE_MESSAGE_CONDITION}
+    AND ${AFTER_CONTEXT_RESET_CONDITION}
+  ORDER BY timestamp ASC, id ASC
+  LIMIT ?3;
+`;
+
+const DELETE_USER_MESSAGES_SQL = `
+  DELETE FROM messages
+  WHERE user_id = ?;
+`;
+
+const DELETE_USER_SQL = `
+  DELETE FROM users
+  WHERE user_id = ?;
+`;
+
+const DELETE_USER_REMINDERS_SQL = `
+  DELETE FROM reminders
+  WHERE user_id = ?;
+`;
+
+// Рассылки уходят в личные чаты, где chat_id совпадает с user_id.
+const DELETE_USER_BROADCAST_DELIVERIES_SQL = `
+  DELETE FROM broadcast_deliveries
+  WHERE chat_id = ?;
+`;
+
+const DELETE_USER_RATE_LIMIT_HITS_SQL = `
+  DELETE FROM rate_limit_hits
+  WHERE user_id = ?;
+`;
+
+const readChanges = (result: D1Result | undefined): number => {
+  const changes = result?.meta?.changes;
+  return typeof changes === 'number' && Number.isFinite(changes) ? changes : 0;
+};
+
 const toNullableString = (value: string | undefined | null): string | null =>
   typeof value === 'string' && value.length > 0 ? value : null;
 
@@ -597,6 +680,79 @@ export const createD1StorageAdapter = (options: D1StorageAdapterOptions): Storag
         return [];
       }
     },
+
+    async getConversationSummary({ userId }) {
+      try {
+        const row = await options.db
+          .prepare(SELECT_CONVERSATION_SUMMARY_SQL)
+          .bind(userId)
+          .first<MessageRow>();
+
+        return row ? mapRowToStoredMessage(row) : undefined;
+      } catch (error) {
+        logger.warn('[d1-storage] failed to load conversation summary', {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        return undefined;
+      }
+    },
+
+    async getMessagesAfter({ userId, after, limit }) {
+      const result = await runWithRetry(
+        logger,
+        { operation: 'getMessagesAfter', details: { userId, limit } },
+        () =>
+          options.db
+            .prepare(SELECT_MESSAGES_AFTER_SQL)
+            .bind(userId, after ? toIsoString(after) : null, limit)
+            .all<MessageRow>(),
+      );
+
+      return (result?.results ?? []).map(mapRowToStoredMessage);
+    },
+
+    async deleteUserData({ userId }) {
+      const result = await runWithRetry(
+        logger,
+        { operation: 'deleteUserData', details: { userId } },
+        async () => {
+          // Все DELETE идемпотентны, поэтому повтор после частичного сбоя безопасен.
+          const messagesResult = await options.db
+            .prepare(DELETE_USER_MESSAGES_SQL)
+            .bind(userId)
+            .run<D1Result>();
+          const userResult = await options.db.prepare(DELETE_USER_SQL).bind(userId).run<D1Result>();
+          const remindersResult = await options.db
+            .prepare(DELETE_USER_REMINDERS_SQL)
+            .bind(userId)
+            .run<D1Result>();
+          const deliveriesResult = await options.db
+            .prepare(DELETE_USER_BROADCAST_DELIVERIES_SQL)
+            .bind(userId)
+            .run<D1Result>();
+          const rateLimitHitsResult = await options.db
+            .prepare(DELETE_USER_RATE_LIMIT_HITS_SQL)
+            .bind(userId)
+            .run<D1Result>();
+
+          return {
+            deletedMessages: readChanges(messagesResult),
+            deletedUsers: readChanges(userResult),
+            deletedReminders: readChanges(remindersResult),
+            deletedBroadcastDeliveries: readChanges(deliveriesResult),
+            deletedRateLimitHits: readChanges(rateLimitHitsResult),
+          };
+        },
+      );
+
+      if (typeof result === 'undefined') {
+        throw new Error('Failed to delete user data');
+      }
+
+      return result;
+    },
   };
 };
 
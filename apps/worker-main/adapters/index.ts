@@ -2,6 +2,8 @@ export { createTelegramMessagingAdapter } from './telegram';
 export type { TelegramMessagingAdapterOptions } from './telegram';
 export { createOpenAIResponsesAdapter } from './openai-responses';
 export type { OpenAIResponsesAdapterOptions } from './openai-responses';
+export { createOpenAITranscriptionAdapter } from './openai-transcription';
+export type { OpenAITranscriptionAdapterOptions } from './openai-transcription';
 export { createD1StorageAdapter } from './d1-storage';
 export type { D1StorageAdapterOptions } from './d1-storage';
 export { createKvRateLimitAdapter } from './kv-rate-limit';
@@ -12,6 +12,12 @@ export interface MessagingQuotaOptions {
   logger?: MessagingQuotaLogger;
   priority?: 'high' | 'normal';
   sharedState?: MessagingQuotaSharedState;
+  /**
+   * Минимальный интервал между правками одного и того же сообщения. Telegram
+   * отвечает 429 на частые editMessageText, поэтому промежуточные правки,
+   * которые успели устареть за время ожидания, отбрасываются.
+   */
+  editIntervalMs?: number;
 }
 
 interface MessagingJob<Result> {
@@ -31,8 +37,16 @@ export interface MessagingQuotaSharedState {
   limits?: { maxParallel: number; maxRps: number };
 }
 
+interface MessageEditState {
+  lastEditAt: number;
+  version: number;
+  pending: number;
+  chain: Promise<void>;
+}
+
 const DEFAULT_MAX_PARALLEL = 4;
 const DEFAULT_MAX_RPS = 28;
+const DEFAULT_EDIT_INTERVAL_MS = 1_000;
 
 const createWait = (wait?: (ms: number) => Promise<void>) =>
   wait ?? ((ms: number) => new Promise((resolve) => setTimeout(resolve, ms)));
@@ -63,6 +77,10 @@ export const createQueuedMessagingPort = (
   const logger = options.logger;
   const state = options.sharedState ?? createSharedState();
   const priority = options.priority ?? 'normal';
+  const editIntervalMs = typeof options.editIntervalMs === 'number' && options.editIntervalMs >= 0
+    ? options.editIntervalMs
+    : DEFAULT_EDIT_INTERVAL_MS;
+  const editStates = new Map<string, MessageEditState>();
 
   if (!state.limits) {
     state.limits = { maxParallel, maxRps };
@@ -142,6 +160,54 @@ export const createQueuedMessagingPort = (
       processQueue();
     });
 
+  const pruneEditStates = (timestamp: number) => {
+    for (const [key, editState] of editStates.entries()) {
+      if (editState.pending === 0 && editState.lastEditAt + editIntervalMs <= timestamp) {
+        editStates.delete(key);
+      }
+    }
+  };
+
+  const scheduleEdit = (input: Parameters<MessagingPort['editMessageText']>[0]): Promise<void> => {
+    pruneEditStates(now());
+
+    const key = `${input.chatId}:${input.messageId}`;
+    let entry = editStates.get(key);
+    if (!entry) {
+      entry = { lastEditAt: 0, version: 0, pending: 0, chain: Promise.resolve() };
+      editStates.set(key, entry);
+    }
+
+    const editState = entry;
+    editState.version += 1;
+    editState.pending += 1;
+    const version = editState.version;
+
+    const run = async () => {
+      const delayMs = editState.lastEditAt + editIntervalMs - now();
+      if (delayMs > 0) {
+        await wait(delayMs);
+      }
+
+      if (version !== editState.version) {
+        return;
+      }
+
+      editState.lastEditAt = now();
+      await schedule(() => messaging.editMessageText(input));
+    };
+
+    const result = editState.chain.then(run).finally(() => {
+      editState.pending -= 1;
+    });
+    editState.chain = result.catch(() => undefined);
+
+    return result;
+  };
+
+  const sendMedia = messaging.sendMedia?.bind(messaging);
+  const editMessageCaption = messaging.editMessageCaption?.bind(messaging);
+
   return {
     async sendTyping(input) {
       return messaging.sendTyping(input);
@@ -149,12 +215,35 @@ export const createQueuedMessagingPort = (
     async sendText(input) {
       return schedule(() => messaging.sendText(input));
     },
+    ...(sendMedia
+      ? {
+          async sendMedia(input: Parameters<typeof sendMedia>[0]) {
+            return schedule(() => sendMedia(input));
+          },
+        }
+      : {}),
     async editMessageText(input) {
-      return messaging.editMessageText(input);
+      return scheduleEdit(input);
     },
+    ...(editMessageCaption
+      ? {
+          async editMessageCaption(input: Parameters<typeof editMessageCaption>[0]) {
+            return schedule(() => editMessageCaption(input));
+          },
+        }
+      : {}),
     async deleteMessage(input) {
       return messaging.deleteMessage(input);
     },
+    ...(messaging.answerCallbackQuery
+      ? {
+          async answerCallbackQuery(input: Parameters<NonNullable<MessagingPort['answerCallbackQuery']>>[0]) {
+            return messaging.answerCallbackQuery?.(input);
+          },
+        }
+      : {}),
+    // Скачивание файлов не расходует лимит sendMessage, поэтому идёт мимо очереди.
+    ...(messaging.downloadFile ? { downloadFile: messaging.downloadFile.bind(messaging) } : {}),
   } satisfies MessagingPort;
 };
 
@@ -250,6 +250,169 @@ const createAdapter = (
     expect(allContentPieces).not.toContain('text');
   });
 
+  it('emits input_image and input_file parts for resolved attachments', async () => {
+    const fetchMock = createFetchMock();
+    fetchMock.mockResolvedValueOnce(
+      createResponse({
+        id: 'resp_media',
+        status: 'completed',
+        output_text: 'Вижу счёт',
+      }),
+    );
+
+    const adapter = createAdapter(fetchMock);
+
+    await adapter.reply({
+      userId: 'user-3',
+      text: '',
+      attachments: [
+        { kind: 'document', fileId: 'doc-1', fileName: 'invoice.pdf', dataUrl: 'data:application/pdf;base64,JVBERg==' },
+      ],
+      context: [
+        {
+          role: 'user',
+          text: 'Что на фото?',
+          attachments: [
+            { kind: 'image', fileId: 'photo-1', dataUrl: 'data:image/jpeg;base64,/9j/' },
+            { kind: 'image', fileId: 'photo-2' },
+          ],
+        },
+        { role: 'assistant', text: 'Кот' },
+      ],
+    });
+
+    const [, init] = fetchMock.mock.calls[0] ?? [];
+    const payload = JSON.parse((init?.body as string) ?? '{}');
+
+    expect(payload.input).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'input_text', text: 'Что на фото?' },
+          { type: 'input_image', image_url: 'data:image/jpeg;base64,/9j/' },
+        ],
+      },
+      {
+        role: 'assistant',
+        content: [{ type: 'output_text', text: 'Кот' }],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'input_file', file_data: 'data:application/pdf;base64,JVBERg==', filename: 'invoice.pdf' },
+        ],
+      },
+    ]);
+  });
+
+  it('runs function calls through the tool registry and logs them in metadata', async () => {
+    const fetchMock = createFetchMock();
+    fetchMock
+      .mockResolvedValueOnce(
+        createResponse({
+          id: 'resp_tool_1',
+          status: 'completed',
+          output: [
+            { type: 'function_call', call_id: 'call_1', name: 'get_my_profile', arguments: '{}' },
+          ],
+        }),
+      )
+      .mockResolvedValueOnce(
+        createResponse({
+          id: 'resp_tool_2',
+          status: 'completed',
+          output: [
+            { type: 'function_call', call_id: 'call_2', name: 'get_my_profile', arguments: '{}' },
+          ],
+        }),
+      )
+      .mockResolvedValueOnce(
+        createResponse({ id: 'resp_final', status: 'completed', output_text: 'Вы пришли из src_demo' }),
+      );
+    const tools = {
+      listTools: () => [
+        { name: 'get_my_profile', description: 'Профиль', parameters: { type: 'object', properties: {} } },
+      ],
+      execute: vi.fn().mockResolvedValue({ status: 'ok', output: '{"utmSource":"src_demo"}' }),
+    };
+
+    const adapter = createOpenAIResponsesAdapter({
+      apiKey,
+      model,
+      fetchApi: fetchMock,
+      requestTimeoutMs: 5_000,
+      tools,
+      maxToolIterations: 2,
+      runtime: {
+        maxConcurrency: 2,
+        maxQueueSize: 8,
+        requestTimeoutMs: 5_000,
+        retryMax: 3,
+        sources: defaultSources,
+      },
+    });
+
+    const result = await adapter.reply({ userId: 'user-7', text: 'Откуда я пришёл?', context: [], tools: true });
+
+    expect(result.text).toBe('Вы пришли из src_demo');
+    expect(tools.execute).toHaveBeenCalledTimes(2);
+    expect(tools.execute).toHaveBeenCalledWith({ name: 'get_my_profile', arguments: '{}' }, { userId: 'user-7' });
+    expect(result.metadata?.toolCalls).toEqual([
+      { name: 'get_my_profile', callId: 'call_1', arguments: '{}', status: 'ok', output: '{"utmSource":"src_demo"}' },
+      { name: 'get_my_profile', callId: 'call_2', arguments: '{}', status: 'ok', output: '{"utmSource":"src_demo"}' },
+    ]);
+
+    const bodies = fetchMock.mock.calls.map(([, init]) => JSON.parse((init?.body as string) ?? '{}'));
+    expect(bodies[0].tools).toEqual([
+      {
+        type: 'function',
+        name: 'get_my_profile',
+        description: 'Профиль',
+        parameters: { type: 'object', properties: {} },
+      },
+    ]);
+    expect(bodies[1].input.slice(-2)).toEqual([
+      { type: 'function_call', call_id: 'call_1', name: 'get_my_profile', arguments: '{}' },
+      { type: 'function_call_output', call_id: 'call_1', output: '{"utmSource":"src_demo"}' },
+    ]);
+    expect(bodies[1].tools).toBeDefined();
+    expect(bodies[2].tools).toBeUndefined();
+  });
+
+  it('does not attach tools unless the call opts in', async () => {
+    const fetchMock = createFetchMock();
+    fetchMock.mockResolvedValueOnce(
+      createResponse({ id: 'resp_summary', status: 'completed', output_text: 'Краткое содержание' }),
+    );
+    const tools = {
+      listTools: () => [
+        { name: 'get_my_profile', description: 'Профиль', parameters: { type: 'object', properties: {} } },
+      ],
+      execute: vi.fn(),
+    };
+
+    const adapter = createOpenAIResponsesAdapter({
+      apiKey,
+      model,
+      fetchApi: fetchMock,
+      requestTimeoutMs: 5_000,
+      tools,
+      runtime: {
+        maxConcurrency: 2,
+        maxQueueSize: 8,
+        requestTimeoutMs: 5_000,
+        retryMax: 3,
+        sources: defaultSources,
+      },
+    });
+
+    await adapter.reply({ userId: 'admin:broadcast:1', text: 'Переведи', context: [] });
+
+    const [, init] = fetchMock.mock.calls[0] ?? [];
+    expect(JSON.parse((init?.body as string) ?? '{}').tools).toBeUndefined();
+    expect(tools.execute).not.toHaveBeenCalled();
+  });
+
   it('includes prompt block when prompt id and variables are provided', async () => {
     const fetchMock = createFetchMock();
     fetchMock.mockResolvedValueOnce(
@@ -880,4 +1043,101 @@ const createAdapter = (
       vi.useRealTimers();
     }
   });
+
+  describe('replyStream', () => {
+    const createStreamResponse = (chunks: string[], init?: ResponseInit) => {
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+          controller.close();
+        },
+      });
+
+      return new Response(stream, {
+        status: 200,
+        headers: { 'x-request-id': 'req_stream', 'content-type': 'text/event-stream' },
+        ...init,
+      });
+    };
+
+    const sse = (event: string, data: Record<string, unknown>) =>
+      `event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`;
+
+    it('emits accumulated deltas and resolves with the final text', async () => {
+      const fetchMock = createFetchMock();
+      fetchMock.mockResolvedValueOnce(
+        createStreamResponse([
+          sse('response.created', { response: { id: 'resp_stream' } }),
+          sse('response.output_text.delta', { delta: 'При' }),
+          // событие, разрезанное между чанками
+          'event: response.output_text.delta\ndata: {"type":"response.output_text.delta",',
+          '"delta":"вет"}\n\n',
+          sse('response.completed', { response: { id: 'resp_stream', status: 'completed' } }),
+          'data: [DONE]\n\n',
+        ]),
+      );
+
+      const adapter = createAdapter(fetchMock);
+      const onTextDelta = vi.fn();
+
+      const result = await adapter.replyStream!(
+        { userId: 'user-1', text: 'Hi', context: [] },
+        { onTextDelta },
+      );
+
+      expect(onTextDelta.mock.calls.map(([update]) => update)).toEqual([
+        { delta: 'При', text: 'При' },
+        { delta: 'вет', text: 'Привет' },
+      ]);
+      expect(result).toEqual({
+        text: 'Привет',
+        metadata: expect.objectContaining({
+          responseId: 'resp_stream',
+          status: 'completed',
+          requestId: 'req_stream',
+          streamed: true,
+        }),
+      });
+
+      const [, init] = fetchMock.mock.calls[0];
+      const body = JSON.parse(String(init?.body));
+      expect(body.stream).toBe(true);
+      expect((init?.headers as Record<string, string>).Accept).toBe('text/event-stream');
+    });
+
+    it('throws AI_STREAM_FAILED when the stream reports a failure', async () => {
+      const fetchMock = createFetchMock();
+      fetchMock.mockResolvedValueOnce(
+        createStreamResponse([
+          sse('response.output_text.delta', { delta: 'Частично' }),
+          sse('response.failed', { response: { id: 'resp_failed', status: 'failed' } }),
+        ]),
+      );
+
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const adapter = createAdapter(fetchMock);
+
+      await expect(
+        adapter.replyStream!({ userId: 'user-1', text: 'Hi', context: [] }, { onTextDelta: vi.fn() }),
+      ).rejects.toThrow('AI_STREAM_FAILED');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      consoleError.mockRestore();
+    });
+
+    it('throws AI_STREAM_INCOMPLETE when the stream ends without completion', async () => {
+      const fetchMock = createFetchMock();
+      fetchMock.mockResolvedValueOnce(
+        createStreamResponse([sse('response.output_text.delta', { delta: 'Обрыв' })]),
+      );
+
+      const adapter = createAdapter(fetchMock);
+
+      await expect(
+        adapter.replyStream!({ userId: 'user-1', text: 'Hi', context: [] }, { onTextDelta: vi.fn() }),
+      ).rejects.toThrow('AI_STREAM_INCOMPLETE');
+    });
+  });
 });
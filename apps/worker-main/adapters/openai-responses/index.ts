@@ -2,16 +2,23 @@ import type {
   AiPort,
   AiQueueConfigSources,
   AiQueueStats,
+  AiReplyInput,
+  AiToolRegistry,
   ConversationTurn,
+  MessageAttachment,
 } from '../../ports';
 import { sanitizeVisibleText, stripControlCharacters } from '../../shared';
 import { createAiLimiter, type AiLimiterStats } from './concurrency-limiter';
 import { getFriendlyOverloadMessage } from './overload-message';
+import { readResponsesStream } from './stream-events';
 
 const DEFAULT_BASE_URL = 'https://api.openai.com/v1/responses';
 const DEFAULT_TIMEOUT_MS = 28_000;
 const DEFAULT_MAX_RETRIES = 3;
 const DEFAULT_ENDPOINT_FAILOVER_THRESHOLD = 3;
+const DEFAULT_MAX_TOOL_ITERATIONS = 3;
+const MAX_LOGGED_TOOL_OUTPUT_LENGTH = 1_000;
+const DEFAULT_ATTACHMENT_FILE_NAME = 'file';
 
 export interface OpenAIResponsesAdapterOptions {
   apiKey: string;
@@ -24,6 +31,16 @@ export interface OpenAIResponsesAdapterOptions {
   requestTimeoutMs?: number;
   maxRetries?: number;
   endpointFailoverThreshold?: number;
+  /**
+   * Инструменты, которые модель может вызывать (function calling). Цикл
+   * «вызов → function_call_output» укладывается в общий бюджет таймаута.
+   */
+  tools?: AiToolRegistry;
+  /**
+   * Сколько раундов вызовов инструментов допускается в одном ответе; после
+   * последнего раунда модель обязана ответить текстом.
+   */
+  maxToolIterations?: number;
   runtime: {
     maxConcurrency: number;
     maxQueueSize: number;
@@ -54,6 +71,23 @@ interface ResponsesOutputItem {
   type?: string;
   role?: string;
   content?: ResponsesOutputContent[];
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+interface ResponsesFunctionCall {
+  callId: string;
+  name: string;
+  arguments: string;
+}
+
+interface AiToolCallLogEntry {
+  name: string;
+  callId: string;
+  arguments: string;
+  status: 'ok' | 'error';
+  output: string;
 }
 
 interface ResponsesApiSuccessPayload {
@@ -80,30 +114,66 @@ const mapTurnToContentType = (role: ConversationTurn['role']): string => {
   }
 };
 
+/**
+ * Вложения без `dataUrl` (файл не удалось скачать) модели не передаются.
+ * `input_file` с `file_data` требует имя файла, поэтому оно подставляется
+ * по умолчанию.
+ */
+const buildAttachmentParts = (
+  attachments: ReadonlyArray<MessageAttachment> | undefined,
+): Array<Record<string, unknown>> =>
+  (attachments ?? []).flatMap((attachment): Array<Record<string, unknown>> => {
+    if (!attachment.dataUrl) {
+      return [];
+    }
+
+    return attachment.kind === 'image'
+      ? [{ type: 'input_image', image_url: attachment.dataUrl }]
+      : [
+          {
+            type: 'input_file',
+            file_data: attachment.dataUrl,
+            filename: attachment.fileName ?? DEFAULT_ATTACHMENT_FILE_NAME,
+          },
+        ];
+  });
+
+const buildContentParts = (
+  role: ConversationTurn['role'],
+  text: string,
+  attachments: ReadonlyArray<MessageAttachment> | undefined,
+): Array<Record<string, unknown>> => {
+  const attachmentParts = role === 'user' ? buildAttachmentParts(attachments) : [];
+  const normalizedText = stripControlCharacters(text);
+
+  if (normalizedText.length === 0 && attachmentParts.length > 0) {
+    return attachmentParts;
+  }
+
+  return [
+    {
+      type: mapTurnToContentType(role),
+      text: normalizedText,
+    },
+    ...attachmentParts,
+  ];
+};
+
 const buildInputMessages = (
   context: ReadonlyArray<ConversationTurn>,
   latestText: string,
+  latestAttachments?: ReadonlyArray<MessageAttachment>,
 ): Array<Record<string, unknown>> => {
   const history = context.map((turn) => ({
     role: turn.role,
-    content: [
-      {
-        type: mapTurnToContentType(turn.role),
-        text: stripControlCharacters(turn.text),
-      },
-    ],
+    content: buildContentParts(turn.role, turn.text, turn.attachments),
   }));
 
   return [
     ...history,
     {
       role: 'user',
-      content: [
-        {
-          type: 'input_text',
-          text: stripControlCharacters(latestText),
-        },
-      ],
+      content: buildContentParts('user', latestText, latestAttachments),
     },
   ];
 };
@@ -240,6 +310,24 @@ const extractTextFromPayload = (
   return { text: combined, usedOutputText: false };
 };
 
+const extractFunctionCalls = (payload: ResponsesApiSuccessPayload): ResponsesFunctionCall[] =>
+  (Array.isArray(payload.output) ? payload.output : []).flatMap((item): ResponsesFunctionCall[] =>
+    item?.type === 'function_call' && typeof item.call_id === 'string' && typeof item.name === 'string'
+      ? [
+          {
+            callId: item.call_id,
+            name: item.name,
+            arguments: typeof item.arguments === 'string' ? item.arguments : '',
+          },
+        ]
+      : [],
+  );
+
+const truncateToolOutput = (output: string): string =>
+  output.length > MAX_LOGGED_TOOL_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_LOGGED_TOOL_OUTPUT_LENGTH)}…`
+    : output;
+
 const createAbortSignal = (timeoutMs: number): { signal: AbortSignal; dispose: () => void } => {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => {
@@ -602,32 +690,94 @@ export const createOpenAIResponsesAdapter = (
     }
   };
 
+  const toolDefinitions = (options.tools?.listTools() ?? []).map((tool) => ({
+    type: 'function',
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+  }));
+  const maxToolIterations = Math.max(1, options.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS);
+
+  const buildRequestBody = (
+    input: AiReplyInput,
+    withTools: boolean,
+  ): { body: Record<string, unknown>; previousResponseId?: string } => {
+    const previousResponseId = extractPreviousResponseId(input.context);
+
+    const body: Record<string, unknown> = {
+      model,
+      input: buildInputMessages(input.context, input.text, input.attachments),
+      metadata: {
+        userId: input.userId,
+      },
+    };
+
+    if (promptId) {
+      body.prompt = promptVariables
+        ? { id: promptId, variables: promptVariables }
+        : { id: promptId };
+    }
+
+    if (previousResponseId) {
+      body.previous_response_id = previousResponseId;
+    }
+
+    if (withTools && toolDefinitions.length > 0) {
+      body.tools = toolDefinitions;
+    }
+
+    return { body, previousResponseId };
+  };
+
+  /**
+   * Выполняет вызовы инструментов по очереди (у них могут быть побочные
+   * эффекты) и возвращает элементы `function_call_output` для модели.
+   */
+  const runToolCalls = async (
+    calls: ReadonlyArray<ResponsesFunctionCall>,
+    input: AiReplyInput,
+    userIdHash: string,
+    log: AiToolCallLogEntry[],
+  ): Promise<Array<Record<string, unknown>>> => {
+    const outputs: Array<Record<string, unknown>> = [];
+
+    for (const call of calls) {
+      const result = options.tools
+        ? await options.tools.execute(
+            { name: call.name, arguments: call.arguments },
+            { userId: input.userId },
+          )
+        : { status: 'error' as const, output: JSON.stringify({ error: 'tools are disabled' }) };
+
+      // eslint-disable-next-line no-console
+      console.info('[ai][tool_call]', { name: call.name, status: result.status, userIdHash });
+
+      log.push({
+        name: call.name,
+        callId: call.callId,
+        arguments: call.arguments,
+        status: result.status,
+        output: truncateToolOutput(result.output),
+      });
+      outputs.push({ type: 'function_call_output', call_id: call.callId, output: result.output });
+    }
+
+    return outputs;
+  };
+
   return {
     getQueueStats(): AiQueueStats {
       return mapLimiterStatsToQueueStats(limiter.getStats(), runtime, getEndpointDiagnostics());
     },
     async reply(input) {
-      const previousResponseId = extractPreviousResponseId(input.context);
-
-      const body: Record<string, unknown> = {
-        model,
-        input: buildInputMessages(input.context, input.text),
-        metadata: {
-          userId: input.userId,
-        },
-      };
-
-      if (promptId) {
-        body.prompt = promptVariables
-          ? { id: promptId, variables: promptVariables }
-          : { id: promptId };
-      }
-
-      if (previousResponseId) {
-        body.previous_response_id = previousResponseId;
-      }
-
-      const serializedBody = JSON.stringify(body);
+      const withTools = input.tools === true && Boolean(options.tools);
+      const { body, previousResponseId } = buildRequestBody(input, withTools);
+
+      // После раунда инструментов повторы отправляют уже продолженный диалог,
+      // чтобы не выполнять инструменты с побочными эффектами дважды.
+      let serializedBody = JSON.stringify(body);
+      const toolCalls: AiToolCallLogEntry[] = [];
+      let toolIterations = 0;
       const deadline = Date.now() + timeoutBudgetMs;
       const userIdHash = createUserIdHash(input.userId);
       const overloadMessage = getFriendlyOverloadMessage(input.languageCode);
@@ -752,18 +902,51 @@ export const createOpenAIResponsesAdapter = (
 
           const remainingTime = deadline - now;
           const attemptTimeout = Math.max(1, remainingTime);
-          const { payload, requestId, endpointId, baseUrl } = await execute(
-            {
-              method: 'POST',
-              headers: {
-                Authorization: `Bearer ${options.apiKey}`,
-                'Content-Type': 'application/json',
-              },
-              body: serializedBody,
+          const createRequestInit = (): RequestInit => ({
+            method: 'POST',
+            headers: {
+              Authorization: `Bearer ${options.apiKey}`,
+              'Content-Type': 'application/json',
             },
-            attempt,
-            attemptTimeout,
-          );
+            body: serializedBody,
+          });
+          let response = await execute(createRequestInit(), attempt, attemptTimeout);
+
+          for (;;) {
+            const calls = withTools ? extractFunctionCalls(response.payload) : [];
+            if (calls.length === 0 || toolIterations >= maxToolIterations) {
+              break;
+            }
+
+            toolIterations += 1;
+            const outputs = await runToolCalls(calls, input, userIdHash, toolCalls);
+            body.input = [
+              ...(body.input as Array<Record<string, unknown>>),
+              ...(response.payload.output ?? []),
+              ...outputs,
+            ];
+            if (toolIterations >= maxToolIterations) {
+              delete body.tools;
+            }
+            serializedBody = JSON.stringify(body);
+
+            const remainingForTools = deadline - Date.now();
+            if (remainingForTools <= 0) {
+              const activeEndpoint = getEndpointByIndex(activeEndpointIndex);
+              throw createQueueTimeoutError(limiter.getStats(), runtime, getEndpointDiagnostics(), {
+                phase: 'tool_loop',
+                attempt: attempt + 1,
+                queueWaitMs,
+                userIdHash,
+                endpointId: activeEndpoint.id,
+                baseUrl: activeEndpoint.url,
+              });
+            }
+
+            response = await execute(createRequestInit(), attempt, remainingForTools);
+          }
+
+          const { payload, requestId, endpointId, baseUrl } = response;
 
           const { text, usedOutputText } = extractTextFromPayload(payload);
           // eslint-disable-next-line no-console
@@ -775,6 +958,7 @@ export const createOpenAIResponsesAdapter = (
             previousResponseId: previousResponseId ?? null,
             endpointId,
             baseUrl,
+            toolIterations,
           });
 
           return {
@@ -787,6 +971,7 @@ export const createOpenAIResponsesAdapter = (
               previousResponseId,
               endpointId,
               baseUrl,
+              ...(toolCalls.length > 0 ? { toolCalls } : {}),
             },
           };
         } catch (error) {
@@ -891,6 +1076,194 @@ export const createOpenAIResponsesAdapter = (
 
       throw createWrappedError(lastError instanceof Error ? lastError : new Error(DEFAULT_ERROR_MESSAGE));
     },
+    async replyStream(input, handlers) {
+      // Потоковый режим идёт без инструментов: function calling поддержан
+      // только в `reply`.
+      const { body, previousResponseId } = buildRequestBody(input, false);
+      body.stream = true;
+
+      const deadline = Date.now() + timeoutBudgetMs;
+      const userIdHash = createUserIdHash(input.userId);
+
+      let lastDropStats: AiLimiterStats | undefined;
+      let queueWaitMs = 0;
+      let release: (() => void) | undefined;
+
+      try {
+        release = await limiter.acquire({
+          onAcquire: ({ queueWaitMs: waitMs }) => {
+            queueWaitMs = waitMs;
+          },
+          onDrop: (stats) => {
+            lastDropStats = stats;
+          },
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'AI_QUEUE_DROPPED') {
+          // eslint-disable-next-line no-console
+          console.error(
+            '[ai][dropped]',
+            createQueueLogPayload(lastDropStats ?? limiter.getStats(), runtime, getEndpointDiagnostics(), {
+              reason: 'queue_overflow',
+              mode: 'stream',
+              userIdHash,
+              requestId: null,
+              queueWaitMs: 0,
+            }),
+          );
+        }
+
+        throw error instanceof Error ? error : new Error('AI_QUEUE_DROPPED');
+      }
+
+      const endpointIndex = activeEndpointIndex;
+      const endpoint = getEndpointByIndex(endpointIndex);
+      const endpointId = endpoint.id;
+      const baseUrl = endpoint.url;
+      let disposeTimeout: (() => void) | undefined;
+
+      try {
+        const remainingTime = deadline - Date.now();
+        if (remainingTime <= 0) {
+          throw createQueueTimeoutError(limiter.getStats(), runtime, getEndpointDiagnostics(), {
+            phase: 'queue_wait',
+            attempt: 1,
+            queueWaitMs,
+            userIdHash,
+            endpointId,
+            baseUrl,
+          });
+        }
+
+        const { signal, dispose } = createAbortSignal(remainingTime);
+        disposeTimeout = dispose;
+
+        // eslint-disable-next-line no-console
+        console.info('[ai][stream_request]', { endpointId, baseUrl, queueWaitMs });
+
+        const response = await fetchImpl(baseUrl, {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${options.apiKey}`,
+            'Content-Type': 'application/json',
+            Accept: 'text/event-stream',
+          },
+          body: JSON.stringify(body),
+          signal,
+        });
+
+        const requestId = response.headers.get('x-request-id') ?? undefined;
+
+        if (!response.ok || !response.body) {
+          const rawBody = response.ok ? '' : await response.text().catch(() => '');
+          // eslint-disable-next-line no-console
+          console.error('[ai][stream_non_2xx]', {
+            status: response.status,
+            requestId: requestId ?? null,
+            endpointId,
+            baseUrl,
+            body: rawBody,
+          });
+
+          if (isRetryableStatus(response.status)) {
+            markRetryableFailure(endpointIndex, `http_${response.status}`);
+          }
+
+          const error = new Error('AI_STREAM_NON_2XX');
+          if (requestId) {
+            (error as { requestId?: string }).requestId = requestId;
+          }
+          throw error;
+        }
+
+        let rawText = '';
+        let completed: ResponsesApiSuccessPayload | undefined;
+
+        for await (const event of readResponsesStream(response.body)) {
+          if (event.type === 'response.output_text.delta') {
+            const delta = typeof event.data.delta === 'string' ? event.data.delta : '';
+            if (delta.length === 0) {
+              continue;
+            }
+
+            rawText += delta;
+            try {
+              handlers.onTextDelta({ delta, text: sanitizeOutputText(rawText) });
+            } catch (handlerError) {
+              logger?.warn?.('openai-responses stream handler failed', {
+                error: handlerError instanceof Error ? handlerError.message : String(handlerError),
+              });
+            }
+            continue;
+          }
+
+          if (event.type === 'response.completed') {
+            const payload = event.data.response;
+            completed = payload && typeof payload === 'object'
+              ? (payload as ResponsesApiSuccessPayload)
+              : {};
+            continue;
+          }
+
+          if (
+            event.type === 'response.failed'
+            || event.type === 'response.incomplete'
+            || event.type === 'error'
+          ) {
+            // eslint-disable-next-line no-console
+            console.error('[ai][stream_failed]', {
+              type: event.type,
+              requestId: requestId ?? null,
+              endpointId,
+              baseUrl,
+            });
+            throw new Error('AI_STREAM_FAILED');
+          }
+        }
+
+        if (!completed) {
+          throw new Error('AI_STREAM_INCOMPLETE');
+        }
+
+        const streamedText = sanitizeOutputText(rawText);
+        const text = streamedText.length > 0 ? streamedText : extractTextFromPayload(completed).text;
+        markEndpointSuccess(endpointIndex);
+
+        // eslint-disable-next-line no-console
+        console.info('[ai][stream_parsed]', {
+          requestId: requestId ?? null,
+          length: text.length,
+          previousResponseId: previousResponseId ?? null,
+          endpointId,
+          baseUrl,
+        });
+
+        return {
+          text,
+          metadata: {
+            responseId: completed.id,
+            status: completed.status,
+            requestId,
+            usedOutputText: false,
+            streamed: true,
+            previousResponseId,
+            endpointId,
+            baseUrl,
+          },
+        };
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          logger?.warn?.('openai-responses stream timeout', { endpointId });
+          markRetryableFailure(endpointIndex, 'timeout');
+          throw createWrappedError(new Error('OpenAI Responses stream timed out'));
+        }
+
+        throw error;
+      } finally {
+        disposeTimeout?.();
+        release?.();
+      }
+    },
   };
 };
 
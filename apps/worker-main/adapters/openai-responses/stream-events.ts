@@ -0,0 +1,105 @@
+export interface ResponsesStreamEvent {
+  type: string;
+  data: Record<string, unknown>;
+}
+
+const EVENT_SEPARATOR_PATTERN = /\r?\n\r?\n/u;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Разбирает один SSE-блок (`event:`/`data:`) Responses API.
+ * Возвращает `undefined` для комментариев, `[DONE]` и некорректного JSON.
+ */
+export const parseResponsesStreamBlock = (block: string): ResponsesStreamEvent | undefined => {
+  let eventName: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/u)) {
+    if (line.length === 0 || line.startsWith(':')) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const rawValue = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+    const value = rawValue.startsWith(' ') ? rawValue.slice(1) : rawValue;
+
+    if (field === 'event') {
+      eventName = value.trim();
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return undefined;
+  }
+
+  const rawData = dataLines.join('\n').trim();
+  if (rawData.length === 0 || rawData === '[DONE]') {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawData);
+  } catch {
+    return undefined;
+  }
+
+  if (!isRecord(parsed)) {
+    return undefined;
+  }
+
+  const type = typeof parsed.type === 'string' ? parsed.type : eventName;
+  if (!type) {
+    return undefined;
+  }
+
+  return { type, data: parsed };
+};
+
+/**
+ * Читает тело потокового ответа Responses API и отдаёт события по мере поступления.
+ */
+export async function* readResponsesStream(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ResponsesStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let match = EVENT_SEPARATOR_PATTERN.exec(buffer);
+      while (match) {
+        const block = buffer.slice(0, match.index);
+        buffer = buffer.slice(match.index + match[0].length);
+
+        const event = parseResponsesStreamBlock(block);
+        if (event) {
+          yield event;
+        }
+
+        match = EVENT_SEPARATOR_PATTERN.exec(buffer);
+      }
+    }
+
+    buffer += decoder.decode();
+    const tail = parseResponsesStreamBlock(buffer);
+    if (tail) {
+      yield tail;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createOpenAITranscriptionAdapter } from '..';
+
+const createAudio = () => new Uint8Array([1, 2, 3]).buffer;
+
+describe('createOpenAITranscriptionAdapter', () => {
+  it('posts multipart audio and returns sanitized transcript', async () => {
+    const fetchApi = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ text: '  Привет,\u0007 бот  ', language: 'russian' }), { status: 200 }),
+    );
+    const adapter = createOpenAITranscriptionAdapter({
+      apiKey: 'sk-test',
+      model: 'whisper-1',
+      fetchApi,
+    });
+
+    const result = await adapter.transcribe({
+      audio: createAudio(),
+      fileName: 'voice.oga',
+      mimeType: 'audio/ogg',
+      languageCode: 'ru-RU',
+    });
+
+    expect(result).toEqual({
+      text: 'Привет, бот',
+      language: 'russian',
+      metadata: { transcriptionModel: 'whisper-1' },
+    });
+
+    const [url, init] = fetchApi.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://api.openai.com/v1/audio/transcriptions');
+    expect(init.headers).toEqual({ Authorization: 'Bearer sk-test' });
+
+    const form = init.body as FormData;
+    expect(form.get('model')).toBe('whisper-1');
+    expect(form.get('language')).toBe('ru');
+    expect((form.get('file') as File).name).toBe('voice.oga');
+  });
+
+  it('retries retryable statuses and fails fast on client errors', async () => {
+    const wait = vi.fn().mockResolvedValue(undefined);
+    const fetchApi = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ error: { message: 'busy' } }), { status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ text: 'ok' }), { status: 200 }));
+    const adapter = createOpenAITranscriptionAdapter({ apiKey: 'sk', model: 'whisper-1', fetchApi, wait });
+
+    await expect(adapter.transcribe({ audio: createAudio(), fileName: 'voice.oga' })).resolves.toMatchObject({
+      text: 'ok',
+    });
+    expect(fetchApi).toHaveBeenCalledTimes(2);
+    expect(wait).toHaveBeenCalledTimes(1);
+
+    const rejecting = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ error: { message: 'bad audio' } }), { status: 400 }));
+    const failingAdapter = createOpenAITranscriptionAdapter({
+      apiKey: 'sk',
+      model: 'whisper-1',
+      fetchApi: rejecting,
+      wait,
+    });
+
+    await expect(failingAdapter.transcribe({ audio: createAudio(), fileName: 'voice.oga' })).rejects.toThrow(
+      'bad audio',
+    );
+    expect(rejecting).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,151 @@
+import type { TranscriptionPort } from '../../ports';
+import { sanitizeVisibleText } from '../../shared';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1/audio/transcriptions';
+const DEFAULT_TIMEOUT_MS = 20_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 500;
+
+export interface OpenAITranscriptionAdapterOptions {
+  apiKey: string;
+  model: string;
+  /**
+   * Полный URL эндпоинта `audio/transcriptions`; подходит любой
+   * OpenAI-совместимый сервис.
+   */
+  baseUrl?: string;
+  fetchApi?: typeof fetch;
+  requestTimeoutMs?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  wait?: (ms: number) => Promise<void>;
+  logger?: {
+    warn?: (message: string, details?: Record<string, unknown>) => void;
+    error?: (message: string, details?: Record<string, unknown>) => void;
+  };
+}
+
+interface TranscriptionApiPayload {
+  text?: unknown;
+  language?: unknown;
+  error?: {
+    message?: string;
+    type?: string;
+  };
+}
+
+const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500;
+
+const createWait = (optionsWait?: (ms: number) => Promise<void>) =>
+  optionsWait ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+/**
+ * Whisper ожидает код языка ISO-639-1, Telegram присылает `ru`, `en-US` и т.п.
+ */
+const toIsoLanguage = (languageCode: string | undefined): string | undefined => {
+  const normalized = languageCode?.trim().toLowerCase().split(/[-_]/u)[0];
+  return normalized && /^[a-z]{2}$/u.test(normalized) ? normalized : undefined;
+};
+
+export const createOpenAITranscriptionAdapter = (
+  options: OpenAITranscriptionAdapterOptions,
+): TranscriptionPort => {
+  const fetchImpl = options.fetchApi ?? fetch;
+  const baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+  const timeoutMs = options.requestTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = Math.max(1, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const wait = createWait(options.wait);
+
+  const buildForm = (input: Parameters<TranscriptionPort['transcribe']>[0]) => {
+    const form = new FormData();
+    form.append(
+      'file',
+      new Blob([input.audio], { type: input.mimeType ?? 'application/octet-stream' }),
+      input.fileName,
+    );
+    form.append('model', options.model);
+    form.append('response_format', 'json');
+
+    const language = toIsoLanguage(input.languageCode);
+    if (language) {
+      form.append('language', language);
+    }
+
+    return form;
+  };
+
+  return {
+    async transcribe(input) {
+      let attempt = 0;
+
+      for (;;) {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+        try {
+          const response = await fetchImpl(baseUrl, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${options.apiKey}` },
+            body: buildForm(input),
+            signal: controller.signal,
+          });
+
+          let payload: TranscriptionApiPayload | undefined;
+          try {
+            payload = (await response.json()) as TranscriptionApiPayload;
+          } catch {
+            payload = undefined;
+          }
+
+          if (!response.ok) {
+            const error = Object.assign(
+              new Error(payload?.error?.message ?? 'OpenAI transcription request failed'),
+              { status: response.status },
+            );
+
+            if (!isRetryableStatus(response.status) || attempt >= maxRetries - 1) {
+              options.logger?.error?.('[openai-transcription] request failed', {
+                status: response.status,
+                errorType: payload?.error?.type ?? null,
+                attempt,
+              });
+              throw error;
+            }
+
+            options.logger?.warn?.('[openai-transcription] retrying request', {
+              status: response.status,
+              attempt,
+            });
+            await wait(baseDelayMs * 2 ** attempt);
+            attempt += 1;
+            continue;
+          }
+
+          const text = typeof payload?.text === 'string' ? sanitizeVisibleText(payload.text) : '';
+
+          return {
+            text,
+            ...(typeof payload?.language === 'string' ? { language: payload.language } : {}),
+            metadata: { transcriptionModel: options.model },
+          };
+        } catch (error) {
+          const status = (error as { status?: unknown }).status;
+          if (typeof status === 'number' || attempt >= maxRetries - 1) {
+            throw error;
+          }
+
+          options.logger?.warn?.('[openai-transcription] retrying after network error', {
+            error: error instanceof Error ? error.message : String(error),
+            attempt,
+          });
+          await wait(baseDelayMs * 2 ** attempt);
+          attempt += 1;
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      }
+    },
+  };
+};
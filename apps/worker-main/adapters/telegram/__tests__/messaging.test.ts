@@ -105,6 +105,163 @@ describe('createTelegramMessagingAdapter', () => {
     });
   });
 
+  it('attaches inline keyboard as reply_markup', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ ok: true, result: { message_id: 5 } }), { status: 200 }),
+    );
+
+    const adapter = createAdapter();
+
+    await adapter.sendText({
+      chatId: 'chat',
+      text: 'confirm?',
+      replyMarkup: {
+        inlineKeyboard: [[
+          { text: 'Да', callbackData: 'yes' },
+          { text: 'Нет', callbackData: 'no' },
+        ]],
+      },
+    });
+
+    const body = JSON.parse((fetchMock.mock.calls[0]?.[1] as RequestInit).body as string);
+    expect(body.reply_markup).toEqual({
+      inline_keyboard: [[
+        { text: 'Да', callback_data: 'yes' },
+        { text: 'Нет', callback_data: 'no' },
+      ]],
+    });
+  });
+
+  it('sends photos by file_id with caption entities and url buttons', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ ok: true, result: { message_id: 9 } }), { status: 200 }),
+    );
+
+    const adapter = createAdapter();
+
+    await expect(
+      adapter.sendMedia?.({
+        chatId: 'chat',
+        kind: 'photo',
+        fileId: 'photo-file',
+        caption: 'Скидки',
+        captionEntities: [{ type: 'text_link', offset: 0, length: 6, url: 'https://example.com' }],
+        replyMarkup: { inlineKeyboard: [[{ text: 'Открыть', url: 'https://example.com/sale' }]] },
+      }),
+    ).resolves.toEqual({ messageId: '9' });
+
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe(`${baseUrl}/bot${botToken}/sendPhoto`);
+    expect(JSON.parse((init as RequestInit).body as string)).toEqual({
+      chat_id: 'chat',
+      photo: 'photo-file',
+      caption: 'Скидки',
+      caption_entities: [{ type: 'text_link', offset: 0, length: 6, url: 'https://example.com' }],
+      reply_markup: { inline_keyboard: [[{ text: 'Открыть', url: 'https://example.com/sale' }]] },
+    });
+  });
+
+  it('rejects captions above the Telegram caption limit and unsplittable formatted text', async () => {
+    const adapter = createAdapter();
+
+    await expect(
+      adapter.sendMedia?.({ chatId: 'chat', kind: 'document', fileId: 'doc', caption: 'a'.repeat(1025) }),
+    ).rejects.toThrow('Telegram sendDocument caption exceeds maximum length');
+    await expect(
+      adapter.sendText({ chatId: 'chat', text: 'b'.repeat(5000), parseMode: 'HTML' }),
+    ).rejects.toThrow();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('keeps inline keyboard when editing a message', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ ok: true, result: true }), { status: 200 }),
+    );
+
+    const adapter = createAdapter();
+
+    await adapter.editMessageText({
+      chatId: 'chat',
+      messageId: '5',
+      text: 'paused',
+      replyMarkup: { inlineKeyboard: [[{ text: 'Продолжить', callbackData: 'resume' }]] },
+    });
+
+    const body = JSON.parse((fetchMock.mock.calls[0]?.[1] as RequestInit).body as string);
+    expect(body.reply_markup).toEqual({
+      inline_keyboard: [[{ text: 'Продолжить', callback_data: 'resume' }]],
+    });
+  });
+
+  it('answers callback query and swallows errors', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ ok: false, description: 'query is too old' }), { status: 400 }),
+    );
+
+    const adapter = createAdapter();
+
+    await expect(
+      adapter.answerCallbackQuery?.({ callbackQueryId: 'cbq-1', text: 'Готово', showAlert: true }),
+    ).resolves.toBeUndefined();
+
+    expect(fetchMock).toHaveBeenCalledWith(`${baseUrl}/bottest-token/answerCallbackQuery`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        callback_query_id: 'cbq-1',
+        text: 'Готово',
+        show_alert: true,
+      }),
+    });
+  });
+
+  it('downloads file contents resolved via getFile', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ ok: true, result: { file_id: 'voice-1', file_size: 3, file_path: 'voice/file_1.oga' } }),
+          { status: 200 },
+        ),
+      )
+      .mockResolvedValueOnce(new Response(new Uint8Array([1, 2, 3]), { status: 200 }));
+
+    const adapter = createAdapter();
+    const file = await adapter.downloadFile?.({ fileId: 'voice-1', maxBytes: 1024 });
+
+    expect(file).toMatchObject({ filePath: 'voice/file_1.oga', size: 3 });
+    expect(new Uint8Array(file?.data ?? new ArrayBuffer(0))).toEqual(new Uint8Array([1, 2, 3]));
+    expect(fetchMock).toHaveBeenNthCalledWith(1, `${baseUrl}/bottest-token/getFile`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ file_id: 'voice-1' }),
+    });
+    expect(fetchMock).toHaveBeenNthCalledWith(2, `${baseUrl}/file/bottest-token/voice/file_1.oga`, {
+      method: 'GET',
+    });
+  });
+
+  it('refuses to download files above maxBytes', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({ ok: true, result: { file_id: 'voice-1', file_size: 4096, file_path: 'voice/file_1.oga' } }),
+        { status: 200 },
+      ),
+    );
+
+    const adapter = createAdapter();
+
+    await expect(adapter.downloadFile?.({ fileId: 'voice-1', maxBytes: 1024 })).rejects.toThrow('FILE_TOO_LARGE');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not expose token-bearing file urls', () => {
+    expect('getFileUrl' in createAdapter()).toBe(false);
+  });
+
   it('sanitizes outgoing text before sending', async () => {
     fetchMock.mockResolvedValueOnce(
       new Response(JSON.stringify({ ok: true, result: { message_id: 1 } }), { status: 200 }),
@@ -244,6 +401,30 @@ describe('createTelegramMessagingAdapter', () => {
     ).rejects.toThrow(/exceeds maximum length/i);
   });
 
+  it('edits media captions within the caption limit', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ ok: true, result: true }), { status: 200 }),
+    );
+
+    const adapter = createAdapter();
+
+    await expect(
+      adapter.editMessageCaption?.({ chatId: 'chat-1', messageId: '42', caption: 'Новая подпись' }),
+    ).resolves.toBeUndefined();
+
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe(`${baseUrl}/bottest-token/editMessageCaption`);
+    expect(JSON.parse(((init as RequestInit)?.body ?? '{}') as string)).toEqual({
+      chat_id: 'chat-1',
+      message_id: '42',
+      caption: 'Новая подпись',
+    });
+
+    await expect(
+      adapter.editMessageCaption?.({ chatId: 'chat-1', messageId: '42', caption: 'x'.repeat(1025) }),
+    ).rejects.toThrow(/exceeds maximum length/i);
+  });
+
   it('logs description and parameters for non-retryable sendText errors', async () => {
     const errorMock = vi.fn();
     const chatId = '-100123456789012345';
@@ -1,4 +1,4 @@
-import type { MessagingPort } from '../../ports';
+import type { InlineKeyboardMarkup, MessageTextEntity, MessagingPort } from '../../ports';
 import { getVisibleTextLength, stripControlCharacters } from '../../shared';
 
 const DEFAULT_BASE_URL = 'https://api.telegram.org';
@@ -66,6 +66,7 @@ class TelegramApiError extends Error {
 }
 
 const TELEGRAM_VISIBLE_TEXT_LIMIT = 4090;
+const TELEGRAM_CAPTION_LIMIT = 1024;
 
 const sanitizeText = (text: string): string => stripControlCharacters(text);
 
@@ -82,6 +83,31 @@ const splitTextIntoChunks = (text: string): string[] => {
   return chunks;
 };
 
+const toTelegramReplyMarkup = (markup: InlineKeyboardMarkup) => ({
+  inline_keyboard: markup.inlineKeyboard.map((row) =>
+    row.map((button) =>
+      button.url !== undefined
+        ? { text: button.text, url: button.url }
+        : { text: button.text, callback_data: button.callbackData },
+    ),
+  ),
+});
+
+const toTelegramEntities = (entities: ReadonlyArray<MessageTextEntity>) =>
+  entities.map((entity) => ({
+    type: entity.type,
+    offset: entity.offset,
+    length: entity.length,
+    ...(entity.url ? { url: entity.url } : {}),
+    ...(entity.language ? { language: entity.language } : {}),
+    ...(entity.customEmojiId ? { custom_emoji_id: entity.customEmojiId } : {}),
+  }));
+
+const MEDIA_METHODS = {
+  photo: { method: 'sendPhoto', field: 'photo' },
+  document: { method: 'sendDocument', field: 'document' },
+} as const;
+
 const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
 
 const getRetryDelay = (
@@ -181,6 +207,30 @@ export const createTelegramMessagingAdapter = (
   };
 
   const buildUrl = (method: string) => `${baseUrl}/bot${options.botToken}/${method}`;
+  const buildFileUrl = (filePath: string) => `${baseUrl}/file/bot${options.botToken}/${filePath}`;
+
+  const fetchFileWithRetries = async (filePath: string): Promise<ArrayBuffer> => {
+    let attempt = 0;
+
+    for (;;) {
+      const response = await fetchImpl(buildFileUrl(filePath), { method: 'GET' });
+      if (response.ok) {
+        return response.arrayBuffer();
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= maxRetries - 1) {
+        logger?.error?.('telegram-adapter file download failed', {
+          method: 'getFile',
+          status: response.status,
+          attempt,
+        });
+        throw new TelegramApiError('Telegram file download failed', response.status);
+      }
+
+      await wait(getRetryDelay(attempt, baseDelayMs, random));
+      attempt += 1;
+    }
+  };
 
   const executeWithRetries = async <Result>(
     method: string,
@@ -312,6 +362,12 @@ export const createTelegramMessagingAdapter = (
       const sanitizedText = sanitizeText(input.text);
       const visibleLength = getVisibleTextLength(sanitizedText);
       const needsSplitting = Math.max(visibleLength, sanitizedText.length) > TELEGRAM_VISIBLE_TEXT_LIMIT;
+      const formatted = Boolean(input.entities?.length || input.parseMode);
+
+      if (needsSplitting && formatted) {
+        throw new Error('Telegram sendMessage formatted payload exceeds maximum length');
+      }
+
       const chunks = needsSplitting ? splitTextIntoChunks(sanitizedText) : [sanitizedText];
 
       if (chunks.length > 1) {
@@ -335,6 +391,18 @@ export const createTelegramMessagingAdapter = (
           body.message_thread_id = threadId;
         }
 
+        if (input.entities?.length) {
+          body.entities = toTelegramEntities(input.entities);
+        }
+
+        if (input.parseMode) {
+          body.parse_mode = input.parseMode;
+        }
+
+        if (input.replyMarkup && index === chunks.length - 1) {
+          body.reply_markup = toTelegramReplyMarkup(input.replyMarkup);
+        }
+
         logger?.info?.('telegram-adapter sendMessage request', {
           method: 'sendMessage',
           chatId,
@@ -358,6 +426,55 @@ export const createTelegramMessagingAdapter = (
       };
     },
 
+    async sendMedia(input) {
+      const { method, field } = MEDIA_METHODS[input.kind];
+      const chatId = ensureStringId(method, 'chat_id', input.chatId);
+      const threadId = ensureOptionalStringId(method, 'message_thread_id', input.threadId);
+      const caption = input.caption ? sanitizeText(input.caption) : '';
+
+      if (Math.max(getVisibleTextLength(caption), caption.length) > TELEGRAM_CAPTION_LIMIT) {
+        throw new Error(`Telegram ${method} caption exceeds maximum length`);
+      }
+
+      const body: Record<string, unknown> = {
+        chat_id: chatId,
+        [field]: input.fileId,
+      };
+
+      if (threadId) {
+        body.message_thread_id = threadId;
+      }
+
+      if (caption.length > 0) {
+        body.caption = caption;
+      }
+
+      if (input.captionEntities?.length) {
+        body.caption_entities = toTelegramEntities(input.captionEntities);
+      }
+
+      if (input.parseMode) {
+        body.parse_mode = input.parseMode;
+      }
+
+      if (input.replyMarkup) {
+        body.reply_markup = toTelegramReplyMarkup(input.replyMarkup);
+      }
+
+      logger?.info?.(`telegram-adapter ${method} request`, {
+        method,
+        chatId,
+        threadId,
+        captionLength: caption.length,
+      });
+
+      const result = await executeWithRetries<{ message_id?: number }>(method, body, false);
+
+      return {
+        messageId: result?.message_id ? String(result.message_id) : undefined,
+      };
+    },
+
     async editMessageText(input) {
       const sanitizedText = sanitizeText(input.text);
       const visibleLength = getVisibleTextLength(sanitizedText);
@@ -376,9 +493,37 @@ export const createTelegramMessagingAdapter = (
         body.message_thread_id = input.threadId;
       }
 
+      if (input.replyMarkup) {
+        body.reply_markup = toTelegramReplyMarkup(input.replyMarkup);
+      }
+
       await executeWithRetries('editMessageText', body, false);
     },
 
+    async editMessageCaption(input) {
+      const caption = sanitizeText(input.caption);
+
+      if (Math.max(getVisibleTextLength(caption), caption.length) > TELEGRAM_CAPTION_LIMIT) {
+        throw new Error('Telegram editMessageCaption caption exceeds maximum length');
+      }
+
+      const body: Record<string, unknown> = {
+        chat_id: input.chatId,
+        message_id: input.messageId,
+        caption,
+      };
+
+      if (input.threadId) {
+        body.message_thread_id = input.threadId;
+      }
+
+      if (input.replyMarkup) {
+        body.reply_markup = toTelegramReplyMarkup(input.replyMarkup);
+      }
+
+      await executeWithRetries('editMessageCaption', body, false);
+    },
+
     async deleteMessage(input) {
       const body: Record<string, unknown> = {
         chat_id: input.chatId,
@@ -391,6 +536,48 @@ export const createTelegramMessagingAdapter = (
 
       await executeWithRetries('deleteMessage', body, false);
     },
+
+    async answerCallbackQuery(input) {
+      const body: Record<string, unknown> = {
+        callback_query_id: input.callbackQueryId,
+      };
+
+      if (input.text) {
+        body.text = sanitizeText(input.text);
+      }
+
+      if (input.showAlert) {
+        body.show_alert = true;
+      }
+
+      await executeWithRetries('answerCallbackQuery', body, true);
+    },
+
+    async downloadFile(input) {
+      const file = await executeWithRetries<{
+        file_id?: string;
+        file_size?: number;
+        file_path?: string;
+      }>('getFile', { file_id: input.fileId }, false);
+
+      if (!file?.file_path) {
+        throw new Error('Telegram getFile returned no file_path');
+      }
+
+      const isTooLarge = (size: number | undefined) =>
+        input.maxBytes !== undefined && typeof size === 'number' && size > input.maxBytes;
+
+      if (isTooLarge(file.file_size)) {
+        throw new Error('FILE_TOO_LARGE');
+      }
+
+      const data = await fetchFileWithRetries(file.file_path);
+      if (isTooLarge(data.byteLength)) {
+        throw new Error('FILE_TOO_LARGE');
+      }
+
+      return { data, filePath: file.file_path, size: data.byteLength };
+    },
   };
 };
 
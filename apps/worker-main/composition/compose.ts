@@ -1,7 +1,13 @@
 import { DialogEngine, type DialogEngineOptions } from '../core';
 import { createNoopPorts, type NoopPorts } from '../adapters-noop';
 import { createRateLimitToggle, type LimitsFlagKvNamespace } from '../features/limits';
-import type { AiPort, MessagingPort, RateLimitPort, StoragePort } from '../ports';
+import type {
+  AiPort,
+  MessagingPort,
+  RateLimitPort,
+  StoragePort,
+  TranscriptionPort,
+} from '../ports';
 
 export interface ComposeEnv {
   TELEGRAM_WEBHOOK_SECRET?: string;
@@ -13,9 +19,13 @@ export interface PortOverrides {
   ai: AiPort;
   storage: StoragePort;
   rateLimit: RateLimitPort;
+  /**
+   * Распознавание голосовых сообщений; без адаптера используется noop-заглушка.
+   */
+  transcription?: TranscriptionPort;
 }
 
-export interface CompositionPorts extends PortOverrides {
+export interface CompositionPorts extends Required<PortOverrides> {
   rawRateLimit: RateLimitPort;
 }
 
@@ -35,11 +45,12 @@ export interface CompositionResult {
 const mergePorts = (
   overrides: Partial<PortOverrides> | undefined,
   fallback: NoopPorts,
-): PortOverrides => ({
+): Required<PortOverrides> => ({
   messaging: overrides?.messaging ?? fallback.messaging,
   ai: overrides?.ai ?? fallback.ai,
   storage: overrides?.storage ?? fallback.storage,
   rateLimit: overrides?.rateLimit ?? fallback.rateLimit,
+  transcription: overrides?.transcription ?? fallback.transcription,
 });
 
 export const composeWorker = (options: ComposeOptions): CompositionResult => {
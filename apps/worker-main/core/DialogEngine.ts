@@ -5,7 +5,11 @@
 
 import type {
   AiPort,
+  AiReplyInput,
+  AiReplyResult,
   ConversationTurn,
+  MessageAttachment,
+  MessageTextEntity,
   MessagingPort,
   RateLimitPort,
   StoragePort,
@@ -14,13 +18,144 @@ import type {
 } from '../ports';
 import { getFriendlyOverloadMessage } from '../adapters/openai-responses/overload-message';
 
+export interface DialogEngineStreamingOptions {
+  /**
+   * Включает потоковую доставку ответа, если AiPort реализует `replyStream`.
+   */
+  enabled: boolean;
+  /**
+   * Минимальная пауза между промежуточными правками сообщения, мс.
+   */
+  editIntervalMs?: number;
+  /**
+   * Сколько символов нужно накопить перед отправкой первого фрагмента.
+   */
+  minFirstChunkLength?: number;
+  /**
+   * Предельная длина редактируемого сообщения; более длинный ответ уходит
+   * обычной отправкой с разбиением на части.
+   */
+  maxMessageLength?: number;
+}
+
+export interface DialogEngineSummaryOptions {
+  /**
+   * Включает сворачивание старой истории в саммари, если StoragePort
+   * реализует `getConversationSummary` и `getMessagesAfter`.
+   */
+  enabled: boolean;
+  /**
+   * Сколько сообщений должно накопиться за пределами хвоста контекста,
+   * чтобы саммари обновилось.
+   */
+  triggerMessages?: number;
+  /**
+   * Максимум сообщений, сворачиваемых за один запрос к модели.
+   */
+  maxSourceMessages?: number;
+}
+
 export interface DialogEngineOptions {
   /**
    * Количество сообщений в истории, которое передаём модели.
    */
   recentMessagesLimit?: number;
+  /**
+   * Потоковая доставка ответа: первый фрагмент отправляется сразу, дальнейшие
+   * обновляются через editMessageText.
+   */
+  streaming?: DialogEngineStreamingOptions;
+  /**
+   * Скользящее саммари: сообщения старше хвоста `recentMessagesLimit`
+   * сворачиваются моделью в системное сообщение, контекст строится как
+   * «саммари + хвост».
+   */
+  summary?: DialogEngineSummaryOptions;
+}
+
+/**
+ * Версия формата саммари. Саммари с другой версией не подмешиваются в контекст
+ * и пересобираются с начала истории.
+ */
+export const CONVERSATION_SUMMARY_VERSION = 1;
+
+export interface ConversationSummaryMetadata {
+  kind: 'summary';
+  summaryVersion: number;
+  revision: number;
+  coveredUntil: string;
+  coveredMessages: number;
 }
 
+export const readConversationSummaryMetadata = (
+  metadata: Record<string, unknown> | undefined,
+): ConversationSummaryMetadata | undefined => {
+  if (!metadata || metadata.kind !== 'summary') {
+    return undefined;
+  }
+
+  const { summaryVersion, revision, coveredUntil, coveredMessages } = metadata;
+  if (
+    typeof summaryVersion !== 'number'
+    || typeof coveredUntil !== 'string'
+    || Number.isNaN(new Date(coveredUntil).getTime())
+  ) {
+    return undefined;
+  }
+
+  return {
+    kind: 'summary',
+    summaryVersion,
+    revision: typeof revision === 'number' ? revision : 1,
+    coveredUntil,
+    coveredMessages: typeof coveredMessages === 'number' ? coveredMessages : 0,
+  };
+};
+
+/**
+ * Восстанавливает ссылки на вложения из `metadata.attachments` сохранённого
+ * сообщения, чтобы история проигрывалась вместе с фото и документами.
+ */
+export const readStoredAttachments = (
+  metadata: Record<string, unknown> | undefined,
+): MessageAttachment[] | undefined => {
+  const raw = metadata?.attachments;
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+
+  const attachments = raw.flatMap((item): MessageAttachment[] => {
+    if (!item || typeof item !== 'object') {
+      return [];
+    }
+
+    const { kind, fileId, mimeType, size, fileName } = item as Record<string, unknown>;
+    if ((kind !== 'image' && kind !== 'document') || typeof fileId !== 'string' || fileId.length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        kind,
+        fileId,
+        ...(typeof mimeType === 'string' ? { mimeType } : {}),
+        ...(typeof size === 'number' ? { size } : {}),
+        ...(typeof fileName === 'string' ? { fileName } : {}),
+      },
+    ];
+  });
+
+  return attachments.length > 0 ? attachments : undefined;
+};
+
+const toStoredAttachment = ({ kind, fileId, mimeType, size, fileName }: MessageAttachment) => ({
+  kind,
+  fileId,
+  ...(mimeType ? { mimeType } : {}),
+  ...(size !== undefined ? { size } : {}),
+  ...(fileName ? { fileName } : {}),
+});
+
 export interface IncomingMessage {
   user: UserProfile;
   chat: {
@@ -30,6 +165,26 @@ export interface IncomingMessage {
   text: string;
   messageId?: string;
   receivedAt: Date;
+  /**
+   * Сведения о происхождении текста (например, расшифровка голосового),
+   * сохраняются вместе с сообщением пользователя.
+   */
+  metadata?: Record<string, unknown>;
+  /**
+   * Фото и документы сообщения; текст в этом случае — подпись (может быть
+   * пустым).
+   */
+  attachments?: MessageAttachment[];
+  /**
+   * Разметка текста (или подписи) в исходном сообщении. Ядро её не
+   * использует; нужна фичам, которые пересылают текст дальше как есть.
+   */
+  entities?: MessageTextEntity[];
+  /**
+   * Идентификатор сообщения, на которое отвечает пользователь. Ядро его не
+   * использует; по нему фичи связывают ответ с исходным сообщением бота.
+   */
+  replyToMessageId?: string;
 }
 
 export type DialogEngineResult =
@@ -44,6 +199,62 @@ export type DialogEngineResult =
       };
     };
 
+interface ResolvedStreamingOptions {
+  editIntervalMs: number;
+  minFirstChunkLength: number;
+  maxMessageLength: number;
+}
+
+interface ResolvedSummaryOptions {
+  triggerMessages: number;
+  maxSourceMessages: number;
+}
+
+interface ActiveSummary {
+  text: string;
+  metadata: ConversationSummaryMetadata;
+}
+
+interface StreamedReplyState {
+  reply?: AiReplyResult;
+  messageId?: string;
+  deliveredText: string;
+}
+
+const DEFAULT_STREAM_EDIT_INTERVAL_MS = 1_000;
+const DEFAULT_STREAM_MIN_FIRST_CHUNK_LENGTH = 20;
+const DEFAULT_STREAM_MAX_MESSAGE_LENGTH = 4090;
+const DEFAULT_SUMMARY_TRIGGER_MESSAGES = 10;
+const DEFAULT_SUMMARY_MAX_SOURCE_MESSAGES = 100;
+/**
+ * Сколько вложений (начиная с самых свежих) скачивается для модели за
+ * один запрос; остальные остаются в истории, но модели не передаются.
+ */
+const MAX_RESOLVED_ATTACHMENTS = 4;
+const MAX_RESOLVED_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const BASE64_CHUNK_SIZE = 0x8000;
+
+const toDataUrl = (data: ArrayBuffer, mimeType: string): string => {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_SIZE));
+  }
+
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const resolveAttachmentMimeType = (attachment: MessageAttachment): string =>
+  attachment.mimeType ?? (attachment.kind === 'image' ? 'image/jpeg' : 'application/octet-stream');
+
+const SUMMARY_CONTEXT_PREFIX = 'Краткое содержание предыдущей части диалога:\n';
+const SUMMARY_INSTRUCTION = [
+  'Составь краткое содержание переписки выше для продолжения диалога.',
+  'Если есть предыдущее краткое содержание, дополни его, а не пересказывай заново.',
+  'Сохрани факты о пользователе, его цели, договорённости и открытые вопросы.',
+  'Пиши от третьего лица, без приветствий и вопросов к пользователю, не длиннее 1500 символов.',
+].join('\n');
+
 export interface DialogEngineDeps {
   messaging: MessagingPort;
   ai: AiPort;
@@ -55,10 +266,32 @@ export interface DialogEngineDeps {
 export class DialogEngine {
   private readonly recentMessagesLimit: number;
   private readonly now: () => Date;
+  private readonly streaming?: ResolvedStreamingOptions;
+  private readonly summary?: ResolvedSummaryOptions;
 
   constructor(private readonly deps: DialogEngineDeps, options: DialogEngineOptions = {}) {
     this.recentMessagesLimit = options.recentMessagesLimit ?? 15;
     this.now = deps.now ?? (() => new Date());
+    this.streaming = options.streaming?.enabled
+      ? {
+          editIntervalMs: options.streaming.editIntervalMs ?? DEFAULT_STREAM_EDIT_INTERVAL_MS,
+          minFirstChunkLength:
+            options.streaming.minFirstChunkLength ?? DEFAULT_STREAM_MIN_FIRST_CHUNK_LENGTH,
+          maxMessageLength: options.streaming.maxMessageLength ?? DEFAULT_STREAM_MAX_MESSAGE_LENGTH,
+        }
+      : undefined;
+    this.summary = options.summary?.enabled
+      ? {
+          triggerMessages: Math.max(
+            1,
+            options.summary.triggerMessages ?? DEFAULT_SUMMARY_TRIGGER_MESSAGES,
+          ),
+          maxSourceMessages: Math.max(
+            1,
+            options.summary.maxSourceMessages ?? DEFAULT_SUMMARY_MAX_SOURCE_MESSAGES,
+          ),
+        }
+      : undefined;
   }
 
   async handleMessage(message: IncomingMessage): Promise<DialogEngineResult> {
@@ -102,7 +335,15 @@ export class DialogEngine {
       role: 'user',
       text: message.text,
       timestamp,
-      metadata: message.messageId ? { messageId: message.messageId } : undefined,
+      metadata: message.messageId || message.metadata || message.attachments?.length
+        ? {
+            ...message.metadata,
+            ...(message.attachments?.length
+              ? { attachments: message.attachments.map(toStoredAttachment) }
+              : {}),
+            ...(message.messageId ? { messageId: message.messageId } : {}),
+          }
+        : undefined,
     });
 
     const recentMessagesPromise = storage.getRecentMessages({
@@ -110,6 +351,8 @@ export class DialogEngine {
       limit: this.recentMessagesLimit,
     });
 
+    const summaryPromise = this.loadActiveSummary(message.user.userId);
+
     try {
       const [saveUserResult, appendUserMessageResult, recentMessagesResult] = await Promise.allSettled([
         saveUserPromise,
@@ -132,17 +375,30 @@ export class DialogEngine {
       await awaitTyping();
 
       const recentMessages = recentMessagesResult.value;
+      const activeSummary = await summaryPromise;
+      const resolved = await this.resolveAttachmentData(
+        this.buildContext(
+          this.excludeIncomingMessageFromContext(recentMessages, message),
+          activeSummary,
+        ),
+        message.attachments,
+      );
+      const aiInput: AiReplyInput = {
+        userId: message.user.userId,
+        text: message.text,
+        ...(resolved.attachments ? { attachments: resolved.attachments } : {}),
+        context: resolved.context,
+        languageCode: message.user.languageCode,
+        tools: true,
+      };
+
+      const streamed = this.streaming && ai.replyStream
+        ? await this.streamAssistantReply({ ai, messaging, message, input: aiInput, settings: this.streaming })
+        : undefined;
 
-      let aiReply: Awaited<ReturnType<AiPort['reply']>>;
+      let aiReply: AiReplyResult;
       try {
-        aiReply = await ai.reply({
-          userId: message.user.userId,
-          text: message.text,
-          context: this.mapToConversationTurns(
-            this.excludeIncomingMessageFromContext(recentMessages, message),
-          ),
-          languageCode: message.user.languageCode,
-        });
+        aiReply = streamed?.reply ?? (await ai.reply(aiInput));
       } catch (error) {
         if (
           error instanceof Error
@@ -174,11 +430,19 @@ export class DialogEngine {
       }
 
       const replyTimestamp = this.now();
-      const sentMessage = await this.sendAssistantReply({
-        messaging,
-        message,
-        text: aiReply.text,
-      });
+      const sentMessage = streamed?.messageId
+        ? await this.finalizeStreamedReply({
+            messaging,
+            message,
+            messageId: streamed.messageId,
+            deliveredText: streamed.deliveredText,
+            text: aiReply.text,
+          })
+        : await this.sendAssistantReply({
+            messaging,
+            message,
+            text: aiReply.text,
+          });
 
       await storage.appendMessage({
         userId: message.user.userId,
@@ -190,6 +454,8 @@ export class DialogEngine {
         metadata: this.mergeMetadata(aiReply.metadata, sentMessage?.messageId),
       });
 
+      await this.refreshSummary(message, activeSummary);
+
       return {
         status: 'replied',
         response: {
@@ -212,11 +478,183 @@ export class DialogEngine {
     }
   }
 
+  private buildContext(
+    messages: StoredMessage[],
+    activeSummary: ActiveSummary | undefined,
+  ): ConversationTurn[] {
+    const summary = this.isCurrentSummary(activeSummary) ? activeSummary : undefined;
+    const turns = this.mapToConversationTurns(
+      summary
+        ? messages.filter(
+            (item) => item.timestamp.getTime() > new Date(summary.metadata.coveredUntil).getTime(),
+          )
+        : messages,
+    );
+
+    return summary ? [this.toSummaryTurn(summary.text), ...turns] : turns;
+  }
+
+  private isCurrentSummary(summary: ActiveSummary | undefined): summary is ActiveSummary {
+    return summary?.metadata.summaryVersion === CONVERSATION_SUMMARY_VERSION;
+  }
+
+  private toSummaryTurn(text: string): ConversationTurn {
+    return { role: 'system', text: `${SUMMARY_CONTEXT_PREFIX}${text}` };
+  }
+
+  private async loadActiveSummary(userId: string): Promise<ActiveSummary | undefined> {
+    const { storage } = this.deps;
+    if (!this.summary || !storage.getConversationSummary) {
+      return undefined;
+    }
+
+    try {
+      const stored = await storage.getConversationSummary({ userId });
+      const metadata = readConversationSummaryMetadata(stored?.metadata);
+      if (!stored || !metadata) {
+        return undefined;
+      }
+
+      return { text: stored.text, metadata };
+    } catch (error) {
+      console.warn('[dialog-engine][summary_load_failed]', {
+        userId,
+        error: this.normalizeError(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Сворачивает сообщения, вышедшие за хвост контекста, в новое саммари.
+   * Ответ пользователю к этому моменту уже доставлен, поэтому сбой только
+   * логируется — следующая реплика попробует снова.
+   */
+  private async refreshSummary(
+    message: IncomingMessage,
+    current: ActiveSummary | undefined,
+  ): Promise<void> {
+    const { storage, ai } = this.deps;
+    const settings = this.summary;
+    if (!settings || !storage.getMessagesAfter) {
+      return;
+    }
+
+    const userId = message.user.userId;
+    const previous = this.isCurrentSummary(current) ? current : undefined;
+
+    try {
+      const pending = await storage.getMessagesAfter({
+        userId,
+        after: previous ? new Date(previous.metadata.coveredUntil) : undefined,
+        limit: settings.maxSourceMessages + this.recentMessagesLimit,
+      });
+
+      const overflow = pending.length - this.recentMessagesLimit;
+      if (overflow < settings.triggerMessages) {
+        return;
+      }
+
+      const source = pending.slice(0, overflow);
+      const summaryReply = await ai.reply({
+        userId,
+        text: SUMMARY_INSTRUCTION,
+        context: [
+          ...(previous ? [this.toSummaryTurn(previous.text)] : []),
+          ...this.mapToConversationTurns(source),
+        ],
+        languageCode: message.user.languageCode,
+      });
+
+      const metadata: ConversationSummaryMetadata = {
+        kind: 'summary',
+        summaryVersion: CONVERSATION_SUMMARY_VERSION,
+        revision: (current?.metadata.revision ?? 0) + 1,
+        coveredUntil: source[source.length - 1].timestamp.toISOString(),
+        coveredMessages: (previous?.metadata.coveredMessages ?? 0) + source.length,
+      };
+
+      await storage.appendMessage({
+        userId,
+        chatId: message.chat.id,
+        threadId: message.chat.threadId,
+        role: 'system',
+        text: summaryReply.text,
+        timestamp: this.now(),
+        metadata: { ...metadata },
+      });
+    } catch (error) {
+      console.warn('[dialog-engine][summary_failed]', {
+        userId,
+        chatId: message.chat.id,
+        error: this.normalizeError(error),
+      });
+    }
+  }
+
   private mapToConversationTurns(messages: StoredMessage[]): ConversationTurn[] {
-    return messages.map((message) => ({
-      role: message.role,
-      text: message.text,
-    }));
+    return messages.map((message) => {
+      const attachments = message.role === 'user' ? readStoredAttachments(message.metadata) : undefined;
+      return {
+        role: message.role,
+        text: message.text,
+        ...(attachments ? { attachments } : {}),
+      };
+    });
+  }
+
+  /**
+   * Скачивает вложения и передаёт модели их содержимое, а не ссылку
+   * платформы: сначала текущего сообщения, затем истории от новых к старым,
+   * не больше `MAX_RESOLVED_ATTACHMENTS`. Вложение, которое не удалось
+   * скачать, остаётся без `dataUrl`.
+   */
+  private async resolveAttachmentData(
+    context: ConversationTurn[],
+    current: ReadonlyArray<MessageAttachment> | undefined,
+  ): Promise<{ context: ConversationTurn[]; attachments?: MessageAttachment[] }> {
+    const { messaging } = this.deps;
+    const hasAttachments = Boolean(current?.length) || context.some((turn) => turn.attachments?.length);
+    if (!messaging.downloadFile || !hasAttachments) {
+      return { context, attachments: current ? [...current] : undefined };
+    }
+
+    const downloadFile = messaging.downloadFile.bind(messaging);
+    let budget = MAX_RESOLVED_ATTACHMENTS;
+    const resolveList = (items: ReadonlyArray<MessageAttachment>) =>
+      Promise.all(
+        items.map(async (attachment): Promise<MessageAttachment> => {
+          if (budget <= 0) {
+            return attachment;
+          }
+          budget -= 1;
+
+          try {
+            const file = await downloadFile({
+              fileId: attachment.fileId,
+              maxBytes: MAX_RESOLVED_ATTACHMENT_BYTES,
+            });
+            return { ...attachment, dataUrl: toDataUrl(file.data, resolveAttachmentMimeType(attachment)) };
+          } catch (error) {
+            // eslint-disable-next-line no-console
+            console.warn('[dialog-engine][attachment_download_failed]', {
+              fileId: attachment.fileId,
+              error: this.normalizeError(error),
+            });
+            return attachment;
+          }
+        }),
+      );
+
+    const currentPromise = current ? resolveList(current) : Promise.resolve(undefined);
+    const reversedTurnsPromise = Promise.all(
+      [...context].reverse().map(async (turn) =>
+        turn.attachments ? { ...turn, attachments: await resolveList(turn.attachments) } : turn,
+      ),
+    );
+
+    const [attachments, reversedTurns] = await Promise.all([currentPromise, reversedTurnsPromise]);
+    return { context: reversedTurns.reverse(), attachments };
   }
 
   private excludeIncomingMessageFromContext(
@@ -293,6 +731,156 @@ export class DialogEngine {
     }
   }
 
+  private async streamAssistantReply({
+    ai,
+    messaging,
+    message,
+    input,
+    settings,
+  }: {
+    ai: AiPort;
+    messaging: MessagingPort;
+    message: IncomingMessage;
+    input: AiReplyInput;
+    settings: ResolvedStreamingOptions;
+  }): Promise<StreamedReplyState> {
+    const state: StreamedReplyState = { deliveredText: '' };
+    let latestText = '';
+    let lastUpdateAt = 0;
+    let inFlight: Promise<void> | undefined;
+    let updatesStopped = false;
+
+    const pushUpdate = () => {
+      const text = latestText;
+      const chat = { chatId: message.chat.id, threadId: message.chat.threadId };
+
+      const request = state.messageId
+        ? messaging
+            .editMessageText({ ...chat, messageId: state.messageId, text })
+            .then(() => {
+              state.deliveredText = text;
+            })
+        : messaging.sendText({ ...chat, text }).then((result) => {
+            state.deliveredText = text;
+            state.messageId = result.messageId;
+            if (!result.messageId) {
+              updatesStopped = true;
+            }
+          });
+
+      lastUpdateAt = this.now().getTime();
+      inFlight = request
+        .catch((error) => {
+          // Промежуточные обновления не критичны: финальный текст доставит
+          // finalizeStreamedReply или обычная отправка.
+          updatesStopped = true;
+          console.warn('[dialog-engine][stream_update_failed]', {
+            chatId: message.chat.id,
+            userId: message.user.userId,
+            hasMessageId: Boolean(state.messageId),
+            error: this.normalizeError(error),
+          });
+        })
+        .finally(() => {
+          inFlight = undefined;
+        });
+    };
+
+    try {
+      state.reply = await ai.replyStream?.(input, {
+        onTextDelta: ({ text }) => {
+          latestText = text;
+
+          if (updatesStopped || inFlight || text.length === 0) {
+            return;
+          }
+
+          if (text.length > settings.maxMessageLength) {
+            updatesStopped = true;
+            return;
+          }
+
+          if (!state.messageId) {
+            if (text.length >= settings.minFirstChunkLength) {
+              pushUpdate();
+            }
+            return;
+          }
+
+          if (this.now().getTime() - lastUpdateAt >= settings.editIntervalMs) {
+            pushUpdate();
+          }
+        },
+      });
+    } catch (error) {
+      console.warn('[dialog-engine][stream_fallback]', {
+        chatId: message.chat.id,
+        userId: message.user.userId,
+        messageId: message.messageId ?? null,
+        partialDelivered: Boolean(state.messageId),
+        error: this.normalizeError(error),
+      });
+    }
+
+    await inFlight;
+    return state;
+  }
+
+  private async finalizeStreamedReply({
+    messaging,
+    message,
+    messageId,
+    deliveredText,
+    text,
+  }: {
+    messaging: MessagingPort;
+    message: IncomingMessage;
+    messageId: string;
+    deliveredText: string;
+    text: string;
+  }): Promise<{ messageId?: string } | undefined> {
+    if (text === deliveredText) {
+      return { messageId };
+    }
+
+    const maxMessageLength = this.streaming?.maxMessageLength ?? DEFAULT_STREAM_MAX_MESSAGE_LENGTH;
+    if (text.length <= maxMessageLength) {
+      try {
+        await messaging.editMessageText({
+          chatId: message.chat.id,
+          threadId: message.chat.threadId,
+          messageId,
+          text,
+        });
+        return { messageId };
+      } catch (error) {
+        console.warn('[dialog-engine][stream_finalize_failed]', {
+          chatId: message.chat.id,
+          userId: message.user.userId,
+          error: this.normalizeError(error),
+        });
+      }
+    }
+
+    // Финальный текст не помещается в правку или правка не удалась: убираем
+    // частичный ответ и отправляем полный обычным путём.
+    try {
+      await messaging.deleteMessage({
+        chatId: message.chat.id,
+        threadId: message.chat.threadId,
+        messageId,
+      });
+    } catch (error) {
+      console.warn('[dialog-engine][stream_cleanup_failed]', {
+        chatId: message.chat.id,
+        userId: message.user.userId,
+        error: this.normalizeError(error),
+      });
+    }
+
+    return this.sendAssistantReply({ messaging, message, text });
+  }
+
   private normalizeError(error: unknown): unknown {
     if (error instanceof Error) {
       return {
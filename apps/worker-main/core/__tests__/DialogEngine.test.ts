@@ -131,6 +131,7 @@ describe('DialogEngine', () => {
       userId: 'user-1',
       text: 'Привет!',
       context: previousMessages.map(({ role, text }) => ({ role, text })),
+      tools: true,
     });
 
     expect(messaging.sendText).toHaveBeenCalledWith({
@@ -148,6 +149,154 @@ describe('DialogEngine', () => {
     expect(getRecentOrder[0]).toBeLessThan(appendMessageCallOrder[1]);
   });
 
+
+  it('сохраняет метаданные входящего сообщения вместе с текстом пользователя', async () => {
+    const messaging: MessagingPort = {
+      sendTyping: vi.fn().mockResolvedValue(undefined),
+      sendText: vi.fn().mockResolvedValue({ messageId: 'outgoing-1' }),
+      editMessageText: vi.fn().mockResolvedValue(undefined),
+      deleteMessage: vi.fn().mockResolvedValue(undefined),
+    };
+    const storage: StoragePort = {
+      saveUser: vi.fn().mockResolvedValue({ utmDegraded: false }),
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      getRecentMessages: vi.fn().mockResolvedValue([]),
+    };
+    const engine = new DialogEngine({
+      messaging,
+      ai: { reply: vi.fn().mockResolvedValue({ text: 'Понял' }) },
+      storage,
+      rateLimit: { checkAndIncrement: vi.fn().mockResolvedValue('ok') },
+      now: () => new Date('2024-01-01T10:00:05Z'),
+    });
+
+    await engine.handleMessage(
+      createMessageOverrides({
+        text: 'Расшифровка голосового',
+        metadata: { source: 'voice', transcribed: true, audioDurationSec: 7 },
+      }),
+    );
+
+    expect(storage.appendMessage).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        role: 'user',
+        text: 'Расшифровка голосового',
+        metadata: { source: 'voice', transcribed: true, audioDurationSec: 7, messageId: 'incoming-1' },
+      }),
+    );
+  });
+  it('сохраняет вложения в метаданных и передаёт модели их содержимое, включая историю', async () => {
+    const downloadFile = vi.fn(async ({ fileId }: { fileId: string; maxBytes?: number }) => {
+      if (fileId === 'broken') {
+        throw new Error('getFile failed');
+      }
+      return { data: new Uint8Array([1, 2, 3]).buffer, filePath: `files/${fileId}`, size: 3 };
+    });
+    const messaging: MessagingPort = {
+      sendTyping: vi.fn().mockResolvedValue(undefined),
+      sendText: vi.fn().mockResolvedValue({ messageId: 'outgoing-1' }),
+      editMessageText: vi.fn().mockResolvedValue(undefined),
+      deleteMessage: vi.fn().mockResolvedValue(undefined),
+      downloadFile,
+    };
+    const storage: StoragePort = {
+      saveUser: vi.fn().mockResolvedValue({ utmDegraded: false }),
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      getRecentMessages: vi.fn().mockResolvedValue([
+        {
+          userId: 'user-1',
+          chatId: 'chat-1',
+          role: 'user',
+          text: 'Вот чек',
+          timestamp: new Date('2024-01-01T09:58:00Z'),
+          metadata: {
+            messageId: 'incoming-0',
+            attachments: [
+              { kind: 'document', fileId: 'doc-1', mimeType: 'application/pdf', size: 2048, fileName: 'check.pdf' },
+              { kind: 'image', fileId: 'broken' },
+              { kind: 'video', fileId: 'ignored' },
+            ],
+          },
+        },
+        {
+          userId: 'user-1',
+          chatId: 'chat-1',
+          role: 'assistant',
+          text: 'Принял',
+          timestamp: new Date('2024-01-01T09:59:00Z'),
+        },
+      ] satisfies StoredMessage[]),
+    };
+    const ai: AiPort = { reply: vi.fn().mockResolvedValue({ text: 'На фото кот' }) };
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const engine = new DialogEngine({
+      messaging,
+      ai,
+      storage,
+      rateLimit: { checkAndIncrement: vi.fn().mockResolvedValue('ok') },
+      now: () => new Date('2024-01-01T10:00:05Z'),
+    });
+
+    await engine.handleMessage(
+      createMessageOverrides({
+        text: '',
+        attachments: [{ kind: 'image', fileId: 'photo-1', mimeType: 'image/jpeg', size: 1024 }],
+      }),
+    );
+
+    expect(storage.appendMessage).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        role: 'user',
+        text: '',
+        metadata: {
+          attachments: [{ kind: 'image', fileId: 'photo-1', mimeType: 'image/jpeg', size: 1024 }],
+          messageId: 'incoming-1',
+        },
+      }),
+    );
+    expect(ai.reply).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: '',
+        attachments: [
+          {
+            kind: 'image',
+            fileId: 'photo-1',
+            mimeType: 'image/jpeg',
+            size: 1024,
+            dataUrl: 'data:image/jpeg;base64,AQID',
+          },
+        ],
+        context: [
+          {
+            role: 'user',
+            text: 'Вот чек',
+            attachments: [
+              {
+                kind: 'document',
+                fileId: 'doc-1',
+                mimeType: 'application/pdf',
+                size: 2048,
+                fileName: 'check.pdf',
+                dataUrl: 'data:application/pdf;base64,AQID',
+              },
+              { kind: 'image', fileId: 'broken' },
+            ],
+          },
+          { role: 'assistant', text: 'Принял' },
+        ],
+      }),
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      '[dialog-engine][attachment_download_failed]',
+      expect.objectContaining({ fileId: 'broken' }),
+    );
+    expect(downloadFile).toHaveBeenCalledWith({ fileId: 'photo-1', maxBytes: 10 * 1024 * 1024 });
+    expect(JSON.stringify(vi.mocked(ai.reply).mock.calls)).not.toContain('https://');
+    warnSpy.mockRestore();
+  });
+
   it('не записывает ассистента в историю при ошибке отправки', async () => {
     const messaging: MessagingPort = {
       sendTyping: vi.fn().mockResolvedValue(undefined),
@@ -289,6 +438,7 @@ describe('DialogEngine', () => {
           text: 'Здравствуйте ещё раз!',
         },
       ],
+      tools: true,
     });
 
     const context = (ai.reply as ReturnType<typeof vi.fn>).mock.calls[0]?.[0]?.context;
@@ -550,4 +700,315 @@ describe('DialogEngine', () => {
     );
     consoleWarn.mockRestore();
   });
+
+  it('стримит ответ: отправляет первый фрагмент и дописывает его правками', async () => {
+    const messaging: MessagingPort = {
+      sendTyping: vi.fn().mockResolvedValue(undefined),
+      sendText: vi.fn().mockResolvedValue({ messageId: 'stream-1' }),
+      editMessageText: vi.fn().mockResolvedValue(undefined),
+      deleteMessage: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const ai: AiPort = {
+      reply: vi.fn(),
+      replyStream: vi.fn(async (_input, handlers) => {
+        handlers.onTextDelta({ delta: 'Здрав', text: 'Здрав' });
+        await Promise.resolve();
+        handlers.onTextDelta({ delta: 'ствуйте', text: 'Здравствуйте' });
+        await Promise.resolve();
+        handlers.onTextDelta({ delta: '!', text: 'Здравствуйте!' });
+        return { text: 'Здравствуйте!', metadata: { streamed: true } };
+      }),
+    };
+
+    const storage: StoragePort = {
+      saveUser: vi.fn().mockResolvedValue({ utmDegraded: false }),
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      getRecentMessages: vi.fn().mockResolvedValue([]),
+    };
+
+    const rateLimit: RateLimitPort = {
+      checkAndIncrement: vi.fn().mockResolvedValue('ok'),
+    };
+
+    const now = vi.fn(() => new Date('2024-01-01T10:00:05Z'));
+
+    const engine = new DialogEngine(
+      { messaging, ai, storage, rateLimit, now },
+      { streaming: { enabled: true, minFirstChunkLength: 1, editIntervalMs: 0 } },
+    );
+
+    const result = await engine.handleMessage(createMessageOverrides());
+
+    expect(result).toEqual({
+      status: 'replied',
+      response: { text: 'Здравствуйте!', messageId: 'stream-1' },
+    });
+    expect(ai.reply).not.toHaveBeenCalled();
+    expect(messaging.sendText).toHaveBeenCalledTimes(1);
+    expect(messaging.sendText).toHaveBeenCalledWith({
+      chatId: 'chat-1',
+      threadId: undefined,
+      text: 'Здрав',
+    });
+    expect(messaging.editMessageText).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: undefined,
+      messageId: 'stream-1',
+      text: 'Здравствуйте!',
+    });
+    expect(storage.appendMessage).toHaveBeenNthCalledWith(2, {
+      userId: 'user-1',
+      chatId: 'chat-1',
+      threadId: undefined,
+      role: 'assistant',
+      text: 'Здравствуйте!',
+      timestamp: new Date('2024-01-01T10:00:05Z'),
+      metadata: { streamed: true, messageId: 'stream-1' },
+    });
+  });
+
+  it('откатывается на обычный ответ при сбое стрима и дописывает частичное сообщение', async () => {
+    const messaging: MessagingPort = {
+      sendTyping: vi.fn().mockResolvedValue(undefined),
+      sendText: vi.fn().mockResolvedValue({ messageId: 'stream-2' }),
+      editMessageText: vi.fn().mockResolvedValue(undefined),
+      deleteMessage: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const ai: AiPort = {
+      reply: vi.fn().mockResolvedValue({ text: 'Полный ответ', metadata: { responseId: 'resp-1' } }),
+      replyStream: vi.fn(async (_input, handlers) => {
+        handlers.onTextDelta({ delta: 'Пол', text: 'Пол' });
+        await Promise.resolve();
+        throw new Error('AI_STREAM_FAILED');
+      }),
+    };
+
+    const storage: StoragePort = {
+      saveUser: vi.fn().mockResolvedValue({ utmDegraded: false }),
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      getRecentMessages: vi.fn().mockResolvedValue([]),
+    };
+
+    const rateLimit: RateLimitPort = {
+      checkAndIncrement: vi.fn().mockResolvedValue('ok'),
+    };
+
+    const now = vi.fn(() => new Date('2024-01-01T10:00:05Z'));
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const engine = new DialogEngine(
+      { messaging, ai, storage, rateLimit, now },
+      { streaming: { enabled: true, minFirstChunkLength: 1 } },
+    );
+
+    const result = await engine.handleMessage(createMessageOverrides());
+
+    expect(result).toEqual({
+      status: 'replied',
+      response: { text: 'Полный ответ', messageId: 'stream-2' },
+    });
+    expect(ai.reply).toHaveBeenCalledTimes(1);
+    expect(messaging.sendText).toHaveBeenCalledTimes(1);
+    expect(messaging.editMessageText).toHaveBeenCalledWith({
+      chatId: 'chat-1',
+      threadId: undefined,
+      messageId: 'stream-2',
+      text: 'Полный ответ',
+    });
+    expect(consoleWarn).toHaveBeenCalledWith(
+      '[dialog-engine][stream_fallback]',
+      expect.objectContaining({ partialDelivered: true }),
+    );
+    consoleWarn.mockRestore();
+  });
+
+  it('не использует стрим, если он выключен в опциях', async () => {
+    const messaging: MessagingPort = {
+      sendTyping: vi.fn().mockResolvedValue(undefined),
+      sendText: vi.fn().mockResolvedValue({ messageId: 'plain-1' }),
+      editMessageText: vi.fn().mockResolvedValue(undefined),
+      deleteMessage: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const ai: AiPort = {
+      reply: vi.fn().mockResolvedValue({ text: 'Ответ' }),
+      replyStream: vi.fn(),
+    };
+
+    const storage: StoragePort = {
+      saveUser: vi.fn().mockResolvedValue({ utmDegraded: false }),
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      getRecentMessages: vi.fn().mockResolvedValue([]),
+    };
+
+    const rateLimit: RateLimitPort = {
+      checkAndIncrement: vi.fn().mockResolvedValue('ok'),
+    };
+
+    const engine = new DialogEngine({ messaging, ai, storage, rateLimit });
+
+    await engine.handleMessage(createMessageOverrides());
+
+    expect(ai.replyStream).not.toHaveBeenCalled();
+    expect(messaging.editMessageText).not.toHaveBeenCalled();
+  });
+
+  it('подмешивает саммари в контекст и сворачивает вышедшие за хвост сообщения', async () => {
+    const messaging: MessagingPort = {
+      sendTyping: vi.fn().mockResolvedValue(undefined),
+      sendText: vi.fn().mockResolvedValue({ messageId: 'outgoing-1' }),
+      editMessageText: vi.fn().mockResolvedValue(undefined),
+      deleteMessage: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const ai: AiPort = {
+      reply: vi
+        .fn()
+        .mockResolvedValueOnce({ text: 'Ответ' })
+        .mockResolvedValueOnce({ text: 'Новое саммари' }),
+    };
+
+    const createStored = (index: number): StoredMessage => ({
+      userId: 'user-1',
+      chatId: 'chat-1',
+      role: index % 2 === 0 ? 'user' : 'assistant',
+      text: `Сообщение ${index}`,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 9, index)),
+    });
+
+    const pending = Array.from({ length: 5 }, (_, index) => createStored(index + 10));
+
+    const storage: StoragePort = {
+      saveUser: vi.fn().mockResolvedValue({ utmDegraded: false }),
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      getRecentMessages: vi.fn().mockResolvedValue(pending.slice(-2)),
+      getConversationSummary: vi.fn().mockResolvedValue({
+        userId: 'user-1',
+        chatId: 'chat-1',
+        role: 'system',
+        text: 'Старое саммари',
+        timestamp: new Date('2024-01-01T09:05:00Z'),
+        metadata: {
+          kind: 'summary',
+          summaryVersion: 1,
+          revision: 3,
+          coveredUntil: '2024-01-01T09:09:00.000Z',
+          coveredMessages: 10,
+        },
+      }),
+      getMessagesAfter: vi.fn().mockResolvedValue(pending),
+    };
+
+    const rateLimit: RateLimitPort = {
+      checkAndIncrement: vi.fn().mockResolvedValue('ok'),
+    };
+
+    const now = vi.fn(() => new Date('2024-01-01T10:00:05Z'));
+
+    const engine = new DialogEngine(
+      { messaging, ai, storage, rateLimit, now },
+      { recentMessagesLimit: 2, summary: { enabled: true, triggerMessages: 3 } },
+    );
+
+    await engine.handleMessage(createMessageOverrides());
+
+    expect(ai.reply).toHaveBeenNthCalledWith(1, {
+      userId: 'user-1',
+      text: 'Привет!',
+      context: [
+        { role: 'system', text: 'Краткое содержание предыдущей части диалога:\nСтарое саммари' },
+        { role: 'assistant', text: 'Сообщение 13' },
+        { role: 'user', text: 'Сообщение 14' },
+      ],
+      languageCode: undefined,
+      tools: true,
+    });
+
+    expect(storage.getMessagesAfter).toHaveBeenCalledWith({
+      userId: 'user-1',
+      after: new Date('2024-01-01T09:09:00.000Z'),
+      limit: 102,
+    });
+
+    const summaryCall = vi.mocked(ai.reply).mock.calls[1][0];
+    expect(summaryCall.tools).toBeUndefined();
+    expect(summaryCall.context).toEqual([
+      { role: 'system', text: 'Краткое содержание предыдущей части диалога:\nСтарое саммари' },
+      { role: 'user', text: 'Сообщение 10' },
+      { role: 'assistant', text: 'Сообщение 11' },
+      { role: 'user', text: 'Сообщение 12' },
+    ]);
+
+    expect(storage.appendMessage).toHaveBeenLastCalledWith({
+      userId: 'user-1',
+      chatId: 'chat-1',
+      threadId: undefined,
+      role: 'system',
+      text: 'Новое саммари',
+      timestamp: new Date('2024-01-01T10:00:05Z'),
+      metadata: {
+        kind: 'summary',
+        summaryVersion: 1,
+        revision: 4,
+        coveredUntil: '2024-01-01T09:12:00.000Z',
+        coveredMessages: 13,
+      },
+    });
+  });
+
+  it('не обновляет саммари, пока за хвостом мало сообщений, и игнорирует устаревшую версию', async () => {
+    const messaging: MessagingPort = {
+      sendTyping: vi.fn().mockResolvedValue(undefined),
+      sendText: vi.fn().mockResolvedValue({ messageId: 'outgoing-1' }),
+      editMessageText: vi.fn().mockResolvedValue(undefined),
+      deleteMessage: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const ai: AiPort = {
+      reply: vi.fn().mockResolvedValue({ text: 'Ответ' }),
+    };
+
+    const storage: StoragePort = {
+      saveUser: vi.fn().mockResolvedValue({ utmDegraded: false }),
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      getRecentMessages: vi.fn().mockResolvedValue([]),
+      getConversationSummary: vi.fn().mockResolvedValue({
+        userId: 'user-1',
+        chatId: 'chat-1',
+        role: 'system',
+        text: 'Саммари старого формата',
+        timestamp: new Date('2024-01-01T09:05:00Z'),
+        metadata: {
+          kind: 'summary',
+          summaryVersion: 0,
+          revision: 1,
+          coveredUntil: '2024-01-01T09:00:00.000Z',
+          coveredMessages: 4,
+        },
+      }),
+      getMessagesAfter: vi.fn().mockResolvedValue([]),
+    };
+
+    const rateLimit: RateLimitPort = {
+      checkAndIncrement: vi.fn().mockResolvedValue('ok'),
+    };
+
+    const engine = new DialogEngine(
+      { messaging, ai, storage, rateLimit },
+      { summary: { enabled: true } },
+    );
+
+    await engine.handleMessage(createMessageOverrides());
+
+    expect(ai.reply).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(ai.reply).mock.calls[0][0].context).toEqual([]);
+    expect(storage.getMessagesAfter).toHaveBeenCalledWith({
+      userId: 'user-1',
+      after: undefined,
+      limit: 115,
+    });
+    expect(storage.appendMessage).toHaveBeenCalledTimes(2);
+  });
 });
@@ -15,6 +15,8 @@ describe('createAccessDiagnosticsRoute', () => {
       ai: {} as never,
       storage: {} as never,
       rateLimit: {} as never,
+      rawRateLimit: {} as never,
+      transcription: {} as never,
     },
   });
 
@@ -325,5 +325,56 @@ export const readAdminMessagingErrors = async (
   };
 };
 
+/**
+ * Удаляет записи об ошибках старше `maxAgeMs` и нечитаемые записи. KV удаляет их
+ * сам по TTL, но записи без TTL (старые версии) и слишком длинный TTL так не
+ * вычищаются.
+ */
+export const cleanupAdminMessagingErrors = async (
+  kv: AdminDiagnosticsKvNamespace,
+  options: { now: () => Date; maxAgeMs?: number },
+): Promise<{ scanned: number; deleted: number }> => {
+  const threshold = options.now().getTime() - (options.maxAgeMs ?? ADMIN_ERROR_TTL_SECONDS * 1000);
+  const staleKeys: string[] = [];
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({
+      prefix: ADMIN_ERROR_KEY_PREFIX,
+      cursor,
+      limit: DEFAULT_LIST_PAGE_SIZE,
+    });
+
+    for (const key of page.keys) {
+      scanned += 1;
+      const raw = await kv.get(key.name, 'text');
+      if (typeof raw !== 'string') {
+        continue;
+      }
+
+      let when = 0;
+      try {
+        const parsed = JSON.parse(raw) as { when?: unknown };
+        when = toSafeTimestamp(typeof parsed.when === 'string' ? parsed.when : undefined);
+      } catch (parseError) {
+        // Нечитаемая запись удаляется как устаревшая.
+      }
+
+      if (when <= threshold) {
+        staleKeys.push(key.name);
+      }
+    }
+
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  for (const key of staleKeys) {
+    await kv.delete(key);
+  }
+
+  return { scanned, deleted: staleKeys.length };
+};
+
 export const shouldInvalidateAdminAccess = (details: TelegramErrorDetails): boolean =>
   shouldInvalidateAccess(details.status);
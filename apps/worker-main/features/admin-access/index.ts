@@ -10,6 +10,7 @@ export type { CreateAccessDiagnosticsRouteOptions } from './diagnostics-route';
 export {
   createAdminCommandErrorRecorder,
   readAdminMessagingErrors,
+  cleanupAdminMessagingErrors,
   extractTelegramErrorDetails,
   shouldInvalidateAdminAccess,
 } from './admin-messaging-errors';
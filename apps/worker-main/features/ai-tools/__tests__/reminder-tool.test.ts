@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { AiToolArgumentsError } from '../tool-registry';
+import { createReminderTool } from '../reminder-tool';
+import { createReminderDeliveryJob } from '../reminder-delivery-job';
+import { createRemindersStore } from '../reminders-store';
+import { createProfileTool } from '../profile-tool';
+
+const now = () => new Date('2026-01-01T10:00:00Z');
+
+const createStore = (pending = 0) => ({
+  countPending: vi.fn().mockResolvedValue(pending),
+  createReminder: vi.fn(async (input: { userId: string; chatId: string; text: string; dueAt: Date }) => ({
+    id: 7,
+    ...input,
+  })),
+});
+
+describe('createReminderTool', () => {
+  it('schedules reminders relative to now in the user private chat', async () => {
+    const store = createStore();
+    const tool = createReminderTool({ store, now });
+
+    await expect(tool.handler({ text: 'Позвонить маме', in_minutes: 30 }, { userId: '555' })).resolves.toEqual({
+      scheduled: true,
+      id: 7,
+      dueAt: '2026-01-01T10:30:00.000Z',
+    });
+    expect(store.createReminder).toHaveBeenCalledWith({
+      userId: '555',
+      chatId: '555',
+      text: 'Позвонить маме',
+      dueAt: new Date('2026-01-01T10:30:00Z'),
+    });
+  });
+
+  it('validates time and enforces the pending limit', async () => {
+    const tool = createReminderTool({ store: createStore(), now });
+
+    await expect(tool.handler({ text: 'Поздно', due_at: '2025-12-31T10:00:00Z' }, { userId: '1' })).rejects.toBeInstanceOf(
+      AiToolArgumentsError,
+    );
+    await expect(tool.handler({ text: 'Без времени' }, { userId: '1' })).rejects.toThrow('either in_minutes or due_at');
+
+    const busy = createReminderTool({ store: createStore(10), now, maxPendingPerUser: 10 });
+    await expect(
+      busy.handler({ text: 'Ещё одно', due_at: '2026-01-02T09:00:00+03:00' }, { userId: '1' }),
+    ).resolves.toEqual({ scheduled: false, reason: 'too_many_pending_reminders', limit: 10 });
+  });
+});
+
+describe('ai tools D1 queries', () => {
+  const createDb = (firstResult: unknown) => {
+    const statements: Array<{ sql: string; bindings: unknown[] }> = [];
+    const db = {
+      prepare: vi.fn((sql: string) => {
+        const statement = {
+          sql,
+          bindings: [] as unknown[],
+          bind: (...values: unknown[]) => {
+            statement.bindings = values;
+            return statement;
+          },
+          first: async <T,>() => firstResult as T,
+          all: async <T,>() => ({ results: [] as T[] }),
+          run: async () => ({ meta: { changes: 1 } }),
+        };
+        statements.push(statement);
+        return statement;
+      }),
+    };
+    return { db, statements };
+  };
+
+  it('stores reminders with epoch seconds', async () => {
+    const { db, statements } = createDb({ id: 3, user_id: '555', chat_id: '555', text: 'Тест', due_at: 1_767_265_200 });
+    const store = createRemindersStore({ db, now });
+
+    await expect(
+      store.createReminder({ userId: '555', chatId: '555', text: 'Тест', dueAt: new Date('2026-01-01T11:00:00Z') }),
+    ).resolves.toEqual({ id: 3, userId: '555', chatId: '555', text: 'Тест', dueAt: new Date('2026-01-01T11:00:00Z') });
+    expect(statements[0].bindings).toEqual(['555', '555', 'Тест', 1_767_265_200, 1_767_261_600]);
+  });
+
+  it('counts failed attempts and skips abandoned reminders', async () => {
+    const { db, statements } = createDb({ failed_at: 1_767_261_600 });
+    const store = createRemindersStore({ db, now });
+
+    await expect(store.recordFailure(7, { permanent: false, maxAttempts: 5 })).resolves.toBe('abandoned');
+    expect(statements[0].sql).toContain('attempts = attempts + 1');
+    expect(statements[0].bindings).toEqual([0, 5, 1_767_261_600, 7]);
+
+    await store.listDue();
+    expect(statements[1].sql).toContain('failed_at IS NULL');
+  });
+
+  it('looks up the caller profile only', async () => {
+    const { db, statements } = createDb({
+      username: 'alice',
+      first_name: 'Алиса',
+      last_name: null,
+      language_code: 'ru',
+      utm_source: 'src_demo',
+      created_at: '2025-12-01T00:00:00.000Z',
+      message_count: 12,
+    });
+    const tool = createProfileTool({ db });
+
+    await expect(tool.handler({ userId: 'someone-else' }, { userId: '555' })).resolves.toMatchObject({
+      found: true,
+      username: 'alice',
+      utmSource: 'src_demo',
+      messageCount: 12,
+    });
+    expect(statements[0].bindings).toEqual(['555']);
+  });
+});
+
+describe('createReminderDeliveryJob', () => {
+  it('sends due reminders and keeps failed ones for the next run', async () => {
+    const store = {
+      listDue: vi.fn().mockResolvedValue([
+        { id: 1, userId: '10', chatId: '10', text: 'Позвонить', dueAt: now() },
+        { id: 2, userId: '20', chatId: '20', text: 'Купить хлеб', dueAt: now() },
+      ]),
+      markSent: vi.fn().mockResolvedValue(undefined),
+      recordFailure: vi.fn().mockResolvedValue('retry'),
+    };
+    const sendText = vi
+      .fn()
+      .mockResolvedValueOnce({ messageId: '100' })
+      .mockRejectedValueOnce(new Error('network error'));
+    const job = createReminderDeliveryJob({ store, messaging: { sendText }, batchSize: 20 });
+
+    await expect(job.run({ now: now(), trigger: 'scheduled' })).resolves.toEqual({
+      due: 2,
+      sent: 1,
+      failed: 1,
+      abandoned: 0,
+    });
+    expect(store.listDue).toHaveBeenCalledWith({ limit: 20 });
+    expect(sendText).toHaveBeenCalledWith({ chatId: '10', text: '⏰ Позвонить' });
+    expect(store.markSent).toHaveBeenCalledTimes(1);
+    expect(store.markSent).toHaveBeenCalledWith(1);
+    expect(store.recordFailure).toHaveBeenCalledWith(2, { permanent: false, maxAttempts: 5 });
+  });
+
+  it('abandons reminders on permanent errors right away', async () => {
+    const store = {
+      listDue: vi.fn().mockResolvedValue([
+        { id: 1, userId: '10', chatId: '10', text: 'Позвонить', dueAt: now() },
+        { id: 2, userId: '20', chatId: '20', text: 'Купить хлеб', dueAt: now() },
+      ]),
+      markSent: vi.fn().mockResolvedValue(undefined),
+      recordFailure: vi.fn().mockResolvedValueOnce('abandoned').mockResolvedValueOnce('retry'),
+    };
+    const sendText = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Forbidden: bot was blocked by the user'), { status: 403 }))
+      .mockRejectedValueOnce(Object.assign(new Error('Too Many Requests'), { status: 429 }));
+    const job = createReminderDeliveryJob({ store, messaging: { sendText }, maxAttempts: 3 });
+
+    await expect(job.run({ now: now(), trigger: 'scheduled' })).resolves.toEqual({
+      due: 2,
+      sent: 0,
+      failed: 2,
+      abandoned: 1,
+    });
+    expect(store.recordFailure).toHaveBeenNthCalledWith(1, 1, { permanent: true, maxAttempts: 3 });
+    expect(store.recordFailure).toHaveBeenNthCalledWith(2, 2, { permanent: false, maxAttempts: 3 });
+  });
+});
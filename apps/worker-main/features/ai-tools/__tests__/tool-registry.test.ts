@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { AiToolArgumentsError, createAiToolRegistry, type AiTool } from '../tool-registry';
+
+const createTool = (handler: AiTool['handler']): AiTool => ({
+  name: 'echo',
+  description: 'Повторяет аргументы',
+  parameters: { type: 'object', properties: { value: { type: 'string' } } },
+  handler,
+});
+
+describe('createAiToolRegistry', () => {
+  it('lists definitions and executes handlers with parsed arguments', async () => {
+    const handler = vi.fn().mockResolvedValue({ echoed: 'hi' });
+    const registry = createAiToolRegistry({ tools: [createTool(handler)] });
+
+    expect(registry.listTools()).toEqual([
+      {
+        name: 'echo',
+        description: 'Повторяет аргументы',
+        parameters: { type: 'object', properties: { value: { type: 'string' } } },
+      },
+    ]);
+
+    await expect(registry.execute({ name: 'echo', arguments: '{"value":"hi"}' }, { userId: '42' })).resolves.toEqual({
+      status: 'ok',
+      output: '{"echoed":"hi"}',
+    });
+    expect(handler).toHaveBeenCalledWith({ value: 'hi' }, { userId: '42' });
+  });
+
+  it('returns errors to the model instead of throwing', async () => {
+    const logger = { warn: vi.fn(), error: vi.fn() };
+    const registry = createAiToolRegistry({
+      tools: [
+        createTool(async (args) => {
+          if (args.value === 'bad') {
+            throw new AiToolArgumentsError('value must not be bad');
+          }
+          throw new Error('d1 down');
+        }),
+      ],
+      logger,
+    });
+
+    await expect(registry.execute({ name: 'missing', arguments: '{}' }, { userId: '1' })).resolves.toEqual({
+      status: 'error',
+      output: '{"error":"unknown tool: missing"}',
+    });
+    await expect(registry.execute({ name: 'echo', arguments: '[1]' }, { userId: '1' })).resolves.toEqual({
+      status: 'error',
+      output: '{"error":"arguments must be a JSON object"}',
+    });
+    await expect(registry.execute({ name: 'echo', arguments: '{"value":"bad"}' }, { userId: '1' })).resolves.toEqual({
+      status: 'error',
+      output: '{"error":"value must not be bad"}',
+    });
+    await expect(registry.execute({ name: 'echo', arguments: '{}' }, { userId: '1' })).resolves.toEqual({
+      status: 'error',
+      output: '{"error":"tool execution failed"}',
+    });
+    expect(logger.error).toHaveBeenCalledWith(
+      '[ai-tools] tool failed',
+      expect.objectContaining({ name: 'echo', error: 'd1 down' }),
+    );
+  });
+
+  it('rejects duplicate tool names', () => {
+    const tool = createTool(async () => null);
+    expect(() => createAiToolRegistry({ tools: [tool, tool] })).toThrow('Duplicate AI tool name: echo');
+  });
+});
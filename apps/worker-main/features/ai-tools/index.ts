@@ -0,0 +1,28 @@
+export {
+  AiToolArgumentsError,
+  createAiToolRegistry,
+  type AiTool,
+  type CreateAiToolRegistryOptions,
+} from './tool-registry';
+export {
+  createProfileTool,
+  PROFILE_TOOL_NAME,
+  type CreateProfileToolOptions,
+} from './profile-tool';
+export {
+  createReminderTool,
+  REMINDER_TOOL_NAME,
+  type CreateReminderToolOptions,
+} from './reminder-tool';
+export {
+  createRemindersStore,
+  type CreateRemindersStoreOptions,
+  type Reminder,
+  type ReminderCreateInput,
+  type RemindersStore,
+} from './reminders-store';
+export {
+  createReminderDeliveryJob,
+  REMINDER_DELIVERY_JOB,
+  type CreateReminderDeliveryJobOptions,
+} from './reminder-delivery-job';
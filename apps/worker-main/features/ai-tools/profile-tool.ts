@@ -0,0 +1,72 @@
+import type { AiTool } from './tool-registry';
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  first<T = unknown>(): Promise<T | null>;
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+export interface CreateProfileToolOptions {
+  db: D1Database;
+}
+
+interface ProfileRow {
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  language_code: string | null;
+  utm_source: string | null;
+  created_at: string | null;
+  message_count: number | null;
+}
+
+const SELECT_PROFILE_SQL = `
+  SELECT
+    u.username,
+    u.first_name,
+    u.last_name,
+    u.language_code,
+    u.utm_source,
+    u.created_at,
+    (SELECT COUNT(*) FROM messages m WHERE m.user_id = u.user_id AND m.role = 'user') AS message_count
+  FROM users u
+  WHERE u.user_id = ?
+`;
+
+export const PROFILE_TOOL_NAME = 'get_my_profile';
+
+/**
+ * Отдаёт модели профиль текущего пользователя из D1: имя, язык, источник
+ * перехода (UTM) и число сообщений. Чужие профили недоступны — идентификатор
+ * берётся из контекста вызова, а не из аргументов.
+ */
+export const createProfileTool = (options: CreateProfileToolOptions): AiTool => ({
+  name: PROFILE_TOOL_NAME,
+  description:
+    'Возвращает профиль текущего пользователя: имя, username, язык, источник перехода (UTM), дату первого обращения и число сообщений.',
+  parameters: {
+    type: 'object',
+    properties: {},
+    additionalProperties: false,
+  },
+  async handler(_args, context) {
+    const row = await options.db.prepare(SELECT_PROFILE_SQL).bind(context.userId).first<ProfileRow>();
+    if (!row) {
+      return { found: false };
+    }
+
+    return {
+      found: true,
+      username: row.username,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      languageCode: row.language_code,
+      utmSource: row.utm_source,
+      firstSeenAt: row.created_at,
+      messageCount: row.message_count ?? 0,
+    };
+  },
+});
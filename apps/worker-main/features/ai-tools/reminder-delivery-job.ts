@@ -0,0 +1,77 @@
+import type { MessagingPort } from '../../ports';
+import type { CronJob } from '../cron';
+import type { RemindersStore } from './reminders-store';
+
+interface Logger {
+  warn?(message: string, details?: Record<string, unknown>): void;
+}
+
+export const REMINDER_DELIVERY_JOB = 'reminders-delivery';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+export interface CreateReminderDeliveryJobOptions {
+  store: Pick<RemindersStore, 'listDue' | 'markSent' | 'recordFailure'>;
+  messaging: Pick<MessagingPort, 'sendText'>;
+  batchSize?: number;
+  maxAttempts?: number;
+  logger?: Logger;
+}
+
+const getErrorStatus = (error: unknown): number | undefined => {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+
+  const status = (error as { status?: unknown }).status;
+  return typeof status === 'number' && Number.isFinite(status) ? status : undefined;
+};
+
+/**
+ * 4xx кроме 429 (бот заблокирован, чат не найден) повтором не исправить.
+ */
+const isPermanentFailure = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  return status !== undefined && status >= 400 && status < 500 && status !== 429;
+};
+
+/**
+ * Отправляет наступившие напоминания, созданные инструментом `schedule_reminder`.
+ * После временной ошибки напоминание остаётся в очереди до следующего запуска,
+ * но не дольше `maxAttempts` попыток; постоянная ошибка бросает его сразу.
+ */
+export const createReminderDeliveryJob = (options: CreateReminderDeliveryJobOptions): CronJob => ({
+  name: REMINDER_DELIVERY_JOB,
+  description: 'Отправляет наступившие напоминания пользователей',
+  run: async () => {
+    const reminders = await options.store.listDue({ limit: options.batchSize });
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    let sent = 0;
+    let failed = 0;
+    let abandoned = 0;
+
+    for (const reminder of reminders) {
+      try {
+        await options.messaging.sendText({ chatId: reminder.chatId, text: `⏰ ${reminder.text}` });
+        await options.store.markSent(reminder.id);
+        sent += 1;
+      } catch (error) {
+        failed += 1;
+        const permanent = isPermanentFailure(error);
+        const outcome = await options.store.recordFailure(reminder.id, { permanent, maxAttempts });
+        if (outcome === 'abandoned') {
+          abandoned += 1;
+        }
+
+        options.logger?.warn?.('[ai-tools] reminder delivery failed', {
+          reminderId: reminder.id,
+          status: getErrorStatus(error) ?? null,
+          outcome,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { due: reminders.length, sent, failed, abandoned };
+  },
+});
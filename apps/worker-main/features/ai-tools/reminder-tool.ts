@@ -0,0 +1,93 @@
+import { AiToolArgumentsError, type AiTool } from './tool-registry';
+import type { RemindersStore } from './reminders-store';
+
+export const REMINDER_TOOL_NAME = 'schedule_reminder';
+
+const DEFAULT_MAX_PENDING_PER_USER = 10;
+const MAX_REMINDER_TEXT_LENGTH = 500;
+const MIN_DELAY_MS = 60 * 1000;
+const MAX_DELAY_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface CreateReminderToolOptions {
+  store: Pick<RemindersStore, 'createReminder' | 'countPending'>;
+  maxPendingPerUser?: number;
+  now?: () => Date;
+}
+
+const readDueAt = (args: Record<string, unknown>, now: Date): Date => {
+  if (typeof args.in_minutes === 'number' && Number.isFinite(args.in_minutes)) {
+    return new Date(now.getTime() + Math.round(args.in_minutes) * 60 * 1000);
+  }
+
+  if (typeof args.due_at === 'string') {
+    const parsed = new Date(args.due_at);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+
+  throw new AiToolArgumentsError('either in_minutes or due_at (ISO 8601 with timezone offset) is required');
+};
+
+/**
+ * Сохраняет напоминание в D1. Напоминание приходит в личный чат
+ * пользователя (в Telegram его идентификатор совпадает с `userId`).
+ */
+export const createReminderTool = (options: CreateReminderToolOptions): AiTool => {
+  const now = options.now ?? (() => new Date());
+  const maxPending = options.maxPendingPerUser ?? DEFAULT_MAX_PENDING_PER_USER;
+
+  return {
+    name: REMINDER_TOOL_NAME,
+    description:
+      'Планирует напоминание пользователю в личные сообщения. Укажи время через in_minutes (через сколько минут) или due_at (ISO 8601 с часовым поясом).',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: {
+          type: 'string',
+          description: 'Текст напоминания от лица бота.',
+          maxLength: MAX_REMINDER_TEXT_LENGTH,
+        },
+        in_minutes: {
+          type: 'integer',
+          description: 'Через сколько минут напомнить.',
+          minimum: 1,
+        },
+        due_at: {
+          type: 'string',
+          description: 'Момент напоминания в формате ISO 8601 с часовым поясом.',
+        },
+      },
+      required: ['text'],
+      additionalProperties: false,
+    },
+    async handler(args, context) {
+      const text = typeof args.text === 'string' ? args.text.trim() : '';
+      if (text.length === 0 || text.length > MAX_REMINDER_TEXT_LENGTH) {
+        throw new AiToolArgumentsError(`text must be 1..${MAX_REMINDER_TEXT_LENGTH} characters`);
+      }
+
+      const current = now();
+      const dueAt = readDueAt(args, current);
+      const delayMs = dueAt.getTime() - current.getTime();
+      if (delayMs < MIN_DELAY_MS || delayMs > MAX_DELAY_MS) {
+        throw new AiToolArgumentsError('reminder time must be between 1 minute and 365 days from now');
+      }
+
+      const pending = await options.store.countPending(context.userId);
+      if (pending >= maxPending) {
+        return { scheduled: false, reason: 'too_many_pending_reminders', limit: maxPending };
+      }
+
+      const reminder = await options.store.createReminder({
+        userId: context.userId,
+        chatId: context.userId,
+        text,
+        dueAt,
+      });
+
+      return { scheduled: true, id: reminder.id, dueAt: reminder.dueAt.toISOString() };
+    },
+  };
+};
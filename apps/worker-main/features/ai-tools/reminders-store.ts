@@ -0,0 +1,140 @@
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  all<T = unknown>(): Promise<{ results: T[] }>;
+  first<T = unknown>(): Promise<T | null>;
+  run(): Promise<{ meta?: { changes?: number } }>;
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+export interface Reminder {
+  id: number;
+  userId: string;
+  chatId: string;
+  text: string;
+  dueAt: Date;
+}
+
+export interface ReminderCreateInput {
+  userId: string;
+  chatId: string;
+  text: string;
+  dueAt: Date;
+}
+
+export type ReminderFailureOutcome = 'retry' | 'abandoned';
+
+export interface RemindersStore {
+  createReminder(input: ReminderCreateInput): Promise<Reminder>;
+  countPending(userId: string): Promise<number>;
+  /**
+   * Возвращает неотправленные и не брошенные напоминания со сроком не позже
+   * `now`, старые первыми.
+   */
+  listDue(options?: { limit?: number }): Promise<Reminder[]>;
+  markSent(id: number): Promise<void>;
+  /**
+   * Увеличивает счётчик попыток. Напоминание бросается (`failed_at`), если
+   * ошибка постоянная или попыток набралось `maxAttempts`; брошенные
+   * напоминания больше не попадают в `listDue`.
+   */
+  recordFailure(id: number, options: { permanent: boolean; maxAttempts: number }): Promise<ReminderFailureOutcome>;
+}
+
+export interface CreateRemindersStoreOptions {
+  db: D1Database;
+  now?: () => Date;
+}
+
+interface ReminderRow {
+  id: number;
+  user_id: string;
+  chat_id: string;
+  text: string;
+  due_at: number;
+}
+
+const DEFAULT_DUE_LIMIT = 50;
+
+const toEpochSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+const mapRow = (row: ReminderRow): Reminder => ({
+  id: Number(row.id),
+  userId: String(row.user_id),
+  chatId: String(row.chat_id),
+  text: row.text,
+  dueAt: new Date(Number(row.due_at) * 1000),
+});
+
+export const createRemindersStore = (options: CreateRemindersStoreOptions): RemindersStore => {
+  const now = options.now ?? (() => new Date());
+
+  return {
+    async createReminder(input) {
+      const row = await options.db
+        .prepare(
+          `INSERT INTO reminders (user_id, chat_id, text, due_at, created_at)
+           VALUES (?, ?, ?, ?, ?)
+           RETURNING id, user_id, chat_id, text, due_at`,
+        )
+        .bind(input.userId, input.chatId, input.text, toEpochSeconds(input.dueAt), toEpochSeconds(now()))
+        .first<ReminderRow>();
+
+      if (!row) {
+        throw new Error('Failed to create reminder');
+      }
+
+      return mapRow(row);
+    },
+
+    async countPending(userId) {
+      const row = await options.db
+        .prepare(
+          'SELECT COUNT(*) AS total FROM reminders WHERE user_id = ? AND sent_at IS NULL AND failed_at IS NULL',
+        )
+        .bind(userId)
+        .first<{ total: number }>();
+
+      return Number(row?.total ?? 0);
+    },
+
+    async listDue(listOptions = {}) {
+      const { results } = await options.db
+        .prepare(
+          `SELECT id, user_id, chat_id, text, due_at
+           FROM reminders
+           WHERE sent_at IS NULL AND failed_at IS NULL AND due_at <= ?
+           ORDER BY due_at ASC
+           LIMIT ?`,
+        )
+        .bind(toEpochSeconds(now()), listOptions.limit ?? DEFAULT_DUE_LIMIT)
+        .all<ReminderRow>();
+
+      return results.map(mapRow);
+    },
+
+    async markSent(id) {
+      await options.db
+        .prepare('UPDATE reminders SET sent_at = ? WHERE id = ? AND sent_at IS NULL')
+        .bind(toEpochSeconds(now()), id)
+        .run();
+    },
+
+    async recordFailure(id, failureOptions) {
+      const row = await options.db
+        .prepare(
+          `UPDATE reminders
+           SET attempts = attempts + 1,
+               failed_at = CASE WHEN ? = 1 OR attempts + 1 >= ? THEN ? ELSE NULL END
+           WHERE id = ? AND sent_at IS NULL
+           RETURNING failed_at`,
+        )
+        .bind(failureOptions.permanent ? 1 : 0, failureOptions.maxAttempts, toEpochSeconds(now()), id)
+        .first<{ failed_at: number | null }>();
+
+      return row && row.failed_at !== null ? 'abandoned' : 'retry';
+    },
+  };
+};
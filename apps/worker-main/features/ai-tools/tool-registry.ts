@@ -0,0 +1,110 @@
+import type {
+  AiToolCallContext,
+  AiToolDefinition,
+  AiToolExecutionResult,
+  AiToolRegistry,
+} from '../../ports';
+
+interface Logger {
+  info?(message: string, details?: Record<string, unknown>): void;
+  warn?(message: string, details?: Record<string, unknown>): void;
+  error?(message: string, details?: Record<string, unknown>): void;
+}
+
+/**
+ * Инструмент, который фича предоставляет модели: JSON Schema аргументов и
+ * обработчик. Результат обработчика сериализуется в JSON и уходит модели.
+ */
+export interface AiTool extends AiToolDefinition {
+  handler(args: Record<string, unknown>, context: AiToolCallContext): Promise<unknown>;
+}
+
+export interface CreateAiToolRegistryOptions {
+  tools: ReadonlyArray<AiTool>;
+  logger?: Logger;
+}
+
+/**
+ * Ошибка проверки аргументов; её текст передаётся модели как есть.
+ */
+export class AiToolArgumentsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiToolArgumentsError';
+  }
+}
+
+const toErrorOutput = (message: string): AiToolExecutionResult => ({
+  status: 'error',
+  output: JSON.stringify({ error: message }),
+});
+
+const parseArguments = (raw: string): Record<string, unknown> => {
+  if (raw.trim().length === 0) {
+    return {};
+  }
+
+  const parsed = JSON.parse(raw) as unknown;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new AiToolArgumentsError('arguments must be a JSON object');
+  }
+
+  return parsed as Record<string, unknown>;
+};
+
+export const createAiToolRegistry = (options: CreateAiToolRegistryOptions): AiToolRegistry => {
+  const tools = new Map<string, AiTool>();
+  for (const tool of options.tools) {
+    if (tools.has(tool.name)) {
+      throw new Error(`Duplicate AI tool name: ${tool.name}`);
+    }
+    tools.set(tool.name, tool);
+  }
+
+  const definitions: AiToolDefinition[] = options.tools.map(({ name, description, parameters }) => ({
+    name,
+    description,
+    parameters,
+  }));
+
+  return {
+    listTools() {
+      return definitions;
+    },
+
+    async execute(call, context) {
+      const tool = tools.get(call.name);
+      if (!tool) {
+        options.logger?.warn?.('[ai-tools] unknown tool requested', { name: call.name });
+        return toErrorOutput(`unknown tool: ${call.name}`);
+      }
+
+      let args: Record<string, unknown>;
+      try {
+        args = parseArguments(call.arguments);
+      } catch (error) {
+        options.logger?.warn?.('[ai-tools] invalid arguments', { name: call.name });
+        return toErrorOutput(
+          error instanceof AiToolArgumentsError ? error.message : 'arguments must be valid JSON',
+        );
+      }
+
+      try {
+        const result = await tool.handler(args, context);
+        options.logger?.info?.('[ai-tools] tool executed', { name: call.name, userId: context.userId });
+        return { status: 'ok', output: JSON.stringify(result ?? null) };
+      } catch (error) {
+        if (error instanceof AiToolArgumentsError) {
+          return toErrorOutput(error.message);
+        }
+
+        options.logger?.error?.('[ai-tools] tool failed', {
+          name: call.name,
+          userId: context.userId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return toErrorOutput('tool execution failed');
+      }
+    },
+  };
+};
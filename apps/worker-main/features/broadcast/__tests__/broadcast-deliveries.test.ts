@@ -0,0 +1,279 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createBroadcastDeliveriesAdminHandlers } from '../broadcast-deliveries-admin-route';
+import { createBroadcastDeliveriesStore, type BroadcastDeliveryLogEntry } from '../broadcast-deliveries-store';
+
+const createDb = (results: unknown[] | ((sql: string) => unknown[]) = []) => {
+  const statements: Array<{ sql: string; bindings: unknown[] }> = [];
+  const db = {
+    prepare: vi.fn((sql: string) => {
+      const statement = {
+        sql,
+        bindings: [] as unknown[],
+        bind: (...values: unknown[]) => {
+          statement.bindings = values;
+          return statement;
+        },
+        all: async <T,>() => ({ results: (typeof results === 'function' ? results(sql) : results) as T[] }),
+        run: async () => ({ meta: { changes: 1 } }),
+      };
+      statements.push(statement);
+      return statement;
+    }),
+  };
+
+  return { db, statements };
+};
+
+const row = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  job_id: 'job-1',
+  chat_id: `${100 + id}`,
+  thread_id: null,
+  status: 'delivered',
+  message_id: `m-${id}`,
+  error_code: null,
+  error: null,
+  attempts: 1,
+  sent_at: 1_792_411_200,
+  ...overrides,
+});
+
+describe('createBroadcastDeliveriesStore', () => {
+  it('inserts entries in chunks that fit the D1 parameter limit', async () => {
+    const { db, statements } = createDb();
+    const store = createBroadcastDeliveriesStore({ db });
+    const entries: BroadcastDeliveryLogEntry[] = Array.from({ length: 12 }, (_, index) => ({
+      jobId: 'job-1',
+      chatId: String(index),
+      status: index === 0 ? 'failed' : 'delivered',
+      ...(index === 0 ? { errorCode: 403, error: 'Forbidden' } : { messageId: `m-${index}` }),
+      attempts: 1,
+      sentAt: new Date('2026-10-19T12:00:00.000Z'),
+    }));
+
+    await store.record(entries);
+
+    expect(statements).toHaveLength(2);
+    expect(statements[0].sql).toContain('INSERT INTO broadcast_deliveries');
+    expect(statements[0].bindings).toHaveLength(9 * 11);
+    expect(statements[0].bindings.slice(0, 11)).toEqual([
+      'job-1',
+      '0',
+      null,
+      'failed',
+      null,
+      403,
+      'Forbidden',
+      1,
+      1_792_411_200,
+      null,
+      null,
+    ]);
+    expect(statements[1].bindings).toHaveLength(3 * 11);
+  });
+
+  it('filters by status and chat and pages by id', async () => {
+    const { db, statements } = createDb([row(5), row(6, { status: 'failed', message_id: null, error_code: 403 })]);
+    const store = createBroadcastDeliveriesStore({ db });
+
+    const page = await store.list('job-1', { status: 'failed', chatId: '106', limit: 1, cursor: 4 });
+
+    expect(statements[0].sql).toContain('job_id = ? AND status = ? AND chat_id = ? AND id > ?');
+    expect(statements[0].bindings).toEqual(['job-1', 'failed', '106', 4, 2]);
+    expect(page).toEqual({
+      items: [
+        {
+          id: 5,
+          jobId: 'job-1',
+          chatId: '105',
+          status: 'delivered',
+          messageId: 'm-5',
+          attempts: 1,
+          sentAt: new Date('2026-10-19T12:00:00.000Z'),
+        },
+      ],
+      nextCursor: 5,
+    });
+  });
+
+  it('lists delivered message ids of a job for recall', async () => {
+    const { db, statements } = createDb([
+      { chat_id: 101, thread_id: null, message_id: 'm-1' },
+      { chat_id: '102', thread_id: '5', message_id: 42, media_kind: 'photo' },
+    ]);
+    const store = createBroadcastDeliveriesStore({ db });
+
+    await expect(store.listDeliveredMessages('job-1')).resolves.toEqual([
+      { chatId: '101', messageId: 'm-1' },
+      { chatId: '102', threadId: '5', messageId: '42', mediaKind: 'photo' },
+    ]);
+    expect(statements[0].sql).toContain("status = 'delivered' AND message_id IS NOT NULL");
+    expect(statements[0].bindings).toEqual(['job-1']);
+  });
+
+  it('finds the broadcast a message replies to and falls back to the delivery window', async () => {
+    const { db, statements } = createDb([{ job_id: 'job-2', variant: 'B' }]);
+    const store = createBroadcastDeliveriesStore({ db });
+    const since = new Date('2026-10-17T12:00:00.000Z');
+    const until = new Date('2026-10-19T12:00:00.000Z');
+
+    await expect(store.findReplyTarget({ chatId: '101', replyToMessageId: '42', since, until })).resolves.toEqual({
+      jobId: 'job-2',
+      variant: 'B',
+      via: 'reply',
+    });
+    expect(statements).toHaveLength(1);
+    expect(statements[0].sql).toContain('WHERE chat_id = ? AND message_id = ?');
+    expect(statements[0].bindings).toEqual(['101', '42']);
+
+    const fallback = createDb((sql) => (sql.includes('sent_at BETWEEN') ? [{ job_id: 'job-1', variant: null }] : []));
+    const fallbackStore = createBroadcastDeliveriesStore({ db: fallback.db });
+
+    await expect(
+      fallbackStore.findReplyTarget({ chatId: '101', replyToMessageId: '999', since, until }),
+    ).resolves.toEqual({ jobId: 'job-1', via: 'window' });
+    expect(fallback.statements).toHaveLength(2);
+    expect(fallback.statements[1].bindings).toEqual(['101', 1_792_238_400, 1_792_411_200]);
+  });
+
+  it('reads the time of the latest delivery', async () => {
+    const { db, statements } = createDb([{ sent_at: 1_792_411_200 }]);
+    const store = createBroadcastDeliveriesStore({ db });
+
+    await expect(store.findLatestDeliveryAt()).resolves.toEqual(new Date('2026-10-19T12:00:00.000Z'));
+    expect(statements[0].sql).toContain("WHERE status = 'delivered'");
+    expect(statements[0].sql).toContain('ORDER BY id DESC');
+
+    const empty = createBroadcastDeliveriesStore({ db: createDb([]).db });
+    await expect(empty.findLatestDeliveryAt()).resolves.toBeUndefined();
+  });
+
+  it('computes reply and block rates per job', async () => {
+    const { db, statements } = createDb([
+      { job_id: 'job-1', delivered: 8, replied: 2, blocked: 1, last_sent_at: 1_792_411_200 },
+      { job_id: 'job-0', delivered: 0, replied: null, blocked: null, last_sent_at: 1_792_411_200 },
+    ]);
+    const store = createBroadcastDeliveriesStore({ db });
+
+    const engagement = await store.listEngagement({ limit: 500 });
+
+    expect(engagement).toEqual([
+      {
+        jobId: 'job-1',
+        delivered: 8,
+        replied: 2,
+        blockedAfterSend: 1,
+        replyRate: 0.25,
+        blockRate: 0.125,
+        lastSentAt: new Date('2026-10-19T12:00:00.000Z'),
+      },
+      {
+        jobId: 'job-0',
+        delivered: 0,
+        replied: 0,
+        blockedAfterSend: 0,
+        replyRate: 0,
+        blockRate: 0,
+        lastSentAt: new Date('2026-10-19T12:00:00.000Z'),
+      },
+    ]);
+    expect(statements[0].sql).toContain("json_extract(m.metadata, '$.broadcastJobId') = d.job_id");
+    expect(statements[0].sql).toContain('br.blocked_at >= d.sent_at');
+    expect(statements[0].bindings).toEqual([100]);
+
+    await store.listEngagement({ jobId: 'job-1' });
+    expect(statements[1].sql).toContain('WHERE d.job_id = ?');
+    expect(statements[1].bindings).toEqual(['job-1']);
+  });
+});
+
+describe('createBroadcastDeliveriesAdminHandlers', () => {
+  const record = {
+    id: 7,
+    jobId: 'job-1',
+    chatId: '107',
+    status: 'failed' as const,
+    errorCode: 403,
+    error: '=blocked',
+    attempts: 2,
+    sentAt: new Date('2026-10-19T12:00:00.000Z'),
+  };
+
+  it('returns deliveries as json and as csv download', async () => {
+    const store = { list: vi.fn().mockResolvedValue({ items: [record], nextCursor: 7 }) };
+    const handlers = createBroadcastDeliveriesAdminHandlers({ store });
+
+    const response = await handlers.list(
+      new Request('https://example.com/admin/broadcast/jobs/job-1/deliveries?status=failed&chatId=107&limit=50'),
+      'job-1',
+    );
+    expect(store.list).toHaveBeenCalledWith('job-1', { status: 'failed', chatId: '107', limit: 50 });
+    await expect(response.json()).resolves.toEqual({
+      jobId: 'job-1',
+      items: [{ ...record, sentAt: '2026-10-19T12:00:00.000Z' }],
+      count: 1,
+      nextCursor: 7,
+    });
+
+    const csv = await handlers.list(
+      new Request('https://example.com/admin/broadcast/jobs/job-1/deliveries?format=csv&cursor=6'),
+      'job-1',
+    );
+    expect(store.list).toHaveBeenLastCalledWith('job-1', { cursor: 6 });
+    expect(csv.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+    expect(csv.headers.get('content-disposition')).toBe('attachment; filename="broadcast-job-1-deliveries.csv"');
+    expect(csv.headers.get('x-next-cursor')).toBe('7');
+    const lines = (await csv.text()).split('\r\n');
+    expect(lines[0]).toBe(
+      '"id","job_id","chat_id","thread_id","status","message_id","error_code","error","attempts","sent_at","variant"',
+    );
+    expect(lines[1]).toBe('"7","job-1","107","","failed","","403","\'=blocked","2","2026-10-19T12:00:00.000Z",""');
+  });
+
+  it('adds job engagement to json and csv responses', async () => {
+    const store = {
+      list: vi.fn().mockResolvedValue({ items: [record] }),
+      listEngagement: vi.fn().mockResolvedValue([
+        {
+          jobId: 'job-1',
+          delivered: 4,
+          replied: 1,
+          blockedAfterSend: 0,
+          replyRate: 0.25,
+          blockRate: 0,
+          lastSentAt: new Date('2026-10-19T12:00:00.000Z'),
+        },
+      ]),
+    };
+    const handlers = createBroadcastDeliveriesAdminHandlers({ store });
+
+    const response = await handlers.list(new Request('https://example.com/admin/broadcast/jobs/job-1/deliveries'), 'job-1');
+    expect(store.listEngagement).toHaveBeenCalledWith({ jobId: 'job-1' });
+    await expect(response.json()).resolves.toMatchObject({
+      engagement: { replied: 1, replyRate: 0.25, blockRate: 0, lastSentAt: '2026-10-19T12:00:00.000Z' },
+    });
+
+    const csv = await handlers.list(
+      new Request('https://example.com/admin/broadcast/jobs/job-1/deliveries?format=csv'),
+      'job-1',
+    );
+    expect(csv.headers.get('x-broadcast-reply-rate')).toBe('0.25');
+    expect(csv.headers.get('x-broadcast-block-rate')).toBe('0');
+
+    store.listEngagement.mockRejectedValueOnce(new Error('D1 unavailable'));
+    const degraded = await handlers.list(new Request('https://example.com/deliveries'), 'job-1');
+    await expect(degraded.json()).resolves.toMatchObject({ count: 1, engagement: null });
+  });
+
+  it('rejects invalid filters', async () => {
+    const store = { list: vi.fn() };
+    const handlers = createBroadcastDeliveriesAdminHandlers({ store });
+
+    const request = new Request('https://example.com/admin/broadcast/jobs/job-1/deliveries?status=sent');
+    expect((await handlers.list(request, 'job-1')).status).toBe(400);
+    expect((await handlers.list(new Request('https://example.com/?cursor=abc'), 'job-1')).status).toBe(400);
+    expect((await handlers.list(request, ' ')).status).toBe(400);
+    expect(store.list).not.toHaveBeenCalled();
+  });
+});
@@ -145,4 +145,49 @@ describe('createBroadcastDiagRoute', () => {
     });
     expect(body.progress.ttlSecondsRemaining).toBeGreaterThanOrEqual(594);
   });
+
+  it('adds reply and block rates of recent jobs from the delivery log', async () => {
+    const telemetry = {
+      snapshot: vi.fn().mockResolvedValue({
+        status: 'ok' as const,
+        feature: 'broadcast_metrics' as const,
+        totalRuns: 1,
+        lastRun: null,
+        history: [],
+      }),
+      record: vi.fn(),
+    };
+    const deliveries = {
+      listEngagement: vi.fn().mockResolvedValue([
+        {
+          jobId: 'job-7',
+          delivered: 10,
+          replied: 3,
+          blockedAfterSend: 1,
+          replyRate: 0.3,
+          blockRate: 0.1,
+          lastSentAt: new Date('2026-10-19T12:00:00.000Z'),
+        },
+      ]),
+    };
+
+    const response = await createBroadcastDiagRoute({ telemetry, deliveries })(createRequest());
+    const body = (await response.json()) as { engagement: unknown };
+
+    expect(body.engagement).toEqual([
+      {
+        jobId: 'job-7',
+        delivered: 10,
+        replied: 3,
+        blockedAfterSend: 1,
+        replyRate: 0.3,
+        blockRate: 0.1,
+        lastSentAt: '2026-10-19T12:00:00.000Z',
+      },
+    ]);
+
+    deliveries.listEngagement.mockRejectedValueOnce(new Error('D1 unavailable'));
+    const degraded = await (await createBroadcastDiagRoute({ telemetry, deliveries })(createRequest())).json();
+    expect(degraded).toMatchObject({ status: 'ok', engagement: null });
+  });
 });
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { createBroadcastJobDispatcher } from '../broadcast-job-dispatcher';
+
+const createTimeline = () => {
+  const timeline = { now: 0 };
+
+  return {
+    timeline,
+    now: () => timeline.now,
+    wait: async (ms: number) => {
+      timeline.now += ms;
+    },
+  };
+};
+
+describe('createBroadcastJobDispatcher', () => {
+  it('shares the global rate between jobs by priority weight', async () => {
+    const { timeline, now, wait } = createTimeline();
+    const dispatcher = createBroadcastJobDispatcher({ maxRps: 10, now, wait });
+    const urgent = dispatcher.register('high');
+    const newsletter = dispatcher.register('normal');
+    const grants: string[] = [];
+
+    const acquireMany = (lane: typeof urgent, job: string, count: number) =>
+      Array.from({ length: count }, () => lane.acquire().then(() => grants.push(job)));
+
+    await Promise.all([...acquireMany(urgent, 'urgent', 6), ...acquireMany(newsletter, 'newsletter', 6)]);
+
+    expect(grants.slice(0, 6).filter((job) => job === 'urgent')).toHaveLength(4);
+    // 12 слотов по 100 мс на оба задания: первый сразу, последний через 1.1 с.
+    expect(timeline.now).toBe(1100);
+  });
+
+  it('lets a new job join level with running ones and releases waiters on release', async () => {
+    const { now, wait } = createTimeline();
+    const dispatcher = createBroadcastJobDispatcher({ maxRps: 10, now, wait });
+    const first = dispatcher.register();
+    await Promise.all(Array.from({ length: 4 }, () => first.acquire()));
+
+    const second = dispatcher.register();
+    const order: string[] = [];
+    await Promise.all([
+      ...Array.from({ length: 2 }, () => first.acquire().then(() => order.push('first'))),
+      ...Array.from({ length: 2 }, () => second.acquire().then(() => order.push('second'))),
+    ]);
+    expect(order).toEqual(['first', 'second', 'first', 'second']);
+
+    const pending = second.acquire();
+    second.release();
+    await expect(pending).resolves.toBeUndefined();
+  });
+});
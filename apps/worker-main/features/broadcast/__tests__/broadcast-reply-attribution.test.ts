@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { IncomingMessage } from '../../../core';
+import type { BroadcastReplyTarget, BroadcastReplyTargetQuery } from '../broadcast-deliveries-store';
+import { createBroadcastReplyAttribution } from '../broadcast-reply-attribution';
+
+const message = (overrides: Partial<IncomingMessage> = {}): IncomingMessage => ({
+  user: { userId: '101' },
+  chat: { id: '101' },
+  text: 'Интересно!',
+  messageId: '500',
+  receivedAt: new Date('2026-10-19T12:00:00.000Z'),
+  ...overrides,
+});
+
+const latestDeliveryAt = (value: Date | undefined = new Date('2026-10-19T10:00:00.000Z')) =>
+  vi.fn<[], Promise<Date | undefined>>().mockResolvedValue(value);
+
+describe('createBroadcastReplyAttribution', () => {
+  it('tags replies with the broadcast job and variant', async () => {
+    const findReplyTarget = vi.fn<[BroadcastReplyTargetQuery], Promise<BroadcastReplyTarget | undefined>>()
+      .mockResolvedValue({ jobId: 'job-1', variant: 'B', via: 'reply' });
+    const findLatestDeliveryAt = latestDeliveryAt();
+    const annotate = createBroadcastReplyAttribution({
+      deliveries: { findReplyTarget, findLatestDeliveryAt },
+      windowHours: 6,
+    });
+
+    await expect(annotate(message({ replyToMessageId: '42' }))).resolves.toEqual({
+      broadcastJobId: 'job-1',
+      broadcastVariant: 'B',
+      broadcastAttribution: 'reply',
+    });
+    expect(findReplyTarget).toHaveBeenCalledWith({
+      chatId: '101',
+      replyToMessageId: '42',
+      since: new Date('2026-10-19T06:00:00.000Z'),
+      until: new Date('2026-10-19T12:00:00.000Z'),
+    });
+    expect(findLatestDeliveryAt).not.toHaveBeenCalled();
+  });
+
+  it('uses the 48 hour window by default and leaves unrelated messages untouched', async () => {
+    const findReplyTarget = vi.fn<[BroadcastReplyTargetQuery], Promise<BroadcastReplyTarget | undefined>>()
+      .mockResolvedValue(undefined);
+    const annotate = createBroadcastReplyAttribution({
+      deliveries: { findReplyTarget, findLatestDeliveryAt: latestDeliveryAt() },
+    });
+
+    await expect(annotate(message())).resolves.toBeUndefined();
+    expect(findReplyTarget).toHaveBeenCalledWith({
+      chatId: '101',
+      since: new Date('2026-10-17T12:00:00.000Z'),
+      until: new Date('2026-10-19T12:00:00.000Z'),
+    });
+  });
+
+  it('does not break the dialog when the lookup fails', async () => {
+    const findReplyTarget = vi.fn<[BroadcastReplyTargetQuery], Promise<BroadcastReplyTarget | undefined>>()
+      .mockRejectedValue(new Error('D1 unavailable'));
+    const logger = { warn: vi.fn() };
+    const annotate = createBroadcastReplyAttribution({
+      deliveries: { findReplyTarget, findLatestDeliveryAt: latestDeliveryAt() },
+      logger,
+    });
+
+    await expect(annotate(message())).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith('broadcast reply attribution failed', {
+      chatId: '101',
+      error: 'D1 unavailable',
+    });
+  });
+
+  it('skips the lookup for non-replies when nothing was delivered within the window', async () => {
+    const findReplyTarget = vi.fn<[BroadcastReplyTargetQuery], Promise<BroadcastReplyTarget | undefined>>()
+      .mockResolvedValue({ jobId: 'job-1', via: 'window' });
+    const findLatestDeliveryAt = latestDeliveryAt(new Date('2026-10-17T11:00:00.000Z'));
+    let currentTime = 0;
+    const annotate = createBroadcastReplyAttribution({
+      deliveries: { findReplyTarget, findLatestDeliveryAt },
+      refreshIntervalMs: 60_000,
+      now: () => currentTime,
+    });
+
+    await expect(annotate(message())).resolves.toBeUndefined();
+    await expect(annotate(message())).resolves.toBeUndefined();
+    expect(findLatestDeliveryAt).toHaveBeenCalledTimes(1);
+    expect(findReplyTarget).not.toHaveBeenCalled();
+
+    findLatestDeliveryAt.mockResolvedValue(new Date('2026-10-19T11:00:00.000Z'));
+    currentTime = 60_000;
+    await expect(annotate(message())).resolves.toMatchObject({ broadcastJobId: 'job-1' });
+    expect(findLatestDeliveryAt).toHaveBeenCalledTimes(2);
+    expect(findReplyTarget).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildBroadcastSegmentClauses,
+  parseBroadcastSegment,
+  toBroadcastSegmentFilter,
+} from '../broadcast-segments';
+
+describe('parseBroadcastSegment', () => {
+  it('parses conditions into a canonical definition', () => {
+    expect(parseBroadcastSegment(' active_since=30d LANG=ru,UK utm=src_promo ')).toEqual({
+      ok: true,
+      segment: { utmSources: ['src_promo'], languageCodes: ['ru', 'uk'], activeWithinDays: 30 },
+      definition: 'utm=src_promo lang=ru,uk active_since=30d',
+    });
+  });
+
+  it('rejects empty, unknown, repeated and malformed conditions', () => {
+    expect(parseBroadcastSegment('  ')).toEqual({ ok: false, reason: 'empty' });
+    expect(parseBroadcastSegment('country=ru')).toEqual({ ok: false, reason: 'unknown_key', token: 'country=ru' });
+    expect(parseBroadcastSegment('lang=ru lang=en')).toEqual({
+      ok: false,
+      reason: 'duplicate_key',
+      token: 'lang=en',
+    });
+    expect(parseBroadcastSegment('utm=')).toEqual({ ok: false, reason: 'invalid_value', token: 'utm=' });
+    expect(parseBroadcastSegment('active_since=0d')).toMatchObject({ ok: false, reason: 'invalid_value' });
+    expect(parseBroadcastSegment('active_since=400d')).toMatchObject({ ok: false, reason: 'invalid_value' });
+  });
+});
+
+describe('buildBroadcastSegmentClauses', () => {
+  it('compiles the segment filter into bound SQL conditions', () => {
+    const parsed = parseBroadcastSegment('utm=src_promo lang=ru active_since=7d');
+    if (!parsed.ok) {
+      throw new Error('segment must parse');
+    }
+
+    const filter = toBroadcastSegmentFilter(parsed.segment, { now: new Date('2026-10-19T12:00:00.000Z') });
+    expect(filter).toEqual({
+      segment: 'utm=src_promo lang=ru active_since=7d',
+      utmSources: ['src_promo'],
+      languageCodes: ['ru'],
+      activeSince: '2026-10-12T12:00:00.000Z',
+    });
+
+    const { clauses, bindings } = buildBroadcastSegmentClauses(filter);
+    expect(clauses).toHaveLength(3);
+    expect(clauses[0]).toBe('LOWER(u.utm_source) IN (?)');
+    expect(clauses[1]).toContain('broadcast_recipients lang');
+    expect(clauses[2]).toContain("recent.role = 'user' AND recent.timestamp >= ?");
+    expect(bindings).toEqual(['src_promo', 'ru', '2026-10-12T12:00:00.000Z']);
+
+    expect(buildBroadcastSegmentClauses({ chatIds: ['1'] })).toEqual({ clauses: [], bindings: [] });
+  });
+});
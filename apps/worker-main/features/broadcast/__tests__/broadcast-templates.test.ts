@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildBroadcastPayload } from '../broadcast-payload';
+import {
+  expandBroadcastTemplateWorstCase,
+  hasBroadcastPlaceholders,
+  renderBroadcastTemplate,
+} from '../broadcast-templates';
+
+describe('broadcast templates', () => {
+  it('renders profile fields with fallbacks and shifts entities', () => {
+    const text = 'Привет, {first_name|друг}! Вы пришли из {utm_source}. {unknown}';
+
+    expect(hasBroadcastPlaceholders(text)).toBe(true);
+    expect(hasBroadcastPlaceholders('Привет, {name}')).toBe(false);
+    expect(renderBroadcastTemplate(text, { firstName: ' Анна ', utmSource: 'src_promo' }).text).toBe(
+      'Привет, Анна! Вы пришли из src_promo. {unknown}',
+    );
+    expect(renderBroadcastTemplate(text, { firstName: '   ' }).text).toBe('Привет, друг! Вы пришли из . {unknown}');
+
+    const rendered = renderBroadcastTemplate('{username} и {first_name}: скидка', { username: 'anna' }, [
+      { type: 'bold', offset: 0, length: 10 },
+      { type: 'italic', offset: 13, length: 12 },
+      { type: 'underline', offset: 27, length: 6 },
+    ]);
+    expect(rendered).toEqual({
+      text: 'anna и : скидка',
+      entities: [
+        { type: 'bold', offset: 0, length: 4 },
+        { type: 'underline', offset: 9, length: 6 },
+      ],
+    });
+  });
+
+  it('validates payload length against the longest possible expansion', () => {
+    expect(expandBroadcastTemplateWorstCase('{username|гость}!')).toBe(`${'x'.repeat(32)}!`);
+    expect(() => buildBroadcastPayload({ text: `${'a'.repeat(40)} {first_name}` }, { maxTextLength: 100 })).toThrow(
+      'text must not exceed 100 characters',
+    );
+    expect(buildBroadcastPayload({ text: 'Привет, {first_name|друг}' }, { maxTextLength: 100 }).text).toBe(
+      'Привет, {first_name|друг}',
+    );
+  });
+});
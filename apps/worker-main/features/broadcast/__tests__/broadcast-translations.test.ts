@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { parseBroadcastContent } from '../broadcast-payload';
+import {
+  normalizeBroadcastLanguage,
+  parseBroadcastTranslationArgument,
+  selectBroadcastTranslation,
+  translateBroadcastText,
+  upsertBroadcastTranslation,
+} from '../broadcast-translations';
+import type { AiReplyInput, AiReplyResult } from '../../../ports';
+
+describe('broadcast translations', () => {
+  it('parses /translate arguments and matches recipients by primary language', () => {
+    expect(parseBroadcastTranslationArgument(' EN Hello\nworld ')).toEqual({
+      ok: true,
+      languageCode: 'en',
+      text: 'Hello\nworld',
+    });
+    expect(parseBroadcastTranslationArgument('uk')).toEqual({ ok: true, languageCode: 'uk' });
+    expect(parseBroadcastTranslationArgument('english Hello')).toEqual({ ok: false });
+    expect(normalizeBroadcastLanguage('pt-BR')).toBe('pt');
+    expect(normalizeBroadcastLanguage('')).toBeUndefined();
+
+    const first = upsertBroadcastTranslation(undefined, { languageCode: 'en', text: 'Hi' });
+    const replaced = first.ok && upsertBroadcastTranslation(first.translations, { languageCode: 'en', text: 'Hello' });
+    expect(replaced).toEqual({ ok: true, translations: [{ languageCode: 'en', text: 'Hello' }] });
+
+    const translations = replaced && replaced.ok ? replaced.translations : [];
+    expect(selectBroadcastTranslation(translations, 'en-GB')).toEqual({ languageCode: 'en', text: 'Hello' });
+    expect(selectBroadcastTranslation(translations, 'de')).toBeUndefined();
+    expect(selectBroadcastTranslation(translations, undefined)).toBeUndefined();
+    expect(parseBroadcastContent({ translations: [...translations, { languageCode: 'uk' }] })).toEqual({
+      translations: [{ languageCode: 'en', text: 'Hello' }],
+    });
+  });
+
+  it('asks the model for a translation that keeps placeholders', async () => {
+    const reply = vi.fn<[AiReplyInput], Promise<AiReplyResult>>(async () => ({ text: ' Hi, {first_name|friend}! ' }));
+
+    await expect(
+      translateBroadcastText({ reply }, { text: 'Привет, {first_name|друг}!', languageCode: 'en', requestedBy: '42' }),
+    ).resolves.toBe('Hi, {first_name|friend}!');
+    expect(reply).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'admin:broadcast:42',
+        text: 'Привет, {first_name|друг}!',
+        languageCode: 'en',
+        context: [expect.objectContaining({ role: 'system', text: expect.stringContaining('"en"') })],
+      }),
+    );
+    expect(reply.mock.calls[0]?.[0]).not.toHaveProperty('tools');
+
+    reply.mockResolvedValueOnce({ text: '   ' });
+    await expect(
+      translateBroadcastText({ reply }, { text: 'Привет', languageCode: 'en', requestedBy: '42' }),
+    ).rejects.toThrow('AI translation returned empty text');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseBroadcastContent } from '../broadcast-payload';
+import {
+  appendBroadcastVariant,
+  assignBroadcastVariant,
+  formatBroadcastVariantSplit,
+  parseBroadcastVariantArgument,
+} from '../broadcast-variants';
+
+describe('broadcast variants', () => {
+  it('parses /variant arguments and keeps at least 1% for the base text', () => {
+    expect(parseBroadcastVariantArgument(' 30% Второй\nтекст ')).toEqual({ ok: true, percent: 30, text: 'Второй\nтекст' });
+    expect(parseBroadcastVariantArgument('тридцать текст')).toEqual({ ok: false, reason: 'format' });
+    expect(parseBroadcastVariantArgument('0 текст')).toEqual({ ok: false, reason: 'percent' });
+
+    const first = appendBroadcastVariant(undefined, { percent: 60, text: 'B' });
+    expect(first).toMatchObject({ ok: true, variant: { id: 'B', text: 'B', percent: 60 } });
+    if (!first.ok) {
+      throw new Error('variant must be added');
+    }
+
+    expect(appendBroadcastVariant(first.variants, { percent: 40, text: 'C' })).toEqual({ ok: false, reason: 'percent' });
+    const second = appendBroadcastVariant(first.variants, { percent: 39, text: 'C' });
+    expect(second.ok && formatBroadcastVariantSplit(second.variants)).toBe('A 1%, B 60%, C 39%');
+    expect(parseBroadcastContent({ variants: second.ok ? second.variants : [] })).toEqual({
+      variants: [
+        { id: 'B', text: 'B', percent: 60 },
+        { id: 'C', text: 'C', percent: 39 },
+      ],
+    });
+  });
+
+  it('assigns recipients deterministically and close to the requested split', () => {
+    const variants = [{ id: 'B', text: 'Вариант B', percent: 30 }];
+    const chatIds = Array.from({ length: 2000 }, (_, index) => String(100_000 + index));
+
+    const assigned = chatIds.map((chatId) => assignBroadcastVariant(variants, { jobId: 'job-ab', chatId })?.id);
+    const again = chatIds.map((chatId) => assignBroadcastVariant(variants, { jobId: 'job-ab', chatId })?.id);
+    const shareB = assigned.filter((id) => id === 'B').length / chatIds.length;
+
+    expect(again).toEqual(assigned);
+    expect(shareB).toBeGreaterThan(0.25);
+    expect(shareB).toBeLessThan(0.35);
+    expect(assignBroadcastVariant(undefined, { jobId: 'job-ab', chatId: '1' })).toBeUndefined();
+  });
+});
@@ -2,12 +2,15 @@ import { describe, expect, it, vi } from 'vitest';
 
 import {
   BroadcastAbortedError,
+  computeBroadcastContentHash,
+  computeBroadcastTextHash,
   createImmediateBroadcastSender,
   createRegistryBroadcastSender,
   loadBroadcastCheckpoint,
   listBroadcastCheckpoints,
   type BroadcastRecipient,
 } from '../minimal-broadcast-service';
+import { assignBroadcastVariant } from '../broadcast-variants';
 
 const createRecipients = (count: number): BroadcastRecipient[] =>
   Array.from({ length: count }, (_, index) => ({ chatId: `chat-${index}` }));
@@ -283,6 +286,462 @@ describe('createImmediateBroadcastSender', () => {
     expect(result.failed).toBe(0);
   });
 
+  it('writes per-recipient results to the delivery log after each batch', async () => {
+    const recipients = createRecipients(3);
+    const blocked = Object.assign(new Error('Forbidden: bot was blocked by the user'), { status: 403 });
+    const sendText = vi
+      .fn()
+      .mockResolvedValueOnce({ messageId: 'm-0' })
+      .mockRejectedValueOnce(blocked)
+      .mockResolvedValueOnce({ messageId: 'm-2' });
+    const deliveryLog = {
+      record: vi.fn().mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('d1 unavailable')),
+    };
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText },
+      recipients,
+      logger,
+      deliveryLog,
+      batchSize: 2,
+      pool: { concurrency: 1 },
+      jobIdGenerator: () => 'job-log',
+    });
+
+    const result = await sendBroadcast({ text: 'hello', requestedBy: 'ops' });
+
+    expect(result).toMatchObject({ delivered: 2, failed: 1 });
+    expect(deliveryLog.record).toHaveBeenCalledTimes(2);
+    expect(deliveryLog.record.mock.calls[0]?.[0]).toEqual([
+      expect.objectContaining({ jobId: 'job-log', chatId: 'chat-0', status: 'delivered', messageId: 'm-0', attempts: 1 }),
+      expect.objectContaining({ chatId: 'chat-1', status: 'failed', errorCode: 403, attempts: 1 }),
+    ]);
+    expect(deliveryLog.record.mock.calls[1]?.[0]).toEqual([
+      expect.objectContaining({ chatId: 'chat-2', status: 'delivered', sentAt: expect.any(Date) }),
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'broadcast delivery log write failed',
+      expect.objectContaining({ jobId: 'job-log', entries: 1 }),
+    );
+  });
+
+  it('sends media with caption, entities and url buttons and resumes with checkpoint content', async () => {
+    const recipients = createRecipients(2);
+    const kv = new MemoryKv();
+    const controller = new AbortController();
+    const sendText = vi.fn();
+    const sendMedia = vi.fn(async () => {
+      controller.abort();
+      return { messageId: 'media' };
+    });
+
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText, sendMedia },
+      recipients,
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      progressKv: kv,
+      jobIdGenerator: () => 'job-media',
+    });
+
+    const content = {
+      media: { kind: 'photo' as const, fileId: 'photo-file' },
+      entities: [{ type: 'bold', offset: 0, length: 6 }],
+      buttons: [[{ text: 'Открыть', url: 'https://example.com' }]],
+    };
+    await expect(
+      sendBroadcast({ text: 'Скидки', content, requestedBy: 'ops', abortSignal: controller.signal }),
+    ).rejects.toBeInstanceOf(BroadcastAbortedError);
+
+    expect(sendText).not.toHaveBeenCalled();
+    expect(sendMedia).toHaveBeenCalledWith({
+      chatId: 'chat-0',
+      threadId: undefined,
+      kind: 'photo',
+      fileId: 'photo-file',
+      caption: 'Скидки',
+      captionEntities: [{ type: 'bold', offset: 0, length: 6 }],
+      replyMarkup: { inlineKeyboard: [[{ text: 'Открыть', url: 'https://example.com' }]] },
+    });
+
+    const checkpoint = await loadBroadcastCheckpoint(kv, 'job-media');
+    expect(checkpoint?.content).toEqual(content);
+    expect(checkpoint?.textHash).toBe(await computeBroadcastContentHash('Скидки', content));
+    expect(checkpoint?.textHash).not.toBe(await computeBroadcastTextHash('Скидки'));
+
+    const result = await sendBroadcast({ text: 'Скидки', requestedBy: 'ops', resumeFrom: checkpoint });
+    expect(result.delivered + result.failed).toBe(recipients.length);
+    expect(sendMedia).toHaveBeenLastCalledWith(expect.objectContaining({ chatId: 'chat-1', fileId: 'photo-file' }));
+  });
+
+  it('recalls and edits delivered messages from the delivery log with checkpoint resume', async () => {
+    const kv = new MemoryKv();
+    const controller = new AbortController();
+    const sendText = vi.fn();
+    const deleteMessage = vi.fn(async () => {
+      controller.abort();
+    });
+    const editMessageText = vi.fn().mockResolvedValue(undefined);
+    const deliveryLog = {
+      record: vi.fn().mockResolvedValue(undefined),
+      listDeliveredMessages: vi.fn().mockResolvedValue([
+        { chatId: 'chat-0', messageId: 'm-0' },
+        { chatId: 'chat-1', threadId: '7', messageId: 'm-1' },
+      ]),
+    };
+    const telemetry = { record: vi.fn().mockResolvedValue(undefined), snapshot: vi.fn() };
+
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText, deleteMessage, editMessageText },
+      recipients: createRecipients(5),
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      progressKv: kv,
+      deliveryLog,
+      telemetry,
+      jobIdGenerator: () => 'job-recall',
+    });
+
+    const action = { kind: 'recall' as const, sourceJobId: 'job-source' };
+    await expect(
+      sendBroadcast({ text: '', action, requestedBy: 'ops', abortSignal: controller.signal }),
+    ).rejects.toBeInstanceOf(BroadcastAbortedError);
+
+    expect(deliveryLog.listDeliveredMessages).toHaveBeenCalledWith('job-source');
+    expect(deleteMessage).toHaveBeenCalledWith({ chatId: 'chat-0', threadId: undefined, messageId: 'm-0' });
+    const checkpoint = await loadBroadcastCheckpoint(kv, 'job-recall');
+    expect(checkpoint).toMatchObject({ action, total: 2, source: 'deliveries' });
+
+    const resumed = await sendBroadcast({ text: '', requestedBy: 'ops', resumeFrom: checkpoint });
+    expect(resumed).toMatchObject({ delivered: 2, failed: 0, recipients: 2 });
+    expect(deleteMessage).toHaveBeenLastCalledWith({ chatId: 'chat-1', threadId: '7', messageId: 'm-1' });
+    expect(deliveryLog.record).toHaveBeenCalledWith([
+      expect.objectContaining({ jobId: 'job-recall', chatId: 'chat-1', status: 'recalled', messageId: 'm-1' }),
+    ]);
+    expect(telemetry.record).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'recall' }));
+
+    await sendBroadcast({
+      text: 'Исправленный текст',
+      action: { kind: 'edit', sourceJobId: 'job-source' },
+      requestedBy: 'ops',
+    });
+    expect(editMessageText).toHaveBeenCalledWith({
+      chatId: 'chat-0',
+      threadId: undefined,
+      messageId: 'm-0',
+      text: 'Исправленный текст',
+    });
+    expect(sendText).not.toHaveBeenCalled();
+  });
+
+  it('edits captions of media broadcasts and logs edits apart from deliveries', async () => {
+    const editMessageText = vi.fn().mockResolvedValue(undefined);
+    const editMessageCaption = vi.fn().mockResolvedValue(undefined);
+    const deliveryLog = {
+      record: vi.fn().mockResolvedValue(undefined),
+      listDeliveredMessages: vi.fn().mockResolvedValue([
+        { chatId: 'chat-0', messageId: 'm-0', mediaKind: 'photo' },
+        { chatId: 'chat-1', messageId: 'm-1' },
+      ]),
+    };
+
+    const sendMedia = vi.fn().mockResolvedValue({ messageId: 'media-1' });
+    const jobIds = ['job-source', 'job-edit'];
+
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText: vi.fn(), sendMedia, editMessageText, editMessageCaption },
+      recipients: createRecipients(1),
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      deliveryLog,
+      jobIdGenerator: () => jobIds.shift() ?? 'job-extra',
+    });
+
+    await sendBroadcast({
+      text: 'Подпись',
+      content: { media: { kind: 'photo', fileId: 'photo-file' } },
+      requestedBy: 'ops',
+    });
+    expect(deliveryLog.record).toHaveBeenCalledWith([
+      expect.objectContaining({ jobId: 'job-source', status: 'delivered', messageId: 'media-1', mediaKind: 'photo' }),
+    ]);
+    deliveryLog.record.mockClear();
+
+    await expect(
+      sendBroadcast({
+        text: 'Новая подпись',
+        action: { kind: 'edit', sourceJobId: 'job-source' },
+        requestedBy: 'ops',
+      }),
+    ).resolves.toMatchObject({ delivered: 2, failed: 0 });
+
+    expect(editMessageCaption).toHaveBeenCalledWith({
+      chatId: 'chat-0',
+      threadId: undefined,
+      messageId: 'm-0',
+      caption: 'Новая подпись',
+    });
+    expect(editMessageText).toHaveBeenCalledTimes(1);
+    expect(editMessageText).toHaveBeenCalledWith(expect.objectContaining({ chatId: 'chat-1', messageId: 'm-1' }));
+    const logged = deliveryLog.record.mock.calls.flatMap(([entries]) => entries);
+    expect(logged).toHaveLength(2);
+    expect(logged.every((entry: { status: string }) => entry.status === 'edited')).toBe(true);
+  });
+
+  it('splits recipients between text variants and counts them across resume', async () => {
+    const recipients = createRecipients(12);
+    const kv = new MemoryKv();
+    const controller = new AbortController();
+    let sent = 0;
+    const sendText = vi.fn<[{ chatId: string; text: string }], Promise<{ messageId: string }>>(async () => {
+      sent += 1;
+      if (sent === 4) {
+        controller.abort();
+      }
+
+      return { messageId: `m-${sent}` };
+    });
+    const deliveryLog = { record: vi.fn().mockResolvedValue(undefined) };
+    const telemetry = { record: vi.fn().mockResolvedValue(undefined), snapshot: vi.fn() };
+    const variants = [{ id: 'B', text: 'Текст B', percent: 50 }];
+    const content = { entities: [{ type: 'bold', offset: 0, length: 5 }], variants };
+
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText },
+      recipients,
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      progressKv: kv,
+      deliveryLog,
+      telemetry,
+      pool: { concurrency: 1 },
+      batchSize: 2,
+      jobIdGenerator: () => 'job-ab',
+    });
+
+    await expect(
+      sendBroadcast({ text: 'Текст A', content, requestedBy: 'ops', abortSignal: controller.signal }),
+    ).rejects.toBeInstanceOf(BroadcastAbortedError);
+    const checkpoint = await loadBroadcastCheckpoint(kv, 'job-ab');
+    expect(Object.values(checkpoint?.variantCounts ?? {}).reduce((sum, item) => sum + item.delivered, 0)).toBe(4);
+
+    const result = await sendBroadcast({ text: 'Текст A', requestedBy: 'ops', resumeFrom: checkpoint });
+
+    const expectedIds = recipients.map(
+      (recipient) => assignBroadcastVariant(variants, { jobId: 'job-ab', chatId: recipient.chatId })?.id ?? 'A',
+    );
+    for (const [index, recipient] of recipients.entries()) {
+      const call = sendText.mock.calls.find(([input]) => input.chatId === recipient.chatId)?.[0];
+      expect(call).toEqual(
+        expectedIds[index] === 'B'
+          ? { chatId: recipient.chatId, threadId: undefined, text: 'Текст B' }
+          : expect.objectContaining({ text: 'Текст A', entities: content.entities }),
+      );
+    }
+
+    const expectedCounts = {
+      A: { delivered: expectedIds.filter((id) => id === 'A').length, failed: 0 },
+      B: { delivered: expectedIds.filter((id) => id === 'B').length, failed: 0 },
+    };
+    expect(expectedCounts.A.delivered).toBeGreaterThan(0);
+    expect(expectedCounts.B.delivered).toBeGreaterThan(0);
+    expect(result.variants).toEqual(expectedCounts);
+    expect(telemetry.record).toHaveBeenLastCalledWith(expect.objectContaining({ variants: expectedCounts }));
+    expect(deliveryLog.record.mock.calls.flatMap(([entries]) => entries)).toContainEqual(
+      expect.objectContaining({ chatId: 'chat-0', variant: expectedIds[0] }),
+    );
+  });
+
+  it('routes recipients to the translation for their language and counts deliveries per language', async () => {
+    const recipients: BroadcastRecipient[] = [
+      { chatId: 'chat-en', languageCode: 'en-US' },
+      { chatId: 'chat-uk', languageCode: 'uk' },
+      { chatId: 'chat-de', languageCode: 'de' },
+      { chatId: 'chat-none' },
+    ];
+    const sendText = vi.fn<[{ chatId: string; text: string }], Promise<{ messageId: string }>>(async ({ chatId }) => {
+      if (chatId === 'chat-uk') {
+        throw Object.assign(new Error('Forbidden'), { status: 403 });
+      }
+
+      return { messageId: `m-${chatId}` };
+    });
+    const telemetry = { record: vi.fn().mockResolvedValue(undefined), snapshot: vi.fn() };
+    const content = {
+      entities: [{ type: 'bold', offset: 0, length: 6 }],
+      translations: [
+        { languageCode: 'en', text: 'Hello' },
+        { languageCode: 'uk', text: 'Привіт' },
+      ],
+    };
+
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText },
+      recipients,
+      telemetry,
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    });
+
+    const result = await sendBroadcast({ text: 'Привет', content, requestedBy: 'ops' });
+
+    expect(sendText).toHaveBeenCalledWith({ chatId: 'chat-en', threadId: undefined, text: 'Hello' });
+    expect(sendText).toHaveBeenCalledWith(
+      expect.objectContaining({ chatId: 'chat-de', text: 'Привет', entities: content.entities }),
+    );
+    expect(sendText).toHaveBeenCalledWith(expect.objectContaining({ chatId: 'chat-none', text: 'Привет' }));
+    const expectedLanguages = {
+      en: { delivered: 1, failed: 0 },
+      uk: { delivered: 0, failed: 1 },
+      default: { delivered: 2, failed: 0 },
+    };
+    expect(result.languages).toEqual(expectedLanguages);
+    expect(telemetry.record).toHaveBeenCalledWith(expect.objectContaining({ languages: expectedLanguages }));
+  });
+
+  it('estimates batches and duration in dry run without calling Telegram', async () => {
+    const sendText = vi.fn();
+    const kv = new MemoryKv();
+    const telemetry = { record: vi.fn().mockResolvedValue(undefined), snapshot: vi.fn() };
+
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText },
+      recipients: createRecipients(7),
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      progressKv: kv,
+      telemetry,
+      pool: { concurrency: 2, maxRps: 10, rateJitterRatio: 0 },
+      batchSize: 3,
+      maxBatchTextBytes: 8,
+      jobIdGenerator: () => 'job-dry',
+    });
+
+    const result = await sendBroadcast({ text: 'four', requestedBy: 'ops', mode: 'dry_run' });
+
+    expect(result).toMatchObject({ delivered: 0, failed: 0, recipients: 7 });
+    expect(result.dryRun).toEqual({
+      batches: 4,
+      batchSize: 2,
+      limitedByTextBytes: true,
+      concurrency: 2,
+      maxRps: 10,
+      estimatedDurationMs: 600,
+    });
+    expect(sendText).not.toHaveBeenCalled();
+    expect(telemetry.record).not.toHaveBeenCalled();
+    expect(kv.store.size).toBe(0);
+  });
+
+  it('sends a test copy only to the given recipient without side effects', async () => {
+    const sendText = vi.fn().mockResolvedValue({ messageId: 'm-1' });
+    const kv = new MemoryKv();
+    const deliveryLog = { record: vi.fn().mockResolvedValue(undefined) };
+    const telemetry = { record: vi.fn().mockResolvedValue(undefined), snapshot: vi.fn() };
+
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText },
+      recipients: createRecipients(5),
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      progressKv: kv,
+      deliveryLog,
+      telemetry,
+      jobIdGenerator: () => 'job-test',
+    });
+
+    await expect(sendBroadcast({ text: 'Проверка', requestedBy: 'ops', mode: 'test' })).rejects.toThrow(
+      'Test broadcast requires testRecipient',
+    );
+
+    const result = await sendBroadcast({
+      text: 'Проверка',
+      requestedBy: 'ops',
+      mode: 'test',
+      testRecipient: { chatId: 'admin-chat', threadId: '7' },
+    });
+
+    expect(result).toMatchObject({ delivered: 1, failed: 0, recipients: 1, source: 'test' });
+    expect(sendText).toHaveBeenCalledTimes(1);
+    expect(sendText).toHaveBeenCalledWith(expect.objectContaining({ chatId: 'admin-chat', threadId: '7', text: 'Проверка' }));
+    expect(deliveryLog.record).not.toHaveBeenCalled();
+    expect(telemetry.record).not.toHaveBeenCalled();
+    expect(kv.store.size).toBe(0);
+  });
+
+  it('runs concurrent jobs through one sender and pauses them independently', async () => {
+    const kv = new MemoryKv();
+    const newsletterAbort = new AbortController();
+    const sendText = vi.fn<[{ chatId: string; text: string }], Promise<{ messageId: string }>>(async ({ chatId, text }) => {
+      if (text === 'newsletter' && chatId === 'chat-3') {
+        newsletterAbort.abort();
+      }
+
+      return { messageId: `${text}-${chatId}` };
+    });
+
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText },
+      recipients: createRecipients(8),
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      progressKv: kv,
+      pool: { concurrency: 1, maxRps: 1000, rateJitterRatio: 0 },
+      batchSize: 2,
+    });
+
+    const [newsletter, urgent] = await Promise.allSettled([
+      sendBroadcast({
+        text: 'newsletter',
+        requestedBy: 'ops',
+        jobId: 'job-newsletter',
+        priority: 'low',
+        abortSignal: newsletterAbort.signal,
+      }),
+      sendBroadcast({ text: 'urgent', requestedBy: 'ops', jobId: 'job-urgent', priority: 'high' }),
+    ]);
+
+    expect(newsletter.status).toBe('rejected');
+    expect(urgent).toMatchObject({ status: 'fulfilled', value: { delivered: 8, failed: 0 } });
+    await expect(loadBroadcastCheckpoint(kv, 'job-urgent')).resolves.toBeUndefined();
+
+    const checkpoint = await loadBroadcastCheckpoint(kv, 'job-newsletter');
+    expect(checkpoint).toMatchObject({ status: 'aborted', reason: 'aborted_by_admin', priority: 'low' });
+
+    const resumed = await sendBroadcast({ text: 'newsletter', requestedBy: 'ops', resumeFrom: checkpoint });
+    expect(resumed.delivered).toBe(8);
+    expect(sendText.mock.calls.filter(([input]) => input.text === 'newsletter')).toHaveLength(8);
+  });
+
+  it('refuses recall without delivery log support', async () => {
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText: vi.fn(), deleteMessage: vi.fn() },
+      recipients: createRecipients(1),
+      deliveryLog: { record: vi.fn() },
+    });
+
+    await expect(
+      sendBroadcast({ text: '', action: { kind: 'recall', sourceJobId: 'job-1' }, requestedBy: 'ops' }),
+    ).rejects.toThrow('Broadcast delivery log is required for recall and edit');
+  });
+
+  it('applies the caption limit to media broadcasts', async () => {
+    const sendMedia = vi.fn();
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const sendBroadcast = createImmediateBroadcastSender({
+      messaging: { sendText: vi.fn(), sendMedia },
+      recipients: createRecipients(1),
+      logger,
+    });
+
+    await expect(
+      sendBroadcast({
+        text: 'a'.repeat(1025),
+        content: { media: { kind: 'document', fileId: 'doc' } },
+        requestedBy: 'ops',
+      }),
+    ).rejects.toBeInstanceOf(BroadcastAbortedError);
+
+    expect(sendMedia).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      'broadcast text exceeds limit',
+      expect.objectContaining({ limit: 1024, caption: true }),
+    );
+  });
+
   it('limits batch size by text budget and resumes from checkpoint', async () => {
     const recipients = createRecipients(6);
     const controller = new AbortController();
@@ -488,6 +947,45 @@ describe('createRegistryBroadcastSender', () => {
     expect(result.failed).toBe(0);
   });
 
+  it('renders placeholders per recipient and checks the worst-case length', async () => {
+    const recipients = createRecipients(2);
+    const sendText = vi.fn().mockResolvedValue({ messageId: 'ok' });
+    const registry = { listActiveRecipients: vi.fn().mockResolvedValue(recipients) };
+    const profiles = {
+      loadProfiles: vi.fn().mockResolvedValue(new Map([['chat-0', { firstName: 'Анна' }]])),
+    };
+
+    const sendBroadcast = createRegistryBroadcastSender({
+      messaging: { sendText },
+      registry,
+      profiles,
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      maxTextLength: 100,
+    });
+
+    await sendBroadcast({
+      text: 'Привет, {first_name|друг}!',
+      content: { entities: [{ type: 'bold', offset: 8, length: 17 }] },
+      requestedBy: 'ops',
+    });
+
+    expect(profiles.loadProfiles).toHaveBeenCalledWith(['chat-0', 'chat-1']);
+    expect(sendText).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chatId: 'chat-0',
+        text: 'Привет, Анна!',
+        entities: [{ type: 'bold', offset: 8, length: 4 }],
+      }),
+    );
+    expect(sendText).toHaveBeenCalledWith(expect.objectContaining({ chatId: 'chat-1', text: 'Привет, друг!' }));
+
+    // 40 символов текста плюс до 64 символов имени не помещаются в лимит 100.
+    await expect(
+      sendBroadcast({ text: `${'a'.repeat(40)} {first_name}`, requestedBy: 'ops' }),
+    ).rejects.toBeInstanceOf(BroadcastAbortedError);
+    expect(sendText).toHaveBeenCalledTimes(2);
+  });
+
   it('pauses on long retry_after and resumes without duplicates', async () => {
     const recipients = createRecipients(3);
     const timeline = { now: 0 };
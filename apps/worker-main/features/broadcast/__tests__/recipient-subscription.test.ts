@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createBroadcastSubscriptionTracker } from '../recipient-subscription';
+import type { TelegramChatMemberContext } from '../../../http';
+import type { IncomingMessage } from '../../../core';
+
+const createStore = () => ({
+  markUnsubscribed: vi.fn().mockResolvedValue(undefined),
+  reactivateRecipient: vi.fn().mockResolvedValue(undefined),
+});
+
+const createMemberContext = (status: string): TelegramChatMemberContext => ({
+  chat: { id: '555', type: 'private' },
+  from: { userId: '555' },
+  status,
+  update: { update_id: 1 },
+});
+
+const createMessage = (text: string): IncomingMessage => ({
+  user: { userId: '555' },
+  chat: { id: '555' },
+  text,
+  receivedAt: new Date('2026-01-01T00:00:00Z'),
+});
+
+describe('createBroadcastSubscriptionTracker', () => {
+  it('marks kicked and left statuses as unsubscribed', async () => {
+    const store = createStore();
+    const tracker = createBroadcastSubscriptionTracker({ store });
+
+    await tracker.handleChatMemberUpdate(createMemberContext('kicked'));
+    await tracker.handleChatMemberUpdate({ ...createMemberContext('left'), chat: { id: '-100', type: 'group' } });
+
+    expect(store.markUnsubscribed).toHaveBeenNthCalledWith(1, { chatId: '555', reason: 'blocked' });
+    expect(store.markUnsubscribed).toHaveBeenNthCalledWith(2, { chatId: '-100', reason: 'left' });
+    expect(store.reactivateRecipient).not.toHaveBeenCalled();
+  });
+
+  it('reactivates recipient on member status and /start', async () => {
+    const store = createStore();
+    const tracker = createBroadcastSubscriptionTracker({ store });
+
+    await tracker.handleChatMemberUpdate(createMemberContext('member'));
+    await tracker.handleMessage(createMessage('/start src_demo'));
+    await tracker.handleMessage(createMessage('/startup'));
+    await tracker.handleMessage(createMessage('привет'));
+
+    expect(store.reactivateRecipient).toHaveBeenCalledTimes(2);
+    expect(store.reactivateRecipient).toHaveBeenCalledWith('555');
+  });
+
+  it('defers storage writes to waitUntil when available', async () => {
+    const store = createStore();
+    const waitUntil = vi.fn();
+    const tracker = createBroadcastSubscriptionTracker({ store });
+
+    await tracker.handleChatMemberUpdate({ ...createMemberContext('kicked'), waitUntil });
+
+    expect(waitUntil).toHaveBeenCalledWith(expect.any(Promise));
+    await waitUntil.mock.calls[0][0];
+    expect(store.markUnsubscribed).toHaveBeenCalledWith({ chatId: '555', reason: 'blocked' });
+  });
+
+  it('records 403 deliveries and logs storage failures without throwing', async () => {
+    const store = createStore();
+    store.markUnsubscribed.mockRejectedValueOnce(new Error('d1 down'));
+    const logger = { error: vi.fn() };
+    const tracker = createBroadcastSubscriptionTracker({ store, logger });
+
+    await expect(
+      tracker.handleRecipientBlocked({
+        jobId: 'job-1',
+        recipient: { chatId: '555' },
+        error: { name: 'TelegramApiError', message: 'Forbidden: bot was blocked by the user' },
+      }),
+    ).resolves.toBeUndefined();
+
+    expect(store.markUnsubscribed).toHaveBeenCalledWith({ chatId: '555', reason: 'blocked' });
+    expect(logger.error).toHaveBeenCalledWith(
+      '[broadcast] failed to record unsubscribe',
+      expect.objectContaining({ chatId: '555', source: 'delivery_403' }),
+    );
+  });
+});
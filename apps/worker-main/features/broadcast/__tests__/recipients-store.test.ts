@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createBroadcastRecipientsStore } from '../recipients-store';
+
+const createDbMock = (rows: unknown[] = [], changes = 1) => {
+  const statements: Array<{ sql: string; bindings: unknown[] }> = [];
+
+  const db = {
+    prepare: vi.fn((sql: string) => {
+      const statement = {
+        sql,
+        bindings: [] as unknown[],
+        bind: (...values: unknown[]) => {
+          statement.bindings = values;
+          return statement;
+        },
+        all: async <T,>() => ({
+          results: (sql.includes('COUNT(') ? [{ total: rows.length }] : rows) as T[],
+        }),
+        run: async () => ({ meta: { changes } }),
+      };
+      statements.push(statement);
+      return statement;
+    }),
+  };
+
+  return { db, statements };
+};
+
+const createCacheMock = () => ({
+  get: vi.fn().mockResolvedValue(null),
+  put: vi.fn().mockResolvedValue(undefined),
+  delete: vi.fn().mockResolvedValue(undefined),
+});
+
+describe('createBroadcastRecipientsStore', () => {
+  it('excludes unsubscribed chats unless resuming', async () => {
+    const { db, statements } = createDbMock([
+      { chatId: '100', username: 'alice', languageCode: 'ru', createdAt: 1, isBot: 0 },
+    ]);
+    const store = createBroadcastRecipientsStore({ db });
+
+    await expect(store.listActiveRecipients()).resolves.toEqual([
+      { chatId: '100', username: 'alice', languageCode: 'ru' },
+    ]);
+    expect(statements[0].sql).toContain('br.blocked_at IS NOT NULL OR br.unsubscribed_at IS NOT NULL');
+    expect(statements[0].sql).toContain('SELECT lang.language_code FROM broadcast_recipients lang');
+
+    await store.listActiveRecipients(undefined, { includeUnsubscribed: true });
+    expect(statements[2].sql).not.toContain('br.blocked_at');
+  });
+
+  it('queries segment filters in D1 without the recipients cache', async () => {
+    const { db, statements } = createDbMock([
+      { chatId: '100', username: 'alice', languageCode: 'ru', createdAt: 1, isBot: 0 },
+    ]);
+    const cache = createCacheMock();
+    const store = createBroadcastRecipientsStore({ db, cache: cache as unknown as KVNamespace });
+
+    await expect(
+      store.listActiveRecipients({
+        segment: 'utm=src_promo active_since=30d',
+        utmSources: ['src_promo'],
+        activeSince: '2026-09-19T12:00:00.000Z',
+      }),
+    ).resolves.toEqual([{ chatId: '100', username: 'alice', languageCode: 'ru' }]);
+
+    expect(cache.get).not.toHaveBeenCalled();
+    expect(cache.put).not.toHaveBeenCalled();
+    expect(statements[0].sql).toContain('LOWER(u.utm_source) IN (?)');
+    expect(statements[0].sql).toContain('recent.timestamp >= ?');
+    expect(statements[0].bindings).toEqual(expect.arrayContaining(['src_promo', '2026-09-19T12:00:00.000Z']));
+  });
+
+  it('loads recipient profiles for template placeholders in chunks', async () => {
+    const { db, statements } = createDbMock([
+      { userId: 100, firstName: 'Анна', username: null, utmSource: 'src_promo' },
+    ]);
+    const store = createBroadcastRecipientsStore({ db });
+    const chatIds = Array.from({ length: 150 }, (_, index) => String(100 + index));
+
+    const profiles = await store.loadProfiles([...chatIds, ' 100 ']);
+
+    expect(statements).toHaveLength(2);
+    expect(statements[0].sql).toContain('FROM users');
+    expect(statements[0].bindings).toHaveLength(100);
+    expect(statements[1].bindings).toHaveLength(50);
+    expect(profiles.get('100')).toEqual({ firstName: 'Анна', utmSource: 'src_promo' });
+  });
+
+  it('marks chats as unsubscribed and invalidates cache', async () => {
+    const { db, statements } = createDbMock();
+    const cache = createCacheMock();
+    const store = createBroadcastRecipientsStore({
+      db,
+      cache: cache as unknown as KVNamespace,
+      now: () => new Date('2026-01-01T00:00:00Z'),
+    });
+
+    await store.markUnsubscribed({ chatId: ' 555 ', reason: 'blocked' });
+    await store.markUnsubscribed({ chatId: '-100', reason: 'left' });
+
+    expect(statements[0].sql).toContain('ON CONFLICT(chat_id) DO UPDATE SET blocked_at = excluded.blocked_at');
+    expect(statements[0].bindings).toEqual(['555', 1_767_225_600]);
+    expect(statements[1].sql).toContain('unsubscribed_at = excluded.unsubscribed_at');
+    expect(cache.delete).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps cache when reactivation changes nothing', async () => {
+    const unchanged = createDbMock([], 0);
+    const cache = createCacheMock();
+    const store = createBroadcastRecipientsStore({
+      db: unchanged.db,
+      cache: cache as unknown as KVNamespace,
+    });
+
+    await store.reactivateRecipient('555');
+
+    expect(unchanged.statements[0].sql).toContain('SET blocked_at = NULL, unsubscribed_at = NULL');
+    expect(unchanged.statements[0].bindings).toEqual(['555']);
+    expect(cache.delete).not.toHaveBeenCalled();
+
+    const changed = createDbMock([], 1);
+    const changedStore = createBroadcastRecipientsStore({
+      db: changed.db,
+      cache: cache as unknown as KVNamespace,
+    });
+
+    await changedStore.reactivateRecipient('555');
+    expect(cache.delete).toHaveBeenCalledTimes(1);
+  });
+});
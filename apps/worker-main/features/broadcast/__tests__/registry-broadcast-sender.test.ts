@@ -1,6 +1,6 @@
 import { describe, expect, it, vi } from 'vitest';
 
-import { createRegistryBroadcastSender } from '../minimal-broadcast-service';
+import { createRegistryBroadcastSender, loadBroadcastCheckpoint } from '../minimal-broadcast-service';
 import type { BroadcastRecipient } from '../minimal-broadcast-service';
 
 const createMessagingMock = () => ({
@@ -38,6 +38,32 @@ describe('createRegistryBroadcastSender', () => {
     expect(result.failed).toBe(0);
   });
 
+  it('passes segment conditions to the registry and records the segment in telemetry', async () => {
+    const registry = {
+      listActiveRecipients: vi.fn().mockResolvedValue([{ chatId: '100', languageCode: 'ru' }]),
+    };
+    const telemetry = { record: vi.fn(), snapshot: vi.fn() };
+
+    const sender = createRegistryBroadcastSender({
+      messaging: createMessagingMock(),
+      registry,
+      telemetry,
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    });
+
+    const filters = {
+      segment: 'utm=src_promo active_since=30d',
+      utmSources: ['src_promo'],
+      activeSince: '2026-09-19T12:00:00.000Z',
+    };
+    await sender({ text: 'Promo', requestedBy: 'admin-1', filters });
+
+    expect(registry.listActiveRecipients).toHaveBeenCalledWith(filters);
+    expect(telemetry.record).toHaveBeenCalledWith(
+      expect.objectContaining({ segment: 'utm=src_promo active_since=30d', filters }),
+    );
+  });
+
   it('returns empty result when registry fails', async () => {
     const messaging = createMessagingMock();
     const registry = {
@@ -57,4 +83,88 @@ describe('createRegistryBroadcastSender', () => {
     expect(result.delivered).toBe(0);
     expect(result.failed).toBe(0);
   });
+
+  it('reports 403 deliveries as blocked recipients and keeps broadcasting', async () => {
+    const blockedError = Object.assign(new Error('Forbidden: bot was blocked by the user'), { status: 403 });
+    const messaging = {
+      sendText: vi.fn().mockImplementation(async ({ chatId }: { chatId: string }) => {
+        if (chatId === '100') {
+          throw blockedError;
+        }
+
+        return { messageId: 'sent' };
+      }),
+    };
+    const registry = {
+      listActiveRecipients: vi.fn().mockResolvedValue([{ chatId: '100' }, { chatId: '200' }]),
+    };
+    const onRecipientBlocked = vi.fn().mockResolvedValue(undefined);
+
+    const sender = createRegistryBroadcastSender({
+      messaging,
+      registry,
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      jobIdGenerator: () => 'job-403',
+      onRecipientBlocked,
+    });
+
+    const result = await sender({ text: 'Hello', requestedBy: 'admin-1' });
+
+    expect(result.delivered).toBe(1);
+    expect(result.failed).toBe(1);
+    expect(onRecipientBlocked).toHaveBeenCalledTimes(1);
+    expect(onRecipientBlocked).toHaveBeenCalledWith({
+      jobId: 'job-403',
+      recipient: { chatId: '100' },
+      error: { name: 'Error', message: 'Forbidden: bot was blocked by the user' },
+    });
+  });
+
+  it('includes unsubscribed recipients when resuming from checkpoint', async () => {
+    const messaging = createMessagingMock();
+    const recipients: BroadcastRecipient[] = [{ chatId: '100' }, { chatId: '200' }];
+    const registry = {
+      listActiveRecipients: vi.fn().mockResolvedValue(recipients),
+    };
+    const store = new Map<string, string>();
+    const progressKv = {
+      get: async (key: string) => store.get(key) ?? null,
+      put: async (key: string, value: string) => {
+        store.set(key, value);
+      },
+      delete: async (key: string) => {
+        store.delete(key);
+      },
+      list: async () => ({ keys: [], list_complete: true, cacheStatus: null }),
+    } as unknown as KVNamespace;
+    const pauseController = new AbortController();
+    messaging.sendText.mockImplementationOnce(async () => {
+      pauseController.abort();
+      return { messageId: 'sent' };
+    });
+
+    const sender = createRegistryBroadcastSender({
+      messaging,
+      registry,
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      progressKv,
+      jobIdGenerator: () => 'job-resume',
+      pool: { concurrency: 1 },
+      batchSize: 1,
+    });
+
+    await expect(
+      sender({ text: 'Hello', requestedBy: 'admin-1', abortSignal: pauseController.signal }),
+    ).rejects.toThrow();
+    expect(registry.listActiveRecipients).toHaveBeenLastCalledWith(undefined);
+
+    const checkpoint = await loadBroadcastCheckpoint(progressKv, 'job-resume');
+    expect(checkpoint?.offset).toBeGreaterThan(0);
+
+    const result = await sender({ text: 'Hello', requestedBy: 'admin-1', resumeFrom: checkpoint });
+
+    expect(result.delivered).toBe(2);
+
+    expect(registry.listActiveRecipients).toHaveBeenLastCalledWith(undefined, { includeUnsubscribed: true });
+  });
 });
@@ -0,0 +1,223 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { computeBroadcastTextHash } from '../minimal-broadcast-service';
+import {
+  buildScheduledBroadcastsListMessage,
+  createScheduledBroadcastsAdminHandlers,
+  createScheduledBroadcastsJob,
+  formatScheduledSendAt,
+  parseScheduledSendAt,
+} from '../scheduled-broadcasts';
+import { createScheduledBroadcastsStore, type ScheduledBroadcast } from '../scheduled-broadcasts-store';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const createScheduled = async (overrides: Partial<ScheduledBroadcast> = {}): Promise<ScheduledBroadcast> => ({
+  jobId: 'job-1',
+  text: 'Привет',
+  textHash: await computeBroadcastTextHash(overrides.text ?? 'Привет'),
+  audienceHash: 'audience',
+  audienceMode: 'all',
+  audienceTotal: 2,
+  sendAt: new Date('2026-11-01T07:00:00.000Z'),
+  timeZone: 'Europe/Moscow',
+  requestedBy: '42',
+  adminChat: { chatId: '42' },
+  status: 'running',
+  createdAt: NOW,
+  ...overrides,
+});
+
+describe('parseScheduledSendAt', () => {
+  it('converts wall-clock time in the given zone to UTC', () => {
+    expect(parseScheduledSendAt('2026-11-01 10:00 Europe/Moscow', { now: NOW })).toEqual({
+      ok: true,
+      sendAt: new Date('2026-11-01T07:00:00.000Z'),
+      timeZone: 'Europe/Moscow',
+    });
+    expect(parseScheduledSendAt('2026-11-01 10:00', { now: NOW, defaultTimeZone: 'Europe/Berlin' })).toEqual({
+      ok: true,
+      sendAt: new Date('2026-11-01T09:00:00.000Z'),
+      timeZone: 'Europe/Berlin',
+    });
+    expect(parseScheduledSendAt('2026-10-20 9:30', { now: NOW })).toMatchObject({
+      ok: true,
+      sendAt: new Date('2026-10-20T09:30:00.000Z'),
+      timeZone: 'UTC',
+    });
+  });
+
+  it('rejects malformed, past and far-future times', () => {
+    expect(parseScheduledSendAt('завтра', { now: NOW })).toEqual({ ok: false, reason: 'format' });
+    expect(parseScheduledSendAt('2026-02-30 10:00', { now: NOW })).toEqual({ ok: false, reason: 'format' });
+    expect(parseScheduledSendAt('2026-11-01 10:00 Mars/Base', { now: NOW })).toEqual({
+      ok: false,
+      reason: 'time_zone',
+    });
+    expect(parseScheduledSendAt('2026-10-19 12:00', { now: NOW })).toEqual({ ok: false, reason: 'in_past' });
+    expect(parseScheduledSendAt('2027-11-01 10:00', { now: NOW })).toEqual({ ok: false, reason: 'too_far' });
+  });
+
+  it('formats send time back in the job zone', async () => {
+    expect(formatScheduledSendAt(new Date('2026-11-01T07:00:00.000Z'), 'Europe/Moscow')).toBe(
+      '2026-11-01 10:00 Europe/Moscow',
+    );
+    expect(buildScheduledBroadcastsListMessage([])).toBe('Запланированных рассылок нет.');
+    expect(buildScheduledBroadcastsListMessage([await createScheduled()])).toBe(
+      '🗓 Запланированные рассылки:\n• 2026-11-01 10:00 Europe/Moscow, получателей: 2\n  /broadcast_unschedule job-1',
+    );
+  });
+});
+
+describe('createScheduledBroadcastsStore', () => {
+  const createDb = (options: { results?: unknown[]; changes?: number } = {}) => {
+    const statements: Array<{ sql: string; bindings: unknown[] }> = [];
+    const db = {
+      prepare: vi.fn((sql: string) => {
+        const statement = {
+          sql,
+          bindings: [] as unknown[],
+          bind: (...values: unknown[]) => {
+            statement.bindings = values;
+            return statement;
+          },
+          first: async <T,>() => (options.results?.[0] ?? null) as T | null,
+          all: async <T,>() => ({ results: (options.results ?? []) as T[] }),
+          run: async () => ({ meta: { changes: options.changes ?? 1 } }),
+        };
+        statements.push(statement);
+        return statement;
+      }),
+    };
+    return { db, statements };
+  };
+
+  const row = {
+    job_id: 'job-1',
+    text: 'Привет',
+    text_hash: 'text',
+    audience_hash: 'audience',
+    audience_mode: 'list',
+    audience_total: 1,
+    filters: '{"chatIds":["100"]}',
+    send_at: 1_793_516_400,
+    time_zone: 'Europe/Moscow',
+    requested_by: '42',
+    admin_chat_id: '42',
+    admin_thread_id: null,
+    status: 'running',
+    created_at: 1_792_411_200,
+    started_at: 1_793_516_400,
+    finished_at: null,
+    cancelled_by: null,
+    delivered: null,
+    failed: null,
+    error: null,
+  };
+
+  it('claims due jobs atomically and maps rows', async () => {
+    const { db, statements } = createDb({ results: [row] });
+    const store = createScheduledBroadcastsStore({ db, now: () => new Date('2026-11-01T07:00:00.000Z') });
+
+    const [claimed] = await store.claimDue({ limit: 2 });
+
+    expect(statements[0]?.sql).toContain("SET status = 'running'");
+    expect(statements[0]?.bindings).toEqual([1_793_516_400, 1_793_516_400, 2]);
+    expect(claimed).toMatchObject({
+      jobId: 'job-1',
+      audienceMode: 'list',
+      filters: { chatIds: ['100'] },
+      sendAt: new Date('2026-11-01T07:00:00.000Z'),
+      adminChat: { chatId: '42' },
+      status: 'running',
+    });
+  });
+
+  it('cancels only jobs that have not started', async () => {
+    const { db, statements } = createDb({ changes: 0 });
+    const store = createScheduledBroadcastsStore({ db, now: () => NOW });
+
+    await expect(store.cancel('job-1', '42')).resolves.toBe(false);
+    expect(statements[0]?.sql).toContain("status = 'scheduled'");
+    expect(statements[0]?.bindings).toEqual(['42', 1_792_411_200, 'job-1']);
+  });
+});
+
+describe('createScheduledBroadcastsJob', () => {
+  it('sends due broadcasts under their job id and reports to the admin chat', async () => {
+    const scheduled = await createScheduled({ filters: { chatIds: ['100'] } });
+    const store = {
+      claimDue: vi.fn().mockResolvedValue([scheduled]),
+      markFinished: vi.fn().mockResolvedValue(undefined),
+    };
+    const sendBroadcast = vi.fn().mockResolvedValue({ delivered: 2, failed: 0, deliveries: [] });
+    const messaging = { sendText: vi.fn().mockResolvedValue({}) };
+    const job = createScheduledBroadcastsJob({ store, sendBroadcast, messaging, batchSize: 3 });
+
+    await expect(job.run({ now: NOW, trigger: 'scheduled' })).resolves.toEqual({
+      claimed: 1,
+      completed: 1,
+      failed: 0,
+    });
+
+    expect(store.claimDue).toHaveBeenCalledWith({ limit: 3 });
+    expect(sendBroadcast).toHaveBeenCalledWith({
+      text: 'Привет',
+      requestedBy: '42',
+      filters: { chatIds: ['100'] },
+      jobId: 'job-1',
+      adminChat: { chatId: '42' },
+    });
+    expect(store.markFinished).toHaveBeenCalledWith('job-1', { status: 'completed', delivered: 2, failed: 0 });
+    expect(messaging.sendText).toHaveBeenCalledWith({
+      chatId: '42',
+      threadId: undefined,
+      text: '✅ Отложенная рассылка job-1 отправлена: delivered=2, failed=0',
+    });
+  });
+
+  it('refuses to send when the stored text hash does not match', async () => {
+    const scheduled = await createScheduled({ textHash: 'tampered' });
+    const store = {
+      claimDue: vi.fn().mockResolvedValue([scheduled]),
+      markFinished: vi.fn().mockResolvedValue(undefined),
+    };
+    const sendBroadcast = vi.fn();
+    const job = createScheduledBroadcastsJob({ store, sendBroadcast });
+
+    await expect(job.run({ now: NOW, trigger: 'manual' })).resolves.toEqual({
+      claimed: 1,
+      completed: 0,
+      failed: 1,
+    });
+    expect(sendBroadcast).not.toHaveBeenCalled();
+    expect(store.markFinished).toHaveBeenCalledWith('job-1', { status: 'failed', error: 'text_hash_mismatch' });
+  });
+});
+
+describe('createScheduledBroadcastsAdminHandlers', () => {
+  it('lists upcoming jobs and cancels them by id', async () => {
+    const scheduled = await createScheduled({ status: 'scheduled' });
+    const store = {
+      listUpcoming: vi.fn().mockResolvedValue([scheduled]),
+      cancel: vi.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false),
+    };
+    const handlers = createScheduledBroadcastsAdminHandlers({ store });
+
+    const list = await handlers.list(new Request('https://example.com/admin/broadcast/scheduled?limit=5'));
+    expect(store.listUpcoming).toHaveBeenCalledWith({ limit: 5 });
+    await expect(list.json()).resolves.toMatchObject({
+      count: 1,
+      items: [{ jobId: 'job-1', sendAt: '2026-11-01T07:00:00.000Z', sendAtLocal: '2026-11-01 10:00 Europe/Moscow' }],
+    });
+
+    const request = new Request('https://example.com/admin/broadcast/scheduled/job-1', { method: 'DELETE' });
+    const cancelled = await handlers.cancel(request, 'job-1');
+    expect(cancelled.status).toBe(200);
+    await expect(cancelled.json()).resolves.toEqual({ status: 'cancelled', jobId: 'job-1' });
+    expect(store.cancel).toHaveBeenCalledWith('job-1', 'admin-api');
+
+    expect((await handlers.cancel(request, 'job-1')).status).toBe(404);
+    expect((await handlers.cancel(request, ' ')).status).toBe(400);
+  });
+});
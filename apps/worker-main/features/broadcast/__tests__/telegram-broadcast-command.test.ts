@@ -9,11 +9,17 @@ import {
 } from '../telegram-broadcast-command';
 import type { BroadcastPendingKvNamespace } from '../telegram-broadcast-command';
 import type { BroadcastProgressKvNamespace } from '../minimal-broadcast-service';
-import type { TelegramAdminCommandContext, TransformPayloadContext } from '../../../http';
-import type { MessagingPort } from '../../../ports';
+import type {
+  TelegramAdminCommandContext,
+  TelegramCallbackQueryContext,
+  TransformPayloadContext,
+} from '../../../http';
+import type { AiPort, AiReplyInput, AiReplyResult, MessagingPort } from '../../../ports';
 import type { IncomingMessage } from '../../../core';
 import type { BroadcastSendResult, SendBroadcast } from '../minimal-broadcast-service';
 import type { AdminCommandErrorRecorder } from '../../admin-access/admin-messaging-errors';
+import type { ScheduledBroadcastsStore } from '../scheduled-broadcasts-store';
+import type { BroadcastRecipientProfile, BroadcastRecipientProfiles } from '../broadcast-templates';
 
 const createContext = ({
   command = '/broadcast',
@@ -25,6 +31,10 @@ const createContext = ({
     | '/broadcast_pause'
     | '/broadcast_end'
     | '/broadcast_resume'
+    | '/broadcast_scheduled'
+    | '/broadcast_unschedule'
+    | '/broadcast_recall'
+    | '/broadcast_edit'
     | '/admin';
   argument?: string;
 } = {}): TelegramAdminCommandContext => {
@@ -67,6 +77,21 @@ const createIncomingMessage = (
   ...overrides,
 });
 
+const createCallbackContext = (
+  data: string,
+  overrides: Partial<TelegramCallbackQueryContext> = {},
+): TelegramCallbackQueryContext => ({
+  queryId: 'cbq-1',
+  data,
+  from: { userId: 'admin-1' },
+  chat: { id: 'chat-1', threadId: 'thread-1', type: 'private' },
+  messageId: 'prompt-1',
+  update: { update_id: 2 },
+  ...overrides,
+});
+
+const signedCallbackData = { sign: async (payload: string) => `${payload}|sig` };
+
 const buildExpectedTooLongMessage = (_overflow: number) =>
   'Текст не укладывается в лимит Telegram, выберите: /new_text чтобы отправить другой текст или /cancel_broadcast для отмены.';
 
@@ -194,6 +219,11 @@ describe('createTelegramBroadcastCommandHandler', () => {
     sendAdminHelp = vi.fn().mockResolvedValue(undefined),
     now,
     progressKv,
+    callbackData,
+    scheduledBroadcasts,
+    maxConcurrentJobs,
+    profiles,
+    ai,
   }: {
     isAdmin?: boolean;
     sendTextMock?: ReturnType<typeof vi.fn>;
@@ -207,6 +237,11 @@ describe('createTelegramBroadcastCommandHandler', () => {
     sendAdminHelp?: ReturnType<typeof vi.fn>;
     now?: () => Date;
     progressKv?: BroadcastProgressKvNamespace;
+    callbackData?: { sign(payload: string): Promise<string> };
+    scheduledBroadcasts?: Pick<ScheduledBroadcastsStore, 'create' | 'listUpcoming' | 'cancel'>;
+    maxConcurrentJobs?: number;
+    profiles?: BroadcastRecipientProfiles;
+    ai?: Pick<AiPort, 'reply'>;
   } = {}) => {
     const adminAccess = { isAdmin: vi.fn().mockResolvedValue(isAdmin) };
     const messaging: Pick<MessagingPort, 'sendText'> = {
@@ -233,9 +268,23 @@ describe('createTelegramBroadcastCommandHandler', () => {
       pendingKv,
       sendAdminHelp,
       progressKv,
+      callbackData,
+      scheduledBroadcasts,
+      maxConcurrentJobs,
+      profiles,
+      ai,
     });
 
-    return { handler, adminAccess, sendTextMock, sendBroadcastMock, logger, exportLogKv, sendAdminHelp };
+    return {
+      handler,
+      adminAccess,
+      sendTextMock,
+      sendBroadcastMock,
+      logger,
+      exportLogKv,
+      sendAdminHelp,
+      recipientsRegistry,
+    };
   };
 
   const startBroadcastFlow = async (
@@ -272,7 +321,7 @@ describe('createTelegramBroadcastCommandHandler', () => {
     });
   };
 
-  it('blocks parallel broadcast start when checkpoint is active', async () => {
+  it('blocks broadcast start when the concurrent job limit is reached', async () => {
     const { kv: progressKv } = createProgressKv();
     const checkpoint = {
       jobId: 'job-active',
@@ -294,7 +343,7 @@ describe('createTelegramBroadcastCommandHandler', () => {
     await progressKv.put('broadcast:progress:job-active', JSON.stringify({ version: 1, checkpoint }));
 
     const sendTextMock = vi.fn().mockResolvedValue({});
-    const { handler } = createHandler({ sendTextMock, progressKv });
+    const { handler } = createHandler({ sendTextMock, progressKv, maxConcurrentJobs: 1 });
 
     const response = await handler.handleCommand(createContext());
 
@@ -304,7 +353,82 @@ describe('createTelegramBroadcastCommandHandler', () => {
       text: expect.stringContaining('jobId=job-active'),
     });
     expect(response?.status).toBe(200);
-    await expect(response?.json()).resolves.toEqual({ status: 'job_active', jobId: 'job-active' });
+    await expect(response?.json()).resolves.toEqual({ status: 'job_active', jobIds: ['job-active'], limit: 1 });
+  });
+
+  it('runs several jobs side by side and addresses each of them by jobId', async () => {
+    const { kv: progressKv } = createProgressKv();
+    const baseCheckpoint = {
+      offset: 1,
+      delivered: 1,
+      failed: 0,
+      throttled429: 0,
+      total: 5,
+      text: 'newsletter',
+      textHash: 'hash-text',
+      audienceHash: 'hash-audience',
+      pool: { concurrency: 1, maxRps: 28 },
+      source: 'D1',
+      updatedAt: new Date('2025-01-01T00:00:00Z').toISOString(),
+    };
+    await progressKv.put(
+      'broadcast:progress:job-news',
+      JSON.stringify({ version: 1, checkpoint: { ...baseCheckpoint, jobId: 'job-news', status: 'running' } }),
+      { expirationTtl: 3600 },
+    );
+    await progressKv.put(
+      'broadcast:progress:job-urgent',
+      JSON.stringify({
+        version: 1,
+        checkpoint: { ...baseCheckpoint, jobId: 'job-urgent', status: 'paused', priority: 'high' },
+      }),
+      { expirationTtl: 3600 },
+    );
+
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const { handler, sendBroadcastMock } = createHandler({ sendTextMock, progressKv });
+
+    const statusResponse = await handler.handleCommand(createContext({ command: '/broadcast_status' }));
+    await expect(statusResponse?.json()).resolves.toEqual({ status: 'status', jobIds: ['job-news', 'job-urgent'] });
+    const statusText = sendTextMock.mock.lastCall?.[0].text as string;
+    expect(statusText).toContain('ℹ️ Активных рассылок: 2');
+    expect(statusText).toContain('Активный jobId=job-news (status=running, priority=normal)');
+    expect(statusText).toContain('Активный jobId=job-urgent (status=paused, priority=high)');
+
+    const pauseResponse = await handler.handleCommand(createContext({ command: '/broadcast_pause' }));
+    expect(pauseResponse?.status).toBe(400);
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: 'Активных рассылок несколько, укажите jobId: /broadcast_pause <jobId>\njob-news\njob-urgent',
+    });
+
+    const targetedResponse = await handler.handleCommand(
+      createContext({ command: '/broadcast_status', argument: 'job-urgent' }),
+    );
+    await expect(targetedResponse?.json()).resolves.toEqual({ status: 'status', jobId: 'job-urgent' });
+
+    await startBroadcastFlow(handler);
+    await withFakeTimers(async () => {
+      const collectionWaitUntil = vi.fn();
+      await handler.handleMessage(createIncomingMessage('Срочно: профилактика'), { waitUntil: collectionWaitUntil });
+      await vi.runAllTimersAsync();
+      await collectionWaitUntil.mock.calls[0]?.[0];
+    });
+
+    await handler.handleMessage(createIncomingMessage('/priority urgent'));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: expect.stringContaining('Формат: /priority high|normal|low') }),
+    );
+    await handler.handleMessage(createIncomingMessage('/priority HIGH'));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: expect.stringContaining('Приоритет рассылки: high.') }),
+    );
+
+    await expect(handler.handleMessage(createIncomingMessage('/send'))).resolves.toBe('handled');
+    expect(sendBroadcastMock).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Срочно: профилактика', priority: 'high' }),
+    );
   });
 
   it('returns status summary for active checkpoint when /broadcast_status is used', async () => {
@@ -636,6 +760,433 @@ describe('createTelegramBroadcastCommandHandler', () => {
     assertBroadcastSuccessText(sendTextMock.mock.calls.at(-1)?.[0]?.text, 'job-123');
   });
 
+  it('schedules broadcast for a later time instead of sending it', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const sendBroadcastMock = vi.fn<Parameters<SendBroadcast>, ReturnType<SendBroadcast>>();
+    const scheduledBroadcasts = {
+      create: vi.fn(async (input: Parameters<ScheduledBroadcastsStore['create']>[0]) => ({
+        ...input,
+        status: 'scheduled' as const,
+        createdAt: new Date('2026-10-19T12:00:00Z'),
+      })),
+      listUpcoming: vi.fn().mockResolvedValue([]),
+      cancel: vi.fn().mockResolvedValue(true),
+    };
+
+    const { handler } = createHandler({
+      sendTextMock,
+      sendBroadcastMock,
+      scheduledBroadcasts,
+      now: () => new Date('2026-10-19T12:00:00Z'),
+    });
+
+    await startBroadcastFlow(handler);
+
+    await withFakeTimers(async () => {
+      const collectionWaitUntil = vi.fn();
+      await handler.handleMessage(createIncomingMessage('hello everyone'), { waitUntil: collectionWaitUntil });
+      await vi.runAllTimersAsync();
+      await collectionWaitUntil.mock.calls[0]?.[0];
+    });
+
+    await expect(handler.handleMessage(createIncomingMessage('/send завтра'))).resolves.toBe('handled');
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: 'Не удалось разобрать время. Формат: /send 2026-11-01 10:00 Europe/Moscow (без часового пояса — UTC).',
+    });
+    expect(scheduledBroadcasts.create).not.toHaveBeenCalled();
+
+    await expect(
+      handler.handleMessage(createIncomingMessage('/send 2026-11-01 10:00 Europe/Moscow')),
+    ).resolves.toBe('handled');
+
+    expect(sendBroadcastMock).not.toHaveBeenCalled();
+    expect(scheduledBroadcasts.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        jobId: 'job-123',
+        text: 'hello everyone',
+        audienceMode: 'all',
+        audienceTotal: 3,
+        filters: undefined,
+        sendAt: new Date('2026-11-01T07:00:00Z'),
+        timeZone: 'Europe/Moscow',
+        requestedBy: 'admin-1',
+        adminChat: { chatId: 'chat-1', threadId: 'thread-1' },
+      }),
+    );
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: [
+        '🗓 Рассылка запланирована на 2026-11-01 10:00 Europe/Moscow: job-123',
+        'Получателей сейчас: 3.',
+        'Список: /broadcast_scheduled, отмена: /broadcast_unschedule job-123',
+      ].join('\n'),
+    });
+
+    await expect(handler.handleMessage(createIncomingMessage('/send'))).resolves.toBeUndefined();
+    expect(sendBroadcastMock).not.toHaveBeenCalled();
+  });
+
+  it('broadcasts a forwarded photo with formatted caption and url buttons', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const sendBroadcastMock = vi.fn<Parameters<SendBroadcast>, ReturnType<SendBroadcast>>().mockResolvedValue({
+      delivered: 3,
+      failed: 0,
+      deliveries: [],
+      recipients: 3,
+      durationMs: 10,
+      sample: [],
+    });
+    const { handler } = createHandler({ sendTextMock, sendBroadcastMock });
+
+    await startBroadcastFlow(handler);
+
+    await withFakeTimers(async () => {
+      const collectionWaitUntil = vi.fn();
+      await handler.handleMessage(
+        createIncomingMessage('  Скидки до пятницы', {
+          entities: [{ type: 'bold', offset: 2, length: 6 }],
+          attachments: [{ kind: 'image', fileId: 'photo-large', mimeType: 'image/jpeg', origin: 'photo' }],
+        }),
+        { waitUntil: collectionWaitUntil },
+      );
+      await vi.runAllTimersAsync();
+      await collectionWaitUntil.mock.calls[0]?.[0];
+    });
+
+    await expect(handler.handleMessage(createIncomingMessage('/button Открыть'))).resolves.toBe('handled');
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: 'Формат: /button Текст https://example.com — ссылка должна начинаться с http://, https:// или tg://.',
+    });
+
+    await handler.handleMessage(createIncomingMessage('/button Открыть каталог https://example.com/sale'));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: expect.stringContaining('Кнопка добавлена, всего кнопок: 1.') }),
+    );
+
+    await expect(handler.handleMessage(createIncomingMessage('/send'))).resolves.toBe('handled');
+
+    expect(sendBroadcastMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: 'Скидки до пятницы',
+        content: {
+          media: { kind: 'photo', fileId: 'photo-large', mimeType: 'image/jpeg' },
+          entities: [{ type: 'bold', offset: 0, length: 6 }],
+          buttons: [[{ text: 'Открыть каталог', url: 'https://example.com/sale' }]],
+        },
+      }),
+    );
+  });
+
+  it('adds A/B text variants on the confirmation step', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const { handler, sendBroadcastMock } = createHandler({ sendTextMock });
+
+    await startBroadcastFlow(handler);
+    await withFakeTimers(async () => {
+      const collectionWaitUntil = vi.fn();
+      await handler.handleMessage(createIncomingMessage('Скидки до пятницы'), { waitUntil: collectionWaitUntil });
+      await vi.runAllTimersAsync();
+      await collectionWaitUntil.mock.calls[0]?.[0];
+    });
+
+    await expect(handler.handleMessage(createIncomingMessage('/variant половина'))).resolves.toBe('handled');
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: 'Формат: /variant 30 Текст варианта — доля получателей в процентах (от 1 до 99) и текст.',
+    });
+
+    await handler.handleMessage(createIncomingMessage('/variant 30 Только до пятницы — скидки'));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: expect.stringContaining('Вариант B добавлен. Разбивка: A 70%, B 30%.') }),
+    );
+
+    await handler.handleMessage(createIncomingMessage('/variant 70 Слишком большая доля'));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: 'Основному тексту должен остаться хотя бы 1% получателей. Сейчас: A 70%, B 30%.' }),
+    );
+
+    await expect(handler.handleMessage(createIncomingMessage('/send'))).resolves.toBe('handled');
+    expect(sendBroadcastMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: 'Скидки до пятницы',
+        content: { variants: [{ id: 'B', text: 'Только до пятницы — скидки', percent: 30 }] },
+      }),
+    );
+  });
+
+  it('shows a rendered template sample for the first recipient before sending', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const profiles = {
+      loadProfiles: vi.fn<[readonly string[]], Promise<Map<string, BroadcastRecipientProfile>>>(
+        async () => new Map([['subscriber-1', { firstName: 'Алиса' }]]),
+      ),
+    };
+    const { handler } = createHandler({ sendTextMock, profiles, maxTextLength: 100 });
+
+    await startBroadcastFlow(handler);
+    await withFakeTimers(async () => {
+      const collectionWaitUntil = vi.fn();
+      await handler.handleMessage(createIncomingMessage('{first_name|Друг}, скидки до пятницы'), {
+        waitUntil: collectionWaitUntil,
+      });
+      await vi.runAllTimersAsync();
+      await collectionWaitUntil.mock.calls[0]?.[0];
+    });
+
+    expect(profiles.loadProfiles).toHaveBeenCalledWith(['subscriber-1']);
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        text: expect.stringContaining('Пример для subscriber-1:\nАлиса, скидки до пятницы'),
+      }),
+    );
+
+    await handler.handleMessage(createIncomingMessage('/variant 50 {first_name}'.padEnd(70, '!')));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: 'Текст варианта длиннее 100 символов, сократите его.' }),
+    );
+  });
+
+  it('adds manual and machine translations on the confirmation step', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const reply = vi.fn<[AiReplyInput], Promise<AiReplyResult>>(async () => ({ text: 'Discounts until Friday' }));
+    const { handler, sendBroadcastMock } = createHandler({ sendTextMock, ai: { reply } });
+
+    await startBroadcastFlow(handler);
+    await withFakeTimers(async () => {
+      const collectionWaitUntil = vi.fn();
+      await handler.handleMessage(createIncomingMessage('Скидки до пятницы'), { waitUntil: collectionWaitUntil });
+      await vi.runAllTimersAsync();
+      await collectionWaitUntil.mock.calls[0]?.[0];
+    });
+
+    await handler.handleMessage(createIncomingMessage('/translate english'));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: expect.stringContaining('Формат: /translate en Текст перевода') }),
+    );
+
+    await handler.handleMessage(createIncomingMessage('/translate uk Знижки до пʼятниці'));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: expect.stringContaining('Перевод uk добавлен. Языки: uk') }),
+    );
+
+    await handler.handleMessage(createIncomingMessage('/translate en'));
+    expect(reply).toHaveBeenCalledWith(expect.objectContaining({ text: 'Скидки до пятницы', languageCode: 'en' }));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        text: expect.stringContaining('Перевод en добавлен автоматически:\nDiscounts until Friday\n'),
+      }),
+    );
+
+    await handler.handleMessage(createIncomingMessage('/send'));
+    expect(sendBroadcastMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: 'Скидки до пятницы',
+        content: {
+          translations: [
+            { languageCode: 'uk', text: 'Знижки до пʼятниці' },
+            { languageCode: 'en', text: 'Discounts until Friday' },
+          ],
+        },
+      }),
+    );
+  });
+
+  it('sends a test copy to the admin and reports a dry run while keeping the draft', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const sendBroadcastMock = vi.fn().mockResolvedValue({
+      delivered: 1,
+      failed: 0,
+      deliveries: [],
+      recipients: 1,
+      durationMs: 5,
+      source: 'test',
+      sample: [],
+      throttled429: 0,
+    });
+    const { handler } = createHandler({ sendTextMock, sendBroadcastMock });
+
+    await startBroadcastFlow(handler);
+    await withFakeTimers(async () => {
+      const collectionWaitUntil = vi.fn();
+      await handler.handleMessage(createIncomingMessage('Скидки до пятницы'), { waitUntil: collectionWaitUntil });
+      await vi.runAllTimersAsync();
+      await collectionWaitUntil.mock.calls[0]?.[0];
+    });
+    await handler.handleMessage(createIncomingMessage('/variant 30 Только до пятницы'));
+
+    await expect(handler.handleMessage(createIncomingMessage('/send_test'))).resolves.toBe('handled');
+    expect(sendBroadcastMock).toHaveBeenCalledTimes(2);
+    expect(sendBroadcastMock).toHaveBeenNthCalledWith(1, {
+      text: 'Скидки до пятницы',
+      requestedBy: 'admin-1',
+      mode: 'test',
+      testRecipient: { chatId: 'chat-1', threadId: 'thread-1' },
+    });
+    expect(sendBroadcastMock).toHaveBeenNthCalledWith(2, expect.objectContaining({ text: 'Только до пятницы', mode: 'test' }));
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: expect.stringContaining('🧪 Варианты A, B отправлены только вам.') }),
+    );
+
+    sendBroadcastMock.mockResolvedValueOnce({
+      delivered: 0,
+      failed: 0,
+      deliveries: [],
+      recipients: 3,
+      durationMs: 0,
+      source: 'D1',
+      sample: [],
+      throttled429: 0,
+      dryRun: {
+        batches: 1,
+        batchSize: 50,
+        limitedByTextBytes: false,
+        concurrency: 4,
+        maxRps: 28,
+        estimatedDurationMs: 72,
+      },
+    });
+    await expect(handler.handleMessage(createIncomingMessage('/send_dryrun'))).resolves.toBe('handled');
+    expect(sendBroadcastMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: 'Скидки до пятницы', mode: 'dry_run', requestedBy: 'admin-1' }),
+    );
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: [
+        '🔎 Пробный прогон, Telegram не вызывался.',
+        'Получателей: 3.',
+        'Пачек: 1 по 50.',
+        'Скорость: 28 сообщений/с, потоков: 4.',
+        'Оценка времени: ~1 с без учёта ретраев.',
+        'Выберите: /send чтобы отправить всем, /new_text чтобы изменить текст или /cancel_broadcast для отмены.',
+      ].join('\n'),
+    });
+
+    await expect(handler.handleMessage(createIncomingMessage('/send'))).resolves.toBe('handled');
+    expect(sendBroadcastMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ text: 'Скидки до пятницы', content: expect.objectContaining({ variants: expect.any(Array) }) }),
+    );
+    expect(sendBroadcastMock.mock.lastCall?.[0]).not.toHaveProperty('mode');
+  });
+
+  it('rejects media captions above the caption limit with a dedicated warning', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const { handler } = createHandler({ sendTextMock });
+
+    await startBroadcastFlow(handler);
+
+    await handler.handleMessage(
+      createIncomingMessage('a'.repeat(1030), {
+        attachments: [{ kind: 'document', fileId: 'doc-1', origin: 'document' }],
+      }),
+    );
+
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: 'Подпись к медиа длиннее 1024 символов на 6, выберите: /new_text чтобы отправить другое сообщение или /cancel_broadcast для отмены.',
+    });
+  });
+
+  it('lists and cancels scheduled broadcasts for admins', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const scheduledBroadcasts = {
+      create: vi.fn(),
+      listUpcoming: vi.fn().mockResolvedValue([]),
+      cancel: vi.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false),
+    };
+    const { handler } = createHandler({ sendTextMock, scheduledBroadcasts });
+
+    const listResponse = await handler.handleCommand(createContext({ command: '/broadcast_scheduled' }));
+    expect(listResponse?.status).toBe(200);
+    expect(scheduledBroadcasts.listUpcoming).toHaveBeenCalledWith({ limit: 20 });
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: 'Запланированных рассылок нет.',
+    });
+
+    const cancelResponse = await handler.handleCommand(
+      createContext({ command: '/broadcast_unschedule', argument: 'job-9' }),
+    );
+    expect(cancelResponse?.status).toBe(200);
+    expect(scheduledBroadcasts.cancel).toHaveBeenCalledWith('job-9', 'admin-1');
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: '🗑 Отложенная рассылка job-9 отменена.',
+    });
+
+    const missingResponse = await handler.handleCommand(
+      createContext({ command: '/broadcast_unschedule', argument: 'job-9' }),
+    );
+    expect(missingResponse?.status).toBe(404);
+
+    const noIdResponse = await handler.handleCommand(createContext({ command: '/broadcast_unschedule' }));
+    expect(noIdResponse?.status).toBe(400);
+  });
+
+  it('starts recall and edit jobs for a sent broadcast', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const { handler, sendBroadcastMock } = createHandler({ sendTextMock });
+
+    const recallWaitUntil = vi.fn();
+    const recallResponse = await handler.handleCommand(
+      { ...createContext({ command: '/broadcast_recall', argument: 'job-source' }), waitUntil: recallWaitUntil },
+    );
+    expect(recallResponse?.status).toBe(200);
+    const recallBody = await recallResponse?.json();
+    expect(recallBody).toMatchObject({ status: 'started', action: 'recall', sourceJobId: 'job-source' });
+    expect(sendTextMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: `Отзыв рассылки job-source: запуск, jobId=${(recallBody as { jobId: string }).jobId}.`,
+      }),
+    );
+    expect(recallWaitUntil).toHaveBeenCalledTimes(1);
+    await recallWaitUntil.mock.calls[0]?.[0];
+    expect(sendBroadcastMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: '',
+        action: { kind: 'recall', sourceJobId: 'job-source' },
+        jobId: (recallBody as { jobId: string }).jobId,
+        requestedBy: 'admin-1',
+      }),
+    );
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: 'Отзыв рассылки job-source: готово, успешно=2, ошибки=0.',
+    });
+
+    const editResponse = await handler.handleCommand(
+      createContext({ command: '/broadcast_edit', argument: 'job-source Новый текст\nвторая строка' }),
+    );
+    expect(editResponse?.status).toBe(200);
+    expect(sendBroadcastMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        text: 'Новый текст\nвторая строка',
+        action: { kind: 'edit', sourceJobId: 'job-source' },
+      }),
+    );
+
+    const noTextResponse = await handler.handleCommand(
+      createContext({ command: '/broadcast_edit', argument: 'job-source' }),
+    );
+    expect(noTextResponse?.status).toBe(400);
+    expect(sendTextMock).toHaveBeenLastCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: 'Укажите jobId и новый текст: /broadcast_edit <jobId> <текст>',
+    });
+    expect(sendBroadcastMock).toHaveBeenCalledTimes(2);
+  });
+
   it('finalizes collecting_text entries when debounce already elapsed after restart', async () => {
     const sendTextMock = vi.fn().mockResolvedValue({});
     const sendBroadcastMock = vi.fn<Parameters<SendBroadcast>, ReturnType<SendBroadcast>>()
@@ -876,6 +1427,51 @@ describe('createTelegramBroadcastCommandHandler', () => {
     );
   });
 
+  it('selects a /segment audience and shows the matched count before step 2', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const sendBroadcastMock = vi.fn().mockResolvedValue({
+      delivered: 3,
+      failed: 0,
+      deliveries: [],
+      recipients: 3,
+      durationMs: 25,
+      source: 'D1',
+      sample: [],
+      throttled429: 0,
+    });
+    const { handler, recipientsRegistry } = createHandler({
+      sendTextMock,
+      sendBroadcastMock,
+      now: () => new Date('2026-10-19T12:00:00.000Z'),
+    });
+    const expectedFilters = {
+      segment: 'utm=src_promo lang=ru active_since=30d',
+      utmSources: ['src_promo'],
+      languageCodes: ['ru'],
+      activeSince: '2026-09-19T12:00:00.000Z',
+    };
+
+    await handler.handleCommand(createContext());
+    await handler.handleMessage(createIncomingMessage('/segment utm=src_promo lang=russian_'));
+    expect(sendTextMock).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      text: expect.stringContaining('Некорректное значение: lang=russian_'),
+    }));
+
+    await handler.handleMessage(createIncomingMessage('/segment lang=RU active_since=30d utm=src_promo'));
+    expect(recipientsRegistry.listActiveRecipients).toHaveBeenLastCalledWith(expectedFilters);
+    expect(sendTextMock).toHaveBeenNthCalledWith(3, {
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: `Сегмент utm=src_promo lang=ru active_since=30d: найдено 3 получателей.\n${buildBroadcastPromptMessage(3)}`,
+    });
+
+    await completeBroadcast(handler, 'Promo news');
+
+    expect(sendBroadcastMock).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Promo news', filters: expectedFilters }),
+    );
+  });
+
   it('handles empty audience selection', async () => {
     const sendTextMock = vi.fn().mockResolvedValue({});
     const sendBroadcastMock = vi.fn().mockResolvedValue({
@@ -1610,6 +2206,122 @@ describe('createTelegramBroadcastCommandHandler', () => {
     expect(sendBroadcastMock).not.toHaveBeenCalled();
   });
 
+  it('attaches inline controls and sends broadcast from the confirm button', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const { handler, sendBroadcastMock } = createHandler({
+      sendTextMock,
+      callbackData: signedCallbackData,
+    });
+
+    await startBroadcastFlow(handler);
+
+    const collectionWaitUntil = vi.fn();
+    await handler.handleMessage(createIncomingMessage('hello everyone'), { waitUntil: collectionWaitUntil });
+    await flushPendingChunks(collectionWaitUntil);
+
+    expect(sendTextMock).toHaveBeenNthCalledWith(3, {
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: buildAwaitingSendPromptMessage({ mode: 'all', total: 3, notFound: [] }),
+      replyMarkup: {
+        inlineKeyboard: [
+          [{ text: '✅ Отправить', callbackData: 'broadcast:send|sig' }],
+          [
+            { text: '✏️ Изменить текст', callbackData: 'broadcast:new_text|sig' },
+            { text: '❌ Отменить', callbackData: 'broadcast:cancel|sig' },
+          ],
+        ],
+      },
+    });
+
+    await expect(handler.handleCallback(createCallbackContext('broadcast:send'))).resolves.toBeUndefined();
+
+    expect(sendBroadcastMock).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'hello everyone', requestedBy: 'admin-1', jobId: 'job-123' }),
+    );
+    expect(sendTextMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        replyMarkup: {
+          inlineKeyboard: [
+            [
+              { text: '⏸ Пауза', callbackData: 'broadcast:pause:job-123|sig' },
+              { text: '▶️ Продолжить', callbackData: 'broadcast:resume:job-123|sig' },
+            ],
+            [
+              { text: 'ℹ️ Статус', callbackData: 'broadcast:status:job-123|sig' },
+              { text: '⏹ Завершить', callbackData: 'broadcast:end:job-123|sig' },
+            ],
+          ],
+        },
+      }),
+    );
+  });
+
+  it('answers stale confirm button when no broadcast session is pending', async () => {
+    const { handler, sendBroadcastMock, sendTextMock } = createHandler({ callbackData: signedCallbackData });
+
+    await expect(handler.handleCallback(createCallbackContext('broadcast:send'))).resolves.toEqual({
+      text: 'Сценарий рассылки уже завершён или истёк. Запустите /broadcast заново.',
+    });
+    expect(sendBroadcastMock).not.toHaveBeenCalled();
+    expect(sendTextMock).not.toHaveBeenCalled();
+  });
+
+  it('runs job commands from inline buttons for admins only', async () => {
+    const { kv: progressKv } = createProgressKv();
+    const checkpoint = {
+      jobId: 'job-status',
+      status: 'paused',
+      offset: 3,
+      delivered: 2,
+      failed: 1,
+      throttled429: 0,
+      total: 10,
+      text: 'paused run',
+      textHash: 'hash-text',
+      audienceHash: 'hash-audience',
+      pool: { concurrency: 2, maxRps: 28 },
+      filters: undefined,
+      source: 'D1',
+      updatedAt: new Date('2025-01-01T00:00:00Z').toISOString(),
+      ttlSeconds: 60,
+      expiresAt: new Date('2025-01-01T00:01:00Z').toISOString(),
+    };
+
+    await progressKv.put('broadcast:progress:job-status', JSON.stringify({ version: 1, checkpoint }), {
+      expirationTtl: 60,
+    });
+
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const { handler } = createHandler({
+      sendTextMock,
+      progressKv,
+      callbackData: signedCallbackData,
+      now: () => new Date('2025-01-01T00:00:10Z'),
+    });
+
+    await expect(
+      handler.handleCallback(createCallbackContext('broadcast:status:job-status')),
+    ).resolves.toBeUndefined();
+
+    expect(sendTextMock).toHaveBeenCalledWith({
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+      text: expect.stringContaining('ℹ️ Статус рассылки'),
+      replyMarkup: expect.objectContaining({ inlineKeyboard: expect.any(Array) }),
+    });
+
+    const { handler: guestHandler } = createHandler({
+      isAdmin: false,
+      progressKv,
+      callbackData: signedCallbackData,
+    });
+
+    await expect(
+      guestHandler.handleCallback(createCallbackContext('broadcast:pause:job-status')),
+    ).resolves.toEqual({ text: 'Управлять рассылкой могут только администраторы.' });
+  });
+
   it('ignores incoming messages when there is no active broadcast session', async () => {
     const { handler, sendBroadcastMock } = createHandler();
 
@@ -1955,6 +2667,15 @@ describe('worker integration for broadcast command', () => {
       chatId: 'chat-1',
       threadId: '77',
       text: buildAwaitingSendPromptMessage({ mode: 'all', total: 1, notFound: [] }),
+      replyMarkup: {
+        inlineKeyboard: [
+          [{ text: '✅ Отправить', callbackData: expect.stringMatching(/^broadcast:send\|/) }],
+          [
+            { text: '✏️ Изменить текст', callbackData: expect.stringMatching(/^broadcast:new_text\|/) },
+            { text: '❌ Отменить', callbackData: expect.stringMatching(/^broadcast:cancel\|/) },
+          ],
+        ],
+      },
     });
 
     const sendUpdate = {
@@ -2001,6 +2722,7 @@ describe('worker integration for broadcast command', () => {
       chatId: 'chat-1',
       threadId: '77',
       text: expect.any(String),
+      replyMarkup: expect.objectContaining({ inlineKeyboard: expect.any(Array) }),
     });
 
     assertBroadcastSuccessText(messaging.sendText.mock.calls.at(-1)?.[0]?.text);
@@ -2192,6 +2914,15 @@ describe('worker integration for broadcast command', () => {
       chatId: 'chat-1',
       threadId: undefined,
       text: buildAwaitingSendPromptMessage({ mode: 'all', total: 1, notFound: [] }),
+      replyMarkup: {
+        inlineKeyboard: [
+          [{ text: '✅ Отправить', callbackData: expect.stringMatching(/^broadcast:send\|/) }],
+          [
+            { text: '✏️ Изменить текст', callbackData: expect.stringMatching(/^broadcast:new_text\|/) },
+            { text: '❌ Отменить', callbackData: expect.stringMatching(/^broadcast:cancel\|/) },
+          ],
+        ],
+      },
     });
 
     module.__internal.clearRouterCache(env as never);
@@ -2242,6 +2973,7 @@ describe('worker integration for broadcast command', () => {
       chatId: 'chat-1',
       threadId: undefined,
       text: expect.any(String),
+      replyMarkup: expect.objectContaining({ inlineKeyboard: expect.any(Array) }),
     });
 
     assertBroadcastSuccessText(messaging.sendText.mock.calls.at(-1)?.[0]?.text);
@@ -0,0 +1,173 @@
+import { json } from '../../shared';
+import { formatCsvValue } from '../export/csv-export';
+import {
+  type BroadcastDeliveriesListOptions,
+  type BroadcastDeliveriesStore,
+  type BroadcastDeliveryRecord,
+  isBroadcastDeliveryStatus,
+} from './broadcast-deliveries-store';
+
+interface Logger {
+  info?(message: string, details?: Record<string, unknown>): void;
+  warn?(message: string, details?: Record<string, unknown>): void;
+  error?(message: string, details?: Record<string, unknown>): void;
+}
+
+export interface CreateBroadcastDeliveriesAdminHandlersOptions {
+  store: Pick<BroadcastDeliveriesStore, 'list'> & Partial<Pick<BroadcastDeliveriesStore, 'listEngagement'>>;
+  logger?: Logger;
+}
+
+export interface BroadcastDeliveriesAdminHandlers {
+  list: (request: Request, jobId: string) => Promise<Response>;
+}
+
+const CSV_HEADER = [
+  'id',
+  'job_id',
+  'chat_id',
+  'thread_id',
+  'status',
+  'message_id',
+  'error_code',
+  'error',
+  'attempts',
+  'sent_at',
+  'variant',
+];
+
+const serializeDelivery = (item: BroadcastDeliveryRecord) => ({
+  ...item,
+  sentAt: item.sentAt.toISOString(),
+});
+
+const loadEngagement = async (
+  options: CreateBroadcastDeliveriesAdminHandlersOptions,
+  jobId: string,
+) => {
+  if (!options.store.listEngagement) {
+    return undefined;
+  }
+
+  try {
+    const [engagement] = await options.store.listEngagement({ jobId });
+    return engagement
+      ? { ...engagement, lastSentAt: engagement.lastSentAt.toISOString() }
+      : null;
+  } catch (error) {
+    options.logger?.warn?.('failed to load broadcast engagement', {
+      jobId,
+      error: error instanceof Error ? { name: error.name, message: error.message } : String(error),
+    });
+    return null;
+  }
+};
+
+const toCsvLine = (item: BroadcastDeliveryRecord): string =>
+  [
+    item.id,
+    item.jobId,
+    item.chatId,
+    item.threadId,
+    item.status,
+    item.messageId,
+    item.errorCode,
+    item.error,
+    item.attempts,
+    item.sentAt,
+    item.variant,
+  ]
+    .map(formatCsvValue)
+    .join(',');
+
+const parseListOptions = (
+  url: URL,
+): { ok: true; options: BroadcastDeliveriesListOptions } | { ok: false; error: string } => {
+  const statusRaw = url.searchParams.get('status')?.trim();
+  const status = isBroadcastDeliveryStatus(statusRaw) ? statusRaw : undefined;
+  if (statusRaw && !status) {
+    return { ok: false, error: 'status must be delivered, failed, recalled or edited' };
+  }
+
+  const cursorRaw = url.searchParams.get('cursor')?.trim();
+  const cursor = cursorRaw ? Number(cursorRaw) : undefined;
+  if (cursor !== undefined && (!Number.isSafeInteger(cursor) || cursor < 0)) {
+    return { ok: false, error: 'Invalid cursor' };
+  }
+
+  const limitRaw = url.searchParams.get('limit');
+  const limit = limitRaw ? Number.parseInt(limitRaw, 10) : undefined;
+  const chatId = url.searchParams.get('chatId')?.trim();
+
+  return {
+    ok: true,
+    options: {
+      ...(status ? { status } : {}),
+      ...(chatId ? { chatId } : {}),
+      ...(limit && Number.isFinite(limit) && limit > 0 ? { limit } : {}),
+      ...(cursor !== undefined ? { cursor } : {}),
+    },
+  };
+};
+
+/**
+ * `GET /admin/broadcast/jobs/<jobId>/deliveries[?status=&chatId=&limit=&cursor=&format=csv]`.
+ * JSON дополняется вовлечённостью задачи (`engagement`), CSV — заголовками
+ * `x-broadcast-reply-rate` и `x-broadcast-block-rate`.
+ */
+export const createBroadcastDeliveriesAdminHandlers = (
+  options: CreateBroadcastDeliveriesAdminHandlersOptions,
+): BroadcastDeliveriesAdminHandlers => ({
+  list: async (request, jobId) => {
+    const normalizedJobId = jobId.trim();
+    if (!normalizedJobId) {
+      return json({ error: 'jobId is required' }, { status: 400 });
+    }
+
+    const url = new URL(request.url);
+    const parsed = parseListOptions(url);
+    if (!parsed.ok) {
+      return json({ error: parsed.error }, { status: 400 });
+    }
+
+    let page: Awaited<ReturnType<BroadcastDeliveriesStore['list']>>;
+    try {
+      page = await options.store.list(normalizedJobId, parsed.options);
+    } catch (error) {
+      options.logger?.error?.('failed to list broadcast deliveries', {
+        jobId: normalizedJobId,
+        error: error instanceof Error ? { name: error.name, message: error.message } : String(error),
+      });
+      return json({ error: 'Failed to fetch deliveries' }, { status: 500 });
+    }
+
+    const engagement = await loadEngagement(options, normalizedJobId);
+
+    if (url.searchParams.get('format')?.toLowerCase() === 'csv') {
+      const lines = [CSV_HEADER.map(formatCsvValue).join(','), ...page.items.map(toCsvLine)];
+      const headers = new Headers({
+        'content-type': 'text/csv; charset=utf-8',
+        'cache-control': 'no-store',
+        'content-disposition': `attachment; filename="broadcast-${encodeURIComponent(normalizedJobId)}-deliveries.csv"`,
+      });
+      if (page.nextCursor !== undefined) {
+        headers.set('x-next-cursor', String(page.nextCursor));
+      }
+
+      if (engagement) {
+        headers.set('x-broadcast-reply-rate', String(engagement.replyRate));
+        headers.set('x-broadcast-block-rate', String(engagement.blockRate));
+      }
+
+      return new Response(`\uFEFF${lines.join('\r\n')}\r\n`, { status: 200, headers });
+    }
+
+    return json({
+      jobId: normalizedJobId,
+      items: page.items.map(serializeDelivery),
+      count: page.items.length,
+      ...(page.nextCursor !== undefined ? { nextCursor: page.nextCursor } : {}),
+      ...(engagement !== undefined ? { engagement } : {}),
+    });
+  },
+});
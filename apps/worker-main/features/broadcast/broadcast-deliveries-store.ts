@@ -0,0 +1,432 @@
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  all<T = unknown>(): Promise<{ results: T[] }>;
+  run(): Promise<unknown>;
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+import type { OutgoingMediaKind } from '../../ports';
+
+/**
+ * `recalled` и `edited` пишут задачи отзыва и правки: сообщение у них чужое
+ * (исходной рассылки), поэтому атрибуция ответов и вовлечённость учитывают
+ * только `delivered`.
+ */
+export type BroadcastDeliveryStatus = 'delivered' | 'failed' | 'recalled' | 'edited';
+
+const DELIVERY_STATUSES: ReadonlySet<string> = new Set<BroadcastDeliveryStatus>([
+  'delivered',
+  'failed',
+  'recalled',
+  'edited',
+]);
+
+export const isBroadcastDeliveryStatus = (value: unknown): value is BroadcastDeliveryStatus =>
+  typeof value === 'string' && DELIVERY_STATUSES.has(value);
+
+export interface BroadcastDeliveryLogEntry {
+  jobId: string;
+  chatId: string;
+  threadId?: string;
+  status: BroadcastDeliveryStatus;
+  messageId?: string;
+  /**
+   * HTTP-код ответа Telegram, если он известен.
+   */
+  errorCode?: number;
+  error?: string;
+  attempts: number;
+  sentAt: Date;
+  /**
+   * Вариант текста A/B-теста, который получил адресат.
+   */
+  variant?: string;
+  /**
+   * Тип медиа, если рассылка ушла фото или документом: правка меняет у таких
+   * сообщений подпись, а не текст.
+   */
+  mediaKind?: OutgoingMediaKind;
+}
+
+/**
+ * Журнал доставок, куда отправитель рассылок сбрасывает результаты после
+ * каждой пачки получателей.
+ */
+export interface BroadcastDeliveryLog {
+  record(entries: readonly BroadcastDeliveryLogEntry[]): Promise<void>;
+  /**
+   * Доставленные сообщения задачи в порядке отправки — для отзыва и правки.
+   */
+  listDeliveredMessages?(jobId: string): Promise<BroadcastDeliveredMessage[]>;
+}
+
+export interface BroadcastDeliveredMessage {
+  chatId: string;
+  threadId?: string;
+  messageId: string;
+  mediaKind?: OutgoingMediaKind;
+}
+
+export interface BroadcastDeliveryRecord extends BroadcastDeliveryLogEntry {
+  id: number;
+}
+
+export interface BroadcastDeliveriesListOptions {
+  status?: BroadcastDeliveryStatus;
+  chatId?: string;
+  limit?: number;
+  /**
+   * `id` последней записи предыдущей страницы.
+   */
+  cursor?: number;
+}
+
+export interface BroadcastDeliveriesPage {
+  items: BroadcastDeliveryRecord[];
+  nextCursor?: number;
+}
+
+export interface BroadcastReplyTargetQuery {
+  chatId: string;
+  /**
+   * Сообщение бота, на которое ответил пользователь.
+   */
+  replyToMessageId?: string;
+  /**
+   * Начало окна: последняя доставка не раньше этого момента.
+   */
+  since: Date;
+  until: Date;
+}
+
+export interface BroadcastReplyTarget {
+  jobId: string;
+  variant?: string;
+  /**
+   * `reply` — ответ на сообщение рассылки, `window` — сообщение в окне после доставки.
+   */
+  via: 'reply' | 'window';
+}
+
+/**
+ * Вовлечённость задачи: сколько адресатов ответили и сколько заблокировали
+ * бота после доставки. Доли считаются от доставленных сообщений.
+ */
+export interface BroadcastJobEngagement {
+  jobId: string;
+  delivered: number;
+  replied: number;
+  blockedAfterSend: number;
+  replyRate: number;
+  blockRate: number;
+  lastSentAt: Date;
+}
+
+export interface BroadcastEngagementListOptions {
+  jobId?: string;
+  /**
+   * Сколько последних задач вернуть, если `jobId` не указан.
+   */
+  limit?: number;
+}
+
+export interface BroadcastDeliveriesStore extends BroadcastDeliveryLog {
+  listDeliveredMessages(jobId: string): Promise<BroadcastDeliveredMessage[]>;
+  list(jobId: string, options?: BroadcastDeliveriesListOptions): Promise<BroadcastDeliveriesPage>;
+  /**
+   * Рассылка, к которой относится входящее сообщение: сначала по
+   * `reply_to_message`, затем по последней доставке в окне.
+   */
+  findReplyTarget(query: BroadcastReplyTargetQuery): Promise<BroadcastReplyTarget | undefined>;
+  /**
+   * Время последней доставки любой рассылки; `undefined`, если доставок не было.
+   */
+  findLatestDeliveryAt(): Promise<Date | undefined>;
+  listEngagement(options?: BroadcastEngagementListOptions): Promise<BroadcastJobEngagement[]>;
+}
+
+export interface CreateBroadcastDeliveriesStoreOptions {
+  db: D1Database;
+}
+
+interface BroadcastDeliveryRow {
+  id: number;
+  job_id: string;
+  chat_id: string;
+  thread_id: string | null;
+  status: string;
+  message_id: string | null;
+  error_code: number | null;
+  error: string | null;
+  attempts: number;
+  sent_at: number;
+  variant: string | null;
+  media_kind: string | null;
+}
+
+interface BroadcastEngagementRow {
+  job_id: string;
+  delivered: number;
+  replied: number | null;
+  blocked: number | null;
+  last_sent_at: number;
+}
+
+export const DEFAULT_DELIVERIES_PAGE_LIMIT = 100;
+export const DEFAULT_ENGAGEMENT_JOBS_LIMIT = 10;
+const MAX_ENGAGEMENT_JOBS_LIMIT = 100;
+export const MAX_DELIVERIES_PAGE_LIMIT = 1000;
+
+const INSERT_COLUMNS = [
+  'job_id',
+  'chat_id',
+  'thread_id',
+  'status',
+  'message_id',
+  'error_code',
+  'error',
+  'attempts',
+  'sent_at',
+  'variant',
+  'media_kind',
+] as const;
+
+// D1 принимает не больше 100 параметров на запрос.
+const D1_MAX_BOUND_PARAMETERS = 100;
+const ROWS_PER_INSERT = Math.floor(D1_MAX_BOUND_PARAMETERS / INSERT_COLUMNS.length);
+const MAX_ERROR_LENGTH = 300;
+
+const toEpochSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+const toBindings = (entry: BroadcastDeliveryLogEntry): unknown[] => [
+  entry.jobId,
+  entry.chatId,
+  entry.threadId ?? null,
+  entry.status,
+  entry.messageId ?? null,
+  entry.errorCode ?? null,
+  entry.error ? entry.error.slice(0, MAX_ERROR_LENGTH) : null,
+  entry.attempts,
+  toEpochSeconds(entry.sentAt),
+  entry.variant ?? null,
+  entry.mediaKind ?? null,
+];
+
+const toRate = (count: number, total: number): number =>
+  total > 0 ? Math.round((count / total) * 10_000) / 10_000 : 0;
+
+const mapEngagementRow = (row: BroadcastEngagementRow): BroadcastJobEngagement => {
+  const delivered = Number(row.delivered);
+  const replied = Number(row.replied ?? 0);
+  const blockedAfterSend = Number(row.blocked ?? 0);
+
+  return {
+    jobId: row.job_id,
+    delivered,
+    replied,
+    blockedAfterSend,
+    replyRate: toRate(replied, delivered),
+    blockRate: toRate(blockedAfterSend, delivered),
+    lastSentAt: new Date(Number(row.last_sent_at) * 1000),
+  };
+};
+
+// Ответ — сообщение пользователя, помеченное задачей при приёме; блокировка —
+// отметка `blocked_at`, поставленная не раньше доставки.
+const ENGAGEMENT_SELECT = `
+  SELECT
+    d.job_id,
+    COUNT(*) AS delivered,
+    SUM(CASE WHEN EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.chat_id = d.chat_id
+        AND m.role = 'user'
+        AND json_valid(m.metadata)
+        AND json_extract(m.metadata, '$.broadcastJobId') = d.job_id
+    ) THEN 1 ELSE 0 END) AS replied,
+    SUM(CASE WHEN EXISTS (
+      SELECT 1 FROM broadcast_recipients br
+      WHERE br.chat_id = d.chat_id AND br.blocked_at >= d.sent_at
+    ) THEN 1 ELSE 0 END) AS blocked,
+    MAX(d.sent_at) AS last_sent_at
+  FROM broadcast_deliveries d`;
+
+const mapRow = (row: BroadcastDeliveryRow): BroadcastDeliveryRecord => ({
+  id: Number(row.id),
+  jobId: row.job_id,
+  chatId: String(row.chat_id),
+  ...(row.thread_id ? { threadId: String(row.thread_id) } : {}),
+  status: isBroadcastDeliveryStatus(row.status) ? row.status : 'failed',
+  ...(row.message_id ? { messageId: String(row.message_id) } : {}),
+  ...(row.error_code === null || row.error_code === undefined ? {} : { errorCode: Number(row.error_code) }),
+  ...(row.error ? { error: row.error } : {}),
+  attempts: Number(row.attempts),
+  sentAt: new Date(Number(row.sent_at) * 1000),
+  ...(row.variant ? { variant: row.variant } : {}),
+  ...(row.media_kind === 'photo' || row.media_kind === 'document' ? { mediaKind: row.media_kind } : {}),
+});
+
+export const createBroadcastDeliveriesStore = (
+  options: CreateBroadcastDeliveriesStoreOptions,
+): BroadcastDeliveriesStore => ({
+  async record(entries) {
+    for (let start = 0; start < entries.length; start += ROWS_PER_INSERT) {
+      const chunk = entries.slice(start, start + ROWS_PER_INSERT);
+      const placeholders = chunk.map(() => `(${INSERT_COLUMNS.map(() => '?').join(', ')})`).join(', ');
+
+      await options.db
+        .prepare(`INSERT INTO broadcast_deliveries (${INSERT_COLUMNS.join(', ')}) VALUES ${placeholders}`)
+        .bind(...chunk.flatMap(toBindings))
+        .run();
+    }
+  },
+
+  async listDeliveredMessages(jobId) {
+    const { results } = await options.db
+      .prepare(
+        `SELECT chat_id, thread_id, message_id, media_kind
+         FROM broadcast_deliveries
+         WHERE job_id = ? AND status = 'delivered' AND message_id IS NOT NULL
+         ORDER BY id ASC`,
+      )
+      .bind(jobId)
+      .all<Pick<BroadcastDeliveryRow, 'chat_id' | 'thread_id' | 'message_id' | 'media_kind'>>();
+
+    return results.map((row) => ({
+      chatId: String(row.chat_id),
+      ...(row.thread_id ? { threadId: String(row.thread_id) } : {}),
+      messageId: String(row.message_id),
+      ...(row.media_kind === 'photo' || row.media_kind === 'document' ? { mediaKind: row.media_kind } : {}),
+    }));
+  },
+
+  async list(jobId, listOptions = {}) {
+    const limit = Math.min(
+      MAX_DELIVERIES_PAGE_LIMIT,
+      Math.max(1, Math.floor(listOptions.limit ?? DEFAULT_DELIVERIES_PAGE_LIMIT)),
+    );
+    const clauses = ['job_id = ?'];
+    const bindings: unknown[] = [jobId];
+
+    if (listOptions.status) {
+      clauses.push('status = ?');
+      bindings.push(listOptions.status);
+    }
+
+    if (listOptions.chatId) {
+      clauses.push('chat_id = ?');
+      bindings.push(listOptions.chatId);
+    }
+
+    if (typeof listOptions.cursor === 'number') {
+      clauses.push('id > ?');
+      bindings.push(listOptions.cursor);
+    }
+
+    const { results } = await options.db
+      .prepare(
+        `SELECT id, ${INSERT_COLUMNS.join(', ')}
+         FROM broadcast_deliveries
+         WHERE ${clauses.join(' AND ')}
+         ORDER BY id ASC
+         LIMIT ?`,
+      )
+      .bind(...bindings, limit + 1)
+      .all<BroadcastDeliveryRow>();
+
+    const items = results.slice(0, limit).map(mapRow);
+    const hasMore = results.length > limit;
+
+    return {
+      items,
+      ...(hasMore && items.length > 0 ? { nextCursor: items[items.length - 1].id } : {}),
+    };
+  },
+
+  async findReplyTarget(query) {
+    type TargetRow = Pick<BroadcastDeliveryRow, 'job_id' | 'variant'>;
+    const toTarget = (row: TargetRow | undefined, via: BroadcastReplyTarget['via']) =>
+      row ? { jobId: row.job_id, ...(row.variant ? { variant: row.variant } : {}), via } : undefined;
+
+    if (query.replyToMessageId) {
+      const { results } = await options.db
+        .prepare(
+          `SELECT job_id, variant
+           FROM broadcast_deliveries
+           WHERE chat_id = ? AND message_id = ? AND status = 'delivered'
+           ORDER BY id DESC
+           LIMIT 1`,
+        )
+        .bind(query.chatId, query.replyToMessageId)
+        .all<TargetRow>();
+
+      const target = toTarget(results[0], 'reply');
+      if (target) {
+        return target;
+      }
+    }
+
+    const { results } = await options.db
+      .prepare(
+        `SELECT job_id, variant
+         FROM broadcast_deliveries
+         WHERE chat_id = ? AND status = 'delivered' AND sent_at BETWEEN ? AND ?
+         ORDER BY sent_at DESC, id DESC
+         LIMIT 1`,
+      )
+      .bind(query.chatId, toEpochSeconds(query.since), toEpochSeconds(query.until))
+      .all<TargetRow>();
+
+    return toTarget(results[0], 'window');
+  },
+
+  async findLatestDeliveryAt() {
+    const { results } = await options.db
+      .prepare(
+        `SELECT sent_at
+         FROM broadcast_deliveries
+         WHERE status = 'delivered'
+         ORDER BY id DESC
+         LIMIT 1`,
+      )
+      .all<Pick<BroadcastDeliveryRow, 'sent_at'>>();
+
+    return results[0] ? new Date(results[0].sent_at * 1000) : undefined;
+  },
+
+  async listEngagement(listOptions = {}) {
+    if (listOptions.jobId) {
+      const { results } = await options.db
+        .prepare(`${ENGAGEMENT_SELECT}
+          WHERE d.job_id = ? AND d.status = 'delivered'
+          GROUP BY d.job_id`)
+        .bind(listOptions.jobId)
+        .all<BroadcastEngagementRow>();
+
+      return results.map(mapEngagementRow);
+    }
+
+    const limit = Math.min(
+      MAX_ENGAGEMENT_JOBS_LIMIT,
+      Math.max(1, Math.floor(listOptions.limit ?? DEFAULT_ENGAGEMENT_JOBS_LIMIT)),
+    );
+    const { results } = await options.db
+      .prepare(`${ENGAGEMENT_SELECT}
+        WHERE d.status = 'delivered' AND d.job_id IN (
+          SELECT job_id FROM broadcast_deliveries
+          WHERE status = 'delivered'
+          GROUP BY job_id
+          ORDER BY MAX(id) DESC
+          LIMIT ?
+        )
+        GROUP BY d.job_id
+        ORDER BY MAX(d.id) DESC`)
+      .bind(limit)
+      .all<BroadcastEngagementRow>();
+
+    return results.map(mapEngagementRow);
+  },
+});
@@ -1,4 +1,5 @@
 import { json } from '../../shared';
+import type { BroadcastDeliveriesStore, BroadcastJobEngagement } from './broadcast-deliveries-store';
 import type { BroadcastTelemetry } from './broadcast-telemetry';
 import type { BroadcastProgressCheckpoint, BroadcastProgressKvNamespace } from './minimal-broadcast-service';
 import { listBroadcastCheckpoints } from './minimal-broadcast-service';
@@ -6,9 +7,18 @@ import { listBroadcastCheckpoints } from './minimal-broadcast-service';
 export interface CreateBroadcastDiagRouteOptions {
   telemetry?: BroadcastTelemetry;
   progressKv?: BroadcastProgressKvNamespace;
+  /**
+   * Журнал доставок для поля `engagement`: ответы и блокировки по последним задачам.
+   */
+  deliveries?: Pick<BroadcastDeliveriesStore, 'listEngagement'>;
   now?: () => number;
 }
 
+const serializeEngagement = (engagement: BroadcastJobEngagement) => ({
+  ...engagement,
+  lastSentAt: engagement.lastSentAt.toISOString(),
+});
+
 export const createBroadcastDiagRoute = (
   options: CreateBroadcastDiagRouteOptions,
 ) => async (request: Request): Promise<Response> => {
@@ -47,6 +57,7 @@ export const createBroadcastDiagRoute = (
       jobId: checkpoint.jobId,
       status: checkpoint.status,
       reason: checkpoint.reason ?? null,
+      action: checkpoint.action ?? null,
       delivered: checkpoint.delivered,
       failed: checkpoint.failed,
       throttled429: checkpoint.throttled429,
@@ -75,6 +86,16 @@ export const createBroadcastDiagRoute = (
   }
 
   const progress = buildProgress(mostRecentCheckpoint);
+  let engagement: ReturnType<typeof serializeEngagement>[] | null | undefined;
+  if (options.deliveries) {
+    try {
+      engagement = (await options.deliveries.listEngagement()).map(serializeEngagement);
+    } catch (error) {
+      // Диагностика остаётся доступной, даже если D1 не ответил.
+      engagement = null;
+    }
+  }
+
   const baseSnapshot = snapshot ?? {
     status: 'ok' as const,
     feature: 'broadcast_metrics' as const,
@@ -83,5 +104,5 @@ export const createBroadcastDiagRoute = (
     history: [],
   };
 
-  return json({ ...baseSnapshot, progress });
+  return json({ ...baseSnapshot, progress, ...(engagement !== undefined ? { engagement } : {}) });
 };
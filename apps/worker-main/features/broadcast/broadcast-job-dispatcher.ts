@@ -0,0 +1,118 @@
+export type BroadcastPriority = 'high' | 'normal' | 'low';
+
+export const DEFAULT_BROADCAST_PRIORITY: BroadcastPriority = 'normal';
+
+/**
+ * Доли общего лимита скорости: срочная задача получает вдвое больше слотов,
+ * чем обычная, фоновая — вдвое меньше.
+ */
+export const BROADCAST_PRIORITY_WEIGHTS: Readonly<Record<BroadcastPriority, number>> = {
+  high: 4,
+  normal: 2,
+  low: 1,
+};
+
+export const isBroadcastPriority = (value: unknown): value is BroadcastPriority =>
+  value === 'high' || value === 'normal' || value === 'low';
+
+export interface BroadcastJobLane {
+  /**
+   * Ждёт слот общего лимитера для одной отправки этой задачи.
+   */
+  acquire(): Promise<void>;
+  release(): void;
+}
+
+export interface BroadcastJobDispatcher {
+  register(priority?: BroadcastPriority): BroadcastJobLane;
+}
+
+export interface CreateBroadcastJobDispatcherOptions {
+  maxRps: number;
+  wait: (ms: number) => Promise<void>;
+  now: () => number;
+}
+
+interface LaneState {
+  weight: number;
+  virtualTime: number;
+  waiters: Array<() => void>;
+}
+
+/**
+ * Общий для всех задач лимитер отправок. Слоты раздаются по взвешенной
+ * справедливой очереди: следующий слот получает ожидающая задача с наименьшим
+ * «виртуальным временем» (выданные слоты, делённые на вес приоритета).
+ */
+export const createBroadcastJobDispatcher = (
+  options: CreateBroadcastJobDispatcherOptions,
+): BroadcastJobDispatcher => {
+  const intervalMs = Math.ceil(1000 / Math.max(1, Math.floor(options.maxRps)));
+  const lanes = new Set<LaneState>();
+  let nextSlotAt = 0;
+  let pumping = false;
+
+  const hasWaiters = () => Array.from(lanes).some((lane) => lane.waiters.length > 0);
+
+  const pickLane = (): LaneState | undefined => {
+    let picked: LaneState | undefined;
+    for (const lane of lanes) {
+      if (lane.waiters.length > 0 && (!picked || lane.virtualTime < picked.virtualTime)) {
+        picked = lane;
+      }
+    }
+
+    return picked;
+  };
+
+  const pump = async () => {
+    pumping = true;
+    try {
+      while (hasWaiters()) {
+        const current = options.now();
+        if (nextSlotAt > current) {
+          await options.wait(nextSlotAt - current);
+        }
+
+        const lane = pickLane();
+        if (!lane) {
+          break;
+        }
+
+        lane.virtualTime += 1 / lane.weight;
+        nextSlotAt = Math.max(options.now(), nextSlotAt) + intervalMs;
+        lane.waiters.shift()?.();
+      }
+    } finally {
+      pumping = false;
+    }
+  };
+
+  return {
+    register: (priority = DEFAULT_BROADCAST_PRIORITY) => {
+      // Новая задача встаёт вровень с уже идущими, а не забирает все слоты,
+      // пока «догоняет» их по числу отправок.
+      const activeTimes = Array.from(lanes, (lane) => lane.virtualTime);
+      const lane: LaneState = {
+        weight: BROADCAST_PRIORITY_WEIGHTS[priority],
+        virtualTime: activeTimes.length > 0 ? Math.min(...activeTimes) : 0,
+        waiters: [],
+      };
+      lanes.add(lane);
+
+      return {
+        acquire: () =>
+          new Promise<void>((resolve) => {
+            lane.waiters.push(resolve);
+            if (!pumping) {
+              void pump();
+            }
+          }),
+        release: () => {
+          lanes.delete(lane);
+          lane.waiters.splice(0).forEach((resolve) => resolve());
+        },
+      };
+    },
+  };
+};
@@ -1,18 +1,85 @@
+import type {
+  InlineKeyboardMarkup,
+  MessageParseMode,
+  MessageTextEntity,
+  OutgoingMediaKind,
+} from '../../ports';
 import { getVisibleTextLength } from '../../shared';
+import { expandBroadcastTemplateWorstCase } from './broadcast-templates';
 
 export interface BroadcastAudienceFilter {
   readonly chatIds?: readonly string[];
   readonly userIds?: readonly string[];
   readonly languageCodes?: readonly string[];
+  readonly utmSources?: readonly string[];
+  /**
+   * ISO-время: в аудиторию попадают только писавшие боту не раньше него.
+   */
+  readonly activeSince?: string;
+  /**
+   * Запись сегмента для логов и телеметрии, на отбор не влияет.
+   */
+  readonly segment?: string;
 }
 
-export interface BroadcastMessagePayload {
+export interface BroadcastMedia {
+  readonly kind: OutgoingMediaKind;
+  /**
+   * `file_id` исходного сообщения администратора: файл не скачивается и
+   * переиспользуется для каждого получателя.
+   */
+  readonly fileId: string;
+  readonly fileName?: string;
+  readonly mimeType?: string;
+}
+
+export interface BroadcastUrlButton {
+  readonly text: string;
+  readonly url: string;
+}
+
+/**
+ * Альтернативный текст для A/B-теста. Получает `percent` процентов аудитории,
+ * остальное достаётся основному тексту (вариант `A`); медиа и кнопки общие,
+ * разметка `entities` относится только к основному тексту.
+ */
+export interface BroadcastTextVariant {
+  readonly id: string;
+  readonly text: string;
+  readonly percent: number;
+}
+
+/**
+ * Текст рассылки на языке `languageCode` (основной подтег, `en`, `uk`).
+ * Получатели с этим языком получают его вместо основного текста и вне A/B-теста;
+ * разметка `entities`, как и у вариантов, к переводу не применяется.
+ */
+export interface BroadcastTranslation {
+  readonly languageCode: string;
+  readonly text: string;
+}
+
+/**
+ * Всё, что отличает рассылку от простого текста. Сохраняется в черновике,
+ * чекпоинте и отложенном задании без изменений; текст при наличии `media`
+ * становится подписью.
+ */
+export interface BroadcastContent {
+  readonly media?: BroadcastMedia;
+  readonly entities?: ReadonlyArray<MessageTextEntity>;
+  readonly parseMode?: MessageParseMode;
+  readonly buttons?: ReadonlyArray<ReadonlyArray<BroadcastUrlButton>>;
+  readonly variants?: ReadonlyArray<BroadcastTextVariant>;
+  readonly translations?: ReadonlyArray<BroadcastTranslation>;
+}
+
+export interface BroadcastMessagePayload extends BroadcastContent {
   readonly text: string;
   readonly filters?: BroadcastAudienceFilter;
   readonly metadata?: Record<string, unknown>;
 }
 
-export interface BroadcastPayloadDraft {
+export interface BroadcastPayloadDraft extends BroadcastContent {
   text: string;
   filters?: BroadcastAudienceFilter;
   metadata?: Record<string, unknown>;
@@ -20,9 +87,14 @@ export interface BroadcastPayloadDraft {
 
 export interface BuildBroadcastPayloadOptions {
   maxTextLength?: number;
+  maxCaptionLength?: number;
 }
 
 export const DEFAULT_MAX_TEXT_LENGTH = 4090;
+export const BROADCAST_CAPTION_LIMIT = 1024;
+export const MAX_BROADCAST_BUTTONS = 10;
+
+const BUTTON_URL_PATTERN = /^(?:https?|tg):\/\/\S+$/iu;
 
 const cloneMetadata = (
   metadata: Record<string, unknown> | undefined,
@@ -63,33 +135,276 @@ const normalizeFilters = (
   const chatIds = normalizeAudienceList(filters.chatIds, 'filters.chatIds');
   const userIds = normalizeAudienceList(filters.userIds, 'filters.userIds');
   const languageCodes = normalizeAudienceList(filters.languageCodes, 'filters.languageCodes');
+  const utmSources = normalizeAudienceList(filters.utmSources, 'filters.utmSources');
+  const activeSince = filters.activeSince?.trim() || undefined;
+
+  if (activeSince && Number.isNaN(Date.parse(activeSince))) {
+    throw new Error('filters.activeSince must be an ISO date');
+  }
 
-  if (!chatIds && !userIds && !languageCodes) {
+  if (!chatIds && !userIds && !languageCodes && !utmSources && !activeSince) {
     throw new Error('filters must specify at least one selector');
   }
 
-  return { chatIds, userIds, languageCodes } satisfies BroadcastAudienceFilter;
+  return {
+    chatIds,
+    userIds,
+    languageCodes,
+    ...(utmSources ? { utmSources } : {}),
+    ...(activeSince ? { activeSince } : {}),
+    ...(filters.segment ? { segment: filters.segment } : {}),
+  } satisfies BroadcastAudienceFilter;
+};
+
+/**
+ * Обрезает пробелы по краям и сдвигает разметку вслед за текстом; сущности,
+ * целиком попавшие в обрезанные пробелы, отбрасываются.
+ */
+export const trimBroadcastText = (
+  text: string,
+  entities?: ReadonlyArray<MessageTextEntity>,
+): { text: string; entities?: MessageTextEntity[] } => {
+  const start = text.length - text.trimStart().length;
+  const trimmed = text.trim();
+
+  return { text: trimmed, entities: sliceBroadcastEntities(entities, start, trimmed.length) };
+};
+
+/**
+ * Разметка для подстроки `[start, start + length)` исходного текста.
+ */
+export const sliceBroadcastEntities = (
+  entities: ReadonlyArray<MessageTextEntity> | undefined,
+  start: number,
+  length: number,
+): MessageTextEntity[] | undefined => {
+  if (!entities || entities.length === 0) {
+    return undefined;
+  }
+
+  const end = start + length;
+  const sliced = entities.flatMap((entity): MessageTextEntity[] => {
+    if (entity.type === 'bot_command') {
+      return [];
+    }
+
+    const entityStart = Math.max(entity.offset, start);
+    const entityEnd = Math.min(entity.offset + entity.length, end);
+    if (entityEnd <= entityStart) {
+      return [];
+    }
+
+    return [{ ...entity, offset: entityStart - start, length: entityEnd - entityStart }];
+  });
+
+  return sliced.length > 0 ? sliced : undefined;
+};
+
+/**
+ * Разбирает `/button Текст https://example.com`: ссылка — последнее слово.
+ */
+export const parseBroadcastButton = (argument: string): BroadcastUrlButton | undefined => {
+  const trimmed = argument.trim();
+  const separatorIndex = trimmed.search(/\s\S+$/u);
+  if (separatorIndex <= 0) {
+    return undefined;
+  }
+
+  const text = trimmed.slice(0, separatorIndex).trim();
+  const url = trimmed.slice(separatorIndex).trim();
+
+  return text.length > 0 && BUTTON_URL_PATTERN.test(url) ? { text, url } : undefined;
+};
+
+export const buildBroadcastReplyMarkup = (
+  buttons: BroadcastContent['buttons'],
+): InlineKeyboardMarkup | undefined => {
+  const rows = (buttons ?? []).filter((row) => row.length > 0);
+  if (rows.length === 0) {
+    return undefined;
+  }
+
+  return {
+    inlineKeyboard: rows.map((row) => row.map((button) => ({ text: button.text, url: button.url }))),
+  };
+};
+
+export const hasBroadcastContent = (content: BroadcastContent | undefined): content is BroadcastContent =>
+  Boolean(
+    content
+    && (
+      content.media
+      || content.entities?.length
+      || content.parseMode
+      || content.buttons?.length
+      || content.variants?.length
+      || content.translations?.length
+    ),
+  );
+
+const isRecordValue = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseEntity = (value: unknown): MessageTextEntity[] => {
+  if (
+    !isRecordValue(value)
+    || typeof value.type !== 'string'
+    || typeof value.offset !== 'number'
+    || typeof value.length !== 'number'
+  ) {
+    return [];
+  }
+
+  return [
+    {
+      type: value.type,
+      offset: value.offset,
+      length: value.length,
+      ...(typeof value.url === 'string' ? { url: value.url } : {}),
+      ...(typeof value.language === 'string' ? { language: value.language } : {}),
+      ...(typeof value.customEmojiId === 'string' ? { customEmojiId: value.customEmojiId } : {}),
+    },
+  ];
+};
+
+/**
+ * Восстанавливает содержимое рассылки из JSON (KV, D1); битые поля
+ * пропускаются.
+ */
+export const parseBroadcastContent = (value: unknown): BroadcastContent | undefined => {
+  if (!isRecordValue(value)) {
+    return undefined;
+  }
+
+  const mediaKind = isRecordValue(value.media) ? value.media.kind : undefined;
+  const media: BroadcastMedia | undefined = isRecordValue(value.media)
+    && (mediaKind === 'photo' || mediaKind === 'document')
+    && typeof value.media.fileId === 'string'
+    ? {
+        kind: mediaKind,
+        fileId: value.media.fileId,
+        ...(typeof value.media.fileName === 'string' ? { fileName: value.media.fileName } : {}),
+        ...(typeof value.media.mimeType === 'string' ? { mimeType: value.media.mimeType } : {}),
+      }
+    : undefined;
+  const entities = Array.isArray(value.entities) ? value.entities.flatMap(parseEntity) : [];
+  const parseMode = value.parseMode === 'MarkdownV2' || value.parseMode === 'HTML' ? value.parseMode : undefined;
+  const buttons = Array.isArray(value.buttons)
+    ? value.buttons
+        .map((row) =>
+          (Array.isArray(row) ? row : []).flatMap((button): BroadcastUrlButton[] =>
+            isRecordValue(button) && typeof button.text === 'string' && typeof button.url === 'string'
+              ? [{ text: button.text, url: button.url }]
+              : [],
+          ),
+        )
+        .filter((row) => row.length > 0)
+    : [];
+  const variants = Array.isArray(value.variants)
+    ? value.variants.flatMap((variant): BroadcastTextVariant[] =>
+        isRecordValue(variant)
+        && typeof variant.id === 'string'
+        && typeof variant.text === 'string'
+        && typeof variant.percent === 'number'
+          ? [{ id: variant.id, text: variant.text, percent: variant.percent }]
+          : [],
+      )
+    : [];
+  const translations = Array.isArray(value.translations)
+    ? value.translations.flatMap((translation): BroadcastTranslation[] =>
+        isRecordValue(translation)
+        && typeof translation.languageCode === 'string'
+        && typeof translation.text === 'string'
+          ? [{ languageCode: translation.languageCode, text: translation.text }]
+          : [],
+      )
+    : [];
+
+  const content: BroadcastContent = {
+    ...(media ? { media } : {}),
+    ...(entities.length > 0 ? { entities } : {}),
+    ...(parseMode ? { parseMode } : {}),
+    ...(buttons.length > 0 ? { buttons } : {}),
+    ...(variants.length > 0 ? { variants } : {}),
+    ...(translations.length > 0 ? { translations } : {}),
+  };
+
+  return hasBroadcastContent(content) ? content : undefined;
+};
+
+const normalizeButtons = (
+  buttons: BroadcastContent['buttons'],
+): BroadcastContent['buttons'] => {
+  if (!buttons) {
+    return undefined;
+  }
+
+  const rows = buttons
+    .map((row, rowIndex) =>
+      row.map((button, index) => {
+        const text = button.text.trim();
+        const url = button.url.trim();
+        if (text.length === 0) {
+          throw new Error(`buttons[${rowIndex}][${index}].text must not be empty`);
+        }
+
+        if (!BUTTON_URL_PATTERN.test(url)) {
+          throw new Error(`buttons[${rowIndex}][${index}].url must be an http(s) or tg:// link`);
+        }
+
+        return { text, url };
+      }),
+    )
+    .filter((row) => row.length > 0);
+
+  if (rows.flat().length > MAX_BROADCAST_BUTTONS) {
+    throw new Error(`buttons must not exceed ${MAX_BROADCAST_BUTTONS} items`);
+  }
+
+  return rows.length > 0 ? rows : undefined;
 };
 
 export const buildBroadcastPayload = (
   draft: BroadcastPayloadDraft,
   options: BuildBroadcastPayloadOptions = {},
 ): BroadcastMessagePayload => {
-  const maxTextLength = options.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH;
+  const media = draft.media;
+  const maxLength = media
+    ? options.maxCaptionLength ?? BROADCAST_CAPTION_LIMIT
+    : options.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH;
 
-  const text = draft.text.trim();
-  if (text.length === 0) {
+  const { text, entities } = trimBroadcastText(draft.text, draft.entities);
+  if (text.length === 0 && !media) {
     throw new Error('text must not be empty');
   }
 
-  const visibleLength = getVisibleTextLength(text);
+  if (media && media.fileId.trim().length === 0) {
+    throw new Error('media.fileId must not be empty');
+  }
+
+  // Плейсхолдеры вроде `{first_name}` проверяются по самой длинной подстановке.
+  const expandedText = expandBroadcastTemplateWorstCase(text);
+  const visibleLength = getVisibleTextLength(expandedText);
+
+  if (Math.max(expandedText.length, visibleLength) > maxLength) {
+    throw new Error(`${media ? 'caption' : 'text'} must not exceed ${maxLength} characters`);
+  }
 
-  if (Math.max(text.length, visibleLength) > maxTextLength) {
-    throw new Error(`text must not exceed ${maxTextLength} characters`);
+  if (entities && draft.parseMode) {
+    throw new Error('entities and parseMode are mutually exclusive');
   }
 
   const filters = normalizeFilters(draft.filters);
   const metadata = cloneMetadata(draft.metadata);
+  const buttons = normalizeButtons(draft.buttons);
 
-  return { text, filters, metadata } satisfies BroadcastMessagePayload;
+  return {
+    text,
+    filters,
+    metadata,
+    ...(media ? { media } : {}),
+    ...(entities ? { entities } : {}),
+    ...(draft.parseMode ? { parseMode: draft.parseMode } : {}),
+    ...(buttons ? { buttons } : {}),
+  } satisfies BroadcastMessagePayload;
 };
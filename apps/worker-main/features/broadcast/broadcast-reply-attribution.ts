@@ -0,0 +1,93 @@
+import type { IncomingMessage } from '../../core';
+import type { BroadcastDeliveriesStore } from './broadcast-deliveries-store';
+
+interface Logger {
+  warn?(message: string, details?: Record<string, unknown>): void;
+}
+
+export const DEFAULT_BROADCAST_REPLY_WINDOW_HOURS = 48;
+const DEFAULT_LATEST_DELIVERY_REFRESH_MS = 5 * 60 * 1000;
+
+export interface CreateBroadcastReplyAttributionOptions {
+  deliveries: Pick<BroadcastDeliveriesStore, 'findReplyTarget' | 'findLatestDeliveryAt'>;
+  /**
+   * Сколько часов после доставки сообщение пользователя считается ответом на
+   * рассылку, даже если это не `reply`.
+   */
+  windowHours?: number;
+  /**
+   * Как долго изолят помнит время последней доставки. Сообщения без `reply`
+   * в первые минуты после новой рассылки могут остаться без атрибуции.
+   */
+  refreshIntervalMs?: number;
+  now?: () => number;
+  logger?: Logger;
+}
+
+/**
+ * Поля, которые добавляются в `metadata` сообщения пользователя и сохраняются
+ * вместе с ним в `messages`.
+ */
+export interface BroadcastReplyMetadata extends Record<string, unknown> {
+  broadcastJobId: string;
+  broadcastVariant?: string;
+  broadcastAttribution: 'reply' | 'window';
+}
+
+/**
+ * Подходит для `annotateMessage` вебхука: связывает входящее сообщение с
+ * рассылкой, на которую ответил пользователь. Ошибка поиска не мешает диалогу.
+ * Сообщения без `reply` не ходят в D1, пока в окне не было ни одной доставки.
+ */
+export const createBroadcastReplyAttribution = (options: CreateBroadcastReplyAttributionOptions) => {
+  const windowMs = (options.windowHours ?? DEFAULT_BROADCAST_REPLY_WINDOW_HOURS) * 60 * 60 * 1000;
+  const refreshIntervalMs = Math.max(0, options.refreshIntervalMs ?? DEFAULT_LATEST_DELIVERY_REFRESH_MS);
+  const now = options.now ?? (() => Date.now());
+
+  let cachedLatest: { value: Date | undefined; expiresAt: number } | undefined;
+
+  const readLatestDeliveryAt = async (): Promise<Date | undefined> => {
+    const currentTime = now();
+    if (cachedLatest && currentTime < cachedLatest.expiresAt) {
+      return cachedLatest.value;
+    }
+
+    const value = await options.deliveries.findLatestDeliveryAt();
+    cachedLatest = { value, expiresAt: currentTime + refreshIntervalMs };
+    return value;
+  };
+
+  return async (message: IncomingMessage): Promise<BroadcastReplyMetadata | undefined> => {
+    try {
+      if (!message.replyToMessageId) {
+        const latest = await readLatestDeliveryAt();
+        if (!latest || latest.getTime() < message.receivedAt.getTime() - windowMs) {
+          return undefined;
+        }
+      }
+
+      const target = await options.deliveries.findReplyTarget({
+        chatId: message.chat.id,
+        ...(message.replyToMessageId ? { replyToMessageId: message.replyToMessageId } : {}),
+        since: new Date(message.receivedAt.getTime() - windowMs),
+        until: message.receivedAt,
+      });
+
+      if (!target) {
+        return undefined;
+      }
+
+      return {
+        broadcastJobId: target.jobId,
+        ...(target.variant ? { broadcastVariant: target.variant } : {}),
+        broadcastAttribution: target.via,
+      };
+    } catch (error) {
+      options.logger?.warn?.('broadcast reply attribution failed', {
+        chatId: message.chat.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  };
+};
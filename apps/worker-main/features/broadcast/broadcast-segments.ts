@@ -0,0 +1,175 @@
+import type { BroadcastAudienceFilter } from './broadcast-payload';
+
+/**
+ * Сегмент в том виде, в каком его задал администратор:
+ * `/segment utm=src_promo lang=ru active_since=30d`.
+ */
+export interface BroadcastSegment {
+  readonly utmSources?: readonly string[];
+  readonly languageCodes?: readonly string[];
+  /**
+   * Писали боту за последние N дней.
+   */
+  readonly activeWithinDays?: number;
+}
+
+export type BroadcastSegmentParseResult =
+  | { ok: true; segment: BroadcastSegment; definition: string }
+  | { ok: false; reason: 'empty' | 'unknown_key' | 'invalid_value' | 'duplicate_key'; token?: string };
+
+export const BROADCAST_SEGMENT_COMMAND = '/segment';
+export const MAX_SEGMENT_ACTIVE_DAYS = 365;
+
+const SEGMENT_KEYS = ['utm', 'lang', 'active_since'] as const;
+type SegmentKey = (typeof SEGMENT_KEYS)[number];
+
+const UTM_VALUE_PATTERN = /^[\w.-]{1,64}$/u;
+const LANGUAGE_VALUE_PATTERN = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})?$/u;
+const ACTIVE_SINCE_PATTERN = /^(\d{1,3})d$/u;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isSegmentKey = (value: string): value is SegmentKey =>
+  (SEGMENT_KEYS as readonly string[]).includes(value);
+
+const parseValues = (raw: string, pattern: RegExp): string[] | undefined => {
+  const values = raw
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter((value) => value.length > 0);
+
+  if (values.length === 0 || values.some((value) => !pattern.test(value))) {
+    return undefined;
+  }
+
+  return Array.from(new Set(values));
+};
+
+/**
+ * Разбирает аргументы `/segment`: пары `ключ=значение` через пробел, несколько
+ * значений одного ключа — через запятую (`lang=ru,uk`). Условия объединяются
+ * через «и».
+ */
+export const parseBroadcastSegment = (argument: string): BroadcastSegmentParseResult => {
+  const tokens = argument.split(/\s+/u).filter((token) => token.length > 0);
+  if (tokens.length === 0) {
+    return { ok: false, reason: 'empty' };
+  }
+
+  const seen = new Set<SegmentKey>();
+  let utmSources: string[] | undefined;
+  let languageCodes: string[] | undefined;
+  let activeWithinDays: number | undefined;
+
+  for (const token of tokens) {
+    const separatorIndex = token.indexOf('=');
+    const key = (separatorIndex > 0 ? token.slice(0, separatorIndex) : token).toLowerCase();
+    const value = separatorIndex > 0 ? token.slice(separatorIndex + 1) : '';
+
+    if (!isSegmentKey(key)) {
+      return { ok: false, reason: 'unknown_key', token };
+    }
+
+    if (seen.has(key)) {
+      return { ok: false, reason: 'duplicate_key', token };
+    }
+
+    seen.add(key);
+
+    if (key === 'utm') {
+      utmSources = parseValues(value, UTM_VALUE_PATTERN);
+      if (!utmSources) {
+        return { ok: false, reason: 'invalid_value', token };
+      }
+    } else if (key === 'lang') {
+      languageCodes = parseValues(value, LANGUAGE_VALUE_PATTERN);
+      if (!languageCodes) {
+        return { ok: false, reason: 'invalid_value', token };
+      }
+    } else {
+      const match = ACTIVE_SINCE_PATTERN.exec(value.toLowerCase());
+      const days = match ? Number(match[1]) : 0;
+      if (days < 1 || days > MAX_SEGMENT_ACTIVE_DAYS) {
+        return { ok: false, reason: 'invalid_value', token };
+      }
+
+      activeWithinDays = days;
+    }
+  }
+
+  const segment: BroadcastSegment = {
+    ...(utmSources ? { utmSources } : {}),
+    ...(languageCodes ? { languageCodes } : {}),
+    ...(activeWithinDays ? { activeWithinDays } : {}),
+  };
+
+  return { ok: true, segment, definition: formatBroadcastSegment(segment) };
+};
+
+/**
+ * Каноническая запись сегмента: ключи всегда в одном порядке, поэтому её можно
+ * сравнивать и хранить в телеметрии.
+ */
+export const formatBroadcastSegment = (segment: BroadcastSegment): string =>
+  [
+    segment.utmSources?.length ? `utm=${segment.utmSources.join(',')}` : undefined,
+    segment.languageCodes?.length ? `lang=${segment.languageCodes.join(',')}` : undefined,
+    segment.activeWithinDays ? `active_since=${segment.activeWithinDays}d` : undefined,
+  ]
+    .filter((part): part is string => Boolean(part))
+    .join(' ');
+
+/**
+ * Фильтр аудитории для сегмента. Относительный срок активности переводится в
+ * момент времени сразу, чтобы возобновлённая или отложенная рассылка ушла той же
+ * аудитории, что была посчитана при выборе.
+ */
+export const toBroadcastSegmentFilter = (
+  segment: BroadcastSegment,
+  options: { now: Date },
+): BroadcastAudienceFilter => ({
+  segment: formatBroadcastSegment(segment),
+  ...(segment.utmSources?.length ? { utmSources: segment.utmSources } : {}),
+  ...(segment.languageCodes?.length ? { languageCodes: segment.languageCodes } : {}),
+  ...(segment.activeWithinDays
+    ? { activeSince: new Date(options.now.getTime() - segment.activeWithinDays * DAY_MS).toISOString() }
+    : {}),
+});
+
+export const hasBroadcastSegmentFilter = (filter: BroadcastAudienceFilter | undefined): boolean =>
+  Boolean(filter?.utmSources?.length || filter?.languageCodes?.length || filter?.activeSince);
+
+/**
+ * Условия сегмента для запроса получателей, где `m` — `messages`, `u` — `users`.
+ * Язык берётся из профиля пользователя, а если он пуст — из `broadcast_recipients`.
+ */
+export const buildBroadcastSegmentClauses = (
+  filter: BroadcastAudienceFilter | undefined,
+): { clauses: string[]; bindings: unknown[] } => {
+  const clauses: string[] = [];
+  const bindings: unknown[] = [];
+
+  const utmSources = filter?.utmSources?.map((value) => value.trim().toLowerCase()).filter(Boolean);
+  if (utmSources?.length) {
+    clauses.push(`LOWER(u.utm_source) IN (${utmSources.map(() => '?').join(', ')})`);
+    bindings.push(...utmSources);
+  }
+
+  const languageCodes = filter?.languageCodes?.map((value) => value.trim().toLowerCase()).filter(Boolean);
+  if (languageCodes?.length) {
+    clauses.push(`LOWER(COALESCE(
+        NULLIF(u.language_code, ''),
+        (SELECT lang.language_code FROM broadcast_recipients lang WHERE lang.chat_id = m.chat_id)
+      )) IN (${languageCodes.map(() => '?').join(', ')})`);
+    bindings.push(...languageCodes);
+  }
+
+  if (filter?.activeSince) {
+    clauses.push(`EXISTS (
+        SELECT 1 FROM messages recent
+        WHERE recent.chat_id = m.chat_id AND recent.role = 'user' AND recent.timestamp >= ?
+      )`);
+    bindings.push(filter.activeSince);
+  }
+
+  return { clauses, bindings };
+};
@@ -1,5 +1,9 @@
 import type { BroadcastAudienceFilter } from './broadcast-payload';
-import type { BroadcastAbortReason } from './minimal-broadcast-service';
+import type {
+  BroadcastAbortReason,
+  BroadcastLanguageCounts,
+  BroadcastVariantCounts,
+} from './minimal-broadcast-service';
 
 export interface BroadcastTelemetryRecordInput {
   requestedBy: string;
@@ -14,6 +18,22 @@ export interface BroadcastTelemetryRecordInput {
   abortReason?: BroadcastAbortReason;
   error?: { name: string; message: string } | undefined;
   filters?: BroadcastAudienceFilter;
+  /**
+   * Запись сегмента `/segment`, если аудитория выбиралась по нему.
+   */
+  segment?: string;
+  /**
+   * Отзыв или правка ранее отправленной рассылки.
+   */
+  action?: 'recall' | 'edit';
+  /**
+   * Доставлено и ошибок по вариантам A/B-теста.
+   */
+  variants?: BroadcastVariantCounts;
+  /**
+   * Доставлено и ошибок по языкам, если к рассылке добавлены переводы.
+   */
+  languages?: BroadcastLanguageCounts;
 }
 
 export interface BroadcastTelemetryRecord extends Omit<BroadcastTelemetryRecordInput, 'startedAt' | 'completedAt'> {
@@ -0,0 +1,127 @@
+import type { MessageTextEntity } from '../../ports';
+
+export type BroadcastPlaceholderKey = 'first_name' | 'username' | 'utm_source';
+
+/**
+ * Поля пользователя из таблицы `users`, которые подставляются в шаблон рассылки.
+ */
+export interface BroadcastRecipientProfile {
+  firstName?: string;
+  username?: string;
+  utmSource?: string;
+}
+
+export interface BroadcastRecipientProfiles {
+  /**
+   * Профили по `chatId`; для личных чатов он совпадает с `user_id`.
+   */
+  loadProfiles(chatIds: readonly string[]): Promise<Map<string, BroadcastRecipientProfile>>;
+}
+
+/**
+ * Ограничения Telegram: имя — до 64 символов, username — до 32, параметр
+ * `/start` (из него берётся `utm_source`) — до 64. Длиннее значения обрезаются,
+ * поэтому худший случай при проверке длины не превышается.
+ */
+export const BROADCAST_PLACEHOLDER_MAX_LENGTHS: Readonly<Record<BroadcastPlaceholderKey, number>> = {
+  first_name: 64,
+  username: 32,
+  utm_source: 64,
+};
+
+const PROFILE_FIELDS: Readonly<Record<BroadcastPlaceholderKey, keyof BroadcastRecipientProfile>> = {
+  first_name: 'firstName',
+  username: 'username',
+  utm_source: 'utmSource',
+};
+
+// `{first_name}` или `{first_name|друг}`; неизвестные ключи остаются текстом.
+const PLACEHOLDER_PATTERN = /\{(first_name|username|utm_source)(?:\|([^{}\n]*))?\}/gu;
+
+interface PlaceholderMatch {
+  start: number;
+  end: number;
+  key: BroadcastPlaceholderKey;
+  fallback: string;
+}
+
+const findPlaceholders = (text: string): PlaceholderMatch[] =>
+  Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    key: match[1] as BroadcastPlaceholderKey,
+    fallback: match[2] ?? '',
+  }));
+
+export const hasBroadcastPlaceholders = (text: string | undefined): boolean =>
+  Boolean(text) && findPlaceholders(text as string).length > 0;
+
+const replacePlaceholders = (
+  text: string,
+  entities: ReadonlyArray<MessageTextEntity> | undefined,
+  resolve: (placeholder: PlaceholderMatch) => string,
+): { text: string; entities?: MessageTextEntity[] } => {
+  const placeholders = findPlaceholders(text);
+  if (placeholders.length === 0) {
+    return { text, ...(entities?.length ? { entities: [...entities] } : {}) };
+  }
+
+  const replaced = placeholders.map((placeholder) => ({ ...placeholder, value: resolve(placeholder) }));
+  let rendered = '';
+  let cursor = 0;
+  for (const placeholder of replaced) {
+    rendered += text.slice(cursor, placeholder.start) + placeholder.value;
+    cursor = placeholder.end;
+  }
+  rendered += text.slice(cursor);
+
+  // Разметка сдвигается вслед за подстановками; граница внутри плейсхолдера
+  // переносится на конец подставленного значения.
+  const mapPosition = (position: number): number => {
+    let delta = 0;
+    for (const placeholder of replaced) {
+      if (position <= placeholder.start) {
+        break;
+      }
+
+      if (position < placeholder.end) {
+        return placeholder.start + delta + placeholder.value.length;
+      }
+
+      delta += placeholder.value.length - (placeholder.end - placeholder.start);
+    }
+
+    return position + delta;
+  };
+
+  const shifted = (entities ?? []).flatMap((entity): MessageTextEntity[] => {
+    const offset = mapPosition(entity.offset);
+    const end = mapPosition(entity.offset + entity.length);
+    return end > offset ? [{ ...entity, offset, length: end - offset }] : [];
+  });
+
+  return { text: rendered, ...(shifted.length > 0 ? { entities: shifted } : {}) };
+};
+
+/**
+ * Подставляет поля профиля получателя; пустое поле заменяется запасным
+ * значением после `|` или пустой строкой.
+ */
+export const renderBroadcastTemplate = (
+  text: string,
+  profile: BroadcastRecipientProfile | undefined,
+  entities?: ReadonlyArray<MessageTextEntity>,
+): { text: string; entities?: MessageTextEntity[] } =>
+  replacePlaceholders(text, entities, ({ key, fallback }) => {
+    const value = profile?.[PROFILE_FIELDS[key]]?.trim();
+    return value ? value.slice(0, BROADCAST_PLACEHOLDER_MAX_LENGTHS[key]) : fallback;
+  });
+
+/**
+ * Текст, в котором каждый плейсхолдер заменён строкой максимально возможной
+ * длины, — для проверки лимитов Telegram до отправки.
+ */
+export const expandBroadcastTemplateWorstCase = (text: string): string =>
+  replacePlaceholders(text, undefined, ({ key, fallback }) =>
+    'x'.repeat(Math.max(BROADCAST_PLACEHOLDER_MAX_LENGTHS[key], fallback.length)),
+  ).text;
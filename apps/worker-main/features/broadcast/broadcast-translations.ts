@@ -0,0 +1,103 @@
+import type { AiPort } from '../../ports';
+import type { BroadcastTranslation } from './broadcast-payload';
+
+export const BROADCAST_TRANSLATE_COMMAND = '/translate';
+export const MAX_BROADCAST_TRANSLATIONS = 10;
+/**
+ * Ключ счётчиков для получателей, которым ушёл основной текст: язык не
+ * указан или перевода на него нет.
+ */
+export const BROADCAST_DEFAULT_LANGUAGE = 'default';
+
+const LANGUAGE_PATTERN = /^[a-z]{2,3}$/u;
+const TRANSLATION_ARGUMENT_PATTERN = /^(\S+)(?:\s+([\s\S]+))?$/u;
+
+/**
+ * Основной подтег кода языка Telegram: `en-US` и `EN` дают `en`.
+ */
+export const normalizeBroadcastLanguage = (value: string | undefined): string | undefined => {
+  const primary = value?.trim().toLowerCase().split(/[-_]/u)[0];
+  return primary && LANGUAGE_PATTERN.test(primary) ? primary : undefined;
+};
+
+export type BroadcastTranslationParseResult =
+  | { ok: true; languageCode: string; text?: string }
+  | { ok: false };
+
+/**
+ * Разбирает аргумент `/translate en [Текст]`; без текста перевод делает модель.
+ */
+export const parseBroadcastTranslationArgument = (argument: string): BroadcastTranslationParseResult => {
+  const match = TRANSLATION_ARGUMENT_PATTERN.exec(argument.trim());
+  const languageCode = match?.[1].toLowerCase();
+  if (!match || !languageCode || !LANGUAGE_PATTERN.test(languageCode)) {
+    return { ok: false };
+  }
+
+  const text = match[2]?.trim();
+  return { ok: true, languageCode, ...(text ? { text } : {}) };
+};
+
+/**
+ * Добавляет перевод или заменяет уже добавленный на тот же язык.
+ */
+export const upsertBroadcastTranslation = (
+  translations: readonly BroadcastTranslation[] | undefined,
+  translation: BroadcastTranslation,
+): { ok: true; translations: BroadcastTranslation[] } | { ok: false; reason: 'limit' } => {
+  const current = translations ?? [];
+  const index = current.findIndex((item) => item.languageCode === translation.languageCode);
+  if (index >= 0) {
+    return { ok: true, translations: current.map((item, itemIndex) => (itemIndex === index ? translation : item)) };
+  }
+
+  if (current.length >= MAX_BROADCAST_TRANSLATIONS) {
+    return { ok: false, reason: 'limit' };
+  }
+
+  return { ok: true, translations: [...current, translation] };
+};
+
+export const selectBroadcastTranslation = (
+  translations: readonly BroadcastTranslation[] | undefined,
+  languageCode: string | undefined,
+): BroadcastTranslation | undefined => {
+  const language = normalizeBroadcastLanguage(languageCode);
+  return language ? translations?.find((translation) => translation.languageCode === language) : undefined;
+};
+
+/**
+ * «en, uk» — для ответов администратору.
+ */
+export const formatBroadcastTranslations = (translations: readonly BroadcastTranslation[] | undefined): string =>
+  (translations ?? []).map((translation) => translation.languageCode).join(', ');
+
+const buildTranslationInstructions = (languageCode: string) =>
+  [
+    `Translate the user's message into the language with ISO 639-1 code "${languageCode}".`,
+    'Keep emoji, links, line breaks and placeholders in curly braces such as {first_name|friend} unchanged;',
+    'translate only the fallback after "|".',
+    'Reply with the translated text only, without quotes or explanations.',
+  ].join(' ');
+
+/**
+ * Машинный перевод основного текста через `AiPort`.
+ */
+export const translateBroadcastText = async (
+  ai: Pick<AiPort, 'reply'>,
+  input: { text: string; languageCode: string; requestedBy: string },
+): Promise<string> => {
+  const reply = await ai.reply({
+    userId: `admin:broadcast:${input.requestedBy}`,
+    text: input.text,
+    context: [{ role: 'system', text: buildTranslationInstructions(input.languageCode) }],
+    languageCode: input.languageCode,
+  });
+
+  const text = reply.text.trim();
+  if (text.length === 0) {
+    throw new Error('AI translation returned empty text');
+  }
+
+  return text;
+};
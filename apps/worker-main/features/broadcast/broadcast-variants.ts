@@ -0,0 +1,106 @@
+import type { BroadcastTextVariant } from './broadcast-payload';
+
+export const BROADCAST_VARIANT_COMMAND = '/variant';
+/**
+ * Основной текст рассылки — всегда вариант `A`; добавленные получают `B`, `C`, `D`.
+ */
+export const BROADCAST_BASE_VARIANT_ID = 'A';
+export const MAX_BROADCAST_VARIANTS = 3;
+
+const VARIANT_IDS = ['B', 'C', 'D'] as const;
+const VARIANT_ARGUMENT_PATTERN = /^(\d{1,2})\s*%?\s+([\s\S]+)$/u;
+
+export type BroadcastVariantParseResult =
+  | { ok: true; percent: number; text: string }
+  | { ok: false; reason: 'format' | 'percent' };
+
+/**
+ * Разбирает аргумент `/variant 30 Текст варианта`: доля в процентах и текст.
+ */
+export const parseBroadcastVariantArgument = (argument: string): BroadcastVariantParseResult => {
+  const match = VARIANT_ARGUMENT_PATTERN.exec(argument.trim());
+  if (!match) {
+    return { ok: false, reason: 'format' };
+  }
+
+  const percent = Number(match[1]);
+  const text = match[2].trim();
+  if (text.length === 0) {
+    return { ok: false, reason: 'format' };
+  }
+
+  if (percent < 1 || percent > 99) {
+    return { ok: false, reason: 'percent' };
+  }
+
+  return { ok: true, percent, text };
+};
+
+export const getBaseVariantPercent = (variants: readonly BroadcastTextVariant[] | undefined): number =>
+  100 - (variants ?? []).reduce((sum, variant) => sum + variant.percent, 0);
+
+/**
+ * Добавляет вариант к черновику. Основному тексту должен остаться хотя бы 1%.
+ */
+export const appendBroadcastVariant = (
+  variants: readonly BroadcastTextVariant[] | undefined,
+  input: { percent: number; text: string },
+):
+  | { ok: true; variants: BroadcastTextVariant[]; variant: BroadcastTextVariant }
+  | { ok: false; reason: 'limit' | 'percent' } => {
+  const current = variants ?? [];
+  if (current.length >= MAX_BROADCAST_VARIANTS) {
+    return { ok: false, reason: 'limit' };
+  }
+
+  if (getBaseVariantPercent(current) - input.percent < 1) {
+    return { ok: false, reason: 'percent' };
+  }
+
+  const variant: BroadcastTextVariant = { id: VARIANT_IDS[current.length], text: input.text, percent: input.percent };
+  return { ok: true, variants: [...current, variant], variant };
+};
+
+/**
+ * «A 70%, B 30%» — для ответов администратору.
+ */
+export const formatBroadcastVariantSplit = (variants: readonly BroadcastTextVariant[] | undefined): string =>
+  [
+    `${BROADCAST_BASE_VARIANT_ID} ${getBaseVariantPercent(variants)}%`,
+    ...(variants ?? []).map((variant) => `${variant.id} ${variant.percent}%`),
+  ].join(', ');
+
+// FNV-1a: синхронный и одинаковый во всех рантаймах, криптостойкость не нужна.
+const hashToPercentile = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0) % 100;
+};
+
+/**
+ * Детерминированно относит получателя к варианту по `jobId` и `chatId`, поэтому
+ * после возобновления с чекпоинта получатель попадает в тот же вариант.
+ */
+export const assignBroadcastVariant = (
+  variants: readonly BroadcastTextVariant[] | undefined,
+  key: { jobId: string; chatId: string },
+): BroadcastTextVariant | undefined => {
+  if (!variants?.length) {
+    return undefined;
+  }
+
+  const percentile = hashToPercentile(`${key.jobId}:${key.chatId}`);
+  let threshold = 0;
+  for (const variant of variants) {
+    threshold += variant.percent;
+    if (percentile < threshold) {
+      return variant;
+    }
+  }
+
+  return undefined;
+};
@@ -1,9 +1,96 @@
 export {
   buildBroadcastPayload,
+  buildBroadcastReplyMarkup,
+  parseBroadcastButton,
+  parseBroadcastContent,
+  trimBroadcastText,
   DEFAULT_MAX_TEXT_LENGTH,
+  BROADCAST_CAPTION_LIMIT,
+  MAX_BROADCAST_BUTTONS,
   type BroadcastAudienceFilter,
+  type BroadcastContent,
+  type BroadcastMedia,
   type BroadcastMessagePayload,
+  type BroadcastTextVariant,
+  type BroadcastTranslation,
+  type BroadcastUrlButton,
 } from './broadcast-payload';
+export {
+  createBroadcastDeliveriesStore,
+  DEFAULT_DELIVERIES_PAGE_LIMIT,
+  DEFAULT_ENGAGEMENT_JOBS_LIMIT,
+  MAX_DELIVERIES_PAGE_LIMIT,
+  type BroadcastDeliveriesListOptions,
+  type BroadcastDeliveriesPage,
+  type BroadcastDeliveriesStore,
+  type BroadcastDeliveredMessage,
+  type BroadcastDeliveryLog,
+  type BroadcastDeliveryLogEntry,
+  type BroadcastDeliveryRecord,
+  type BroadcastDeliveryStatus,
+  type BroadcastEngagementListOptions,
+  type BroadcastJobEngagement,
+  type BroadcastReplyTarget,
+  type BroadcastReplyTargetQuery,
+  type CreateBroadcastDeliveriesStoreOptions,
+} from './broadcast-deliveries-store';
+export {
+  DEFAULT_BROADCAST_REPLY_WINDOW_HOURS,
+  createBroadcastReplyAttribution,
+  type BroadcastReplyMetadata,
+  type CreateBroadcastReplyAttributionOptions,
+} from './broadcast-reply-attribution';
+export {
+  createBroadcastDeliveriesAdminHandlers,
+  type BroadcastDeliveriesAdminHandlers,
+  type CreateBroadcastDeliveriesAdminHandlersOptions,
+} from './broadcast-deliveries-admin-route';
+export {
+  parseBroadcastSegment,
+  formatBroadcastSegment,
+  toBroadcastSegmentFilter,
+  BROADCAST_SEGMENT_COMMAND,
+  MAX_SEGMENT_ACTIVE_DAYS,
+  type BroadcastSegment,
+  type BroadcastSegmentParseResult,
+} from './broadcast-segments';
+export {
+  assignBroadcastVariant,
+  parseBroadcastVariantArgument,
+  BROADCAST_BASE_VARIANT_ID,
+  BROADCAST_VARIANT_COMMAND,
+  MAX_BROADCAST_VARIANTS,
+  type BroadcastVariantParseResult,
+} from './broadcast-variants';
+export {
+  createBroadcastJobDispatcher,
+  BROADCAST_PRIORITY_WEIGHTS,
+  DEFAULT_BROADCAST_PRIORITY,
+  isBroadcastPriority,
+  type BroadcastJobDispatcher,
+  type BroadcastJobLane,
+  type BroadcastPriority,
+  type CreateBroadcastJobDispatcherOptions,
+} from './broadcast-job-dispatcher';
+export {
+  normalizeBroadcastLanguage,
+  parseBroadcastTranslationArgument,
+  selectBroadcastTranslation,
+  translateBroadcastText,
+  BROADCAST_DEFAULT_LANGUAGE,
+  BROADCAST_TRANSLATE_COMMAND,
+  MAX_BROADCAST_TRANSLATIONS,
+  type BroadcastTranslationParseResult,
+} from './broadcast-translations';
+export {
+  expandBroadcastTemplateWorstCase,
+  hasBroadcastPlaceholders,
+  renderBroadcastTemplate,
+  BROADCAST_PLACEHOLDER_MAX_LENGTHS,
+  type BroadcastPlaceholderKey,
+  type BroadcastRecipientProfile,
+  type BroadcastRecipientProfiles,
+} from './broadcast-templates';
 export {
   parseBroadcastRecipients,
   type BroadcastRecipientsParserLogger,
@@ -11,22 +98,31 @@ export {
 export {
   createTelegramBroadcastCommandHandler,
   BROADCAST_AUDIENCE_PROMPT,
+  BROADCAST_CALLBACK_NAMESPACE,
+  buildBroadcastJobControls,
   BROADCAST_SUCCESS_MESSAGE,
   buildBroadcastPromptMessage,
+  cleanupExpiredPendingBroadcasts,
   type CreateTelegramBroadcastCommandHandlerOptions,
   type TelegramBroadcastCommandHandler,
   type PendingBroadcast,
   type BroadcastPendingKvNamespace,
+  type PendingBroadcastCleanupResult,
 } from './telegram-broadcast-command';
 export {
   createImmediateBroadcastSender,
   createRegistryBroadcastSender,
   BroadcastAbortedError,
+  type BroadcastAction,
+  type BroadcastDryRunEstimate,
   type BroadcastRecipient,
   type BroadcastSendInput,
   type BroadcastSendResult,
   type BroadcastSendResultDelivery,
+  type BroadcastLanguageCounts,
+  type BroadcastVariantCounts,
   type BroadcastRecipientsRegistry,
+  type BroadcastRecipientBlockedInput,
   type SendBroadcast,
   type CreateImmediateBroadcastSenderOptions,
   type CreateRegistryBroadcastSenderOptions,
@@ -38,19 +134,55 @@ export {
   loadBroadcastCheckpoint,
   listBroadcastCheckpoints,
   deleteBroadcastCheckpoint,
+  cleanupStaleBroadcastCheckpoints,
+  computeBroadcastTextHash,
+  computeBroadcastContentHash,
+  computeBroadcastAudienceHash,
+  type BroadcastCheckpointCleanupOptions,
+  type BroadcastCheckpointCleanupResult,
 } from './minimal-broadcast-service';
 export {
   createBroadcastRecipientsStore,
   type BroadcastRecipientRecord,
   type BroadcastRecipientUpsertInput,
+  type BroadcastRecipientUnsubscribeInput,
+  type BroadcastRecipientUnsubscribeReason,
+  type BroadcastRecipientsListOptions,
   type BroadcastRecipientsStore,
 } from './recipients-store';
+export {
+  createBroadcastSubscriptionTracker,
+  type BroadcastSubscriptionTracker,
+  type CreateBroadcastSubscriptionTrackerOptions,
+} from './recipient-subscription';
 export {
   createBroadcastRecipientsAdminHandlers,
   type BroadcastRecipientsAdminHandlers,
   type CreateBroadcastRecipientsAdminHandlersOptions,
 } from './broadcast-recipients-admin-route';
 export { createBroadcastDiagRoute } from './broadcast-diag-route';
+export {
+  createScheduledBroadcastsStore,
+  type ScheduledBroadcast,
+  type ScheduledBroadcastStatus,
+  type ScheduledBroadcastCreateInput,
+  type ScheduledBroadcastFinishInput,
+  type ScheduledBroadcastsStore,
+  type CreateScheduledBroadcastsStoreOptions,
+} from './scheduled-broadcasts-store';
+export {
+  SCHEDULED_BROADCASTS_JOB,
+  DEFAULT_SCHEDULE_TIME_ZONE,
+  parseScheduledSendAt,
+  formatScheduledSendAt,
+  buildScheduledBroadcastsListMessage,
+  createScheduledBroadcastsJob,
+  createScheduledBroadcastsAdminHandlers,
+  type ScheduledSendAtParseResult,
+  type CreateScheduledBroadcastsJobOptions,
+  type CreateScheduledBroadcastsAdminHandlersOptions,
+  type ScheduledBroadcastsAdminHandlers,
+} from './scheduled-broadcasts';
 export {
   createBroadcastTelemetry,
   type BroadcastTelemetry,
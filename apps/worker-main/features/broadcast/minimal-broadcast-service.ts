@@ -1,7 +1,29 @@
-import type { MessagingPort } from '../../ports';
+import type { MessagingPort, OutgoingMediaKind } from '../../ports';
 import { getRawTextLength, getVisibleTextLength } from '../../shared';
-import type { BroadcastAudienceFilter } from './broadcast-payload';
+import {
+  BROADCAST_CAPTION_LIMIT,
+  buildBroadcastReplyMarkup,
+  hasBroadcastContent,
+  type BroadcastAudienceFilter,
+  type BroadcastContent,
+} from './broadcast-payload';
+import type { BroadcastDeliveryLog, BroadcastDeliveryLogEntry } from './broadcast-deliveries-store';
+import {
+  createBroadcastJobDispatcher,
+  DEFAULT_BROADCAST_PRIORITY,
+  type BroadcastJobDispatcher,
+  type BroadcastPriority,
+} from './broadcast-job-dispatcher';
 import type { BroadcastTelemetry } from './broadcast-telemetry';
+import {
+  expandBroadcastTemplateWorstCase,
+  hasBroadcastPlaceholders,
+  renderBroadcastTemplate,
+  type BroadcastRecipientProfile,
+  type BroadcastRecipientProfiles,
+} from './broadcast-templates';
+import { BROADCAST_DEFAULT_LANGUAGE, selectBroadcastTranslation } from './broadcast-translations';
+import { assignBroadcastVariant, BROADCAST_BASE_VARIANT_ID } from './broadcast-variants';
 
 interface Logger {
   info?(message: string, details?: Record<string, unknown>): void;
@@ -45,12 +67,46 @@ export interface BroadcastRecipient {
   threadId?: string;
   username?: string;
   languageCode?: string;
+  /**
+   * Сообщение исходной рассылки; заполняется только для отзыва и правки.
+   */
+  messageId?: string;
+  /**
+   * Тип медиа исходного сообщения: правка меняет его подпись.
+   */
+  mediaKind?: OutgoingMediaKind;
+}
+
+/**
+ * Отзыв (`recall`) или правка (`edit`) уже отправленной рассылки: получатели
+ * берутся из журнала доставок исходной задачи, а вместо отправки сообщение
+ * удаляется или заменяется новым текстом.
+ */
+export interface BroadcastAction {
+  kind: 'recall' | 'edit';
+  sourceJobId: string;
 }
 
 export interface BroadcastSendInput {
   text: string;
+  /**
+   * Медиа, разметка и кнопки; без него рассылка уходит простым текстом.
+   */
+  content?: BroadcastContent;
   requestedBy: string;
   filters?: BroadcastAudienceFilter;
+  action?: BroadcastAction;
+  /**
+   * `dry_run` — разрешить аудиторию и посчитать пачки и время без вызовов
+   * Telegram; `test` — отправить только `testRecipient`, без чекпоинта,
+   * телеметрии и журнала доставок.
+   */
+  mode?: 'dry_run' | 'test';
+  testRecipient?: BroadcastRecipient;
+  /**
+   * Доля общего лимита скорости, когда одновременно идут несколько задач.
+   */
+  priority?: BroadcastPriority;
   jobId?: string;
   resumeFrom?: BroadcastProgressCheckpoint;
   adminChat?: { chatId: string; threadId?: string };
@@ -64,9 +120,35 @@ export interface BroadcastSendResultDelivery {
   error?: { name: string; message: string };
 }
 
+/**
+ * Счётчики A/B-теста по идентификатору варианта.
+ */
+export type BroadcastVariantCounts = Record<string, { delivered: number; failed: number }>;
+
+/**
+ * Счётчики по языку отправленного текста: код перевода или
+ * `default` для основного текста.
+ */
+export type BroadcastLanguageCounts = Record<string, { delivered: number; failed: number }>;
+
+export interface BroadcastDryRunEstimate {
+  batches: number;
+  batchSize: number;
+  /**
+   * Пачка урезана бюджетом `maxBatchTextBytes`, а не настройкой `batchSize`.
+   */
+  limitedByTextBytes: boolean;
+  concurrency: number;
+  maxRps: number;
+  estimatedDurationMs: number;
+}
+
 export interface BroadcastSendResult {
   delivered: number;
   failed: number;
+  variants?: BroadcastVariantCounts;
+  languages?: BroadcastLanguageCounts;
+  dryRun?: BroadcastDryRunEstimate;
   deliveries: ReadonlyArray<BroadcastSendResultDelivery>;
   recipients: number;
   durationMs: number;
@@ -89,15 +171,23 @@ export interface BroadcastProgressCheckpoint {
   delivered: number;
   failed: number;
   throttled429: number;
+  variantCounts?: BroadcastVariantCounts;
+  languageCounts?: BroadcastLanguageCounts;
   reason?: BroadcastAbortReason;
   total: number;
   text: string;
+  content?: BroadcastContent;
   textHash: string;
   audienceHash: string;
   pool: Pick<Required<BroadcastPoolOptions>, 'concurrency' | 'maxRps'>;
   batchSize?: number;
   maxBatchTextBytes?: number;
   filters?: BroadcastAudienceFilter;
+  action?: BroadcastAction;
+  /**
+   * Нет в чекпоинтах, записанных до появления приоритетов: такие задачи идут как `normal`.
+   */
+  priority?: BroadcastPriority;
   source?: string | null;
   updatedAt: string;
   ttlSeconds?: number;
@@ -112,6 +202,12 @@ export interface BroadcastAdminNotificationInput {
   adminChat?: { chatId: string; threadId?: string };
 }
 
+export interface BroadcastRecipientBlockedInput {
+  jobId: string;
+  recipient: BroadcastRecipient;
+  error: { name: string; message: string };
+}
+
 export type BroadcastProgressKvNamespace = Pick<KVNamespace, 'get' | 'put' | 'delete' | 'list'>;
 
 export interface BroadcastPoolOptions {
@@ -156,9 +252,12 @@ export interface BroadcastWatchdogOptions {
   logIntervalMs?: number;
 }
 
+type BroadcastMessaging = Pick<MessagingPort, 'sendText' | 'sendMedia'>
+  & Partial<Pick<MessagingPort, 'editMessageText' | 'editMessageCaption' | 'deleteMessage'>>;
+
 type CommonBroadcastSenderOptions = {
-  messaging: Pick<MessagingPort, 'sendText'>;
-  messagingBroadcast?: Pick<MessagingPort, 'sendText'>;
+  messaging: BroadcastMessaging;
+  messagingBroadcast?: BroadcastMessaging;
   logger?: Logger;
   pool?: BroadcastPoolOptions;
   telemetry?: BroadcastTelemetry;
@@ -170,6 +269,25 @@ type CommonBroadcastSenderOptions = {
   maxBatchTextBytes?: number;
   jobIdGenerator?: () => string;
   onAdminNotification?: (input: BroadcastAdminNotificationInput) => Promise<void> | void;
+  /**
+   * Вызывается, когда Telegram отвечает 403 (бот заблокирован, пользователь удалён
+   * или бот исключён из чата), чтобы адресат не попадал в следующие рассылки.
+   */
+  onRecipientBlocked?: (input: BroadcastRecipientBlockedInput) => Promise<void> | void;
+  /**
+   * Пополучательный журнал доставок; пишется пачками вместе с чекпоинтом.
+   */
+  deliveryLog?: BroadcastDeliveryLog;
+  /**
+   * Общий лимитер для одновременных задач; по умолчанию свой у каждого
+   * отправителя, с лимитом `pool.maxRps`.
+   */
+  dispatcher?: BroadcastJobDispatcher;
+  /**
+   * Источник полей для плейсхолдеров `{first_name}` и т. п.; без него
+   * подставляются запасные значения.
+   */
+  profiles?: BroadcastRecipientProfiles;
   watchdog?: BroadcastWatchdogOptions;
 };
 
@@ -178,7 +296,10 @@ export interface CreateImmediateBroadcastSenderOptions extends CommonBroadcastSe
 }
 
 export interface BroadcastRecipientsRegistry {
-  listActiveRecipients(filter?: BroadcastAudienceFilter): Promise<BroadcastRecipient[]>;
+  listActiveRecipients(
+    filter?: BroadcastAudienceFilter,
+    listOptions?: { includeUnsubscribed?: boolean },
+  ): Promise<BroadcastRecipient[]>;
 }
 
 export interface CreateRegistryBroadcastSenderOptions extends CommonBroadcastSenderOptions {
@@ -237,7 +358,9 @@ const computeHash = async (value: string): Promise<string> => {
 
 const buildProgressKey = (jobId: string): string => `${BROADCAST_PROGRESS_KEY_PREFIX}${jobId}`;
 
-const buildAudienceHash = async (recipients: readonly BroadcastRecipient[]): Promise<string> => {
+const buildAudienceHash = async (
+  recipients: ReadonlyArray<Pick<BroadcastRecipient, 'chatId' | 'threadId'>>,
+): Promise<string> => {
   const payload = recipients.map((recipient) => ({
     chatId: recipient.chatId,
     threadId: recipient.threadId ?? null,
@@ -246,6 +369,25 @@ const buildAudienceHash = async (recipients: readonly BroadcastRecipient[]): Pro
   return computeHash(JSON.stringify(payload));
 };
 
+/**
+ * Хэши текста и аудитории в том же виде, в каком они попадают в чекпоинт.
+ */
+export const computeBroadcastTextHash = (text: string): Promise<string> => computeHash(text);
+
+/**
+ * Для простого текста совпадает с {@link computeBroadcastTextHash}, поэтому
+ * чекпоинты старых рассылок продолжают сверяться.
+ */
+export const computeBroadcastContentHash = (text: string, content?: BroadcastContent): Promise<string> =>
+  hasBroadcastContent(content) ? computeHash(JSON.stringify({ text, content })) : computeHash(text);
+
+export const computeBroadcastAudienceHash = (
+  recipients: ReadonlyArray<Pick<BroadcastRecipient, 'chatId' | 'threadId'>>,
+): Promise<string> => buildAudienceHash(recipients);
+
+const measureTextLength = (value: string): number =>
+  Math.max(getRawTextLength(value), getVisibleTextLength(value));
+
 const computeDelay = (
   retryIndex: number,
   baseDelayMs: number,
@@ -315,6 +457,22 @@ const createRateLimiter = (
   };
 };
 
+/**
+ * Время, которое ограничитель скорости отведёт на `count` отправок: первая
+ * уходит сразу, следующие — через интервал, последняя со средним джиттером.
+ * Задержки самого Telegram и ретраи не учитываются.
+ */
+const estimateRateLimitedDurationMs = (count: number, maxRps: number, rateJitterRatio: number): number => {
+  if (count <= 0) {
+    return 0;
+  }
+
+  const intervalMs = Math.ceil(1000 / Math.max(1, Math.floor(maxRps)));
+  const averageJitterMs = count > 1 ? (intervalMs * clamp(rateJitterRatio, 0, 1)) / 2 : 0;
+
+  return Math.ceil((count - 1) * intervalMs + averageJitterMs);
+};
+
 const isTooManyRequestsError = (error: unknown): error is Error & { status?: number } => {
   if (typeof error !== 'object' || error === null) {
     return false;
@@ -356,6 +514,8 @@ const getErrorStatus = (error: unknown): number | undefined => {
   return typeof status === 'number' && Number.isFinite(status) ? status : undefined;
 };
 
+const isRecipientBlockedError = (error: unknown): boolean => getErrorStatus(error) === 403;
+
 const shouldAbortOnFailure = (error: unknown): boolean => {
   const status = getErrorStatus(error);
   if (status === undefined) {
@@ -527,6 +687,87 @@ export const deleteBroadcastCheckpoint = async (
   logger?: Logger,
 ): Promise<void> => deleteCheckpoint(kv, jobId, logger);
 
+export interface BroadcastCheckpointCleanupOptions {
+  now: () => number;
+  /**
+   * Сколько хранить завершённые и прерванные чекпоинты после последнего обновления.
+   */
+  finishedRetentionMs?: number;
+  logger?: Logger;
+}
+
+export interface BroadcastCheckpointCleanupResult {
+  scanned: number;
+  deleted: number;
+}
+
+const DEFAULT_FINISHED_CHECKPOINT_RETENTION_MS = 6 * 60 * 60 * 1000;
+
+const resolveCheckpointExpiry = (checkpoint: BroadcastProgressCheckpoint): number | undefined => {
+  if (checkpoint.expiresAt) {
+    return new Date(checkpoint.expiresAt).getTime();
+  }
+
+  if (typeof checkpoint.ttlSeconds === 'number') {
+    return new Date(checkpoint.updatedAt).getTime() + checkpoint.ttlSeconds * 1000;
+  }
+
+  return undefined;
+};
+
+/**
+ * Удаляет чекпоинты с истёкшим сроком, давно завершённые или прерванные рассылки
+ * и записи, которые не удаётся разобрать (старые версии формата). Активные и
+ * приостановленные рассылки остаются до истечения их TTL.
+ */
+export const cleanupStaleBroadcastCheckpoints = async (
+  kv: BroadcastProgressKvNamespace,
+  options: BroadcastCheckpointCleanupOptions,
+): Promise<BroadcastCheckpointCleanupResult> => {
+  const timestamp = options.now();
+  const retentionMs = options.finishedRetentionMs ?? DEFAULT_FINISHED_CHECKPOINT_RETENTION_MS;
+  const staleKeys: string[] = [];
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  do {
+    const result = await kv.list({ prefix: BROADCAST_PROGRESS_KEY_PREFIX, cursor });
+    for (const key of result.keys) {
+      scanned += 1;
+      const checkpoint = parseCheckpoint(await kv.get(key.name, 'text'));
+      if (!checkpoint) {
+        staleKeys.push(key.name);
+        continue;
+      }
+
+      const expiry = resolveCheckpointExpiry(checkpoint);
+      const finished = checkpoint.status === 'completed' || checkpoint.status === 'aborted';
+      const updatedAt = new Date(checkpoint.updatedAt).getTime();
+
+      if (
+        (expiry !== undefined && expiry <= timestamp)
+        || (finished && (!Number.isFinite(updatedAt) || updatedAt + retentionMs <= timestamp))
+      ) {
+        staleKeys.push(key.name);
+      }
+    }
+
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+
+  let deleted = 0;
+  for (const name of staleKeys) {
+    try {
+      await kv.delete(name);
+      deleted += 1;
+    } catch (error) {
+      options.logger?.warn?.('broadcast_progress_delete_failed', { key: name, error: toErrorDetails(error) });
+    }
+  }
+
+  return { scanned, deleted };
+};
+
 const deduplicateRecipients = (
   recipients: readonly BroadcastRecipient[],
 ): BroadcastRecipient[] => {
@@ -583,8 +824,13 @@ interface ResolveRecipientsResult {
   source?: string;
 }
 
+interface ResolveRecipientsContext {
+  resume: boolean;
+}
+
 type ResolveRecipients = (
   filters?: BroadcastAudienceFilter,
+  context?: ResolveRecipientsContext,
 ) =>
   | Promise<readonly BroadcastRecipient[] | ResolveRecipientsResult>
   | readonly BroadcastRecipient[]
@@ -613,6 +859,7 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
   const watchdogMemoryLimitBytes = options.watchdog?.memoryLimitBytes;
   const watchdogMemoryUsage = options.watchdog?.memoryUsage ?? tryGetMemoryUsage;
   const watchdogLogIntervalMs = Math.max(1000, options.watchdog?.logIntervalMs ?? 30_000);
+  const dispatcher = options.dispatcher ?? createBroadcastJobDispatcher({ maxRps: configuredMaxRps, wait, now });
 
   const normalizeResolveResult = (
     result: Awaited<ReturnType<ResolveRecipients>>,
@@ -624,6 +871,20 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
     return result;
   };
 
+  const resolveDeliveredMessages = async (action: BroadcastAction): Promise<ResolveRecipientsResult> => {
+    const delivered = (await options.deliveryLog?.listDeliveredMessages?.(action.sourceJobId)) ?? [];
+
+    return {
+      recipients: delivered.map((entry) => ({
+        chatId: entry.chatId,
+        ...(entry.threadId ? { threadId: entry.threadId } : {}),
+        messageId: entry.messageId,
+        ...(entry.mediaKind ? { mediaKind: entry.mediaKind } : {}),
+      })),
+      source: 'deliveries',
+    } satisfies ResolveRecipientsResult;
+  };
+
   const generateJobId = () => {
     if (options.jobIdGenerator) {
       return options.jobIdGenerator();
@@ -638,19 +899,51 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
 
   return async (input) => {
     const text = (input.resumeFrom?.text ?? input.text).trim();
-    const rawLength = getRawTextLength(text);
-    const visibleLength = getVisibleTextLength(text);
+    const action = input.resumeFrom ? input.resumeFrom.action : input.action;
+    const content = action ? undefined : input.resumeFrom ? input.resumeFrom.content : input.content;
+    const media = content?.media;
+    const replyMarkup = buildBroadcastReplyMarkup(content?.buttons);
+    const variants = content?.variants?.length ? content.variants : undefined;
+    const translations = content?.translations?.length ? content.translations : undefined;
+    const alternativeTexts = [...(variants ?? []), ...(translations ?? [])].map((item) => item.text);
+    const templated = [text, ...alternativeTexts].some(hasBroadcastPlaceholders);
+    // Лимит и бюджет пачки считаются по самому длинному из вариантов и переводов
+    // с худшей подстановкой плейсхолдеров.
+    const longestText = alternativeTexts.reduce((longest, alternative) => {
+      const expanded = expandBroadcastTemplateWorstCase(alternative);
+      return measureTextLength(expanded) > measureTextLength(longest) ? expanded : longest;
+    }, expandBroadcastTemplateWorstCase(text));
+    const rawLength = getRawTextLength(longestText);
+    const visibleLength = getVisibleTextLength(longestText);
     const effectiveLength = Math.max(rawLength, visibleLength);
+    const lengthLimit = media ? Math.min(maxTextLength, BROADCAST_CAPTION_LIMIT) : maxTextLength;
 
-    if (effectiveLength > maxTextLength) {
-      const exceededBy = effectiveLength - maxTextLength;
+    if (media && !deliveryMessaging.sendMedia) {
+      throw new Error('Messaging port does not support media broadcasts');
+    }
+
+    if (action?.kind === 'recall' && !deliveryMessaging.deleteMessage) {
+      throw new Error('Messaging port does not support broadcast recall');
+    }
+
+    if (action?.kind === 'edit' && !deliveryMessaging.editMessageText) {
+      throw new Error('Messaging port does not support broadcast edit');
+    }
+
+    if (action && !options.deliveryLog?.listDeliveredMessages) {
+      throw new Error('Broadcast delivery log is required for recall and edit');
+    }
+
+    if (effectiveLength > lengthLimit) {
+      const exceededBy = effectiveLength - lengthLimit;
       const context = {
         requestedBy: input.requestedBy,
         rawLength,
         visibleLength,
         length: effectiveLength,
-        limit: maxTextLength,
+        limit: lengthLimit,
         exceededBy,
+        ...(media ? { caption: true } : {}),
       } satisfies Record<string, unknown>;
 
       options.logger?.warn?.('broadcast text exceeds limit', context);
@@ -658,6 +951,7 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
     }
 
     const jobId = input.resumeFrom?.jobId ?? input.jobId ?? generateJobId();
+    const priority = input.resumeFrom?.priority ?? input.priority ?? DEFAULT_BROADCAST_PRIORITY;
     let currentConcurrency = Math.max(
       1,
       Math.floor(input.resumeFrom?.pool?.concurrency ?? configuredConcurrency),
@@ -673,17 +967,26 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       wait,
       now,
     );
-    const resolveBatchSize = () => {
-      const limitByText = Math.max(1, Math.floor(maxBatchTextBytes / Math.max(1, effectiveLength)));
-      return Math.max(1, Math.min(configuredBatchSize, limitByText));
-    };
+    const limitByText = Math.max(1, Math.floor(maxBatchTextBytes / Math.max(1, effectiveLength)));
+    const resolveBatchSize = () => Math.max(1, Math.min(configuredBatchSize, limitByText));
     let effectiveBatchSize = resolveBatchSize();
     if (typeof input.resumeFrom?.batchSize === 'number') {
       effectiveBatchSize = Math.max(1, Math.min(effectiveBatchSize, Math.floor(input.resumeFrom.batchSize)));
     }
     let lastWatchdogLogAt = now();
-    const filters = input.resumeFrom?.filters ?? input.filters;
-    const resolved = normalizeResolveResult(await options.resolveRecipients(filters));
+    const testMode = input.mode === 'test';
+    if (testMode && !input.testRecipient) {
+      throw new Error('Test broadcast requires testRecipient');
+    }
+
+    const filters = action || testMode ? undefined : input.resumeFrom?.filters ?? input.filters;
+    const resolved = testMode && input.testRecipient
+      ? { recipients: [input.testRecipient], source: 'test' }
+      : action
+        ? await resolveDeliveredMessages(action)
+        : normalizeResolveResult(
+            await options.resolveRecipients(filters, { resume: Boolean(input.resumeFrom) }),
+          );
     const filtersToApply = filters;
     const recipients = deduplicateRecipients(
       applyAudienceFilters(
@@ -699,7 +1002,7 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       languageCode: recipient.languageCode ?? null,
     }));
 
-    const textHash = await computeHash(text);
+    const textHash = await computeBroadcastContentHash(text, content);
     const audienceHash = await buildAudienceHash(recipients);
 
     const downgradePool = (reason: 'throttled429' | 'memory') => {
@@ -786,6 +1089,39 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       jobId,
     });
 
+    if (input.mode === 'dry_run') {
+      const pending = Math.max(0, recipients.length - (input.resumeFrom?.offset ?? 0));
+      const dryRun = {
+        batches: Math.ceil(pending / effectiveBatchSize),
+        batchSize: effectiveBatchSize,
+        limitedByTextBytes: limitByText < configuredBatchSize,
+        concurrency: currentConcurrency,
+        maxRps: currentMaxRps,
+        estimatedDurationMs: estimateRateLimitedDurationMs(pending, currentMaxRps, poolOptions.rateJitterRatio),
+      } satisfies BroadcastDryRunEstimate;
+
+      options.logger?.info?.('broadcast dry run', {
+        requestedBy: input.requestedBy,
+        recipients: recipients.length,
+        filters: filters ?? null,
+        source: resolved.source ?? null,
+        ...dryRun,
+        jobId,
+      });
+
+      return {
+        delivered: 0,
+        failed: 0,
+        deliveries: [],
+        recipients: recipients.length,
+        durationMs: 0,
+        source: resolved.source ?? null,
+        sample: recipientsSample,
+        throttled429: 0,
+        dryRun,
+      } satisfies BroadcastSendResult;
+    }
+
     if (recipients.length === 0) {
       options.logger?.warn?.('broadcast recipients list is empty', {
         requestedBy: input.requestedBy,
@@ -819,6 +1155,7 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       rateJitterRatio: poolOptions.rateJitterRatio,
       batchSize: effectiveBatchSize,
       maxBatchTextBytes,
+      priority,
       jobId,
     });
 
@@ -833,6 +1170,27 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
     let deliveredCount = input.resumeFrom?.delivered ?? 0;
     let failedCount = input.resumeFrom?.failed ?? 0;
     let offset = Math.max(0, Math.min(input.resumeFrom?.offset ?? 0, recipients.length));
+    const variantCounts: BroadcastVariantCounts = { ...input.resumeFrom?.variantCounts };
+    const languageCounts: BroadcastLanguageCounts = { ...input.resumeFrom?.languageCounts };
+    const increment = (
+      counts: Record<string, { delivered: number; failed: number }>,
+      key: string | undefined,
+      field: 'delivered' | 'failed',
+    ) => {
+      if (!key) {
+        return;
+      }
+
+      const current = counts[key] ?? { delivered: 0, failed: 0 };
+      counts[key] = { ...current, [field]: current[field] + 1 };
+    };
+    const countOutcome = (
+      keys: { variantId?: string; language?: string },
+      field: 'delivered' | 'failed',
+    ) => {
+      increment(variantCounts, keys.variantId, field);
+      increment(languageCounts, keys.language, field);
+    };
     let abortedError: BroadcastAbortedError | undefined;
     let notifiedAbort = false;
 
@@ -847,6 +1205,46 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
           : undefined as unknown as BroadcastSendResultDelivery,
     );
 
+    const deliveryLogBuffer: BroadcastDeliveryLogEntry[] = [];
+
+    const logDelivery = (
+      recipient: BroadcastRecipient,
+      entry: Pick<
+        BroadcastDeliveryLogEntry,
+        'status' | 'messageId' | 'errorCode' | 'error' | 'attempts' | 'variant' | 'mediaKind'
+      >,
+    ) => {
+      if (!options.deliveryLog || testMode) {
+        return;
+      }
+
+      deliveryLogBuffer.push({
+        jobId,
+        chatId: recipient.chatId,
+        ...(recipient.threadId ? { threadId: recipient.threadId } : {}),
+        ...entry,
+        sentAt: new Date(now()),
+      });
+    };
+
+    // Ошибка записи журнала не должна останавливать рассылку.
+    const flushDeliveryLog = async () => {
+      if (!options.deliveryLog || deliveryLogBuffer.length === 0) {
+        return;
+      }
+
+      const entries = deliveryLogBuffer.splice(0, deliveryLogBuffer.length);
+      try {
+        await options.deliveryLog.record(entries);
+      } catch (error) {
+        options.logger?.warn?.('broadcast delivery log write failed', {
+          jobId,
+          entries: entries.length,
+          error: toErrorDetails(error),
+        });
+      }
+    };
+
     const seenKeys = new Set<string>();
     for (let index = 0; index < offset; index += 1) {
       const recipient = recipients[index];
@@ -879,14 +1277,19 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
         delivered: deliveredCount,
         failed: failedCount,
         throttled429: throttledErrors,
+        ...(variants ? { variantCounts: { ...variantCounts } } : {}),
+        ...(translations ? { languageCounts: { ...languageCounts } } : {}),
         total: recipients.length,
         text,
+        ...(content ? { content } : {}),
         textHash,
         audienceHash,
         pool: { concurrency: currentConcurrency, maxRps: currentMaxRps },
         batchSize: effectiveBatchSize,
         maxBatchTextBytes,
         filters: filters ?? undefined,
+        ...(action ? { action } : {}),
+        priority,
         source: resolved.source ?? null,
         updatedAt: new Date(now()).toISOString(),
         ttlSeconds: progressTtlSeconds,
@@ -900,7 +1303,10 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       reason?: BroadcastAbortReason,
     ) => {
       const checkpoint = buildCheckpoint(status, reason);
-      await saveCheckpoint(options.progressKv, checkpoint, options.logger);
+      if (!testMode) {
+        await saveCheckpoint(options.progressKv, checkpoint, options.logger);
+      }
+
       return checkpoint;
     };
 
@@ -908,7 +1314,7 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       status: 'paused' | 'aborted',
       reason: BroadcastAbortReason,
     ): Promise<void> => {
-      if (!options.onAdminNotification) {
+      if (!options.onAdminNotification || testMode) {
         return;
       }
 
@@ -975,6 +1381,41 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       }
     };
 
+    const applyAction = async (
+      current: BroadcastAction,
+      recipient: BroadcastRecipient,
+      recipientText: string,
+    ): Promise<{ messageId?: string }> => {
+      const messageId = recipient.messageId ?? '';
+      if (current.kind === 'recall') {
+        await deliveryMessaging.deleteMessage?.({
+          chatId: recipient.chatId,
+          threadId: recipient.threadId,
+          messageId,
+        });
+      } else if (recipient.mediaKind) {
+        if (!deliveryMessaging.editMessageCaption) {
+          throw new Error('Messaging port does not support caption edit');
+        }
+
+        await deliveryMessaging.editMessageCaption({
+          chatId: recipient.chatId,
+          threadId: recipient.threadId,
+          messageId,
+          caption: recipientText,
+        });
+      } else {
+        await deliveryMessaging.editMessageText?.({
+          chatId: recipient.chatId,
+          threadId: recipient.threadId,
+          messageId,
+          text: recipientText,
+        });
+      }
+
+      return { messageId };
+    };
+
     const sendWithRetry = async (
       recipient: BroadcastRecipient,
     ): Promise<BroadcastSendResultDelivery> => {
@@ -989,15 +1430,45 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
         } satisfies BroadcastSendResultDelivery;
       }
 
+      // Перевод на язык получателя важнее A/B-теста: варианты делят только
+      // тех, кому уходит основной текст.
+      const translation = selectBroadcastTranslation(translations, recipient.languageCode);
+      const variant = translation ? undefined : assignBroadcastVariant(variants, { jobId, chatId: recipient.chatId });
+      const variantId = variants && !translation ? variant?.id ?? BROADCAST_BASE_VARIANT_ID : undefined;
+      const language = translations ? translation?.languageCode ?? BROADCAST_DEFAULT_LANGUAGE : undefined;
+      const outcomeKeys = { variantId, language };
+      const template = translation?.text ?? variant?.text ?? text;
+      const templateEntities = translation || variant ? undefined : content?.entities;
+      const { text: recipientText, entities } = templated
+        ? renderBroadcastTemplate(template, batchProfiles.get(recipient.chatId), templateEntities)
+        : { text: template, entities: templateEntities };
+
       while (attempt < maxAttempts) {
         ensureNotAborted();
         try {
           await rateLimiter();
-          const result = await deliveryMessaging.sendText({
-            chatId: recipient.chatId,
-            threadId: recipient.threadId,
-            text,
-          });
+          await lane.acquire();
+          const result = action
+            ? await applyAction(action, recipient, recipientText)
+            : media && deliveryMessaging.sendMedia
+            ? await deliveryMessaging.sendMedia({
+                chatId: recipient.chatId,
+                threadId: recipient.threadId,
+                kind: media.kind,
+                fileId: media.fileId,
+                ...(recipientText ? { caption: recipientText } : {}),
+                ...(entities ? { captionEntities: entities } : {}),
+                ...(content?.parseMode ? { parseMode: content.parseMode } : {}),
+                ...(replyMarkup ? { replyMarkup } : {}),
+              })
+            : await deliveryMessaging.sendText({
+                chatId: recipient.chatId,
+                threadId: recipient.threadId,
+                text: recipientText,
+                ...(entities ? { entities } : {}),
+                ...(content?.parseMode ? { parseMode: content.parseMode } : {}),
+                ...(replyMarkup ? { replyMarkup } : {}),
+              });
 
           options.logger?.info?.('broadcast delivered', {
             requestedBy: input.requestedBy,
@@ -1009,7 +1480,17 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
           });
 
           deliveredCount += 1;
+          countOutcome(outcomeKeys, 'delivered');
           seenKeys.add(recipientKey);
+          // Отзыв и правка пишутся своим статусом: сообщение принадлежит
+          // исходной рассылке, и ответы на него засчитываются ей.
+          logDelivery(recipient, {
+            status: action ? (action.kind === 'recall' ? 'recalled' : 'edited') : 'delivered',
+            ...(result?.messageId ? { messageId: result.messageId } : {}),
+            attempts: attempt + 1,
+            ...(variantId ? { variant: variantId } : {}),
+            ...(media ? { mediaKind: media.kind } : {}),
+          });
 
           return {
             recipient,
@@ -1059,8 +1540,29 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
               jobId,
             });
 
+            if (options.onRecipientBlocked && !testMode && isRecipientBlockedError(error)) {
+              try {
+                await options.onRecipientBlocked({ jobId, recipient, error: details });
+              } catch (callbackError) {
+                options.logger?.warn?.('broadcast recipient block report failed', {
+                  chatId: recipient.chatId,
+                  jobId,
+                  error: toErrorDetails(callbackError),
+                });
+              }
+            }
+
             failedCount += 1;
+            countOutcome(outcomeKeys, 'failed');
             seenKeys.add(recipientKey);
+            const errorCode = getErrorStatus(error);
+            logDelivery(recipient, {
+              status: 'failed',
+              ...(typeof errorCode === 'number' ? { errorCode } : {}),
+              error: details.message,
+              attempts: attempt + 1,
+              ...(variantId ? { variant: variantId } : {}),
+            });
 
             return {
               recipient,
@@ -1095,7 +1597,14 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
 
       const details = toErrorDetails(new Error('broadcast delivery exceeded retries'));
       failedCount += 1;
+      countOutcome(outcomeKeys, 'failed');
       seenKeys.add(recipientKey);
+      logDelivery(recipient, {
+        status: 'failed',
+        error: details.message,
+        attempts: maxAttempts,
+        ...(variantId ? { variant: variantId } : {}),
+      });
 
       return {
         recipient,
@@ -1103,7 +1612,28 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       } satisfies BroadcastSendResultDelivery;
     };
 
+    let batchProfiles = new Map<string, BroadcastRecipientProfile>();
+    const loadBatchProfiles = async (startIndex: number, endIndex: number) => {
+      if (!templated || !options.profiles) {
+        return;
+      }
+
+      const chatIds = recipients.slice(startIndex, endIndex).map((recipient) => recipient.chatId);
+      try {
+        batchProfiles = await options.profiles.loadProfiles(chatIds);
+      } catch (error) {
+        // Без профилей пачка уходит с запасными значениями, а не останавливает рассылку.
+        batchProfiles = new Map();
+        options.logger?.warn?.('broadcast profiles load failed', {
+          jobId,
+          recipients: chatIds.length,
+          error: toErrorDetails(error),
+        });
+      }
+    };
+
     const processBatch = async (startIndex: number, endIndex: number) => {
+      await loadBatchProfiles(startIndex, endIndex);
       let nextIndex = startIndex;
 
       const worker = async (): Promise<void> => {
@@ -1123,6 +1653,7 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       await Promise.all(Array.from({ length: currentConcurrency }, () => worker()));
     };
 
+    const lane = dispatcher.register(priority);
     let aborted = false;
     try {
       while (offset < recipients.length) {
@@ -1134,6 +1665,7 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
         runWatchdog('batch');
 
         await processBatch(startIndex, endIndex);
+        await flushDeliveryLog();
 
         offset = endIndex;
         await persistCheckpoint('running');
@@ -1141,13 +1673,14 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
     } catch (error) {
       if (error instanceof BroadcastAbortedError) {
         aborted = true;
+        await flushDeliveryLog();
         if (!notifiedAbort) {
           const status =
             error.reason === 'telegram_limit_exceeded' || error.reason === 'oom_signal'
               ? 'paused'
               : 'aborted';
           const checkpoint = await persistCheckpoint(status, error.reason);
-          if (options.onAdminNotification) {
+          if (options.onAdminNotification && !testMode) {
             await options.onAdminNotification({
               jobId,
               status,
@@ -1171,6 +1704,8 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
       } else {
         throw error;
       }
+    } finally {
+      lane.release();
     }
 
     const durationMs = now() - startedAt;
@@ -1213,24 +1748,30 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
 
     const completedAt = new Date(startedAt + durationMs);
 
-    await options.telemetry?.record({
-      requestedBy: input.requestedBy,
-      recipients: recipients.length,
-      delivered: deliveredCount,
-      failed: failedCount,
-      throttled429: throttledErrors,
-      durationMs,
-      startedAt: new Date(startedAt),
-      completedAt,
-      status: aborted && abortedError ? 'aborted' : 'ok',
-      abortReason: abortedError?.reason,
-      error: abortedError
-        ? { name: abortedError.name, message: abortedError.message }
-        : undefined,
-      filters,
-    });
+    if (!testMode) {
+      await options.telemetry?.record({
+        requestedBy: input.requestedBy,
+        recipients: recipients.length,
+        delivered: deliveredCount,
+        failed: failedCount,
+        throttled429: throttledErrors,
+        durationMs,
+        startedAt: new Date(startedAt),
+        completedAt,
+        status: aborted && abortedError ? 'aborted' : 'ok',
+        abortReason: abortedError?.reason,
+        error: abortedError
+          ? { name: abortedError.name, message: abortedError.message }
+          : undefined,
+        filters,
+        ...(filters?.segment ? { segment: filters.segment } : {}),
+        ...(action ? { action: action.kind } : {}),
+        ...(variants ? { variants: { ...variantCounts } } : {}),
+        ...(translations ? { languages: { ...languageCounts } } : {}),
+      });
+    }
 
-    if (!aborted) {
+    if (!aborted && !testMode) {
       await deleteCheckpoint(options.progressKv, jobId, options.logger);
     }
 
@@ -1241,6 +1782,8 @@ const createBroadcastSender = (options: CreateBroadcastSenderOptions): SendBroad
     return {
       delivered: deliveredCount,
       failed: failedCount,
+      ...(variants ? { variants: { ...variantCounts } } : {}),
+      ...(translations ? { languages: { ...languageCounts } } : {}),
       deliveries,
       recipients: recipients.length,
       durationMs,
@@ -1276,13 +1819,20 @@ export const createImmediateBroadcastSender = (
     maxBatchTextBytes: options.maxBatchTextBytes,
     jobIdGenerator: options.jobIdGenerator,
     onAdminNotification: options.onAdminNotification,
+    onRecipientBlocked: options.onRecipientBlocked,
+    deliveryLog: options.deliveryLog,
+    dispatcher: options.dispatcher,
+    profiles: options.profiles,
     watchdog: options.watchdog,
   });
 
 export const createRegistryBroadcastSender = (
   options: CreateRegistryBroadcastSenderOptions,
 ): SendBroadcast => {
-  const resolveRecipients = async (filters?: BroadcastAudienceFilter) => {
+  const resolveRecipients = async (
+    filters?: BroadcastAudienceFilter,
+    context?: ResolveRecipientsContext,
+  ) => {
     const sanitizedFilters = filters
       ? (Object.fromEntries(
           (
@@ -1290,13 +1840,20 @@ export const createRegistryBroadcastSender = (
               ['chatIds', filters.chatIds],
               ['userIds', filters.userIds],
               ['languageCodes', filters.languageCodes],
+              ['utmSources', filters.utmSources],
+              ['activeSince', filters.activeSince],
+              ['segment', filters.segment],
             ] as const
           ).filter(([, value]) => value?.length),
         ) as BroadcastAudienceFilter)
       : undefined;
 
     try {
-      const fromRegistry = await options.registry.listActiveRecipients(sanitizedFilters);
+      // При возобновлении аудитория должна совпасть с чекпоинтом, поэтому
+      // отписавшиеся во время паузы адресаты не исключаются.
+      const fromRegistry = context?.resume
+        ? await options.registry.listActiveRecipients(sanitizedFilters, { includeUnsubscribed: true })
+        : await options.registry.listActiveRecipients(sanitizedFilters);
       if (fromRegistry.length > 0) {
         options.logger?.info?.('broadcast using registry recipients', {
           filters: sanitizedFilters ?? null,
@@ -1337,6 +1894,10 @@ export const createRegistryBroadcastSender = (
     maxBatchTextBytes: options.maxBatchTextBytes,
     jobIdGenerator: options.jobIdGenerator,
     onAdminNotification: options.onAdminNotification,
+    onRecipientBlocked: options.onRecipientBlocked,
+    deliveryLog: options.deliveryLog,
+    dispatcher: options.dispatcher,
+    profiles: options.profiles,
     watchdog: options.watchdog,
   });
 };
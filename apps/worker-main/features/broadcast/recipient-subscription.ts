@@ -0,0 +1,124 @@
+import type { IncomingMessage } from '../../core';
+import type { TelegramChatMemberContext, TransformPayloadContext } from '../../http';
+import type { BroadcastRecipientBlockedInput } from './minimal-broadcast-service';
+import type { BroadcastRecipientUnsubscribeReason, BroadcastRecipientsStore } from './recipients-store';
+
+interface Logger {
+  info?(message: string, details?: Record<string, unknown>): void;
+  warn?(message: string, details?: Record<string, unknown>): void;
+  error?(message: string, details?: Record<string, unknown>): void;
+}
+
+export interface CreateBroadcastSubscriptionTrackerOptions {
+  store: Pick<BroadcastRecipientsStore, 'markUnsubscribed' | 'reactivateRecipient'>;
+  logger?: Logger;
+}
+
+export interface BroadcastSubscriptionTracker {
+  /**
+   * Отмечает блокировку (`kicked`), выход из чата (`left`) и повторную
+   * подписку (`member`, `administrator`) из update `my_chat_member`.
+   */
+  handleChatMemberUpdate(context: TelegramChatMemberContext): Promise<void>;
+  /**
+   * Снимает отметку об отписке, когда пользователь снова присылает `/start`.
+   * Никогда не перехватывает сообщение — дальше оно обрабатывается как обычно.
+   */
+  handleMessage(message: IncomingMessage, context?: TransformPayloadContext): Promise<void>;
+  /**
+   * Подходит для `onRecipientBlocked` отправителя рассылки: 403 при доставке
+   * означает, что бот заблокирован.
+   */
+  handleRecipientBlocked(input: BroadcastRecipientBlockedInput): Promise<void>;
+}
+
+const START_COMMAND_PATTERN = /^\/start(?:@\S+)?(?:\s|$)/iu;
+const ACTIVE_MEMBER_STATUSES = new Set(['member', 'administrator', 'creator']);
+
+const resolveUnsubscribeReason = (status: string): BroadcastRecipientUnsubscribeReason | undefined => {
+  if (status === 'kicked') {
+    return 'blocked';
+  }
+
+  if (status === 'left') {
+    return 'left';
+  }
+
+  return undefined;
+};
+
+const toErrorDetails = (error: unknown) =>
+  error instanceof Error ? { name: error.name, message: error.message } : { message: String(error) };
+
+export const createBroadcastSubscriptionTracker = (
+  options: CreateBroadcastSubscriptionTrackerOptions,
+): BroadcastSubscriptionTracker => {
+  const markUnsubscribed = async (
+    chatId: string,
+    reason: BroadcastRecipientUnsubscribeReason,
+    source: string,
+  ) => {
+    try {
+      await options.store.markUnsubscribed({ chatId, reason });
+    } catch (error) {
+      options.logger?.error?.('[broadcast] failed to record unsubscribe', {
+        chatId,
+        reason,
+        source,
+        error: toErrorDetails(error),
+      });
+    }
+  };
+
+  const reactivate = async (chatId: string, source: string) => {
+    try {
+      await options.store.reactivateRecipient(chatId);
+    } catch (error) {
+      options.logger?.error?.('[broadcast] failed to reactivate recipient', {
+        chatId,
+        source,
+        error: toErrorDetails(error),
+      });
+    }
+  };
+
+  return {
+    async handleChatMemberUpdate(context) {
+      const reason = resolveUnsubscribeReason(context.status);
+      const task = reason
+        ? markUnsubscribed(context.chat.id, reason, 'my_chat_member')
+        : ACTIVE_MEMBER_STATUSES.has(context.status)
+          ? reactivate(context.chat.id, 'my_chat_member')
+          : undefined;
+
+      if (!task) {
+        return;
+      }
+
+      if (context.waitUntil) {
+        context.waitUntil(task);
+        return;
+      }
+
+      await task;
+    },
+
+    async handleMessage(message, context) {
+      if (!START_COMMAND_PATTERN.test(message.text?.trim() ?? '')) {
+        return;
+      }
+
+      const task = reactivate(message.chat.id, 'start');
+      if (context?.waitUntil) {
+        context.waitUntil(task);
+        return;
+      }
+
+      await task;
+    },
+
+    async handleRecipientBlocked(input) {
+      await markUnsubscribed(input.recipient.chatId, 'blocked', 'delivery_403');
+    },
+  };
+};
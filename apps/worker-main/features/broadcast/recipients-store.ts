@@ -1,9 +1,12 @@
 import type { BroadcastAudienceFilter } from './broadcast-payload';
+import { buildBroadcastSegmentClauses, hasBroadcastSegmentFilter } from './broadcast-segments';
+import type { BroadcastRecipientProfile, BroadcastRecipientProfiles } from './broadcast-templates';
 import type { BroadcastRecipient } from './minimal-broadcast-service';
 
 interface D1PreparedStatement {
   bind(...values: unknown[]): D1PreparedStatement;
   all<T = unknown>(): Promise<{ results: T[] }>;
+  run(): Promise<{ meta?: { changes?: number } }>;
 }
 
 interface D1Database {
@@ -30,14 +33,36 @@ export interface BroadcastRecipientUpsertInput {
   languageCode?: string;
 }
 
+/**
+ * `blocked` — пользователь заблокировал бота (`kicked` или 403 при доставке),
+ * `left` — бот покинул чат или его удалили из группы.
+ */
+export type BroadcastRecipientUnsubscribeReason = 'blocked' | 'left';
+
+export interface BroadcastRecipientUnsubscribeInput {
+  chatId: string;
+  reason: BroadcastRecipientUnsubscribeReason;
+}
+
+export interface BroadcastRecipientsListOptions {
+  /**
+   * Не исключать отписавшихся: нужно при возобновлении рассылки, чтобы
+   * аудитория совпала с чекпоинтом.
+   */
+  includeUnsubscribed?: boolean;
+}
+
 export interface BroadcastRecipientsStoreSampleOptions {
   usernames?: readonly string[];
   userIds?: readonly string[];
   limit?: number;
 }
 
-export interface BroadcastRecipientsStore {
-  listActiveRecipients(filter?: BroadcastAudienceFilter): Promise<BroadcastRecipient[]>;
+export interface BroadcastRecipientsStore extends BroadcastRecipientProfiles {
+  listActiveRecipients(
+    filter?: BroadcastAudienceFilter,
+    listOptions?: BroadcastRecipientsListOptions,
+  ): Promise<BroadcastRecipient[]>;
   listActiveRecords(): Promise<BroadcastRecipientRecord[]>;
   listSample(options?: BroadcastRecipientsStoreSampleOptions): Promise<{
     items: BroadcastRecipient[];
@@ -45,6 +70,14 @@ export interface BroadcastRecipientsStore {
   }>;
   upsertRecipient(input: BroadcastRecipientUpsertInput): Promise<void>;
   deactivateRecipient(chatId: string): Promise<void>;
+  /**
+   * Помечает чат как отписавшийся, после чего он не попадает в рассылки.
+   */
+  markUnsubscribed(input: BroadcastRecipientUnsubscribeInput): Promise<void>;
+  /**
+   * Снимает отметку об отписке, например после `/start` или статуса `member`.
+   */
+  reactivateRecipient(chatId: string): Promise<void>;
 }
 
 export interface CreateBroadcastRecipientsStoreOptions {
@@ -64,6 +97,16 @@ interface BroadcastRecipientRow {
   isBot: number | null;
 }
 
+interface BroadcastRecipientProfileRow {
+  userId: string | number;
+  firstName: string | null;
+  username: string | null;
+  utmSource: string | null;
+}
+
+// D1 принимает не больше 100 параметров в одном запросе.
+const PROFILES_CHUNK_SIZE = 100;
+
 const CACHE_VERSION = 1;
 const DEFAULT_CACHE_KEY = 'broadcast:recipients:active';
 
@@ -183,7 +226,17 @@ const deduplicateRecipients = (recipients: BroadcastRecipient[]): BroadcastRecip
   return result;
 };
 
-const buildRecipientsWhereClause = (filters?: BroadcastRecipientsStoreSampleOptions) => {
+const UNSUBSCRIBED_CHATS_CLAUSE = `NOT EXISTS (
+        SELECT 1 FROM broadcast_recipients br
+        WHERE br.chat_id = m.chat_id
+          AND (br.blocked_at IS NOT NULL OR br.unsubscribed_at IS NOT NULL)
+      )`;
+
+const buildRecipientsWhereClause = (
+  filters?: BroadcastRecipientsStoreSampleOptions,
+  listOptions?: BroadcastRecipientsListOptions,
+  segment?: BroadcastAudienceFilter,
+) => {
   const usernames = normalizeList(filters?.usernames);
   const userIds = normalizeList(filters?.userIds);
 
@@ -194,6 +247,10 @@ const buildRecipientsWhereClause = (filters?: BroadcastRecipientsStoreSampleOpti
   ];
   const bindings: unknown[] = [];
 
+  if (!listOptions?.includeUnsubscribed) {
+    clauses.push(UNSUBSCRIBED_CHATS_CLAUSE);
+  }
+
   if (usernames?.length) {
     clauses.push(`LOWER(u.username) IN (${usernames.map(() => '?').join(', ')})`);
     bindings.push(...usernames);
@@ -204,6 +261,10 @@ const buildRecipientsWhereClause = (filters?: BroadcastRecipientsStoreSampleOpti
     bindings.push(...userIds);
   }
 
+  const segmentClauses = buildBroadcastSegmentClauses(segment);
+  clauses.push(...segmentClauses.clauses);
+  bindings.push(...segmentClauses.bindings);
+
   const whereClause = clauses.map((clause, index) => `${index === 0 ? 'WHERE' : '  AND'} ${clause}`).join('\n');
 
   return { whereClause, bindings };
@@ -224,8 +285,10 @@ export const createBroadcastRecipientsStore = (
   const queryRecipients = async (
     filters?: BroadcastRecipientsStoreSampleOptions,
     limit?: number,
+    listOptions?: BroadcastRecipientsListOptions,
+    segment?: BroadcastAudienceFilter,
   ): Promise<{ records: BroadcastRecipientRecord[]; count: number }> => {
-    const { whereClause, bindings } = buildRecipientsWhereClause(filters);
+    const { whereClause, bindings } = buildRecipientsWhereClause(filters, listOptions, segment);
     const limitClause = limit && Number.isFinite(limit) && limit > 0 ? 'LIMIT ?' : '';
 
     const selectSql = `
@@ -233,7 +296,10 @@ export const createBroadcastRecipientsStore = (
         m.chat_id AS chatId,
         MIN(m.timestamp) AS createdAt,
         LOWER(NULLIF(u.username, '')) AS username,
-        LOWER(NULLIF(u.language_code, '')) AS languageCode,
+        LOWER(COALESCE(
+          NULLIF(u.language_code, ''),
+          (SELECT lang.language_code FROM broadcast_recipients lang WHERE lang.chat_id = m.chat_id)
+        )) AS languageCode,
         MAX(COALESCE(json_extract(u.metadata, "$.isBot"), 0)) AS isBot
       FROM messages m
       LEFT JOIN users u ON u.user_id = m.user_id
@@ -271,7 +337,16 @@ export const createBroadcastRecipientsStore = (
     }
   };
 
-  const readActiveRecipients = async (): Promise<BroadcastRecipient[]> => {
+  const readActiveRecipients = async (
+    listOptions?: BroadcastRecipientsListOptions,
+    segment?: BroadcastAudienceFilter,
+  ): Promise<BroadcastRecipient[]> => {
+    // Сегменты считаются в D1 напрямую: кэш хранит только полную аудиторию.
+    if (listOptions?.includeUnsubscribed || hasBroadcastSegmentFilter(segment)) {
+      const { records } = await queryRecipients(undefined, undefined, listOptions, segment);
+      return deduplicateRecipients(records.map(toRecipient));
+    }
+
     if (options.cache) {
       const cached = parseCachePayload(await options.cache.get(cacheKey));
       if (cached) {
@@ -318,8 +393,8 @@ export const createBroadcastRecipientsStore = (
   };
 
   return {
-    async listActiveRecipients(filter) {
-      const recipients = await readActiveRecipients();
+    async listActiveRecipients(filter, listOptions) {
+      const recipients = await readActiveRecipients(listOptions, filter);
 
       if (!filter || (!filter.chatIds && !filter.userIds)) {
         return recipients;
@@ -353,6 +428,32 @@ export const createBroadcastRecipientsStore = (
 
       return { items: records.map(toRecipient), count };
     },
+    async loadProfiles(chatIdsInput) {
+      const chatIds = Array.from(new Set(chatIdsInput.map(normalizeChatId).filter((chatId) => chatId.length > 0)));
+      const profiles = new Map<string, BroadcastRecipientProfile>();
+
+      for (let index = 0; index < chatIds.length; index += PROFILES_CHUNK_SIZE) {
+        const chunk = chatIds.slice(index, index + PROFILES_CHUNK_SIZE);
+        const { results } = await options.db
+          .prepare(
+            `SELECT user_id AS userId, first_name AS firstName, username, utm_source AS utmSource
+            FROM users
+            WHERE user_id IN (${chunk.map(() => '?').join(', ')});`,
+          )
+          .bind(...chunk)
+          .all<BroadcastRecipientProfileRow>();
+
+        for (const row of results) {
+          profiles.set(String(row.userId), {
+            ...(row.firstName ? { firstName: row.firstName } : {}),
+            ...(row.username ? { username: row.username } : {}),
+            ...(row.utmSource ? { utmSource: row.utmSource } : {}),
+          });
+        }
+      }
+
+      return profiles;
+    },
     async upsertRecipient(input) {
       options.logger?.warn?.('upsert recipient ignored for derived registry', {
         chatId: normalizeChatId(input.chatId),
@@ -365,6 +466,69 @@ export const createBroadcastRecipientsStore = (
       });
       await invalidateCache();
     },
+    async markUnsubscribed(input) {
+      const chatId = normalizeChatId(input.chatId);
+      if (!chatId) {
+        return;
+      }
+
+      const column = input.reason === 'blocked' ? 'blocked_at' : 'unsubscribed_at';
+      const timestamp = Math.floor(now().getTime() / 1000);
+
+      try {
+        await options.db
+          .prepare(
+            `INSERT INTO broadcast_recipients (chat_id, ${column}, active_flag)
+            VALUES (?, ?, 0)
+            ON CONFLICT(chat_id) DO UPDATE SET ${column} = excluded.${column}, active_flag = 0;`,
+          )
+          .bind(chatId, timestamp)
+          .run();
+      } catch (error) {
+        options.logger?.error?.('failed to mark broadcast recipient unsubscribed', {
+          chatId,
+          reason: input.reason,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+
+      options.logger?.info?.('broadcast recipient unsubscribed', { chatId, reason: input.reason });
+      await invalidateCache();
+    },
+    async reactivateRecipient(chatIdInput) {
+      const chatId = normalizeChatId(chatIdInput);
+      if (!chatId) {
+        return;
+      }
+
+      let changes: number | undefined;
+      try {
+        const result = await options.db
+          .prepare(
+            `UPDATE broadcast_recipients
+            SET blocked_at = NULL, unsubscribed_at = NULL, active_flag = 1
+            WHERE chat_id = ? AND (blocked_at IS NOT NULL OR unsubscribed_at IS NOT NULL);`,
+          )
+          .bind(chatId)
+          .run();
+        changes = result?.meta?.changes;
+      } catch (error) {
+        options.logger?.error?.('failed to reactivate broadcast recipient', {
+          chatId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+
+      // `/start` приходит и от никогда не отписывавшихся, кэш трогаем только при изменениях.
+      if (changes === 0) {
+        return;
+      }
+
+      options.logger?.info?.('broadcast recipient reactivated', { chatId });
+      await invalidateCache();
+    },
   } satisfies BroadcastRecipientsStore;
 };
 
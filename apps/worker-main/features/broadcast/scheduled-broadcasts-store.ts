@@ -0,0 +1,297 @@
+import {
+  parseBroadcastContent,
+  type BroadcastAudienceFilter,
+  type BroadcastContent,
+} from './broadcast-payload';
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  all<T = unknown>(): Promise<{ results: T[] }>;
+  first<T = unknown>(): Promise<T | null>;
+  run(): Promise<{ meta?: { changes?: number } }>;
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+/**
+ * `running` выставляется при захвате задания cron-запуском, поэтому одно
+ * задание не стартует дважды даже при параллельных срабатываниях.
+ */
+export type ScheduledBroadcastStatus = 'scheduled' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScheduledBroadcast {
+  jobId: string;
+  text: string;
+  content?: BroadcastContent;
+  /**
+   * Хэш текста вместе с содержимым, см. `computeBroadcastContentHash`.
+   */
+  textHash: string;
+  audienceHash: string;
+  audienceMode: 'all' | 'list' | 'segment';
+  audienceTotal: number;
+  filters?: BroadcastAudienceFilter;
+  sendAt: Date;
+  timeZone: string;
+  requestedBy: string;
+  adminChat: { chatId: string; threadId?: string };
+  status: ScheduledBroadcastStatus;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  cancelledBy?: string;
+  delivered?: number;
+  failed?: number;
+  error?: string;
+}
+
+export type ScheduledBroadcastCreateInput = Omit<
+  ScheduledBroadcast,
+  'status' | 'createdAt' | 'startedAt' | 'finishedAt' | 'cancelledBy' | 'delivered' | 'failed' | 'error'
+>;
+
+export interface ScheduledBroadcastFinishInput {
+  status: 'completed' | 'failed';
+  delivered?: number;
+  failed?: number;
+  error?: string;
+}
+
+export interface ScheduledBroadcastsStore {
+  create(input: ScheduledBroadcastCreateInput): Promise<ScheduledBroadcast>;
+  get(jobId: string): Promise<ScheduledBroadcast | undefined>;
+  /**
+   * Ожидающие задания, ближайшие первыми.
+   */
+  listUpcoming(options?: { limit?: number }): Promise<ScheduledBroadcast[]>;
+  /**
+   * Переводит наступившие задания в `running` одним запросом и возвращает их.
+   */
+  claimDue(options?: { limit?: number }): Promise<ScheduledBroadcast[]>;
+  /**
+   * Отменяет задание, если оно ещё не запущено.
+   */
+  cancel(jobId: string, cancelledBy: string): Promise<boolean>;
+  markFinished(jobId: string, input: ScheduledBroadcastFinishInput): Promise<void>;
+}
+
+export interface CreateScheduledBroadcastsStoreOptions {
+  db: D1Database;
+  now?: () => Date;
+}
+
+interface ScheduledBroadcastRow {
+  job_id: string;
+  text: string;
+  text_hash: string;
+  audience_hash: string;
+  audience_mode: string;
+  audience_total: number;
+  filters: string | null;
+  send_at: number;
+  time_zone: string;
+  requested_by: string;
+  admin_chat_id: string;
+  admin_thread_id: string | null;
+  status: string;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+  cancelled_by: string | null;
+  delivered: number | null;
+  failed: number | null;
+  error: string | null;
+  content: string | null;
+}
+
+const DEFAULT_LIST_LIMIT = 20;
+const DEFAULT_CLAIM_LIMIT = 1;
+const MAX_ERROR_LENGTH = 500;
+
+const toEpochSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+const fromEpochSeconds = (value: number | null): Date | undefined =>
+  value === null || value === undefined ? undefined : new Date(Number(value) * 1000);
+
+const parseFilters = (raw: string | null): BroadcastAudienceFilter | undefined => {
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as BroadcastAudienceFilter) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const parseContent = (raw: string | null): BroadcastContent | undefined => {
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return parseBroadcastContent(JSON.parse(raw));
+  } catch {
+    return undefined;
+  }
+};
+
+const isStatus = (value: string): value is ScheduledBroadcastStatus =>
+  value === 'scheduled'
+  || value === 'running'
+  || value === 'completed'
+  || value === 'failed'
+  || value === 'cancelled';
+
+const mapRow = (row: ScheduledBroadcastRow): ScheduledBroadcast => ({
+  jobId: String(row.job_id),
+  text: row.text,
+  ...(row.content ? { content: parseContent(row.content) } : {}),
+  textHash: row.text_hash,
+  audienceHash: row.audience_hash,
+  audienceMode: row.audience_mode === 'list' || row.audience_mode === 'segment' ? row.audience_mode : 'all',
+  audienceTotal: Number(row.audience_total),
+  filters: parseFilters(row.filters),
+  sendAt: new Date(Number(row.send_at) * 1000),
+  timeZone: row.time_zone,
+  requestedBy: String(row.requested_by),
+  adminChat: {
+    chatId: String(row.admin_chat_id),
+    ...(row.admin_thread_id ? { threadId: String(row.admin_thread_id) } : {}),
+  },
+  status: isStatus(row.status) ? row.status : 'failed',
+  createdAt: new Date(Number(row.created_at) * 1000),
+  startedAt: fromEpochSeconds(row.started_at),
+  finishedAt: fromEpochSeconds(row.finished_at),
+  cancelledBy: row.cancelled_by ?? undefined,
+  delivered: row.delivered ?? undefined,
+  failed: row.failed ?? undefined,
+  error: row.error ?? undefined,
+});
+
+const SELECT_COLUMNS = `job_id, text, text_hash, audience_hash, audience_mode, audience_total, filters,
+  send_at, time_zone, requested_by, admin_chat_id, admin_thread_id, status, created_at,
+  started_at, finished_at, cancelled_by, delivered, failed, error, content`;
+
+export const createScheduledBroadcastsStore = (
+  options: CreateScheduledBroadcastsStoreOptions,
+): ScheduledBroadcastsStore => {
+  const now = options.now ?? (() => new Date());
+
+  return {
+    async create(input) {
+      const row = await options.db
+        .prepare(
+          `INSERT INTO scheduled_broadcasts (
+             job_id, text, text_hash, audience_hash, audience_mode, audience_total, filters,
+             send_at, time_zone, requested_by, admin_chat_id, admin_thread_id, status, created_at, content
+           )
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'scheduled', ?, ?)
+           RETURNING ${SELECT_COLUMNS}`,
+        )
+        .bind(
+          input.jobId,
+          input.text,
+          input.textHash,
+          input.audienceHash,
+          input.audienceMode,
+          input.audienceTotal,
+          input.filters ? JSON.stringify(input.filters) : null,
+          toEpochSeconds(input.sendAt),
+          input.timeZone,
+          input.requestedBy,
+          input.adminChat.chatId,
+          input.adminChat.threadId ?? null,
+          toEpochSeconds(now()),
+          input.content ? JSON.stringify(input.content) : null,
+        )
+        .first<ScheduledBroadcastRow>();
+
+      if (!row) {
+        throw new Error('Failed to create scheduled broadcast');
+      }
+
+      return mapRow(row);
+    },
+
+    async get(jobId) {
+      const row = await options.db
+        .prepare(`SELECT ${SELECT_COLUMNS} FROM scheduled_broadcasts WHERE job_id = ?`)
+        .bind(jobId)
+        .first<ScheduledBroadcastRow>();
+
+      return row ? mapRow(row) : undefined;
+    },
+
+    async listUpcoming(listOptions = {}) {
+      const { results } = await options.db
+        .prepare(
+          `SELECT ${SELECT_COLUMNS}
+           FROM scheduled_broadcasts
+           WHERE status = 'scheduled'
+           ORDER BY send_at ASC
+           LIMIT ?`,
+        )
+        .bind(listOptions.limit ?? DEFAULT_LIST_LIMIT)
+        .all<ScheduledBroadcastRow>();
+
+      return results.map(mapRow);
+    },
+
+    async claimDue(claimOptions = {}) {
+      const timestamp = toEpochSeconds(now());
+      const { results } = await options.db
+        .prepare(
+          `UPDATE scheduled_broadcasts
+           SET status = 'running', started_at = ?
+           WHERE job_id IN (
+             SELECT job_id FROM scheduled_broadcasts
+             WHERE status = 'scheduled' AND send_at <= ?
+             ORDER BY send_at ASC
+             LIMIT ?
+           )
+           AND status = 'scheduled'
+           RETURNING ${SELECT_COLUMNS}`,
+        )
+        .bind(timestamp, timestamp, claimOptions.limit ?? DEFAULT_CLAIM_LIMIT)
+        .all<ScheduledBroadcastRow>();
+
+      return results.map(mapRow).sort((left, right) => left.sendAt.getTime() - right.sendAt.getTime());
+    },
+
+    async cancel(jobId, cancelledBy) {
+      const result = await options.db
+        .prepare(
+          `UPDATE scheduled_broadcasts
+           SET status = 'cancelled', cancelled_by = ?, finished_at = ?
+           WHERE job_id = ? AND status = 'scheduled'`,
+        )
+        .bind(cancelledBy, toEpochSeconds(now()), jobId)
+        .run();
+
+      return (result.meta?.changes ?? 0) > 0;
+    },
+
+    async markFinished(jobId, input) {
+      await options.db
+        .prepare(
+          `UPDATE scheduled_broadcasts
+           SET status = ?, finished_at = ?, delivered = ?, failed = ?, error = ?
+           WHERE job_id = ? AND status = 'running'`,
+        )
+        .bind(
+          input.status,
+          toEpochSeconds(now()),
+          input.delivered ?? null,
+          input.failed ?? null,
+          input.error ? input.error.slice(0, MAX_ERROR_LENGTH) : null,
+          jobId,
+        )
+        .run();
+    },
+  };
+};
@@ -0,0 +1,330 @@
+import type { MessagingPort } from '../../ports';
+import { json } from '../../shared';
+import type { CronJob } from '../cron';
+import {
+  computeBroadcastAudienceHash,
+  computeBroadcastContentHash,
+  type BroadcastRecipientsRegistry,
+  type SendBroadcast,
+} from './minimal-broadcast-service';
+import type { ScheduledBroadcast, ScheduledBroadcastsStore } from './scheduled-broadcasts-store';
+
+interface Logger {
+  info?(message: string, details?: Record<string, unknown>): void;
+  warn?(message: string, details?: Record<string, unknown>): void;
+  error?(message: string, details?: Record<string, unknown>): void;
+}
+
+export const SCHEDULED_BROADCASTS_JOB = 'scheduled-broadcasts';
+export const DEFAULT_SCHEDULE_TIME_ZONE = 'UTC';
+
+const MIN_SCHEDULE_LEAD_MS = 60 * 1000;
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+const SEND_AT_PATTERN = /^(\d{4})-(\d{2})-(\d{2})\s+(\d{1,2}):(\d{2})(?:\s+(\S+))?$/u;
+
+export type ScheduledSendAtParseResult =
+  | { ok: true; sendAt: Date; timeZone: string }
+  | { ok: false; reason: 'format' | 'time_zone' | 'in_past' | 'too_far' };
+
+const resolveTimeZone = (value: string): string | undefined => {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+};
+
+const readZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: read('year'),
+    month: read('month'),
+    day: read('day'),
+    hour: read('hour'),
+    minute: read('minute'),
+    second: read('second'),
+  };
+};
+
+const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+  const parts = readZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Переводит локальное время часового пояса в UTC. Смещение считается дважды,
+ * чтобы время рядом с переходом на летнее время попало в правильную сторону.
+ */
+const zonedTimeToUtc = (wallClockMs: number, timeZone: string): Date => {
+  const firstGuess = wallClockMs - getTimeZoneOffsetMs(new Date(wallClockMs), timeZone);
+  return new Date(wallClockMs - getTimeZoneOffsetMs(new Date(firstGuess), timeZone));
+};
+
+/**
+ * Разбирает аргумент `/send 2026-11-01 10:00 Europe/Moscow`. Часовой пояс
+ * необязателен; время должно быть не раньше чем через минуту и не позже года.
+ */
+export const parseScheduledSendAt = (
+  argument: string,
+  options: { now: Date; defaultTimeZone?: string },
+): ScheduledSendAtParseResult => {
+  const match = SEND_AT_PATTERN.exec(argument.trim());
+  if (!match) {
+    return { ok: false, reason: 'format' };
+  }
+
+  const [, year, month, day, hour, minute, rawTimeZone] = match;
+  const timeZone = resolveTimeZone(rawTimeZone ?? options.defaultTimeZone ?? DEFAULT_SCHEDULE_TIME_ZONE);
+  if (!timeZone) {
+    return { ok: false, reason: 'time_zone' };
+  }
+
+  const wallClockMs = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute));
+  const wallClock = new Date(wallClockMs);
+  if (
+    wallClock.getUTCFullYear() !== Number(year)
+    || wallClock.getUTCMonth() !== Number(month) - 1
+    || wallClock.getUTCDate() !== Number(day)
+    || wallClock.getUTCHours() !== Number(hour)
+    || wallClock.getUTCMinutes() !== Number(minute)
+  ) {
+    return { ok: false, reason: 'format' };
+  }
+
+  const sendAt = zonedTimeToUtc(wallClockMs, timeZone);
+  const leadMs = sendAt.getTime() - options.now.getTime();
+  if (leadMs < MIN_SCHEDULE_LEAD_MS) {
+    return { ok: false, reason: 'in_past' };
+  }
+
+  if (leadMs > MAX_SCHEDULE_AHEAD_MS) {
+    return { ok: false, reason: 'too_far' };
+  }
+
+  return { ok: true, sendAt, timeZone };
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Время отправки в часовом поясе задания, в том же формате, что принимает `/send`.
+ */
+export const formatScheduledSendAt = (sendAt: Date, timeZone: string): string => {
+  const parts = readZonedParts(sendAt, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)} ${timeZone}`;
+};
+
+export const buildScheduledBroadcastsListMessage = (items: ReadonlyArray<ScheduledBroadcast>): string => {
+  if (items.length === 0) {
+    return 'Запланированных рассылок нет.';
+  }
+
+  return [
+    '🗓 Запланированные рассылки:',
+    ...items.map(
+      (item) =>
+        `• ${formatScheduledSendAt(item.sendAt, item.timeZone)}, получателей: ${item.audienceTotal}\n`
+        + `  /broadcast_unschedule ${item.jobId}`,
+    ),
+  ].join('\n');
+};
+
+export interface CreateScheduledBroadcastsJobOptions {
+  store: Pick<ScheduledBroadcastsStore, 'claimDue' | 'markFinished'>;
+  sendBroadcast: SendBroadcast;
+  messaging?: Pick<MessagingPort, 'sendText'>;
+  /**
+   * Нужен только для сверки хэша аудитории с моментом планирования.
+   */
+  recipientsRegistry?: BroadcastRecipientsRegistry;
+  /**
+   * Сколько наступивших заданий запускать за одно срабатывание.
+   */
+  batchSize?: number;
+  schedules?: ReadonlyArray<string>;
+  logger?: Logger;
+}
+
+const toErrorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Cron-задача запуска отложенных рассылок. Задание захватывается в D1 до
+ * отправки, поэтому повторное срабатывание его не подхватит; прогресс пишется в
+ * чекпоинт под тем же jobId, и прерванную рассылку можно продолжить
+ * `/broadcast_resume <jobId>`.
+ */
+export const createScheduledBroadcastsJob = (options: CreateScheduledBroadcastsJobOptions): CronJob => {
+  const notifyAdmin = async (job: ScheduledBroadcast, text: string) => {
+    if (!options.messaging) {
+      return;
+    }
+
+    try {
+      await options.messaging.sendText({
+        chatId: job.adminChat.chatId,
+        threadId: job.adminChat.threadId,
+        text,
+      });
+    } catch (error) {
+      options.logger?.warn?.('scheduled broadcast notice failed', {
+        jobId: job.jobId,
+        error: toErrorMessage(error),
+      });
+    }
+  };
+
+  const launch = async (job: ScheduledBroadcast): Promise<'completed' | 'failed'> => {
+    const textHash = await computeBroadcastContentHash(job.text, job.content);
+    if (textHash !== job.textHash) {
+      options.logger?.error?.('scheduled broadcast text hash mismatch', { jobId: job.jobId });
+      await options.store.markFinished(job.jobId, { status: 'failed', error: 'text_hash_mismatch' });
+      await notifyAdmin(job, `❌ Отложенная рассылка ${job.jobId} не отправлена: текст повреждён.`);
+      return 'failed';
+    }
+
+    if (options.recipientsRegistry) {
+      try {
+        const recipients = await options.recipientsRegistry.listActiveRecipients(job.filters);
+        const audienceHash = await computeBroadcastAudienceHash(recipients);
+        if (audienceHash !== job.audienceHash) {
+          options.logger?.info?.('scheduled broadcast audience changed since scheduling', {
+            jobId: job.jobId,
+            scheduledTotal: job.audienceTotal,
+            currentTotal: recipients.length,
+          });
+        }
+      } catch (error) {
+        options.logger?.warn?.('scheduled broadcast audience check failed', {
+          jobId: job.jobId,
+          error: toErrorMessage(error),
+        });
+      }
+    }
+
+    try {
+      const result = await options.sendBroadcast({
+        text: job.text,
+        ...(job.content ? { content: job.content } : {}),
+        requestedBy: job.requestedBy,
+        filters: job.filters,
+        jobId: job.jobId,
+        adminChat: job.adminChat,
+      });
+
+      await options.store.markFinished(job.jobId, {
+        status: 'completed',
+        delivered: result.delivered,
+        failed: result.failed,
+      });
+      options.logger?.info?.('scheduled broadcast sent', {
+        jobId: job.jobId,
+        delivered: result.delivered,
+        failed: result.failed,
+      });
+      await notifyAdmin(
+        job,
+        `✅ Отложенная рассылка ${job.jobId} отправлена: delivered=${result.delivered}, failed=${result.failed}`,
+      );
+      return 'completed';
+    } catch (error) {
+      await options.store.markFinished(job.jobId, { status: 'failed', error: toErrorMessage(error) });
+      options.logger?.error?.('scheduled broadcast failed', { jobId: job.jobId, error: toErrorMessage(error) });
+      await notifyAdmin(
+        job,
+        `❌ Отложенная рассылка ${job.jobId} прервана. Продолжить: /broadcast_resume ${job.jobId}`,
+      );
+      return 'failed';
+    }
+  };
+
+  return {
+    name: SCHEDULED_BROADCASTS_JOB,
+    description: 'Запускает отложенные рассылки, время которых наступило',
+    schedules: options.schedules,
+    run: async () => {
+      const due = await options.store.claimDue({ limit: options.batchSize });
+      let completed = 0;
+      let failed = 0;
+
+      for (const job of due) {
+        if ((await launch(job)) === 'completed') {
+          completed += 1;
+        } else {
+          failed += 1;
+        }
+      }
+
+      return { claimed: due.length, completed, failed };
+    },
+  };
+};
+
+export interface CreateScheduledBroadcastsAdminHandlersOptions {
+  store: Pick<ScheduledBroadcastsStore, 'listUpcoming' | 'cancel'>;
+  logger?: Logger;
+}
+
+export interface ScheduledBroadcastsAdminHandlers {
+  list: (request: Request) => Promise<Response>;
+  cancel: (request: Request, jobId: string) => Promise<Response>;
+}
+
+const serializeScheduledBroadcast = (item: ScheduledBroadcast) => ({
+  jobId: item.jobId,
+  status: item.status,
+  sendAt: item.sendAt.toISOString(),
+  sendAtLocal: formatScheduledSendAt(item.sendAt, item.timeZone),
+  timeZone: item.timeZone,
+  audienceMode: item.audienceMode,
+  audienceTotal: item.audienceTotal,
+  audienceHash: item.audienceHash,
+  textHash: item.textHash,
+  text: item.text,
+  ...(item.content ? { content: item.content } : {}),
+  requestedBy: item.requestedBy,
+  createdAt: item.createdAt.toISOString(),
+});
+
+/**
+ * `GET /admin/broadcast/scheduled` и `DELETE /admin/broadcast/scheduled/<jobId>`.
+ */
+export const createScheduledBroadcastsAdminHandlers = (
+  options: CreateScheduledBroadcastsAdminHandlersOptions,
+): ScheduledBroadcastsAdminHandlers => ({
+  list: async (request) => {
+    const limitRaw = new URL(request.url).searchParams.get('limit');
+    const limit = limitRaw ? Number.parseInt(limitRaw, 10) : undefined;
+    const items = await options.store.listUpcoming({
+      limit: limit && Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    });
+
+    return json({ items: items.map(serializeScheduledBroadcast), count: items.length });
+  },
+  cancel: async (_request, jobId) => {
+    const normalizedJobId = jobId.trim();
+    if (!normalizedJobId) {
+      return json({ error: 'jobId is required' }, { status: 400 });
+    }
+
+    const cancelled = await options.store.cancel(normalizedJobId, 'admin-api');
+    if (!cancelled) {
+      return json({ error: 'Scheduled broadcast not found or already started' }, { status: 404 });
+    }
+
+    options.logger?.info?.('scheduled broadcast cancelled via admin route', { jobId: normalizedJobId });
+    return json({ status: 'cancelled', jobId: normalizedJobId });
+  },
+});
@@ -1,18 +1,74 @@
 import { getRawTextLength, getVisibleTextLength, json } from '../../shared';
 import type { IncomingMessage } from '../../core';
-import type { TelegramAdminCommandContext, TransformPayloadContext } from '../../http';
-import type { MessagingPort } from '../../ports';
+import type {
+  CallbackDataSigner,
+  CallbackQueryAnswer,
+  TelegramAdminCommandContext,
+  TelegramCallbackQueryContext,
+  TransformPayloadContext,
+} from '../../http';
+import { createCallbackCommandContext, createCallbackIncomingMessage } from '../../http/callback-queries';
+import type { AiPort, InlineKeyboardMarkup, MessagingPort } from '../../ports';
 import type { AdminAccess } from '../admin-access';
-import type { BroadcastAudienceFilter } from './broadcast-payload';
+import {
+  BROADCAST_CAPTION_LIMIT,
+  hasBroadcastContent,
+  MAX_BROADCAST_BUTTONS,
+  parseBroadcastButton,
+  parseBroadcastContent,
+  sliceBroadcastEntities,
+  trimBroadcastText,
+  type BroadcastAudienceFilter,
+  type BroadcastContent,
+  type BroadcastMedia,
+} from './broadcast-payload';
 import type { BroadcastRecipientsRegistry } from './minimal-broadcast-service';
+import {
+  DEFAULT_BROADCAST_PRIORITY,
+  isBroadcastPriority,
+  type BroadcastPriority,
+} from './broadcast-job-dispatcher';
+import {
+  BROADCAST_SEGMENT_COMMAND,
+  MAX_SEGMENT_ACTIVE_DAYS,
+  parseBroadcastSegment,
+  toBroadcastSegmentFilter,
+  type BroadcastSegmentParseResult,
+} from './broadcast-segments';
+import {
+  expandBroadcastTemplateWorstCase,
+  hasBroadcastPlaceholders,
+  renderBroadcastTemplate,
+  type BroadcastRecipientProfiles,
+} from './broadcast-templates';
+import {
+  BROADCAST_TRANSLATE_COMMAND,
+  formatBroadcastTranslations,
+  MAX_BROADCAST_TRANSLATIONS,
+  parseBroadcastTranslationArgument,
+  translateBroadcastText,
+  upsertBroadcastTranslation,
+} from './broadcast-translations';
+import {
+  appendBroadcastVariant,
+  BROADCAST_BASE_VARIANT_ID,
+  BROADCAST_VARIANT_COMMAND,
+  formatBroadcastVariantSplit,
+  MAX_BROADCAST_VARIANTS,
+  parseBroadcastVariantArgument,
+} from './broadcast-variants';
 import {
   type AdminCommandErrorRecorder,
   extractTelegramErrorDetails,
   shouldInvalidateAdminAccess,
 } from '../admin-access/admin-messaging-errors';
 import {
+  computeBroadcastAudienceHash,
+  computeBroadcastContentHash,
   listBroadcastCheckpoints,
   loadBroadcastCheckpoint,
+  type BroadcastAction,
+  type BroadcastDryRunEstimate,
   type BroadcastSendInput,
   type BroadcastSendResult,
   type SendBroadcast,
@@ -20,6 +76,14 @@ import {
   type BroadcastProgressCheckpoint,
 } from './minimal-broadcast-service';
 import { createAdminHelpSender, type SendAdminHelp } from '../export/telegram-export-command';
+import {
+  buildScheduledBroadcastsListMessage,
+  DEFAULT_SCHEDULE_TIME_ZONE,
+  formatScheduledSendAt,
+  parseScheduledSendAt,
+  type ScheduledSendAtParseResult,
+} from './scheduled-broadcasts';
+import type { ScheduledBroadcast, ScheduledBroadcastsStore } from './scheduled-broadcasts-store';
 
 interface Logger {
   info?(message: string, details?: Record<string, unknown>): void;
@@ -29,6 +93,7 @@ interface Logger {
 
 const DEFAULT_MAX_TEXT_LENGTH = 3970;
 const DEFAULT_PENDING_TTL_MS = 60 * 1000;
+const DEFAULT_MAX_CONCURRENT_JOBS = 3;
 const BROADCAST_PENDING_KV_VERSION = 2;
 const BROADCAST_PENDING_KV_PREFIX = 'broadcast:pending:';
 const PENDING_MAINTENANCE_INTERVAL_MS = 60 * 1000;
@@ -38,7 +103,62 @@ const TEXT_CHUNK_DEBOUNCE_MS = 1000;
 const NEW_TEXT_WARNING_THROTTLE_MS = 5 * 1000;
 
 export const BROADCAST_AUDIENCE_PROMPT =
-  'Шаг 1. Выберите получателей /everybody или пришлите список user_id / username через запятую или пробел. Дубликаты уберём автоматически.';
+  'Шаг 1. Выберите получателей /everybody, пришлите список user_id / username через запятую или пробел или задайте сегмент: /segment utm=src_promo lang=ru active_since=30d. Дубликаты уберём автоматически.';
+
+export interface PendingBroadcastCleanupResult {
+  scanned: number;
+  deleted: number;
+}
+
+/**
+ * Удаляет из KV черновики рассылок с истёкшим сроком. Обработчик команды чистит
+ * их и сам, но только пока администраторы пишут боту.
+ */
+export const cleanupExpiredPendingBroadcasts = async (
+  kv: BroadcastPendingKvNamespace,
+  options: { now: () => number },
+): Promise<PendingBroadcastCleanupResult> => {
+  const timestamp = options.now();
+  const expiredKeys: string[] = [];
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  do {
+    const result = await kv.list({ prefix: BROADCAST_PENDING_KV_PREFIX, cursor });
+    for (const key of result.keys) {
+      scanned += 1;
+      if (key.expiration && key.expiration * 1000 <= timestamp) {
+        expiredKeys.push(key.name);
+        continue;
+      }
+
+      const raw = await kv.get(key.name, 'text');
+      if (raw === null) {
+        continue;
+      }
+
+      try {
+        const parsed = JSON.parse(raw) as { version?: number; entry?: { expiresAt?: unknown } };
+        const expiresAt = parsed.entry?.expiresAt;
+        if (
+          parsed.version !== BROADCAST_PENDING_KV_VERSION
+          || typeof expiresAt !== 'number'
+          || expiresAt <= timestamp
+        ) {
+          expiredKeys.push(key.name);
+        }
+      } catch {
+        expiredKeys.push(key.name);
+      }
+    }
+
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+
+  await Promise.all(expiredKeys.map((name) => kv.delete(name)));
+
+  return { scanned, deleted: expiredKeys.length };
+};
 
 export const buildBroadcastPromptMessage = (count: number, notFound: readonly string[] = []): string => {
   const base = `Шаг 2. Пришлите текст для ${count} получателей, /cancel_broadcast для отмены.`;
@@ -51,20 +171,56 @@ export const buildBroadcastPromptMessage = (count: number, notFound: readonly st
 };
 
 
+export const buildSegmentRejectedMessage = (
+  result: Extract<BroadcastSegmentParseResult, { ok: false }>,
+): string => {
+  const usage = `Формат: ${BROADCAST_SEGMENT_COMMAND} utm=src_promo lang=ru active_since=30d, любые из условий.`;
+
+  switch (result.reason) {
+    case 'unknown_key':
+      return `Неизвестное условие сегмента: ${result.token}. ${usage}`;
+    case 'duplicate_key':
+      return `Условие сегмента указано дважды: ${result.token}. ${usage}`;
+    case 'invalid_value':
+      return `Некорректное значение: ${result.token}. active_since задаётся в днях, от 1d до ${MAX_SEGMENT_ACTIVE_DAYS}d. ${usage}`;
+    default:
+      return `Сегмент не задан. ${usage}`;
+  }
+};
+
 const BROADCAST_UNSUPPORTED_SUBCOMMAND_MESSAGE =
   'Мгновенная рассылка доступна только через команду /broadcast без аргументов.';
 
 const buildTooLongMessage = (_overflow: number) =>
   'Текст не укладывается в лимит Telegram, выберите: /new_text чтобы отправить другой текст или /cancel_broadcast для отмены.';
 
-export const buildAwaitingSendPromptMessage = (audience: BroadcastAudience): string => {
+const buildCaptionTooLongMessage = (overflow: number) =>
+  `Подпись к медиа длиннее ${BROADCAST_CAPTION_LIMIT} символов на ${overflow}, выберите: /new_text чтобы отправить другое сообщение или /cancel_broadcast для отмены.`;
+
+export const buildAwaitingSendPromptMessage = (
+  audience: BroadcastAudience,
+  sample?: { chatId: string; text: string },
+): string => {
   const base = `Текст принят. Получателей ${audience.total}. Выберите: /send чтобы отправить, /new_text чтобы изменить текст или /cancel_broadcast для отмены.`;
+  const lines = [base];
 
-  if (audience.notFound.length === 0) {
-    return base;
+  if (audience.notFound.length > 0) {
+    lines.push(`Не нашли: ${audience.notFound.join(', ')}`);
+  }
+
+  if (sample) {
+    lines.push(`Пример для ${sample.chatId}:\n${sample.text}`);
   }
 
-  return `${base}\nНе нашли: ${audience.notFound.join(', ')}`;
+  return lines.join('\n');
+};
+
+/**
+ * Длина текста с самой длинной подстановкой плейсхолдеров.
+ */
+const measureTemplateLength = (text: string): number => {
+  const expanded = expandBroadcastTemplateWorstCase(text);
+  return Math.max(getRawTextLength(expanded), getVisibleTextLength(expanded));
 };
 
 const BROADCAST_AWAITING_SEND_WARNING =
@@ -79,8 +235,185 @@ const BROADCAST_CANCEL_MESSAGE =
   '❌ Рассылка отменена. Чтобы отправить новое сообщение, снова выполните /broadcast.';
 
 export const BROADCAST_SUCCESS_MESSAGE = '✅ Рассылка отправлена!';
+
+const BROADCAST_BUTTON_FORMAT_MESSAGE =
+  'Формат: /button Текст https://example.com — ссылка должна начинаться с http://, https:// или tg://.';
+const BROADCAST_BUTTON_LIMIT_MESSAGE = `К рассылке можно добавить не больше ${MAX_BROADCAST_BUTTONS} кнопок.`;
+const buildButtonAddedMessage = (count: number) =>
+  `Кнопка добавлена, всего кнопок: ${count}. Выберите: /send чтобы отправить, /button чтобы добавить ещё или /cancel_broadcast для отмены.`;
+
+const BROADCAST_VARIANT_FORMAT_MESSAGE =
+  'Формат: /variant 30 Текст варианта — доля получателей в процентах (от 1 до 99) и текст.';
+const BROADCAST_VARIANT_LIMIT_MESSAGE = `К рассылке можно добавить не больше ${MAX_BROADCAST_VARIANTS} вариантов текста.`;
+const buildVariantAddedMessage = (id: string, split: string) =>
+  `Вариант ${id} добавлен. Разбивка: ${split}. Выберите: /send чтобы отправить, /variant чтобы добавить ещё или /cancel_broadcast для отмены.`;
+
+const BROADCAST_TRANSLATE_FORMAT_MESSAGE =
+  'Формат: /translate en Текст перевода — код языка (en, uk, de…) и текст. Без текста основной текст переводится автоматически.';
+const BROADCAST_TRANSLATE_MANUAL_MESSAGE =
+  'Автоперевод недоступен, пришлите текст: /translate en Текст перевода.';
+const BROADCAST_TRANSLATE_FAILED_MESSAGE =
+  'Не удалось перевести текст автоматически, пришлите перевод: /translate en Текст перевода.';
+const BROADCAST_TRANSLATE_LIMIT_MESSAGE = `К рассылке можно добавить не больше ${MAX_BROADCAST_TRANSLATIONS} переводов.`;
+const buildTranslationAddedMessage = (languageCode: string, languages: string, machineText?: string) =>
+  [
+    machineText ? `Перевод ${languageCode} добавлен автоматически:\n${machineText}\n` : `Перевод ${languageCode} добавлен.`,
+    `Языки: ${languages}, остальные получат основной текст.`,
+    'Выберите: /send чтобы отправить, /translate чтобы добавить ещё или /cancel_broadcast для отмены.',
+  ].join(machineText ? '' : ' ');
+
+interface BroadcastTranslationDraft {
+  languageCode: string;
+  text: string;
+  machine: boolean;
+}
+
+const BROADCAST_PRIORITY_COMMAND = '/priority';
+const BROADCAST_PRIORITY_FORMAT_MESSAGE =
+  'Формат: /priority high|normal|low — доля общей скорости, когда одновременно идут несколько рассылок.';
+const buildPriorityChangedMessage = (priority: BroadcastPriority) =>
+  `Приоритет рассылки: ${priority}. Выберите: /send чтобы отправить, /new_text чтобы изменить текст или /cancel_broadcast для отмены.`;
+
+const BROADCAST_SEND_TEST_COMMAND = '/send_test';
+const BROADCAST_SEND_DRYRUN_COMMAND = '/send_dryrun';
+const BROADCAST_PREVIEW_CHOICES =
+  'Выберите: /send чтобы отправить всем, /new_text чтобы изменить текст или /cancel_broadcast для отмены.';
+
+const formatEstimatedDuration = (ms: number): string => {
+  const totalSeconds = Math.max(1, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return minutes > 0 ? `${hours} ч ${minutes} мин` : `${hours} ч`;
+  }
+
+  if (minutes > 0) {
+    return seconds > 0 ? `${minutes} мин ${seconds} с` : `${minutes} мин`;
+  }
+
+  return `${seconds} с`;
+};
+
+const buildDryRunReportMessage = (recipients: number, estimate: BroadcastDryRunEstimate): string =>
+  [
+    '🔎 Пробный прогон, Telegram не вызывался.',
+    `Получателей: ${recipients}.`,
+    `Пачек: ${estimate.batches} по ${estimate.batchSize}${estimate.limitedByTextBytes ? ' (урезано лимитом байт на пачку)' : ''}.`,
+    `Скорость: ${estimate.maxRps} сообщений/с, потоков: ${estimate.concurrency}.`,
+    `Оценка времени: ~${formatEstimatedDuration(estimate.estimatedDurationMs)} без учёта ретраев.`,
+    BROADCAST_PREVIEW_CHOICES,
+  ].join('\n');
+
+const BROADCAST_SCHEDULE_FAILURE_MESSAGE =
+  'Не удалось запланировать рассылку. Попробуйте ещё раз или отправьте сейчас командой /send.';
+const BROADCAST_SCHEDULED_DISABLED_MESSAGE =
+  'Отложенные рассылки недоступны: не подключена база данных.';
+const SCHEDULED_LIST_LIMIT = 20;
+
+const buildScheduleRejectedMessage = (
+  reason: Extract<ScheduledSendAtParseResult, { ok: false }>['reason'],
+  defaultTimeZone: string,
+): string => {
+  switch (reason) {
+    case 'time_zone':
+      return 'Неизвестный часовой пояс. Укажите его в формате IANA, например Europe/Moscow.';
+    case 'in_past':
+      return 'Время отправки должно быть хотя бы на минуту позже текущего.';
+    case 'too_far':
+      return 'Рассылку можно запланировать не больше чем на год вперёд.';
+    default:
+      return `Не удалось разобрать время. Формат: /send 2026-11-01 10:00 Europe/Moscow (без часового пояса — ${defaultTimeZone}).`;
+  }
+};
+
+const buildScheduledConfirmationMessage = (scheduled: ScheduledBroadcast): string =>
+  [
+    `🗓 Рассылка запланирована на ${formatScheduledSendAt(scheduled.sendAt, scheduled.timeZone)}: ${scheduled.jobId}`,
+    `Получателей сейчас: ${scheduled.audienceTotal}.`,
+    `Список: /broadcast_scheduled, отмена: /broadcast_unschedule ${scheduled.jobId}`,
+  ].join('\n');
 const BROADCAST_CANCEL_COMMAND = '/cancel_broadcast';
 
+export const BROADCAST_CALLBACK_NAMESPACE = 'broadcast';
+const BROADCAST_CALLBACK_SESSION_EXPIRED =
+  'Сценарий рассылки уже завершён или истёк. Запустите /broadcast заново.';
+const BROADCAST_CALLBACK_FORBIDDEN = 'Управлять рассылкой могут только администраторы.';
+
+type BroadcastSessionAction = 'send' | 'new_text' | 'cancel';
+type BroadcastJobAction = 'pause' | 'resume' | 'status' | 'end';
+
+const BROADCAST_SESSION_ACTION_COMMANDS: Record<BroadcastSessionAction, string> = {
+  send: '/send',
+  new_text: '/new_text',
+  cancel: BROADCAST_CANCEL_COMMAND,
+};
+
+const BROADCAST_JOB_ACTION_COMMANDS: Record<BroadcastJobAction, string> = {
+  pause: '/broadcast_pause',
+  resume: '/broadcast_resume',
+  status: '/broadcast_status',
+  end: '/broadcast_end',
+};
+
+const isSessionAction = (value: string | undefined): value is BroadcastSessionAction =>
+  value === 'send' || value === 'new_text' || value === 'cancel';
+
+const isJobAction = (value: string | undefined): value is BroadcastJobAction =>
+  value === 'pause' || value === 'resume' || value === 'status' || value === 'end';
+
+interface BroadcastControlButton {
+  text: string;
+  action: BroadcastSessionAction | BroadcastJobAction;
+  jobId?: string;
+}
+
+const SEND_CONTROL_ROWS: BroadcastControlButton[][] = [
+  [{ text: '✅ Отправить', action: 'send' }],
+  [
+    { text: '✏️ Изменить текст', action: 'new_text' },
+    { text: '❌ Отменить', action: 'cancel' },
+  ],
+];
+
+const buildJobControlRows = (jobId: string): BroadcastControlButton[][] => [
+  [
+    { text: '⏸ Пауза', action: 'pause', jobId },
+    { text: '▶️ Продолжить', action: 'resume', jobId },
+  ],
+  [
+    { text: 'ℹ️ Статус', action: 'status', jobId },
+    { text: '⏹ Завершить', action: 'end', jobId },
+  ],
+];
+
+const signBroadcastControls = async (
+  callbackData: Pick<CallbackDataSigner, 'sign'>,
+  rows: BroadcastControlButton[][],
+): Promise<InlineKeyboardMarkup> => ({
+  inlineKeyboard: await Promise.all(
+    rows.map((row) =>
+      Promise.all(
+        row.map(async (button) => ({
+          text: button.text,
+          callbackData: await callbackData.sign(
+            [BROADCAST_CALLBACK_NAMESPACE, button.action, button.jobId].filter(Boolean).join(':'),
+          ),
+        })),
+      ),
+    ),
+  ),
+});
+
+/**
+ * Кнопки управления запущенной рассылкой (пауза, продолжение, статус, завершение).
+ */
+export const buildBroadcastJobControls = (
+  callbackData: Pick<CallbackDataSigner, 'sign'>,
+  jobId: string,
+): Promise<InlineKeyboardMarkup> => signBroadcastControls(callbackData, buildJobControlRows(jobId));
+
 const buildResumeCommand = (jobId: string) => `/broadcast_resume ${jobId}`;
 const buildPauseCommand = (jobId: string) => `/broadcast_pause ${jobId}`;
 const buildStatusCommand = (jobId: string) => `/broadcast_status ${jobId}`;
@@ -112,11 +445,19 @@ export interface PendingBroadcast {
   lastReceivedText?: string;
   lastReceivedLength?: number;
   textChunks?: string[];
+  /**
+   * Медиа, разметка и кнопки к `textChunks[0]`; сбрасывается вместе с текстом.
+   */
+  content?: BroadcastContent;
+  /**
+   * Приоритет задачи, заданный `/priority`; без него рассылка идёт как `normal`.
+   */
+  priority?: BroadcastPriority;
   chunkCount?: number;
   debounceUntil?: number;
 }
 
-type BroadcastAudienceMode = 'all' | 'list';
+type BroadcastAudienceMode = 'all' | 'list' | 'segment';
 
 interface BroadcastListAudience {
   mode: 'list';
@@ -131,7 +472,25 @@ interface BroadcastAllAudience {
   notFound: string[];
 }
 
-type BroadcastAudience = BroadcastListAudience | BroadcastAllAudience;
+/**
+ * Сегмент по UTM, языку и активности; условия хранятся готовым фильтром.
+ */
+interface BroadcastSegmentAudience {
+  mode: 'segment';
+  total: number;
+  notFound: string[];
+  filters: BroadcastAudienceFilter;
+}
+
+type BroadcastAudience = BroadcastListAudience | BroadcastAllAudience | BroadcastSegmentAudience;
+
+const toAudienceFilters = (audience: BroadcastAudience): BroadcastAudienceFilter | undefined => {
+  if (audience.mode === 'list') {
+    return { chatIds: audience.chatIds };
+  }
+
+  return audience.mode === 'segment' ? audience.filters : undefined;
+};
 
 export type BroadcastPendingKvNamespace = Pick<KVNamespace, 'get' | 'put' | 'delete' | 'list'>;
 
@@ -174,6 +533,32 @@ export interface CreateTelegramBroadcastCommandHandlerOptions {
   progressKv?: BroadcastProgressKvNamespace;
   exportLogKv: Pick<KVNamespace, 'put'>;
   sendAdminHelp?: SendAdminHelp;
+  /**
+   * Подпись inline-кнопок. Без неё сценарий управляется только текстовыми командами.
+   */
+  callbackData?: Pick<CallbackDataSigner, 'sign'>;
+  /**
+   * Хранилище отложенных рассылок: включает `/send <дата> <время> [пояс]`,
+   * `/broadcast_scheduled` и `/broadcast_unschedule <jobId>`.
+   */
+  scheduledBroadcasts?: Pick<ScheduledBroadcastsStore, 'create' | 'listUpcoming' | 'cancel'>;
+  /**
+   * Часовой пояс для `/send` без явного пояса, по умолчанию UTC.
+   */
+  scheduleTimeZone?: string;
+  /**
+   * Сколько рассылок может идти одновременно, по умолчанию 3.
+   */
+  maxConcurrentJobs?: number;
+  /**
+   * Профили получателей: с ними подтверждение текста с плейсхолдерами
+   * показывает пример подстановки для первого получателя аудитории.
+   */
+  profiles?: BroadcastRecipientProfiles;
+  /**
+   * Модель для `/translate <язык>` без текста; без неё перевод присылается вручную.
+   */
+  ai?: Pick<AiPort, 'reply'>;
 }
 
 export interface TelegramBroadcastCommandHandler {
@@ -184,6 +569,13 @@ export interface TelegramBroadcastCommandHandler {
     message: IncomingMessage,
     context?: TransformPayloadContext,
   ) => Promise<Response | 'handled' | void> | Response | 'handled' | void;
+  /**
+   * Обрабатывает кнопки пространства имён `broadcast`, повторяя соответствующие
+   * текстовые команды.
+   */
+  handleCallback: (
+    context: TelegramCallbackQueryContext,
+  ) => Promise<CallbackQueryAnswer | void>;
 }
 
 const hasArgument = (value: string | undefined): value is string =>
@@ -204,6 +596,18 @@ const isBroadcastStatusCommand = (context: TelegramAdminCommandContext) =>
 const isBroadcastEndCommand = (context: TelegramAdminCommandContext) =>
   context.command.toLowerCase() === '/broadcast_end';
 
+const isBroadcastScheduledCommand = (context: TelegramAdminCommandContext) =>
+  context.command.toLowerCase() === '/broadcast_scheduled';
+
+const isBroadcastUnscheduleCommand = (context: TelegramAdminCommandContext) =>
+  context.command.toLowerCase() === '/broadcast_unschedule';
+
+const isBroadcastRecallCommand = (context: TelegramAdminCommandContext) =>
+  context.command.toLowerCase() === '/broadcast_recall';
+
+const isBroadcastEditCommand = (context: TelegramAdminCommandContext) =>
+  context.command.toLowerCase() === '/broadcast_edit';
+
 const isUnsupportedAdminBroadcast = (context: TelegramAdminCommandContext) => {
   if (context.command.toLowerCase() !== '/admin') {
     return false;
@@ -235,15 +639,38 @@ const parseList = (value: string): string[] =>
     .map((token) => token.trim())
     .filter((token) => token.length > 0);
 
-const extractBroadcastText = (value: string): { text: string; usedSendCommand: boolean } => {
+const extractBroadcastText = (
+  value: string,
+): { text: string; usedSendCommand: boolean; offset: number } => {
   const trimmed = value.trim();
   const normalized = trimmed.toLowerCase();
 
   if (normalized.startsWith('/send')) {
-    return { text: trimmed.slice('/send'.length).trim(), usedSendCommand: true };
+    const afterCommand = value.trimStart().slice('/send'.length);
+    const offset = value.length - value.trimStart().length + '/send'.length
+      + (afterCommand.length - afterCommand.trimStart().length);
+    return { text: trimmed.slice('/send'.length).trim(), usedSendCommand: true, offset };
+  }
+
+  return { text: value, usedSendCommand: false, offset: 0 };
+};
+
+/**
+ * Фото или документ из сообщения администратора. Файл не скачивается:
+ * рассылка отправляет его по `file_id`.
+ */
+const extractBroadcastMedia = (message: IncomingMessage): BroadcastMedia | undefined => {
+  const attachment = message.attachments?.[0];
+  if (!attachment?.origin) {
+    return undefined;
   }
 
-  return { text: value, usedSendCommand: false };
+  return {
+    kind: attachment.origin,
+    fileId: attachment.fileId,
+    ...(attachment.fileName ? { fileName: attachment.fileName } : {}),
+    ...(attachment.mimeType ? { mimeType: attachment.mimeType } : {}),
+  };
 };
 
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -268,7 +695,9 @@ export const createTelegramBroadcastCommandHandler = (
   const logger = createLogger(options.logger);
   const maxTextLength = options.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH;
   const pendingTtlMs = Math.max(1, options.pendingTtlMs ?? DEFAULT_PENDING_TTL_MS);
+  const maxConcurrentJobs = Math.max(1, Math.floor(options.maxConcurrentJobs ?? DEFAULT_MAX_CONCURRENT_JOBS));
   const now = options.now ?? (() => new Date());
+  const scheduleTimeZone = options.scheduleTimeZone ?? DEFAULT_SCHEDULE_TIME_ZONE;
 
   const pendingCache = options.pendingStore ?? new Map<string, PendingBroadcast>();
   const pendingKv = options.pendingKv;
@@ -280,8 +709,31 @@ export const createTelegramBroadcastCommandHandler = (
       logger,
       adminAccess: options.adminAccess,
       adminErrorRecorder: options.adminErrorRecorder,
+      callbackData: options.callbackData,
     });
 
+  const buildControlsMarkup = async (
+    rows: BroadcastControlButton[][],
+  ): Promise<InlineKeyboardMarkup | undefined> => {
+    if (!options.callbackData) {
+      return undefined;
+    }
+
+    try {
+      return await signBroadcastControls(options.callbackData, rows);
+    } catch (error) {
+      logger.warn('failed to build broadcast controls', { error: toErrorDetails(error) });
+      return undefined;
+    }
+  };
+
+  const buildSendControls = () => buildControlsMarkup(SEND_CONTROL_ROWS);
+
+  const buildJobControls = (jobId: string) => buildControlsMarkup(buildJobControlRows(jobId));
+
+  const withReplyMarkup = (replyMarkup: InlineKeyboardMarkup | undefined) =>
+    replyMarkup ? { replyMarkup } : {};
+
   const maintenanceState: { lastRunAt: number; promise?: Promise<void> } = { lastRunAt: 0 };
 
   const getUserKey = (userId: string | number | bigint): string => String(userId);
@@ -338,6 +790,20 @@ export const createTelegramBroadcastCommandHandler = (
       } satisfies BroadcastListAudience;
     }
 
+    if (mode === 'segment') {
+      const filters = (value as { filters?: unknown }).filters;
+      if (!filters || typeof filters !== 'object') {
+        return undefined;
+      }
+
+      return {
+        mode: 'segment',
+        total,
+        notFound: [],
+        filters: filters as BroadcastAudienceFilter,
+      } satisfies BroadcastSegmentAudience;
+    }
+
     return undefined;
   };
 
@@ -384,6 +850,10 @@ export const createTelegramBroadcastCommandHandler = (
       const textChunks = Array.isArray(parsed.entry.textChunks)
         ? parsed.entry.textChunks.filter((chunk): chunk is string => typeof chunk === 'string')
         : undefined;
+      const content = parseBroadcastContent((parsed.entry as { content?: unknown }).content);
+      const priority = isBroadcastPriority((parsed.entry as { priority?: unknown }).priority)
+        ? (parsed.entry as { priority: BroadcastPriority }).priority
+        : undefined;
       const chunkCount =
         typeof (parsed.entry as { chunkCount?: unknown }).chunkCount === 'number'
           ? (parsed.entry as { chunkCount: number }).chunkCount
@@ -416,6 +886,8 @@ export const createTelegramBroadcastCommandHandler = (
         lastWarningMessageId,
         lastWarningText,
         textChunks,
+        ...(content ? { content } : {}),
+        ...(priority ? { priority } : {}),
         chunkCount,
         debounceUntil,
       } satisfies PendingBroadcast;
@@ -425,14 +897,15 @@ export const createTelegramBroadcastCommandHandler = (
     }
   };
 
-  const readActiveCheckpoint = async (): Promise<BroadcastProgressCheckpoint | undefined> => {
+  const readActiveCheckpoints = async (): Promise<BroadcastProgressCheckpoint[]> => {
     if (!progressKv) {
-      return undefined;
+      return [];
     }
 
     const checkpoints = await listBroadcastCheckpoints(progressKv, logger);
-    return checkpoints.find((entry) => entry.checkpoint.status === 'running' || entry.checkpoint.status === 'paused')
-      ?.checkpoint;
+    return checkpoints
+      .filter((entry) => entry.checkpoint.status === 'running' || entry.checkpoint.status === 'paused')
+      .map((entry) => entry.checkpoint);
   };
 
   const buildCheckpointStatusMessage = (
@@ -446,7 +919,8 @@ export const createTelegramBroadcastCommandHandler = (
     const commands = buildCommandsList(checkpoint.jobId);
 
     const lines = [
-      `Активный jobId=${checkpoint.jobId} (status=${checkpoint.status}${checkpoint.reason ? `, reason=${checkpoint.reason}` : ''})`,
+      `Активный jobId=${checkpoint.jobId} (status=${checkpoint.status}${checkpoint.reason ? `, reason=${checkpoint.reason}` : ''}, priority=${checkpoint.priority ?? DEFAULT_BROADCAST_PRIORITY})`,
+      checkpoint.action ? `Действие: ${checkpoint.action.kind} рассылки ${checkpoint.action.sourceJobId}` : null,
       `Курсор: offset=${checkpoint.offset}/${checkpoint.total}, remaining=${remaining}`,
       `Доставлено=${checkpoint.delivered}, ошибки=${checkpoint.failed}, throttled429=${checkpoint.throttled429}`,
       ttlSecondsRemaining !== null ? `TTL чекпоинта: ${ttlSecondsRemaining}s` : null,
@@ -456,6 +930,9 @@ export const createTelegramBroadcastCommandHandler = (
     return { text: lines.join('\n'), commands };
   };
 
+  const buildJobsOverview = (checkpoints: readonly BroadcastProgressCheckpoint[], currentTimestamp: number): string =>
+    checkpoints.map((checkpoint) => buildCheckpointStatusMessage(checkpoint, currentTimestamp).text).join('\n\n');
+
   const savePendingEntry = async (userKey: string, entry: PendingBroadcast): Promise<void> => {
     pendingCache.set(userKey, entry);
 
@@ -478,20 +955,45 @@ export const createTelegramBroadcastCommandHandler = (
     }
   };
 
-  let activeJobId: string | undefined;
-  let activeBroadcastAbortController: AbortController | undefined;
+  // Задачи, запущенные этим обработчиком: пауза и завершение обрывают только свою.
+  const activeBroadcasts = new Map<string, AbortController>();
 
   const markActiveBroadcast = (jobId: string): AbortSignal => {
     const controller = new AbortController();
-    activeJobId = jobId;
-    activeBroadcastAbortController = controller;
+    activeBroadcasts.set(jobId, controller);
 
     return controller.signal;
   };
 
-  const clearActiveBroadcast = () => {
-    activeJobId = undefined;
-    activeBroadcastAbortController = undefined;
+  const clearActiveBroadcast = (jobId: string) => {
+    activeBroadcasts.delete(jobId);
+  };
+
+  /**
+   * Отвечает `job_active`, если уже идёт `maxConcurrentJobs` рассылок; приостановленные
+   * задачи в лимит не входят.
+   */
+  const rejectWhenJobLimitReached = async (chat: { id: string; threadId?: string }): Promise<Response | undefined> => {
+    const running = (await readActiveCheckpoints()).filter((checkpoint) => checkpoint.status === 'running');
+    if (running.length < maxConcurrentJobs) {
+      return undefined;
+    }
+
+    const header = running.length === 1
+      ? 'Уже запущена рассылка:'
+      : `Запущено рассылок: ${running.length}, одновременно можно не больше ${maxConcurrentJobs}:`;
+
+    await options.messaging.sendText({
+      chatId: chat.id,
+      threadId: chat.threadId,
+      text: [header, buildJobsOverview(running, now().getTime())].join('\n'),
+      ...withReplyMarkup(running.length === 1 ? await buildJobControls(running[0].jobId) : undefined),
+    });
+
+    return json(
+      { status: 'job_active', jobIds: running.map((checkpoint) => checkpoint.jobId), limit: maxConcurrentJobs },
+      { status: 200 },
+    );
   };
 
   const deletePendingEntry = async (userKey: string): Promise<void> => {
@@ -643,6 +1145,7 @@ export const createTelegramBroadcastCommandHandler = (
       ts: startedAt.toISOString(),
       admin_id: String(requestedBy),
       mode: audience.mode,
+      ...(audience.mode === 'segment' ? { segment: audience.filters.segment } : {}),
       source: 'D1',
       recipients: result?.recipients ?? audience.total ?? 0,
       delivered: result?.delivered ?? 0,
@@ -731,6 +1234,10 @@ export const createTelegramBroadcastCommandHandler = (
     const tokens = parseList(message.text ?? '');
     const userKey = getUserKey(message.user.userId);
 
+    if (tokens[0]?.toLowerCase() === BROADCAST_SEGMENT_COMMAND) {
+      return handleSegmentSelection(message, entry);
+    }
+
     const normalizedTokens = tokens.map((token) => token.trim()).filter((token) => token.length > 0);
     const wantsEveryone =
       normalizedTokens.length === 1 && normalizedTokens[0].toLowerCase() === '/everybody';
@@ -770,7 +1277,70 @@ export const createTelegramBroadcastCommandHandler = (
       return 'handled';
     }
 
-    const audience = await buildAudienceSelection(tokens);
+    return applyAudienceSelection(message, entry, await buildAudienceSelection(tokens));
+  };
+
+  const handleSegmentSelection = async (
+    message: IncomingMessage,
+    entry: PendingBroadcast,
+  ): Promise<'handled'> => {
+    const userKey = getUserKey(message.user.userId);
+    const argument = (message.text ?? '').trim().slice(BROADCAST_SEGMENT_COMMAND.length);
+    const parsed = parseBroadcastSegment(argument);
+
+    if (!parsed.ok) {
+      await savePendingEntry(userKey, { ...entry, expiresAt: now().getTime() + pendingTtlMs });
+
+      logger.warn('broadcast segment rejected', {
+        userId: message.user.userId,
+        chatId: message.chat.id,
+        reason: parsed.reason,
+        token: parsed.token ?? null,
+      });
+
+      try {
+        await options.messaging.sendText({
+          chatId: message.chat.id,
+          threadId: message.chat.threadId,
+          text: buildSegmentRejectedMessage(parsed),
+        });
+      } catch (error) {
+        logger.error('failed to send broadcast segment notice', {
+          userId: message.user.userId,
+          chatId: message.chat.id,
+          threadId: message.chat.threadId ?? null,
+          error: toErrorDetails(error),
+        });
+
+        await handleMessagingFailure(message.user.userId, 'broadcast_segment', error);
+      }
+
+      return 'handled';
+    }
+
+    const filters = toBroadcastSegmentFilter(parsed.segment, { now: now() });
+    const recipients = await options.recipientsRegistry.listActiveRecipients(filters);
+
+    logger.info('broadcast segment matched', {
+      userId: message.user.userId,
+      segment: parsed.definition,
+      total: recipients.length,
+    });
+
+    return applyAudienceSelection(message, entry, {
+      mode: 'segment',
+      total: recipients.length,
+      notFound: [],
+      filters,
+    });
+  };
+
+  const applyAudienceSelection = async (
+    message: IncomingMessage,
+    entry: PendingBroadcast,
+    audience: BroadcastAudience,
+  ): Promise<'handled'> => {
+    const userKey = getUserKey(message.user.userId);
 
     if (audience.total === 0) {
       const refreshedEntry: PendingBroadcast = {
@@ -788,7 +1358,9 @@ export const createTelegramBroadcastCommandHandler = (
         await options.messaging.sendText({
           chatId: message.chat.id,
           threadId: message.chat.threadId,
-          text: `Аудитория пуста. Пришлите /everybody или список user_id/username.${notFoundSuffix}`,
+          text: audience.mode === 'segment'
+            ? `Сегмент ${audience.filters.segment ?? ''} пуст. Пришлите /everybody, список user_id/username или другой ${BROADCAST_SEGMENT_COMMAND}.`
+            : `Аудитория пуста. Пришлите /everybody или список user_id/username.${notFoundSuffix}`,
         });
 
         logger.warn('broadcast empty audience selection', {
@@ -823,7 +1395,9 @@ export const createTelegramBroadcastCommandHandler = (
 
     await savePendingEntry(userKey, updatedEntry);
 
-    const promptMessage = buildBroadcastPromptMessage(audience.total, audience.notFound);
+    const promptMessage = audience.mode === 'segment'
+      ? `Сегмент ${audience.filters.segment ?? ''}: найдено ${audience.total} получателей.\n${buildBroadcastPromptMessage(audience.total)}`
+      : buildBroadcastPromptMessage(audience.total, audience.notFound);
 
     try {
       await options.messaging.sendText({
@@ -875,6 +1449,34 @@ export const createTelegramBroadcastCommandHandler = (
     });
   };
 
+  /**
+   * Подставляет профиль первого получателя аудитории, чтобы администратор
+   * увидел текст так, как его получит реальный пользователь.
+   */
+  const renderTemplateSample = async (
+    audience: BroadcastAudience,
+    text: string | undefined,
+  ): Promise<{ chatId: string; text: string } | undefined> => {
+    if (!text || !options.profiles || !hasBroadcastPlaceholders(text)) {
+      return undefined;
+    }
+
+    try {
+      const chatId = audience.mode === 'list'
+        ? audience.chatIds[0]
+        : (await options.recipientsRegistry.listActiveRecipients(toAudienceFilters(audience)))[0]?.chatId;
+      if (!chatId) {
+        return undefined;
+      }
+
+      const profiles = await options.profiles.loadProfiles([chatId]);
+      return { chatId, text: renderBroadcastTemplate(text, profiles.get(chatId)).text };
+    } catch (error) {
+      logger.warn('broadcast template sample failed', { error: toErrorDetails(error) });
+      return undefined;
+    }
+  };
+
   const finalizeCollectingTextEntry = async ({
     entry,
     userKey,
@@ -914,7 +1516,8 @@ export const createTelegramBroadcastCommandHandler = (
         await options.messaging.sendText({
           chatId: message.chat.id,
           threadId: message.chat.threadId,
-          text: buildAwaitingSendPromptMessage(audience),
+          text: buildAwaitingSendPromptMessage(audience, await renderTemplateSample(audience, entry.textChunks?.[0])),
+          ...withReplyMarkup(await buildSendControls()),
         });
 
         logger.info('broadcast awaiting send confirmation', {
@@ -948,6 +1551,7 @@ export const createTelegramBroadcastCommandHandler = (
       lastWarningAt: warningTimestamp,
       lastWarningText: message.text ?? '',
       textChunks: undefined,
+      content: undefined,
       chunkCount: undefined,
       debounceUntil: undefined,
       expiresAt: now().getTime() + pendingTtlMs,
@@ -1006,90 +1610,739 @@ export const createTelegramBroadcastCommandHandler = (
     }
   };
 
-  const handleCommand = async (context: TelegramAdminCommandContext): Promise<Response | void> => {
-    const currentTime = now().getTime();
-    cleanupExpiredCache(currentTime);
-    scheduleMaintenance('command');
-
-    const broadcastRequested = isBroadcastCommand(context);
-    const resumeRequested = isBroadcastResumeCommand(context);
-    const pauseRequested = isBroadcastPauseCommand(context);
-    const statusRequested = isBroadcastStatusCommand(context);
-    const endRequested = isBroadcastEndCommand(context);
-    const unsupportedAdminBroadcast = !broadcastRequested && isUnsupportedAdminBroadcast(context);
+  const handleScheduledCommand = async (
+    context: TelegramAdminCommandContext,
+    unschedule: boolean,
+  ): Promise<Response> => {
+    const reply = (text: string) =>
+      options.messaging.sendText({
+        chatId: context.chat.id,
+        threadId: context.chat.threadId,
+        text,
+      });
 
-    if (!broadcastRequested && !unsupportedAdminBroadcast && !resumeRequested && !pauseRequested && !statusRequested && !endRequested) {
-      const userKey = getUserKey(context.from.userId);
-      const entry = await loadPendingEntry(userKey, currentTime);
-      if (entry) {
-        await deletePendingEntry(userKey);
+    const store = options.scheduledBroadcasts;
+    if (!store) {
+      await reply(BROADCAST_SCHEDULED_DISABLED_MESSAGE);
+      return json({ status: 'scheduled_disabled' }, { status: 200 });
+    }
 
-        logger.info('broadcast pending cleared before non-broadcast command', {
-          userId: context.from.userId,
-          chatId: entry.chatId,
-          threadId: entry.threadId ?? null,
-          command: context.command,
-          argument: context.argument ?? null,
-        });
-      }
+    if (!unschedule) {
+      const items = await store.listUpcoming({ limit: SCHEDULED_LIST_LIMIT });
+      await reply(buildScheduledBroadcastsListMessage(items));
+      return json({ status: 'scheduled_list', count: items.length }, { status: 200 });
+    }
 
-      return undefined;
+    const jobId = context.argument?.trim().split(/\s+/)[0];
+    if (!hasArgument(jobId)) {
+      await reply('Укажите jobId: /broadcast_unschedule <jobId>');
+      return json({ error: 'jobId_required' }, { status: 400 });
     }
 
-    const isAdmin = await options.adminAccess.isAdmin(context.from.userId);
-    if (!isAdmin) {
-      return undefined;
+    const cancelled = await store.cancel(jobId, String(context.from.userId));
+    if (!cancelled) {
+      await reply(`Отложенная рассылка ${jobId} не найдена или уже запущена.`);
+      return json({ error: 'scheduled_not_found', jobId }, { status: 404 });
     }
 
-    if (pauseRequested || statusRequested || endRequested) {
-      const checkpoint = await readActiveCheckpoint();
+    logger.info('scheduled broadcast cancelled via telegram command', {
+      userId: context.from.userId,
+      jobId,
+    });
+    await reply(`🗑 Отложенная рассылка ${jobId} отменена.`);
+    return json({ status: 'unscheduled', jobId }, { status: 200 });
+  };
 
-      if (!checkpoint) {
-        await options.messaging.sendText({
-          chatId: context.chat.id,
-          threadId: context.chat.threadId,
-          text: 'Активная рассылка не найдена. Запустите /broadcast.',
-        });
+  /**
+   * `/broadcast_recall <jobId>` и `/broadcast_edit <jobId> <текст>`: отдельная
+   * задача со своим jobId, которая проходит по журналу доставок исходной
+   * рассылки через тот же пул и чекпоинты, поэтому её можно ставить на паузу и
+   * возобновлять обычными командами.
+   */
+  const handleRecallCommand = async (
+    context: TelegramAdminCommandContext,
+    kind: BroadcastAction['kind'],
+  ): Promise<Response> => {
+    const reply = (text: string, replyMarkup?: InlineKeyboardMarkup) =>
+      options.messaging.sendText({
+        chatId: context.chat.id,
+        threadId: context.chat.threadId,
+        text,
+        ...withReplyMarkup(replyMarkup),
+      });
 
-        return json({ status: 'job_not_found' }, { status: 404 });
-      }
+    const argument = context.argument?.trim() ?? '';
+    const sourceJobId = argument.split(/\s+/)[0];
+    const newText = argument.slice(sourceJobId.length).trim();
+    const usage = kind === 'recall'
+      ? 'Укажите jobId: /broadcast_recall <jobId>'
+      : 'Укажите jobId и новый текст: /broadcast_edit <jobId> <текст>';
 
-      const jobIdArgument = context.argument?.trim().split(/\s+/)[0];
-      if (hasArgument(jobIdArgument) && jobIdArgument !== checkpoint.jobId) {
-        await options.messaging.sendText({
-          chatId: context.chat.id,
-          threadId: context.chat.threadId,
-          text: `Активный jobId=${checkpoint.jobId}, указанный jobId=${jobIdArgument} не совпадает.`,
-        });
+    if (!hasArgument(sourceJobId) || (kind === 'edit' && !hasArgument(newText))) {
+      await reply(usage);
+      return json({ error: kind === 'recall' ? 'jobId_required' : 'jobId_and_text_required' }, { status: 400 });
+    }
 
-        return json({ status: 'job_mismatch', jobId: checkpoint.jobId }, { status: 409 });
+    if (kind === 'edit') {
+      const effectiveLength = measureTemplateLength(newText);
+      if (effectiveLength > maxTextLength) {
+        await reply(`Новый текст длиннее ${maxTextLength} символов (${effectiveLength}).`);
+        return json({ error: 'text_too_long', length: effectiveLength, limit: maxTextLength }, { status: 400 });
       }
+    }
 
-      if (
-        (pauseRequested || endRequested)
-        && checkpoint.jobId === activeJobId
-        && activeBroadcastAbortController
-        && !activeBroadcastAbortController.signal.aborted
-      ) {
-        activeBroadcastAbortController.abort();
+    const limitResponse = await rejectWhenJobLimitReached(context.chat);
+    if (limitResponse) {
+      return limitResponse;
+    }
 
-        logger.info('broadcast abort requested via command', {
+    const jobId = generateJobId();
+    const label = kind === 'recall' ? `Отзыв рассылки ${sourceJobId}` : `Правка рассылки ${sourceJobId}`;
+    const payload: BroadcastSendInput = {
+      text: kind === 'edit' ? newText : '',
+      requestedBy: String(context.from.userId),
+      action: { kind, sourceJobId },
+      jobId,
+      adminChat: { chatId: context.chat.id, threadId: context.chat.threadId },
+      abortSignal: markActiveBroadcast(jobId),
+    };
+
+    logger.info('broadcast action requested', {
+      userId: context.from.userId,
+      action: kind,
+      sourceJobId,
+      jobId,
+    });
+
+    await reply(`${label}: запуск, jobId=${jobId}.`, await buildJobControls(jobId));
+
+    // Проход по журналу идёт дольше таймаута вебхука: Telegram повторил бы
+    // апдейт и запустил вторую задачу над теми же доставками.
+    const runAction = async () => {
+      try {
+        const result = await options.sendBroadcast(payload);
+
+        await reply(
+          result.recipients === 0
+            ? `В журнале доставок нет сообщений рассылки ${sourceJobId}.`
+            : `${label}: готово, успешно=${result.delivered}, ошибки=${result.failed}.`,
+        );
+      } catch (error) {
+        logger.error('broadcast action failed', {
           userId: context.from.userId,
-          chatId: context.chat.id,
-          threadId: context.chat.threadId ?? null,
-          jobId: checkpoint.jobId,
-          command: context.command,
+          action: kind,
+          sourceJobId,
+          jobId,
+          error: toErrorDetails(error),
         });
+
+        await reply(`${label}: остановка с ошибкой. Статус: /broadcast_status ${jobId}`);
+      } finally {
+        clearActiveBroadcast(jobId);
       }
+    };
 
-      const { text } = buildCheckpointStatusMessage(checkpoint, currentTime);
-      const prefix = pauseRequested ? '⏸ Запрос паузы' : endRequested ? '⏹ Запрос завершения' : 'ℹ️ Статус рассылки';
+    const actionPromise = runAction();
+    if (context.waitUntil) {
+      context.waitUntil(actionPromise);
+    } else {
+      await actionPromise;
+    }
 
-      await options.messaging.sendText({
-        chatId: context.chat.id,
-        threadId: context.chat.threadId,
-        text: [prefix, text].join('\n'),
-      });
+    return json({ status: 'started', action: kind, jobId, sourceJobId }, { status: 200 });
+  };
+
+  const scheduleBroadcast = async (input: {
+    entry: PendingBroadcast;
+    audience: BroadcastAudience;
+    textChunk: string;
+    userKey: string;
+    message: IncomingMessage;
+    argument: string;
+  }): Promise<'handled'> => {
+    const { entry, audience, textChunk, userKey, message } = input;
+    // Порядок полей как после чтения из D1, иначе хэш текста при запуске не сойдётся.
+    const content = parseBroadcastContent(entry.content);
+    const store = options.scheduledBroadcasts;
+    if (!store) {
+      return 'handled';
+    }
+
+    const parsed = parseScheduledSendAt(input.argument, { now: now(), defaultTimeZone: scheduleTimeZone });
+    let reply: string;
+
+    if (!parsed.ok) {
+      await savePendingEntry(userKey, { ...entry, expiresAt: now().getTime() + pendingTtlMs });
+      reply = buildScheduleRejectedMessage(parsed.reason, scheduleTimeZone);
+
+      logger.warn('broadcast schedule rejected', {
+        userId: message.user.userId,
+        chatId: message.chat.id,
+        reason: parsed.reason,
+      });
+    } else {
+      const filters = toAudienceFilters(audience);
+
+      try {
+        const recipients = await options.recipientsRegistry.listActiveRecipients(filters);
+        const scheduled = await store.create({
+          jobId: generateJobId(),
+          text: textChunk,
+          ...(content ? { content } : {}),
+          textHash: await computeBroadcastContentHash(textChunk, content),
+          audienceHash: await computeBroadcastAudienceHash(recipients),
+          audienceMode: audience.mode,
+          audienceTotal: audience.total,
+          filters,
+          sendAt: parsed.sendAt,
+          timeZone: parsed.timeZone,
+          requestedBy: String(message.user.userId),
+          adminChat: { chatId: message.chat.id, threadId: message.chat.threadId },
+        });
+
+        await deletePendingEntry(userKey);
+        reply = buildScheduledConfirmationMessage(scheduled);
+
+        logger.info('broadcast scheduled via telegram command', {
+          userId: message.user.userId,
+          chatId: message.chat.id,
+          jobId: scheduled.jobId,
+          sendAt: scheduled.sendAt.toISOString(),
+          timeZone: scheduled.timeZone,
+        });
+      } catch (error) {
+        reply = BROADCAST_SCHEDULE_FAILURE_MESSAGE;
+
+        logger.error('failed to schedule broadcast', {
+          userId: message.user.userId,
+          chatId: message.chat.id,
+          error: toErrorDetails(error),
+        });
+      }
+    }
+
+    try {
+      await options.messaging.sendText({
+        chatId: message.chat.id,
+        threadId: message.chat.threadId,
+        text: reply,
+      });
+    } catch (error) {
+      logger.error('failed to send broadcast schedule notice', {
+        userId: message.user.userId,
+        chatId: message.chat.id,
+        threadId: message.chat.threadId ?? null,
+        error: toErrorDetails(error),
+      });
+
+      await handleMessagingFailure(message.user.userId, 'broadcast_schedule_notice', error);
+    }
+
+    return 'handled';
+  };
+
+  /**
+   * `/button Текст https://…` на этапе подтверждения: каждая кнопка — отдельный
+   * ряд под сообщением рассылки.
+   */
+  const addBroadcastButton = async (input: {
+    entry: PendingBroadcast;
+    userKey: string;
+    message: IncomingMessage;
+    argument: string;
+  }): Promise<'handled'> => {
+    const { entry, userKey, message } = input;
+    const button = parseBroadcastButton(input.argument);
+    const buttons = entry.content?.buttons ?? [];
+    let reply: string;
+
+    if (!button) {
+      reply = BROADCAST_BUTTON_FORMAT_MESSAGE;
+      await savePendingEntry(userKey, { ...entry, expiresAt: now().getTime() + pendingTtlMs });
+    } else if (buttons.flat().length >= MAX_BROADCAST_BUTTONS) {
+      reply = BROADCAST_BUTTON_LIMIT_MESSAGE;
+      await savePendingEntry(userKey, { ...entry, expiresAt: now().getTime() + pendingTtlMs });
+    } else {
+      const nextButtons = [...buttons, [button]];
+      await savePendingEntry(userKey, {
+        ...entry,
+        content: { ...entry.content, buttons: nextButtons },
+        expiresAt: now().getTime() + pendingTtlMs,
+      });
+      reply = buildButtonAddedMessage(nextButtons.length);
+
+      logger.info('broadcast button added', {
+        userId: message.user.userId,
+        chatId: message.chat.id,
+        buttons: nextButtons.length,
+      });
+    }
+
+    try {
+      await options.messaging.sendText({
+        chatId: message.chat.id,
+        threadId: message.chat.threadId,
+        text: reply,
+      });
+    } catch (error) {
+      logger.error('failed to send broadcast button notice', {
+        userId: message.user.userId,
+        chatId: message.chat.id,
+        threadId: message.chat.threadId ?? null,
+        error: toErrorDetails(error),
+      });
+
+      await handleMessagingFailure(message.user.userId, 'broadcast_button_notice', error);
+    }
+
+    return 'handled';
+  };
+
+  /**
+   * `/variant 30 Текст` на этапе подтверждения: вариант текста для A/B-теста.
+   * Получатели распределяются между вариантами при отправке.
+   */
+  const addBroadcastVariant = async (input: {
+    entry: PendingBroadcast;
+    userKey: string;
+    message: IncomingMessage;
+    argument: string;
+  }): Promise<'handled'> => {
+    const { entry, userKey, message } = input;
+    const parsed = parseBroadcastVariantArgument(input.argument);
+    const lengthLimit = entry.content?.media ? Math.min(maxTextLength, BROADCAST_CAPTION_LIMIT) : maxTextLength;
+    const refresh = () => savePendingEntry(userKey, { ...entry, expiresAt: now().getTime() + pendingTtlMs });
+    let reply: string;
+
+    if (!parsed.ok) {
+      reply = BROADCAST_VARIANT_FORMAT_MESSAGE;
+      await refresh();
+    } else if (measureTemplateLength(parsed.text) > lengthLimit) {
+      reply = `Текст варианта длиннее ${lengthLimit} символов, сократите его.`;
+      await refresh();
+    } else {
+      const appended = appendBroadcastVariant(entry.content?.variants, parsed);
+
+      if (!appended.ok) {
+        reply = appended.reason === 'limit'
+          ? BROADCAST_VARIANT_LIMIT_MESSAGE
+          : `Основному тексту должен остаться хотя бы 1% получателей. Сейчас: ${formatBroadcastVariantSplit(entry.content?.variants)}.`;
+        await refresh();
+      } else {
+        await savePendingEntry(userKey, {
+          ...entry,
+          content: { ...entry.content, variants: appended.variants },
+          expiresAt: now().getTime() + pendingTtlMs,
+        });
+        reply = buildVariantAddedMessage(appended.variant.id, formatBroadcastVariantSplit(appended.variants));
+
+        logger.info('broadcast variant added', {
+          userId: message.user.userId,
+          chatId: message.chat.id,
+          variant: appended.variant.id,
+          percent: appended.variant.percent,
+        });
+      }
+    }
+
+    try {
+      await options.messaging.sendText({
+        chatId: message.chat.id,
+        threadId: message.chat.threadId,
+        text: reply,
+      });
+    } catch (error) {
+      logger.error('failed to send broadcast variant notice', {
+        userId: message.user.userId,
+        chatId: message.chat.id,
+        threadId: message.chat.threadId ?? null,
+        error: toErrorDetails(error),
+      });
+
+      await handleMessagingFailure(message.user.userId, 'broadcast_variant_notice', error);
+    }
+
+    return 'handled';
+  };
+
+  /**
+   * `/translate en [Текст]` на этапе подтверждения: текст для получателей с этим
+   * языком. Повторная команда для того же языка заменяет перевод.
+   */
+  const addBroadcastTranslation = async (input: {
+    entry: PendingBroadcast;
+    userKey: string;
+    message: IncomingMessage;
+    argument: string;
+  }): Promise<'handled'> => {
+    const { entry, userKey, message } = input;
+    const parsed = parseBroadcastTranslationArgument(input.argument);
+    const baseText = entry.textChunks?.[0];
+    const lengthLimit = entry.content?.media ? Math.min(maxTextLength, BROADCAST_CAPTION_LIMIT) : maxTextLength;
+    const refresh = () => savePendingEntry(userKey, { ...entry, expiresAt: now().getTime() + pendingTtlMs });
+
+    const resolveTranslation = async (): Promise<BroadcastTranslationDraft | { reply: string }> => {
+      if (!parsed.ok) {
+        return { reply: BROADCAST_TRANSLATE_FORMAT_MESSAGE };
+      }
+
+      if (parsed.text) {
+        return { languageCode: parsed.languageCode, text: parsed.text, machine: false };
+      }
+
+      if (!options.ai || !baseText) {
+        return { reply: BROADCAST_TRANSLATE_MANUAL_MESSAGE };
+      }
+
+      try {
+        const text = await translateBroadcastText(options.ai, {
+          text: baseText,
+          languageCode: parsed.languageCode,
+          requestedBy: String(message.user.userId),
+        });
+        return { languageCode: parsed.languageCode, text, machine: true };
+      } catch (error) {
+        logger.warn('broadcast machine translation failed', {
+          userId: message.user.userId,
+          language: parsed.languageCode,
+          error: toErrorDetails(error),
+        });
+        return { reply: BROADCAST_TRANSLATE_FAILED_MESSAGE };
+      }
+    };
+
+    const resolved = await resolveTranslation();
+    let reply: string;
+
+    if ('reply' in resolved) {
+      reply = resolved.reply;
+      await refresh();
+    } else if (measureTemplateLength(resolved.text) > lengthLimit) {
+      reply = `Перевод длиннее ${lengthLimit} символов, сократите его.`;
+      await refresh();
+    } else {
+      const { languageCode, text, machine } = resolved;
+      const upserted = upsertBroadcastTranslation(entry.content?.translations, { languageCode, text });
+
+      if (!upserted.ok) {
+        reply = BROADCAST_TRANSLATE_LIMIT_MESSAGE;
+        await refresh();
+      } else {
+        await savePendingEntry(userKey, {
+          ...entry,
+          content: { ...entry.content, translations: upserted.translations },
+          expiresAt: now().getTime() + pendingTtlMs,
+        });
+        reply = buildTranslationAddedMessage(
+          languageCode,
+          formatBroadcastTranslations(upserted.translations),
+          machine ? text : undefined,
+        );
+
+        logger.info('broadcast translation added', {
+          userId: message.user.userId,
+          chatId: message.chat.id,
+          language: languageCode,
+          machineTranslated: machine,
+        });
+      }
+    }
+
+    try {
+      await options.messaging.sendText({
+        chatId: message.chat.id,
+        threadId: message.chat.threadId,
+        text: reply,
+      });
+    } catch (error) {
+      logger.error('failed to send broadcast translation notice', {
+        userId: message.user.userId,
+        chatId: message.chat.id,
+        threadId: message.chat.threadId ?? null,
+        error: toErrorDetails(error),
+      });
+
+      await handleMessagingFailure(message.user.userId, 'broadcast_translation_notice', error);
+    }
+
+    return 'handled';
+  };
+
+  const setBroadcastPriority = async (input: {
+    entry: PendingBroadcast;
+    userKey: string;
+    message: IncomingMessage;
+    argument: string;
+  }): Promise<'handled'> => {
+    const { entry, userKey, message } = input;
+    const priority = input.argument.trim().toLowerCase();
+    let reply: string;
+
+    if (isBroadcastPriority(priority)) {
+      await savePendingEntry(userKey, { ...entry, priority, expiresAt: now().getTime() + pendingTtlMs });
+      reply = buildPriorityChangedMessage(priority);
+
+      logger.info('broadcast priority set', {
+        userId: message.user.userId,
+        chatId: message.chat.id,
+        priority,
+      });
+    } else {
+      await savePendingEntry(userKey, { ...entry, expiresAt: now().getTime() + pendingTtlMs });
+      reply = BROADCAST_PRIORITY_FORMAT_MESSAGE;
+    }
+
+    try {
+      await options.messaging.sendText({
+        chatId: message.chat.id,
+        threadId: message.chat.threadId,
+        text: reply,
+      });
+    } catch (error) {
+      logger.error('failed to send broadcast priority notice', {
+        userId: message.user.userId,
+        chatId: message.chat.id,
+        threadId: message.chat.threadId ?? null,
+        error: toErrorDetails(error),
+      });
+
+      await handleMessagingFailure(message.user.userId, 'broadcast_priority_notice', error);
+    }
+
+    return 'handled';
+  };
+
+  /**
+   * `/send_test` — подготовленная рассылка уходит только администратору (каждый
+   * вариант A/B-теста отдельным сообщением); `/send_dryrun` — прогон отправителя
+   * без вызовов Telegram. Черновик в обоих случаях сохраняется.
+   */
+  const previewBroadcast = async (input: {
+    entry: PendingBroadcast;
+    audience: BroadcastAudience;
+    textChunk: string;
+    userKey: string;
+    message: IncomingMessage;
+    mode: 'test' | 'dry_run';
+  }): Promise<'handled'> => {
+    const { entry, audience, textChunk, userKey, message, mode } = input;
+    const requestedBy = String(message.user.userId);
+    await savePendingEntry(userKey, { ...entry, expiresAt: now().getTime() + pendingTtlMs });
+
+    let reply: string;
+    try {
+      if (mode === 'dry_run') {
+        const result = await options.sendBroadcast({
+          text: textChunk,
+          ...(entry.content ? { content: entry.content } : {}),
+          requestedBy,
+          filters: toAudienceFilters(audience),
+          mode: 'dry_run',
+        });
+        reply = result.dryRun
+          ? buildDryRunReportMessage(result.recipients, result.dryRun)
+          : `Получателей: ${result.recipients}. ${BROADCAST_PREVIEW_CHOICES}`;
+      } else {
+        const { variants, translations, ...content } = entry.content ?? {};
+        const versions = [
+          { id: BROADCAST_BASE_VARIANT_ID, text: textChunk, content },
+          ...[
+            ...(variants ?? []),
+            ...(translations ?? []).map((translation) => ({ ...translation, id: translation.languageCode })),
+          ].map((version) => ({
+            id: version.id,
+            text: version.text,
+            content: { ...content, entities: undefined },
+          })),
+        ];
+
+        for (const version of versions) {
+          await options.sendBroadcast({
+            text: version.text,
+            ...(hasBroadcastContent(version.content) ? { content: version.content } : {}),
+            requestedBy,
+            mode: 'test',
+            testRecipient: { chatId: message.chat.id, threadId: message.chat.threadId },
+          });
+        }
+
+        reply = versions.length > 1
+          ? `🧪 Варианты ${versions.map((version) => version.id).join(', ')} отправлены только вам. ${BROADCAST_PREVIEW_CHOICES}`
+          : `🧪 Рассылка отправлена только вам. ${BROADCAST_PREVIEW_CHOICES}`;
+      }
+
+      logger.info('broadcast preview completed', { userId: requestedBy, chatId: message.chat.id, mode });
+    } catch (error) {
+      logger.error('broadcast preview failed', {
+        userId: requestedBy,
+        chatId: message.chat.id,
+        mode,
+        error: toErrorDetails(error),
+      });
+      reply = `Не удалось выполнить ${mode === 'test' ? BROADCAST_SEND_TEST_COMMAND : BROADCAST_SEND_DRYRUN_COMMAND}, черновик сохранён. ${BROADCAST_PREVIEW_CHOICES}`;
+    }
+
+    try {
+      await options.messaging.sendText({
+        chatId: message.chat.id,
+        threadId: message.chat.threadId,
+        text: reply,
+      });
+    } catch (error) {
+      logger.error('failed to send broadcast preview notice', {
+        userId: requestedBy,
+        chatId: message.chat.id,
+        threadId: message.chat.threadId ?? null,
+        error: toErrorDetails(error),
+      });
+
+      await handleMessagingFailure(message.user.userId, 'broadcast_preview_notice', error);
+    }
+
+    return 'handled';
+  };
+
+  const handleCommand = async (context: TelegramAdminCommandContext): Promise<Response | void> => {
+    const currentTime = now().getTime();
+    cleanupExpiredCache(currentTime);
+    scheduleMaintenance('command');
+
+    const broadcastRequested = isBroadcastCommand(context);
+    const resumeRequested = isBroadcastResumeCommand(context);
+    const pauseRequested = isBroadcastPauseCommand(context);
+    const statusRequested = isBroadcastStatusCommand(context);
+    const endRequested = isBroadcastEndCommand(context);
+    const scheduledListRequested = isBroadcastScheduledCommand(context);
+    const unscheduleRequested = isBroadcastUnscheduleCommand(context);
+    const recallRequested = isBroadcastRecallCommand(context);
+    const editRequested = isBroadcastEditCommand(context);
+    const unsupportedAdminBroadcast = !broadcastRequested && isUnsupportedAdminBroadcast(context);
+
+    if (
+      !broadcastRequested
+      && !unsupportedAdminBroadcast
+      && !resumeRequested
+      && !pauseRequested
+      && !statusRequested
+      && !endRequested
+      && !scheduledListRequested
+      && !unscheduleRequested
+      && !recallRequested
+      && !editRequested
+    ) {
+      const userKey = getUserKey(context.from.userId);
+      const entry = await loadPendingEntry(userKey, currentTime);
+      if (entry) {
+        await deletePendingEntry(userKey);
+
+        logger.info('broadcast pending cleared before non-broadcast command', {
+          userId: context.from.userId,
+          chatId: entry.chatId,
+          threadId: entry.threadId ?? null,
+          command: context.command,
+          argument: context.argument ?? null,
+        });
+      }
+
+      return undefined;
+    }
+
+    const isAdmin = await options.adminAccess.isAdmin(context.from.userId);
+    if (!isAdmin) {
+      return undefined;
+    }
+
+    if (scheduledListRequested || unscheduleRequested) {
+      return handleScheduledCommand(context, unscheduleRequested);
+    }
+
+    if (recallRequested || editRequested) {
+      return handleRecallCommand(context, recallRequested ? 'recall' : 'edit');
+    }
+
+    if (pauseRequested || statusRequested || endRequested) {
+      const activeCheckpoints = await readActiveCheckpoints();
+
+      if (activeCheckpoints.length === 0) {
+        await options.messaging.sendText({
+          chatId: context.chat.id,
+          threadId: context.chat.threadId,
+          text: 'Активная рассылка не найдена. Запустите /broadcast.',
+        });
+
+        return json({ status: 'job_not_found' }, { status: 404 });
+      }
+
+      const jobIdArgument = context.argument?.trim().split(/\s+/)[0];
+      const activeJobIds = activeCheckpoints.map((entry) => entry.jobId);
+
+      if (!hasArgument(jobIdArgument) && activeCheckpoints.length > 1) {
+        if (statusRequested) {
+          await options.messaging.sendText({
+            chatId: context.chat.id,
+            threadId: context.chat.threadId,
+            text: [`ℹ️ Активных рассылок: ${activeCheckpoints.length}`, buildJobsOverview(activeCheckpoints, currentTime)].join('\n'),
+          });
+
+          return json({ status: 'status', jobIds: activeJobIds }, { status: 200 });
+        }
+
+        await options.messaging.sendText({
+          chatId: context.chat.id,
+          threadId: context.chat.threadId,
+          text: [
+            `Активных рассылок несколько, укажите jobId: ${context.command.toLowerCase()} <jobId>`,
+            ...activeJobIds,
+          ].join('\n'),
+        });
+
+        return json({ error: 'jobId_required', jobIds: activeJobIds }, { status: 400 });
+      }
+
+      const checkpoint = hasArgument(jobIdArgument)
+        ? activeCheckpoints.find((entry) => entry.jobId === jobIdArgument)
+        : activeCheckpoints[0];
+
+      if (!checkpoint) {
+        const [onlyJobId] = activeJobIds;
+        await options.messaging.sendText({
+          chatId: context.chat.id,
+          threadId: context.chat.threadId,
+          text: activeJobIds.length === 1
+            ? `Активный jobId=${onlyJobId}, указанный jobId=${jobIdArgument} не совпадает.`
+            : `Среди активных рассылок нет jobId=${jobIdArgument}. Активные: ${activeJobIds.join(', ')}.`,
+        });
+
+        return json(
+          activeJobIds.length === 1
+            ? { status: 'job_mismatch', jobId: onlyJobId }
+            : { status: 'job_mismatch', jobIds: activeJobIds },
+          { status: 409 },
+        );
+      }
+
+      const activeController = activeBroadcasts.get(checkpoint.jobId);
+      if ((pauseRequested || endRequested) && activeController && !activeController.signal.aborted) {
+        activeController.abort();
+
+        logger.info('broadcast abort requested via command', {
+          userId: context.from.userId,
+          chatId: context.chat.id,
+          threadId: context.chat.threadId ?? null,
+          jobId: checkpoint.jobId,
+          command: context.command,
+        });
+      }
+
+      const { text } = buildCheckpointStatusMessage(checkpoint, currentTime);
+      const prefix = pauseRequested ? '⏸ Запрос паузы' : endRequested ? '⏹ Запрос завершения' : 'ℹ️ Статус рассылки';
+
+      await options.messaging.sendText({
+        chatId: context.chat.id,
+        threadId: context.chat.threadId,
+        text: [prefix, text].join('\n'),
+        ...withReplyMarkup(await buildJobControls(checkpoint.jobId)),
+      });
 
       return json({ status: pauseRequested ? 'pause_ack' : endRequested ? 'end_ack' : 'status', jobId: checkpoint.jobId }, { status: 200 });
     }
@@ -1129,6 +2382,11 @@ export const createTelegramBroadcastCommandHandler = (
         return json({ status: 'already_running', jobId }, { status: 200 });
       }
 
+      const limitResponse = await rejectWhenJobLimitReached(context.chat);
+      if (limitResponse) {
+        return limitResponse;
+      }
+
       const payload: BroadcastSendInput = {
         text: checkpoint.text,
         requestedBy: String(context.from.userId),
@@ -1164,7 +2422,7 @@ export const createTelegramBroadcastCommandHandler = (
             text: `Не удалось возобновить ${jobId}. Попробуйте позже.`,
           });
         } finally {
-          clearActiveBroadcast();
+          clearActiveBroadcast(checkpoint.jobId);
           await persistBroadcastLog({
             audience: { mode: 'all', notFound: [], total: checkpoint.total },
             requestedBy: context.from.userId,
@@ -1215,17 +2473,9 @@ export const createTelegramBroadcastCommandHandler = (
     const timestamp = now().getTime();
     cleanupExpiredCache(timestamp);
 
-    const activeCheckpoint = await readActiveCheckpoint();
-    if (activeCheckpoint) {
-      const { text } = buildCheckpointStatusMessage(activeCheckpoint, timestamp);
-
-      await options.messaging.sendText({
-        chatId: context.chat.id,
-        threadId: context.chat.threadId,
-        text: [`Уже запущена рассылка:`, text].join('\n'),
-      });
-
-      return json({ status: 'job_active', jobId: activeCheckpoint.jobId }, { status: 200 });
+    const limitResponse = await rejectWhenJobLimitReached(context.chat);
+    if (limitResponse) {
+      return limitResponse;
     }
 
     const userKey = getUserKey(context.from.userId);
@@ -1379,6 +2629,7 @@ export const createTelegramBroadcastCommandHandler = (
         ...entry,
         chunkCount: Math.max(entry.chunkCount ?? 1, 1) + 1,
         textChunks: undefined,
+        content: undefined,
         expiresAt: now().getTime() + pendingTtlMs,
       };
 
@@ -1408,9 +2659,66 @@ export const createTelegramBroadcastCommandHandler = (
         return 'handled';
       }
 
+      if (normalized === '/button' || normalized.startsWith('/button ')) {
+        return addBroadcastButton({ entry, userKey, message, argument: rawText.trim().slice('/button'.length) });
+      }
+
+      if (normalized === BROADCAST_VARIANT_COMMAND || normalized.startsWith(`${BROADCAST_VARIANT_COMMAND} `)) {
+        return addBroadcastVariant({
+          entry,
+          userKey,
+          message,
+          argument: rawText.trim().slice(BROADCAST_VARIANT_COMMAND.length),
+        });
+      }
+
+      if (normalized === BROADCAST_TRANSLATE_COMMAND || normalized.startsWith(`${BROADCAST_TRANSLATE_COMMAND} `)) {
+        return addBroadcastTranslation({
+          entry,
+          userKey,
+          message,
+          argument: rawText.trim().slice(BROADCAST_TRANSLATE_COMMAND.length),
+        });
+      }
+
+      if (normalized === BROADCAST_PRIORITY_COMMAND || normalized.startsWith(`${BROADCAST_PRIORITY_COMMAND} `)) {
+        return setBroadcastPriority({
+          entry,
+          userKey,
+          message,
+          argument: rawText.trim().slice(BROADCAST_PRIORITY_COMMAND.length),
+        });
+      }
+
+      const pendingTextChunk = entry.textChunks?.[0];
+      if (
+        (normalized === BROADCAST_SEND_TEST_COMMAND || normalized === BROADCAST_SEND_DRYRUN_COMMAND)
+        && pendingTextChunk !== undefined
+      ) {
+        return previewBroadcast({
+          entry,
+          audience,
+          textChunk: pendingTextChunk,
+          userKey,
+          message,
+          mode: normalized === BROADCAST_SEND_TEST_COMMAND ? 'test' : 'dry_run',
+        });
+      }
+
+      if (options.scheduledBroadcasts && normalized.startsWith('/send ') && pendingTextChunk !== undefined) {
+        return scheduleBroadcast({
+          entry,
+          audience,
+          textChunk: pendingTextChunk,
+          userKey,
+          message,
+          argument: rawText.trim().slice('/send'.length),
+        });
+      }
+
       if (normalized === '/send') {
         const textChunk = entry.textChunks?.[0];
-        if (!textChunk) {
+        if (textChunk === undefined || (!textChunk && !entry.content?.media)) {
           logger.warn('broadcast awaiting send without text chunk', {
             userId: message.user.userId,
             chatId: message.chat.id,
@@ -1422,8 +2730,7 @@ export const createTelegramBroadcastCommandHandler = (
           return 'handled';
         }
 
-        const filters: BroadcastAudienceFilter | undefined =
-          audience.mode === 'list' ? { chatIds: audience.chatIds } : undefined;
+        const filters = toAudienceFilters(audience);
 
         const requestedBy = message.user.userId;
 
@@ -1436,8 +2743,10 @@ export const createTelegramBroadcastCommandHandler = (
         const jobId = generateJobId();
         const payload: BroadcastSendInput = {
           text: textChunk,
+          ...(entry.content ? { content: entry.content } : {}),
           requestedBy,
           filters,
+          ...(entry.priority ? { priority: entry.priority } : {}),
           jobId,
           adminChat: { chatId: message.chat.id, threadId: message.chat.threadId },
           abortSignal: markActiveBroadcast(jobId),
@@ -1463,6 +2772,7 @@ export const createTelegramBroadcastCommandHandler = (
                 chatId: message.chat.id,
                 threadId: message.chat.threadId,
                 text: createBroadcastResponse(result, payload.jobId),
+                ...withReplyMarkup(payload.jobId ? await buildJobControls(payload.jobId) : undefined),
               });
             } catch (error) {
               logger.error('failed to send broadcast confirmation', {
@@ -1500,7 +2810,7 @@ export const createTelegramBroadcastCommandHandler = (
             }
           }
 
-          clearActiveBroadcast();
+          clearActiveBroadcast(jobId);
 
           await persistBroadcastLog({
             audience,
@@ -1530,6 +2840,7 @@ export const createTelegramBroadcastCommandHandler = (
           awaitingNewTextPrompt: undefined,
           awaitingTextPrompt: true,
           textChunks: undefined,
+          content: undefined,
           chunkCount: undefined,
           debounceUntil: undefined,
           expiresAt: now().getTime() + pendingTtlMs,
@@ -1672,6 +2983,7 @@ export const createTelegramBroadcastCommandHandler = (
           awaitingTextPrompt: true,
           awaitingSendCommand: undefined,
           textChunks: undefined,
+          content: undefined,
           chunkCount: undefined,
           debounceUntil: undefined,
           lastRejectedLength: undefined,
@@ -1824,13 +3136,26 @@ export const createTelegramBroadcastCommandHandler = (
       return handleAudienceSelection(message, entry);
     }
 
-    const { text, usedSendCommand } = extractBroadcastText(rawText);
+    const extracted = extractBroadcastText(rawText);
+    const { usedSendCommand } = extracted;
+    const media = extractBroadcastMedia(message);
+    const entities = sliceBroadcastEntities(message.entities, extracted.offset, extracted.text.length);
+    // Разметка привязана к позициям символов, поэтому с ней текст хранится уже обрезанным.
+    const formatted = entities ? trimBroadcastText(extracted.text, entities) : undefined;
+    const text = formatted?.text ?? extracted.text;
+    const content: BroadcastContent | undefined = media || formatted?.entities
+      ? {
+          ...(media ? { media } : {}),
+          ...(formatted?.entities ? { entities: formatted.entities } : {}),
+        }
+      : undefined;
     const rawLength = getRawTextLength(text);
     const visibleLength = getVisibleTextLength(text);
-    const effectiveLength = Math.max(rawLength, visibleLength);
+    const effectiveLength = Math.max(rawLength, visibleLength, measureTemplateLength(text));
     const trimmed = text.trim();
+    const lengthLimit = media ? Math.min(maxTextLength, BROADCAST_CAPTION_LIMIT) : maxTextLength;
 
-    if (trimmed.length === 0) {
+    if (trimmed.length === 0 && !media) {
       const refreshedEntry: PendingBroadcast = {
         ...entry,
         expiresAt: now().getTime() + pendingTtlMs,
@@ -1866,8 +3191,8 @@ export const createTelegramBroadcastCommandHandler = (
       return 'handled';
     }
 
-    if (effectiveLength > maxTextLength) {
-      const overflow = effectiveLength - maxTextLength;
+    if (effectiveLength > lengthLimit) {
+      const overflow = effectiveLength - lengthLimit;
       const warningTimestamp = now().getTime();
       const refreshedEntry: PendingBroadcast = {
         ...entry,
@@ -1896,11 +3221,11 @@ export const createTelegramBroadcastCommandHandler = (
 
       logger.warn('broadcast text rejected', {
         userId: message.user.userId,
-        reason: 'too_long',
+        reason: media ? 'caption_too_long' : 'too_long',
         length: effectiveLength,
         rawLength,
         visibleLength,
-        limit: maxTextLength,
+        limit: lengthLimit,
       });
 
       logger.info('broadcast awaiting new text', {
@@ -1914,7 +3239,7 @@ export const createTelegramBroadcastCommandHandler = (
         await options.messaging.sendText({
           chatId: message.chat.id,
           threadId: message.chat.threadId,
-          text: buildTooLongMessage(overflow),
+          text: media ? buildCaptionTooLongMessage(overflow) : buildTooLongMessage(overflow),
         });
       } catch (error) {
         logger.error('failed to send broadcast length warning', {
@@ -1951,6 +3276,7 @@ export const createTelegramBroadcastCommandHandler = (
       awaitingNewText: false,
       awaitingNewTextPrompt: undefined,
       textChunks: [text],
+      content,
       chunkCount: 1,
       debounceUntil: now().getTime() + TEXT_CHUNK_DEBOUNCE_MS,
       expiresAt: now().getTime() + pendingTtlMs,
@@ -1969,6 +3295,7 @@ export const createTelegramBroadcastCommandHandler = (
       usedSendCommand,
       rawLength,
       visibleLength,
+      ...(media ? { media: media.kind } : {}),
     });
 
     scheduleTextChunkFinalization({ userKey, message, context });
@@ -1976,8 +3303,55 @@ export const createTelegramBroadcastCommandHandler = (
     return 'handled';
   };
 
+  const handleCallback = async (
+    context: TelegramCallbackQueryContext,
+  ): Promise<CallbackQueryAnswer | void> => {
+    const [namespace, action, jobId] = context.data.split(':');
+    if (namespace !== BROADCAST_CALLBACK_NAMESPACE) {
+      return undefined;
+    }
+
+    if (isSessionAction(action)) {
+      const entry = await loadPendingEntry(getUserKey(context.from.userId), now().getTime());
+      if (!entry || (action !== 'cancel' && entry.stage !== 'awaiting_send')) {
+        return { text: BROADCAST_CALLBACK_SESSION_EXPIRED };
+      }
+
+      logger.info('broadcast control pressed', {
+        userId: context.from.userId,
+        chatId: context.chat.id,
+        action,
+      });
+
+      await handleMessage(
+        createCallbackIncomingMessage(context, BROADCAST_SESSION_ACTION_COMMANDS[action]),
+        context,
+      );
+
+      return undefined;
+    }
+
+    if (isJobAction(action) && jobId) {
+      logger.info('broadcast control pressed', {
+        userId: context.from.userId,
+        chatId: context.chat.id,
+        action,
+        jobId,
+      });
+
+      const response = await handleCommand(
+        createCallbackCommandContext(context, BROADCAST_JOB_ACTION_COMMANDS[action], jobId),
+      );
+
+      return response ? undefined : { text: BROADCAST_CALLBACK_FORBIDDEN };
+    }
+
+    return undefined;
+  };
+
   return {
     handleCommand,
     handleMessage,
+    handleCallback,
   } satisfies TelegramBroadcastCommandHandler;
 };
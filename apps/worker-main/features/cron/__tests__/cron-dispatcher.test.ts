@@ -0,0 +1,203 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createCronDiagRoute, createCronRunRoute } from '../cron-admin-routes';
+import { createCronDispatcher, type CronJob } from '../cron-dispatcher';
+
+const createClock = (start = '2026-10-19T10:00:00.000Z') => {
+  let current = new Date(start).getTime();
+  return {
+    now: () => new Date(current),
+    advance(ms: number) {
+      current += ms;
+    },
+  };
+};
+
+class MemoryKv {
+  constructor(private readonly now: () => Date) {}
+
+  readonly store = new Map<string, { value: string; expiration?: number }>();
+
+  async get(key: string, type: 'text'): Promise<string | null> {
+    void type;
+    const entry = this.store.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiration && entry.expiration * 1000 <= this.now().getTime()) {
+      this.store.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void> {
+    const expiration = options?.expirationTtl
+      ? Math.floor(this.now().getTime() / 1000) + options.expirationTtl
+      : undefined;
+    this.store.set(key, { value, expiration });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+}
+
+const createJob = (name: string, run: CronJob['run'], schedules?: string[]): CronJob => ({
+  name,
+  description: `job ${name}`,
+  schedules,
+  run,
+});
+
+describe('createCronDispatcher', () => {
+  it('runs a job, stores its last-run status and releases the lock', async () => {
+    const clock = createClock();
+    const kv = new MemoryKv(clock.now);
+    const run = vi.fn(async () => {
+      clock.advance(1500);
+      return { deleted: 3 };
+    });
+    const dispatcher = createCronDispatcher({ jobs: [createJob('cleanup', run)], kv, now: clock.now });
+
+    await expect(dispatcher.run('cleanup')).resolves.toEqual({
+      job: 'cleanup',
+      status: 'ok',
+      durationMs: 1500,
+      result: { deleted: 3 },
+    });
+    expect(run).toHaveBeenCalledWith({ now: new Date('2026-10-19T10:00:00.000Z'), trigger: 'scheduled' });
+
+    const [snapshot] = await dispatcher.snapshot();
+    expect(snapshot).toEqual({
+      name: 'cleanup',
+      description: 'job cleanup',
+      schedules: [],
+      lockedUntil: null,
+      lastRun: {
+        job: 'cleanup',
+        trigger: 'scheduled',
+        status: 'ok',
+        startedAt: '2026-10-19T10:00:00.000Z',
+        finishedAt: '2026-10-19T10:00:01.500Z',
+        durationMs: 1500,
+        result: { deleted: 3 },
+      },
+    });
+    expect(kv.store.has('cron:lock:cleanup')).toBe(false);
+  });
+
+  it('skips a job while another run holds its lock and retries after expiry', async () => {
+    const clock = createClock();
+    const kv = new MemoryKv(clock.now);
+    const releases: Array<() => void> = [];
+    const run = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          releases.push(resolve);
+        }),
+    );
+    const dispatcher = createCronDispatcher({
+      jobs: [createJob('slow', run)],
+      kv,
+      now: clock.now,
+      lockTtlSeconds: 120,
+    });
+
+    const first = dispatcher.run('slow');
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(1));
+
+    await expect(dispatcher.run('slow', { trigger: 'manual' })).resolves.toEqual({
+      job: 'slow',
+      status: 'locked',
+      lockedUntil: '2026-10-19T10:02:00.000Z',
+    });
+    expect((await dispatcher.snapshot())[0]?.lockedUntil).toBe('2026-10-19T10:02:00.000Z');
+
+    clock.advance(121_000);
+    const second = dispatcher.run('slow', { trigger: 'manual' });
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(2));
+
+    releases.forEach((release) => release());
+    await expect(second).resolves.toMatchObject({ status: 'ok' });
+    await expect(first).resolves.toMatchObject({ status: 'ok' });
+  });
+
+  it('records failures and filters jobs by cron expression', async () => {
+    const clock = createClock();
+    const kv = new MemoryKv(clock.now);
+    const hourly = vi.fn(async () => {
+      throw new Error('kv unavailable');
+    });
+    const frequent = vi.fn(async () => undefined);
+    const dispatcher = createCronDispatcher({
+      jobs: [createJob('hourly', hourly, ['0 * * * *']), createJob('frequent', frequent)],
+      kv,
+      now: clock.now,
+    });
+
+    const outcomes = await dispatcher.runScheduled({ cron: '*/5 * * * *' });
+    expect(outcomes).toEqual([{ job: 'frequent', status: 'ok', durationMs: 0 }]);
+    expect(hourly).not.toHaveBeenCalled();
+
+    await expect(dispatcher.runScheduled({ cron: '0 * * * *' })).resolves.toEqual([
+      { job: 'hourly', status: 'failed', durationMs: 0, error: 'kv unavailable' },
+      { job: 'frequent', status: 'ok', durationMs: 0 },
+    ]);
+
+    const snapshot = await dispatcher.snapshot();
+    expect(snapshot[0]?.lastRun).toMatchObject({ status: 'failed', error: 'kv unavailable' });
+    expect(kv.store.has('cron:lock:hourly')).toBe(false);
+  });
+
+  it('rejects duplicate job names', () => {
+    const kv = new MemoryKv(() => new Date());
+    const job = createJob('dup', async () => undefined);
+
+    expect(() => createCronDispatcher({ jobs: [job, job], kv })).toThrow('Duplicate cron job name: dup');
+  });
+});
+
+describe('cron admin routes', () => {
+  it('exposes job status and triggers a job manually', async () => {
+    const clock = createClock();
+    const kv = new MemoryKv(clock.now);
+    const dispatcher = createCronDispatcher({
+      jobs: [createJob('cleanup', async () => ({ deleted: 1 }))],
+      kv,
+      now: clock.now,
+    });
+    const runRoute = createCronRunRoute({ dispatcher });
+    const diagRoute = createCronDiagRoute({ dispatcher });
+
+    const missing = await runRoute(new Request('https://example.com/admin/cron/run', { method: 'POST' }));
+    expect(missing.status).toBe(400);
+    await expect(missing.json()).resolves.toMatchObject({ jobs: ['cleanup'] });
+
+    const unknown = await runRoute(
+      new Request('https://example.com/admin/cron/run?job=nope', { method: 'POST' }),
+    );
+    expect(unknown.status).toBe(404);
+
+    const triggered = await runRoute(
+      new Request('https://example.com/admin/cron/run?job=cleanup', { method: 'POST' }),
+    );
+    expect(triggered.status).toBe(200);
+    await expect(triggered.json()).resolves.toMatchObject({ status: 'ok', result: { deleted: 1 } });
+
+    const diag = await diagRoute(new Request('https://example.com/admin/diag?q=cron'));
+    await expect(diag.json()).resolves.toMatchObject({
+      status: 'ok',
+      feature: 'cron',
+      jobs: [{ name: 'cleanup', lastRun: { trigger: 'manual', status: 'ok' } }],
+    });
+  });
+
+  it('reports disabled cron when no dispatcher is configured', async () => {
+    const response = await createCronDiagRoute({})(new Request('https://example.com/admin/diag?q=cron'));
+
+    await expect(response.json()).resolves.toEqual({ status: 'disabled', feature: 'cron' });
+  });
+});
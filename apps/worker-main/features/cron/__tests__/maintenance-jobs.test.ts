@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  ADMIN_ERRORS_CLEANUP_JOB,
+  BROADCAST_PENDING_CLEANUP_JOB,
+  BROADCAST_PROGRESS_CLEANUP_JOB,
+  createMaintenanceJobs,
+} from '../maintenance-jobs';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+class MemoryKv {
+  readonly store = new Map<string, { value: string; expiration?: number }>();
+
+  seed(key: string, value: unknown, expiration?: number) {
+    this.store.set(key, { value: typeof value === 'string' ? value : JSON.stringify(value), expiration });
+  }
+
+  async get(key: string, type: 'text'): Promise<string | null> {
+    void type;
+    return this.store.get(key)?.value ?? null;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.store.set(key, { value });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async list(options?: { prefix?: string; cursor?: string; limit?: number }) {
+    const keys = Array.from(this.store.entries())
+      .filter(([name]) => (options?.prefix ? name.startsWith(options.prefix) : true))
+      .map(([name, entry]) => ({ name, expiration: entry.expiration }));
+
+    return { keys, list_complete: true, cursor: '' };
+  }
+}
+
+const buildCheckpoint = (jobId: string, status: string, updatedAt: Date, ttlSeconds?: number) => ({
+  version: 1,
+  checkpoint: {
+    jobId,
+    status,
+    offset: 0,
+    delivered: 0,
+    failed: 0,
+    throttled429: 0,
+    total: 10,
+    text: 'hello',
+    textHash: 'hash',
+    audienceHash: 'audience',
+    pool: { concurrency: 1, maxRps: 1 },
+    updatedAt: updatedAt.toISOString(),
+    ...(ttlSeconds ? { ttlSeconds } : {}),
+  },
+});
+
+const findJob = (jobs: ReturnType<typeof createMaintenanceJobs>, name: string) => {
+  const job = jobs.find((entry) => entry.name === name);
+  if (!job) {
+    throw new Error(`job ${name} is not registered`);
+  }
+
+  return job;
+};
+
+describe('createMaintenanceJobs', () => {
+  it('registers only jobs whose namespaces are bound', () => {
+    const kv = new MemoryKv();
+
+    expect(createMaintenanceJobs({})).toEqual([]);
+    expect(createMaintenanceJobs({ adminErrorsKv: kv }).map((job) => job.name)).toEqual([
+      ADMIN_ERRORS_CLEANUP_JOB,
+    ]);
+  });
+
+  it('removes expired and long-finished broadcast checkpoints', async () => {
+    const kv = new MemoryKv();
+    kv.seed('broadcast:progress:running', buildCheckpoint('running', 'running', new Date(NOW.getTime() - HOUR_MS), 86_400));
+    kv.seed('broadcast:progress:expired', buildCheckpoint('expired', 'paused', new Date(NOW.getTime() - 2 * HOUR_MS), 3_600));
+    kv.seed('broadcast:progress:done', buildCheckpoint('done', 'completed', new Date(NOW.getTime() - 7 * HOUR_MS)));
+    kv.seed('broadcast:progress:fresh', buildCheckpoint('fresh', 'aborted', new Date(NOW.getTime() - HOUR_MS)));
+    kv.seed('broadcast:progress:legacy', '{"version":0}');
+
+    const job = findJob(createMaintenanceJobs({ broadcastProgressKv: kv }), BROADCAST_PROGRESS_CLEANUP_JOB);
+    await expect(job.run({ now: NOW, trigger: 'scheduled' })).resolves.toEqual({ scanned: 5, deleted: 3 });
+
+    expect(Array.from(kv.store.keys())).toEqual(['broadcast:progress:running', 'broadcast:progress:fresh']);
+  });
+
+  it('removes pending broadcasts past their expiry', async () => {
+    const kv = new MemoryKv();
+    const nowSeconds = Math.floor(NOW.getTime() / 1000);
+    kv.seed('broadcast:pending:1', { version: 2, entry: { expiresAt: NOW.getTime() + 30_000 } }, nowSeconds + 60);
+    kv.seed('broadcast:pending:2', { version: 2, entry: { expiresAt: NOW.getTime() - 1 } }, nowSeconds + 60);
+    kv.seed('broadcast:pending:3', { version: 2, entry: { expiresAt: NOW.getTime() + 30_000 } }, nowSeconds - 1);
+    kv.seed('broadcast:progress:job', buildCheckpoint('job', 'running', NOW));
+
+    const job = findJob(createMaintenanceJobs({ broadcastPendingKv: kv }), BROADCAST_PENDING_CLEANUP_JOB);
+    await expect(job.run({ now: NOW, trigger: 'manual' })).resolves.toEqual({ scanned: 3, deleted: 2 });
+
+    expect(Array.from(kv.store.keys())).toEqual(['broadcast:pending:1', 'broadcast:progress:job']);
+  });
+
+  it('removes admin error entries older than the retention window', async () => {
+    const kv = new MemoryKv();
+    kv.seed('admin-error:1:20261019110000', { user_id: '1', cmd: '/export', code: 403, when: '2026-10-19T11:00:00.000Z' });
+    kv.seed('admin-error:1:20261001110000', { user_id: '1', cmd: '/export', code: 403, when: '2026-10-01T11:00:00.000Z' });
+    kv.seed('admin-error:2:broken', 'not-json');
+    kv.seed('admin-error-rate:1', '1');
+
+    const job = findJob(
+      createMaintenanceJobs({ adminErrorsKv: kv, adminErrorMaxAgeMs: 7 * 24 * HOUR_MS }),
+      ADMIN_ERRORS_CLEANUP_JOB,
+    );
+    await expect(job.run({ now: NOW, trigger: 'scheduled' })).resolves.toEqual({ scanned: 3, deleted: 2 });
+
+    expect(Array.from(kv.store.keys())).toEqual(['admin-error:1:20261019110000', 'admin-error-rate:1']);
+  });
+});
@@ -0,0 +1,62 @@
+import { json } from '../../shared';
+import type { CronDispatcher } from './cron-dispatcher';
+
+export interface CreateCronAdminRoutesOptions {
+  dispatcher?: CronDispatcher;
+}
+
+/**
+ * `GET /admin/diag?q=cron` — список задач, статус последнего запуска и
+ * активные блокировки.
+ */
+export const createCronDiagRoute = (
+  options: CreateCronAdminRoutesOptions,
+) => async (request: Request): Promise<Response> => {
+  if (request.method !== 'GET') {
+    return json({ error: 'Method Not Allowed' }, { status: 405 });
+  }
+
+  if (!options.dispatcher) {
+    return json({ status: 'disabled', feature: 'cron' });
+  }
+
+  const jobs = await options.dispatcher.snapshot();
+  return json({ status: 'ok', feature: 'cron', jobs });
+};
+
+/**
+ * `POST /admin/cron/run?job=<name>` — ручной запуск задачи в обход расписания.
+ * Блокировка соблюдается: занятая задача возвращает 409.
+ */
+export const createCronRunRoute = (
+  options: CreateCronAdminRoutesOptions,
+) => async (request: Request): Promise<Response> => {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method Not Allowed' }, { status: 405 });
+  }
+
+  if (!options.dispatcher) {
+    return json({ error: 'Cron is not configured' }, { status: 503 });
+  }
+
+  const job = (new URL(request.url).searchParams.get('job') ?? '').trim();
+  if (!job) {
+    return json({
+      error: 'Query parameter "job" is required',
+      jobs: options.dispatcher.listJobs().map((entry) => entry.name),
+    }, { status: 400 });
+  }
+
+  const outcome = await options.dispatcher.run(job, { trigger: 'manual' });
+
+  switch (outcome.status) {
+    case 'unknown_job':
+      return json({ error: 'Unknown cron job', job }, { status: 404 });
+    case 'locked':
+      return json(outcome, { status: 409 });
+    case 'failed':
+      return json(outcome, { status: 500 });
+    default:
+      return json(outcome);
+  }
+};
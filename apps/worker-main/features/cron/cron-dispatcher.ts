@@ -0,0 +1,282 @@
+interface Logger {
+  info?(message: string, details?: Record<string, unknown>): void;
+  warn?(message: string, details?: Record<string, unknown>): void;
+  error?(message: string, details?: Record<string, unknown>): void;
+}
+
+export type CronKvNamespace = Pick<KVNamespace, 'get' | 'put' | 'delete'>;
+
+export type CronTrigger = 'scheduled' | 'manual';
+
+export interface CronJobContext {
+  now: Date;
+  trigger: CronTrigger;
+}
+
+/**
+ * Именованная фоновая задача. `schedules` — cron-выражения из `[triggers]`
+ * wrangler.toml, на которых задача запускается; без них она выполняется на
+ * каждом срабатывании. Результат попадает в статус последнего запуска.
+ */
+export interface CronJob {
+  name: string;
+  description?: string;
+  schedules?: ReadonlyArray<string>;
+  run(context: CronJobContext): Promise<Record<string, unknown> | void>;
+}
+
+export interface CronJobRunStatus {
+  job: string;
+  trigger: CronTrigger;
+  status: 'ok' | 'failed';
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export type CronRunOutcome =
+  | { job: string; status: 'ok'; durationMs: number; result?: Record<string, unknown> }
+  | { job: string; status: 'failed'; durationMs: number; error: string }
+  | { job: string; status: 'locked'; lockedUntil: string }
+  | { job: string; status: 'unknown_job' };
+
+export interface CronJobSnapshot {
+  name: string;
+  description: string | null;
+  schedules: string[];
+  lastRun: CronJobRunStatus | null;
+  lockedUntil: string | null;
+}
+
+export interface CronDispatcher {
+  listJobs(): ReadonlyArray<Pick<CronJob, 'name' | 'description' | 'schedules'>>;
+  run(name: string, options?: { trigger?: CronTrigger }): Promise<CronRunOutcome>;
+  /**
+   * Запускает по очереди все задачи, подписанные на `cron`.
+   */
+  runScheduled(input?: { cron?: string }): Promise<CronRunOutcome[]>;
+  snapshot(): Promise<CronJobSnapshot[]>;
+}
+
+export interface CreateCronDispatcherOptions {
+  jobs: ReadonlyArray<CronJob>;
+  kv: CronKvNamespace;
+  now?: () => Date;
+  lockTtlSeconds?: number;
+  statusTtlSeconds?: number;
+  createLockToken?: () => string;
+  logger?: Logger;
+}
+
+const LOCK_KEY_PREFIX = 'cron:lock:';
+const STATUS_KEY_PREFIX = 'cron:status:';
+const MIN_KV_TTL_SECONDS = 60;
+const DEFAULT_LOCK_TTL_SECONDS = 5 * 60;
+const DEFAULT_STATUS_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+interface StoredLock {
+  token: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+const defaultLockToken = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `lock-${Math.random().toString(36).slice(2, 12)}`;
+
+const parseJson = <T,>(raw: string | null): T | undefined => {
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+const toErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Реестр фоновых задач с блокировкой в KV: пока блокировка задачи не истекла,
+ * повторный запуск (по расписанию или вручную) пропускается. KV не даёт
+ * атомарных операций, поэтому после записи блокировка перечитывается и задача
+ * стартует, только если в KV остался наш токен.
+ */
+export const createCronDispatcher = (options: CreateCronDispatcherOptions): CronDispatcher => {
+  const now = options.now ?? (() => new Date());
+  const lockTtlSeconds = Math.max(MIN_KV_TTL_SECONDS, options.lockTtlSeconds ?? DEFAULT_LOCK_TTL_SECONDS);
+  const statusTtlSeconds = Math.max(MIN_KV_TTL_SECONDS, options.statusTtlSeconds ?? DEFAULT_STATUS_TTL_SECONDS);
+  const createLockToken = options.createLockToken ?? defaultLockToken;
+  const { kv, logger } = options;
+
+  const jobs = new Map<string, CronJob>();
+  for (const job of options.jobs) {
+    if (jobs.has(job.name)) {
+      throw new Error(`Duplicate cron job name: ${job.name}`);
+    }
+    jobs.set(job.name, job);
+  }
+
+  const readLock = async (name: string): Promise<StoredLock | undefined> => {
+    const lock = parseJson<StoredLock>(await kv.get(`${LOCK_KEY_PREFIX}${name}`, 'text'));
+    if (!lock || typeof lock.token !== 'string' || typeof lock.expiresAt !== 'string') {
+      return undefined;
+    }
+
+    return Date.parse(lock.expiresAt) > now().getTime() ? lock : undefined;
+  };
+
+  const acquireLock = async (
+    name: string,
+  ): Promise<{ acquired: true; token: string } | { acquired: false; lockedUntil: string }> => {
+    const existing = await readLock(name);
+    if (existing) {
+      return { acquired: false, lockedUntil: existing.expiresAt };
+    }
+
+    const acquiredAt = now();
+    const lock: StoredLock = {
+      token: createLockToken(),
+      acquiredAt: acquiredAt.toISOString(),
+      expiresAt: new Date(acquiredAt.getTime() + lockTtlSeconds * 1000).toISOString(),
+    };
+    await kv.put(`${LOCK_KEY_PREFIX}${name}`, JSON.stringify(lock), { expirationTtl: lockTtlSeconds });
+
+    const stored = await readLock(name);
+    if (stored?.token !== lock.token) {
+      return { acquired: false, lockedUntil: stored?.expiresAt ?? lock.expiresAt };
+    }
+
+    return { acquired: true, token: lock.token };
+  };
+
+  const releaseLock = async (name: string, token: string) => {
+    try {
+      const stored = await readLock(name);
+      if (stored?.token === token) {
+        await kv.delete(`${LOCK_KEY_PREFIX}${name}`);
+      }
+    } catch (error) {
+      logger?.warn?.('[cron] failed to release lock', { job: name, error: toErrorMessage(error) });
+    }
+  };
+
+  const writeStatus = async (status: CronJobRunStatus) => {
+    try {
+      await kv.put(`${STATUS_KEY_PREFIX}${status.job}`, JSON.stringify(status), {
+        expirationTtl: statusTtlSeconds,
+      });
+    } catch (error) {
+      logger?.warn?.('[cron] failed to write status', { job: status.job, error: toErrorMessage(error) });
+    }
+  };
+
+  const run: CronDispatcher['run'] = async (name, runOptions = {}) => {
+    const job = jobs.get(name);
+    if (!job) {
+      return { job: name, status: 'unknown_job' };
+    }
+
+    const trigger = runOptions.trigger ?? 'scheduled';
+    const lock = await acquireLock(name);
+    if (!lock.acquired) {
+      logger?.info?.('[cron] job is locked, skipping', { job: name, trigger, lockedUntil: lock.lockedUntil });
+      return { job: name, status: 'locked', lockedUntil: lock.lockedUntil };
+    }
+
+    const startedAt = now();
+    let outcome: CronRunOutcome;
+    let status: CronJobRunStatus;
+
+    try {
+      const result = (await job.run({ now: startedAt, trigger })) ?? undefined;
+      const finishedAt = now();
+      const durationMs = finishedAt.getTime() - startedAt.getTime();
+      outcome = { job: name, status: 'ok', durationMs, ...(result ? { result } : {}) };
+      status = {
+        job: name,
+        trigger,
+        status: 'ok',
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs,
+        ...(result ? { result } : {}),
+      };
+      logger?.info?.('[cron] job completed', { job: name, trigger, durationMs, ...result });
+    } catch (error) {
+      const finishedAt = now();
+      const durationMs = finishedAt.getTime() - startedAt.getTime();
+      const message = toErrorMessage(error);
+      outcome = { job: name, status: 'failed', durationMs, error: message };
+      status = {
+        job: name,
+        trigger,
+        status: 'failed',
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs,
+        error: message,
+      };
+      logger?.error?.('[cron] job failed', { job: name, trigger, durationMs, error: message });
+    }
+
+    await writeStatus(status);
+    await releaseLock(name, lock.token);
+
+    return outcome;
+  };
+
+  return {
+    listJobs() {
+      return Array.from(jobs.values()).map(({ name, description, schedules }) => ({
+        name,
+        description,
+        schedules,
+      }));
+    },
+
+    run,
+
+    async runScheduled(input = {}) {
+      const outcomes: CronRunOutcome[] = [];
+      for (const job of jobs.values()) {
+        if (input.cron && job.schedules && job.schedules.length > 0 && !job.schedules.includes(input.cron)) {
+          continue;
+        }
+
+        try {
+          outcomes.push(await run(job.name, { trigger: 'scheduled' }));
+        } catch (error) {
+          // Недоступный KV не должен останавливать остальные задачи.
+          logger?.error?.('[cron] job dispatch failed', { job: job.name, error: toErrorMessage(error) });
+          outcomes.push({ job: job.name, status: 'failed', durationMs: 0, error: toErrorMessage(error) });
+        }
+      }
+
+      return outcomes;
+    },
+
+    async snapshot() {
+      const snapshots: CronJobSnapshot[] = [];
+      for (const job of jobs.values()) {
+        const lastRun = parseJson<CronJobRunStatus>(await kv.get(`${STATUS_KEY_PREFIX}${job.name}`, 'text'));
+        const lock = await readLock(job.name);
+        snapshots.push({
+          name: job.name,
+          description: job.description ?? null,
+          schedules: job.schedules ? [...job.schedules] : [],
+          lastRun: lastRun ?? null,
+          lockedUntil: lock?.expiresAt ?? null,
+        });
+      }
+
+      return snapshots;
+    },
+  };
+};
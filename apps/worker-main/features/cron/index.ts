@@ -0,0 +1,24 @@
+export {
+  createCronDispatcher,
+  type CreateCronDispatcherOptions,
+  type CronDispatcher,
+  type CronJob,
+  type CronJobContext,
+  type CronJobRunStatus,
+  type CronJobSnapshot,
+  type CronKvNamespace,
+  type CronRunOutcome,
+  type CronTrigger,
+} from './cron-dispatcher';
+export {
+  createMaintenanceJobs,
+  ADMIN_ERRORS_CLEANUP_JOB,
+  BROADCAST_PENDING_CLEANUP_JOB,
+  BROADCAST_PROGRESS_CLEANUP_JOB,
+  type CreateMaintenanceJobsOptions,
+} from './maintenance-jobs';
+export {
+  createCronDiagRoute,
+  createCronRunRoute,
+  type CreateCronAdminRoutesOptions,
+} from './cron-admin-routes';
@@ -0,0 +1,77 @@
+import {
+  cleanupAdminMessagingErrors,
+  type AdminDiagnosticsKvNamespace,
+} from '../admin-access';
+import {
+  cleanupExpiredPendingBroadcasts,
+  cleanupStaleBroadcastCheckpoints,
+  type BroadcastPendingKvNamespace,
+  type BroadcastProgressKvNamespace,
+} from '../broadcast';
+import type { CronJob } from './cron-dispatcher';
+
+export const BROADCAST_PROGRESS_CLEANUP_JOB = 'broadcast-progress-cleanup';
+export const BROADCAST_PENDING_CLEANUP_JOB = 'broadcast-pending-cleanup';
+export const ADMIN_ERRORS_CLEANUP_JOB = 'admin-errors-cleanup';
+
+export interface CreateMaintenanceJobsOptions {
+  broadcastProgressKv?: BroadcastProgressKvNamespace;
+  broadcastPendingKv?: BroadcastPendingKvNamespace;
+  adminErrorsKv?: AdminDiagnosticsKvNamespace;
+  schedules?: ReadonlyArray<string>;
+  finishedBroadcastRetentionMs?: number;
+  adminErrorMaxAgeMs?: number;
+}
+
+/**
+ * Задачи очистки KV, которые раньше выполнялись только попутно при обращении к
+ * админским маршрутам. Задача не регистрируется, если её namespace не привязан.
+ */
+export const createMaintenanceJobs = (options: CreateMaintenanceJobsOptions): CronJob[] => {
+  const jobs: CronJob[] = [];
+  const { broadcastProgressKv, broadcastPendingKv, adminErrorsKv, schedules } = options;
+
+  if (broadcastProgressKv) {
+    jobs.push({
+      name: BROADCAST_PROGRESS_CLEANUP_JOB,
+      description: 'Удаляет устаревшие чекпоинты broadcast:progress:<jobId>',
+      schedules,
+      run: async ({ now }) => {
+        const result = await cleanupStaleBroadcastCheckpoints(broadcastProgressKv, {
+          now: () => now.getTime(),
+          finishedRetentionMs: options.finishedBroadcastRetentionMs,
+        });
+        return { ...result };
+      },
+    });
+  }
+
+  if (broadcastPendingKv) {
+    jobs.push({
+      name: BROADCAST_PENDING_CLEANUP_JOB,
+      description: 'Удаляет просроченные черновики рассылок broadcast:pending:<userId>',
+      schedules,
+      run: async ({ now }) => {
+        const result = await cleanupExpiredPendingBroadcasts(broadcastPendingKv, {
+          now: () => now.getTime(),
+        });
+        return { ...result };
+      },
+    });
+  }
+
+  if (adminErrorsKv) {
+    jobs.push({
+      name: ADMIN_ERRORS_CLEANUP_JOB,
+      description: 'Удаляет старые записи admin-error:<userId>:<timestamp>',
+      schedules,
+      run: async ({ now }) =>
+        cleanupAdminMessagingErrors(adminErrorsKv, {
+          now: () => now,
+          maxAgeMs: options.adminErrorMaxAgeMs,
+        }),
+    });
+  }
+
+  return jobs;
+};
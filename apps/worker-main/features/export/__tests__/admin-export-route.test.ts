@@ -104,4 +104,54 @@ describe('createAdminExportRoute', () => {
     expect(response.status).toBe(400);
     expect(handleExport).not.toHaveBeenCalled();
   });
+
+  it('parses message filters', async () => {
+    const handleExport = createHandler();
+    const route = createAdminExportRoute({ adminToken: 'secret', handleExport });
+    const headers = { 'x-admin-token': 'secret' };
+
+    await route(
+      createRequest('https://example.com/admin/export?utmSource=src_ads&username=@Anna&role=USER&q=%20цена%20&chatId=', {
+        method: 'GET',
+        headers,
+      }),
+    );
+    expect(handleExport).toHaveBeenCalledWith(
+      expect.objectContaining({ filters: { username: 'Anna', utmSource: 'src_ads', role: 'user', q: 'цена' } }),
+    );
+
+    const response = await route(createRequest('https://example.com/admin/export?role=bot', { method: 'GET', headers }));
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ error: 'role must be one of user, assistant, system' });
+  });
+
+  it('forwards the export format and rejects unknown ones', async () => {
+    const handleExport = createHandler();
+    const route = createAdminExportRoute({ adminToken: 'secret', handleExport });
+    const headers = { 'x-admin-token': 'secret' };
+
+    await route(createRequest('https://example.com/admin/export?format=JSONL', { method: 'GET', headers }));
+    expect(handleExport).toHaveBeenCalledWith(expect.objectContaining({ format: 'jsonl' }));
+
+    const response = await route(createRequest('https://example.com/admin/export?format=parquet', { method: 'GET', headers }));
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ error: 'format must be one of csv, jsonl, conversations' });
+    expect(handleExport).toHaveBeenCalledTimes(1);
+  });
+
+  it('forwards the anonymize flag', async () => {
+    const handleExport = createHandler();
+    const route = createAdminExportRoute({ adminToken: 'secret', handleExport });
+    const headers = { 'x-admin-token': 'secret' };
+
+    await route(createRequest('https://example.com/admin/export?anonymize=1', { method: 'GET', headers }));
+    expect(handleExport).toHaveBeenLastCalledWith(expect.objectContaining({ anonymize: true }));
+
+    await route(createRequest('https://example.com/admin/export?anonymize=0', { method: 'GET', headers }));
+    expect(handleExport).toHaveBeenLastCalledWith(expect.not.objectContaining({ anonymize: true }));
+
+    const response = await route(createRequest('https://example.com/admin/export?anonymize=yes', { method: 'GET', headers }));
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ error: 'anonymize must be 1 or 0' });
+  });
 });
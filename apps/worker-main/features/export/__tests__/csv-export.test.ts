@@ -16,6 +16,29 @@ const createDb = (rows: unknown[]) => {
   };
 };
 
+const exportRow = (id: number, userId = 'user-1') => ({
+  id,
+  user_id: userId,
+  username: null,
+  first_name: 'Анна',
+  last_name: null,
+  language_code: 'ru',
+  user_created_at: '2024-01-01T00:00:00.000Z',
+  user_updated_at: '2024-01-01T00:00:00.000Z',
+  user_metadata: null,
+  chat_id: userId,
+  utm_source: 'src_ads',
+  thread_id: null,
+  role: 'user',
+  text: `message ${id}`,
+  timestamp: `2024-01-0${id}T00:00:00.000Z`,
+  message_metadata: null,
+  broadcast_job_id: null,
+  broadcast_variant: null,
+});
+
+const noFilters = [null, null, null, null, null, null, null, null];
+
 describe('createCsvExportHandler', () => {
   const baseRequest: AdminExportRequest = {
     limit: 100,
@@ -128,6 +151,301 @@ describe('createCsvExportHandler', () => {
     expect(response.headers.get('x-utm-sources')).toBeNull();
   });
 
+  it('exposes summary version for conversation summaries', async () => {
+    const rows = [
+      {
+        id: 1,
+        user_id: 'user',
+        username: null,
+        first_name: null,
+        last_name: null,
+        language_code: null,
+        user_created_at: '2024-01-01T00:00:00.000Z',
+        user_updated_at: '2024-01-01T00:00:00.000Z',
+        user_metadata: null,
+        chat_id: 'chat',
+        utm_source: null,
+        thread_id: null,
+        role: 'system',
+        text: 'Краткое содержание',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        message_metadata: '{"coveredMessages":12,"coveredUntil":"2023-12-31T00:00:00.000Z","kind":"summary","revision":2,"summaryVersion":1}',
+      },
+    ];
+
+    const { db } = createDb(rows);
+    const handler = createCsvExportHandler({ db });
+
+    const response = await handler(baseRequest);
+    const [header, line] = (await response.text()).replace(/^\uFEFF/, '').split('\r\n');
+
+    expect(header.split(',').at(16)).toBe('"summary_version"');
+    expect(line.endsWith(',"1","","",""')).toBe(true);
+  });
+
+  it('exposes audio duration for transcribed voice messages', async () => {
+    const rows = [
+      {
+        id: 2,
+        user_id: 'user',
+        username: null,
+        first_name: null,
+        last_name: null,
+        language_code: 'ru',
+        user_created_at: '2024-01-01T00:00:00.000Z',
+        user_updated_at: '2024-01-01T00:00:00.000Z',
+        user_metadata: null,
+        chat_id: 'chat',
+        utm_source: null,
+        thread_id: null,
+        role: 'user',
+        text: 'Привет из голосового',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        message_metadata: '{"audioDurationSec":7,"messageId":"42","source":"voice","transcribed":true}',
+      },
+    ];
+
+    const { db } = createDb(rows);
+    const handler = createCsvExportHandler({ db });
+
+    const response = await handler(baseRequest);
+    const [header, line] = (await response.text()).replace(/^\uFEFF/, '').split('\r\n');
+
+    expect(header.split(',').at(17)).toBe('"audio_duration_sec"');
+    expect(line).toContain('"Привет из голосового"');
+    expect(line.endsWith(',"","7","",""')).toBe(true);
+  });
+
+  it('attributes user replies to the latest broadcast delivery and its variant', async () => {
+    const rows = [
+      {
+        id: 3,
+        user_id: 'user',
+        username: null,
+        first_name: null,
+        last_name: null,
+        language_code: 'ru',
+        user_created_at: '2024-01-01T00:00:00.000Z',
+        user_updated_at: '2024-01-01T00:00:00.000Z',
+        user_metadata: null,
+        chat_id: 'chat',
+        utm_source: null,
+        thread_id: null,
+        role: 'user',
+        text: 'Интересно, расскажите подробнее',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        message_metadata: null,
+        broadcast_job_id: 'job-ab',
+        broadcast_variant: 'B',
+      },
+    ];
+
+    const { db, prepare } = createDb(rows);
+    const handler = createCsvExportHandler({ db });
+
+    const response = await handler(baseRequest);
+    const [header, line] = (await response.text()).replace(/^\uFEFF/, '').split('\r\n');
+
+    expect(prepare.mock.calls[0]?.[0]).toContain('LEFT JOIN broadcast_deliveries bd');
+    expect(prepare.mock.calls[0]?.[0]).toContain("json_extract(m.metadata, '$.broadcastJobId')");
+    expect(prepare.mock.calls[0]?.[0]).toContain("json_extract(m.metadata, '$.broadcastVariant')");
+    expect(header.split(',').slice(-2)).toEqual(['"broadcast_job_id"', '"broadcast_variant"']);
+    expect(line.endsWith(',"job-ab","B"')).toBe(true);
+  });
+
+  it('streams one JSON object per message with parsed metadata', async () => {
+    const rows = [1, 2, 3].map((id) => ({
+      ...exportRow(id),
+      user_metadata: '{"isPremium":true}',
+      message_metadata: id === 2 ? '{"kind":"voice","audioDurationSec":4}' : null,
+    }));
+    const { db, bind } = createDb(rows);
+    const handler = createCsvExportHandler({ db, filenamePrefix: 'ml' });
+
+    const response = await handler({ ...baseRequest, limit: 2, format: 'jsonl' });
+
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson; charset=utf-8');
+    expect(response.headers.get('content-disposition')).toBe('attachment; filename="ml.jsonl"');
+    const lines = (await response.text()).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('');
+    const second = JSON.parse(lines[1]) as Record<string, unknown>;
+    expect(second).toMatchObject({
+      message_id: 2,
+      user_id: 'user-1',
+      user_metadata: { isPremium: true },
+      message_metadata: { kind: 'voice', audioDurationSec: 4 },
+      audio_duration_sec: 4,
+      summary_version: null,
+      broadcast_job_id: null,
+    });
+
+    const cursor = response.headers.get('x-next-cursor');
+    expect(cursor).toBeTruthy();
+    await handler({ ...baseRequest, limit: 2, format: 'jsonl', cursor: cursor ?? undefined });
+    expect(bind).toHaveBeenLastCalledWith(...noFilters, '2024-01-02T00:00:00.000Z', 2, 3);
+  });
+
+  it('groups ordered turns per user and pages by user id', async () => {
+    const all = vi
+      .fn()
+      .mockResolvedValueOnce({ results: [{ user_id: 'user-1' }, { user_id: 'user-2' }, { user_id: 'user-3' }] })
+      .mockResolvedValueOnce({
+        results: [
+          exportRow(1),
+          { ...exportRow(2), role: 'assistant', text: 'Ответ' },
+          { ...exportRow(3), role: 'system', message_metadata: '{"kind":"summary","summaryVersion":1}' },
+          { ...exportRow(4, 'user-2'), message_metadata: '{"broadcastJobId":"job-1"}', broadcast_job_id: 'job-1' },
+        ],
+      });
+    const bind = vi.fn().mockReturnValue({ all });
+    const prepare = vi.fn().mockReturnValue({ bind });
+    const handler = createCsvExportHandler({ db: { prepare } });
+
+    const response = await handler({ ...baseRequest, limit: 2, format: 'conversations' });
+
+    expect(response.headers.get('content-disposition')).toBe(
+      'attachment; filename="dialog-export-conversations.jsonl"',
+    );
+    expect(bind).toHaveBeenNthCalledWith(1, ...noFilters, null, 3);
+    expect(bind).toHaveBeenNthCalledWith(2, ...noFilters, 'user-1', 'user-2');
+    expect(prepare.mock.calls[1]?.[0]).toContain('m.user_id IN (?9, ?10)');
+
+    const records = (await response.text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as { user_id: string; turns: Array<Record<string, unknown>> });
+    expect(records.map((record) => record.user_id)).toEqual(['user-1', 'user-2']);
+    expect(records[0].turns.map((turn) => turn.role)).toEqual(['user', 'assistant']);
+    expect(records[1].turns[0]).toMatchObject({
+      message_id: 4,
+      metadata: { broadcastJobId: 'job-1' },
+      broadcast_job_id: 'job-1',
+    });
+
+    const cursor = response.headers.get('x-next-cursor');
+    expect(cursor).toBeTruthy();
+    await handler({ ...baseRequest, limit: 2, format: 'conversations', cursor: cursor ?? undefined });
+    expect(bind).toHaveBeenNthCalledWith(3, ...noFilters, 'user-2', 3);
+
+    const invalid = await handler({ ...baseRequest, format: 'conversations', cursor: 'invalid' });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('binds filters and escapes the text query', async () => {
+    const { db, bind, prepare } = createDb([]);
+    const handler = createCsvExportHandler({ db });
+
+    await handler({
+      ...baseRequest,
+      from: new Date('2026-10-01T00:00:00.000Z'),
+      filters: { userId: '42', username: 'anna', utmSource: 'src_ads', role: 'user', chatId: '42', q: '50%_off' },
+    });
+
+    expect(bind).toHaveBeenCalledWith(
+      '2026-10-01T00:00:00.000Z',
+      null,
+      '42',
+      'anna',
+      'src_ads',
+      'user',
+      '42',
+      '50\\%\\_off',
+      null,
+      null,
+      101,
+    );
+    expect(prepare.mock.calls[0]?.[0]).toContain("m.text LIKE '%' || ?8 || '%' ESCAPE '\\'");
+    expect(prepare.mock.calls[0]?.[0]).toContain('u.username = ?4 COLLATE NOCASE');
+  });
+
+  it('pseudonymizes ids, drops name columns and redacts text in anonymized mode', async () => {
+    const rows = [
+      { ...exportRow(1), username: 'anna', text: 'Пишите на anna@example.com или +7 (999) 123-45-67' },
+      { ...exportRow(2, 'user-2'), text: 'спросите @support_team' },
+    ];
+    const { db } = createDb(rows);
+    const handler = createCsvExportHandler({ db, anonymization: { salt: 'secret' } });
+
+    const response = await handler({ ...baseRequest, anonymize: true });
+
+    expect(response.headers.get('x-export-anonymization')).toBe('pseudonymize-v1');
+    expect(response.headers.get('content-disposition')).toBe(
+      'attachment; filename="dialog-export-anonymized.csv"',
+    );
+    const [header, first, second] = (await response.text()).replace(/^\uFEFF/, '').split('\r\n');
+    const columns = header.split(',');
+    expect(columns).not.toContain('"username"');
+    expect(columns).not.toContain('"first_name"');
+    expect(columns).not.toContain('"last_name"');
+    expect(first).not.toContain('Анна');
+    expect(first).toContain('"Пишите на [email] или [phone]"');
+    expect(second).toContain('"спросите [mention]"');
+
+    const userId = first.split(',')[columns.indexOf('"user_id"')];
+    expect(userId).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(first.split(',')[columns.indexOf('"chat_id"')]).toBe(userId);
+
+    const repeated = await createCsvExportHandler({ db, anonymization: { salt: 'secret' } })({
+      ...baseRequest,
+      anonymize: true,
+      format: 'jsonl',
+    });
+    const record = JSON.parse((await repeated.text()).split('\n')[0]) as Record<string, unknown>;
+    expect(`"${String(record.user_id)}"`).toBe(userId);
+    expect(record).not.toHaveProperty('first_name');
+  });
+
+  it('keeps only allow-listed metadata keys in anonymized mode', async () => {
+    const rows = [
+      {
+        ...exportRow(1),
+        user_metadata: JSON.stringify({ isPremium: true, utm: { source: 'src_ads', campaign: 'anna-vip' } }),
+        message_metadata: JSON.stringify({
+          messageId: '42',
+          audioDurationSec: 7,
+          attachments: [{ kind: 'photo', fileId: 'AgACAgIAAxk', mimeType: 'image/jpeg', size: 2048, fileName: 'anna.jpg' }],
+          toolCalls: [{ name: 'get_profile', output: { username: 'anna', firstName: 'Анна', utmSource: 'src_ads' } }],
+        }),
+      },
+      { ...exportRow(2), message_metadata: 'not json' },
+    ];
+    const { db } = createDb(rows);
+    const handler = createCsvExportHandler({ db, anonymization: { salt: 'secret' } });
+
+    const csv = await (await handler({ ...baseRequest, anonymize: true })).text();
+    expect(csv).not.toContain('AgACAgIAAxk');
+    expect(csv).not.toContain('anna');
+    expect(csv).not.toContain('not json');
+
+    const [first, second] = (await (await handler({ ...baseRequest, anonymize: true, format: 'jsonl' })).text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+    expect(first.user_metadata).toEqual({ isPremium: true });
+    expect(first.message_metadata).toEqual({
+      audioDurationSec: 7,
+      attachments: [{ kind: 'photo', mimeType: 'image/jpeg', size: 2048 }],
+    });
+    expect(first.audio_duration_sec).toBe(7);
+    expect(second.message_metadata).toBeNull();
+
+    const conversations = await (await handler({ ...baseRequest, anonymize: true, format: 'conversations' })).text();
+    expect(conversations).not.toContain('toolCalls');
+    expect(conversations).not.toContain('AgACAgIAAxk');
+    expect(conversations).not.toContain('anna-vip');
+  });
+
+  it('rejects anonymized export without a configured salt', async () => {
+    const { db, prepare } = createDb([exportRow(1)]);
+    const handler = createCsvExportHandler({ db });
+
+    const response = await handler({ ...baseRequest, anonymize: true });
+
+    expect(response.status).toBe(503);
+    expect(prepare).not.toHaveBeenCalled();
+  });
+
   it('returns 400 for invalid cursor', async () => {
     const { db } = createDb([]);
     const handler = createCsvExportHandler({ db });
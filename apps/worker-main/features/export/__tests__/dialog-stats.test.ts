@@ -0,0 +1,255 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createAdminStatsRoute } from '../admin-stats-route';
+import {
+  createDialogStatsStore,
+  formatDialogStatsCsv,
+  formatDialogStatsSummary,
+  parseDialogStatsPeriod,
+} from '../dialog-stats';
+
+type Results = Record<'users' | 'messages' | 'dau' | 'active' | 'hits' | 'funnel', unknown[] | Error>;
+
+const createDb = (results: Partial<Results> = {}) => {
+  const statements: Array<{ sql: string; bindings: unknown[] }> = [];
+  const resolve = (sql: string): unknown[] | Error => {
+    if (sql.includes('rate_limit_hits')) return results.hits ?? [];
+    if (sql.includes('LEFT JOIN')) return results.funnel ?? [];
+    if (sql.includes('NULL AS day')) return results.active ?? [];
+    if (sql.includes('COUNT(DISTINCT user_id)')) return results.dau ?? [];
+    if (sql.includes('FROM messages')) return results.messages ?? [];
+    return results.users ?? [];
+  };
+
+  const db = {
+    prepare: vi.fn((sql: string) => {
+      const statement = {
+        sql,
+        bindings: [] as unknown[],
+        bind: (...values: unknown[]) => {
+          statement.bindings = values;
+          return statement;
+        },
+        all: async <T,>() => {
+          const rows = resolve(sql);
+          if (rows instanceof Error) {
+            throw rows;
+          }
+          return { results: rows as T[] };
+        },
+      };
+      statements.push(statement);
+      return statement;
+    }),
+  };
+
+  return { db, statements };
+};
+
+const period = {
+  from: new Date('2026-10-17T00:00:00Z'),
+  to: new Date('2026-10-19T00:00:00Z'),
+};
+
+describe('parseDialogStatsPeriod', () => {
+  const now = new Date('2026-10-19T15:30:00Z');
+
+  it('defaults to the last seven days including today', () => {
+    expect(parseDialogStatsPeriod(undefined, undefined, now)).toEqual({
+      from: new Date('2026-10-13T00:00:00Z'),
+      to: new Date('2026-10-20T00:00:00Z'),
+    });
+  });
+
+  it('treats both days as inclusive', () => {
+    expect(parseDialogStatsPeriod('2026-10-01', '2026-10-01', now)).toEqual({
+      from: new Date('2026-10-01T00:00:00Z'),
+      to: new Date('2026-10-02T00:00:00Z'),
+    });
+  });
+
+  it('rejects malformed, reversed and too long periods', () => {
+    expect(() => parseDialogStatsPeriod('01.10.2026', null, now)).toThrow('from must be a valid date in YYYY-MM-DD format');
+    expect(() => parseDialogStatsPeriod('2026-10-05', '2026-10-01', now)).toThrow('from must be earlier than or equal to to');
+    expect(() => parseDialogStatsPeriod('2024-01-01', '2026-01-01', now)).toThrow('period must not exceed 366 days');
+  });
+});
+
+describe('createDialogStatsStore', () => {
+  it('fills every day of the period and aggregates totals', async () => {
+    const { db, statements } = createDb({
+      users: [{ day: '2026-10-17', count: 3 }],
+      messages: [
+        { day: '2026-10-17', role: 'user', count: 10, text_length: 200 },
+        { day: '2026-10-17', role: 'assistant', count: 4, text_length: 1000 },
+        { day: '2026-10-18', role: 'assistant', count: 1, text_length: 100 },
+        { day: '2026-10-18', role: 'system', count: 2, text_length: 30 },
+      ],
+      dau: [
+        { day: '2026-10-17', count: 4 },
+        { day: '2026-10-18', count: 1 },
+      ],
+      active: [{ day: null, count: 4 }],
+      hits: [{ day: '2026-10-18', count: 2 }],
+      funnel: [
+        { utm_source: 'src_ads', started: 2, first_message: 2, fifth_message: 1 },
+        { utm_source: null, started: 1, first_message: 1, fifth_message: null },
+      ],
+    });
+
+    const stats = await createDialogStatsStore({ db }).collect(period);
+
+    expect(statements[0].bindings).toEqual(['2026-10-17T00:00:00.000Z', '2026-10-19T00:00:00.000Z']);
+    expect(statements.find((statement) => statement.sql.includes('LEFT JOIN'))?.bindings[2]).toBe(5);
+    expect(stats).toEqual({
+      from: '2026-10-17',
+      to: '2026-10-18',
+      totals: {
+        newUsers: 3,
+        activeUsers: 4,
+        averageDau: 2.5,
+        messages: { user: 10, assistant: 5, system: 2 },
+        avgAssistantReplyLength: 220,
+        rateLimitHits: 2,
+      },
+      days: [
+        {
+          date: '2026-10-17',
+          newUsers: 3,
+          activeUsers: 4,
+          messages: { user: 10, assistant: 4, system: 0 },
+          avgAssistantReplyLength: 250,
+          rateLimitHits: 0,
+        },
+        {
+          date: '2026-10-18',
+          newUsers: 0,
+          activeUsers: 1,
+          messages: { user: 0, assistant: 1, system: 2 },
+          avgAssistantReplyLength: 100,
+          rateLimitHits: 2,
+        },
+      ],
+      funnel: [
+        { utmSource: 'src_ads', started: 2, firstMessage: 2, fifthMessage: 1 },
+        { utmSource: null, started: 1, firstMessage: 1, fifthMessage: 0 },
+      ],
+    });
+  });
+
+  it('reports zero rate limit hits until the migration is applied', async () => {
+    const warn = vi.fn();
+    const { db } = createDb({ hits: new Error('D1_ERROR: no such table: rate_limit_hits: SQLITE_ERROR') });
+
+    const stats = await createDialogStatsStore({ db, logger: { warn } }).collect(period);
+
+    expect(stats.totals.rateLimitHits).toBe(0);
+    expect(stats.totals.avgAssistantReplyLength).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('dialog stats formatting', () => {
+  const stats = {
+    from: '2026-10-17',
+    to: '2026-10-18',
+    totals: {
+      newUsers: 3,
+      activeUsers: 4,
+      averageDau: 2.5,
+      messages: { user: 10, assistant: 5, system: 2 },
+      avgAssistantReplyLength: 220,
+      rateLimitHits: 2,
+    },
+    days: [
+      {
+        date: '2026-10-17',
+        newUsers: 3,
+        activeUsers: 4,
+        messages: { user: 10, assistant: 5, system: 2 },
+        avgAssistantReplyLength: null,
+        rateLimitHits: 2,
+      },
+    ],
+    funnel: [
+      { utmSource: 'src_ads', started: 4, firstMessage: 3, fifthMessage: 1 },
+      { utmSource: null, started: 1, firstMessage: 1, fifthMessage: 0 },
+    ],
+  };
+
+  it('renders daily and funnel CSV tables', () => {
+    expect(formatDialogStatsCsv(stats).split('\r\n')).toEqual([
+      '\uFEFF"date","new_users","active_users","user_messages","assistant_messages","system_messages","avg_assistant_reply_length","rate_limit_hits"',
+      '"2026-10-17","3","4","10","5","2","","2"',
+      '',
+    ]);
+    expect(formatDialogStatsCsv(stats, 'funnel').split('\r\n')).toEqual([
+      '\uFEFF"utm_source","started","first_message","fifth_message"',
+      '"src_ads","4","3","1"',
+      '"","1","1","0"',
+      '',
+    ]);
+  });
+
+  it('renders a short Telegram summary with funnel conversion', () => {
+    expect(formatDialogStatsSummary(stats)).toBe([
+      '📊 Статистика за 2026-10-17 — 2026-10-18 (UTC)',
+      'Новых пользователей: 3',
+      'Активных: 4, средний DAU: 2.5',
+      'Сообщений: от пользователей — 10, ответов ИИ — 5, системных — 2',
+      'Средняя длина ответа ИИ: 220 симв.',
+      'Упёрлись в лимит: 2',
+      'Воронка /start → 1-е → 5-е сообщение:',
+      '- src_ads: 4 → 3 (75%) → 1 (25%)',
+      '- без UTM: 1 → 1 (100%) → 0 (0%)',
+    ].join('\n'));
+  });
+});
+
+describe('createAdminStatsRoute', () => {
+  const collect = vi.fn();
+  const route = createAdminStatsRoute({
+    stats: { collect },
+    now: () => new Date('2026-10-19T10:00:00Z'),
+  });
+
+  it('returns JSON for the requested period', async () => {
+    collect.mockResolvedValueOnce({ from: '2026-10-01', to: '2026-10-02', totals: {}, days: [], funnel: [] });
+
+    const response = await route(new Request('https://example.com/admin/stats?from=2026-10-01&to=2026-10-02'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('application/json');
+    expect(collect).toHaveBeenCalledWith({
+      from: new Date('2026-10-01T00:00:00Z'),
+      to: new Date('2026-10-03T00:00:00Z'),
+    });
+  });
+
+  it('returns the funnel as CSV', async () => {
+    collect.mockResolvedValueOnce({
+      from: '2026-10-13',
+      to: '2026-10-19',
+      totals: {},
+      days: [],
+      funnel: [{ utmSource: 'src_ads', started: 1, firstMessage: 0, fifthMessage: 0 }],
+    });
+
+    const response = await route(new Request('https://example.com/admin/stats?format=csv&table=funnel'));
+
+    expect(response.headers.get('content-disposition')).toBe(
+      'attachment; filename="dialog-stats-funnel-2026-10-13-2026-10-19.csv"',
+    );
+    await expect(response.text()).resolves.toContain('"src_ads","1","0","0"');
+  });
+
+  it('rejects invalid parameters and reports store failures', async () => {
+    const invalid = await route(new Request('https://example.com/admin/stats?format=xlsx'));
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toEqual({ error: 'format must be json or csv' });
+
+    collect.mockRejectedValueOnce(new Error('D1 unavailable'));
+    const failed = await route(new Request('https://example.com/admin/stats'));
+    expect(failed.status).toBe(500);
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { AdminExportRequest } from '../admin-export-route';
+import { createExportJobRunner, createExportJobsCronJob } from '../export-jobs';
+import type { ExportJobsKvNamespace } from '../export-jobs';
+
+const createKv = () => {
+  const store = new Map<string, string>();
+  const kv: ExportJobsKvNamespace = {
+    get: vi.fn(async (key: string) => store.get(key) ?? null) as unknown as ExportJobsKvNamespace['get'],
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }) as unknown as ExportJobsKvNamespace['put'],
+    list: vi.fn(async ({ prefix }: { prefix?: string } = {}) => ({
+      keys: Array.from(store.keys())
+        .filter((key) => !prefix || key.startsWith(prefix))
+        .map((name) => ({ name })),
+      list_complete: true,
+      cacheStatus: null,
+    })) as unknown as ExportJobsKvNamespace['list'],
+  };
+
+  return { kv, store };
+};
+
+const readDocument = async (document: File): Promise<string> =>
+  new TextDecoder('utf-8', { ignoreBOM: true }).decode(await document.arrayBuffer());
+
+const csvPage = (ids: number[], nextCursor?: string) =>
+  new Response(`\uFEFF"message_id","text"\r\n${ids.map((id) => `"${id}","text ${id}"\r\n`).join('')}`, {
+    status: 200,
+    headers: nextCursor ? { 'x-next-cursor': nextCursor } : {},
+  });
+
+describe('createExportJobRunner', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ ok: true }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createRunner = (handleExport: ReturnType<typeof vi.fn>, overrides: { partsPerRun?: number } = {}) => {
+    const { kv, store } = createKv();
+    const sendText = vi.fn().mockResolvedValue({});
+    const exportLogPut = vi.fn().mockResolvedValue(undefined);
+    const runner = createExportJobRunner({
+      kv,
+      botToken: 'TOKEN',
+      handleExport: handleExport as (request: AdminExportRequest) => Promise<Response>,
+      messaging: { sendText },
+      exportLogKv: { put: exportLogPut },
+      partMaxBytes: 40,
+      partsPerRun: overrides.partsPerRun ?? 1,
+      now: () => new Date('2026-10-19T10:00:00Z'),
+      createJobId: () => 'exp-1',
+    });
+
+    return { runner, store, sendText, exportLogPut };
+  };
+
+  it('sends numbered parts with the CSV header and advances the cursor after each part', async () => {
+    const handleExport = vi
+      .fn()
+      .mockResolvedValueOnce(csvPage([1, 2], 'c1'))
+      .mockResolvedValueOnce(csvPage([3], 'c2'))
+      .mockResolvedValueOnce(csvPage([4]));
+    const { runner, sendText, exportLogPut } = createRunner(handleExport);
+
+    await runner.start({ requestedBy: '42', chatId: '100', caption: 'Фильтры: utm=src_ads' });
+    const first = await runner.run('exp-1');
+
+    expect(first).toMatchObject({ status: 'running', cursor: 'c2', partsSent: 1, rowCount: 3 });
+    expect(handleExport).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 'c1', limit: 1000 }));
+    const firstBody = fetchMock.mock.calls[0][1]?.body as FormData;
+    const firstDocument = firstBody.get('document') as File;
+    expect(firstDocument.name).toBe('dialog-export.part-001.csv');
+    expect((await readDocument(firstDocument)).split('\r\n')).toEqual([
+      '\uFEFF"message_id","text"',
+      '"1","text 1"',
+      '"2","text 2"',
+      '"3","text 3"',
+      '',
+    ]);
+    expect(firstBody.get('caption')).toBe('Выгрузка exp-1 · часть 1\nСтрок в части: 3, всего: 3\nФильтры: utm=src_ads');
+
+    const second = await runner.run('exp-1');
+
+    expect(second).toMatchObject({ status: 'completed', partsSent: 2, rowCount: 4 });
+    const secondDocument = (fetchMock.mock.calls[1][1]?.body as FormData).get('document') as File;
+    expect(secondDocument.name).toBe('dialog-export.part-002.csv');
+    expect(await readDocument(secondDocument)).toBe('\uFEFF"message_id","text"\r\n"4","text 4"\r\n');
+    expect(sendText).toHaveBeenLastCalledWith(
+      expect.objectContaining({ chatId: '100', text: '✅ Выгрузка exp-1 завершена: частей — 2, строк — 4.' }),
+    );
+    expect(JSON.parse(exportLogPut.mock.calls[0][1] as string)).toMatchObject({ jobId: 'exp-1', parts: 2, rowCount: 4 });
+  });
+
+  it('compresses parts with gzip', async () => {
+    const handleExport = vi.fn().mockResolvedValue(
+      new Response('{"message_id":1}\n', { status: 200 }),
+    );
+    const { runner } = createRunner(handleExport);
+
+    await runner.start({ requestedBy: '42', chatId: '100', format: 'jsonl', gzip: true });
+    await runner.run('exp-1');
+
+    const document = (fetchMock.mock.calls[0][1]?.body as FormData).get('document') as File;
+    expect(document.name).toBe('dialog-export.part-001.jsonl.gz');
+    expect(document.type).toBe('application/gzip');
+    const decompressed = new Response(document.stream().pipeThrough(new DecompressionStream('gzip')));
+    await expect(decompressed.text()).resolves.toBe('{"message_id":1}\n');
+  });
+
+  it('keeps the cursor on failures and pauses after repeated errors', async () => {
+    fetchMock.mockResolvedValue(new Response('{}', { status: 500 }));
+    const handleExport = vi.fn().mockImplementation(async () => csvPage([1]));
+    const { runner, sendText } = createRunner(handleExport);
+
+    await runner.start({ requestedBy: '42', chatId: '100' });
+    await runner.run('exp-1');
+    await runner.run('exp-1');
+    const paused = await runner.run('exp-1');
+
+    expect(paused).toMatchObject({ status: 'paused', failures: 3, partsSent: 0, reason: 'sendDocument responded 500' });
+    expect(paused?.cursor).toBeUndefined();
+    expect(sendText).toHaveBeenLastCalledWith(expect.objectContaining({
+      text: '⏸ Выгрузка exp-1 приостановлена: sendDocument responded 500. Продолжить: /export_resume exp-1',
+    }));
+
+    fetchMock.mockResolvedValue(new Response('{}', { status: 200 }));
+    await expect(runner.run('exp-1')).resolves.toMatchObject({ status: 'paused' });
+    await runner.resume('exp-1');
+    await expect(runner.run('exp-1')).resolves.toMatchObject({ status: 'completed', partsSent: 1, failures: 0 });
+  });
+
+  it('stops after the current part when the job is cancelled', async () => {
+    let page = 0;
+    const { runner } = createRunner(
+      vi.fn().mockImplementation(async () => {
+        page += 1;
+        if (page === 2) {
+          await runner.cancel('exp-1');
+        }
+        return csvPage([1, 2, 3], `c${page}`);
+      }),
+      { partsPerRun: 5 },
+    );
+
+    await runner.start({ requestedBy: '42', chatId: '100' });
+    const result = await runner.run('exp-1');
+
+    expect(result).toMatchObject({ status: 'cancelled', partsSent: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('continues running jobs from cron', async () => {
+    const handleExport = vi.fn().mockResolvedValue(csvPage([1]));
+    const { runner } = createRunner(handleExport);
+    await runner.start({ requestedBy: '42', chatId: '100' });
+
+    const job = createExportJobsCronJob({ runner });
+    const result = await job.run({ now: new Date(), trigger: 'scheduled' });
+
+    expect(job.name).toBe('export-jobs');
+    expect(result).toEqual({ running: 1, completed: 1, failed: 0 });
+    await expect(runner.list()).resolves.toEqual([expect.objectContaining({ status: 'completed' })]);
+  });
+});
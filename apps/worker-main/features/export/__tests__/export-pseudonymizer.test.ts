@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+
+import { createExportPseudonymizer, redactContactDetails } from '../export-pseudonymizer';
+
+describe('redactContactDetails', () => {
+  it('replaces phones, emails and mentions', () => {
+    expect(redactContactDetails('мой номер 8 912 345-67-89, почта ivan.petrov@mail.ru, спросите @ivan_p'))
+      .toBe('мой номер [phone], почта [email], спросите [mention]');
+  });
+
+  it('keeps dates, amounts and short numbers', () => {
+    const text = 'заказ 12345 от 2026-10-19 на 1 500 руб.';
+    expect(redactContactDetails(text)).toBe(text);
+  });
+});
+
+describe('createExportPseudonymizer', () => {
+  it('returns stable salted pseudonyms', async () => {
+    const first = createExportPseudonymizer({ salt: 'salt-a' });
+    const second = createExportPseudonymizer({ salt: 'salt-a' });
+    const otherSalt = createExportPseudonymizer({ salt: 'salt-b' });
+
+    const pseudonym = await first.pseudonymize('123456');
+
+    expect(pseudonym).toMatch(/^[0-9a-f]{32}$/);
+    await expect(second.pseudonymize('123456')).resolves.toBe(pseudonym);
+    await expect(first.pseudonymize('654321')).resolves.not.toBe(pseudonym);
+    await expect(otherSalt.pseudonymize('123456')).resolves.not.toBe(pseudonym);
+  });
+
+  it('uses a custom redactor with its own policy version', () => {
+    const pseudonymizer = createExportPseudonymizer({
+      salt: 'salt',
+      redactor: (text) => text.replace(/\d/g, '#'),
+      policyVersion: 'custom-v2',
+    });
+
+    expect(pseudonymizer.policyVersion).toBe('custom-v2');
+    expect(pseudonymizer.redact('код 42')).toBe('код ##');
+  });
+});
@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { createTelegramExportCommandHandler } from '../telegram-export-command';
+import { createTelegramExportCommandHandler, resolveAdminMenuCommand } from '../telegram-export-command';
 import type {
   AdminExportLogKvNamespace,
   AdminExportRateLimitKvNamespace,
 } from '../telegram-export-command';
+import type { ExportJobCheckpoint, ExportJobRunner } from '../export-jobs';
 import type { ExportRateTelemetry } from '../export-rate-telemetry';
 import { createAdminCommandErrorRecorder } from '../../admin-access/admin-messaging-errors';
 import type { AdminCommandErrorRecorder } from '../../admin-access/admin-messaging-errors';
@@ -112,6 +113,8 @@ describe('createTelegramExportCommandHandler', () => {
       logger?: { info?: ReturnType<typeof vi.fn>; warn?: ReturnType<typeof vi.fn>; error?: ReturnType<typeof vi.fn> };
       adminErrorRecorder?: AdminCommandErrorRecorder;
       telemetry?: ExportRateTelemetry;
+      callbackData?: { sign(payload: string): Promise<string> };
+      jobs?: ExportJobRunner;
     },
   ) => {
     const now = options?.now ?? (() => new Date('2024-02-01T00:00:00Z'));
@@ -158,6 +161,8 @@ describe('createTelegramExportCommandHandler', () => {
       logger: options?.logger,
       adminErrorRecorder,
       telemetry: options?.telemetry,
+      callbackData: options?.callbackData,
+      jobs: options?.jobs,
     });
 
     return { handler, handleExport, adminAccess, rateLimit, sendTextMock, logger: options?.logger };
@@ -177,7 +182,9 @@ describe('createTelegramExportCommandHandler', () => {
         'Доступные команды администратора:',
         '- /admin status — проверить, есть ли у вас доступ администратора. Ответ: admin-ok или forbidden.',
         '- /broadcast — мгновенная рассылка',
-        '- /export [from] [to] — выгрузить историю диалогов в CSV. Даты необязательные, формат YYYY-MM-DD. Запросы ограничены: не чаще одного раза в 60 секунд.',
+        '- /export [from] [to] [format=jsonl|conversations] — выгрузить историю диалогов в CSV, JSONL по сообщениям или JSONL по пользователям. Даты необязательные, формат YYYY-MM-DD. Фильтры: user=, username=, utm=, role=, chat=, q="текст". anonymize=1 — псевдонимы вместо id, без имён и контактов в тексте. Запросы ограничены: не чаще одного раза в 60 секунд.',
+        '- /export_status [jobId], /export_pause, /export_resume, /export_cancel <jobId> — фоновые выгрузки, которые приходят частями; gzip=1 сжимает файлы.',
+        '- /stats [from] [to] — сводка за период (по умолчанию 7 дней): новые пользователи, DAU, сообщения, лимиты и воронка по UTM.',
       ].join('\n'),
     });
     expect(fetchMock).not.toHaveBeenCalled();
@@ -185,6 +192,31 @@ describe('createTelegramExportCommandHandler', () => {
     await expect(response?.json()).resolves.toEqual({ help: 'sent' });
   });
 
+  it('attaches inline admin menu to help when callback signing is configured', async () => {
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const { handler } = createHandler({
+      sendTextMock,
+      callbackData: { sign: async (payload) => `${payload}|sig` },
+    });
+
+    await handler(createContext({ command: '/admin' }));
+
+    expect(sendTextMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        replyMarkup: {
+          inlineKeyboard: [
+            [{ text: 'Проверить доступ', callbackData: 'admin:status|sig' }],
+            [{ text: 'Рассылка', callbackData: 'admin:broadcast|sig' }],
+            [{ text: 'Выгрузка CSV', callbackData: 'admin:export|sig' }],
+          ],
+        },
+      }),
+    );
+    expect(resolveAdminMenuCommand('admin:status')).toEqual({ command: '/admin', argument: 'status' });
+    expect(resolveAdminMenuCommand('admin:export')).toEqual({ command: '/export' });
+    expect(resolveAdminMenuCommand('admin:unknown')).toBeUndefined();
+  });
+
   it('skips help message for non-admin users', async () => {
     const sendTextMock = vi.fn();
     const adminAccess = { isAdmin: vi.fn().mockResolvedValue(false) };
@@ -423,6 +455,76 @@ describe('createTelegramExportCommandHandler', () => {
     });
   });
 
+  it('exports JSONL pages without headers and skips the upload when empty', async () => {
+    const handleExport = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response('{"message_id":1}\n', { status: 200, headers: { 'x-next-cursor': 'cursor-1' } }),
+      )
+      .mockResolvedValueOnce(new Response('{"message_id":2}\n', { status: 200 }));
+    const { handler } = createHandler({ handleExport });
+
+    await handler(createContext({ command: '/export', argument: '2024-01-01 format=jsonl' }));
+
+    expect(handleExport).toHaveBeenNthCalledWith(2, {
+      from: new Date('2024-01-01T00:00:00Z'),
+      to: undefined,
+      format: 'jsonl',
+      cursor: 'cursor-1',
+      limit: 1000,
+      signal: expect.any(AbortSignal),
+    });
+    const document = (fetchMock.mock.calls[0][1]?.body as FormData).get('document') as File;
+    expect(document.name).toBe('dialog-export.jsonl');
+    await expect(document.text()).resolves.toBe('{"message_id":1}\n{"message_id":2}\n');
+
+    const sendTextMock = vi.fn().mockResolvedValue({});
+    const empty = createHandler({
+      handleExport: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+      sendTextMock,
+    });
+    const response = await empty.handler(createContext({ command: '/export', argument: 'format=conversations' }));
+
+    expect(response?.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sendTextMock).toHaveBeenCalledWith({
+      chatId: '123',
+      threadId: '456',
+      text: 'За выбранный период нет новых сообщений — файл не отправлен. Уточните даты и повторите /export.',
+    });
+
+    const invalid = await handler(createContext({ command: '/export', argument: 'format=xml' }));
+    expect(invalid?.status).toBe(400);
+  });
+
+  it('passes filters from arguments and echoes them in the caption', async () => {
+    const { handler, handleExport } = createHandler();
+
+    await handler(
+      createContext({ command: '/export', argument: '2026-10-01 2026-10-15 utm=src_ads role=user q="как оплатить"' }),
+    );
+
+    expect(handleExport).toHaveBeenCalledWith({
+      from: new Date('2026-10-01T00:00:00Z'),
+      to: new Date('2026-10-15T00:00:00Z'),
+      filters: { utmSource: 'src_ads', role: 'user', q: 'как оплатить' },
+      cursor: undefined,
+      limit: 1000,
+      signal: expect.any(AbortSignal),
+    });
+    const body = fetchMock.mock.calls[0][1]?.body as FormData;
+    expect(body.get('caption')).toBe(
+      'Период: 2026-10-01 — 2026-10-15\nФильтры: utm=src_ads, role=user, q=как оплатить',
+    );
+
+    const invalid = await handler(createContext({ command: '/export', argument: 'campaign=src_ads' }));
+    expect(invalid?.status).toBe(400);
+    await expect(invalid?.json()).resolves.toEqual({
+      error:
+        'Unknown option: campaign. Usage: /export [from] [to] [format=csv|jsonl|conversations] [user=] [username=] [utm=] [role=] [chat=] [q=] [anonymize=1] [gzip=1]',
+    });
+  });
+
   it('returns 400 for invalid date formats', async () => {
     const { handler, handleExport } = createHandler();
 
@@ -667,6 +769,125 @@ describe('createTelegramExportCommandHandler', () => {
     });
   });
 
+  it('requests anonymized export and flags it in the kv log', async () => {
+    const putMock = vi.fn().mockResolvedValue(undefined);
+    const handleExport = vi.fn().mockResolvedValue(
+      new Response('message_id,user_id\n1,3f2a\n', {
+        status: 200,
+        headers: { 'content-type': 'text/csv', 'x-export-anonymization': 'pseudonymize-v1' },
+      }),
+    );
+    const { handler } = createHandler({ handleExport, exportLogKv: { put: putMock } });
+
+    const response = await handler(createContext({ command: '/export', argument: 'anonymize=1' }));
+
+    expect(response?.status).toBe(200);
+    expect(handleExport).toHaveBeenCalledWith(expect.objectContaining({ anonymize: true }));
+    const body = fetchMock.mock.calls[0][1]?.body as FormData;
+    expect((body.get('document') as File).name).toBe('dialog-export-anonymized.csv');
+    expect(body.get('caption')).toBe('Псевдонимизация: pseudonymize-v1');
+    expect(JSON.parse(putMock.mock.calls[0][1] as string)).toMatchObject({
+      anonymized: true,
+      anonymizationPolicy: 'pseudonymize-v1',
+    });
+  });
+
+  it('refuses to upload when the export handler did not anonymize the file', async () => {
+    const { handler } = createHandler();
+
+    const response = await handler(createContext({ command: '/export', argument: 'anonymize=1' }));
+
+    expect(response?.status).toBe(500);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const invalid = await handler(createContext({ command: '/export', argument: 'anonymize=yes' }));
+    expect(invalid?.status).toBe(400);
+  });
+
+  describe('background export jobs', () => {
+    const checkpoint: ExportJobCheckpoint = {
+      jobId: 'exp-1',
+      status: 'running',
+      requestedBy: '42',
+      chatId: '123',
+      format: 'csv',
+      gzip: true,
+      partsSent: 1,
+      rowCount: 1000,
+      bytesSent: 2 * 1024 * 1024,
+      failures: 0,
+      createdAt: '2024-02-01T00:00:00.000Z',
+      updatedAt: '2024-02-01T00:00:00.000Z',
+    };
+
+    const createJobs = () => ({
+      start: vi.fn().mockResolvedValue(checkpoint),
+      run: vi.fn().mockResolvedValue(checkpoint),
+      pause: vi.fn().mockResolvedValue({ ...checkpoint, status: 'paused' }),
+      resume: vi.fn().mockResolvedValue(checkpoint),
+      cancel: vi.fn().mockResolvedValue({ ...checkpoint, status: 'cancelled' }),
+      get: vi.fn().mockResolvedValue(checkpoint),
+      list: vi.fn().mockResolvedValue([checkpoint, { ...checkpoint, jobId: 'exp-0', status: 'completed' }]),
+    });
+
+    it('starts a job and continues it in waitUntil instead of building the file in memory', async () => {
+      const jobs = createJobs();
+      const { handler, handleExport, sendTextMock } = createHandler({ jobs });
+      const waitUntil = vi.fn();
+
+      const response = await handler({
+        ...createContext({ command: '/export', argument: '2026-10-01 utm=src_ads gzip=1' }),
+        waitUntil,
+      });
+
+      await expect(response?.json()).resolves.toEqual({ status: 'started', jobId: 'exp-1' });
+      expect(jobs.start).toHaveBeenCalledWith({
+        requestedBy: '42',
+        chatId: '123',
+        threadId: '456',
+        from: new Date('2026-10-01T00:00:00Z'),
+        to: undefined,
+        format: 'csv',
+        filters: { utmSource: 'src_ads' },
+        anonymize: undefined,
+        gzip: true,
+        caption: 'Период: 2026-10-01 — …\nФильтры: utm=src_ads',
+      });
+      expect(jobs.run).toHaveBeenCalledWith('exp-1');
+      expect(waitUntil).toHaveBeenCalledTimes(1);
+      expect(handleExport).not.toHaveBeenCalled();
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(sendTextMock).toHaveBeenCalledWith(expect.objectContaining({
+        text: 'Выгрузка exp-1 запущена: файлы придут частями. Статус: /export_status exp-1, пауза: /export_pause exp-1, отмена: /export_cancel exp-1',
+      }));
+    });
+
+    it('reports, pauses and resumes jobs for admins only', async () => {
+      const jobs = createJobs();
+      const { handler, sendTextMock, adminAccess } = createHandler({ jobs });
+
+      await handler(createContext({ rawCommand: '/export_status', command: '/export' as const, text: '/export_status' }));
+      expect(sendTextMock).toHaveBeenLastCalledWith(expect.objectContaining({
+        text: 'Фоновые выгрузки:\nexp-1: выполняется, частей 1, строк 1000, 2.0 МБ',
+      }));
+
+      await handler(createContext({ rawCommand: '/export_pause', command: '/export' as const, argument: 'exp-1' }));
+      expect(jobs.pause).toHaveBeenCalledWith('exp-1');
+      expect(sendTextMock).toHaveBeenLastCalledWith(expect.objectContaining({
+        text: 'exp-1: на паузе, частей 1, строк 1000, 2.0 МБ',
+      }));
+
+      await handler(createContext({ rawCommand: '/export_resume', command: '/export' as const, argument: 'exp-1' }));
+      expect(jobs.resume).toHaveBeenCalledWith('exp-1');
+      expect(jobs.run).toHaveBeenCalledWith('exp-1');
+
+      adminAccess.isAdmin.mockResolvedValue(false);
+      const denied = await handler(createContext({ rawCommand: '/export_cancel', command: '/export' as const, argument: 'exp-1' }));
+      expect(denied).toBeUndefined();
+      expect(jobs.cancel).not.toHaveBeenCalled();
+    });
+  });
+
   it('sends admin-ok for status command when user is whitelisted', async () => {
     const sendTextMock = vi.fn().mockResolvedValue({});
     const { handler, adminAccess } = createHandler({ sendTextMock });
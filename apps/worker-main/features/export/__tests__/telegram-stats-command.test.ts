@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { TelegramAdminCommandContext } from '../../../http';
+import type { AdminAccess } from '../../admin-access';
+import type { DialogStats } from '../dialog-stats';
+import { createTelegramStatsCommandHandler } from '../telegram-stats-command';
+
+const createContext = (command: string, argument?: string): TelegramAdminCommandContext => ({
+  command,
+  rawCommand: command,
+  argument,
+  text: [command, argument].filter(Boolean).join(' '),
+  chat: { id: '123', threadId: '456', type: 'supergroup' },
+  from: { userId: '42' },
+  messageId: '789',
+  update: { update_id: 1 },
+  message: { message_id: '789', chat: { id: '123' } } as unknown as TelegramAdminCommandContext['message'],
+  incomingMessage: {
+    chat: { id: '123', threadId: '456' },
+    messageId: '789',
+    receivedAt: new Date('2026-10-19T00:00:00Z'),
+    text: command,
+    user: { userId: '42' },
+  },
+});
+
+const stats: DialogStats = {
+  from: '2026-10-13',
+  to: '2026-10-19',
+  totals: {
+    newUsers: 0,
+    activeUsers: 0,
+    averageDau: 0,
+    messages: { user: 0, assistant: 0, system: 0 },
+    avgAssistantReplyLength: null,
+    rateLimitHits: 0,
+  },
+  days: [],
+  funnel: [],
+};
+
+const createHandler = (isAdmin = true) => {
+  const adminAccess = { isAdmin: vi.fn().mockResolvedValue(isAdmin) } as unknown as AdminAccess;
+  const collect = vi.fn().mockResolvedValue(stats);
+  const sendText = vi.fn().mockResolvedValue({ messageId: '1' });
+  const handler = createTelegramStatsCommandHandler({
+    adminAccess,
+    stats: { collect },
+    messaging: { sendText },
+    now: () => new Date('2026-10-19T12:00:00Z'),
+  });
+
+  return { handler, collect, sendText };
+};
+
+describe('createTelegramStatsCommandHandler', () => {
+  it('sends the summary for the last seven days by default', async () => {
+    const { handler, collect, sendText } = createHandler();
+
+    const response = await handler(createContext('/stats'));
+
+    await expect(response?.json()).resolves.toEqual({ status: 'ok' });
+    expect(collect).toHaveBeenCalledWith({
+      from: new Date('2026-10-13T00:00:00Z'),
+      to: new Date('2026-10-20T00:00:00Z'),
+    });
+    expect(sendText).toHaveBeenCalledWith({
+      chatId: '123',
+      threadId: '456',
+      text: [
+        '📊 Статистика за 2026-10-13 — 2026-10-19 (UTC)',
+        'Новых пользователей: 0',
+        'Активных: 0, средний DAU: 0',
+        'Сообщений: от пользователей — 0, ответов ИИ — 0, системных — 0',
+        'Средняя длина ответа ИИ: —',
+        'Упёрлись в лимит: 0',
+        'Воронка: новых пользователей нет.',
+      ].join('\n'),
+    });
+  });
+
+  it('explains invalid dates instead of querying D1', async () => {
+    const { handler, collect, sendText } = createHandler();
+
+    await handler(createContext('/stats', '2026-10-19 2026-10-01'));
+
+    expect(collect).not.toHaveBeenCalled();
+    expect(sendText).toHaveBeenCalledWith(expect.objectContaining({
+      text: 'from must be earlier than or equal to to. Usage: /stats [from] [to] — даты в формате YYYY-MM-DD, по умолчанию последние 7 дней.',
+    }));
+  });
+
+  it('ignores other commands and non-admins', async () => {
+    const { handler, sendText } = createHandler(false);
+
+    await expect(handler(createContext('/export'))).resolves.toBeUndefined();
+    await expect(handler(createContext('/stats'))).resolves.toBeUndefined();
+    expect(sendText).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,58 @@
 import { json } from '../../shared/json-response';
 
+/**
+ * `csv` — таблица сообщений, `jsonl` — по JSON-объекту на сообщение,
+ * `conversations` — по JSON-объекту на пользователя с упорядоченными репликами.
+ */
+export type ExportFormat = 'csv' | 'jsonl' | 'conversations';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'jsonl', 'conversations'];
+
+export type ExportRole = 'user' | 'assistant' | 'system';
+
+const EXPORT_ROLES: readonly ExportRole[] = ['user', 'assistant', 'system'];
+
+/**
+ * Условия отбора сообщений; все заданные условия объединяются через «и».
+ */
+export interface ExportFilters {
+  userId?: string;
+  /**
+   * Без `@`, сравнивается без учёта регистра.
+   */
+  username?: string;
+  utmSource?: string;
+  role?: ExportRole;
+  chatId?: string;
+  /**
+   * Подстрока текста сообщения.
+   */
+  q?: string;
+}
+
+export type ExportFilterKey = keyof ExportFilters;
+
+export const EXPORT_FILTER_KEYS: readonly ExportFilterKey[] = ['userId', 'username', 'utmSource', 'role', 'chatId', 'q'];
+
+const MAX_EXPORT_QUERY_LENGTH = 200;
+
 export interface AdminExportRequest {
   from?: Date;
   to?: Date;
   cursor?: string;
+  /**
+   * Для `conversations` — число пользователей на странице, иначе — сообщений.
+   */
   limit?: number;
+  /**
+   * По умолчанию `csv`.
+   */
+  format?: ExportFormat;
+  filters?: ExportFilters;
+  /**
+   * Псевдонимизированная выгрузка для передачи подрядчикам.
+   */
+  anonymize?: boolean;
   signal: AbortSignal;
 }
 
@@ -45,6 +93,84 @@ const parseLimit = (rawLimit: string | null): number | undefined => {
   return parsed;
 };
 
+export const parseExportFormat = (value: string | null | undefined): ExportFormat | undefined => {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+
+  const format = EXPORT_FORMATS.find((candidate) => candidate === normalized);
+  if (!format) {
+    throw new Error(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  return format;
+};
+
+/**
+ * Собирает фильтры из параметров запроса или аргументов `/export`; пустые
+ * значения пропускаются.
+ */
+export const parseExportFilters = (
+  getValue: (key: ExportFilterKey) => string | null | undefined,
+): ExportFilters => {
+  const filters: ExportFilters = {};
+
+  for (const key of EXPORT_FILTER_KEYS) {
+    const value = getValue(key)?.trim();
+    if (!value) {
+      continue;
+    }
+
+    if (key === 'role') {
+      const role = EXPORT_ROLES.find((candidate) => candidate === value.toLowerCase());
+      if (!role) {
+        throw new Error(`role must be one of ${EXPORT_ROLES.join(', ')}`);
+      }
+      filters.role = role;
+    } else if (key === 'username') {
+      const username = value.replace(/^@/, '');
+      if (username) {
+        filters.username = username;
+      }
+    } else if (key === 'q') {
+      if (value.length > MAX_EXPORT_QUERY_LENGTH) {
+        throw new Error(`q must not exceed ${MAX_EXPORT_QUERY_LENGTH} characters`);
+      }
+      filters.q = value;
+    } else {
+      filters[key] = value;
+    }
+  }
+
+  return filters;
+};
+
+/**
+ * Флаг вида `name=1`: `1`/`true` включают, `0`/`false` или отсутствие — нет.
+ */
+export const parseExportFlag = (name: string, value: string | null | undefined): boolean => {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized || normalized === '0' || normalized === 'false') {
+    return false;
+  }
+
+  if (normalized === '1' || normalized === 'true') {
+    return true;
+  }
+
+  throw new Error(`${name} must be 1 or 0`);
+};
+
+/**
+ * `anonymize=1` включает псевдонимизацию.
+ */
+export const parseExportAnonymize = (value: string | null | undefined): boolean =>
+  parseExportFlag('anonymize', value);
+
+export const hasExportFilters = (filters: ExportFilters | undefined): filters is ExportFilters =>
+  Boolean(filters) && Object.keys(filters as ExportFilters).length > 0;
+
 const parseDateParam = (value: string | null): Date | undefined => {
   if (!value) {
     return undefined;
@@ -89,11 +215,17 @@ export const createAdminExportRoute = (options: CreateAdminExportRouteOptions) =
     let from: Date | undefined;
     let to: Date | undefined;
     let limit: number | undefined;
+    let format: ExportFormat | undefined;
+    let filters: ExportFilters;
+    let anonymize: boolean;
 
     try {
       from = parseDateParam(fromRaw);
       to = parseDateParam(toRaw);
       limit = parseLimit(url.searchParams.get('limit'));
+      format = parseExportFormat(url.searchParams.get('format'));
+      filters = parseExportFilters((key) => url.searchParams.get(key));
+      anonymize = parseExportAnonymize(url.searchParams.get('anonymize'));
       compareDates(from, to);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Invalid parameters';
@@ -105,6 +237,9 @@ export const createAdminExportRoute = (options: CreateAdminExportRouteOptions) =
       to,
       cursor,
       limit,
+      ...(format ? { format } : {}),
+      ...(hasExportFilters(filters) ? { filters } : {}),
+      ...(anonymize ? { anonymize } : {}),
       signal: request.signal,
     });
   };
@@ -0,0 +1,84 @@
+import { json } from '../../shared';
+import {
+  type DialogStatsCsvTable,
+  type DialogStatsPeriod,
+  type DialogStatsStore,
+  formatDialogStatsCsv,
+  parseDialogStatsPeriod,
+} from './dialog-stats';
+
+interface Logger {
+  error?(message: string, details?: Record<string, unknown>): void;
+}
+
+export interface CreateAdminStatsRouteOptions {
+  stats: DialogStatsStore;
+  now?: () => Date;
+  logger?: Logger;
+}
+
+const parseCsvTable = (value: string | null): DialogStatsCsvTable => {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized || normalized === 'daily') {
+    return 'daily';
+  }
+
+  if (normalized === 'funnel') {
+    return 'funnel';
+  }
+
+  throw new Error('table must be daily or funnel');
+};
+
+/**
+ * `GET /admin/stats[?from=YYYY-MM-DD&to=YYYY-MM-DD&format=csv&table=daily|funnel]`.
+ * JSON содержит итоги, дни и воронку; CSV — одну из таблиц.
+ */
+export const createAdminStatsRoute = (options: CreateAdminStatsRouteOptions) => {
+  const now = options.now ?? (() => new Date());
+
+  return async (request: Request): Promise<Response> => {
+    if (request.method !== 'GET') {
+      return json({ error: 'Method Not Allowed' }, { status: 405 });
+    }
+
+    const url = new URL(request.url);
+    const format = url.searchParams.get('format')?.trim().toLowerCase() || 'json';
+
+    let period: DialogStatsPeriod;
+    let table: DialogStatsCsvTable;
+    try {
+      if (format !== 'json' && format !== 'csv') {
+        throw new Error('format must be json or csv');
+      }
+
+      period = parseDialogStatsPeriod(url.searchParams.get('from'), url.searchParams.get('to'), now());
+      table = parseCsvTable(url.searchParams.get('table'));
+    } catch (error) {
+      return json({ error: error instanceof Error ? error.message : 'Invalid parameters' }, { status: 400 });
+    }
+
+    let stats: Awaited<ReturnType<DialogStatsStore['collect']>>;
+    try {
+      stats = await options.stats.collect(period);
+    } catch (error) {
+      options.logger?.error?.('failed to collect dialog stats', {
+        error: error instanceof Error ? { name: error.name, message: error.message } : String(error),
+      });
+      return json({ error: 'Failed to collect stats' }, { status: 500 });
+    }
+
+    if (format === 'csv') {
+      return new Response(formatDialogStatsCsv(stats, table), {
+        status: 200,
+        headers: {
+          'content-type': 'text/csv; charset=utf-8',
+          'cache-control': 'no-store',
+          'content-disposition': `attachment; filename="dialog-stats-${table}-${stats.from}-${stats.to}.csv"`,
+        },
+      });
+    }
+
+    return json(stats);
+  };
+};
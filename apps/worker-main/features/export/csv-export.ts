@@ -1,5 +1,10 @@
 import { json } from '../../shared';
-import type { AdminExportRequest } from './admin-export-route';
+import type { AdminExportRequest, ExportFilters, ExportFormat } from './admin-export-route';
+import {
+  type ExportAnonymizationOptions,
+  type ExportPseudonymizer,
+  createExportPseudonymizer,
+} from './export-pseudonymizer';
 
 interface D1PreparedStatement {
   bind(...values: unknown[]): D1PreparedStatement;
@@ -13,6 +18,11 @@ interface D1Database {
 export interface CsvExportHandlerOptions {
   db: D1Database;
   filenamePrefix?: string;
+  /**
+   * Без соли запросы с `anonymize` отклоняются: псевдонимы без секрета можно
+   * подобрать перебором `user_id`.
+   */
+  anonymization?: ExportAnonymizationOptions;
 }
 
 interface ExportRow {
@@ -32,6 +42,8 @@ interface ExportRow {
   text: string;
   timestamp: string;
   message_metadata: string | null;
+  broadcast_job_id: string | null;
+  broadcast_variant: string | null;
 }
 
 interface Cursor {
@@ -39,7 +51,18 @@ interface Cursor {
   id: number;
 }
 
-const SELECT_MESSAGES_SQL = `
+interface ConversationCursor {
+  userId: string;
+}
+
+/**
+ * Сообщение пользователя относится к рассылке, отмеченной при приёме в
+ * `metadata.broadcastJobId`. Для сообщений без отметки — к последней доставке
+ * в этот чат не раньше чем за 48 часов.
+ */
+const BROADCAST_ATTRIBUTION_WINDOW_SECONDS = 48 * 60 * 60;
+
+const SELECT_EXPORT_ROWS_SQL = `
   SELECT
     m.id,
     m.user_id,
@@ -56,20 +79,90 @@ const SELECT_MESSAGES_SQL = `
     m.role,
     m.text,
     m.timestamp,
-    m.metadata AS message_metadata
+    m.metadata AS message_metadata,
+    CASE WHEN json_valid(m.metadata) AND json_extract(m.metadata, '$.broadcastJobId') IS NOT NULL
+      THEN json_extract(m.metadata, '$.broadcastJobId')
+      ELSE bd.job_id
+    END AS broadcast_job_id,
+    CASE WHEN json_valid(m.metadata) AND json_extract(m.metadata, '$.broadcastJobId') IS NOT NULL
+      THEN json_extract(m.metadata, '$.broadcastVariant')
+      ELSE bd.variant
+    END AS broadcast_variant
   FROM messages m
   INNER JOIN users u ON u.user_id = m.user_id
-  WHERE (?1 IS NULL OR m.timestamp >= ?1)
+  LEFT JOIN broadcast_deliveries bd ON m.role = 'user' AND bd.id = (
+    SELECT d.id
+    FROM broadcast_deliveries d
+    WHERE d.chat_id = m.chat_id
+      AND d.status = 'delivered'
+      AND d.sent_at BETWEEN CAST(strftime('%s', m.timestamp) AS INTEGER) - ${BROADCAST_ATTRIBUTION_WINDOW_SECONDS}
+        AND CAST(strftime('%s', m.timestamp) AS INTEGER)
+    ORDER BY d.sent_at DESC, d.id DESC
+    LIMIT 1
+  )`;
+
+// Диапазон дат и фильтры занимают параметры ?1–?8 во всех запросах выгрузки.
+const EXPORT_FILTERS_SQL = `
+  (?1 IS NULL OR m.timestamp >= ?1)
     AND (?2 IS NULL OR m.timestamp <= ?2)
+    AND (?3 IS NULL OR m.user_id = ?3)
+    AND (?4 IS NULL OR u.username = ?4 COLLATE NOCASE)
+    AND (?5 IS NULL OR u.utm_source = ?5)
+    AND (?6 IS NULL OR m.role = ?6)
+    AND (?7 IS NULL OR m.chat_id = ?7)
+    AND (?8 IS NULL OR m.text LIKE '%' || ?8 || '%' ESCAPE '\\')`;
+const EXPORT_FILTER_PARAMETERS = 8;
+
+const SELECT_MESSAGES_SQL = `${SELECT_EXPORT_ROWS_SQL}
+  WHERE ${EXPORT_FILTERS_SQL}
     AND (
-      ?3 IS NULL
-      OR m.timestamp > ?3
-      OR (m.timestamp = ?3 AND m.id > ?4)
+      ?9 IS NULL
+      OR m.timestamp > ?9
+      OR (m.timestamp = ?9 AND m.id > ?10)
     )
   ORDER BY m.timestamp ASC, m.id ASC
-  LIMIT ?5;
+  LIMIT ?11;
 `;
 
+const SELECT_CONVERSATION_USERS_SQL = `
+  SELECT m.user_id
+  FROM messages m
+  INNER JOIN users u ON u.user_id = m.user_id
+  WHERE ${EXPORT_FILTERS_SQL}
+    AND (?9 IS NULL OR m.user_id > ?9)
+  GROUP BY m.user_id
+  ORDER BY m.user_id ASC
+  LIMIT ?10;
+`;
+
+// D1 принимает не больше 100 параметров на запрос.
+const CONVERSATION_USERS_PER_QUERY = 100 - EXPORT_FILTER_PARAMETERS;
+
+const buildConversationMessagesSql = (userCount: number): string => `${SELECT_EXPORT_ROWS_SQL}
+  WHERE ${EXPORT_FILTERS_SQL}
+    AND m.user_id IN (${Array.from(
+      { length: userCount },
+      (_, index) => `?${index + EXPORT_FILTER_PARAMETERS + 1}`,
+    ).join(', ')})
+  ORDER BY m.user_id ASC, m.timestamp ASC, m.id ASC;
+`;
+
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const toFilterBindings = (request: AdminExportRequest): unknown[] => {
+  const filters: ExportFilters = request.filters ?? {};
+  return [
+    request.from ? request.from.toISOString() : null,
+    request.to ? request.to.toISOString() : null,
+    filters.userId ?? null,
+    filters.username ?? null,
+    filters.utmSource ?? null,
+    filters.role ?? null,
+    filters.chatId ?? null,
+    filters.q ? escapeLikePattern(filters.q) : null,
+  ];
+};
+
 const DANGEROUS_FORMULA_PREFIX = /^[=+\-@]/;
 
 const sanitizeForCsv = (input: string): string => {
@@ -83,7 +176,10 @@ const sanitizeForCsv = (input: string): string => {
   return `"${escaped}"`;
 };
 
-const formatValue = (value: unknown): string => {
+/**
+ * Значение ячейки CSV: кавычки, экранирование и защита от формул.
+ */
+export const formatCsvValue = (value: unknown): string => {
   if (value === null || value === undefined) {
     return '""';
   }
@@ -106,27 +202,76 @@ const formatValue = (value: unknown): string => {
   return sanitizeForCsv(String(value));
 };
 
-const HEADER = [
-  'message_id',
-  'user_id',
-  'username',
-  'first_name',
-  'last_name',
-  'language_code',
-  'user_created_at',
-  'user_updated_at',
-  'user_metadata',
-  'chat_id',
-  'utm_source',
-  'thread_id',
-  'role',
-  'text',
-  'timestamp',
-  'message_metadata',
+type ExportColumn = readonly [name: string, value: (row: ExportRow) => unknown];
+
+const CSV_COLUMNS: readonly ExportColumn[] = [
+  ['message_id', (row) => row.id],
+  ['user_id', (row) => row.user_id],
+  ['username', (row) => row.username],
+  ['first_name', (row) => row.first_name],
+  ['last_name', (row) => row.last_name],
+  ['language_code', (row) => row.language_code],
+  ['user_created_at', (row) => row.user_created_at],
+  ['user_updated_at', (row) => row.user_updated_at],
+  ['user_metadata', (row) => row.user_metadata],
+  ['chat_id', (row) => row.chat_id],
+  ['utm_source', (row) => row.utm_source],
+  ['thread_id', (row) => row.thread_id],
+  ['role', (row) => row.role],
+  ['text', (row) => row.text],
+  ['timestamp', (row) => row.timestamp],
+  ['message_metadata', (row) => row.message_metadata],
+  ['summary_version', (row) => extractSummaryVersion(row.message_metadata)],
+  ['audio_duration_sec', (row) => extractAudioDurationSec(row.message_metadata)],
+  ['broadcast_job_id', (row) => row.broadcast_job_id],
+  ['broadcast_variant', (row) => row.broadcast_variant],
 ];
 
+// В псевдонимизированной выгрузке этих колонок нет совсем.
+const PERSONAL_COLUMNS = new Set(['username', 'first_name', 'last_name']);
+
+const ANONYMIZED_CSV_COLUMNS = CSV_COLUMNS.filter(([name]) => !PERSONAL_COLUMNS.has(name));
+
 const encoder = new TextEncoder();
 
+/**
+ * Саммари диалога хранится как `system`-сообщение; версию выносим в отдельную
+ * колонку, чтобы такие строки было легко отфильтровать или пересобрать.
+ */
+const extractSummaryVersion = (metadata: string | null): number | null => {
+  if (!metadata) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(metadata) as { kind?: unknown; summaryVersion?: unknown } | null;
+    if (parsed?.kind === 'summary' && typeof parsed.summaryVersion === 'number') {
+      return parsed.summaryVersion;
+    }
+  } catch {
+    return null;
+  }
+
+  return null;
+};
+
+const extractAudioDurationSec = (metadata: string | null): number | null => {
+  if (!metadata) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(metadata) as { audioDurationSec?: unknown } | null;
+    if (typeof parsed?.audioDurationSec === 'number') {
+      return parsed.audioDurationSec;
+    }
+  } catch {
+    return null;
+  }
+
+  return null;
+};
+
 const encodeBase64 = (value: string): string => {
   if (typeof (globalThis as { btoa?: (input: string) => string }).btoa === 'function') {
     return (globalThis as { btoa: (input: string) => string }).btoa(value);
@@ -174,43 +319,333 @@ const createCursor = (row: ExportRow): string =>
     }),
   );
 
-const createCsvStream = (rows: ExportRow[]): ReadableStream<Uint8Array> =>
+const parseConversationCursor = (cursor: string | undefined): ConversationCursor | undefined => {
+  if (!cursor) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(decodeBase64(cursor)) as Partial<ConversationCursor>;
+    if (typeof parsed.userId !== 'string' || parsed.userId.length === 0) {
+      throw new Error('Invalid cursor shape');
+    }
+
+    return { userId: parsed.userId };
+  } catch (error) {
+    throw new Error('Invalid cursor');
+  }
+};
+
+const createConversationCursor = (userId: string): string => encodeBase64(JSON.stringify({ userId }));
+
+/**
+ * Метаданные хранятся в D1 строкой JSON; в JSONL они попадают объектом.
+ * Непарсящееся значение остаётся строкой, чтобы ничего не потерять.
+ */
+const parseMetadata = (value: string | null): unknown => {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+};
+
+const toPersonalFields = (row: ExportRow, anonymized: boolean) => (anonymized
+  ? {}
+  : { username: row.username, first_name: row.first_name, last_name: row.last_name });
+
+const toMessageRecord = (row: ExportRow, anonymized: boolean) => ({
+  message_id: row.id,
+  user_id: row.user_id,
+  ...toPersonalFields(row, anonymized),
+  language_code: row.language_code,
+  user_created_at: row.user_created_at,
+  user_updated_at: row.user_updated_at,
+  user_metadata: parseMetadata(row.user_metadata),
+  chat_id: row.chat_id,
+  utm_source: row.utm_source,
+  thread_id: row.thread_id,
+  role: row.role,
+  text: row.text,
+  timestamp: row.timestamp,
+  message_metadata: parseMetadata(row.message_metadata),
+  summary_version: extractSummaryVersion(row.message_metadata),
+  audio_duration_sec: extractAudioDurationSec(row.message_metadata),
+  broadcast_job_id: row.broadcast_job_id ?? null,
+  broadcast_variant: row.broadcast_variant ?? null,
+});
+
+/**
+ * Реплики пользователя по порядку. Саммари пропускаются: они пересказывают
+ * уже выгруженные сообщения и в обучающую выборку не нужны.
+ */
+const toConversationRecords = (rows: ExportRow[], anonymized: boolean) => {
+  const conversations = new Map<string, { profile: ExportRow; turns: ExportRow[] }>();
+  for (const row of rows) {
+    const conversation = conversations.get(row.user_id) ?? { profile: row, turns: [] };
+    conversations.set(row.user_id, conversation);
+    if (extractSummaryVersion(row.message_metadata) === null) {
+      conversation.turns.push(row);
+    }
+  }
+
+  return Array.from(conversations.values())
+    .filter((conversation) => conversation.turns.length > 0)
+    .map(({ profile, turns }) => ({
+      user_id: profile.user_id,
+      ...toPersonalFields(profile, anonymized),
+      language_code: profile.language_code,
+      utm_source: profile.utm_source,
+      user_created_at: profile.user_created_at,
+      user_metadata: parseMetadata(profile.user_metadata),
+      turns: turns.map((turn) => ({
+        message_id: turn.id,
+        chat_id: turn.chat_id,
+        thread_id: turn.thread_id,
+        role: turn.role,
+        text: turn.text,
+        timestamp: turn.timestamp,
+        metadata: parseMetadata(turn.message_metadata),
+        broadcast_job_id: turn.broadcast_job_id ?? null,
+        broadcast_variant: turn.broadcast_variant ?? null,
+      })),
+    }));
+};
+
+const createJsonLinesStream = (records: unknown[]): ReadableStream<Uint8Array> =>
   new ReadableStream<Uint8Array>({
     start(controller) {
-      controller.enqueue(encoder.encode(`\uFEFF${HEADER.map(sanitizeForCsv).join(',')}\r\n`));
+      for (const record of records) {
+        controller.enqueue(encoder.encode(`${JSON.stringify(record)}\n`));
+      }
 
-      for (const row of rows) {
-        const line = [
-          formatValue(row.id),
-          formatValue(row.user_id),
-          formatValue(row.username),
-          formatValue(row.first_name),
-          formatValue(row.last_name),
-          formatValue(row.language_code),
-          formatValue(row.user_created_at),
-          formatValue(row.user_updated_at),
-          formatValue(row.user_metadata),
-          formatValue(row.chat_id),
-          formatValue(row.utm_source),
-          formatValue(row.thread_id),
-          formatValue(row.role),
-          formatValue(row.text),
-          formatValue(row.timestamp),
-          formatValue(row.message_metadata),
-        ].join(',');
+      controller.close();
+    },
+  });
+
+const EXPORT_FILES: Readonly<Record<ExportFormat, { contentType: string; suffix: string }>> = {
+  csv: { contentType: 'text/csv; charset=utf-8', suffix: '.csv' },
+  jsonl: { contentType: 'application/x-ndjson; charset=utf-8', suffix: '.jsonl' },
+  conversations: { contentType: 'application/x-ndjson; charset=utf-8', suffix: '-conversations.jsonl' },
+};
+
+const createCsvStream = (rows: ExportRow[], anonymized: boolean): ReadableStream<Uint8Array> => {
+  const columns = anonymized ? ANONYMIZED_CSV_COLUMNS : CSV_COLUMNS;
 
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`\uFEFF${columns.map(([name]) => sanitizeForCsv(name)).join(',')}\r\n`));
+
+      for (const row of rows) {
+        const line = columns.map(([, value]) => formatCsvValue(value(row))).join(',');
         controller.enqueue(encoder.encode(`${line}\r\n`));
       }
 
       controller.close();
     },
   });
+};
 
+// Ключи метаданных, которые переживают псевдонимизацию. Всё остальное
+// (вызовы инструментов с профилем, `fileId` вложений, UTM) отбрасывается.
+const ANONYMIZED_USER_METADATA_KEYS = new Set(['isBot', 'isPremium']);
+
+const ANONYMIZED_MESSAGE_METADATA_KEYS = new Set([
+  'kind',
+  'summaryVersion',
+  'revision',
+  'coveredUntil',
+  'coveredMessages',
+  'source',
+  'transcribed',
+  'audioDurationSec',
+  'transcriptionLanguage',
+  'broadcastJobId',
+  'broadcastVariant',
+  'broadcastAttribution',
+]);
+
+const ANONYMIZED_ATTACHMENT_KEYS = new Set(['kind', 'mimeType', 'size']);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pickKeys = (value: Record<string, unknown>, keys: ReadonlySet<string>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(value).filter(([key]) => keys.has(key)));
+
+/**
+ * Оставляет в JSON метаданных только ключи из списка. Вложения сводятся
+ * к типу и размеру; непарсящиеся и пустые после чистки значения — `null`.
+ */
+const scrubMetadata = (
+  value: string | null,
+  keys: ReadonlySet<string>,
+  withAttachments = false,
+): string | null => {
+  const parsed = parseMetadata(value);
+  if (!isRecord(parsed)) {
+    return null;
+  }
+
+  const scrubbed = pickKeys(parsed, keys);
+  if (withAttachments && Array.isArray(parsed.attachments)) {
+    scrubbed.attachments = parsed.attachments
+      .filter(isRecord)
+      .map((attachment) => pickKeys(attachment, ANONYMIZED_ATTACHMENT_KEYS));
+  }
+
+  return Object.keys(scrubbed).length > 0 ? JSON.stringify(scrubbed) : null;
+};
+
+/**
+ * Идентификаторы — в псевдонимы, текст — через редактор, имена обнуляются,
+ * метаданные чистятся по списку разрешённых ключей.
+ * `message_id` и `thread_id` остаются: это внутренние номера, а не люди.
+ */
+const anonymizeRows = async (rows: ExportRow[], pseudonymizer: ExportPseudonymizer): Promise<ExportRow[]> =>
+  Promise.all(rows.map(async (row) => ({
+    ...row,
+    user_id: await pseudonymizer.pseudonymize(String(row.user_id)),
+    chat_id: await pseudonymizer.pseudonymize(String(row.chat_id)),
+    username: null,
+    first_name: null,
+    last_name: null,
+    user_metadata: scrubMetadata(row.user_metadata, ANONYMIZED_USER_METADATA_KEYS),
+    text: pseudonymizer.redact(row.text),
+    message_metadata: scrubMetadata(row.message_metadata, ANONYMIZED_MESSAGE_METADATA_KEYS, true),
+  })));
+
+const collectUtmSources = (rows: ExportRow[]): string[] => {
+  const utmSources = rows
+    .map((row) => row.utm_source?.trim())
+    .filter((value): value is string => Boolean(value && value.length > 0));
+  return Array.from(new Set(utmSources));
+};
+
+/**
+ * Выгрузка сообщений: CSV (по умолчанию), JSONL по сообщениям или JSONL по
+ * пользователям (`conversations`). Следующая страница — в `x-next-cursor`.
+ * С `anonymize` идентификаторы заменяются псевдонимами, а версия правил
+ * возвращается в `x-export-anonymization`.
+ */
 export const createCsvExportHandler = (options: CsvExportHandlerOptions) => {
   const filenamePrefix = options.filenamePrefix ?? 'dialog-export';
 
+  const createResponse = (
+    format: ExportFormat,
+    stream: ReadableStream<Uint8Array>,
+    rows: ExportRow[],
+    nextCursor: string | undefined,
+    pseudonymizer: ExportPseudonymizer | undefined,
+  ): Response => {
+    const file = EXPORT_FILES[format];
+    const filename = `${filenamePrefix}${pseudonymizer ? '-anonymized' : ''}${file.suffix}`;
+    const headers = new Headers({
+      'content-type': file.contentType,
+      'cache-control': 'no-store',
+      'content-disposition': `attachment; filename="${filename}"`,
+    });
+
+    if (pseudonymizer) {
+      headers.set('x-export-anonymization', pseudonymizer.policyVersion);
+    }
+
+    const uniqueUtmSources = collectUtmSources(rows);
+    if (uniqueUtmSources.length > 0) {
+      headers.set('x-utm-sources', JSON.stringify(uniqueUtmSources));
+    }
+
+    if (nextCursor) {
+      headers.set('x-next-cursor', nextCursor);
+    }
+
+    return new Response(stream, {
+      status: 200,
+      headers,
+    });
+  };
+
+  const exportConversations = async (
+    request: AdminExportRequest,
+    limit: number,
+    pseudonymizer: ExportPseudonymizer | undefined,
+  ): Promise<Response> => {
+    let cursor: ConversationCursor | undefined;
+    try {
+      cursor = parseConversationCursor(request.cursor);
+    } catch (error) {
+      return json(
+        { error: error instanceof Error ? error.message : 'Invalid cursor' },
+        { status: 400 },
+      );
+    }
+
+    const filterBindings = toFilterBindings(request);
+    const rows: ExportRow[] = [];
+    let userIds: string[];
+
+    try {
+      const { results } = await options
+        .db
+        .prepare(SELECT_CONVERSATION_USERS_SQL)
+        .bind(...filterBindings, cursor ? cursor.userId : null, limit + 1)
+        .all<{ user_id: string }>();
+      userIds = results.map((row) => String(row.user_id));
+
+      const pageUserIds = userIds.slice(0, limit);
+      for (let start = 0; start < pageUserIds.length; start += CONVERSATION_USERS_PER_QUERY) {
+        const chunk = pageUserIds.slice(start, start + CONVERSATION_USERS_PER_QUERY);
+        const { results: chunkRows } = await options
+          .db
+          .prepare(buildConversationMessagesSql(chunk.length))
+          .bind(...filterBindings, ...chunk)
+          .all<ExportRow>();
+        rows.push(...chunkRows);
+      }
+    } catch (error) {
+      return json(
+        { error: 'Failed to fetch messages' },
+        { status: 500 },
+      );
+    }
+
+    const hasMore = userIds.length > limit;
+    const nextCursor = hasMore && limit > 0 ? createConversationCursor(userIds[limit - 1]) : undefined;
+    const outputRows = pseudonymizer ? await anonymizeRows(rows, pseudonymizer) : rows;
+
+    return createResponse(
+      'conversations',
+      createJsonLinesStream(toConversationRecords(outputRows, Boolean(pseudonymizer))),
+      rows,
+      nextCursor,
+      pseudonymizer,
+    );
+  };
+
   return async (request: AdminExportRequest): Promise<Response> => {
     const limit = Math.max(1, request.limit ?? 100);
+    const format = request.format ?? 'csv';
+
+    let pseudonymizer: ExportPseudonymizer | undefined;
+    if (request.anonymize) {
+      if (!options.anonymization) {
+        return json(
+          { error: 'Anonymized export is not configured' },
+          { status: 503 },
+        );
+      }
+
+      pseudonymizer = createExportPseudonymizer(options.anonymization);
+    }
+
+    if (format === 'conversations') {
+      return exportConversations(request, limit, pseudonymizer);
+    }
+
     let cursor: Cursor | undefined;
 
     try {
@@ -226,8 +661,7 @@ export const createCsvExportHandler = (options: CsvExportHandlerOptions) => {
       .db
       .prepare(SELECT_MESSAGES_SQL)
       .bind(
-        request.from ? request.from.toISOString() : null,
-        request.to ? request.to.toISOString() : null,
+        ...toFilterBindings(request),
         cursor ? cursor.timestamp : null,
         cursor ? cursor.id : null,
         limit + 1,
@@ -245,30 +679,14 @@ export const createCsvExportHandler = (options: CsvExportHandlerOptions) => {
 
     const hasMore = results.length > limit;
     const rows = hasMore ? results.slice(0, limit) : results;
+    const nextCursor = hasMore && rows.length > 0 ? createCursor(rows[rows.length - 1]) : undefined;
 
-    const stream = createCsvStream(rows);
-    const headers = new Headers({
-      'content-type': 'text/csv; charset=utf-8',
-      'cache-control': 'no-store',
-      'content-disposition': `attachment; filename="${filenamePrefix}.csv"`,
-    });
-
-    const utmSources = rows
-      .map((row) => row.utm_source?.trim())
-      .filter((value): value is string => Boolean(value && value.length > 0));
-    const uniqueUtmSources = Array.from(new Set(utmSources));
-    if (uniqueUtmSources.length > 0) {
-      headers.set('x-utm-sources', JSON.stringify(uniqueUtmSources));
-    }
-
-    if (hasMore && rows.length > 0) {
-      const nextCursor = createCursor(rows[rows.length - 1]);
-      headers.set('x-next-cursor', nextCursor);
-    }
+    const anonymized = Boolean(pseudonymizer);
+    const outputRows = pseudonymizer ? await anonymizeRows(rows, pseudonymizer) : rows;
+    const stream = format === 'jsonl'
+      ? createJsonLinesStream(outputRows.map((row) => toMessageRecord(row, anonymized)))
+      : createCsvStream(outputRows, anonymized);
 
-    return new Response(stream, {
-      status: 200,
-      headers,
-    });
+    return createResponse(format, stream, rows, nextCursor, pseudonymizer);
   };
 };
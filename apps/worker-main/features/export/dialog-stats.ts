@@ -0,0 +1,417 @@
+import { formatCsvValue } from './csv-export';
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  all<T = unknown>(): Promise<{ results: T[] }>;
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+interface Logger {
+  warn?(message: string, details?: Record<string, unknown>): void;
+}
+
+/**
+ * Период статистики в сутках UTC: `from` — начало первого дня, `to` — начало
+ * дня, следующего за последним.
+ */
+export interface DialogStatsPeriod {
+  from: Date;
+  to: Date;
+}
+
+export interface DialogStatsMessageCounts {
+  user: number;
+  assistant: number;
+  system: number;
+}
+
+export interface DialogStatsDay {
+  /**
+   * `YYYY-MM-DD` по UTC.
+   */
+  date: string;
+  newUsers: number;
+  /**
+   * Пользователи, написавшие боту хотя бы одно сообщение за день (DAU).
+   */
+  activeUsers: number;
+  messages: DialogStatsMessageCounts;
+  /**
+   * Средняя длина ответа ассистента в символах; `null`, если ответов не было.
+   */
+  avgAssistantReplyLength: number | null;
+  rateLimitHits: number;
+}
+
+/**
+ * Воронка пользователей, пришедших за период: сколько из них написали первое
+ * и пятое сообщение (за всё время, а не только в пределах периода).
+ */
+export interface DialogStatsFunnelRow {
+  utmSource: string | null;
+  started: number;
+  firstMessage: number;
+  fifthMessage: number;
+}
+
+export interface DialogStats {
+  /**
+   * Первый и последний день периода включительно, `YYYY-MM-DD`.
+   */
+  from: string;
+  to: string;
+  totals: {
+    newUsers: number;
+    activeUsers: number;
+    averageDau: number;
+    messages: DialogStatsMessageCounts;
+    avgAssistantReplyLength: number | null;
+    rateLimitHits: number;
+  };
+  days: DialogStatsDay[];
+  funnel: DialogStatsFunnelRow[];
+}
+
+export interface DialogStatsStore {
+  collect(period: DialogStatsPeriod): Promise<DialogStats>;
+}
+
+export interface CreateDialogStatsStoreOptions {
+  db: D1Database;
+  logger?: Logger;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Больше года за раз не считаем: запросы идут по всей таблице сообщений.
+ */
+export const MAX_DIALOG_STATS_DAYS = 366;
+
+export const DEFAULT_DIALOG_STATS_DAYS = 7;
+
+const FUNNEL_FIFTH_MESSAGE = 5;
+
+const SELECT_NEW_USERS_SQL = `
+  SELECT substr(created_at, 1, 10) AS day, COUNT(*) AS count
+  FROM users
+  WHERE created_at >= ?1 AND created_at < ?2
+  GROUP BY day
+`;
+
+const SELECT_MESSAGES_SQL = `
+  SELECT substr(timestamp, 1, 10) AS day, role, COUNT(*) AS count, SUM(LENGTH(text)) AS text_length
+  FROM messages
+  WHERE timestamp >= ?1 AND timestamp < ?2
+  GROUP BY day, role
+`;
+
+const SELECT_DAILY_ACTIVE_USERS_SQL = `
+  SELECT substr(timestamp, 1, 10) AS day, COUNT(DISTINCT user_id) AS count
+  FROM messages
+  WHERE role = 'user' AND timestamp >= ?1 AND timestamp < ?2
+  GROUP BY day
+`;
+
+const SELECT_ACTIVE_USERS_SQL = `
+  SELECT NULL AS day, COUNT(DISTINCT user_id) AS count
+  FROM messages
+  WHERE role = 'user' AND timestamp >= ?1 AND timestamp < ?2
+`;
+
+const SELECT_RATE_LIMIT_HITS_SQL = `
+  SELECT substr(hit_at, 1, 10) AS day, COUNT(*) AS count
+  FROM rate_limit_hits
+  WHERE hit_at >= ?1 AND hit_at < ?2
+  GROUP BY day
+`;
+
+const SELECT_FUNNEL_SQL = `
+  SELECT
+    u.utm_source,
+    COUNT(*) AS started,
+    SUM(CASE WHEN IFNULL(c.user_messages, 0) >= 1 THEN 1 ELSE 0 END) AS first_message,
+    SUM(CASE WHEN IFNULL(c.user_messages, 0) >= ?3 THEN 1 ELSE 0 END) AS fifth_message
+  FROM users u
+  LEFT JOIN (
+    SELECT user_id, COUNT(*) AS user_messages
+    FROM messages
+    WHERE role = 'user'
+      AND user_id IN (SELECT user_id FROM users WHERE created_at >= ?1 AND created_at < ?2)
+    GROUP BY user_id
+  ) c ON c.user_id = u.user_id
+  WHERE u.created_at >= ?1 AND u.created_at < ?2
+  GROUP BY u.utm_source
+  ORDER BY started DESC, u.utm_source
+`;
+
+interface DayCountRow {
+  day: string | null;
+  count: number;
+}
+
+interface MessagesRow extends DayCountRow {
+  role: string;
+  text_length: number | null;
+}
+
+interface FunnelRow {
+  utm_source: string | null;
+  started: number;
+  first_message: number | null;
+  fifth_message: number | null;
+}
+
+const isMissingRateLimitHitsTable = (error: unknown): boolean =>
+  error instanceof Error && /no such table:?\s+rate_limit_hits/i.test(error.message);
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+const averageLength = (totalLength: number, count: number): number | null =>
+  count > 0 ? Math.round(totalLength / count) : null;
+
+const emptyMessageCounts = (): DialogStatsMessageCounts => ({ user: 0, assistant: 0, system: 0 });
+
+const isMessageRole = (role: string): role is keyof DialogStatsMessageCounts =>
+  role === 'user' || role === 'assistant' || role === 'system';
+
+const parseDayArgument = (value: string, kind: 'from' | 'to'): Date => {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(Number.NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${kind} must be a valid date in YYYY-MM-DD format`);
+  }
+
+  return date;
+};
+
+/**
+ * Период по дням `YYYY-MM-DD` включительно. Без `from` — последние 7 дней,
+ * заканчивая `to` или сегодняшним днём.
+ */
+export const parseDialogStatsPeriod = (
+  fromRaw: string | null | undefined,
+  toRaw: string | null | undefined,
+  now: Date,
+): DialogStatsPeriod => {
+  const lastDay = toRaw?.trim() ? parseDayArgument(toRaw.trim(), 'to') : new Date(`${toDay(now)}T00:00:00Z`);
+  const from = fromRaw?.trim()
+    ? parseDayArgument(fromRaw.trim(), 'from')
+    : new Date(lastDay.getTime() - (DEFAULT_DIALOG_STATS_DAYS - 1) * DAY_MS);
+
+  if (from.getTime() > lastDay.getTime()) {
+    throw new Error('from must be earlier than or equal to to');
+  }
+
+  const to = new Date(lastDay.getTime() + DAY_MS);
+  if ((to.getTime() - from.getTime()) / DAY_MS > MAX_DIALOG_STATS_DAYS) {
+    throw new Error(`period must not exceed ${MAX_DIALOG_STATS_DAYS} days`);
+  }
+
+  return { from, to };
+};
+
+export const createDialogStatsStore = (options: CreateDialogStatsStoreOptions): DialogStatsStore => {
+  const select = async <T>(sql: string, period: DialogStatsPeriod, ...extra: unknown[]): Promise<T[]> => {
+    const { results } = await options.db
+      .prepare(sql)
+      .bind(period.from.toISOString(), period.to.toISOString(), ...extra)
+      .all<T>();
+
+    return results ?? [];
+  };
+
+  // Журнал отказов появился позже остальных таблиц: без миграции считаем нули.
+  const selectRateLimitHits = async (period: DialogStatsPeriod): Promise<DayCountRow[]> => {
+    try {
+      return await select<DayCountRow>(SELECT_RATE_LIMIT_HITS_SQL, period);
+    } catch (error) {
+      if (!isMissingRateLimitHitsTable(error)) {
+        throw error;
+      }
+
+      options.logger?.warn?.('[dialog-stats] rate_limit_hits table missing, reporting zero hits');
+      return [];
+    }
+  };
+
+  return {
+    async collect(period) {
+      const [newUsers, messages, dailyActive, [active], rateLimitHits, funnel] = await Promise.all([
+        select<DayCountRow>(SELECT_NEW_USERS_SQL, period),
+        select<MessagesRow>(SELECT_MESSAGES_SQL, period),
+        select<DayCountRow>(SELECT_DAILY_ACTIVE_USERS_SQL, period),
+        select<DayCountRow>(SELECT_ACTIVE_USERS_SQL, period),
+        selectRateLimitHits(period),
+        select<FunnelRow>(SELECT_FUNNEL_SQL, period, FUNNEL_FIFTH_MESSAGE),
+      ]);
+
+      const days = new Map<string, DialogStatsDay & { assistantTextLength: number }>();
+      for (let time = period.from.getTime(); time < period.to.getTime(); time += DAY_MS) {
+        const date = toDay(new Date(time));
+        days.set(date, {
+          date,
+          newUsers: 0,
+          activeUsers: 0,
+          messages: emptyMessageCounts(),
+          avgAssistantReplyLength: null,
+          rateLimitHits: 0,
+          assistantTextLength: 0,
+        });
+      }
+
+      for (const row of newUsers) {
+        const day = row.day ? days.get(row.day) : undefined;
+        if (day) {
+          day.newUsers = Number(row.count);
+        }
+      }
+
+      for (const row of dailyActive) {
+        const day = row.day ? days.get(row.day) : undefined;
+        if (day) {
+          day.activeUsers = Number(row.count);
+        }
+      }
+
+      for (const row of rateLimitHits) {
+        const day = row.day ? days.get(row.day) : undefined;
+        if (day) {
+          day.rateLimitHits = Number(row.count);
+        }
+      }
+
+      for (const row of messages) {
+        const day = row.day ? days.get(row.day) : undefined;
+        if (!day || !isMessageRole(row.role)) {
+          continue;
+        }
+
+        day.messages[row.role] = Number(row.count);
+        if (row.role === 'assistant') {
+          day.assistantTextLength = Number(row.text_length ?? 0);
+        }
+      }
+
+      const totals = {
+        newUsers: 0,
+        activeUsers: Number(active?.count ?? 0),
+        averageDau: 0,
+        messages: emptyMessageCounts(),
+        avgAssistantReplyLength: null as number | null,
+        rateLimitHits: 0,
+      };
+      let assistantTextLength = 0;
+      let dauSum = 0;
+
+      const dayList = Array.from(days.values()).map(({ assistantTextLength: dayTextLength, ...day }) => {
+        totals.newUsers += day.newUsers;
+        totals.rateLimitHits += day.rateLimitHits;
+        totals.messages.user += day.messages.user;
+        totals.messages.assistant += day.messages.assistant;
+        totals.messages.system += day.messages.system;
+        assistantTextLength += dayTextLength;
+        dauSum += day.activeUsers;
+
+        return { ...day, avgAssistantReplyLength: averageLength(dayTextLength, day.messages.assistant) };
+      });
+
+      totals.avgAssistantReplyLength = averageLength(assistantTextLength, totals.messages.assistant);
+      totals.averageDau = dayList.length > 0 ? Math.round((dauSum / dayList.length) * 10) / 10 : 0;
+
+      return {
+        from: toDay(period.from),
+        to: toDay(new Date(period.to.getTime() - DAY_MS)),
+        totals,
+        days: dayList,
+        funnel: funnel.map((row) => ({
+          utmSource: row.utm_source,
+          started: Number(row.started),
+          firstMessage: Number(row.first_message ?? 0),
+          fifthMessage: Number(row.fifth_message ?? 0),
+        })),
+      };
+    },
+  };
+};
+
+export type DialogStatsCsvTable = 'daily' | 'funnel';
+
+const DAILY_CSV_HEADER = [
+  'date',
+  'new_users',
+  'active_users',
+  'user_messages',
+  'assistant_messages',
+  'system_messages',
+  'avg_assistant_reply_length',
+  'rate_limit_hits',
+];
+
+const FUNNEL_CSV_HEADER = ['utm_source', 'started', 'first_message', 'fifth_message'];
+
+/**
+ * CSV с BOM для Excel: по строке на день (`daily`) или на UTM-источник (`funnel`).
+ */
+export const formatDialogStatsCsv = (stats: DialogStats, table: DialogStatsCsvTable = 'daily'): string => {
+  const lines = table === 'funnel'
+    ? [
+        FUNNEL_CSV_HEADER,
+        ...stats.funnel.map((row) => [row.utmSource, row.started, row.firstMessage, row.fifthMessage]),
+      ]
+    : [
+        DAILY_CSV_HEADER,
+        ...stats.days.map((day) => [
+          day.date,
+          day.newUsers,
+          day.activeUsers,
+          day.messages.user,
+          day.messages.assistant,
+          day.messages.system,
+          day.avgAssistantReplyLength,
+          day.rateLimitHits,
+        ]),
+      ];
+
+  return `\uFEFF${lines.map((line) => line.map(formatCsvValue).join(',')).join('\r\n')}\r\n`;
+};
+
+const MAX_SUMMARY_FUNNEL_ROWS = 10;
+
+const formatPercent = (part: number, total: number): string =>
+  total > 0 ? `${Math.round((part / total) * 100)}%` : '—';
+
+/**
+ * Короткая сводка для Telegram.
+ */
+export const formatDialogStatsSummary = (stats: DialogStats): string => {
+  const { totals } = stats;
+  const lines = [
+    `📊 Статистика за ${stats.from} — ${stats.to} (UTC)`,
+    `Новых пользователей: ${totals.newUsers}`,
+    `Активных: ${totals.activeUsers}, средний DAU: ${totals.averageDau}`,
+    `Сообщений: от пользователей — ${totals.messages.user}, ответов ИИ — ${totals.messages.assistant}, системных — ${totals.messages.system}`,
+    `Средняя длина ответа ИИ: ${totals.avgAssistantReplyLength === null ? '—' : `${totals.avgAssistantReplyLength} симв.`}`,
+    `Упёрлись в лимит: ${totals.rateLimitHits}`,
+  ];
+
+  if (stats.funnel.length === 0) {
+    lines.push('Воронка: новых пользователей нет.');
+    return lines.join('\n');
+  }
+
+  lines.push(`Воронка /start → 1-е → ${FUNNEL_FIFTH_MESSAGE}-е сообщение:`);
+  for (const row of stats.funnel.slice(0, MAX_SUMMARY_FUNNEL_ROWS)) {
+    lines.push(
+      `- ${row.utmSource ?? 'без UTM'}: ${row.started} → ${row.firstMessage} (${formatPercent(row.firstMessage, row.started)}) → ${row.fifthMessage} (${formatPercent(row.fifthMessage, row.started)})`,
+    );
+  }
+
+  if (stats.funnel.length > MAX_SUMMARY_FUNNEL_ROWS) {
+    lines.push(`…и ещё источников: ${stats.funnel.length - MAX_SUMMARY_FUNNEL_ROWS}`);
+  }
+
+  return lines.join('\n');
+};
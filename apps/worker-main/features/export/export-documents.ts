@@ -0,0 +1,87 @@
+import type { ExportFormat } from './admin-export-route';
+
+export const EXPORT_DOCUMENTS: Readonly<Record<ExportFormat, { type: string; filename: string }>> = {
+  csv: { type: 'text/csv; charset=utf-8', filename: 'dialog-export.csv' },
+  jsonl: { type: 'application/x-ndjson; charset=utf-8', filename: 'dialog-export.jsonl' },
+  conversations: { type: 'application/x-ndjson; charset=utf-8', filename: 'dialog-conversations.jsonl' },
+};
+
+export interface ExportDocumentOptions {
+  anonymized?: boolean;
+  /**
+   * Номер части фоновой выгрузки, начиная с 1.
+   */
+  part?: number;
+  gzip?: boolean;
+}
+
+/**
+ * Имя и тип файла для Telegram: `dialog-export-anonymized.part-002.csv.gz`.
+ */
+export const resolveExportDocument = (
+  format: ExportFormat,
+  options: ExportDocumentOptions = {},
+): { type: string; filename: string } => {
+  const document = EXPORT_DOCUMENTS[format];
+  const extensionIndex = document.filename.indexOf('.');
+  let name = document.filename.slice(0, extensionIndex);
+  if (options.anonymized) {
+    name += '-anonymized';
+  }
+  if (options.part !== undefined) {
+    name += `.part-${String(options.part).padStart(3, '0')}`;
+  }
+
+  const filename = `${name}${document.filename.slice(extensionIndex)}`;
+  return options.gzip
+    ? { type: 'application/gzip', filename: `${filename}.gz` }
+    : { type: document.type, filename };
+};
+
+export const countJsonLines = (text: string): number => (text.match(/\n/g) ?? []).length;
+
+export const countCsvRows = (csvText: string): number => {
+  const newlineMatches = csvText.match(/\n/g) ?? [];
+  return Math.max(newlineMatches.length - 1, 0);
+};
+
+export const stripCsvHeaderBytes = (data: Uint8Array): Uint8Array => {
+  const lfIndex = data.indexOf(0x0a);
+  if (lfIndex === -1) {
+    return new Uint8Array(0);
+  }
+
+  return data.subarray(lfIndex + 1);
+};
+
+/**
+ * Строка заголовка CSV вместе с BOM и переводом строки.
+ */
+export const extractCsvHeaderBytes = (data: Uint8Array): Uint8Array => {
+  const lfIndex = data.indexOf(0x0a);
+  return lfIndex === -1 ? data : data.subarray(0, lfIndex + 1);
+};
+
+export const mergeCsvChunks = (chunks: Uint8Array[], totalLength: number): Uint8Array => {
+  if (chunks.length === 0) {
+    return new Uint8Array(0);
+  }
+
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+
+  const merged = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return merged;
+};
+
+export const gzipBytes = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
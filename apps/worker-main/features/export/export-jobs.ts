@@ -0,0 +1,525 @@
+import type { MessagingPort } from '../../ports';
+import type { CronJob } from '../cron';
+import type { AdminExportRequest, ExportFilters, ExportFormat } from './admin-export-route';
+import {
+  countCsvRows,
+  countJsonLines,
+  extractCsvHeaderBytes,
+  gzipBytes,
+  mergeCsvChunks,
+  resolveExportDocument,
+  stripCsvHeaderBytes,
+} from './export-documents';
+
+interface Logger {
+  info?(message: string, details?: Record<string, unknown>): void;
+  warn?(message: string, details?: Record<string, unknown>): void;
+  error?(message: string, details?: Record<string, unknown>): void;
+}
+
+export type ExportJobsKvNamespace = Pick<KVNamespace, 'get' | 'put' | 'list'>;
+
+export type ExportJobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+/**
+ * Состояние фоновой выгрузки в KV. Курсор сдвигается только после того, как
+ * часть доставлена в Telegram, поэтому прерванный запуск повторяет часть целиком.
+ */
+export interface ExportJobCheckpoint {
+  jobId: string;
+  status: ExportJobStatus;
+  requestedBy: string;
+  chatId: string;
+  threadId?: string;
+  from?: string;
+  to?: string;
+  format: ExportFormat;
+  filters?: ExportFilters;
+  anonymize?: boolean;
+  gzip: boolean;
+  /**
+   * Период и фильтры для подписи к каждой части.
+   */
+  caption?: string;
+  cursor?: string;
+  partsSent: number;
+  rowCount: number;
+  bytesSent: number;
+  /**
+   * Неудачные попытки подряд; после `maxFailures` выгрузка встаёт на паузу.
+   */
+  failures: number;
+  reason?: string;
+  anonymizationPolicy?: string;
+  /**
+   * Пока не истёк, другой запуск (webhook или cron) задачу не берёт.
+   */
+  leaseUntil?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StartExportJobInput {
+  requestedBy: string;
+  chatId: string;
+  threadId?: string;
+  from?: Date;
+  to?: Date;
+  format?: ExportFormat;
+  filters?: ExportFilters;
+  anonymize?: boolean;
+  gzip?: boolean;
+  caption?: string;
+}
+
+export interface ExportJobRunner {
+  start(input: StartExportJobInput): Promise<ExportJobCheckpoint>;
+  /**
+   * Отправляет следующие части (не больше `partsPerRun`) и сохраняет чекпоинт.
+   */
+  run(jobId: string): Promise<ExportJobCheckpoint | undefined>;
+  pause(jobId: string): Promise<ExportJobCheckpoint | undefined>;
+  resume(jobId: string): Promise<ExportJobCheckpoint | undefined>;
+  cancel(jobId: string): Promise<ExportJobCheckpoint | undefined>;
+  get(jobId: string): Promise<ExportJobCheckpoint | undefined>;
+  list(): Promise<ExportJobCheckpoint[]>;
+}
+
+export interface CreateExportJobRunnerOptions {
+  kv: ExportJobsKvNamespace;
+  botToken: string;
+  handleExport: (request: AdminExportRequest) => Promise<Response>;
+  messaging: Pick<MessagingPort, 'sendText'>;
+  exportLogKv?: Pick<KVNamespace, 'put'>;
+  /**
+   * Размер части до сжатия. Часть может превысить его на одну страницу выгрузки.
+   */
+  partMaxBytes?: number;
+  partsPerRun?: number;
+  maxFailures?: number;
+  leaseSeconds?: number;
+  ttlSeconds?: number;
+  now?: () => Date;
+  createJobId?: () => string;
+  logger?: Logger;
+}
+
+const EXPORT_JOB_KEY_PREFIX = 'export:job:';
+const EXPORT_JOB_KV_VERSION = 1;
+const EXPORT_JOB_PAGE_LIMIT = 1000;
+const EXPORT_LOG_TTL_SECONDS = 60 * 60 * 24 * 30;
+const TELEGRAM_CAPTION_LIMIT = 1024;
+
+export const DEFAULT_EXPORT_PART_MAX_BYTES = 8 * 1024 * 1024;
+// Telegram принимает документы до 50 МБ; оставляем запас на последнюю страницу.
+export const MAX_EXPORT_PART_BYTES = 40 * 1024 * 1024;
+const DEFAULT_PARTS_PER_RUN = 2;
+const DEFAULT_MAX_FAILURES = 3;
+const DEFAULT_LEASE_SECONDS = 5 * 60;
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const textDecoder = new TextDecoder('utf-8');
+
+const buildJobKey = (jobId: string): string => `${EXPORT_JOB_KEY_PREFIX}${jobId}`;
+
+const toErrorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+
+const EXPORT_JOB_STATUS_LABELS: Readonly<Record<ExportJobStatus, string>> = {
+  running: 'выполняется',
+  paused: 'на паузе',
+  completed: 'завершена',
+  cancelled: 'отменена',
+};
+
+/**
+ * Строка для `/export_status`: статус, сколько частей и строк уже отправлено.
+ */
+export const formatExportJobStatus = (checkpoint: ExportJobCheckpoint): string => {
+  const parts = [
+    `${checkpoint.jobId}: ${EXPORT_JOB_STATUS_LABELS[checkpoint.status]}`,
+    `частей ${checkpoint.partsSent}`,
+    `строк ${checkpoint.rowCount}`,
+    formatMegabytes(checkpoint.bytesSent),
+  ];
+  if (checkpoint.reason) {
+    parts.push(`причина: ${checkpoint.reason}`);
+  }
+
+  return parts.join(', ');
+};
+
+const parseCheckpoint = (raw: string | null): ExportJobCheckpoint | undefined => {
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as { version?: number; checkpoint?: ExportJobCheckpoint };
+    if (parsed.version !== EXPORT_JOB_KV_VERSION || typeof parsed.checkpoint?.jobId !== 'string') {
+      return undefined;
+    }
+
+    return parsed.checkpoint.status in EXPORT_JOB_STATUS_LABELS ? parsed.checkpoint : undefined;
+  } catch (error) {
+    void error;
+    return undefined;
+  }
+};
+
+type PartOutcome =
+  | { ok: true; sent: boolean; rows: number; bytes: number; nextCursor?: string; anonymizationPolicy?: string }
+  | { ok: false; reason: string };
+
+/**
+ * Фоновая выгрузка `/export`: страницы обработчика склеиваются в части до
+ * `partMaxBytes`, каждая часть уходит отдельным документом. Первый запуск идёт
+ * через `waitUntil` webhook, дальше задачу продолжает cron.
+ */
+export const createExportJobRunner = (options: CreateExportJobRunnerOptions): ExportJobRunner => {
+  const now = options.now ?? (() => new Date());
+  const partMaxBytes = Math.min(options.partMaxBytes ?? DEFAULT_EXPORT_PART_MAX_BYTES, MAX_EXPORT_PART_BYTES);
+  const partsPerRun = Math.max(1, options.partsPerRun ?? DEFAULT_PARTS_PER_RUN);
+  const maxFailures = Math.max(1, options.maxFailures ?? DEFAULT_MAX_FAILURES);
+  const leaseMs = (options.leaseSeconds ?? DEFAULT_LEASE_SECONDS) * 1000;
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  const createJobId = options.createJobId ?? (() => `exp-${crypto.randomUUID().slice(0, 8)}`);
+  const apiUrl = `https://api.telegram.org/bot${options.botToken}/sendDocument`;
+
+  const read = async (jobId: string): Promise<ExportJobCheckpoint | undefined> =>
+    parseCheckpoint(await options.kv.get(buildJobKey(jobId), 'text'));
+
+  const write = async (checkpoint: ExportJobCheckpoint): Promise<ExportJobCheckpoint> => {
+    const updated = { ...checkpoint, updatedAt: now().toISOString() };
+    await options.kv.put(
+      buildJobKey(checkpoint.jobId),
+      JSON.stringify({ version: EXPORT_JOB_KV_VERSION, checkpoint: updated }),
+      { expirationTtl: ttlSeconds },
+    );
+    return updated;
+  };
+
+  const notify = async (checkpoint: ExportJobCheckpoint, text: string) => {
+    try {
+      await options.messaging.sendText({ chatId: checkpoint.chatId, threadId: checkpoint.threadId, text });
+    } catch (error) {
+      options.logger?.warn?.('export job notice failed', {
+        jobId: checkpoint.jobId,
+        error: toErrorMessage(error),
+      });
+    }
+  };
+
+  const writeExportLog = async (checkpoint: ExportJobCheckpoint) => {
+    if (!options.exportLogKv) {
+      return;
+    }
+
+    const payload: Record<string, unknown> = {
+      userId: checkpoint.requestedBy,
+      chatId: checkpoint.chatId,
+      from: checkpoint.from ?? null,
+      to: checkpoint.to ?? null,
+      rowCount: checkpoint.rowCount,
+      jobId: checkpoint.jobId,
+      parts: checkpoint.partsSent,
+    };
+    if (checkpoint.format !== 'csv') {
+      payload.format = checkpoint.format;
+    }
+    if (checkpoint.filters) {
+      payload.filters = checkpoint.filters;
+    }
+    if (checkpoint.anonymizationPolicy) {
+      payload.anonymized = true;
+      payload.anonymizationPolicy = checkpoint.anonymizationPolicy;
+    }
+
+    try {
+      await options.exportLogKv.put(
+        `log:${now().toISOString()}:${checkpoint.requestedBy}`,
+        JSON.stringify(payload),
+        { expirationTtl: EXPORT_LOG_TTL_SECONDS },
+      );
+    } catch (error) {
+      options.logger?.warn?.('failed to write admin export log', {
+        jobId: checkpoint.jobId,
+        error: toErrorMessage(error),
+      });
+    }
+  };
+
+  const sendPart = async (
+    checkpoint: ExportJobCheckpoint,
+    data: Uint8Array,
+    rows: number,
+    anonymizationPolicy: string | undefined,
+  ): Promise<{ ok: true; bytes: number } | { ok: false; reason: string }> => {
+    const payload = checkpoint.gzip ? await gzipBytes(data) : data;
+    const part = checkpoint.partsSent + 1;
+    const document = resolveExportDocument(checkpoint.format, {
+      anonymized: Boolean(anonymizationPolicy),
+      part,
+      gzip: checkpoint.gzip,
+    });
+    const caption = [
+      `Выгрузка ${checkpoint.jobId} · часть ${part}`,
+      `Строк в части: ${rows}, всего: ${checkpoint.rowCount + rows}`,
+      checkpoint.caption,
+      anonymizationPolicy ? `Псевдонимизация: ${anonymizationPolicy}` : undefined,
+    ].filter(Boolean).join('\n');
+
+    const formData = new FormData();
+    formData.set('chat_id', checkpoint.chatId);
+    if (checkpoint.threadId) {
+      formData.set('message_thread_id', checkpoint.threadId);
+    }
+    formData.set('document', new Blob([payload], { type: document.type }), document.filename);
+    formData.set('caption', caption.slice(0, TELEGRAM_CAPTION_LIMIT));
+
+    const response = await fetch(apiUrl, { method: 'POST', body: formData });
+    if (!response.ok) {
+      return { ok: false, reason: `sendDocument responded ${response.status}` };
+    }
+
+    return { ok: true, bytes: payload.length };
+  };
+
+  const exportNextPart = async (checkpoint: ExportJobCheckpoint): Promise<PartOutcome> => {
+    const isCsv = checkpoint.format === 'csv';
+    const chunks: Uint8Array[] = [];
+    let header: Uint8Array | undefined;
+    let size = 0;
+    let rows = 0;
+    let cursor = checkpoint.cursor;
+    let anonymizationPolicy: string | undefined;
+
+    try {
+      do {
+        const response = await options.handleExport({
+          from: checkpoint.from ? new Date(checkpoint.from) : undefined,
+          to: checkpoint.to ? new Date(checkpoint.to) : undefined,
+          cursor,
+          limit: EXPORT_JOB_PAGE_LIMIT,
+          ...(isCsv ? {} : { format: checkpoint.format }),
+          ...(checkpoint.filters ? { filters: checkpoint.filters } : {}),
+          ...(checkpoint.anonymize ? { anonymize: true } : {}),
+          signal: new AbortController().signal,
+        });
+
+        if (!response.ok) {
+          return { ok: false, reason: `export handler responded ${response.status}` };
+        }
+
+        if (checkpoint.anonymize) {
+          anonymizationPolicy = response.headers.get('x-export-anonymization') ?? undefined;
+          if (!anonymizationPolicy) {
+            return { ok: false, reason: 'export was not anonymized' };
+          }
+        }
+
+        const buffer = new Uint8Array(await response.arrayBuffer());
+        const pageText = textDecoder.decode(buffer);
+        rows += isCsv ? countCsvRows(pageText) : countJsonLines(pageText);
+        if (isCsv) {
+          header ??= extractCsvHeaderBytes(buffer);
+        }
+
+        const chunk = isCsv ? stripCsvHeaderBytes(buffer) : buffer;
+        chunks.push(chunk);
+        size += chunk.length;
+        cursor = response.headers.get('x-next-cursor') ?? undefined;
+      } while (cursor && size < partMaxBytes);
+
+      if (rows === 0) {
+        return { ok: true, sent: false, rows: 0, bytes: 0, nextCursor: cursor, anonymizationPolicy };
+      }
+
+      const data = header
+        ? mergeCsvChunks([header, ...chunks], header.length + size)
+        : mergeCsvChunks(chunks, size);
+      const sent = await sendPart(checkpoint, data, rows, anonymizationPolicy);
+      if (!sent.ok) {
+        return sent;
+      }
+
+      return { ok: true, sent: true, rows, bytes: sent.bytes, nextCursor: cursor, anonymizationPolicy };
+    } catch (error) {
+      return { ok: false, reason: toErrorMessage(error) };
+    }
+  };
+
+  const finish = async (checkpoint: ExportJobCheckpoint) => {
+    if (checkpoint.status === 'completed') {
+      await notify(
+        checkpoint,
+        checkpoint.partsSent > 0
+          ? `✅ Выгрузка ${checkpoint.jobId} завершена: частей — ${checkpoint.partsSent}, строк — ${checkpoint.rowCount}.`
+          : `Выгрузка ${checkpoint.jobId} завершена: за выбранный период нет сообщений, файлы не отправлены.`,
+      );
+      await writeExportLog(checkpoint);
+    } else if (checkpoint.status === 'paused' && checkpoint.failures >= maxFailures) {
+      await notify(
+        checkpoint,
+        `⏸ Выгрузка ${checkpoint.jobId} приостановлена: ${checkpoint.reason ?? 'ошибка'}. Продолжить: /export_resume ${checkpoint.jobId}`,
+      );
+    }
+  };
+
+  const run = async (jobId: string): Promise<ExportJobCheckpoint | undefined> => {
+    const initial = await read(jobId);
+    if (!initial || initial.status !== 'running') {
+      return initial;
+    }
+
+    const nowMs = now().getTime();
+    if (initial.leaseUntil && new Date(initial.leaseUntil).getTime() > nowMs) {
+      return initial;
+    }
+
+    const leaseUntil = new Date(nowMs + leaseMs).toISOString();
+    let checkpoint = await write({ ...initial, leaseUntil });
+
+    for (let index = 0; index < partsPerRun && checkpoint.status === 'running'; index += 1) {
+      const outcome = await exportNextPart(checkpoint);
+      // Пауза или отмена могли прийти, пока собиралась часть.
+      const latestStatus = (await read(jobId))?.status ?? checkpoint.status;
+
+      if (!outcome.ok) {
+        const failures = checkpoint.failures + 1;
+        options.logger?.warn?.('export job part failed', { jobId, failures, reason: outcome.reason });
+        checkpoint = {
+          ...checkpoint,
+          status: failures >= maxFailures && latestStatus === 'running' ? 'paused' : latestStatus,
+          failures,
+          reason: outcome.reason,
+        };
+        break;
+      }
+
+      checkpoint = await write({
+        ...checkpoint,
+        status: outcome.nextCursor ? latestStatus : 'completed',
+        cursor: outcome.nextCursor,
+        partsSent: checkpoint.partsSent + (outcome.sent ? 1 : 0),
+        rowCount: checkpoint.rowCount + outcome.rows,
+        bytesSent: checkpoint.bytesSent + outcome.bytes,
+        failures: 0,
+        reason: undefined,
+        ...(outcome.anonymizationPolicy ? { anonymizationPolicy: outcome.anonymizationPolicy } : {}),
+      });
+    }
+
+    checkpoint = await write({ ...checkpoint, leaseUntil: undefined });
+    options.logger?.info?.('export job advanced', {
+      jobId,
+      status: checkpoint.status,
+      partsSent: checkpoint.partsSent,
+      rowCount: checkpoint.rowCount,
+    });
+    await finish(checkpoint);
+
+    return checkpoint;
+  };
+
+  const transition = async (
+    jobId: string,
+    from: ReadonlyArray<ExportJobStatus>,
+    update: Partial<ExportJobCheckpoint>,
+  ): Promise<ExportJobCheckpoint | undefined> => {
+    const checkpoint = await read(jobId);
+    if (!checkpoint || !from.includes(checkpoint.status)) {
+      return checkpoint;
+    }
+
+    return write({ ...checkpoint, ...update });
+  };
+
+  return {
+    async start(input) {
+      const timestamp = now().toISOString();
+      return write({
+        jobId: createJobId(),
+        status: 'running',
+        requestedBy: input.requestedBy,
+        chatId: input.chatId,
+        ...(input.threadId ? { threadId: input.threadId } : {}),
+        ...(input.from ? { from: input.from.toISOString() } : {}),
+        ...(input.to ? { to: input.to.toISOString() } : {}),
+        format: input.format ?? 'csv',
+        ...(input.filters ? { filters: input.filters } : {}),
+        ...(input.anonymize ? { anonymize: true } : {}),
+        gzip: Boolean(input.gzip),
+        ...(input.caption ? { caption: input.caption } : {}),
+        partsSent: 0,
+        rowCount: 0,
+        bytesSent: 0,
+        failures: 0,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+    },
+    run,
+    pause: (jobId) => transition(jobId, ['running'], { status: 'paused', reason: 'остановлена администратором' }),
+    resume: (jobId) => transition(jobId, ['paused'], { status: 'running', failures: 0, reason: undefined }),
+    cancel: (jobId) => transition(jobId, ['running', 'paused'], { status: 'cancelled' }),
+    get: read,
+    async list() {
+      const checkpoints: ExportJobCheckpoint[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const result = await options.kv.list({ prefix: EXPORT_JOB_KEY_PREFIX, cursor });
+        for (const key of result.keys) {
+          const checkpoint = await read(key.name.slice(EXPORT_JOB_KEY_PREFIX.length));
+          if (checkpoint) {
+            checkpoints.push(checkpoint);
+          }
+        }
+
+        cursor = result.list_complete ? undefined : result.cursor;
+      } while (cursor);
+
+      return checkpoints.sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+    },
+  };
+};
+
+export interface CreateExportJobsCronJobOptions {
+  runner: Pick<ExportJobRunner, 'list' | 'run'>;
+  schedules?: ReadonlyArray<string>;
+  logger?: Logger;
+}
+
+/**
+ * Cron-задача, которая продолжает выгрузки со статусом `running`: после первой
+ * порции в webhook остальные части отправляются отсюда.
+ */
+export const createExportJobsCronJob = (options: CreateExportJobsCronJobOptions): CronJob => ({
+  name: 'export-jobs',
+  description: 'Продолжает фоновые выгрузки /export по чекпоинтам в KV',
+  ...(options.schedules ? { schedules: options.schedules } : {}),
+  async run() {
+    const running = (await options.runner.list()).filter((checkpoint) => checkpoint.status === 'running');
+    let completed = 0;
+    let failed = 0;
+
+    for (const checkpoint of running) {
+      try {
+        const result = await options.runner.run(checkpoint.jobId);
+        if (result?.status === 'completed') {
+          completed += 1;
+        }
+      } catch (error) {
+        failed += 1;
+        options.logger?.error?.('export job run failed', {
+          jobId: checkpoint.jobId,
+          error: toErrorMessage(error),
+        });
+      }
+    }
+
+    return { running: running.length, completed, failed };
+  },
+});
@@ -0,0 +1,93 @@
+/**
+ * Версия правил псевдонимизации. Записывается в журнал выгрузок и заголовок
+ * `x-export-anonymization`; меняется, когда меняется состав скрываемых данных.
+ */
+export const EXPORT_ANONYMIZATION_POLICY_VERSION = 'pseudonymize-v1';
+
+/**
+ * Убирает персональные данные из текста сообщения.
+ */
+export type ExportRedactor = (text: string) => string;
+
+export interface ExportAnonymizationOptions {
+  /**
+   * Секрет HMAC: пока он не меняется, псевдонимы совпадают между выгрузками.
+   */
+  salt: string;
+  redactor?: ExportRedactor;
+  /**
+   * Собственная версия правил для своего `redactor`.
+   */
+  policyVersion?: string;
+}
+
+export interface ExportPseudonymizer {
+  readonly policyVersion: string;
+  pseudonymize(id: string): Promise<string>;
+  redact: ExportRedactor;
+}
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{6,}\d/gu;
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_@])@[A-Za-z0-9_]{4,32}\b/gu;
+
+// Меньше 10 цифр — скорее дата, сумма или номер заказа, чем телефон.
+const MIN_PHONE_DIGITS = 10;
+
+/**
+ * Редактор по умолчанию: телефоны, e-mail и @упоминания заменяются метками.
+ */
+export const redactContactDetails: ExportRedactor = (text) =>
+  text
+    .replace(EMAIL_PATTERN, '[email]')
+    .replace(PHONE_PATTERN, (match) => (
+      (match.match(/\d/g)?.length ?? 0) >= MIN_PHONE_DIGITS ? '[phone]' : match
+    ))
+    .replace(MENTION_PATTERN, '$1[mention]');
+
+const PSEUDONYM_BYTES = 16;
+
+const textEncoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Заменяет идентификаторы на HMAC-SHA256 от соли. Одинаковые `user_id` и
+ * `chat_id` (личные чаты) получают одинаковый псевдоним, как и в исходных данных.
+ */
+export const createExportPseudonymizer = (options: ExportAnonymizationOptions): ExportPseudonymizer => {
+  let keyPromise: ReturnType<typeof crypto.subtle.importKey> | undefined;
+  const cache = new Map<string, Promise<string>>();
+
+  const getKey = () => {
+    keyPromise ??= crypto.subtle.importKey(
+      'raw',
+      textEncoder.encode(options.salt),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+
+    return keyPromise;
+  };
+
+  const sign = async (id: string): Promise<string> => {
+    const digest = await crypto.subtle.sign('HMAC', await getKey(), textEncoder.encode(id));
+    return toHex(new Uint8Array(digest).slice(0, PSEUDONYM_BYTES));
+  };
+
+  return {
+    policyVersion: options.policyVersion ?? EXPORT_ANONYMIZATION_POLICY_VERSION,
+    pseudonymize(id) {
+      let pseudonym = cache.get(id);
+      if (!pseudonym) {
+        pseudonym = sign(id);
+        cache.set(id, pseudonym);
+      }
+
+      return pseudonym;
+    },
+    redact: options.redactor ?? redactContactDetails,
+  };
+};
@@ -1,16 +1,76 @@
-export { createAdminExportRoute } from './admin-export-route';
+export {
+  createAdminExportRoute,
+  parseExportFormat,
+  parseExportFilters,
+  parseExportAnonymize,
+  parseExportFlag,
+  EXPORT_FORMATS,
+  EXPORT_FILTER_KEYS,
+} from './admin-export-route';
 export type {
   AdminExportRequest,
   CreateAdminExportRouteOptions,
+  ExportFilters,
+  ExportFormat,
+  ExportRole,
 } from './admin-export-route';
-export { createCsvExportHandler } from './csv-export';
+export { createCsvExportHandler, formatCsvValue } from './csv-export';
 export type { CsvExportHandlerOptions } from './csv-export';
+export {
+  createExportPseudonymizer,
+  redactContactDetails,
+  EXPORT_ANONYMIZATION_POLICY_VERSION,
+} from './export-pseudonymizer';
+export type {
+  ExportAnonymizationOptions,
+  ExportPseudonymizer,
+  ExportRedactor,
+} from './export-pseudonymizer';
 export {
   createTelegramExportCommandHandler,
+  resolveAdminMenuCommand,
+  ADMIN_MENU_CALLBACK_NAMESPACE,
   type AdminExportRateLimitKvNamespace,
   type AdminExportLogKvNamespace,
 } from './telegram-export-command';
 export type { CreateTelegramExportCommandHandlerOptions } from './telegram-export-command';
+export {
+  createExportJobRunner,
+  createExportJobsCronJob,
+  formatExportJobStatus,
+  DEFAULT_EXPORT_PART_MAX_BYTES,
+  MAX_EXPORT_PART_BYTES,
+} from './export-jobs';
+export type {
+  CreateExportJobRunnerOptions,
+  CreateExportJobsCronJobOptions,
+  ExportJobCheckpoint,
+  ExportJobRunner,
+  ExportJobStatus,
+  ExportJobsKvNamespace,
+  StartExportJobInput,
+} from './export-jobs';
+export {
+  createDialogStatsStore,
+  formatDialogStatsCsv,
+  formatDialogStatsSummary,
+  parseDialogStatsPeriod,
+  DEFAULT_DIALOG_STATS_DAYS,
+  MAX_DIALOG_STATS_DAYS,
+} from './dialog-stats';
+export type {
+  CreateDialogStatsStoreOptions,
+  DialogStats,
+  DialogStatsCsvTable,
+  DialogStatsDay,
+  DialogStatsFunnelRow,
+  DialogStatsPeriod,
+  DialogStatsStore,
+} from './dialog-stats';
+export { createAdminStatsRoute } from './admin-stats-route';
+export type { CreateAdminStatsRouteOptions } from './admin-stats-route';
+export { createTelegramStatsCommandHandler } from './telegram-stats-command';
+export type { CreateTelegramStatsCommandHandlerOptions } from './telegram-stats-command';
 export { createExportRateDiagRoute } from './export-rate-diag-route';
 export type { CreateExportRateDiagRouteOptions } from './export-rate-diag-route';
 export { createExportRateTelemetry } from './export-rate-telemetry';
@@ -1,14 +1,33 @@
 import { json } from '../../shared';
-import type { TelegramAdminCommandContext } from '../../http';
+import type { CallbackDataSigner, TelegramAdminCommandContext } from '../../http';
 import { describeTelegramIdForLogs } from '../../http/telegram-ids';
-import type { MessagingPort, RateLimitPort } from '../../ports';
+import type { InlineKeyboardMarkup, MessagingPort, RateLimitPort } from '../../ports';
 import type { AdminAccess, AdminAccessKvNamespace } from '../admin-access';
 import {
   type AdminCommandErrorRecorder,
   extractTelegramErrorDetails,
   shouldInvalidateAdminAccess,
 } from '../admin-access/admin-messaging-errors';
-import type { AdminExportRequest } from './admin-export-route';
+import {
+  type AdminExportRequest,
+  type ExportFilterKey,
+  type ExportFilters,
+  type ExportFormat,
+  hasExportFilters,
+  parseExportAnonymize,
+  parseExportFilters,
+  parseExportFlag,
+  parseExportFormat,
+} from './admin-export-route';
+import {
+  countCsvRows,
+  countJsonLines,
+  gzipBytes,
+  mergeCsvChunks,
+  resolveExportDocument,
+  stripCsvHeaderBytes,
+} from './export-documents';
+import { type ExportJobRunner, formatExportJobStatus } from './export-jobs';
 import type { ExportRateTelemetry } from './export-rate-telemetry';
 
 interface Logger {
@@ -37,13 +56,56 @@ export interface CreateTelegramExportCommandHandlerOptions {
   now?: () => Date;
   adminErrorRecorder?: AdminCommandErrorRecorder;
   telemetry?: ExportRateTelemetry;
+  callbackData?: Pick<CallbackDataSigner, 'sign'>;
+  /**
+   * Если задано, `/export` запускает фоновую выгрузку частями вместо одного
+   * файла в памяти, и становятся доступны `/export_status`, `/export_pause`,
+   * `/export_resume` и `/export_cancel`.
+   */
+  jobs?: ExportJobRunner;
 }
 
 interface ExportArguments {
   from?: Date;
   to?: Date;
+  format?: ExportFormat;
+  filters?: ExportFilters;
+  anonymize?: boolean;
+  gzip?: boolean;
 }
 
+/**
+ * Короткие ключи фильтров в `/export`; полные имена из HTTP-роута тоже принимаются.
+ */
+const EXPORT_FILTER_OPTIONS: Readonly<Record<ExportFilterKey, string>> = {
+  userId: 'user',
+  username: 'username',
+  utmSource: 'utm',
+  role: 'role',
+  chatId: 'chat',
+  q: 'q',
+};
+
+const EXPORT_USAGE =
+  'Usage: /export [from] [to] [format=csv|jsonl|conversations] [user=] [username=] [utm=] [role=] [chat=] [q=] [anonymize=1] [gzip=1]';
+
+// `q="два слова"` — значение в кавычках может содержать пробелы.
+const EXPORT_ARGUMENT_PATTERN = /[^\s=]+="[^"]*"|\S+/gu;
+
+const resolveFilterKey = (option: string): ExportFilterKey | undefined =>
+  (Object.keys(EXPORT_FILTER_OPTIONS) as ExportFilterKey[]).find(
+    (key) => key.toLowerCase() === option || EXPORT_FILTER_OPTIONS[key] === option,
+  );
+
+/**
+ * «utm=src_ads, role=user» — для подписи к файлу.
+ */
+const describeExportFilters = (filters: ExportFilters): string =>
+  (Object.keys(EXPORT_FILTER_OPTIONS) as ExportFilterKey[])
+    .filter((key) => filters[key])
+    .map((key) => `${EXPORT_FILTER_OPTIONS[key]}=${filters[key]}`)
+    .join(', ');
+
 const parseDateArgument = (value: string, kind: 'from' | 'to'): Date => {
   const normalized = value.trim();
   if (normalized.length === 0) {
@@ -68,11 +130,46 @@ const parseExportRangeArguments = (argument: string | undefined): ExportArgument
     return {};
   }
 
-  const parts = trimmed.split(/\s+/);
+  const tokens = trimmed.match(EXPORT_ARGUMENT_PATTERN) ?? [];
+  const parts = tokens.filter((token) => !token.includes('='));
   if (parts.length > 2) {
-    throw new Error('Too many arguments. Usage: /export [from] [to]');
+    throw new Error(`Too many arguments. ${EXPORT_USAGE}`);
+  }
+
+  let format: ExportFormat | undefined;
+  let anonymize = false;
+  let gzip = false;
+  const filterValues = new Map<ExportFilterKey, string>();
+  for (const option of tokens.filter((token) => token.includes('='))) {
+    const separator = option.indexOf('=');
+    const key = option.slice(0, separator).toLowerCase();
+    const value = option.slice(separator + 1).replace(/^"([\s\S]*)"$/u, '$1');
+
+    if (key === 'format') {
+      format = parseExportFormat(value);
+      continue;
+    }
+
+    if (key === 'anonymize') {
+      anonymize = parseExportAnonymize(value);
+      continue;
+    }
+
+    if (key === 'gzip') {
+      gzip = parseExportFlag('gzip', value);
+      continue;
+    }
+
+    const filterKey = resolveFilterKey(key);
+    if (!filterKey) {
+      throw new Error(`Unknown option: ${key}. ${EXPORT_USAGE}`);
+    }
+
+    filterValues.set(filterKey, value);
   }
 
+  const filters = parseExportFilters((key) => filterValues.get(key));
+
   const from = parts[0] ? parseDateArgument(parts[0], 'from') : undefined;
   const to = parts[1] ? parseDateArgument(parts[1], 'to') : undefined;
 
@@ -80,7 +177,14 @@ const parseExportRangeArguments = (argument: string | undefined): ExportArgument
     throw new Error('`from` must be earlier than or equal to `to`');
   }
 
-  return { from, to };
+  return {
+    from,
+    to,
+    ...(format ? { format } : {}),
+    ...(hasExportFilters(filters) ? { filters } : {}),
+    ...(anonymize ? { anonymize } : {}),
+    ...(gzip ? { gzip } : {}),
+  };
 };
 
 const createLogger = (logger?: Logger) => ({
@@ -317,10 +421,38 @@ const createAdminMessagingErrorLogger = (
     });
   };
 
+const TELEGRAM_CAPTION_LIMIT = 1024;
+
+const formatCaptionDate = (date: Date | undefined): string => (date ? date.toISOString().slice(0, 10) : '…');
+
+/**
+ * Подпись к файлу повторяет условия выгрузки, чтобы её можно было узнать в чате.
+ */
+const buildExportCaption = (args: ExportArguments, anonymizationPolicy?: string): string | undefined => {
+  const lines: string[] = [];
+  if (args.from || args.to) {
+    lines.push(`Период: ${formatCaptionDate(args.from)} — ${formatCaptionDate(args.to)}`);
+  }
+
+  if (hasExportFilters(args.filters)) {
+    lines.push(`Фильтры: ${describeExportFilters(args.filters)}`);
+  }
+
+  if (anonymizationPolicy) {
+    lines.push(`Псевдонимизация: ${anonymizationPolicy}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+};
+
 const buildTelegramFormData = (
   chatId: string,
   threadId: string | undefined,
   payload: Uint8Array,
+  format: ExportFormat = 'csv',
+  caption?: string,
+  anonymized = false,
+  gzip = false,
 ) => {
   const formData = new FormData();
   formData.set('chat_id', chatId);
@@ -328,12 +460,25 @@ const buildTelegramFormData = (
     formData.set('message_thread_id', threadId);
   }
 
-  const blob = new Blob([payload], { type: 'text/csv; charset=utf-8' });
-  formData.set('document', blob, 'dialog-export.csv');
+  const document = resolveExportDocument(format, { anonymized, gzip });
+  const blob = new Blob([payload], { type: document.type });
+  formData.set('document', blob, document.filename);
+  if (caption) {
+    formData.set('caption', caption.slice(0, TELEGRAM_CAPTION_LIMIT));
+  }
 
   return formData;
 };
 
+type ExportJobAction = 'status' | 'pause' | 'resume' | 'cancel';
+
+const EXPORT_JOB_COMMANDS: Readonly<Partial<Record<string, ExportJobAction>>> = {
+  '/export_status': 'status',
+  '/export_pause': 'pause',
+  '/export_resume': 'resume',
+  '/export_cancel': 'cancel',
+};
+
 const EXPORT_COOLDOWN_KEY_PREFIX = 'rate-limit:';
 const EXPORT_COOLDOWN_TTL_SECONDS = 60; // Cloudflare KV требует минимум 60 секунд TTL
 const EXPORT_COOLDOWN_NOTICE = 'Экспорт формируется, подождите 60 секунд';
@@ -349,39 +494,11 @@ const EXPORT_EMPTY_NOTICE =
   'За выбранный период нет новых сообщений — CSV содержит только заголовок. Уточните даты и повторите /export.';
 const EXPORT_LIMIT_NOTICE =
   `⚠️ Экспорт ограничен первыми ${EXPORT_ROW_LIMIT} строками. Сузьте диапазон или разбейте выгрузку на несколько команд.`;
-
-const countCsvRows = (csvText: string): number => {
-  const newlineMatches = csvText.match(/\n/g) ?? [];
-  return Math.max(newlineMatches.length - 1, 0);
-};
-
-const stripCsvHeaderBytes = (data: Uint8Array): Uint8Array => {
-  const lfIndex = data.indexOf(0x0a);
-  if (lfIndex === -1) {
-    return new Uint8Array(0);
-  }
-
-  return data.subarray(lfIndex + 1);
-};
-
-const mergeCsvChunks = (chunks: Uint8Array[], totalLength: number): Uint8Array => {
-  if (chunks.length === 0) {
-    return new Uint8Array(0);
-  }
-
-  if (chunks.length === 1) {
-    return chunks[0];
-  }
-
-  const merged = new Uint8Array(totalLength);
-  let offset = 0;
-  for (const chunk of chunks) {
-    merged.set(chunk, offset);
-    offset += chunk.length;
-  }
-
-  return merged;
-};
+// Telegram не принимает пустые файлы, а у JSONL нет заголовка.
+const EXPORT_EMPTY_JSONL_NOTICE =
+  'За выбранный период нет новых сообщений — файл не отправлен. Уточните даты и повторите /export.';
+const EXPORT_CONVERSATIONS_LIMIT_NOTICE =
+  `⚠️ Экспорт ограничен первыми ${EXPORT_ROW_LIMIT} пользователями. Сузьте диапазон или разбейте выгрузку на несколько команд.`;
 
 type HandleExportFn = CreateTelegramExportCommandHandlerOptions['handleExport'];
 
@@ -391,6 +508,7 @@ interface PaginatedExportSuccess {
   rowCount: number;
   utmSources?: string[];
   limitReached: boolean;
+  anonymizationPolicy?: string;
 }
 
 interface PaginatedExportFailure {
@@ -400,16 +518,22 @@ interface PaginatedExportFailure {
 
 type PaginatedExportResult = PaginatedExportSuccess | PaginatedExportFailure;
 
+/**
+ * Для `conversations` строка — пользователь: страницы считаются по курсору
+ * пользователей, а не по числу сообщений.
+ */
 const collectPaginatedExport = async (
   handleExport: HandleExportFn,
-  request: Pick<AdminExportRequest, 'from' | 'to' | 'signal'>,
+  request: Pick<AdminExportRequest, 'from' | 'to' | 'format' | 'filters' | 'anonymize' | 'signal'>,
 ): Promise<PaginatedExportResult> => {
+  const isCsv = (request.format ?? 'csv') === 'csv';
   const csvChunks: Uint8Array[] = [];
   const utmSourceSet = new Set<string>();
   let totalBytes = 0;
   let cursor: string | undefined;
   let rowCount = 0;
   let limitReached = false;
+  let anonymizationPolicy: string | undefined;
 
   while (rowCount < EXPORT_ROW_LIMIT) {
     const remainingRows = EXPORT_ROW_LIMIT - rowCount;
@@ -425,6 +549,15 @@ const collectPaginatedExport = async (
       return { ok: false, response };
     }
 
+    if (request.anonymize) {
+      // Без подтверждения от обработчика файл нельзя считать обезличенным.
+      const pagePolicy = response.headers.get('x-export-anonymization');
+      if (!pagePolicy) {
+        return { ok: false, response: json({ error: 'Export was not anonymized' }, { status: 500 }) };
+      }
+      anonymizationPolicy = pagePolicy;
+    }
+
     const pageUtmSources = parseUtmSourcesHeader(response.headers.get('x-utm-sources'));
     if (pageUtmSources) {
       for (const source of pageUtmSources) {
@@ -433,11 +566,11 @@ const collectPaginatedExport = async (
     }
 
     const buffer = new Uint8Array(await response.arrayBuffer());
-    const csvText = textDecoder.decode(buffer);
-    const pageRowCount = countCsvRows(csvText);
+    const pageText = textDecoder.decode(buffer);
+    const pageRowCount = isCsv ? countCsvRows(pageText) : countJsonLines(pageText);
 
     const isFirstChunk = csvChunks.length === 0;
-    const chunk = isFirstChunk ? buffer : stripCsvHeaderBytes(buffer);
+    const chunk = isFirstChunk || !isCsv ? buffer : stripCsvHeaderBytes(buffer);
     if (isFirstChunk || chunk.length > 0) {
       csvChunks.push(chunk);
       totalBytes += chunk.length;
@@ -450,7 +583,9 @@ const collectPaginatedExport = async (
       break;
     }
 
-    if (pageRowCount === 0) {
+    // Страница пользователей без реплик (только саммари) даёт пустой JSONL,
+    // но курсор всё равно двигается.
+    if (pageRowCount === 0 && isCsv) {
       break;
     }
 
@@ -465,16 +600,65 @@ const collectPaginatedExport = async (
   const data = mergeCsvChunks(csvChunks, totalBytes);
   const utmSources = utmSourceSet.size > 0 ? Array.from(utmSourceSet) : undefined;
 
-  return { ok: true, data, rowCount, utmSources, limitReached };
+  return {
+    ok: true,
+    data,
+    rowCount,
+    utmSources,
+    limitReached,
+    ...(anonymizationPolicy ? { anonymizationPolicy } : {}),
+  };
 };
 
 export const ADMIN_HELP_MESSAGE = [
   'Доступные команды администратора:',
   '- /admin status — проверить, есть ли у вас доступ администратора. Ответ: admin-ok или forbidden.',
   '- /broadcast — мгновенная рассылка',
-  '- /export [from] [to] — выгрузить историю диалогов в CSV. Даты необязательные, формат YYYY-MM-DD. Запросы ограничены: не чаще одного раза в 60 секунд.',
+  '- /export [from] [to] [format=jsonl|conversations] — выгрузить историю диалогов в CSV, JSONL по сообщениям или JSONL по пользователям. Даты необязательные, формат YYYY-MM-DD. Фильтры: user=, username=, utm=, role=, chat=, q="текст". anonymize=1 — псевдонимы вместо id, без имён и контактов в тексте. Запросы ограничены: не чаще одного раза в 60 секунд.',
+  '- /export_status [jobId], /export_pause, /export_resume, /export_cancel <jobId> — фоновые выгрузки, которые приходят частями; gzip=1 сжимает файлы.',
+  '- /stats [from] [to] — сводка за период (по умолчанию 7 дней): новые пользователи, DAU, сообщения, лимиты и воронка по UTM.',
 ].join('\n');
 
+export const ADMIN_MENU_CALLBACK_NAMESPACE = 'admin';
+
+const ADMIN_MENU_ITEMS = [
+  { action: 'status', text: 'Проверить доступ', command: '/admin', argument: 'status' },
+  { action: 'broadcast', text: 'Рассылка', command: '/broadcast' },
+  { action: 'export', text: 'Выгрузка CSV', command: '/export' },
+] as const;
+
+/**
+ * Переводит кнопку админ-меню в команду, которую она заменяет.
+ */
+export const resolveAdminMenuCommand = (
+  data: string,
+): { command: string; argument?: string } | undefined => {
+  const [namespace, action] = data.split(':');
+  if (namespace !== ADMIN_MENU_CALLBACK_NAMESPACE) {
+    return undefined;
+  }
+
+  const item = ADMIN_MENU_ITEMS.find((entry) => entry.action === action);
+  if (!item) {
+    return undefined;
+  }
+
+  return 'argument' in item ? { command: item.command, argument: item.argument } : { command: item.command };
+};
+
+const buildAdminMenuMarkup = async (
+  callbackData: Pick<CallbackDataSigner, 'sign'>,
+): Promise<InlineKeyboardMarkup> => ({
+  inlineKeyboard: await Promise.all(
+    ADMIN_MENU_ITEMS.map(async (item) => [
+      {
+        text: item.text,
+        callbackData: await callbackData.sign(`${ADMIN_MENU_CALLBACK_NAMESPACE}:${item.action}`),
+      },
+    ]),
+  ),
+});
+
 export interface AdminHelpContextDetails {
   userId: string;
   chatId: string;
@@ -486,6 +670,10 @@ export interface CreateAdminHelpSenderOptions {
   logger: LoggerInstance;
   adminErrorRecorder?: AdminCommandErrorRecorder;
   adminAccess?: AdminAccess;
+  /**
+   * Если задано, справка дополняется inline-меню с основными командами.
+   */
+  callbackData?: Pick<CallbackDataSigner, 'sign'>;
 }
 
 export type SendAdminHelp = (context: AdminHelpContextDetails) => Promise<void>;
@@ -501,10 +689,15 @@ export const createAdminHelpSender = (
 
   return async ({ chatId, threadId, userId }) => {
     try {
+      const replyMarkup = options.callbackData
+        ? await buildAdminMenuMarkup(options.callbackData)
+        : undefined;
+
       await options.messaging.sendText({
         chatId,
         threadId,
         text: ADMIN_HELP_MESSAGE,
+        ...(replyMarkup ? { replyMarkup } : {}),
       });
 
       options.logger.info('admin help sent', {
@@ -583,6 +776,7 @@ export const createTelegramExportCommandHandler = (
     logger,
     adminErrorRecorder: options.adminErrorRecorder,
     adminAccess: options.adminAccess,
+    callbackData: options.callbackData,
   });
   const apiUrl = `https://api.telegram.org/bot${options.botToken}/sendDocument`;
   const fallbackCooldownKv =
@@ -594,6 +788,76 @@ export const createTelegramExportCommandHandler = (
   });
   const hasCooldownStore = Boolean(options.cooldownKv || fallbackCooldownKv);
 
+  const scheduleJobRun = async (
+    jobs: ExportJobRunner,
+    jobId: string,
+    context: TelegramAdminCommandContext,
+  ) => {
+    const task = jobs.run(jobId).then(
+      () => undefined,
+      (error: unknown) => {
+        logger.error('export job run failed', { jobId, error: normalizeErrorForLog(error) });
+      },
+    );
+
+    if (context.waitUntil) {
+      context.waitUntil(task);
+    } else {
+      await task;
+    }
+  };
+
+  const handleJobCommand = async (
+    context: TelegramAdminCommandContext,
+    jobs: ExportJobRunner,
+    action: ExportJobAction,
+    jobId: string | undefined,
+  ): Promise<Response | void> => {
+    const userId = context.from.userId;
+    if (!(await options.adminAccess.isAdmin(userId))) {
+      logger.warn('admin export job command denied', { userId, chatId: context.chat.id, action });
+      return undefined;
+    }
+
+    let text: string;
+    if (!jobId && action === 'status') {
+      const active = (await jobs.list()).filter(
+        (checkpoint) => checkpoint.status === 'running' || checkpoint.status === 'paused',
+      );
+      text = active.length > 0
+        ? ['Фоновые выгрузки:', ...active.map(formatExportJobStatus)].join('\n')
+        : 'Активных фоновых выгрузок нет.';
+    } else if (!jobId) {
+      text = `Укажите jobId: /export_${action} <jobId>`;
+    } else {
+      const checkpoint = action === 'status' ? await jobs.get(jobId) : await jobs[action](jobId);
+      text = checkpoint ? formatExportJobStatus(checkpoint) : `Выгрузка ${jobId} не найдена.`;
+
+      if (action === 'resume' && checkpoint?.status === 'running') {
+        await scheduleJobRun(jobs, jobId, context);
+      }
+    }
+
+    try {
+      await options.messaging.sendText({
+        chatId: context.chat.id,
+        threadId: context.chat.threadId,
+        text,
+      });
+    } catch (error) {
+      await logAdminMessagingError(
+        'failed to send export job status',
+        { userId, chatId: context.chat.id, threadId: context.chat.threadId },
+        error,
+        `export_${action}`,
+      );
+      return json({ error: 'Failed to send export job status' }, { status: 502 });
+    }
+
+    logger.info('admin export job command handled', { userId, action, jobId: jobId ?? null });
+    return json({ status: 'ok', action, ...(jobId ? { jobId } : {}) }, { status: 200 });
+  };
+
   return async (context: TelegramAdminCommandContext): Promise<Response | void> => {
     const commandToken =
       normalizeCommandToken(context.rawCommand) ?? normalizeCommandToken(context.command);
@@ -668,6 +932,13 @@ export const createTelegramExportCommandHandler = (
       return json({ status: statusText }, { status: 200 });
     }
 
+    const jobAction = EXPORT_JOB_COMMANDS[commandToken];
+    if (jobAction) {
+      return options.jobs
+        ? handleJobCommand(context, options.jobs, jobAction, trimmedArgument?.split(/\s+/)[0])
+        : undefined;
+    }
+
     let rangeArgument: string | undefined;
 
     if (commandToken === '/export') {
@@ -700,7 +971,7 @@ export const createTelegramExportCommandHandler = (
       return json({ error: message }, { status: 400 });
     }
 
-    const { from, to } = args;
+    const { from, to, format = 'csv', filters, anonymize, gzip } = args;
     const userId = context.from.userId;
     const userIdDescription = describeTelegramIdForLogs(userId);
 
@@ -804,6 +1075,57 @@ export const createTelegramExportCommandHandler = (
       );
     }
 
+    const sendExportNotice = async (text: string, commandLabel: string) => {
+      try {
+        await options.messaging.sendText({
+          chatId: context.chat.id,
+          threadId: context.chat.threadId,
+          text,
+        });
+      } catch (error) {
+        await logAdminMessagingError(
+          'failed to send export notification',
+          { userId, chatId: context.chat.id, threadId: context.chat.threadId },
+          error,
+          commandLabel,
+        );
+      }
+    };
+
+    if (options.jobs) {
+      let jobId: string;
+      try {
+        ({ jobId } = await options.jobs.start({
+          requestedBy: userId,
+          chatId: context.chat.id,
+          threadId: context.chat.threadId,
+          from,
+          to,
+          format,
+          filters,
+          anonymize,
+          gzip,
+          caption: buildExportCaption(args),
+        }));
+      } catch (error) {
+        logger.error('failed to start export job', {
+          userId,
+          chatId: context.chat.id,
+          error: normalizeErrorForLog(error),
+        });
+        return json({ error: 'Failed to start export job' }, { status: 500 });
+      }
+
+      logger.info('export job started', { jobId, userId, chatId: context.chat.id, format });
+      await sendExportNotice(
+        `Выгрузка ${jobId} запущена: файлы придут частями. Статус: /export_status ${jobId}, пауза: /export_pause ${jobId}, отмена: /export_cancel ${jobId}`,
+        'export_job_started',
+      );
+      await scheduleJobRun(options.jobs, jobId, context);
+
+      return json({ status: 'started', jobId }, { status: 200 });
+    }
+
     const abortController = new AbortController();
 
     let exportResult: PaginatedExportResult;
@@ -811,6 +1133,9 @@ export const createTelegramExportCommandHandler = (
       exportResult = await collectPaginatedExport(options.handleExport, {
         from,
         to,
+        ...(format !== 'csv' ? { format } : {}),
+        ...(filters ? { filters } : {}),
+        ...(anonymize ? { anonymize } : {}),
         signal: abortController.signal,
       });
     } catch (error) {
@@ -831,32 +1156,31 @@ export const createTelegramExportCommandHandler = (
       return exportResult.response;
     }
 
-    const { data, rowCount, utmSources, limitReached } = exportResult;
+    const { data, rowCount, utmSources, limitReached, anonymizationPolicy } = exportResult;
 
-    const sendExportNotice = async (text: string, commandLabel: string) => {
-      try {
-        await options.messaging.sendText({
-          chatId: context.chat.id,
-          threadId: context.chat.threadId,
-          text,
-        });
-      } catch (error) {
-        await logAdminMessagingError(
-          'failed to send export notification',
-          { userId, chatId: context.chat.id, threadId: context.chat.threadId },
-          error,
-          commandLabel,
-        );
-      }
-    };
+    if (rowCount === 0 && format !== 'csv') {
+      await sendExportNotice(EXPORT_EMPTY_JSONL_NOTICE, 'export_notice_empty');
+      return json({ status: 'empty' }, { status: 200 });
+    }
 
     if (rowCount === 0) {
       await sendExportNotice(EXPORT_EMPTY_NOTICE, 'export_notice_empty');
     } else if (limitReached) {
-      await sendExportNotice(EXPORT_LIMIT_NOTICE, 'export_notice_truncated');
+      await sendExportNotice(
+        format === 'conversations' ? EXPORT_CONVERSATIONS_LIMIT_NOTICE : EXPORT_LIMIT_NOTICE,
+        'export_notice_truncated',
+      );
     }
 
-    const formData = buildTelegramFormData(context.chat.id, context.chat.threadId, data);
+    const formData = buildTelegramFormData(
+      context.chat.id,
+      context.chat.threadId,
+      gzip ? await gzipBytes(data) : data,
+      format,
+      buildExportCaption(args, anonymizationPolicy),
+      Boolean(anonymizationPolicy),
+      gzip,
+    );
 
     const requestTimestamp = now();
     const exportLogDetails: Record<string, unknown> = {
@@ -866,14 +1190,21 @@ export const createTelegramExportCommandHandler = (
       from: from?.toISOString(),
       to: to?.toISOString(),
       requestedAt: requestTimestamp.toISOString(),
+      format,
       rowCount,
     };
+    if (filters) {
+      exportLogDetails.filters = filters;
+    }
     if (utmSources) {
       exportLogDetails.utmSources = utmSources;
     }
     if (limitReached) {
       exportLogDetails.rowLimitReached = true;
     }
+    if (anonymizationPolicy) {
+      exportLogDetails.anonymizationPolicy = anonymizationPolicy;
+    }
     logger.info('sending export to telegram', exportLogDetails);
 
     let telegramResponse: Response;
@@ -952,12 +1283,22 @@ export const createTelegramExportCommandHandler = (
         to: to ? to.toISOString() : null,
         rowCount,
       };
+      if (format !== 'csv') {
+        payload.format = format;
+      }
+      if (filters) {
+        payload.filters = filters;
+      }
       if (utmSources) {
         payload.utmSources = utmSources;
       }
       if (limitReached) {
         payload.rowLimitReached = true;
       }
+      if (anonymizationPolicy) {
+        payload.anonymized = true;
+        payload.anonymizationPolicy = anonymizationPolicy;
+      }
 
       try {
         await options.exportLogKv.put(logKey, JSON.stringify(payload), {
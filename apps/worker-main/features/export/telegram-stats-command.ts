@@ -0,0 +1,93 @@
+import { json } from '../../shared';
+import type { TelegramAdminCommandContext } from '../../http';
+import type { MessagingPort } from '../../ports';
+import type { AdminAccess } from '../admin-access';
+import {
+  type DialogStatsPeriod,
+  type DialogStatsStore,
+  formatDialogStatsSummary,
+  parseDialogStatsPeriod,
+} from './dialog-stats';
+
+interface Logger {
+  info?(message: string, details?: Record<string, unknown>): void;
+  warn?(message: string, details?: Record<string, unknown>): void;
+  error?(message: string, details?: Record<string, unknown>): void;
+}
+
+export interface CreateTelegramStatsCommandHandlerOptions {
+  adminAccess: AdminAccess;
+  stats: DialogStatsStore;
+  messaging: Pick<MessagingPort, 'sendText'>;
+  logger?: Logger;
+  now?: () => Date;
+}
+
+const STATS_USAGE = 'Usage: /stats [from] [to] — даты в формате YYYY-MM-DD, по умолчанию последние 7 дней.';
+
+const toErrorDetails = (error: unknown) =>
+  error instanceof Error ? { name: error.name, message: error.message } : { message: String(error) };
+
+/**
+ * `/stats [from] [to]` — сводка по новым пользователям, DAU, сообщениям,
+ * лимитам и воронке по UTM. Полные таблицы отдаёт `/admin/stats`.
+ */
+export const createTelegramStatsCommandHandler = (options: CreateTelegramStatsCommandHandlerOptions) => {
+  const now = options.now ?? (() => new Date());
+
+  return async (context: TelegramAdminCommandContext): Promise<Response | void> => {
+    if (context.command.toLowerCase() !== '/stats') {
+      return undefined;
+    }
+
+    const userId = context.from.userId;
+    if (!(await options.adminAccess.isAdmin(userId))) {
+      options.logger?.warn?.('admin stats denied', { userId, chatId: context.chat.id });
+      return undefined;
+    }
+
+    const buildReply = async (): Promise<{ status: 'ok' | 'invalid_arguments' | 'failed'; text: string }> => {
+      const parts = context.argument?.trim().split(/\s+/u).filter(Boolean) ?? [];
+      let period: DialogStatsPeriod;
+      try {
+        if (parts.length > 2) {
+          throw new Error('Too many arguments');
+        }
+
+        period = parseDialogStatsPeriod(parts[0], parts[1], now());
+      } catch (error) {
+        return {
+          status: 'invalid_arguments',
+          text: `${error instanceof Error ? error.message : 'Invalid arguments'}. ${STATS_USAGE}`,
+        };
+      }
+
+      try {
+        return { status: 'ok', text: formatDialogStatsSummary(await options.stats.collect(period)) };
+      } catch (error) {
+        options.logger?.error?.('failed to collect dialog stats', { userId, error: toErrorDetails(error) });
+        return { status: 'failed', text: 'Не удалось посчитать статистику. Попробуйте позже.' };
+      }
+    };
+
+    const { status, text } = await buildReply();
+
+    try {
+      await options.messaging.sendText({
+        chatId: context.chat.id,
+        threadId: context.chat.threadId,
+        text,
+      });
+    } catch (error) {
+      options.logger?.error?.('failed to send dialog stats', {
+        userId,
+        chatId: context.chat.id,
+        error: toErrorDetails(error),
+      });
+      return json({ error: 'Failed to send stats' }, { status: 502 });
+    }
+
+    options.logger?.info?.('admin stats sent', { userId, status });
+    return json({ status }, { status: 200 });
+  };
+};
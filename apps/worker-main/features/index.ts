@@ -21,6 +21,7 @@ export {
 export {
   createRateLimitNotifier,
   createRateLimitToggle,
+  createRateLimitHitsRecorder,
   type CreateRateLimitNotifierOptions,
   type CreateRateLimitToggleOptions,
   type LimitsFlagKvNamespace,
@@ -28,6 +29,7 @@ export {
   type RateLimitNotifier,
   type RateLimitNotifierLogger,
   type RateLimitToggleLogger,
+  type RateLimitHitsRecorder,
 } from './limits';
 export {
   createAdminExportRoute,
@@ -35,11 +37,28 @@ export {
   createTelegramExportCommandHandler,
   createExportRateDiagRoute,
   createExportRateTelemetry,
+  createExportPseudonymizer,
+  createExportJobRunner,
+  createExportJobsCronJob,
+  createDialogStatsStore,
+  createAdminStatsRoute,
+  createTelegramStatsCommandHandler,
+  redactContactDetails,
+  resolveAdminMenuCommand,
+  ADMIN_MENU_CALLBACK_NAMESPACE,
 } from './export';
 export type {
   CreateAdminExportRouteOptions,
   AdminExportRequest,
+  ExportFilters,
+  ExportFormat,
   CsvExportHandlerOptions,
+  ExportAnonymizationOptions,
+  ExportRedactor,
+  ExportJobCheckpoint,
+  ExportJobRunner,
+  DialogStats,
+  DialogStatsStore,
   AdminExportRateLimitKvNamespace,
   CreateTelegramExportCommandHandlerOptions,
   CreateExportRateDiagRouteOptions,
@@ -47,19 +66,36 @@ export type {
 } from './export';
 export {
   createTelegramBroadcastCommandHandler,
+  BROADCAST_CALLBACK_NAMESPACE,
+  buildBroadcastJobControls,
   createImmediateBroadcastSender,
   createRegistryBroadcastSender,
   buildBroadcastPayload,
   DEFAULT_MAX_TEXT_LENGTH,
   parseBroadcastRecipients,
   createBroadcastRecipientsStore,
+  createBroadcastSubscriptionTracker,
   createBroadcastRecipientsAdminHandlers,
   createBroadcastDiagRoute,
   createBroadcastTelemetry,
+  createScheduledBroadcastsStore,
+  createScheduledBroadcastsJob,
+  createScheduledBroadcastsAdminHandlers,
+  createBroadcastDeliveriesStore,
+  createBroadcastDeliveriesAdminHandlers,
+  createBroadcastReplyAttribution,
+  parseBroadcastSegment,
+  assignBroadcastVariant,
+  createBroadcastJobDispatcher,
+  renderBroadcastTemplate,
 } from './broadcast';
 export type {
   BroadcastAudienceFilter,
+  BroadcastContent,
   BroadcastMessagePayload,
+  BroadcastSegment,
+  BroadcastTextVariant,
+  BroadcastTranslation,
   BroadcastRecipient,
   BroadcastRecipientsParserLogger,
   CreateTelegramBroadcastCommandHandlerOptions,
@@ -68,6 +104,11 @@ export type {
   SendBroadcast,
   CreateImmediateBroadcastSenderOptions,
   CreateRegistryBroadcastSenderOptions,
+  BroadcastAction,
+  BroadcastDryRunEstimate,
+  BroadcastJobDispatcher,
+  BroadcastPriority,
+  BroadcastRecipientProfiles,
   BroadcastSendInput,
   BroadcastSendResult,
   BroadcastSendResultDelivery,
@@ -75,12 +116,19 @@ export type {
   BroadcastRecipientRecord,
   BroadcastRecipientUpsertInput,
   BroadcastRecipientsStore,
+  BroadcastSubscriptionTracker,
   BroadcastRecipientsAdminHandlers,
   CreateBroadcastRecipientsAdminHandlersOptions,
   BroadcastTelemetry,
   BroadcastTelemetryRecord,
   BroadcastTelemetrySnapshot,
   BroadcastTelemetryRecordInput,
+  ScheduledBroadcast,
+  ScheduledBroadcastsStore,
+  ScheduledBroadcastsAdminHandlers,
+  BroadcastDeliveriesStore,
+  BroadcastDeliveryLog,
+  BroadcastJobEngagement,
 } from './broadcast';
 export {
   createD1StressRoute,
@@ -107,3 +155,22 @@ export {
   type KnownUser,
   type KnownUsersSnapshot,
 } from './utm-tracking/known-users-cache';
+export {
+  createAiToolRegistry,
+  createProfileTool,
+  createReminderTool,
+  createRemindersStore,
+  createReminderDeliveryJob,
+  type AiTool,
+  type RemindersStore,
+} from './ai-tools';
+export {
+  createCronDispatcher,
+  createCronDiagRoute,
+  createCronRunRoute,
+  createMaintenanceJobs,
+  type CronDispatcher,
+  type CronJob,
+  type CronKvNamespace,
+  type CronRunOutcome,
+} from './cron';
@@ -0,0 +1,19 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createRateLimitHitsRecorder } from '../rate-limit-hits';
+
+describe('rate limit hits recorder', () => {
+  it('stores each hit with an ISO timestamp', async () => {
+    const run = vi.fn().mockResolvedValue({});
+    const statement = { bind: vi.fn(), run };
+    statement.bind.mockReturnValue(statement);
+    const prepare = vi.fn(() => statement);
+    const recorder = createRateLimitHitsRecorder({ db: { prepare } });
+
+    await recorder.record({ userId: 'user-1', chatId: 'chat-1', hitAt: new Date('2026-10-19T10:00:00Z') });
+
+    expect(prepare.mock.calls[0]).toEqual([expect.stringContaining('INSERT INTO rate_limit_hits')]);
+    expect(statement.bind).toHaveBeenCalledWith('user-1', 'chat-1', null, '2026-10-19T10:00:00.000Z');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -11,3 +11,9 @@ export type {
   LimitsFlagKvNamespace,
   RateLimitToggleLogger,
 } from './rate-limit-toggle';
+export { createRateLimitHitsRecorder } from './rate-limit-hits';
+export type {
+  CreateRateLimitHitsRecorderOptions,
+  RateLimitHit,
+  RateLimitHitsRecorder,
+} from './rate-limit-hits';
@@ -0,0 +1,43 @@
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  run(): Promise<unknown>;
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+export interface RateLimitHit {
+  userId: string;
+  chatId: string;
+  threadId?: string;
+  hitAt: Date;
+}
+
+/**
+ * Журнал отказов по лимиту сообщений: по записи на каждое сообщение,
+ * отклонённое из-за лимита. Из него считается статистика `/admin/stats`.
+ */
+export interface RateLimitHitsRecorder {
+  record(hit: RateLimitHit): Promise<void>;
+}
+
+export interface CreateRateLimitHitsRecorderOptions {
+  db: D1Database;
+}
+
+const INSERT_RATE_LIMIT_HIT_SQL = `
+  INSERT INTO rate_limit_hits (user_id, chat_id, thread_id, hit_at)
+  VALUES (?1, ?2, ?3, ?4)
+`;
+
+export const createRateLimitHitsRecorder = (
+  options: CreateRateLimitHitsRecorderOptions,
+): RateLimitHitsRecorder => ({
+  async record(hit) {
+    await options.db
+      .prepare(INSERT_RATE_LIMIT_HIT_SQL)
+      .bind(hit.userId, hit.chatId, hit.threadId ?? null, hit.hitAt.toISOString())
+      .run();
+  },
+});
@@ -220,6 +220,25 @@ describe('createTelegramWebhookHandler', () => {
     expect(result.message.user.utmSource).toBe('src_DEMO');
   });
 
+  it('merges feature annotations into metadata of dialog messages', async () => {
+    const annotateMessage = vi.fn().mockResolvedValue({ broadcastJobId: 'job-1' });
+    const handler = createTelegramWebhookHandler({
+      storage: createStorageMock(),
+      features: { annotateMessage },
+    });
+
+    const result = await handler({
+      ...baseUpdate,
+      message: { ...baseUpdate.message!, reply_to_message: { message_id: '77' } },
+    });
+
+    expect(annotateMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ replyToMessageId: '77', chat: { id: '66' } }),
+      undefined,
+    );
+    expect(result).toMatchObject({ kind: 'message', message: { metadata: { broadcastJobId: 'job-1' } } });
+  });
+
   it('exposes shared known users cache used by admin route clearing', async () => {
     const storage = createStorageMock();
     const handler = createTelegramWebhookHandler({
@@ -10,6 +10,7 @@ import {
 import type {
   HandledWebhookResult,
   MessageWebhookResult,
+  NonTextWebhookResult,
   TransformPayload,
   TransformPayloadContext,
   TransformPayloadResult,
@@ -94,6 +95,9 @@ export interface CreateTelegramWebhookHandlerOptions extends TelegramWebhookOpti
 const isMessageResult = (value: TransformPayloadResult): value is MessageWebhookResult =>
   (value as MessageWebhookResult | undefined)?.kind === 'message';
 
+const isNonTextResult = (value: TransformPayloadResult): value is NonTextWebhookResult =>
+  (value as NonTextWebhookResult | undefined)?.kind === 'non_text';
+
 const handledResult = (response?: Response): HandledWebhookResult => ({
   kind: 'handled',
   response:
@@ -167,12 +171,26 @@ export const createTelegramWebhookHandler = (
     const result = await transformTelegramUpdate(payload, {
       ...transformOptions,
       onSystemCommand: registerSystemCommand,
+      context,
     });
 
+    if (isNonTextResult(result) && result.message) {
+      const { message, ...nonText } = result;
+      const handledByFeature = await transformOptions.features?.handleMessage?.(message, context);
+      if (handledByFeature) {
+        return handledResult(handledByFeature instanceof Response ? handledByFeature : undefined);
+      }
+
+      return nonText;
+    }
+
     if (isMessageResult(result)) {
       const { message } = result;
 
-      const handledByFeature = await transformOptions.features?.handleMessage?.(message, context);
+      const handledByFeature = await transformOptions.features?.handleMessage?.(
+        result.featureAttachments ? { ...message, attachments: result.featureAttachments } : message,
+        context,
+      );
       if (handledByFeature) {
         if (handledByFeature instanceof Response) {
           return handledResult(handledByFeature);
@@ -246,6 +264,14 @@ export const createTelegramWebhookHandler = (
           },
         };
       }
+
+      const annotations = await transformOptions.features?.annotateMessage?.(result.message, context);
+      if (annotations && Object.keys(annotations).length > 0) {
+        result.message = {
+          ...result.message,
+          metadata: { ...result.message.metadata, ...annotations },
+        };
+      }
     }
 
     return result;
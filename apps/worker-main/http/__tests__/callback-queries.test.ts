@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  createCallbackCommandContext,
+  createCallbackDataSigner,
+  createCallbackQueryDispatcher,
+} from '../callback-queries';
+import type { TelegramCallbackQueryContext } from '../telegram-webhook';
+
+const createContext = (data: string): TelegramCallbackQueryContext => ({
+  queryId: 'cbq-1',
+  data,
+  from: { userId: 'admin-1' },
+  chat: { id: 'chat-1' },
+  messageId: '10',
+  update: { update_id: 1 },
+});
+
+describe('createCallbackDataSigner', () => {
+  it('verifies data signed with the same secret', async () => {
+    const signer = createCallbackDataSigner({ secret: 'secret' });
+
+    const signed = await signer.sign('broadcast:pause:job-1');
+
+    expect(signed.startsWith('broadcast:pause:job-1|')).toBe(true);
+    await expect(signer.verify(signed)).resolves.toBe('broadcast:pause:job-1');
+  });
+
+  it('rejects tampered data and foreign signatures', async () => {
+    const signer = createCallbackDataSigner({ secret: 'secret' });
+    const foreign = createCallbackDataSigner({ secret: 'other' });
+
+    const signed = await signer.sign('forget:confirm:user-1');
+    const tampered = signed.replace('user-1', 'user-2');
+
+    await expect(signer.verify(tampered)).resolves.toBeUndefined();
+    await expect(signer.verify(await foreign.sign('forget:confirm:user-1'))).resolves.toBeUndefined();
+    await expect(signer.verify('forget:confirm:user-1')).resolves.toBeUndefined();
+  });
+
+  it('refuses payloads that exceed the Telegram limit', async () => {
+    const signer = createCallbackDataSigner({ secret: 'secret' });
+
+    await expect(signer.sign('x'.repeat(60))).rejects.toThrow('CALLBACK_DATA_TOO_LONG');
+  });
+});
+
+describe('createCallbackQueryDispatcher', () => {
+  const signer = createCallbackDataSigner({ secret: 'secret' });
+
+  it('routes verified payload by namespace and answers the query', async () => {
+    const answerCallbackQuery = vi.fn().mockResolvedValue(undefined);
+    const broadcast = vi.fn().mockResolvedValue({ text: 'Пауза запрошена' });
+    const dispatch = createCallbackQueryDispatcher({
+      signer,
+      messaging: { answerCallbackQuery },
+      routes: { broadcast },
+    });
+
+    await expect(dispatch(createContext(await signer.sign('broadcast:pause:job-1')))).resolves.toBe(true);
+
+    expect(broadcast).toHaveBeenCalledWith(
+      expect.objectContaining({ data: 'broadcast:pause:job-1', queryId: 'cbq-1' }),
+    );
+    expect(answerCallbackQuery).toHaveBeenCalledWith({
+      callbackQueryId: 'cbq-1',
+      text: 'Пауза запрошена',
+    });
+  });
+
+  it('answers stale buttons without invoking routes', async () => {
+    const answerCallbackQuery = vi.fn().mockResolvedValue(undefined);
+    const broadcast = vi.fn();
+    const dispatch = createCallbackQueryDispatcher({
+      signer,
+      messaging: { answerCallbackQuery },
+      routes: { broadcast },
+    });
+
+    await expect(dispatch(createContext('broadcast:pause:job-1|forged'))).resolves.toBe(true);
+
+    expect(broadcast).not.toHaveBeenCalled();
+    expect(answerCallbackQuery).toHaveBeenCalledWith({
+      callbackQueryId: 'cbq-1',
+      text: 'Кнопка устарела. Повторите команду.',
+    });
+  });
+
+  it('reports unknown namespaces as not handled', async () => {
+    const answerCallbackQuery = vi.fn().mockResolvedValue(undefined);
+    const dispatch = createCallbackQueryDispatcher({
+      signer,
+      messaging: { answerCallbackQuery },
+      routes: {},
+    });
+
+    await expect(dispatch(createContext(await signer.sign('unknown:action')))).resolves.toBe(false);
+    expect(answerCallbackQuery).toHaveBeenCalledWith({ callbackQueryId: 'cbq-1' });
+  });
+
+  it('answers with failure text when route throws', async () => {
+    const answerCallbackQuery = vi.fn().mockResolvedValue(undefined);
+    const dispatch = createCallbackQueryDispatcher({
+      signer,
+      messaging: { answerCallbackQuery },
+      routes: {
+        forget: vi.fn().mockRejectedValue(new Error('boom')),
+      },
+    });
+
+    await expect(dispatch(createContext(await signer.sign('forget:confirm:admin-1')))).resolves.toBe(true);
+    expect(answerCallbackQuery).toHaveBeenCalledWith({
+      callbackQueryId: 'cbq-1',
+      text: 'Не получилось выполнить действие. Попробуйте позже.',
+    });
+  });
+});
+
+describe('createCallbackCommandContext', () => {
+  it('builds a minimal message when the callback query carries none', () => {
+    const context = createCallbackCommandContext(
+      { ...createContext('broadcast:status'), chat: { id: 'chat-1', threadId: '7', type: 'private' } },
+      '/broadcast_status',
+      'job-1',
+    );
+
+    expect(context.message).toEqual({
+      message_id: '10',
+      chat: { id: 'chat-1', type: 'private' },
+      message_thread_id: '7',
+      text: '/broadcast_status job-1',
+    });
+    expect(context.incomingMessage).toMatchObject({ text: '/broadcast_status job-1', chat: { id: 'chat-1', threadId: '7' } });
+  });
+});
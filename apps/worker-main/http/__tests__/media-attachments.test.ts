@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createMediaAttachmentPolicy } from '../media-attachments';
+
+describe('createMediaAttachmentPolicy', () => {
+  it('picks the largest photo size within the limit', async () => {
+    const policy = createMediaAttachmentPolicy({ maxFileBytes: 50_000 });
+
+    const outcome = await policy({
+      userId: '1',
+      candidates: [
+        { kind: 'image', fileId: 'large', mimeType: 'image/jpeg', size: 120_000 },
+        { kind: 'image', fileId: 'medium', mimeType: 'image/jpeg', size: 40_000 },
+        { kind: 'image', fileId: 'small', mimeType: 'image/jpeg', size: 5_000 },
+      ],
+    });
+
+    expect(outcome).toEqual({
+      status: 'accepted',
+      attachment: { kind: 'image', fileId: 'medium', mimeType: 'image/jpeg', size: 40_000 },
+    });
+  });
+
+  it('rejects oversized and disallowed files', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    const policy = createMediaAttachmentPolicy({
+      maxFileBytes: 1_000,
+      allowedMimeTypes: ['application/pdf'],
+    });
+
+    await expect(
+      policy({
+        userId: '1',
+        candidates: [{ kind: 'document', fileId: 'doc', mimeType: 'application/pdf', size: 2_000 }],
+      }),
+    ).resolves.toEqual({ status: 'rejected', reason: 'too_large' });
+    await expect(
+      policy({
+        userId: '1',
+        candidates: [{ kind: 'image', fileId: 'photo', mimeType: 'image/jpeg', size: 100 }],
+      }),
+    ).resolves.toEqual({ status: 'rejected', reason: 'unsupported_type' });
+    await expect(
+      policy({ userId: '1', candidates: [{ kind: 'document', fileId: 'unknown' }] }),
+    ).resolves.toEqual({ status: 'rejected', reason: 'unsupported_type' });
+  });
+
+  it('charges accepted files to the per-user quota', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    const used = new Map<string, number>();
+    const rateLimit = {
+      checkAndIncrement: vi.fn(async ({ userId }: { userId: string }) => {
+        const count = (used.get(userId) ?? 0) + 1;
+        used.set(userId, count);
+        return count > 2 ? ('limit' as const) : ('ok' as const);
+      }),
+    };
+    const policy = createMediaAttachmentPolicy({ maxFileBytes: 1_000, rateLimit });
+    const photo = { kind: 'image' as const, fileId: 'photo', mimeType: 'image/jpeg', size: 100 };
+
+    await expect(policy({ userId: '1', chatId: 'c1', candidates: [photo] })).resolves.toMatchObject({
+      status: 'accepted',
+    });
+    await expect(
+      policy({ userId: '1', chatId: 'c1', candidates: [{ ...photo, size: 5_000 }] }),
+    ).resolves.toEqual({ status: 'rejected', reason: 'too_large' });
+    await expect(policy({ userId: '1', chatId: 'c1', candidates: [photo] })).resolves.toMatchObject({
+      status: 'accepted',
+    });
+    await expect(policy({ userId: '1', chatId: 'c1', candidates: [photo] })).resolves.toEqual({
+      status: 'rejected',
+      reason: 'rate_limited',
+    });
+    await expect(policy({ userId: '2', chatId: 'c2', threadId: 't2', candidates: [photo] })).resolves.toMatchObject({
+      status: 'accepted',
+    });
+
+    expect(rateLimit.checkAndIncrement).toHaveBeenCalledTimes(4);
+    expect(rateLimit.checkAndIncrement).toHaveBeenLastCalledWith({
+      userId: '2',
+      context: { chatId: 'c2', threadId: 't2', scope: 'media' },
+    });
+  });
+});
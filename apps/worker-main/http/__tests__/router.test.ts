@@ -245,6 +245,101 @@ describe('http router', () => {
     expect(dialogEngine.handleMessage).not.toHaveBeenCalled();
   });
 
+  it('writes context reset marker on /reset without invoking dialog engine', async () => {
+    const sendText = vi.fn().mockResolvedValue({ messageId: 'reset-1' });
+    const messaging = createMessagingMock({ sendText });
+    const dialogEngine = createDialogEngineMock();
+    const appendMessage = vi.fn().mockResolvedValue(undefined);
+    const storage = { ...createStorageMock(), appendMessage } as unknown as StoragePort;
+    const router = createRouter({
+      dialogEngine,
+      messaging,
+      storage,
+      webhookSecret: 'secret',
+    });
+
+    const payload = {
+      user: { userId: 'user-3' },
+      chat: { id: 'chat-3' },
+      text: '/reset',
+      messageId: '77',
+      receivedAt: '2024-03-01T00:00:00.000Z',
+    };
+
+    const response = await router.handle(
+      new Request('https://example.com/webhook/secret', {
+        method: 'POST',
+        body: JSON.stringify(payload),
+        headers: { 'content-type': 'application/json' },
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ status: 'ok', messageId: 'reset-1' });
+    expect(appendMessage).toHaveBeenCalledWith({
+      userId: 'user-3',
+      chatId: 'chat-3',
+      threadId: undefined,
+      role: 'system',
+      text: '[context reset]',
+      timestamp: new Date('2024-03-01T00:00:00.000Z'),
+      metadata: { kind: 'context_reset', messageId: '77' },
+    });
+    expect(sendText).toHaveBeenCalledWith({
+      chatId: 'chat-3',
+      threadId: undefined,
+      text: 'Контекст диалога очищен — начнём с чистого листа.',
+    });
+    expect(dialogEngine.handleMessage).not.toHaveBeenCalled();
+  });
+
+  it('asks for inline confirmation on /forget', async () => {
+    const sendText = vi.fn().mockResolvedValue({ messageId: 'forget-1' });
+    const messaging = createMessagingMock({ sendText });
+    const dialogEngine = createDialogEngineMock();
+    const deleteUserData = vi.fn();
+    const storage = { ...createStorageMock(), deleteUserData } as unknown as StoragePort;
+    const callbackData = { sign: vi.fn(async (data: string) => `${data}|sig`), verify: vi.fn() };
+    const router = createRouter({
+      dialogEngine,
+      messaging,
+      storage,
+      callbackData,
+      webhookSecret: 'secret',
+    });
+
+    const payload = {
+      user: { userId: 'user-4' },
+      chat: { id: 'chat-4' },
+      text: '/forget',
+      receivedAt: '2024-03-01T00:00:00.000Z',
+    };
+
+    const response = await router.handle(
+      new Request('https://example.com/webhook/secret', {
+        method: 'POST',
+        body: JSON.stringify(payload),
+        headers: { 'content-type': 'application/json' },
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ status: 'ok', messageId: 'forget-1' });
+    expect(sendText).toHaveBeenCalledWith({
+      chatId: 'chat-4',
+      threadId: undefined,
+      text: 'Удалить всю историю диалога и профиль?\nЭто действие нельзя отменить.',
+      replyMarkup: {
+        inlineKeyboard: [[
+          { text: 'Удалить', callbackData: 'forget:confirm:user-4|sig' },
+          { text: 'Отмена', callbackData: 'forget:cancel:user-4|sig' },
+        ]],
+      },
+    });
+    expect(deleteUserData).not.toHaveBeenCalled();
+    expect(dialogEngine.handleMessage).not.toHaveBeenCalled();
+  });
+
   it('skips duplicate /start when update_id processed already', async () => {
     const sendText = vi.fn().mockResolvedValue({ messageId: 'start-dup' });
     const messaging = createMessagingMock({ sendText });
@@ -1094,6 +1189,46 @@ describe('http router', () => {
     });
   });
 
+  it('records rate limit hits and keeps replying when the journal fails', async () => {
+    const handleMessage = vi.fn().mockResolvedValue({ status: 'rate_limited' });
+    const messaging = createMessagingMock();
+    const record = vi.fn().mockRejectedValueOnce(new Error('D1 unavailable')).mockResolvedValue(undefined);
+
+    const router = createRouter({
+      dialogEngine: { handleMessage } as unknown as DialogEngine,
+      messaging,
+      webhookSecret: 'secret',
+      rateLimitHits: { record },
+    });
+
+    const send = () =>
+      router.handle(
+        new Request('https://example.com/webhook/secret', {
+          method: 'POST',
+          body: JSON.stringify({
+            user: { userId: 'user-2' },
+            chat: { id: 'chat-2', threadId: 'thread-1' },
+            text: 'hello',
+          }),
+          headers: { 'content-type': 'application/json' },
+        }),
+      );
+
+    const failed = await send();
+    const recorded = await send();
+
+    await expect(failed.json()).resolves.toEqual({ status: 'rate_limited' });
+    await expect(recorded.json()).resolves.toEqual({ status: 'rate_limited' });
+    expect(record).toHaveBeenCalledTimes(2);
+    expect(record).toHaveBeenLastCalledWith({
+      userId: 'user-2',
+      chatId: 'chat-2',
+      threadId: 'thread-1',
+      hitAt: expect.any(Date),
+    });
+    expect(messaging.sendText).toHaveBeenCalledTimes(2);
+  });
+
   it('sends fallback when notifier does not handle notification', async () => {
     const handleMessage = vi.fn().mockResolvedValue({ status: 'rate_limited' });
     const messaging = createMessagingMock();
@@ -1407,7 +1542,7 @@ describe('http router', () => {
       await textBackgroundTask;
     }
 
-    expect(messaging.sendText.mock.calls.length).toBe(3);
+    expect(vi.mocked(messaging.sendText).mock.calls.length).toBe(3);
     expect(messaging.sendText).toHaveBeenLastCalledWith({
       chatId: '4242',
       threadId: undefined,
@@ -1434,7 +1569,7 @@ describe('http router', () => {
     deferred.resolve({ delivered: 2, failed: 0, deliveries: [] });
     await backgroundTask;
 
-    expect(messaging.sendText.mock.calls.length).toBe(4);
+    expect(vi.mocked(messaging.sendText).mock.calls.length).toBe(4);
     expect(messaging.sendText).toHaveBeenLastCalledWith({
       chatId: '4242',
       threadId: undefined,
@@ -2055,6 +2190,33 @@ describe('http router', () => {
     expect(response.status).toBe(404);
   });
 
+  it('accepts admin or export tokens for admin stats', async () => {
+    const statsHandler = vi.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+    const router = createRouter({
+      dialogEngine: createDialogEngineMock(),
+      messaging: createMessagingMock(),
+      webhookSecret: 'secret',
+      admin: {
+        token: 'secret',
+        exportToken: 'export-secret',
+        stats: statsHandler,
+      },
+    });
+
+    const forbidden = await router.handle(
+      new Request('https://example.com/admin/stats', { headers: { 'x-admin-token': 'wrong' } }),
+    );
+    const withExportToken = await router.handle(
+      new Request('https://example.com/admin/stats?format=csv', { headers: { 'x-admin-token': 'export-secret' } }),
+    );
+    const withAdminToken = await router.handle(new Request('https://example.com/admin/stats?token=secret'));
+
+    expect(forbidden.status).toBe(403);
+    expect(withExportToken.status).toBe(200);
+    expect(withAdminToken.status).toBe(200);
+    expect(statsHandler).toHaveBeenCalledTimes(2);
+  });
+
   it('delegates admin export requests to provided handler', async () => {
     const exportHandler = vi.fn().mockResolvedValue(new Response('csv', { status: 200 }));
     const router = createRouter({
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createForgetCallbackHandler } from '../system-command-handlers';
+import type { TelegramCallbackQueryContext } from '../telegram-webhook';
+
+const createContext = (
+  overrides: Partial<TelegramCallbackQueryContext> = {},
+): TelegramCallbackQueryContext => ({
+  queryId: 'cbq-1',
+  data: 'forget:confirm:user-1',
+  from: { userId: 'user-1' },
+  chat: { id: 'chat-1' },
+  messageId: '10',
+  update: { update_id: 1 },
+  ...overrides,
+});
+
+describe('createForgetCallbackHandler', () => {
+  it('deletes user data after confirmation and edits the prompt', async () => {
+    const deleteUserData = vi.fn().mockResolvedValue({
+      deletedMessages: 3,
+      deletedUsers: 1,
+      deletedReminders: 0,
+      deletedBroadcastDeliveries: 0,
+      deletedRateLimitHits: 0,
+    });
+    const editMessageText = vi.fn().mockResolvedValue(undefined);
+    const onForgotten = vi.fn();
+    const handler = createForgetCallbackHandler({
+      storage: { deleteUserData },
+      messaging: { editMessageText },
+      onForgotten,
+    });
+
+    await expect(handler(createContext())).resolves.toBeUndefined();
+
+    expect(deleteUserData).toHaveBeenCalledWith({ userId: 'user-1' });
+    expect(onForgotten).toHaveBeenCalledWith('user-1');
+    expect(editMessageText).toHaveBeenCalledWith({
+      chatId: 'chat-1',
+      threadId: undefined,
+      messageId: '10',
+      text: 'Готово: история диалога и профиль удалены.',
+    });
+  });
+
+  it('keeps data when user cancels', async () => {
+    const deleteUserData = vi.fn();
+    const editMessageText = vi.fn().mockResolvedValue(undefined);
+    const handler = createForgetCallbackHandler({
+      storage: { deleteUserData },
+      messaging: { editMessageText },
+    });
+
+    await expect(handler(createContext({ data: 'forget:cancel:user-1' }))).resolves.toBeUndefined();
+
+    expect(deleteUserData).not.toHaveBeenCalled();
+    expect(editMessageText).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Удаление отменено.' }),
+    );
+  });
+
+  it('ignores confirmation pressed by another user', async () => {
+    const deleteUserData = vi.fn();
+    const editMessageText = vi.fn();
+    const handler = createForgetCallbackHandler({
+      storage: { deleteUserData },
+      messaging: { editMessageText },
+    });
+
+    await expect(handler(createContext({ from: { userId: 'user-2' } }))).resolves.toEqual({
+      text: 'Эта кнопка предназначена другому пользователю.',
+    });
+
+    expect(deleteUserData).not.toHaveBeenCalled();
+    expect(editMessageText).not.toHaveBeenCalled();
+  });
+
+  it('reports failure without confirming deletion', async () => {
+    const deleteUserData = vi.fn().mockRejectedValue(new Error('D1 unavailable'));
+    const editMessageText = vi.fn().mockResolvedValue(undefined);
+    const onForgotten = vi.fn();
+    const handler = createForgetCallbackHandler({
+      storage: { deleteUserData },
+      messaging: { editMessageText },
+      onForgotten,
+    });
+
+    await handler(createContext());
+
+    expect(onForgotten).not.toHaveBeenCalled();
+    expect(editMessageText).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Не получилось удалить данные. Попробуйте позже.' }),
+    );
+  });
+
+  it('skips unknown forget actions', async () => {
+    const deleteUserData = vi.fn();
+    const editMessageText = vi.fn();
+    const handler = createForgetCallbackHandler({
+      storage: { deleteUserData },
+      messaging: { editMessageText },
+    });
+
+    await expect(handler(createContext({ data: 'forget:purge:user-1' }))).resolves.toBeUndefined();
+    expect(deleteUserData).not.toHaveBeenCalled();
+    expect(editMessageText).not.toHaveBeenCalled();
+  });
+});
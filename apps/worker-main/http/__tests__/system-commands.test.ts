@@ -33,6 +33,13 @@ describe('system-commands roles', () => {
     expect(isCommandAllowedForRole(descriptor, 'scoped')).toBe(false);
   });
 
+  it('allows dialog history commands for global role', () => {
+    for (const descriptor of [findDescriptor('/reset'), findDescriptor('/forget')]) {
+      expect(isCommandAllowedForRole(descriptor, 'global')).toBe(true);
+      expect(isCommandAllowedForRole(descriptor, 'scoped')).toBe(false);
+    }
+  });
+
   it('allows /admin status only for scoped role', () => {
     const descriptor = findDescriptor('/admin status');
     expect(isCommandAllowedForRole(descriptor, 'global')).toBe(false);
@@ -3,6 +3,7 @@ import { afterEach, describe, expect, it, vi } from 'vitest';
 import { createTelegramBroadcastCommandHandler } from '../../features/broadcast/telegram-broadcast-command';
 import { createTelegramExportCommandHandler } from '../../features/export/telegram-export-command';
 import type { MessagingPort } from '../../ports';
+import { createMediaAttachmentPolicy } from '../media-attachments';
 import { resetLastTelegramUpdateSnapshot, transformTelegramUpdate } from '../telegram-webhook';
 import type { TelegramUpdate } from '../telegram-webhook';
 
@@ -513,6 +514,175 @@ describe('transformTelegramUpdate', () => {
     });
   });
 
+  it('passes transcribed voice messages to the dialog with metadata', async () => {
+    const update = createBaseUpdate();
+    if (!update.message) {
+      throw new Error('message is required for test');
+    }
+
+    delete update.message.text;
+    update.message.voice = { file_id: 'voice-file', duration: 7, file_size: 2048, mime_type: 'audio/ogg' };
+    const transcribeVoice = vi.fn().mockResolvedValue({
+      status: 'transcribed',
+      text: 'Привет из голосового',
+      metadata: { source: 'voice', transcribed: true, audioDurationSec: 7 },
+    });
+
+    const result = await transformTelegramUpdate(update, { transcribeVoice });
+
+    expect(transcribeVoice).toHaveBeenCalledWith({
+      attachment: {
+        kind: 'voice',
+        fileId: 'voice-file',
+        durationSec: 7,
+        fileSize: 2048,
+        mimeType: 'audio/ogg',
+      },
+      languageCode: 'en',
+      userId: '789',
+      chatId: '555',
+      threadId: undefined,
+    });
+    expect(result).toMatchObject({
+      kind: 'message',
+      route: 'telegram.message.voice',
+      message: {
+        text: 'Привет из голосового',
+        messageId: '456',
+        metadata: { source: 'voice', transcribed: true, audioDurationSec: 7 },
+      },
+    });
+  });
+
+  it('keeps voice refusal when transcription is rejected', async () => {
+    const update = createBaseUpdate();
+    if (!update.message) {
+      throw new Error('message is required for test');
+    }
+
+    delete update.message.text;
+    update.message.video_note = { file_id: 'note-file', duration: 600 };
+    const transcribeVoice = vi.fn().mockResolvedValue({ status: 'rejected', reason: 'too_long' });
+
+    const result = await transformTelegramUpdate(update, { transcribeVoice });
+
+    expect(transcribeVoice).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({
+      kind: 'non_text',
+      chat: { id: '555', threadId: undefined },
+      reply: 'voice',
+    });
+  });
+
+  it('replies with the limit notice when voice transcription is rate limited', async () => {
+    const update = createBaseUpdate();
+    if (!update.message) {
+      throw new Error('message is required for test');
+    }
+
+    delete update.message.text;
+    update.message.voice = { file_id: 'voice-file', duration: 5 };
+    const transcribeVoice = vi.fn().mockResolvedValue({ status: 'rejected', reason: 'rate_limited' });
+
+    const result = await transformTelegramUpdate(update, { transcribeVoice });
+
+    expect(result).toEqual({
+      kind: 'non_text',
+      chat: { id: '555', threadId: undefined },
+      reply: 'rate_limited',
+    });
+  });
+
+  it('passes accepted photos to the dialog with caption as text', async () => {
+    const update = createBaseUpdate();
+    if (!update.message) {
+      throw new Error('message is required for test');
+    }
+
+    delete update.message.text;
+    update.message.caption = 'Что на фото?';
+    update.message.photo = [
+      { file_id: 'photo-small', file_size: 1_000 },
+      { file_id: 'photo-large', file_size: 90_000 },
+    ];
+
+    const result = await transformTelegramUpdate(update, {
+      acceptMediaAttachment: createMediaAttachmentPolicy(),
+    });
+
+    expect(result).toMatchObject({
+      kind: 'message',
+      route: 'telegram.message.media',
+      message: {
+        text: 'Что на фото?',
+        attachments: [{ kind: 'image', fileId: 'photo-large', mimeType: 'image/jpeg', size: 90_000 }],
+      },
+    });
+  });
+
+  it('accepts documents without caption and rejects disallowed types', async () => {
+    const update = createBaseUpdate();
+    if (!update.message) {
+      throw new Error('message is required for test');
+    }
+
+    delete update.message.text;
+    update.message.document = {
+      file_id: 'doc-1',
+      file_name: 'invoice.pdf',
+      mime_type: 'application/pdf',
+      file_size: 2048,
+    };
+    const acceptMediaAttachment = createMediaAttachmentPolicy();
+
+    const accepted = await transformTelegramUpdate(update, { acceptMediaAttachment });
+
+    expect(accepted).toMatchObject({
+      kind: 'message',
+      message: {
+        text: '',
+        attachments: [
+          { kind: 'document', fileId: 'doc-1', mimeType: 'application/pdf', size: 2048, fileName: 'invoice.pdf' },
+        ],
+      },
+    });
+
+    update.message.document = { file_id: 'doc-2', file_name: 'run.exe', mime_type: 'application/x-msdownload' };
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+
+    await expect(transformTelegramUpdate(update, { acceptMediaAttachment })).resolves.toEqual({
+      kind: 'non_text',
+      chat: { id: '555', threadId: undefined },
+      reply: 'media',
+    });
+  });
+
+  it('replies with the limit notice when the media quota is exhausted', async () => {
+    const update = createBaseUpdate();
+    if (!update.message) {
+      throw new Error('message is required for test');
+    }
+
+    delete update.message.text;
+    update.message.document = { file_id: 'doc-1', mime_type: 'application/pdf', file_size: 2048 };
+    const rateLimit = { checkAndIncrement: vi.fn().mockResolvedValue('limit') };
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+
+    const result = await transformTelegramUpdate(update, {
+      acceptMediaAttachment: createMediaAttachmentPolicy({ rateLimit }),
+    });
+
+    expect(rateLimit.checkAndIncrement).toHaveBeenCalledWith({
+      userId: '789',
+      context: { chatId: '555', threadId: undefined, scope: 'media' },
+    });
+    expect(result).toEqual({
+      kind: 'non_text',
+      chat: { id: '555', threadId: undefined },
+      reply: 'rate_limited',
+    });
+  });
+
   it('returns non-text result for media messages without captions', async () => {
     const update = createBaseUpdate();
     if (!update.message) {
@@ -531,6 +701,38 @@ describe('transformTelegramUpdate', () => {
     });
   });
 
+  it('forwards unaccepted media with caption entities to features when enabled', async () => {
+    const update = createBaseUpdate();
+    if (!update.message) {
+      throw new Error('message is required for test');
+    }
+
+    delete update.message.text;
+    update.message.caption = 'Скидки';
+    update.message.caption_entities = [{ type: 'bold', offset: 0, length: 6 }];
+    update.message.photo = [
+      { file_id: 'photo-small', file_size: 1_000 },
+      { file_id: 'photo-large', file_size: 90_000 },
+    ];
+
+    const captioned = await transformTelegramUpdate(update, { forwardMediaToFeatures: true });
+    expect(captioned).toMatchObject({
+      kind: 'message',
+      message: { text: 'Скидки', entities: [{ type: 'bold', offset: 0, length: 6 }] },
+      featureAttachments: [{ kind: 'image', fileId: 'photo-large', origin: 'photo' }],
+    });
+    expect((captioned as { message: { attachments?: unknown } }).message.attachments).toBeUndefined();
+
+    delete update.message.caption;
+    delete update.message.caption_entities;
+
+    await expect(transformTelegramUpdate(update, { forwardMediaToFeatures: true })).resolves.toMatchObject({
+      kind: 'non_text',
+      reply: 'media',
+      message: { text: '', attachments: [{ fileId: 'photo-large', origin: 'photo' }] },
+    });
+  });
+
   it('returns handled ignored result when no message present', async () => {
     const result = await transformTelegramUpdate({ update_id: 1 });
 
@@ -538,6 +740,101 @@ describe('transformTelegramUpdate', () => {
     await expect(result.response?.json()).resolves.toEqual({ status: 'ignored' });
   });
 
+  it('routes callback queries to the feature handler', async () => {
+    const handleCallbackQuery = vi.fn().mockResolvedValue(true);
+
+    const result = await transformTelegramUpdate(
+      {
+        update_id: 2,
+        callback_query: {
+          id: 'cbq-1',
+          data: 'forget:confirm:789',
+          from: { id: 789n, first_name: 'Test' },
+          message: {
+            message_id: '456',
+            chat: { id: 555n, type: 'private' },
+          },
+        },
+      },
+      { features: { handleCallbackQuery } },
+    );
+
+    expect(result).toMatchObject({ kind: 'handled' });
+    await expect((result as { response?: Response }).response?.json()).resolves.toEqual({ status: 'ok' });
+    expect(handleCallbackQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        queryId: 'cbq-1',
+        data: 'forget:confirm:789',
+        from: expect.objectContaining({ userId: '789' }),
+        chat: { id: '555', threadId: undefined, type: 'private' },
+        messageId: '456',
+      }),
+    );
+  });
+
+  it('ignores callback queries that no feature recognizes', async () => {
+    const handleCallbackQuery = vi.fn().mockResolvedValue(false);
+
+    const result = await transformTelegramUpdate(
+      {
+        update_id: 3,
+        callback_query: {
+          id: 'cbq-2',
+          data: 'unknown',
+          from: { id: '789' },
+          message: { message_id: '456', chat: { id: '555' } },
+        },
+      },
+      { features: { handleCallbackQuery } },
+    );
+
+    expect(result).toMatchObject({ kind: 'handled' });
+    await expect((result as { response?: Response }).response?.json()).resolves.toEqual({ status: 'ignored' });
+  });
+
+  it('passes my_chat_member status changes to the feature handler', async () => {
+    const handleChatMemberUpdate = vi.fn().mockResolvedValue(undefined);
+
+    const result = await transformTelegramUpdate(
+      {
+        update_id: 4,
+        my_chat_member: {
+          chat: { id: 555n, type: 'private' },
+          from: { id: 555n, first_name: 'Test' },
+          date: 1_700_000_000,
+          old_chat_member: { status: 'member', user: { id: '1', is_bot: true } },
+          new_chat_member: { status: 'kicked', user: { id: '1', is_bot: true } },
+        },
+      },
+      { features: { handleChatMemberUpdate } },
+    );
+
+    expect(result).toMatchObject({ kind: 'handled' });
+    await expect((result as { response?: Response }).response?.json()).resolves.toEqual({ status: 'ok' });
+    expect(handleChatMemberUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chat: { id: '555', type: 'private' },
+        from: expect.objectContaining({ userId: '555' }),
+        status: 'kicked',
+        previousStatus: 'member',
+      }),
+    );
+  });
+
+  it('ignores my_chat_member updates without a feature handler', async () => {
+    const result = await transformTelegramUpdate({
+      update_id: 5,
+      my_chat_member: {
+        chat: { id: '555' },
+        from: { id: '555' },
+        new_chat_member: { status: 'kicked' },
+      },
+    });
+
+    expect(result).toMatchObject({ kind: 'handled' });
+    await expect((result as { response?: Response }).response?.json()).resolves.toEqual({ status: 'ignored' });
+  });
+
   it('sends export file for /export command', async () => {
     const update = createBaseUpdate();
     if (!update.message) {
@@ -597,6 +894,29 @@ describe('transformTelegramUpdate', () => {
     );
   });
 
+  it('routes /stats to admin command handlers', async () => {
+    const update = createBaseUpdate();
+    if (!update.message) {
+      throw new Error('message is required for test');
+    }
+
+    update.message.text = '/stats 2026-10-01 2026-10-07';
+    update.message.entities = [
+      { type: 'bot_command', offset: 0, length: '/stats'.length },
+    ];
+
+    const handleAdminCommand = vi.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+
+    const result = await transformTelegramUpdate(update, {
+      features: { handleAdminCommand },
+    });
+
+    expect(result).toMatchObject({ kind: 'handled' });
+    expect(handleAdminCommand).toHaveBeenCalledWith(
+      expect.objectContaining({ command: '/stats', argument: '2026-10-01 2026-10-07' }),
+    );
+  });
+
   it('falls back to dialog message for /export when user is not admin', async () => {
     const update = createBaseUpdate();
     if (!update.message) {
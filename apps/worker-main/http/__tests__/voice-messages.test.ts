@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createVoiceMessageTranscriber } from '../voice-messages';
+
+const createPorts = () => ({
+  messaging: {
+    downloadFile: vi.fn().mockResolvedValue({
+      data: new Uint8Array([1, 2, 3]).buffer,
+      filePath: 'voice/file_1.oga',
+      size: 3,
+    }),
+  },
+  transcription: {
+    transcribe: vi.fn().mockResolvedValue({
+      text: ' Привет ',
+      language: 'russian',
+      metadata: { transcriptionModel: 'whisper-1' },
+    }),
+  },
+});
+
+describe('createVoiceMessageTranscriber', () => {
+  it('downloads and transcribes voice attachments', async () => {
+    const ports = createPorts();
+    const transcribe = createVoiceMessageTranscriber({ ...ports, maxFileBytes: 1024 });
+
+    const outcome = await transcribe({
+      attachment: { kind: 'voice', fileId: 'file-1', durationSec: 4, mimeType: 'audio/ogg' },
+      languageCode: 'ru',
+    });
+
+    expect(ports.messaging.downloadFile).toHaveBeenCalledWith({ fileId: 'file-1', maxBytes: 1024 });
+    expect(ports.transcription.transcribe).toHaveBeenCalledWith({
+      audio: expect.any(ArrayBuffer),
+      fileName: 'file_1.oga',
+      mimeType: 'audio/ogg',
+      languageCode: 'ru',
+    });
+    expect(outcome).toEqual({
+      status: 'transcribed',
+      text: 'Привет',
+      metadata: {
+        transcriptionModel: 'whisper-1',
+        source: 'voice',
+        transcribed: true,
+        audioDurationSec: 4,
+        transcriptionLanguage: 'russian',
+      },
+    });
+  });
+
+  it('rejects attachments over limits before downloading', async () => {
+    const ports = createPorts();
+    const transcribe = createVoiceMessageTranscriber({ ...ports, maxDurationSec: 60, maxFileBytes: 1024 });
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+
+    await expect(
+      transcribe({ attachment: { kind: 'voice', fileId: 'a', durationSec: 61 } }),
+    ).resolves.toEqual({ status: 'rejected', reason: 'too_long' });
+    await expect(
+      transcribe({ attachment: { kind: 'video_note', fileId: 'b', fileSize: 4096 } }),
+    ).resolves.toEqual({ status: 'rejected', reason: 'too_large' });
+
+    expect(ports.messaging.downloadFile).not.toHaveBeenCalled();
+  });
+
+  it('maps download and transcription failures to rejections', async () => {
+    const ports = createPorts();
+    const transcribe = createVoiceMessageTranscriber(ports);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+
+    ports.messaging.downloadFile.mockRejectedValueOnce(new Error('FILE_TOO_LARGE'));
+    await expect(transcribe({ attachment: { kind: 'voice', fileId: 'a' } })).resolves.toEqual({
+      status: 'rejected',
+      reason: 'too_large',
+    });
+
+    ports.transcription.transcribe.mockResolvedValueOnce({ text: '   ' });
+    await expect(transcribe({ attachment: { kind: 'voice', fileId: 'a' } })).resolves.toEqual({
+      status: 'rejected',
+      reason: 'empty',
+    });
+
+    ports.transcription.transcribe.mockRejectedValueOnce(new Error('boom'));
+    await expect(transcribe({ attachment: { kind: 'voice', fileId: 'a' } })).resolves.toEqual({
+      status: 'rejected',
+      reason: 'failed',
+    });
+  });
+
+  it('checks the voice rate limit before downloading', async () => {
+    const ports = createPorts();
+    const rateLimit = { checkAndIncrement: vi.fn().mockResolvedValueOnce('ok').mockResolvedValueOnce('limit') };
+    const transcribe = createVoiceMessageTranscriber({ ...ports, rateLimit });
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+
+    const input = {
+      attachment: { kind: 'voice' as const, fileId: 'a', durationSec: 3 },
+      userId: 'user-1',
+      chatId: 'chat-1',
+      threadId: 'thread-1',
+    };
+
+    await expect(transcribe(input)).resolves.toMatchObject({ status: 'transcribed' });
+    await expect(transcribe(input)).resolves.toEqual({ status: 'rejected', reason: 'rate_limited' });
+
+    expect(rateLimit.checkAndIncrement).toHaveBeenCalledWith({
+      userId: 'user-1',
+      context: { chatId: 'chat-1', threadId: 'thread-1', scope: 'voice' },
+    });
+    expect(ports.messaging.downloadFile).toHaveBeenCalledTimes(1);
+    expect(ports.transcription.transcribe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,247 @@
+import type { IncomingMessage } from '../core';
+import type { MessagingPort } from '../ports';
+import type {
+  TelegramAdminCommandContext,
+  TelegramCallbackQueryContext,
+  TelegramMessage,
+} from './telegram-webhook';
+
+/**
+ * Telegram ограничивает `callback_data` 64 байтами, подпись занимает из них 9.
+ */
+const CALLBACK_DATA_MAX_BYTES = 64;
+const SIGNATURE_SEPARATOR = '|';
+const SIGNATURE_BYTES = 6;
+const STALE_CALLBACK_TEXT = 'Кнопка устарела. Повторите команду.';
+const FAILED_CALLBACK_TEXT = 'Не получилось выполнить действие. Попробуйте позже.';
+
+const textEncoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/u, '');
+};
+
+const timingSafeEqual = (left: string, right: string): boolean => {
+  if (left.length !== right.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    diff |= left.charCodeAt(index) ^ right.charCodeAt(index);
+  }
+
+  return diff === 0;
+};
+
+export interface CallbackDataSigner {
+  /**
+   * Добавляет к данным кнопки укороченную HMAC-подпись. Бросает ошибку, если
+   * результат не помещается в лимит Telegram.
+   */
+  sign(payload: string): Promise<string>;
+  /**
+   * Возвращает исходные данные кнопки или `undefined`, если подпись не совпала.
+   */
+  verify(data: string): Promise<string | undefined>;
+}
+
+export interface CallbackDataSignerOptions {
+  secret: string;
+}
+
+/**
+ * Подписывает `callback_data`, чтобы webhook принимал только кнопки, выпущенные
+ * самим ботом: клиент может прислать произвольную строку в `callback_query`.
+ */
+export const createCallbackDataSigner = (options: CallbackDataSignerOptions): CallbackDataSigner => {
+  let keyPromise: ReturnType<typeof crypto.subtle.importKey> | undefined;
+
+  const getKey = () => {
+    keyPromise ??= crypto.subtle.importKey(
+      'raw',
+      textEncoder.encode(options.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+
+    return keyPromise;
+  };
+
+  const computeSignature = async (payload: string): Promise<string> => {
+    const digest = await crypto.subtle.sign('HMAC', await getKey(), textEncoder.encode(payload));
+    return toBase64Url(new Uint8Array(digest).slice(0, SIGNATURE_BYTES));
+  };
+
+  return {
+    async sign(payload) {
+      const data = `${payload}${SIGNATURE_SEPARATOR}${await computeSignature(payload)}`;
+      if (textEncoder.encode(data).length > CALLBACK_DATA_MAX_BYTES) {
+        throw new Error('CALLBACK_DATA_TOO_LONG');
+      }
+
+      return data;
+    },
+
+    async verify(data) {
+      const separatorIndex = data.lastIndexOf(SIGNATURE_SEPARATOR);
+      if (separatorIndex <= 0) {
+        return undefined;
+      }
+
+      const payload = data.slice(0, separatorIndex);
+      const signature = data.slice(separatorIndex + 1);
+      const expected = await computeSignature(payload);
+
+      return timingSafeEqual(signature, expected) ? payload : undefined;
+    },
+  };
+};
+
+export interface CallbackQueryAnswer {
+  text?: string;
+  showAlert?: boolean;
+}
+
+/**
+ * Обработчик пространства имён кнопок. В `context.data` приходят уже
+ * проверенные данные без подписи, например `broadcast:pause:<jobId>`.
+ */
+export type CallbackQueryRoute = (
+  context: TelegramCallbackQueryContext,
+) => Promise<CallbackQueryAnswer | void> | CallbackQueryAnswer | void;
+
+export interface CallbackQueryDispatcherOptions {
+  signer: CallbackDataSigner;
+  messaging: Pick<MessagingPort, 'answerCallbackQuery'>;
+  /**
+   * Обработчики по пространству имён — части данных кнопки до первого `:`.
+   */
+  routes: Readonly<Record<string, CallbackQueryRoute>>;
+}
+
+export type CallbackQueryDispatcher = (context: TelegramCallbackQueryContext) => Promise<boolean>;
+
+/**
+ * Проверяет подпись `callback_data`, передаёт нажатие обработчику по
+ * пространству имён и всегда подтверждает callback, чтобы у пользователя
+ * не зависал индикатор загрузки на кнопке.
+ */
+export const createCallbackQueryDispatcher = (
+  options: CallbackQueryDispatcherOptions,
+): CallbackQueryDispatcher => {
+  const answer = async (queryId: string, result?: CallbackQueryAnswer | void) => {
+    try {
+      await options.messaging.answerCallbackQuery?.({
+        callbackQueryId: queryId,
+        ...(result?.text ? { text: result.text } : {}),
+        ...(result?.showAlert ? { showAlert: true } : {}),
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('[callback-queries] failed to answer callback query', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return async (context) => {
+    const payload = await options.signer.verify(context.data);
+    if (!payload) {
+      // eslint-disable-next-line no-console
+      console.warn('[callback-queries] callback data signature mismatch', {
+        updateId: context.update.update_id,
+      });
+      await answer(context.queryId, { text: STALE_CALLBACK_TEXT });
+      return true;
+    }
+
+    const namespace = payload.split(':', 1)[0];
+    const route = Object.prototype.hasOwnProperty.call(options.routes, namespace)
+      ? options.routes[namespace]
+      : undefined;
+
+    if (!route) {
+      // eslint-disable-next-line no-console
+      console.warn('[callback-queries] no route for callback namespace', { namespace });
+      await answer(context.queryId);
+      return false;
+    }
+
+    let result: CallbackQueryAnswer | void;
+    try {
+      result = await route({ ...context, data: payload });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('[callback-queries] callback route failed', {
+        namespace,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await answer(context.queryId, { text: FAILED_CALLBACK_TEXT });
+      return true;
+    }
+
+    await answer(context.queryId, result);
+    return true;
+  };
+};
+
+/**
+ * Представляет нажатие кнопки как входящее сообщение с текстом команды, чтобы
+ * сценарии, ожидающие `/send` или `/cancel_broadcast`, не дублировали логику.
+ */
+export const createCallbackIncomingMessage = (
+  context: TelegramCallbackQueryContext,
+  text: string,
+): IncomingMessage => ({
+  user: {
+    userId: context.from.userId,
+    username: context.from.username,
+    firstName: context.from.firstName,
+    lastName: context.from.lastName,
+    languageCode: context.from.languageCode,
+  },
+  chat: { id: context.chat.id, threadId: context.chat.threadId },
+  text,
+  receivedAt: new Date(),
+});
+
+/**
+ * Представляет нажатие кнопки как админ-команду: обработчик проходит те же
+ * проверки доступа, что и при ручном вводе команды.
+ */
+export const createCallbackCommandContext = (
+  context: TelegramCallbackQueryContext,
+  command: string,
+  argument?: string,
+): TelegramAdminCommandContext & Pick<TelegramCallbackQueryContext, 'waitUntil'> => {
+  const text = argument ? `${command} ${argument}` : command;
+  // `message` в callback_query необязателен, поэтому собираем минимальное сообщение сами.
+  const fallbackMessage: TelegramMessage = {
+    message_id: context.messageId,
+    chat: { id: context.chat.id, ...(context.chat.type ? { type: context.chat.type } : {}) },
+    ...(context.chat.threadId ? { message_thread_id: context.chat.threadId } : {}),
+    text,
+  };
+  const message = context.update.callback_query?.message ?? fallbackMessage;
+
+  return {
+    command,
+    rawCommand: command,
+    argument,
+    text,
+    chat: context.chat,
+    from: context.from,
+    messageId: context.messageId,
+    update: context.update,
+    message,
+    incomingMessage: createCallbackIncomingMessage(context, text),
+    ...(context.waitUntil ? { waitUntil: context.waitUntil } : {}),
+  };
+};
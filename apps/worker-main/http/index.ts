@@ -31,9 +31,43 @@ export {
   type SystemCommandRegistry,
   type SystemCommandRole,
 } from './system-commands';
+export {
+  createForgetCallbackHandler,
+  FORGET_CALLBACK_NAMESPACE,
+  type ForgetCallbackHandlerOptions,
+} from './system-command-handlers';
+export {
+  createCallbackCommandContext,
+  createCallbackDataSigner,
+  createCallbackIncomingMessage,
+  createCallbackQueryDispatcher,
+  type CallbackDataSigner,
+  type CallbackDataSignerOptions,
+  type CallbackQueryAnswer,
+  type CallbackQueryDispatcher,
+  type CallbackQueryDispatcherOptions,
+  type CallbackQueryRoute,
+} from './callback-queries';
+export {
+  createMediaAttachmentPolicy,
+  type MediaAttachmentOutcome,
+  type MediaAttachmentPolicy,
+  type MediaAttachmentPolicyOptions,
+  type MediaAttachmentRejectionReason,
+} from './media-attachments';
+export {
+  createVoiceMessageTranscriber,
+  type VoiceAttachment,
+  type VoiceMessageTranscriber,
+  type VoiceMessageTranscriberOptions,
+  type VoiceTranscriptionOutcome,
+} from './voice-messages';
 export {
   transformTelegramUpdate,
   type TelegramAdminCommandContext,
+  type TelegramCallbackQuery,
+  type TelegramCallbackQueryContext,
+  type TelegramChatMemberContext,
   type TelegramCommandUser,
   type TelegramMessage,
   type TelegramMessageEntity,
@@ -0,0 +1,99 @@
+import type { MessageAttachment, RateLimitPort } from '../ports';
+
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_ALLOWED_MIME_TYPES: ReadonlyArray<string> = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+];
+
+export type MediaAttachmentRejectionReason = 'too_large' | 'unsupported_type' | 'rate_limited';
+
+export type MediaAttachmentOutcome =
+  | {
+      status: 'accepted';
+      attachment: MessageAttachment;
+    }
+  | {
+      status: 'rejected';
+      reason: MediaAttachmentRejectionReason;
+    };
+
+/**
+ * Выбирает вложение из кандидатов одного сообщения. Для фото кандидаты — это
+ * размеры одного снимка от большего к меньшему, для документа — сам файл.
+ */
+export type MediaAttachmentPolicy = (input: {
+  userId: string;
+  chatId?: string;
+  threadId?: string;
+  candidates: ReadonlyArray<MessageAttachment>;
+}) => Promise<MediaAttachmentOutcome>;
+
+export interface MediaAttachmentPolicyOptions {
+  maxFileBytes?: number;
+  allowedMimeTypes?: ReadonlyArray<string>;
+  /**
+   * Квота файлов на пользователя за окно лимитера. Считаются только файлы,
+   * прошедшие проверку типа и размера.
+   */
+  rateLimit?: RateLimitPort;
+}
+
+/**
+ * Лимиты применяются к каждому присланному пользователем файлу: неизвестный
+ * или неразрешённый MIME-тип отклоняется, из размеров фото берётся самый
+ * крупный, укладывающийся в `maxFileBytes`, после чего файл списывается
+ * с квоты пользователя.
+ */
+export const createMediaAttachmentPolicy = (
+  options: MediaAttachmentPolicyOptions = {},
+): MediaAttachmentPolicy => {
+  const maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+  const allowedMimeTypes = new Set(
+    (options.allowedMimeTypes ?? DEFAULT_ALLOWED_MIME_TYPES).map((type) => type.trim().toLowerCase()),
+  );
+
+  return async ({ userId, chatId, threadId, candidates }) => {
+    const supported = candidates.filter(
+      (candidate) => candidate.mimeType && allowedMimeTypes.has(candidate.mimeType.toLowerCase()),
+    );
+
+    if (supported.length === 0) {
+      // eslint-disable-next-line no-console
+      console.info('[media] attachment type is not allowed', {
+        userId,
+        mimeType: candidates[0]?.mimeType ?? null,
+      });
+      return { status: 'rejected', reason: 'unsupported_type' };
+    }
+
+    const attachment = supported.find((candidate) => (candidate.size ?? 0) <= maxFileBytes);
+    if (!attachment) {
+      // eslint-disable-next-line no-console
+      console.info('[media] attachment exceeds size limit', {
+        userId,
+        size: supported[supported.length - 1]?.size ?? null,
+        maxFileBytes,
+      });
+      return { status: 'rejected', reason: 'too_large' };
+    }
+
+    if (options.rateLimit && chatId) {
+      const decision = await options.rateLimit.checkAndIncrement({
+        userId,
+        context: { chatId, threadId, scope: 'media' },
+      });
+
+      if (decision === 'limit') {
+        // eslint-disable-next-line no-console
+        console.info('[media] attachment quota reached', { userId, fileId: attachment.fileId });
+        return { status: 'rejected', reason: 'rate_limited' };
+      }
+    }
+
+    return { status: 'accepted', attachment };
+  };
+};
@@ -1,6 +1,7 @@
 import { DialogEngine, type IncomingMessage } from '../core';
-import type { MessagingPort } from '../ports';
+import type { InlineKeyboardMarkup, MessageAttachment, MessagingPort, StoragePort } from '../ports';
 import type { TypingIndicator } from './typing-indicator';
+import type { CallbackDataSigner } from './callback-queries';
 import { safeWebhookHandler } from './safe-webhook';
 import {
   recordTelegramSnapshotAction,
@@ -20,6 +21,8 @@ import {
 import {
   createAdminCommandInvalidUsageHandler,
   createAdminStatusCommandHandler,
+  createForgetCommandHandler,
+  createResetCommandHandler,
   createStartCommandHandler,
   type RouterCommandHandler,
   type StartCommandDedupe,
@@ -51,17 +54,31 @@ const formatAdminUsageMessage = (examples?: readonly string[]): string => {
 
 interface DefaultSystemCommandHandlersOptions {
   startCommandOptions?: StartCommandHandlerOptions;
+  storage?: StoragePort;
+  callbackData?: CallbackDataSigner;
 }
 
 const createDefaultSystemCommandHandlers = (
   options?: DefaultSystemCommandHandlersOptions,
-): Map<string, RouterCommandHandler> =>
-  new Map([
+): Map<string, RouterCommandHandler> => {
+  const handlers = new Map<string, RouterCommandHandler>([
     ['/start', createStartCommandHandler(options?.startCommandOptions)],
     ['/admin status', createAdminStatusCommandHandler()],
     ['/admin', createAdminCommandInvalidUsageHandler(ADMIN_COMMAND_EXAMPLES)],
   ]);
 
+  const storage = options?.storage;
+  if (storage) {
+    handlers.set('/reset', createResetCommandHandler({ storage }));
+
+    if (storage.deleteUserData && options?.callbackData) {
+      handlers.set('/forget', createForgetCommandHandler({ callbackData: options.callbackData }));
+    }
+  }
+
+  return handlers;
+};
+
 const START_DEDUP_TTL_SECONDS = 60;
 const START_DEDUP_TTL_MS = START_DEDUP_TTL_SECONDS * 1000;
 type StartDedupeKvNamespace = Pick<KVNamespace, 'get' | 'put'>;
@@ -162,12 +179,26 @@ export interface MessageWebhookResult {
   fromId?: unknown;
   messageId?: string;
   route?: string;
+  /**
+   * Фото или документ, не прошедшие в диалог: их видят только фичи, диалог
+   * получает одну подпись.
+   */
+  featureAttachments?: MessageAttachment[];
 }
 
 export interface NonTextWebhookResult {
   kind: 'non_text';
   chat: { id: string; threadId?: string };
-  reply: 'media' | 'voice';
+  /**
+   * `rate_limited` — голосовое или файл отклонены пользовательским лимитом,
+   * отвечаем как при исчерпанном лимите ответов.
+   */
+  reply: 'media' | 'voice' | 'rate_limited';
+  /**
+   * Сообщение с медиа для фич; если ни одна его не обработала, отвечает
+   * напоминание писать текстом.
+   */
+  message?: IncomingMessage;
 }
 
 export type TransformPayloadResult =
@@ -210,7 +241,7 @@ const isNonTextWebhookResult = (value: unknown): value is NonTextWebhookResult =
   isRecord(value.chat) &&
   typeof value.chat.id === 'string' &&
   (value.chat.threadId === undefined || typeof value.chat.threadId === 'string') &&
-  (value.reply === 'media' || value.reply === 'voice');
+  (value.reply === 'media' || value.reply === 'voice' || value.reply === 'rate_limited');
 
 const toOptionalString = (value: unknown): string | undefined =>
   (typeof value === 'string' && value.length > 0 ? value : undefined);
@@ -420,6 +451,14 @@ export const parseIncomingMessage = (payload: unknown): IncomingMessage => {
 export interface RouterOptions {
   dialogEngine: DialogEngine;
   messaging: MessagingPort;
+  /**
+   * Хранилище для пользовательских команд управления историей (`/reset`, `/forget`).
+   */
+  storage?: StoragePort;
+  /**
+   * Подпись данных inline-кнопок; без неё `/forget` не регистрируется.
+   */
+  callbackData?: CallbackDataSigner;
   webhookSecret?: string;
   transformPayload?: TransformPayload;
   systemCommands?: SystemCommandRegistry;
@@ -432,22 +471,37 @@ export interface RouterOptions {
       threadId?: string;
     }): Promise<{ handled: boolean }>;
   };
+  /**
+   * Журнал отказов по лимиту для статистики `/admin/stats`.
+   */
+  rateLimitHits?: {
+    record(hit: { userId: string; chatId: string; threadId?: string; hitAt: Date }): Promise<void>;
+  };
   startDedupeKv?: StartDedupeKvNamespace;
   admin?: {
     token: string;
     exportToken?: string;
     export?: (request: Request) => Promise<Response>;
+    stats?: (request: Request) => Promise<Response>;
     selfTest?: (request: Request) => Promise<Response>;
     envz?: (request: Request) => Promise<Response>;
     accessDiagnostics?: (request: Request) => Promise<Response>;
     diag?: (request: Request) => Promise<Response>;
     knownUsersClear?: (request: Request) => Promise<Response>;
     d1Stress?: (request: Request) => Promise<Response>;
+    cronRun?: (request: Request) => Promise<Response>;
     broadcastRecipients?: {
       list: (request: Request) => Promise<Response>;
       upsert: (request: Request) => Promise<Response>;
       deactivate: (request: Request, chatId: string) => Promise<Response>;
     };
+    scheduledBroadcasts?: {
+      list: (request: Request) => Promise<Response>;
+      cancel: (request: Request, jobId: string) => Promise<Response>;
+    };
+    broadcastDeliveries?: {
+      list: (request: Request, jobId: string) => Promise<Response>;
+    };
   };
 }
 
@@ -474,6 +528,8 @@ export const createRouter = (options: RouterOptions) => {
   const startDedupeStore = createStartDedupeStore(options.startDedupeKv);
   const systemCommandHandlers = createDefaultSystemCommandHandlers({
     startCommandOptions: { dedupe: startDedupeStore },
+    storage: options.storage,
+    callbackData: options.callbackData,
   });
   const defaultTransformPayload: TransformPayloadWithCommands = Object.assign(
     async (payload: unknown) => parseIncomingMessage(payload),
@@ -580,12 +636,16 @@ export const createRouter = (options: RouterOptions) => {
       }
 
       if (isNonTextWebhookResult(transformed)) {
-        const text = transformed.reply === 'voice' ? '🔇  👉📝' : '🖼️❌  👉📝';
+        const text = transformed.reply === 'rate_limited'
+          ? RATE_LIMIT_FALLBACK_TEXT
+          : transformed.reply === 'voice'
+            ? '🔇  👉📝'
+            : '🖼️❌  👉📝';
         try {
           await logMessagingCall(
             {
               action: 'sendText',
-              route: transformed.reply === 'voice' ? 'non_text_voice' : 'non_text_media',
+              route: `non_text_${transformed.reply}`,
               updateId,
               chatIdNormalized: transformed.chat.id,
             },
@@ -782,7 +842,11 @@ export const createRouter = (options: RouterOptions) => {
         return jsonResponse({ status: 'ok', messageId: null });
       }
 
-      const sendSystemCommandText = async (payload: { text: string; route: string }) => {
+      const sendSystemCommandText = async (payload: {
+        text: string;
+        route: string;
+        replyMarkup?: InlineKeyboardMarkup;
+      }) => {
         const logDetails = messageLogDetails
           ? { ...messageLogDetails, route: payload.route }
           : {
@@ -799,6 +863,7 @@ export const createRouter = (options: RouterOptions) => {
             chatId: message.chat.id,
             threadId: message.chat.threadId,
             text: payload.text,
+            ...(payload.replyMarkup ? { replyMarkup: payload.replyMarkup } : {}),
           }),
         );
 
@@ -849,6 +914,20 @@ export const createRouter = (options: RouterOptions) => {
       if (dialogResult.status === 'rate_limited') {
         let rateLimitHandled = false;
 
+        if (options.rateLimitHits) {
+          try {
+            await options.rateLimitHits.record({
+              userId: message.user.userId,
+              chatId: message.chat.id,
+              threadId: message.chat.threadId,
+              hitAt: new Date(),
+            });
+          } catch (error) {
+            // eslint-disable-next-line no-console
+            console.warn('[router] failed to record rate limit hit', error);
+          }
+        }
+
         if (options.rateLimitNotifier) {
           try {
             const notificationResult = await options.rateLimitNotifier.notify({
@@ -946,6 +1025,25 @@ export const createRouter = (options: RouterOptions) => {
         return options.admin.export(auth.request);
       }
 
+      if (pathname === '/admin/stats') {
+        if (!options.admin?.stats) {
+          return handleNotFound();
+        }
+
+        const auth = ensureAdminAuthorization(
+          request,
+          url,
+          [options.admin.exportToken, options.admin.token].filter(
+            (token): token is string => typeof token === 'string' && token.length > 0,
+          ),
+        );
+        if (!auth.ok) {
+          return auth.response;
+        }
+
+        return options.admin.stats(auth.request);
+      }
+
       if (pathname === '/admin/selftest') {
         if (!options.admin?.selfTest) {
           return handleNotFound();
@@ -1038,6 +1136,60 @@ export const createRouter = (options: RouterOptions) => {
         return options.admin.broadcastRecipients.deactivate(auth.request, chatId);
       }
 
+      if (pathname === '/admin/broadcast/scheduled') {
+        if (!options.admin?.scheduledBroadcasts) {
+          return handleNotFound();
+        }
+
+        const auth = ensureAdminAuthorization(request, url);
+        if (!auth.ok) {
+          return auth.response;
+        }
+
+        if (request.method !== 'GET') {
+          return new Response('Method Not Allowed', { status: 405 });
+        }
+
+        return options.admin.scheduledBroadcasts.list(auth.request);
+      }
+
+      if (pathname.startsWith('/admin/broadcast/scheduled/')) {
+        if (!options.admin?.scheduledBroadcasts) {
+          return handleNotFound();
+        }
+
+        const auth = ensureAdminAuthorization(request, url);
+        if (!auth.ok) {
+          return auth.response;
+        }
+
+        if (request.method !== 'DELETE') {
+          return new Response('Method Not Allowed', { status: 405 });
+        }
+
+        const segments = normalizePath(pathname).split('/').filter(Boolean);
+        const jobId = decodeURIComponent(segments[segments.length - 1] ?? '');
+        return options.admin.scheduledBroadcasts.cancel(auth.request, jobId);
+      }
+
+      const deliveriesMatch = /^\/admin\/broadcast\/jobs\/([^/]+)\/deliveries$/.exec(normalizePath(pathname));
+      if (deliveriesMatch) {
+        if (!options.admin?.broadcastDeliveries) {
+          return handleNotFound();
+        }
+
+        const auth = ensureAdminAuthorization(request, url);
+        if (!auth.ok) {
+          return auth.response;
+        }
+
+        if (request.method !== 'GET') {
+          return new Response('Method Not Allowed', { status: 405 });
+        }
+
+        return options.admin.broadcastDeliveries.list(auth.request, decodeURIComponent(deliveriesMatch[1]));
+      }
+
       if (pathname === '/admin/d1-stress') {
         if (!options.admin?.d1Stress) {
           return handleNotFound();
@@ -1051,6 +1203,19 @@ export const createRouter = (options: RouterOptions) => {
         return options.admin.d1Stress(auth.request);
       }
 
+      if (pathname === '/admin/cron/run') {
+        if (!options.admin?.cronRun) {
+          return handleNotFound();
+        }
+
+        const auth = ensureAdminAuthorization(request, url);
+        if (!auth.ok) {
+          return auth.response;
+        }
+
+        return options.admin.cronRun(auth.request);
+      }
+
       if (pathname === '/admin/diag') {
         if (!options.admin?.diag) {
           return handleNotFound();
@@ -1,10 +1,16 @@
 import type { IncomingMessage } from '../core';
+import type { InlineKeyboardMarkup, MessagingPort, StoragePort } from '../ports';
+import type { CallbackDataSigner, CallbackQueryRoute } from './callback-queries';
 import type { SystemCommandMatch } from './system-commands';
 
 export interface RouterCommandHandlerContext {
   message: IncomingMessage;
   match: SystemCommandMatch;
-  sendText(options: { text: string; route: string }): Promise<string | null>;
+  sendText(options: {
+    text: string;
+    route: string;
+    replyMarkup?: InlineKeyboardMarkup;
+  }): Promise<string | null>;
   updateId?: string | number;
 }
 
@@ -59,3 +65,155 @@ export const createAdminStatusCommandHandler = (): RouterCommandHandler => async
 export const createAdminCommandInvalidUsageHandler = (
   examples: readonly string[],
 ): RouterCommandHandler => async () => ({ kind: 'invalid_usage', examples });
+
+export const CONTEXT_RESET_MARKER_TEXT = '[context reset]';
+const RESET_DONE_TEXT = 'Контекст диалога очищен — начнём с чистого листа.';
+
+export interface ResetCommandHandlerOptions {
+  storage: Pick<StoragePort, 'appendMessage'>;
+}
+
+/**
+ * Записывает маркер границы контекста: хранилище перестаёт отдавать модели всё,
+ * что было до него, но сама история остаётся для выгрузок.
+ */
+export const createResetCommandHandler = (
+  options: ResetCommandHandlerOptions,
+): RouterCommandHandler => async ({ message, sendText }) => {
+  await options.storage.appendMessage({
+    userId: message.user.userId,
+    chatId: message.chat.id,
+    threadId: message.chat.threadId,
+    role: 'system',
+    text: CONTEXT_RESET_MARKER_TEXT,
+    timestamp: message.receivedAt,
+    metadata: {
+      kind: 'context_reset',
+      ...(message.messageId ? { messageId: message.messageId } : {}),
+    },
+  });
+
+  const messageId = await sendText({ text: RESET_DONE_TEXT, route: 'system_reset' });
+  return { kind: 'handled', messageId };
+};
+
+export const FORGET_CALLBACK_NAMESPACE = 'forget';
+const FORGET_CONFIRMATION_TEXT = [
+  'Удалить всю историю диалога и профиль?',
+  'Это действие нельзя отменить.',
+].join('\n');
+const FORGET_DONE_TEXT = 'Готово: история диалога и профиль удалены.';
+const FORGET_CANCELLED_TEXT = 'Удаление отменено.';
+const FORGET_FAILED_TEXT = 'Не получилось удалить данные. Попробуйте позже.';
+const FORGET_FOREIGN_TEXT = 'Эта кнопка предназначена другому пользователю.';
+
+type ForgetAction = 'confirm' | 'cancel';
+
+const createForgetCallbackData = (action: ForgetAction, userId: string) =>
+  `${FORGET_CALLBACK_NAMESPACE}:${action}:${userId}`;
+
+const parseForgetCallbackData = (
+  data: string,
+): { action: ForgetAction; userId: string } | undefined => {
+  const [namespace, action, userId] = data.split(':');
+  if (namespace !== FORGET_CALLBACK_NAMESPACE || !userId) {
+    return undefined;
+  }
+
+  if (action !== 'confirm' && action !== 'cancel') {
+    return undefined;
+  }
+
+  return { action, userId };
+};
+
+export interface ForgetCommandHandlerOptions {
+  callbackData: Pick<CallbackDataSigner, 'sign'>;
+}
+
+export const createForgetCommandHandler = (
+  options: ForgetCommandHandlerOptions,
+): RouterCommandHandler => async ({ message, sendText }) => {
+  const userId = message.user.userId;
+  const [confirmData, cancelData] = await Promise.all([
+    options.callbackData.sign(createForgetCallbackData('confirm', userId)),
+    options.callbackData.sign(createForgetCallbackData('cancel', userId)),
+  ]);
+
+  const messageId = await sendText({
+    text: FORGET_CONFIRMATION_TEXT,
+    route: 'system_forget',
+    replyMarkup: {
+      inlineKeyboard: [[
+        { text: 'Удалить', callbackData: confirmData },
+        { text: 'Отмена', callbackData: cancelData },
+      ]],
+    },
+  });
+
+  return { kind: 'handled', messageId };
+};
+
+export interface ForgetCallbackHandlerOptions {
+  storage: Pick<StoragePort, 'deleteUserData'>;
+  messaging: Pick<MessagingPort, 'editMessageText'>;
+  onForgotten?(userId: string): void;
+}
+
+/**
+ * Обрабатывает кнопки подтверждения `/forget` (пространство имён `forget`
+ * в диспетчере callback-запросов). Кнопка привязана к автору команды:
+ * нажатие другим участником чата ничего не удаляет.
+ */
+export const createForgetCallbackHandler = (
+  options: ForgetCallbackHandlerOptions,
+): CallbackQueryRoute => async (context) => {
+  const parsed = parseForgetCallbackData(context.data);
+  if (!parsed) {
+    return undefined;
+  }
+
+  if (parsed.userId !== context.from.userId) {
+    // eslint-disable-next-line no-console
+    console.warn('[router] forget confirmation from another user ignored', {
+      route: 'system_forget',
+    });
+    return { text: FORGET_FOREIGN_TEXT };
+  }
+
+  const editText = (text: string) =>
+    options.messaging.editMessageText({
+      chatId: context.chat.id,
+      threadId: context.chat.threadId,
+      messageId: context.messageId,
+      text,
+    });
+
+  if (parsed.action === 'cancel') {
+    await editText(FORGET_CANCELLED_TEXT);
+    return undefined;
+  }
+
+  if (!options.storage.deleteUserData) {
+    await editText(FORGET_FAILED_TEXT);
+    return undefined;
+  }
+
+  try {
+    const result = await options.storage.deleteUserData({ userId: parsed.userId });
+    options.onForgotten?.(parsed.userId);
+    // eslint-disable-next-line no-console
+    console.info('[router] user data deleted', { route: 'system_forget', ...result });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('[router] failed to delete user data', {
+      route: 'system_forget',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await editText(FORGET_FAILED_TEXT);
+    return undefined;
+  }
+
+  await editText(FORGET_DONE_TEXT);
+  return undefined;
+};
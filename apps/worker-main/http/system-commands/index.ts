@@ -66,6 +66,18 @@ export const SYSTEM_COMMAND_DESCRIPTORS: readonly SystemCommandDescriptor[] = [
     roles: ['global'],
     handler: globalHandler,
   },
+  {
+    name: '/reset',
+    bareName: '/reset',
+    roles: ['global'],
+    handler: globalHandler,
+  },
+  {
+    name: '/forget',
+    bareName: '/forget',
+    roles: ['global'],
+    handler: globalHandler,
+  },
   {
     name: '/admin',
     bareName: '/admin',
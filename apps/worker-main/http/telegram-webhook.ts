@@ -1,4 +1,5 @@
 import type { IncomingMessage } from '../core';
+import type { MessageAttachment, MessageTextEntity } from '../ports';
 
 import type {
   HandledWebhookResult,
@@ -13,6 +14,8 @@ import {
   toTelegramIdString,
 } from './telegram-ids';
 import { normalizeCommand } from './system-commands';
+import type { MediaAttachmentPolicy } from './media-attachments';
+import type { VoiceAttachment, VoiceMessageTranscriber } from './voice-messages';
 
 export type TelegramSnapshotRoute = 'user' | 'admin' | 'safe';
 
@@ -408,6 +411,9 @@ export interface TelegramMessageEntity {
   type: string;
   offset: number | string;
   length: number | string;
+  url?: string;
+  language?: string;
+  custom_emoji_id?: string;
 }
 
 export interface TelegramUser {
@@ -436,11 +442,16 @@ export interface TelegramMessage {
   chat: TelegramChat;
   message_thread_id?: string | bigint;
   entities?: TelegramMessageEntity[];
+  caption_entities?: TelegramMessageEntity[];
   voice?: unknown;
   video?: unknown;
   photo?: unknown;
   document?: unknown;
   video_note?: unknown;
+  reply_to_message?: {
+    message_id?: string | bigint;
+    [key: string]: unknown;
+  };
   web_app_data?: {
     data?: string;
     button_text?: string;
@@ -448,9 +459,32 @@ export interface TelegramMessage {
   };
 }
 
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+  chat_instance?: string;
+}
+
+export interface TelegramChatMember {
+  status: string;
+  user?: TelegramUser;
+}
+
+export interface TelegramChatMemberUpdated {
+  chat: TelegramChat;
+  from: TelegramUser;
+  date?: number | string;
+  old_chat_member?: TelegramChatMember;
+  new_chat_member: TelegramChatMember;
+}
+
 export interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+  my_chat_member?: TelegramChatMemberUpdated;
   edited_message?: TelegramMessage;
   channel_post?: TelegramMessage;
   edited_channel_post?: TelegramMessage;
@@ -482,6 +516,42 @@ export interface TelegramAdminCommandContext {
   update: TelegramUpdate;
   message: TelegramMessage;
   incomingMessage: IncomingMessage;
+  /**
+   * Позволяет продолжить долгую операцию (например, фоновую выгрузку) после ответа webhook.
+   */
+  waitUntil?(promise: Promise<unknown>): void;
+}
+
+export interface TelegramCallbackQueryContext {
+  queryId: string;
+  data: string;
+  from: TelegramCommandUser;
+  chat: {
+    id: string;
+    threadId?: string;
+    type?: string;
+  };
+  messageId: string;
+  update: TelegramUpdate;
+  /**
+   * Позволяет продолжить долгую операцию (например, рассылку) после ответа webhook.
+   */
+  waitUntil?(promise: Promise<unknown>): void;
+}
+
+export interface TelegramChatMemberContext {
+  chat: {
+    id: string;
+    type?: string;
+  };
+  from: TelegramCommandUser;
+  /**
+   * Новый статус бота в чате: `member`, `kicked`, `left` и т.д.
+   */
+  status: string;
+  previousStatus?: string;
+  update: TelegramUpdate;
+  waitUntil?(promise: Promise<unknown>): void;
 }
 
 export interface TelegramWebhookFeatures {
@@ -496,12 +566,48 @@ export interface TelegramWebhookFeatures {
     message: IncomingMessage,
     context?: TransformPayloadContext,
   ) => Promise<Response | 'handled' | void> | Response | 'handled' | void;
+  /**
+   * Дополняет `metadata` сообщения, которое уходит в диалог (например,
+   * ссылкой на рассылку, на которую ответил пользователь).
+   */
+  annotateMessage?: (
+    message: IncomingMessage,
+    context?: TransformPayloadContext,
+  ) => Promise<Record<string, unknown> | undefined> | Record<string, unknown> | undefined;
+  /**
+   * Обрабатывает нажатие inline-кнопки. Возвращает `true`, если callback
+   * распознан; иначе update помечается как проигнорированный.
+   */
+  handleCallbackQuery?: (
+    context: TelegramCallbackQueryContext,
+  ) => Promise<boolean | void> | boolean | void;
+  /**
+   * Получает изменения статуса бота в чате (`my_chat_member`): блокировку,
+   * удаление из группы или повторную подписку.
+   */
+  handleChatMemberUpdate?: (context: TelegramChatMemberContext) => Promise<void> | void;
 }
 
 export interface TelegramWebhookOptions {
   botUsername?: string;
   features?: TelegramWebhookFeatures;
   onSystemCommand?: (command: string, userId: string) => void;
+  context?: TransformPayloadContext;
+  /**
+   * Расшифровывает голосовые и видеосообщения; без него на них отвечает
+   * напоминание писать текстом.
+   */
+  transcribeVoice?: VoiceMessageTranscriber;
+  /**
+   * Проверяет фото и документы по лимитам размера и типа; без него на них
+   * отвечает напоминание писать текстом.
+   */
+  acceptMediaAttachment?: MediaAttachmentPolicy;
+  /**
+   * Передаёт фичам фото и документы, не попавшие в диалог: рассылка
+   * администратора переиспользует их `file_id`.
+   */
+  forwardMediaToFeatures?: boolean;
 }
 
 export interface TelegramAdminCommandHandlerResult {
@@ -560,6 +666,9 @@ const buildIncomingMessage = (
   }
 
   const threadId = toIdString(message.message_thread_id);
+  const replyToMessageId = isRecord(message.reply_to_message)
+    ? toIdString(message.reply_to_message.message_id)
+    : undefined;
 
   const incoming: IncomingMessage = {
     user: {
@@ -577,11 +686,106 @@ const buildIncomingMessage = (
     text,
     messageId,
     receivedAt: toDate(message.date),
+    ...(replyToMessageId ? { replyToMessageId } : {}),
   };
 
   return incoming;
 };
 
+const extractVoiceAttachment = (message: TelegramMessage): VoiceAttachment | undefined => {
+  const kind = isRecord(message.voice) ? 'voice' : isRecord(message.video_note) ? 'video_note' : undefined;
+  const raw = kind ? (message[kind] as Record<string, unknown>) : undefined;
+  const fileId = raw ? toOptionalString(raw.file_id) : undefined;
+
+  if (!kind || !raw || !fileId) {
+    return undefined;
+  }
+
+  return {
+    kind,
+    fileId,
+    durationSec: toOptionalSafeInteger(raw.duration),
+    fileSize: toOptionalSafeInteger(raw.file_size),
+    mimeType: toOptionalString(raw.mime_type),
+  };
+};
+
+/**
+ * Возвращает кандидатов во вложение: размеры фото от большего к меньшему или
+ * документ. Видео и прочие медиа не поддерживаются.
+ */
+const extractMediaAttachmentCandidates = (message: TelegramMessage): MessageAttachment[] => {
+  if (Array.isArray(message.photo)) {
+    return message.photo
+      .filter(isRecord)
+      .flatMap((size): MessageAttachment[] => {
+        const fileId = toOptionalString(size.file_id);
+        return fileId
+          ? [
+              {
+                kind: 'image',
+                fileId,
+                mimeType: 'image/jpeg',
+                size: toOptionalSafeInteger(size.file_size),
+                origin: 'photo',
+              },
+            ]
+          : [];
+      })
+      .sort((left, right) => (right.size ?? 0) - (left.size ?? 0));
+  }
+
+  if (isRecord(message.document)) {
+    const fileId = toOptionalString(message.document.file_id);
+    const mimeType = toOptionalString(message.document.mime_type)?.toLowerCase();
+    if (!fileId) {
+      return [];
+    }
+
+    return [
+      {
+        kind: mimeType?.startsWith('image/') ? 'image' : 'document',
+        fileId,
+        mimeType,
+        size: toOptionalSafeInteger(message.document.file_size),
+        fileName: toOptionalString(message.document.file_name),
+        origin: 'document',
+      },
+    ];
+  }
+
+  return [];
+};
+
+const toMessageTextEntities = (
+  entities: TelegramMessageEntity[] | undefined,
+): MessageTextEntity[] | undefined => {
+  if (!Array.isArray(entities)) {
+    return undefined;
+  }
+
+  const mapped = entities.flatMap((entity): MessageTextEntity[] => {
+    const offset = toOptionalSafeInteger(entity.offset);
+    const length = toOptionalSafeInteger(entity.length);
+    if (typeof entity.type !== 'string' || offset === undefined || length === undefined) {
+      return [];
+    }
+
+    return [
+      {
+        type: entity.type,
+        offset,
+        length,
+        ...(entity.url ? { url: entity.url } : {}),
+        ...(entity.language ? { language: entity.language } : {}),
+        ...(entity.custom_emoji_id ? { customEmojiId: entity.custom_emoji_id } : {}),
+      },
+    ];
+  });
+
+  return mapped.length > 0 ? mapped : undefined;
+};
+
 const findRelevantMessage = (update: TelegramUpdate): TelegramMessage | undefined =>
   update.message ?? undefined;
 
@@ -636,6 +840,162 @@ const handleAdminCommand = async (
   return undefined;
 };
 
+const handleCallbackQueryUpdate = async (
+  update: TelegramUpdate,
+  options: TelegramWebhookOptions,
+): Promise<HandledWebhookResult> => {
+  const query = update.callback_query;
+  const handler = options.features?.handleCallbackQuery;
+  const message = query?.message;
+
+  if (!query || !handler || !isRecord(query.from) || !isRecord(message) || !isRecord(message.chat)) {
+    return handledIgnored();
+  }
+
+  const queryId = toOptionalString(query.id);
+  const data = toOptionalString(query.data);
+  const fromResult = normalizeTelegramIdValue(query.from.id);
+  const chatResult = normalizeTelegramIdValue(message.chat.id);
+  const messageIdResult = normalizeTelegramIdValue(message.message_id);
+  const threadResult = normalizeTelegramIdValue(message.message_thread_id);
+
+  if (
+    !queryId
+    || !data
+    || fromResult.kind !== 'ok'
+    || chatResult.kind !== 'ok'
+    || messageIdResult.kind !== 'ok'
+    || threadResult.kind === 'unsafe'
+  ) {
+    // eslint-disable-next-line no-console
+    console.warn('[telegram-webhook] invalid callback query', {
+      updateId: update.update_id,
+      hasQueryId: Boolean(queryId),
+      hasData: Boolean(data),
+      fromId: fromResult.kind,
+      chatId: chatResult.kind,
+      messageId: messageIdResult.kind,
+    });
+    return handledIgnored();
+  }
+
+  const context: TelegramCallbackQueryContext = {
+    queryId,
+    data,
+    from: {
+      userId: fromResult.value,
+      username: toOptionalString(query.from.username),
+      firstName: toOptionalString(query.from.first_name),
+      lastName: toOptionalString(query.from.last_name),
+      languageCode: toOptionalString(query.from.language_code),
+      isBot: typeof query.from.is_bot === 'boolean' ? query.from.is_bot : undefined,
+      isPremium: typeof query.from.is_premium === 'boolean' ? query.from.is_premium : undefined,
+    },
+    chat: {
+      id: chatResult.value,
+      threadId: threadResult.kind === 'ok' ? threadResult.value : undefined,
+      type: toOptionalString(message.chat.type),
+    },
+    messageId: messageIdResult.value,
+    update,
+    ...(options.context?.waitUntil
+      ? { waitUntil: options.context.waitUntil.bind(options.context) }
+      : {}),
+  };
+
+  try {
+    const handled = await handler(context);
+    if (handled === true) {
+      return toHandledResult();
+    }
+  } catch (error) {
+    const logPayload: Record<string, unknown> = {
+      updateId: update.update_id,
+      error: error instanceof Error ? { name: error.name, message: error.message } : String(error),
+    };
+    applyTelegramIdLogFields(logPayload, 'chatId', context.chat.id, { includeValue: false });
+    applyTelegramIdLogFields(logPayload, 'userId', context.from.userId, { includeValue: false });
+
+    // eslint-disable-next-line no-console
+    console.error('[telegram-webhook] callback query handler failed', logPayload);
+
+    return toHandledResult();
+  }
+
+  return handledIgnored();
+};
+
+const handleChatMemberUpdate = async (
+  update: TelegramUpdate,
+  options: TelegramWebhookOptions,
+): Promise<HandledWebhookResult> => {
+  const memberUpdate = update.my_chat_member;
+  const handler = options.features?.handleChatMemberUpdate;
+
+  if (
+    !memberUpdate
+    || !handler
+    || !isRecord(memberUpdate.chat)
+    || !isRecord(memberUpdate.from)
+    || !isRecord(memberUpdate.new_chat_member)
+  ) {
+    return handledIgnored();
+  }
+
+  const status = toOptionalString(memberUpdate.new_chat_member.status);
+  const chatResult = normalizeTelegramIdValue(memberUpdate.chat.id);
+  const fromResult = normalizeTelegramIdValue(memberUpdate.from.id);
+
+  if (!status || chatResult.kind !== 'ok' || fromResult.kind !== 'ok') {
+    // eslint-disable-next-line no-console
+    console.warn('[telegram-webhook] invalid my_chat_member update', {
+      updateId: update.update_id,
+      hasStatus: Boolean(status),
+      chatId: chatResult.kind,
+      fromId: fromResult.kind,
+    });
+    return handledIgnored();
+  }
+
+  const context: TelegramChatMemberContext = {
+    chat: {
+      id: chatResult.value,
+      type: toOptionalString(memberUpdate.chat.type),
+    },
+    from: {
+      userId: fromResult.value,
+      username: toOptionalString(memberUpdate.from.username),
+      firstName: toOptionalString(memberUpdate.from.first_name),
+      lastName: toOptionalString(memberUpdate.from.last_name),
+      languageCode: toOptionalString(memberUpdate.from.language_code),
+    },
+    status,
+    previousStatus: isRecord(memberUpdate.old_chat_member)
+      ? toOptionalString(memberUpdate.old_chat_member.status)
+      : undefined,
+    update,
+    ...(options.context?.waitUntil
+      ? { waitUntil: options.context.waitUntil.bind(options.context) }
+      : {}),
+  };
+
+  try {
+    await handler(context);
+  } catch (error) {
+    const logPayload: Record<string, unknown> = {
+      updateId: update.update_id,
+      status,
+      error: error instanceof Error ? { name: error.name, message: error.message } : String(error),
+    };
+    applyTelegramIdLogFields(logPayload, 'chatId', context.chat.id, { includeValue: false });
+
+    // eslint-disable-next-line no-console
+    console.error('[telegram-webhook] chat member handler failed', logPayload);
+  }
+
+  return toHandledResult();
+};
+
 export const transformTelegramUpdate = async (
   payload: unknown,
   options: TelegramWebhookOptions = {},
@@ -659,6 +1019,16 @@ export const transformTelegramUpdate = async (
     snapshotLogged = true;
   };
 
+  if (isRecord(update.callback_query)) {
+    logIncomingUpdate();
+    return handleCallbackQueryUpdate(update, options);
+  }
+
+  if (isRecord(update.my_chat_member)) {
+    logIncomingUpdate();
+    return handleChatMemberUpdate(update, options);
+  }
+
   const message = findRelevantMessage(update);
 
   if (!message || !isRecord(message.chat)) {
@@ -799,33 +1169,112 @@ export const transformTelegramUpdate = async (
 
   const rawText = typeof message.text === 'string' ? message.text : undefined;
   const caption = typeof message.caption === 'string' ? message.caption : undefined;
-  const content = rawText ?? caption;
+  let content = rawText ?? caption;
+  let contentMetadata: Record<string, unknown> | undefined;
+
+  const isBlank = (value: string | undefined) => !value || value.trim().length === 0;
+  const entities = toMessageTextEntities(rawText !== undefined ? message.entities : message.caption_entities);
+
+  /**
+   * Медиа, которое бот не разбирает, всё равно передаётся фичам: рассылка
+   * администратора берёт из него только `file_id`.
+   */
+  const withMediaMessage = (
+    result: Extract<TransformPayloadResult, { kind: 'non_text' }>,
+  ): Extract<TransformPayloadResult, { kind: 'non_text' }> => {
+    if (!options.forwardMediaToFeatures) {
+      return result;
+    }
 
-  if (!content || content.trim().length === 0) {
-    if (message.voice || message.video_note) {
+    const [candidate] = extractMediaAttachmentCandidates(message);
+    const mediaMessage = candidate ? buildIncomingMessage(message, from, content ?? '') : undefined;
+    if (!mediaMessage || !candidate) {
+      return result;
+    }
+
+    mediaMessage.attachments = [candidate];
+    if (entities) {
+      mediaMessage.entities = entities;
+    }
+
+    return { ...result, message: mediaMessage };
+  };
+
+  if (isBlank(content) && (message.voice || message.video_note)) {
+    const attachment = extractVoiceAttachment(message);
+    const transcription = attachment && options.transcribeVoice
+      ? await options.transcribeVoice({
+          attachment,
+          languageCode: toOptionalString(from.language_code),
+          userId: from.id as string,
+          chatId,
+          threadId,
+        })
+      : undefined;
+
+    if (transcription?.status !== 'transcribed') {
       return {
         kind: 'non_text',
         chat: { id: chatId, threadId },
-        reply: 'voice',
+        reply:
+          transcription?.status === 'rejected' && transcription.reason === 'rate_limited'
+            ? 'rate_limited'
+            : 'voice',
       };
     }
 
+    content = transcription.text;
+    contentMetadata = transcription.metadata;
+  }
+
+  let attachments: MessageAttachment[] | undefined;
+  if (options.acceptMediaAttachment && (message.photo || message.document)) {
+    const candidates = extractMediaAttachmentCandidates(message);
+    const outcome = candidates.length > 0
+      ? await options.acceptMediaAttachment({ userId: from.id as string, chatId, threadId, candidates })
+      : undefined;
+
+    if (outcome?.status !== 'accepted') {
+      return withMediaMessage({
+        kind: 'non_text',
+        chat: { id: chatId, threadId },
+        reply: outcome?.status === 'rejected' && outcome.reason === 'rate_limited' ? 'rate_limited' : 'media',
+      });
+    }
+
+    attachments = [outcome.attachment];
+  }
+
+  if (!attachments && (!content || content.trim().length === 0)) {
     if (message.video || message.photo || message.document) {
-      return {
+      return withMediaMessage({
         kind: 'non_text',
         chat: { id: chatId, threadId },
         reply: 'media',
-      };
+      });
     }
 
     return handledIgnored();
   }
 
-  const incoming = buildIncomingMessage(message, from, content);
+  // Подпись к фото или документу становится текстом сообщения и может отсутствовать.
+  const incoming = buildIncomingMessage(message, from, content ?? '');
   if (!incoming) {
     return handledIgnored();
   }
 
+  if (contentMetadata) {
+    incoming.metadata = contentMetadata;
+  }
+
+  if (attachments) {
+    incoming.attachments = attachments;
+  }
+
+  if (entities && !contentMetadata) {
+    incoming.entities = entities;
+  }
+
   const commandEntity = extractCommandEntity(message);
   const commandOffset = commandEntity ? toOptionalSafeInteger(commandEntity.offset) : undefined;
   const commandLength = commandEntity ? toOptionalSafeInteger(commandEntity.length) : undefined;
@@ -913,7 +1362,7 @@ export const transformTelegramUpdate = async (
         startPayload = parseStartPayload(argumentSlice) ?? startPayload;
       }
 
-      if (normalizedCommand === '/broadcast') {
+      if (normalizedCommand === '/broadcast' || normalizedCommand.startsWith('/broadcast_')) {
         const context: TelegramAdminCommandContext = {
           command: normalizedCommand,
           rawCommand,
@@ -937,6 +1386,9 @@ export const transformTelegramUpdate = async (
           update,
           message,
           incomingMessage: incoming,
+          ...(options.context?.waitUntil
+            ? { waitUntil: options.context.waitUntil.bind(options.context) }
+            : {}),
         };
 
         const adminResult = await handleAdminCommand(context, options);
@@ -945,7 +1397,12 @@ export const transformTelegramUpdate = async (
         }
       }
 
-      if (normalizedCommand === '/export' || normalizedCommand.startsWith('/admin')) {
+      if (
+        normalizedCommand === '/export'
+        || normalizedCommand.startsWith('/export_')
+        || normalizedCommand === '/stats'
+        || normalizedCommand.startsWith('/admin')
+      ) {
         const context: TelegramAdminCommandContext = {
           command: normalizedCommand,
           rawCommand,
@@ -969,6 +1426,9 @@ export const transformTelegramUpdate = async (
           update,
           message,
           incomingMessage: incoming,
+          ...(options.context?.waitUntil
+            ? { waitUntil: options.context.waitUntil.bind(options.context) }
+            : {}),
         };
 
         const adminResult = await handleAdminCommand(context, options);
@@ -979,7 +1439,13 @@ export const transformTelegramUpdate = async (
     }
   }
 
-  const route = startPayload ? 'telegram.message.start_payload' : 'telegram.message';
+  const route = startPayload
+    ? 'telegram.message.start_payload'
+    : contentMetadata
+      ? 'telegram.message.voice'
+      : attachments
+        ? 'telegram.message.media'
+        : 'telegram.message';
 
   const result: MessageWebhookResult = {
     kind: 'message',
@@ -999,6 +1465,13 @@ export const transformTelegramUpdate = async (
     route,
   };
 
+  if (options.forwardMediaToFeatures && !attachments && (message.photo || message.document)) {
+    const [candidate] = extractMediaAttachmentCandidates(message);
+    if (candidate) {
+      result.featureAttachments = [candidate];
+    }
+  }
+
   noteTelegramSnapshot({
     route: 'user',
     updateId: update.update_id,
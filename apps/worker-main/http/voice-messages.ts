@@ -0,0 +1,152 @@
+import type { MessagingPort, RateLimitPort, TranscriptionPort } from '../ports';
+
+const DEFAULT_MAX_DURATION_SEC = 120;
+const DEFAULT_MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+export type VoiceAttachmentKind = 'voice' | 'video_note';
+
+export interface VoiceAttachment {
+  kind: VoiceAttachmentKind;
+  fileId: string;
+  durationSec?: number;
+  fileSize?: number;
+  mimeType?: string;
+}
+
+export type VoiceRejectionReason = 'too_long' | 'too_large' | 'empty' | 'failed' | 'rate_limited';
+
+export type VoiceTranscriptionOutcome =
+  | {
+      status: 'transcribed';
+      text: string;
+      /**
+       * Попадает в `IncomingMessage.metadata` и сохраняется вместе с сообщением.
+       */
+      metadata: Record<string, unknown>;
+    }
+  | {
+      status: 'rejected';
+      reason: VoiceRejectionReason;
+    };
+
+export type VoiceMessageTranscriber = (input: {
+  attachment: VoiceAttachment;
+  languageCode?: string;
+  userId?: string;
+  chatId?: string;
+  threadId?: string;
+}) => Promise<VoiceTranscriptionOutcome>;
+
+export interface VoiceMessageTranscriberOptions {
+  messaging: Pick<MessagingPort, 'downloadFile'>;
+  transcription: TranscriptionPort;
+  maxDurationSec?: number;
+  maxFileBytes?: number;
+  /**
+   * Отдельный лимит на расшифровки: проверяется до скачивания, чтобы поток
+   * голосовых не тратил Whisper в обход лимита ответов DialogEngine.
+   */
+  rateLimit?: RateLimitPort;
+}
+
+const DEFAULT_FILE_NAMES: Record<VoiceAttachmentKind, string> = {
+  voice: 'voice.oga',
+  video_note: 'video_note.mp4',
+};
+
+const resolveFileName = (kind: VoiceAttachmentKind, filePath: string | undefined): string => {
+  const baseName = filePath?.split('/').pop();
+  return baseName && baseName.includes('.') ? baseName : DEFAULT_FILE_NAMES[kind];
+};
+
+/**
+ * Скачивает голосовое или видеосообщение и расшифровывает его. Лимиты
+ * проверяются до скачивания по данным Telegram и повторно по факту загрузки.
+ */
+export const createVoiceMessageTranscriber = (
+  options: VoiceMessageTranscriberOptions,
+): VoiceMessageTranscriber => {
+  const maxDurationSec = options.maxDurationSec ?? DEFAULT_MAX_DURATION_SEC;
+  const maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+
+  return async ({ attachment, languageCode, userId, chatId, threadId }) => {
+    const logDetails = {
+      kind: attachment.kind,
+      durationSec: attachment.durationSec ?? null,
+      fileSize: attachment.fileSize ?? null,
+    };
+
+    if (attachment.durationSec !== undefined && attachment.durationSec > maxDurationSec) {
+      // eslint-disable-next-line no-console
+      console.info('[voice] attachment exceeds duration limit', { ...logDetails, maxDurationSec });
+      return { status: 'rejected', reason: 'too_long' };
+    }
+
+    if (attachment.fileSize !== undefined && attachment.fileSize > maxFileBytes) {
+      // eslint-disable-next-line no-console
+      console.info('[voice] attachment exceeds size limit', { ...logDetails, maxFileBytes });
+      return { status: 'rejected', reason: 'too_large' };
+    }
+
+    if (options.rateLimit && userId && chatId) {
+      const decision = await options.rateLimit.checkAndIncrement({
+        userId,
+        context: { chatId, threadId, scope: 'voice' },
+      });
+
+      if (decision === 'limit') {
+        // eslint-disable-next-line no-console
+        console.info('[voice] transcription rate limit reached', { ...logDetails, userId });
+        return { status: 'rejected', reason: 'rate_limited' };
+      }
+    }
+
+    if (!options.messaging.downloadFile) {
+      // eslint-disable-next-line no-console
+      console.warn('[voice] messaging port cannot download files', logDetails);
+      return { status: 'rejected', reason: 'failed' };
+    }
+
+    try {
+      const file = await options.messaging.downloadFile({
+        fileId: attachment.fileId,
+        maxBytes: maxFileBytes,
+      });
+
+      const result = await options.transcription.transcribe({
+        audio: file.data,
+        fileName: resolveFileName(attachment.kind, file.filePath),
+        mimeType: attachment.mimeType,
+        languageCode,
+      });
+
+      const text = result.text.trim();
+      if (text.length === 0) {
+        // eslint-disable-next-line no-console
+        console.info('[voice] transcription returned empty text', logDetails);
+        return { status: 'rejected', reason: 'empty' };
+      }
+
+      return {
+        status: 'transcribed',
+        text,
+        metadata: {
+          ...result.metadata,
+          source: attachment.kind,
+          transcribed: true,
+          ...(attachment.durationSec !== undefined ? { audioDurationSec: attachment.durationSec } : {}),
+          ...(result.language ? { transcriptionLanguage: result.language } : {}),
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message === 'FILE_TOO_LARGE') {
+        return { status: 'rejected', reason: 'too_large' };
+      }
+
+      // eslint-disable-next-line no-console
+      console.error('[voice] transcription failed', { ...logDetails, error: message });
+      return { status: 'rejected', reason: 'failed' };
+    }
+  };
+};
@@ -3,6 +3,7 @@ import {
   createKvRateLimitAdapter,
   createD1StorageAdapter,
   createOpenAIResponsesAdapter,
+  createOpenAITranscriptionAdapter,
   createTelegramMessagingAdapter,
   createQueuedMessagingPort,
   type MessagingQuotaSharedState,
@@ -15,11 +16,17 @@ import {
   type CreateAdminAccessOptions,
   createAdminAccess,
   createAccessDiagnosticsRoute,
+  createAiToolRegistry,
   createAdminExportRoute,
   createAdminCommandErrorRecorder,
   createCsvExportHandler,
   createExportRateDiagRoute,
   createExportRateTelemetry,
+  createExportJobRunner,
+  createExportJobsCronJob,
+  createDialogStatsStore,
+  createAdminStatsRoute,
+  createTelegramStatsCommandHandler,
   createEnvzRoute,
   createBindingsDiagnosticsRoute,
   createAiQueueDiagRoute,
@@ -27,13 +34,28 @@ import {
   createD1StressRoute,
   createRegistryBroadcastSender,
   createRateLimitNotifier,
+  createRateLimitHitsRecorder,
+  createRateLimitToggle,
   createSelfTestRoute,
+  createProfileTool,
+  createReminderTool,
+  createRemindersStore,
+  createReminderDeliveryJob,
+  createCronDispatcher,
+  createCronDiagRoute,
+  createCronRunRoute,
+  createMaintenanceJobs,
+  type CronDispatcher,
+  type CronJob,
   readAdminWhitelist,
   createTelegramExportCommandHandler,
   createTelegramBroadcastCommandHandler,
   createTelegramWebhookHandler,
   type TelegramWebhookHandler,
   type AdminExportRateLimitKvNamespace,
+  type ExportAnonymizationOptions,
+  type ExportJobRunner,
+  type DialogStatsStore,
   type ExportRateTelemetry,
   type LimitsFlagKvNamespace,
   type SendBroadcast,
@@ -42,20 +64,44 @@ import {
   type BroadcastPendingKvNamespace,
   createBroadcastRecipientsStore,
   createBroadcastRecipientsAdminHandlers,
+  createBroadcastSubscriptionTracker,
+  createScheduledBroadcastsStore,
+  createScheduledBroadcastsJob,
+  createScheduledBroadcastsAdminHandlers,
+  createBroadcastDeliveriesStore,
+  createBroadcastDeliveriesAdminHandlers,
+  createBroadcastReplyAttribution,
+  type BroadcastDeliveriesStore,
   type BroadcastRecipientsStore,
+  type BroadcastSubscriptionTracker,
+  type ScheduledBroadcastsStore,
   createBroadcastDiagRoute,
   createBroadcastTelemetry,
   type BroadcastTelemetry,
+  ADMIN_MENU_CALLBACK_NAMESPACE,
+  BROADCAST_CALLBACK_NAMESPACE,
+  buildBroadcastJobControls,
+  resolveAdminMenuCommand,
 } from './features';
 import {
+  createCallbackCommandContext,
+  createCallbackDataSigner,
+  createCallbackQueryDispatcher,
+  createForgetCallbackHandler,
   createRouter,
   createSystemCommandRegistry,
+  createMediaAttachmentPolicy,
   createTypingIndicator,
+  createVoiceMessageTranscriber,
   isCommandAllowedForRole,
+  type CallbackDataSigner,
+  type CallbackQueryRoute,
   type DetermineSystemCommandRole,
+  FORGET_CALLBACK_NAMESPACE,
   type RouterOptions,
   type TypingIndicator,
   type TelegramAdminCommandContext,
+  type VoiceMessageTranscriber,
 } from './http';
 import type { AiQueueConfigSources, MessagingPort } from './ports';
 import type { CompositionResult } from './composition';
@@ -71,17 +117,23 @@ interface WorkerBindings {
   OPENAI_PROMPT_VARIABLES?: unknown;
   ADMIN_EXPORT_TOKEN?: string;
   ADMIN_EXPORT_FILENAME_PREFIX?: string;
+  ADMIN_EXPORT_ANON_SALT?: string;
+  ADMIN_EXPORT_PART_MAX_BYTES?: string | number;
   ADMIN_TOKEN?: string;
   ADMIN_TG_IDS?: AdminAccessKvNamespace & AdminExportRateLimitKvNamespace;
   ADMIN_EXPORT_KV?: AdminExportRateLimitKvNamespace;
   ADMIN_EXPORT_LOG?: KVNamespace;
+  EXPORT_JOBS_KV?: KVNamespace;
   BROADCAST_RECIPIENTS_KV?: KVNamespace;
   BROADCAST_PENDING_KV?: BroadcastPendingKvNamespace;
   ADMIN_ACCESS_CACHE_TTL_MS?: string | number;
   BROADCAST_TELEMETRY_KV?: KVNamespace;
   BROADCAST_ENABLED?: string;
+  BROADCAST_SCHEDULE_TZ?: string;
   BROADCAST_MAX_PARALLEL?: string | number;
   BROADCAST_MAX_RPS?: string | number;
+  BROADCAST_MAX_JOBS?: string | number;
+  BROADCAST_REPLY_WINDOW_HOURS?: string | number;
   RATE_LIMIT_DAILY_LIMIT?: string | number;
   RATE_LIMIT_WINDOW_MS?: string | number;
   RATE_LIMIT_NOTIFIER_WINDOW_MS?: string | number;
@@ -95,6 +147,24 @@ interface WorkerBindings {
   AI_RETRY_MAX?: string | number;
   AI_BASE_URLS?: string | string[];
   AI_ENDPOINT_FAILOVER_THRESHOLD?: string | number;
+  AI_STREAMING_ENABLED?: string;
+  AI_STREAM_EDIT_INTERVAL_MS?: string | number;
+  DIALOG_SUMMARY_ENABLED?: string;
+  DIALOG_SUMMARY_TRIGGER_MESSAGES?: string | number;
+  VOICE_TRANSCRIPTION_ENABLED?: string;
+  OPENAI_TRANSCRIPTION_MODEL?: string;
+  OPENAI_TRANSCRIPTION_URL?: string;
+  VOICE_MAX_DURATION_SEC?: string | number;
+  VOICE_MAX_FILE_BYTES?: string | number;
+  VOICE_DAILY_LIMIT?: string | number;
+  MEDIA_ATTACHMENTS_ENABLED?: string;
+  MEDIA_MAX_FILE_BYTES?: string | number;
+  MEDIA_ALLOWED_MIME_TYPES?: string;
+  MEDIA_DAILY_LIMIT?: string | number;
+  AI_TOOLS_ENABLED?: string;
+  AI_TOOLS_MAX_ITERATIONS?: string | number;
+  CRON_KV?: KVNamespace;
+  CRON_LOCK_TTL_SEC?: string | number;
 }
 
 type WorkerRateLimitNamespace = LimitsFlagKvNamespace & RateLimitKvNamespace;
@@ -108,14 +178,52 @@ interface WorkerExecutionContext {
   passThroughOnException?(): void;
 }
 
+interface WorkerScheduledController {
+  cron: string;
+  scheduledTime: number;
+}
+
+/**
+ * Должны совпадать с `[triggers] crons` в wrangler.toml.
+ */
+const CRON_FREQUENT_SCHEDULE = '*/5 * * * *';
+const CRON_MAINTENANCE_SCHEDULE = '0 * * * *';
+
 const DEFAULT_RATE_LIMIT = 50;
 const DEFAULT_RATE_LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MEDIA_DAILY_LIMIT = 20;
 
 interface RateLimitConfig {
   limit: number;
   windowMs: number;
 }
 
+interface StreamingConfig {
+  enabled: boolean;
+  editIntervalMs: number;
+}
+
+interface SummaryConfig {
+  enabled: boolean;
+  triggerMessages?: number;
+}
+
+interface VoiceTranscriptionConfig {
+  enabled: boolean;
+  model: string;
+  baseUrl?: string;
+  maxDurationSec?: number;
+  maxFileBytes?: number;
+  dailyLimit?: number;
+}
+
+interface MediaAttachmentConfig {
+  enabled: boolean;
+  maxFileBytes?: number;
+  allowedMimeTypes?: string[];
+  dailyLimit: number;
+}
+
 interface BroadcastRuntimeConfig {
   maxParallel: number;
   maxRps: number;
@@ -131,6 +239,8 @@ const DEFAULT_AI_TIMEOUT_MS = 18_000;
 const DEFAULT_AI_RETRY_MAX = 3;
 const DEFAULT_AI_BASE_URL = 'https://api.openai.com/v1/responses';
 const DEFAULT_AI_ENDPOINT_FAILOVER_THRESHOLD = 3;
+const DEFAULT_AI_STREAM_EDIT_INTERVAL_MS = 1_000;
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
 const DEFAULT_BROADCAST_MAX_PARALLEL = 4;
 const DEFAULT_BROADCAST_MAX_RPS = 28;
 const DEFAULT_BROADCAST_EMERGENCY_RETRY_AFTER_MS = 5_000;
@@ -319,6 +429,40 @@ const readRateLimitConfig = (env: WorkerEnv): RateLimitConfig => ({
   windowMs: toPositiveDurationMs(env.RATE_LIMIT_WINDOW_MS) ?? DEFAULT_RATE_LIMIT_WINDOW_MS,
 });
 
+const readStreamingConfig = (env: WorkerEnv): StreamingConfig => ({
+  enabled: isEnabledFlag(env.AI_STREAMING_ENABLED),
+  editIntervalMs: toPositiveDurationMs(env.AI_STREAM_EDIT_INTERVAL_MS)
+    ?? DEFAULT_AI_STREAM_EDIT_INTERVAL_MS,
+});
+
+const readSummaryConfig = (env: WorkerEnv): SummaryConfig => ({
+  enabled: isEnabledFlag(env.DIALOG_SUMMARY_ENABLED),
+  triggerMessages: toPositiveInteger(env.DIALOG_SUMMARY_TRIGGER_MESSAGES),
+});
+
+const readVoiceTranscriptionConfig = (env: WorkerEnv): VoiceTranscriptionConfig => ({
+  enabled: isEnabledFlag(env.VOICE_TRANSCRIPTION_ENABLED),
+  model: getTrimmedString(env.OPENAI_TRANSCRIPTION_MODEL) ?? DEFAULT_TRANSCRIPTION_MODEL,
+  baseUrl: getTrimmedString(env.OPENAI_TRANSCRIPTION_URL),
+  maxDurationSec: toPositiveInteger(env.VOICE_MAX_DURATION_SEC),
+  maxFileBytes: toPositiveInteger(env.VOICE_MAX_FILE_BYTES),
+  dailyLimit: toPositiveInteger(env.VOICE_DAILY_LIMIT),
+});
+
+const readMediaAttachmentConfig = (env: WorkerEnv): MediaAttachmentConfig => {
+  const allowedMimeTypes = getTrimmedString(env.MEDIA_ALLOWED_MIME_TYPES)
+    ?.split(',')
+    .map((type) => type.trim())
+    .filter((type) => type.length > 0);
+
+  return {
+    enabled: isEnabledFlag(env.MEDIA_ATTACHMENTS_ENABLED),
+    maxFileBytes: toPositiveInteger(env.MEDIA_MAX_FILE_BYTES),
+    allowedMimeTypes: allowedMimeTypes && allowedMimeTypes.length > 0 ? allowedMimeTypes : undefined,
+    dailyLimit: toPositiveInteger(env.MEDIA_DAILY_LIMIT) ?? DEFAULT_MEDIA_DAILY_LIMIT,
+  };
+};
+
 const readBroadcastRuntimeConfig = (env: WorkerEnv): BroadcastRuntimeConfig => {
   const maxParallel = toPositiveInteger(env.BROADCAST_MAX_PARALLEL)
     ?? DEFAULT_BROADCAST_MAX_PARALLEL;
@@ -630,6 +774,8 @@ const createPortOverrides = (
   aiRuntime: AiConcurrencyConfig,
   rateLimitConfig: RateLimitConfig,
   broadcastRuntime: BroadcastRuntimeConfig,
+  streamingConfig: StreamingConfig,
+  voiceConfig: VoiceTranscriptionConfig,
 ): { overrides: Partial<PortOverrides>; broadcastMessaging: MessagingPort } => {
   const telegramMessaging = createTelegramMessagingAdapter({
     botToken: runtime.telegramBotToken,
@@ -655,8 +801,19 @@ const createPortOverrides = (
     logger: console,
     priority: 'high',
     sharedState: sharedQuotaState,
+    editIntervalMs: streamingConfig.editIntervalMs,
   });
 
+  const aiTools = env.DB && isEnabledFlag(env.AI_TOOLS_ENABLED)
+    ? createAiToolRegistry({
+        tools: [
+          createProfileTool({ db: env.DB }),
+          createReminderTool({ store: createRemindersStore({ db: env.DB }) }),
+        ],
+        logger: console,
+      })
+    : undefined;
+
   const overrides: Partial<PortOverrides> = {
     messaging: dialogMessaging,
     ai: createOpenAIResponsesAdapter({
@@ -669,6 +826,8 @@ const createPortOverrides = (
       runtime: aiRuntime,
       requestTimeoutMs: aiRuntime.requestTimeoutMs,
       maxRetries: aiRuntime.retryMax,
+      tools: aiTools,
+      maxToolIterations: toPositiveInteger(env.AI_TOOLS_MAX_ITERATIONS),
     }),
   };
 
@@ -676,6 +835,15 @@ const createPortOverrides = (
     overrides.storage = createD1StorageAdapter({ db: env.DB });
   }
 
+  if (voiceConfig.enabled) {
+    overrides.transcription = createOpenAITranscriptionAdapter({
+      apiKey: runtime.openAi.apiKey,
+      model: voiceConfig.model,
+      baseUrl: voiceConfig.baseUrl,
+      logger: console,
+    });
+  }
+
   if (env.RATE_LIMIT_KV) {
     overrides.rateLimit = createKvRateLimitAdapter({
       kv: env.RATE_LIMIT_KV,
@@ -728,6 +896,188 @@ const createAdminAccessIfConfigured = (env: WorkerEnv): AdminAccess | undefined
   return createAdminAccess(options);
 };
 
+/**
+ * Отправитель рассылок общий для команды `/broadcast` и cron-запуска
+ * отложенных рассылок, чтобы оба пути писали чекпоинты в одно место.
+ */
+const createBroadcastSenderIfEnabled = (
+  env: WorkerEnv,
+  composition: CompositionResult,
+  broadcastRegistry: BroadcastRecipientsStore | undefined,
+  broadcastSubscriptions: BroadcastSubscriptionTracker | undefined,
+  broadcastRuntime?: BroadcastRuntimeConfig,
+  broadcastTelemetry?: BroadcastTelemetry,
+  messagingBroadcast?: MessagingPort,
+  callbackData?: CallbackDataSigner,
+  broadcastDeliveries?: BroadcastDeliveriesStore,
+): SendBroadcast | undefined => {
+  const broadcastEnabled =
+    !!broadcastRegistry
+    && !!env.ADMIN_EXPORT_LOG
+    && (typeof env.BROADCAST_ENABLED === 'undefined' ? true : isEnabledFlag(env.BROADCAST_ENABLED));
+
+  const poolOverrides = broadcastRuntime
+    ? {
+        concurrency: broadcastRuntime.maxParallel,
+        maxRps: broadcastRuntime.maxRps,
+        baseDelayMs: broadcastRuntime.baseDelayMs,
+        jitterRatio: broadcastRuntime.jitterRatio,
+        rateJitterRatio: broadcastRuntime.rateJitterRatio,
+      }
+    : undefined;
+  const emergencyStop = broadcastRuntime
+    ? { retryAfterMs: broadcastRuntime.emergencyStopRetryAfterMs }
+    : undefined;
+  if (!broadcastEnabled || !broadcastRegistry) {
+    return undefined;
+  }
+
+  return createRegistryBroadcastSender({
+      messaging: composition.ports.messaging,
+      messagingBroadcast,
+      registry: broadcastRegistry,
+      logger: console,
+      pool: poolOverrides,
+      telemetry: broadcastTelemetry,
+      emergencyStop,
+      progressKv: env.BROADCAST_PENDING_KV,
+      progressTtlSeconds: 24 * 60 * 60,
+      onRecipientBlocked: broadcastSubscriptions?.handleRecipientBlocked,
+      deliveryLog: broadcastDeliveries,
+      profiles: broadcastRegistry,
+      onAdminNotification: async ({ adminChat, jobId, status, reason, checkpoint }) => {
+        if (!adminChat) {
+          return;
+        }
+
+        const statusLabel = status === 'paused' ? '⏸ Пауза' : '❌ Прервано';
+        const stopReason = checkpoint?.reason ?? reason;
+        const reasonLabel = stopReason.replaceAll('_', ' ');
+        const remaining = checkpoint ? Math.max(0, checkpoint.total - checkpoint.offset) : null;
+        const ttlSeconds = checkpoint?.expiresAt
+          ? Math.max(0, Math.floor((new Date(checkpoint.expiresAt).getTime() - Date.now()) / 1000))
+          : checkpoint?.ttlSeconds ?? null;
+
+        const lines = [
+          `${statusLabel}: jobId=${jobId}`,
+          `Статус: ${checkpoint?.status ?? status}`,
+          `Причина: ${reasonLabel}`,
+          checkpoint
+            ? `Прогресс: delivered=${checkpoint.delivered}, failed=${checkpoint.failed}, throttled429=${checkpoint.throttled429}`
+            : null,
+          checkpoint
+            ? `Курсор: offset=${checkpoint.offset}/${checkpoint.total}${remaining !== null ? `, remaining=${remaining}` : ''}`
+            : null,
+          ttlSeconds !== null ? `TTL чекпоинта: ${ttlSeconds}s` : null,
+          `Команды: /broadcast_resume ${jobId}, /broadcast_pause ${jobId}, /broadcast_status ${jobId}, /broadcast_end ${jobId}, /cancel_broadcast`,
+        ].filter((line): line is string => Boolean(line));
+
+        const message = lines.join('\n');
+        const replyMarkup = callbackData
+          ? await buildBroadcastJobControls(callbackData, jobId).catch(() => undefined)
+          : undefined;
+
+        await composition.ports.messaging.sendText({
+          chatId: adminChat.chatId,
+          threadId: adminChat.threadId,
+          text: message,
+          ...(replyMarkup ? { replyMarkup } : {}),
+        });
+      },
+  });
+};
+
+/**
+ * Фоновые выгрузки `/export` хранят чекпоинты в `EXPORT_JOBS_KV` (или
+ * `ADMIN_EXPORT_LOG`); без KV команда собирает файл целиком, как раньше.
+ */
+const createExportJobRunnerIfConfigured = (
+  env: WorkerEnv,
+  composition: CompositionResult,
+): ExportJobRunner | undefined => {
+  const botToken = getTrimmedString(env.TELEGRAM_BOT_TOKEN);
+  const kv = env.EXPORT_JOBS_KV ?? env.ADMIN_EXPORT_LOG;
+  if (!botToken || !kv || !env.DB) {
+    return undefined;
+  }
+
+  return createExportJobRunner({
+    kv,
+    botToken,
+    handleExport: createCsvExportHandler({
+      db: env.DB,
+      filenamePrefix: env.ADMIN_EXPORT_FILENAME_PREFIX,
+      anonymization: getExportAnonymization(env),
+    }),
+    messaging: composition.ports.messaging,
+    exportLogKv: env.ADMIN_EXPORT_LOG,
+    partMaxBytes: toPositiveInteger(env.ADMIN_EXPORT_PART_MAX_BYTES),
+    logger: console,
+  });
+};
+
+const createCronDispatcherIfConfigured = (
+  env: WorkerEnv,
+  composition: CompositionResult,
+  broadcastRegistry: BroadcastRecipientsStore | undefined,
+  broadcastSender: SendBroadcast | undefined,
+  scheduledBroadcasts: ScheduledBroadcastsStore | undefined,
+  exportJobs?: ExportJobRunner,
+): CronDispatcher | undefined => {
+  const cronKv = env.CRON_KV ?? env.ADMIN_EXPORT_LOG;
+  if (!cronKv) {
+    return undefined;
+  }
+
+  const jobs: CronJob[] = createMaintenanceJobs({
+    broadcastProgressKv: env.BROADCAST_PENDING_KV,
+    broadcastPendingKv: env.BROADCAST_PENDING_KV,
+    adminErrorsKv: env.ADMIN_TG_IDS ?? env.ADMIN_EXPORT_KV,
+    schedules: [CRON_MAINTENANCE_SCHEDULE],
+  });
+
+  if (env.DB && isEnabledFlag(env.AI_TOOLS_ENABLED)) {
+    jobs.push({
+      ...createReminderDeliveryJob({
+        store: createRemindersStore({ db: env.DB }),
+        messaging: composition.ports.messaging,
+        logger: console,
+      }),
+      schedules: [CRON_FREQUENT_SCHEDULE],
+    });
+  }
+
+  if (scheduledBroadcasts && broadcastSender) {
+    jobs.push(
+      createScheduledBroadcastsJob({
+        store: scheduledBroadcasts,
+        sendBroadcast: broadcastSender,
+        messaging: composition.ports.messaging,
+        recipientsRegistry: broadcastRegistry,
+        schedules: [CRON_FREQUENT_SCHEDULE],
+        logger: console,
+      }),
+    );
+  }
+
+  if (exportJobs) {
+    jobs.push(
+      createExportJobsCronJob({
+        runner: exportJobs,
+        schedules: [CRON_FREQUENT_SCHEDULE],
+        logger: console,
+      }),
+    );
+  }
+
+  return createCronDispatcher({
+    jobs,
+    kv: cronKv,
+    lockTtlSeconds: toPositiveInteger(env.CRON_LOCK_TTL_SEC),
+    logger: console,
+  });
+};
+
 const createAdminRoutes = (
   env: WorkerEnv,
   composition: CompositionResult,
@@ -737,6 +1087,10 @@ const createAdminRoutes = (
   broadcastRecipientsStore: BroadcastRecipientsStore | undefined,
   exportRateTelemetry?: ExportRateTelemetry,
   broadcastTelemetry?: BroadcastTelemetry,
+  cron?: CronDispatcher,
+  scheduledBroadcasts?: ScheduledBroadcastsStore,
+  broadcastDeliveries?: BroadcastDeliveriesStore,
+  dialogStats?: DialogStatsStore,
 ): RouterOptions['admin'] | undefined => {
   const adminToken = getTrimmedString(env.ADMIN_TOKEN);
   if (!adminToken) {
@@ -752,8 +1106,10 @@ const createAdminRoutes = (
   const broadcastDiagRoute = createBroadcastDiagRoute({
     telemetry: broadcastTelemetry,
     progressKv: env.BROADCAST_PENDING_KV,
+    deliveries: broadcastDeliveries,
     now: () => Date.now(),
   });
+  const cronDiagRoute = createCronDiagRoute({ dispatcher: cron });
 
   const routes: RouterOptions['admin'] = {
     token: adminToken,
@@ -788,6 +1144,9 @@ const createAdminRoutes = (
       if (query === 'broadcast') {
         return broadcastDiagRoute(request);
       }
+      if (query === 'cron') {
+        return cronDiagRoute(request);
+      }
       return bindingsDiagRoute(request);
     },
     knownUsersClear: createKnownUsersClearRoute({
@@ -806,6 +1165,7 @@ const createAdminRoutes = (
     const handleExport = createCsvExportHandler({
       db: env.DB,
       filenamePrefix: env.ADMIN_EXPORT_FILENAME_PREFIX,
+      anonymization: getExportAnonymization(env),
     });
 
     routes.export = createAdminExportRoute({
@@ -815,6 +1175,14 @@ const createAdminRoutes = (
     routes.exportToken = exportToken;
   }
 
+  if (dialogStats) {
+    routes.stats = createAdminStatsRoute({ stats: dialogStats, logger: console });
+  }
+
+  if (cron) {
+    routes.cronRun = createCronRunRoute({ dispatcher: cron });
+  }
+
   if (broadcastRecipientsStore) {
     routes.broadcastRecipients = createBroadcastRecipientsAdminHandlers({
       store: broadcastRecipientsStore,
@@ -822,6 +1190,20 @@ const createAdminRoutes = (
     });
   }
 
+  if (scheduledBroadcasts) {
+    routes.scheduledBroadcasts = createScheduledBroadcastsAdminHandlers({
+      store: scheduledBroadcasts,
+      logger: console,
+    });
+  }
+
+  if (broadcastDeliveries) {
+    routes.broadcastDeliveries = createBroadcastDeliveriesAdminHandlers({
+      store: broadcastDeliveries,
+      logger: console,
+    });
+  }
+
   return routes;
 };
 
@@ -831,10 +1213,15 @@ const createTransformPayload = (
   adminAccess: AdminAccess | undefined,
   adminErrorRecorder: AdminCommandErrorRecorder,
   broadcastRegistry: BroadcastRecipientsStore | undefined,
+  broadcastSubscriptions: BroadcastSubscriptionTracker | undefined,
+  broadcastSender: SendBroadcast | undefined,
+  scheduledBroadcasts: ScheduledBroadcastsStore | undefined,
   exportRateTelemetry?: ExportRateTelemetry,
-  broadcastRuntime?: BroadcastRuntimeConfig,
-  broadcastTelemetry?: BroadcastTelemetry,
-  messagingBroadcast?: MessagingPort,
+  callbackData?: CallbackDataSigner,
+  voiceConfig?: VoiceTranscriptionConfig,
+  broadcastDeliveries?: BroadcastDeliveriesStore,
+  exportJobs?: ExportJobRunner,
+  dialogStats?: DialogStatsStore,
 ): TelegramWebhookHandler => {
   const botToken = getTrimmedString(env.TELEGRAM_BOT_TOKEN);
   const adminExportKv = env.ADMIN_EXPORT_KV ?? env.ADMIN_TG_IDS;
@@ -844,6 +1231,7 @@ const createTransformPayload = (
     ? createCsvExportHandler({
         db: env.DB,
         filenamePrefix: env.ADMIN_EXPORT_FILENAME_PREFIX,
+        anonymization: getExportAnonymization(env),
       })
     : undefined;
 
@@ -861,75 +1249,12 @@ const createTransformPayload = (
         now: () => new Date(),
         adminErrorRecorder,
         telemetry: exportRateTelemetry,
+        callbackData,
+        jobs: exportJobs,
       })
     : undefined;
 
-  const broadcastEnabled =
-    !!broadcastRegistry
-    && !!env.ADMIN_EXPORT_LOG
-    && (typeof env.BROADCAST_ENABLED === 'undefined' ? true : isEnabledFlag(env.BROADCAST_ENABLED));
-  const broadcastPendingStore = broadcastEnabled ? getBroadcastSessionStore(env) : undefined;
-
-  const poolOverrides = broadcastRuntime
-    ? {
-        concurrency: broadcastRuntime.maxParallel,
-        maxRps: broadcastRuntime.maxRps,
-        baseDelayMs: broadcastRuntime.baseDelayMs,
-        jitterRatio: broadcastRuntime.jitterRatio,
-        rateJitterRatio: broadcastRuntime.rateJitterRatio,
-      }
-    : undefined;
-  const emergencyStop = broadcastRuntime
-    ? { retryAfterMs: broadcastRuntime.emergencyStopRetryAfterMs }
-    : undefined;
-  const broadcastSender: SendBroadcast | undefined = broadcastEnabled && broadcastRegistry
-    ? createRegistryBroadcastSender({
-        messaging: composition.ports.messaging,
-        messagingBroadcast,
-        registry: broadcastRegistry,
-        logger: console,
-        pool: poolOverrides,
-        telemetry: broadcastTelemetry,
-        emergencyStop,
-        progressKv: env.BROADCAST_PENDING_KV,
-        progressTtlSeconds: 24 * 60 * 60,
-        onAdminNotification: async ({ adminChat, jobId, status, reason, checkpoint }) => {
-          if (!adminChat) {
-            return;
-          }
-
-          const statusLabel = status === 'paused' ? '⏸ Пауза' : '❌ Прервано';
-          const stopReason = checkpoint?.reason ?? reason;
-          const reasonLabel = stopReason.replaceAll('_', ' ');
-          const remaining = checkpoint ? Math.max(0, checkpoint.total - checkpoint.offset) : null;
-          const ttlSeconds = checkpoint?.expiresAt
-            ? Math.max(0, Math.floor((new Date(checkpoint.expiresAt).getTime() - Date.now()) / 1000))
-            : checkpoint?.ttlSeconds ?? null;
-
-          const lines = [
-            `${statusLabel}: jobId=${jobId}`,
-            `Статус: ${checkpoint?.status ?? status}`,
-            `Причина: ${reasonLabel}`,
-            checkpoint
-              ? `Прогресс: delivered=${checkpoint.delivered}, failed=${checkpoint.failed}, throttled429=${checkpoint.throttled429}`
-              : null,
-            checkpoint
-              ? `Курсор: offset=${checkpoint.offset}/${checkpoint.total}${remaining !== null ? `, remaining=${remaining}` : ''}`
-              : null,
-            ttlSeconds !== null ? `TTL чекпоинта: ${ttlSeconds}s` : null,
-            `Команды: /broadcast_resume ${jobId}, /broadcast_pause ${jobId}, /broadcast_status ${jobId}, /broadcast_end ${jobId}, /cancel_broadcast`,
-          ].filter((line): line is string => Boolean(line));
-
-          const message = lines.join('\n');
-
-          await composition.ports.messaging.sendText({
-            chatId: adminChat.chatId,
-            threadId: adminChat.threadId,
-            text: message,
-          });
-        },
-      })
-    : undefined;
+  const broadcastPendingStore = broadcastSender ? getBroadcastSessionStore(env) : undefined;
 
   const broadcastCommandHandler = adminAccess && broadcastSender
     ? createTelegramBroadcastCommandHandler({
@@ -943,6 +1268,12 @@ const createTransformPayload = (
         pendingStore: broadcastPendingStore,
         pendingKv: env.BROADCAST_PENDING_KV,
         exportLogKv: env.ADMIN_EXPORT_LOG,
+        callbackData,
+        scheduledBroadcasts,
+        scheduleTimeZone: getTrimmedString(env.BROADCAST_SCHEDULE_TZ),
+        maxConcurrentJobs: toPositiveInteger(env.BROADCAST_MAX_JOBS),
+        profiles: broadcastRegistry,
+        ai: composition.ports.ai,
       })
     : undefined;
 
@@ -960,7 +1291,7 @@ const createTransformPayload = (
     const handler: AdminCommandHandler = (context) => {
       const command = context.command.toLowerCase();
 
-      if (command === '/export') {
+      if (command === '/export' || command.startsWith('/export_')) {
         return exportCommandHandler(context);
       }
 
@@ -984,6 +1315,15 @@ const createTransformPayload = (
     adminCommandHandlers.push(handler);
   }
 
+  if (adminAccess && dialogStats) {
+    adminCommandHandlers.push(createTelegramStatsCommandHandler({
+      adminAccess,
+      stats: dialogStats,
+      messaging: composition.ports.messaging,
+      logger: console,
+    }));
+  }
+
   const handleAdminCommand = adminCommandHandlers.length > 0
     ? async (context: TelegramAdminCommandContext) => {
         for (const handler of adminCommandHandlers) {
@@ -997,19 +1337,123 @@ const createTransformPayload = (
       }
     : undefined;
 
-  const webhookFeatures: Parameters<typeof createTelegramWebhookHandler>[0]['features'] | undefined =
-    handleAdminCommand || broadcastCommandHandler
+  const callbackRoutes: Record<string, CallbackQueryRoute> = {};
+
+  if (composition.ports.storage.deleteUserData) {
+    callbackRoutes[FORGET_CALLBACK_NAMESPACE] = createForgetCallbackHandler({
+      storage: composition.ports.storage,
+      messaging: composition.ports.messaging,
+      onForgotten: (userId) => telegramWebhookHandler.knownUsers.forget(userId),
+    });
+  }
+
+  if (broadcastCommandHandler) {
+    callbackRoutes[BROADCAST_CALLBACK_NAMESPACE] = broadcastCommandHandler.handleCallback;
+  }
+
+  if (handleAdminCommand) {
+    callbackRoutes[ADMIN_MENU_CALLBACK_NAMESPACE] = async (context) => {
+      const resolved = resolveAdminMenuCommand(context.data);
+      if (!resolved) {
+        return undefined;
+      }
+
+      const result = await handleAdminCommand(
+        createCallbackCommandContext(context, resolved.command, resolved.argument),
+      );
+
+      return result === undefined ? { text: 'Команда недоступна.' } : undefined;
+    };
+  }
+
+  const handleCallbackQuery = callbackData && Object.keys(callbackRoutes).length > 0
+    ? createCallbackQueryDispatcher({
+        signer: callbackData,
+        messaging: composition.ports.messaging,
+        routes: callbackRoutes,
+      })
+    : undefined;
+
+  type WebhookFeatures = NonNullable<Parameters<typeof createTelegramWebhookHandler>[0]['features']>;
+
+  const handleMessage: WebhookFeatures['handleMessage'] = broadcastSubscriptions
+    ? async (message, context) => {
+        await broadcastSubscriptions.handleMessage(message, context);
+        return broadcastCommandHandler?.handleMessage(message, context);
+      }
+    : broadcastCommandHandler?.handleMessage;
+
+  const annotateMessage: WebhookFeatures['annotateMessage'] = broadcastDeliveries
+    ? createBroadcastReplyAttribution({
+        deliveries: broadcastDeliveries,
+        windowHours: toPositiveInteger(env.BROADCAST_REPLY_WINDOW_HOURS),
+        logger: console,
+      })
+    : undefined;
+
+  const webhookFeatures: WebhookFeatures | undefined =
+    handleAdminCommand || handleMessage || handleCallbackQuery || broadcastSubscriptions || annotateMessage
       ? {
           ...(handleAdminCommand ? { handleAdminCommand } : {}),
-          ...(broadcastCommandHandler ? { handleMessage: broadcastCommandHandler.handleMessage } : {}),
+          ...(handleMessage ? { handleMessage } : {}),
+          ...(annotateMessage ? { annotateMessage } : {}),
+          ...(handleCallbackQuery ? { handleCallbackQuery } : {}),
+          ...(broadcastSubscriptions
+            ? { handleChatMemberUpdate: broadcastSubscriptions.handleChatMemberUpdate }
+            : {}),
         }
       : undefined;
 
+  const rateLimitConfig = readRateLimitConfig(env);
+  const voiceRateLimit = voiceConfig?.enabled && env.RATE_LIMIT_KV
+    ? createRateLimitToggle({
+        kv: env.RATE_LIMIT_KV,
+        rateLimit: createKvRateLimitAdapter({
+          kv: env.RATE_LIMIT_KV,
+          limit: voiceConfig.dailyLimit ?? rateLimitConfig.limit,
+          windowMs: rateLimitConfig.windowMs,
+          prefix: 'voice_limit',
+        }),
+      })
+    : undefined;
+
+  const transcribeVoice: VoiceMessageTranscriber | undefined = voiceConfig?.enabled
+    ? createVoiceMessageTranscriber({
+        messaging: composition.ports.messaging,
+        transcription: composition.ports.transcription,
+        maxDurationSec: voiceConfig.maxDurationSec,
+        maxFileBytes: voiceConfig.maxFileBytes,
+        rateLimit: voiceRateLimit,
+      })
+    : undefined;
+
+  const mediaConfig = readMediaAttachmentConfig(env);
+  const acceptMediaAttachment = mediaConfig.enabled
+    ? createMediaAttachmentPolicy({
+        maxFileBytes: mediaConfig.maxFileBytes,
+        allowedMimeTypes: mediaConfig.allowedMimeTypes,
+        rateLimit: env.RATE_LIMIT_KV
+          ? createRateLimitToggle({
+              kv: env.RATE_LIMIT_KV,
+              rateLimit: createKvRateLimitAdapter({
+                kv: env.RATE_LIMIT_KV,
+                limit: mediaConfig.dailyLimit,
+                windowMs: rateLimitConfig.windowMs,
+                prefix: 'media_limit',
+              }),
+            })
+          : undefined,
+      })
+    : undefined;
+
   const telegramWebhookHandler = createTelegramWebhookHandler({
     storage: composition.ports.storage,
     botUsername: env.TELEGRAM_BOT_USERNAME,
     features: webhookFeatures,
     systemCommands,
+    transcribeVoice,
+    acceptMediaAttachment,
+    forwardMediaToFeatures: Boolean(broadcastCommandHandler),
   });
 
   return telegramWebhookHandler;
@@ -1034,12 +1478,16 @@ const createRequestHandler = async (env: WorkerEnv) => {
   });
   const runtime = validateRuntimeConfig(env);
   const aiRuntime = await readAiConcurrencyConfig(env);
+  const streamingConfig = readStreamingConfig(env);
+  const voiceConfig = readVoiceTranscriptionConfig(env);
   const { overrides: adapters, broadcastMessaging } = createPortOverrides(
     env,
     runtime,
     aiRuntime,
     rateLimitConfig,
     broadcastRuntime,
+    streamingConfig,
+    voiceConfig,
   );
 
   const composition = composeWorker({
@@ -1048,9 +1496,16 @@ const createRequestHandler = async (env: WorkerEnv) => {
       RATE_LIMIT_KV: env.RATE_LIMIT_KV,
     },
     adapters,
+    dialogOptions: {
+      streaming: streamingConfig,
+      summary: readSummaryConfig(env),
+    },
   });
 
   const typingIndicator = createTypingIndicatorIfAvailable(composition.ports.messaging);
+  const callbackData = composition.webhookSecret
+    ? createCallbackDataSigner({ secret: composition.webhookSecret })
+    : undefined;
 
   const adminAccess = createAdminAccessIfConfigured(env);
   const determineCommandRole: DetermineSystemCommandRole | undefined = adminAccess
@@ -1076,16 +1531,53 @@ const createRequestHandler = async (env: WorkerEnv) => {
         logger: console,
       })
     : undefined;
+  const broadcastSubscriptions = broadcastRegistry
+    ? createBroadcastSubscriptionTracker({ store: broadcastRegistry, logger: console })
+    : undefined;
+  const broadcastDeliveries = env.DB
+    ? createBroadcastDeliveriesStore({ db: env.DB })
+    : undefined;
+  const broadcastSender = createBroadcastSenderIfEnabled(
+    env,
+    composition,
+    broadcastRegistry,
+    broadcastSubscriptions,
+    broadcastRuntime,
+    broadcastTelemetry,
+    broadcastMessaging,
+    callbackData,
+    broadcastDeliveries,
+  );
+  const scheduledBroadcasts = env.DB && broadcastSender
+    ? createScheduledBroadcastsStore({ db: env.DB })
+    : undefined;
+  const exportJobs = createExportJobRunnerIfConfigured(env, composition);
+  const dialogStats = env.DB
+    ? createDialogStatsStore({ db: env.DB, logger: console })
+    : undefined;
   const transformPayload = createTransformPayload(
     env,
     composition,
     adminAccess,
     adminErrorRecorder,
     broadcastRegistry,
+    broadcastSubscriptions,
+    broadcastSender,
+    scheduledBroadcasts,
     exportRateTelemetry,
-    broadcastRuntime,
-    broadcastTelemetry,
-    broadcastMessaging,
+    callbackData,
+    voiceConfig,
+    broadcastDeliveries,
+    exportJobs,
+    dialogStats,
+  );
+  const cron = createCronDispatcherIfConfigured(
+    env,
+    composition,
+    broadcastRegistry,
+    broadcastSender,
+    scheduledBroadcasts,
+    exportJobs,
   );
   const adminRoutes = createAdminRoutes(
     env,
@@ -1096,14 +1588,21 @@ const createRequestHandler = async (env: WorkerEnv) => {
     broadcastRegistry,
     exportRateTelemetry,
     broadcastTelemetry,
+    cron,
+    scheduledBroadcasts,
+    broadcastDeliveries,
+    dialogStats,
   );
 
   const router = createRouter({
     dialogEngine: composition.dialogEngine,
     messaging: composition.ports.messaging,
+    storage: composition.ports.storage,
+    callbackData,
     webhookSecret: composition.webhookSecret,
     typingIndicator,
     rateLimitNotifier: createRateLimitNotifierIfConfigured(env, composition.ports.messaging),
+    rateLimitHits: env.DB ? createRateLimitHitsRecorder({ db: env.DB }) : undefined,
     transformPayload,
     systemCommands: transformPayload.systemCommands,
     determineCommandRole,
@@ -1111,7 +1610,7 @@ const createRequestHandler = async (env: WorkerEnv) => {
     admin: adminRoutes,
   });
 
-  return { router, transformPayload };
+  return { router, transformPayload, cron };
 };
 
 type RequestHandlerResult = Awaited<ReturnType<typeof createRequestHandler>>;
@@ -1151,6 +1650,11 @@ const getEnvironmentVersion = (env: WorkerEnv): string | number | undefined => {
   return undefined;
 };
 
+const getExportAnonymization = (env: WorkerEnv): ExportAnonymizationOptions | undefined => {
+  const salt = getTrimmedString(env.ADMIN_EXPORT_ANON_SALT);
+  return salt ? { salt } : undefined;
+};
+
 type RouterCacheValue = { version?: string | number; promise: Promise<RouterCacheEntry> };
 
 let routerCache: WeakMap<WorkerEnv, RouterCacheValue> = new WeakMap();
@@ -1216,6 +1720,22 @@ export default {
     const { router } = await getCachedRequestHandler(env);
     return router.handle(request, ctx);
   },
+
+  async scheduled(
+    controller: WorkerScheduledController,
+    env: WorkerEnv,
+    ctx: WorkerExecutionContext,
+  ): Promise<void> {
+    const { cron } = await getCachedRequestHandler(env);
+    if (!cron) {
+      console.warn('[cron] scheduled event skipped: CRON_KV or ADMIN_EXPORT_LOG is not bound', {
+        cron: controller.cron,
+      });
+      return;
+    }
+
+    ctx.waitUntil(cron.runScheduled({ cron: controller.cron }));
+  },
 };
 
 export const __internal = {
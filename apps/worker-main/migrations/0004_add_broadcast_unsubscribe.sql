@@ -0,0 +1,9 @@
+-- Migration number: 0004
+-- Migration name: add_broadcast_unsubscribe
+-- Created at: 2026-10-19
+
+ALTER TABLE broadcast_recipients
+  ADD COLUMN blocked_at INTEGER;
+
+ALTER TABLE broadcast_recipients
+  ADD COLUMN unsubscribed_at INTEGER;
@@ -0,0 +1,19 @@
+-- Migration number: 0005
+-- Migration name: create_reminders
+-- Created at: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS reminders (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  chat_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  due_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+  sent_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminders_pending
+  ON reminders (sent_at, due_at);
+
+CREATE INDEX IF NOT EXISTS idx_reminders_user
+  ON reminders (user_id, sent_at);
@@ -0,0 +1,29 @@
+-- Migration number: 0006
+-- Migration name: create_scheduled_broadcasts
+-- Created at: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS scheduled_broadcasts (
+  job_id TEXT PRIMARY KEY,
+  text TEXT NOT NULL,
+  text_hash TEXT NOT NULL,
+  audience_hash TEXT NOT NULL,
+  audience_mode TEXT NOT NULL,
+  audience_total INTEGER NOT NULL,
+  filters TEXT,
+  send_at INTEGER NOT NULL,
+  time_zone TEXT NOT NULL,
+  requested_by TEXT NOT NULL,
+  admin_chat_id TEXT NOT NULL,
+  admin_thread_id TEXT,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+  started_at INTEGER,
+  finished_at INTEGER,
+  cancelled_by TEXT,
+  delivered INTEGER,
+  failed INTEGER,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_broadcasts_due
+  ON scheduled_broadcasts (status, send_at);
@@ -0,0 +1,6 @@
+-- Migration number: 0007
+-- Migration name: add_scheduled_broadcast_content
+-- Created at: 2026-10-19
+
+ALTER TABLE scheduled_broadcasts
+  ADD COLUMN content TEXT;
@@ -0,0 +1,22 @@
+-- Migration number: 0008
+-- Migration name: create_broadcast_deliveries
+-- Created at: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS broadcast_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id TEXT NOT NULL,
+  chat_id TEXT NOT NULL,
+  thread_id TEXT,
+  status TEXT NOT NULL,
+  message_id TEXT,
+  error_code INTEGER,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  sent_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_deliveries_job
+  ON broadcast_deliveries (job_id, status, id);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_deliveries_chat
+  ON broadcast_deliveries (chat_id, sent_at);
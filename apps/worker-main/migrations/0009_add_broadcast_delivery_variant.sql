@@ -0,0 +1,6 @@
+-- Migration number: 0009
+-- Migration name: add_broadcast_delivery_variant
+-- Created at: 2026-10-19
+
+ALTER TABLE broadcast_deliveries
+  ADD COLUMN variant TEXT;
@@ -0,0 +1,14 @@
+-- Migration number: 0010
+-- Migration name: create_rate_limit_hits
+-- Created at: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  chat_id TEXT NOT NULL,
+  thread_id TEXT,
+  hit_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_hit_at
+  ON rate_limit_hits (hit_at);
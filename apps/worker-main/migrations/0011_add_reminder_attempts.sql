@@ -0,0 +1,14 @@
+-- Migration number: 0011
+-- Migration name: add_reminder_attempts
+-- Created at: 2026-10-19
+
+ALTER TABLE reminders
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE reminders
+  ADD COLUMN failed_at INTEGER;
+
+DROP INDEX IF EXISTS idx_reminders_pending;
+
+CREATE INDEX IF NOT EXISTS idx_reminders_pending
+  ON reminders (sent_at, failed_at, due_at);
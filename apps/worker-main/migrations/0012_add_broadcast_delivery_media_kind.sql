@@ -0,0 +1,6 @@
+-- Migration number: 0012
+-- Migration name: add_broadcast_delivery_media_kind
+-- Created at: 2026-10-19
+
+ALTER TABLE broadcast_deliveries
+  ADD COLUMN media_kind TEXT;
@@ -0,0 +1,6 @@
+-- Migration number: 0013
+-- Migration name: add_rate_limit_hits_user_index
+-- Created at: 2026-10-19
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_user
+  ON rate_limit_hits (user_id);
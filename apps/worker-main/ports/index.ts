@@ -5,11 +5,76 @@
 
 export type MessageRole = 'user' | 'assistant' | 'system';
 
+export type MessageAttachmentKind = 'image' | 'document';
+
+export interface MessageAttachment {
+  readonly kind: MessageAttachmentKind;
+  /**
+   * Идентификатор файла на стороне платформы; по нему вложение
+   * восстанавливается при повторном проигрывании истории.
+   */
+  readonly fileId: string;
+  readonly mimeType?: string;
+  readonly size?: number;
+  readonly fileName?: string;
+  /**
+   * Как файл пришёл от платформы: сжатым фото или файлом-документом. Нужен,
+   * чтобы переотправить его тем же методом.
+   */
+  readonly origin?: 'photo' | 'document';
+  /**
+   * Содержимое файла в виде `data:<mime>;base64,...`. Заполняется перед
+   * запросом к модели и не сохраняется в истории: ссылки платформы на файлы
+   * могут содержать токен бота, поэтому наружу уходят только байты.
+   */
+  readonly dataUrl?: string;
+}
+
 export interface ConversationTurn {
   readonly role: MessageRole;
   readonly text: string;
+  readonly attachments?: ReadonlyArray<MessageAttachment>;
+}
+
+/**
+ * Кнопка либо возвращает `callbackData` боту, либо открывает `url`.
+ */
+export type InlineKeyboardButton =
+  | {
+      text: string;
+      /**
+       * Данные кнопки, которые Telegram вернёт в `callback_query.data` (≤64 байт).
+       */
+      callbackData: string;
+      url?: never;
+    }
+  | {
+      text: string;
+      url: string;
+      callbackData?: never;
+    };
+
+export interface InlineKeyboardMarkup {
+  inlineKeyboard: ReadonlyArray<ReadonlyArray<InlineKeyboardButton>>;
+}
+
+/**
+ * Разметка текста в терминах Telegram `MessageEntity`: смещение и длина
+ * считаются в UTF-16 code units.
+ */
+export interface MessageTextEntity {
+  readonly type: string;
+  readonly offset: number;
+  readonly length: number;
+  readonly url?: string;
+  readonly language?: string;
+  readonly customEmojiId?: string;
 }
 
+export type MessageParseMode = 'MarkdownV2' | 'HTML';
+
+export type OutgoingMediaKind = 'photo' | 'document';
+
 export interface MessagingPort {
   /**
    * Отправляет индикатор набора текста, чтобы пользователь видел прогресс ответа.
@@ -38,11 +103,39 @@ export interface MessagingPort {
    *   доступен у платформы.
    * - Входной текст должен быть очищен от управляющих символов, чтобы Telegram
    *   не отклонял сообщение.
+   * - Inline-клавиатура (`replyMarkup`) прикрепляется к последней части, если
+   *   текст пришлось разбить.
+   * - Текст с `entities` или `parseMode` не разбивается: разметка относится ко
+   *   всему сообщению, поэтому слишком длинный текст отклоняется ошибкой.
    */
   sendText(input: {
     chatId: string; // Строго строковый идентификатор; адаптер не делает String(value).
     threadId?: string;
     text: string;
+    replyMarkup?: InlineKeyboardMarkup;
+    entities?: ReadonlyArray<MessageTextEntity>;
+    parseMode?: MessageParseMode;
+  }): Promise<{ messageId?: string }>;
+
+  /**
+   * Отправляет фото или документ по идентификатору файла платформы, не
+   * загружая его заново.
+   *
+   * Контракт:
+   * - Метод опционален; без него рассылки с вложениями недоступны.
+   * - Подпись не разбивается и должна укладываться в лимит платформы
+   *   (1024 символа у Telegram).
+   * - Повторы и ошибки — как у `sendText`.
+   */
+  sendMedia?(input: {
+    chatId: string;
+    threadId?: string;
+    kind: OutgoingMediaKind;
+    fileId: string;
+    caption?: string;
+    captionEntities?: ReadonlyArray<MessageTextEntity>;
+    parseMode?: MessageParseMode;
+    replyMarkup?: InlineKeyboardMarkup;
   }): Promise<{ messageId?: string }>;
 
   /**
@@ -54,12 +147,31 @@ export interface MessagingPort {
    *   как уведомить оператора.
    * - Текст проходит такую же санитизацию, как и при отправке нового
    *   сообщения, чтобы Telegram не отклонял запрос.
+   * - Без `replyMarkup` Telegram убирает inline-клавиатуру сообщения; чтобы
+   *   сохранить кнопки, их нужно передать повторно.
    */
   editMessageText(input: {
     chatId: string;
     messageId: string;
     threadId?: string;
     text: string;
+    replyMarkup?: InlineKeyboardMarkup;
+  }): Promise<void>;
+
+  /**
+   * Обновляет подпись ранее отправленного медиа: `editMessageText` для
+   * фото и документов Telegram отклоняет.
+   *
+   * Контракт:
+   * - Метод опционален; без него медиа-сообщения не редактируются.
+   * - Повторы, санитизация и `replyMarkup` — как у `editMessageText`.
+   */
+  editMessageCaption?(input: {
+    chatId: string;
+    messageId: string;
+    threadId?: string;
+    caption: string;
+    replyMarkup?: InlineKeyboardMarkup;
   }): Promise<void>;
 
   /**
@@ -76,6 +188,71 @@ export interface MessagingPort {
     messageId: string;
     threadId?: string;
   }): Promise<void>;
+
+  /**
+   * Подтверждает нажатие inline-кнопки, чтобы клиент Telegram убрал индикатор
+   * загрузки. Необязательный `text` показывается всплывающим уведомлением
+   * (или окном, если `showAlert`).
+   *
+   * Контракт:
+   * - Как и `sendTyping`, метод не должен бросать исключение: неподтверждённое
+   *   нажатие влияет только на индикатор в клиенте, а не на саму операцию.
+   */
+  answerCallbackQuery?(input: {
+    callbackQueryId: string;
+    text?: string;
+    showAlert?: boolean;
+  }): Promise<void>;
+
+  /**
+   * Скачивает файл, присланный пользователем (голосовое, фото, документ), по
+   * идентификатору платформы.
+   *
+   * Контракт:
+   * - Метод опционален; без него вложения не обрабатываются.
+   * - Если размер файла известен заранее и превышает `maxBytes`, файл не
+   *   скачивается, а метод выбрасывает ошибку `FILE_TOO_LARGE`.
+   * - Временные ошибки повторяются так же, как у `sendText`; при окончательном
+   *   сбое метод выбрасывает исключение.
+   */
+  downloadFile?(input: {
+    fileId: string;
+    maxBytes?: number;
+  }): Promise<DownloadedFile>;
+}
+
+export interface DownloadedFile {
+  data: ArrayBuffer;
+  /**
+   * Путь файла на стороне платформы, например `voice/file_1.oga`.
+   */
+  filePath?: string;
+  size: number;
+}
+
+export interface TranscriptionInput {
+  audio: ArrayBuffer;
+  fileName: string;
+  mimeType?: string;
+  languageCode?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TranscriptionPort {
+  /**
+   * Распознаёт речь в аудиофайле.
+   *
+   * Контракт:
+   * - Возвращает текст без управляющих символов; пустая строка означает, что
+   *   речь не распознана.
+   * - При сбое выбрасывает исключение, не раскрывая содержимое аудио в логах.
+   */
+  transcribe(input: TranscriptionInput): Promise<TranscriptionResult>;
 }
 
 export interface AiQueueConfigSources {
@@ -107,6 +284,74 @@ export interface AiQueueStats {
   };
 }
 
+export interface AiReplyInput {
+  userId: string;
+  text: string;
+  /**
+   * Вложения текущего сообщения; модель получает только элементы с `dataUrl`.
+   */
+  attachments?: ReadonlyArray<MessageAttachment>;
+  context: ReadonlyArray<ConversationTurn>;
+  languageCode?: string;
+  /**
+   * Разрешает модели вызывать инструменты адаптера. По умолчанию выключено:
+   * служебные запросы (сводка диалога, перевод рассылки) инструментов не получают.
+   */
+  tools?: boolean;
+}
+
+export interface AiToolDefinition {
+  name: string;
+  description: string;
+  /**
+   * JSON Schema объекта аргументов в формате function calling.
+   */
+  parameters: Record<string, unknown>;
+}
+
+export interface AiToolCallContext {
+  userId: string;
+}
+
+export interface AiToolExecutionResult {
+  status: 'ok' | 'error';
+  /**
+   * Строка, которую модель получит в `function_call_output`.
+   */
+  output: string;
+}
+
+export interface AiToolRegistry {
+  listTools(): ReadonlyArray<AiToolDefinition>;
+  /**
+   * Выполняет вызов инструмента моделью.
+   *
+   * Контракт:
+   * - Не выбрасывает исключений: неизвестный инструмент, невалидные аргументы
+   *   и сбои обработчика возвращаются как `status: 'error'`, чтобы модель
+   *   могла ответить пользователю.
+   */
+  execute(
+    call: { name: string; arguments: string },
+    context: AiToolCallContext,
+  ): Promise<AiToolExecutionResult>;
+}
+
+export interface AiReplyResult {
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AiStreamHandlers {
+  /**
+   * Получает очередной текстовый фрагмент и накопленный к этому моменту текст.
+   * Вызывается синхронно из цикла чтения потока, поэтому обработчик не должен
+   * блокировать чтение: долгие операции (отправка/редактирование) планируются
+   * асинхронно на стороне вызывающего.
+   */
+  onTextDelta(update: { delta: string; text: string }): void;
+}
+
 export interface AiPort {
   /**
    * Запрашивает ответ у модели, используя текущий ввод пользователя и контекст диалога.
@@ -119,15 +364,21 @@ export interface AiPort {
    * - Возвращаемый текст должен быть безопасным к отображению, без управляющих
    *   символов и не пустым (минимум одно видимое сообщение).
    */
-  reply(input: {
-    userId: string;
-    text: string;
-    context: ReadonlyArray<ConversationTurn>;
-    languageCode?: string;
-  }): Promise<{
-    text: string;
-    metadata?: Record<string, unknown>;
-  }>;
+  reply(input: AiReplyInput): Promise<AiReplyResult>;
+
+  /**
+   * Потоковый вариант `reply`: модель отдаёт ответ частями, а адаптер сообщает о
+   * каждом фрагменте через `handlers.onTextDelta`.
+   *
+   * Контракт:
+   * - Метод опционален; ядро вызывает его только при включённом стриминге.
+   * - Укладывается в тот же общий таймаут, что и `reply`, но без повторов:
+   *   после первого полученного фрагмента повтор запроса невозможен.
+   * - По завершении возвращает итоговый текст (с той же санитизацией, что и
+   *   `reply`) и метаданные ответа.
+   * - При любом сбое выбрасывает исключение; ядро откатывается на `reply`.
+   */
+  replyStream?(input: AiReplyInput, handlers: AiStreamHandlers): Promise<AiReplyResult>;
   getQueueStats?(): AiQueueStats;
 }
 
@@ -185,11 +436,63 @@ export interface StoragePort {
    * - Метод не должен возвращать больше `limit` элементов.
    * - При недоступности хранилища возвращает пустой список и логирует
    *   предупреждение вместо выброса ошибки.
+   * - Служебные сообщения-саммари (`metadata.kind === 'summary'`) в хвост не
+   *   попадают — их отдаёт `getConversationSummary`.
+   * - Сообщения до последнего маркера сброса контекста (`role === 'system'`,
+   *   `metadata.kind === 'context_reset'`) не возвращаются, сам маркер тоже.
    */
   getRecentMessages(input: {
     userId: string;
     limit: number;
   }): Promise<StoredMessage[]>;
+
+  /**
+   * Возвращает последнее сохранённое саммари диалога (роль `system`,
+   * `metadata.kind === 'summary'`).
+   *
+   * Контракт:
+   * - Метод опционален; без него ядро не сворачивает историю.
+   * - Саммари, созданные до последнего сброса контекста, не возвращаются.
+   * - При недоступности хранилища возвращает `undefined` и логирует
+   *   предупреждение.
+   */
+  getConversationSummary?(input: { userId: string }): Promise<StoredMessage | undefined>;
+
+  /**
+   * Возвращает сообщения пользователя строго новее `after` (или с начала
+   * истории, если `after` не задан) в порядке возрастания времени.
+   *
+   * Контракт:
+   * - Саммари, маркеры сброса и сообщения до последнего сброса в выборку не
+   *   попадают.
+   * - Метод не должен возвращать больше `limit` элементов.
+   * - При сбое выбрасывает ошибку: вызывающий решает, пропустить ли
+   *   обновление саммари.
+   */
+  getMessagesAfter?(input: {
+    userId: string;
+    after?: Date;
+    limit: number;
+  }): Promise<StoredMessage[]>;
+
+  /**
+   * Безвозвратно удаляет историю сообщений, профиль и напоминания
+   * пользователя, журнал доставок рассылок в его личный чат и его упоры
+   * в лимит сообщений.
+   *
+   * Контракт:
+   * - Метод опционален; без него команда `/forget` недоступна.
+   * - Повторный вызов для уже удалённого пользователя успешен и возвращает нули.
+   * - При сбое выбрасывает ошибку, чтобы пользователь не получил ложное
+   *   подтверждение удаления.
+   */
+  deleteUserData?(input: { userId: string }): Promise<{
+    deletedMessages: number;
+    deletedUsers: number;
+    deletedReminders: number;
+    deletedBroadcastDeliveries: number;
+    deletedRateLimitHits: number;
+  }>;
 }
 
 export interface RateLimitContext {